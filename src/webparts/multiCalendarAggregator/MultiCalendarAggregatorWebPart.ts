@@ -1,6 +1,6 @@
 import * as React from 'react';
 import * as ReactDom from 'react-dom';
-import { Version } from '@microsoft/sp-core-library';
+import { Version, DisplayMode } from '@microsoft/sp-core-library';
 import {
   PropertyPaneTextField,
   PropertyPaneSlider,
@@ -21,6 +21,7 @@ import MultiCalendarAggregator from './components/MultiCalendarAggregator';
 import { IMultiCalendarAggregatorProps } from './components/IMultiCalendarAggregatorProps';
 import { CalendarViewType } from './models/ICalendarModels';
 import { AppConstants } from './constants/AppConstants';
+import { CacheService } from './services/CacheService';
 
 export interface IMultiCalendarAggregatorWebPartProps {
   // Basic Configuration
@@ -31,6 +32,7 @@ export interface IMultiCalendarAggregatorWebPartProps {
   
   // Display Options
   showWeekends: boolean;
+  limitToWorkingHours: boolean;
   maxEvents: number;
   colorCoding: boolean;
   showEventDetails: boolean;
@@ -49,6 +51,8 @@ export interface IMultiCalendarAggregatorWebPartProps {
   
   // Advanced Features
   enableConflictDetection: boolean;
+  mergeDuplicateEvents: boolean;
+  duplicateMatchThreshold: number;
   enableSearch: boolean;
   enableFilters: boolean;
   enableExport: boolean;
@@ -82,8 +86,13 @@ export default class MultiCalendarAggregatorWebPart extends BaseClientSideWebPar
         
         // Display options
         showWeekends: this.properties.showWeekends !== false, // Default to true
+        limitToWorkingHours: !!this.properties.limitToWorkingHours,
         maxEvents: this.properties.maxEvents || AppConstants.DEFAULT_MAX_EVENTS,
         colorCoding: this.properties.colorCoding !== false, // Default to true
+        enableFilters: this.properties.enableFilters !== false, // Default to true
+        enableConflictDetection: this.properties.enableConflictDetection !== false, // Default to true
+        mergeDuplicateEvents: this.properties.mergeDuplicateEvents !== false, // Default to true
+        duplicateMatchThreshold: this.properties.duplicateMatchThreshold || AppConstants.DEFAULT_DUPLICATE_MATCH_THRESHOLD,
         
         // Data source options
         useGraphAPI: this.properties.useGraphAPI || false,
@@ -94,7 +103,9 @@ export default class MultiCalendarAggregatorWebPart extends BaseClientSideWebPar
         environmentMessage: this._environmentMessage,
         hasTeamsContext: !!this.context.sdks.microsoftTeams,
         userDisplayName: this.context.pageContext.user.displayName,
-        context: this.context
+        context: this.context,
+        isEditMode: this.displayMode === DisplayMode.Edit,
+        onSelectedCalendarsChange: (selectedCalendars: string[]) => this._onSelectedCalendarsChange(selectedCalendars)
       }
     );
 
@@ -184,12 +195,21 @@ export default class MultiCalendarAggregatorWebPart extends BaseClientSideWebPar
     }
   }
 
+  // Editors choosing sources in the panel change the page for everyone once it is saved
+  private _onSelectedCalendarsChange(selectedCalendars: string[]): void {
+    this.properties.selectedCalendars = selectedCalendars;
+    this.render();
+  }
+
   private _clearCache(): void {
     // Clear local storage cache
     const cacheKeys = Object.keys(localStorage).filter(key => 
       key.startsWith(AppConstants.CACHE_KEY_PREFIX)
     );
     cacheKeys.forEach(key => localStorage.removeItem(key));
+
+    // Clear cached calendars and events, in memory and in IndexedDB
+    CacheService.getInstance().clear();
     
     // Re-render to trigger data reload
     this.render();
@@ -243,6 +263,7 @@ export default class MultiCalendarAggregatorWebPart extends BaseClientSideWebPar
                   options: [
                     { key: 'month', text: 'Month View' },
                     { key: 'week', text: 'Week View' },
+                    { key: 'work_week', text: 'Work Week View' },
                     { key: 'day', text: 'Day View' },
                     { key: 'agenda', text: 'Agenda View' },
                     { key: 'timeline', text: 'Timeline View' }
@@ -270,6 +291,12 @@ export default class MultiCalendarAggregatorWebPart extends BaseClientSideWebPar
                   onText: 'Show',
                   offText: 'Hide'
                 }),
+                PropertyPaneToggle('limitToWorkingHours', {
+                  label: 'Limit Week, Day and Timeline Views to Working Hours',
+                  checked: !!this.properties.limitToWorkingHours,
+                  onText: 'Working hours',
+                  offText: 'Whole day'
+                }),
                 PropertyPaneToggle('colorCoding', {
                   label: 'Enable Color Coding',
                   checked: this.properties.colorCoding,
@@ -389,6 +416,21 @@ export default class MultiCalendarAggregatorWebPart extends BaseClientSideWebPar
                   onText: 'Enabled',
                   offText: 'Disabled'
                 }),
+                PropertyPaneToggle('mergeDuplicateEvents', {
+                  label: 'Merge Copies of the Same Event',
+                  checked: this.properties.mergeDuplicateEvents !== false,
+                  onText: 'Enabled',
+                  offText: 'Disabled'
+                }),
+                PropertyPaneSlider('duplicateMatchThreshold', {
+                  label: 'Duplicate Match Threshold (% similarity of title and time)',
+                  min: 50,
+                  max: 100,
+                  step: 5,
+                  showValue: true,
+                  value: this.properties.duplicateMatchThreshold || AppConstants.DEFAULT_DUPLICATE_MATCH_THRESHOLD,
+                  disabled: this.properties.mergeDuplicateEvents === false
+                }),
                 PropertyPaneToggle('enableSearch', {
                   label: 'Search Functionality',
                   checked: this.properties.enableSearch !== false,
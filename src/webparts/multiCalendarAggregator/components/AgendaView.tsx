@@ -14,7 +14,9 @@ import {
 import moment from 'moment';
 
 import { ICalendarEvent, ICalendarSource } from '../models/ICalendarModels';
+import { IEventConflict } from '../models/IEventModels';
 import { DateUtils } from '../utils/DateUtils';
+import { DuplicateUtils } from '../utils/DuplicateUtils';
 
 export interface IAgendaViewProps {
   events: ICalendarEvent[];
@@ -23,6 +25,9 @@ export interface IAgendaViewProps {
   theme: ITheme;
   groupBy?: 'date' | 'calendar' | 'category';
   showDays?: number;
+  dateFormat?: string;
+  timeFormat?: string;
+  conflictsByEvent?: Map<string, IEventConflict[]>;
 }
 
 const stackTokens: IStackTokens = { childrenGap: 8 };
@@ -33,7 +38,10 @@ export const AgendaView: React.FC<IAgendaViewProps> = ({
   calendarSources,
   theme,
   groupBy = 'date',
-  showDays = 14
+  showDays = 14,
+  dateFormat,
+  timeFormat,
+  conflictsByEvent
 }) => {
   const [selectedGroupBy, setSelectedGroupBy] = useState<string>(groupBy);
   const [selectedDays, setSelectedDays] = useState<number>(showDays);
@@ -162,7 +170,7 @@ export const AgendaView: React.FC<IAgendaViewProps> = ({
         const date = new Date(groupKey);
         if (DateUtils.isToday(date)) return 'Today';
         if (DateUtils.isTomorrow(date)) return 'Tomorrow';
-        return DateUtils.getFriendlyDate(date);
+        return DateUtils.getFriendlyDate(date, dateFormat);
       }
       case 'calendar':
       case 'category':
@@ -178,22 +186,30 @@ export const AgendaView: React.FC<IAgendaViewProps> = ({
     }
     
     if (selectedGroupBy === 'date') {
-      return `${DateUtils.formatTime(event.start)} - ${DateUtils.formatTime(event.end)}`;
+      return `${DateUtils.formatTime(event.start, timeFormat)} - ${DateUtils.formatTime(event.end, timeFormat)}`;
     }
     
-    return `${DateUtils.formatDateTime(event.start)} - ${DateUtils.formatTime(event.end)}`;
+    const dateTimeFormat = dateFormat && timeFormat ? `${dateFormat} [at] ${timeFormat}` : undefined;
+    return `${DateUtils.formatDateTime(event.start, dateTimeFormat)} - ${DateUtils.formatTime(event.end, timeFormat)}`;
   };
 
   const renderEventCard = (event: ICalendarEvent): React.ReactElement => {
     const calendarSource = calendarSources.find(s => s.id === event.calendarId);
     const eventColor = event.color || calendarSource?.color || theme.palette.themePrimary;
+    const copies = DuplicateUtils.getCopies(event);
 
     return (
       <div
         key={event.id}
         className={eventCardStyles}
         onClick={() => onEventSelect(event)}
-        style={{ borderLeft: `4px solid ${eventColor}` }}
+        style={copies.length > 1
+          ? {
+            borderLeft: '4px solid transparent',
+            ...DuplicateUtils.getColorStripeStyle(copies.map(copy =>
+              copy.color || calendarSources.find(s => s.id === copy.calendarId)?.color || theme.palette.themePrimary))
+          }
+          : { borderLeft: `4px solid ${eventColor}` }}
       >
         <Stack tokens={{ childrenGap: 6 }}>
           {/* Event Title and Time */}
@@ -221,6 +237,19 @@ export const AgendaView: React.FC<IAgendaViewProps> = ({
 
             {/* Event Status Indicators */}
             <Stack horizontal tokens={{ childrenGap: 4 }}>
+              {conflictsByEvent?.has(event.id) && (
+                <Icon
+                  iconName="Warning"
+                  styles={{
+                    root: {
+                      fontSize: '14px',
+                      color: theme.palette.yellowDark
+                    }
+                  }}
+                  title={`Conflicts with ${conflictsByEvent.get(event.id)?.length} event(s)`}
+                />
+              )}
+
               {event.importance === 'high' && (
                 <Icon
                   iconName="Important"
@@ -303,7 +332,7 @@ export const AgendaView: React.FC<IAgendaViewProps> = ({
           <Stack horizontal horizontalAlign="space-between" verticalAlign="center">
             <Stack horizontal verticalAlign="center" tokens={{ childrenGap: 6 }}>
               <Icon
-                iconName={event.calendarType === 'SharePoint' ? 'SharePointLogo' : 'OutlookLogo'}
+                iconName={event.calendarType === 'Exchange' ? 'OutlookLogo' : event.calendarType === 'SharePointList' ? 'CustomList' : 'SharePointLogo'}
                 styles={{
                   root: {
                     fontSize: '12px',
@@ -312,7 +341,7 @@ export const AgendaView: React.FC<IAgendaViewProps> = ({
                 }}
               />
               <Text variant="xSmall" styles={{ root: { color: theme.palette.neutralSecondary } }}>
-                {selectedGroupBy !== 'calendar' ? event.calendarTitle : ''}
+                {selectedGroupBy !== 'calendar' || copies.length > 1 ? copies.map(copy => copy.calendarTitle).join(', ') : ''}
                 {selectedGroupBy !== 'category' && event.category ? ` • ${event.category}` : ''}
               </Text>
             </Stack>
@@ -25,18 +25,31 @@ import {
   CommandBar,
   ICommandBarItemProps,
   TooltipHost,
-  DirectionalHint
+  DirectionalHint,
+  IconButton
 } from '@fluentui/react';
 
-import { ICalendarSource, CalendarSourceType } from '../models/ICalendarModels';
+import { ICalendarSource, CalendarSourceType, ISourceHealth } from '../models/ICalendarModels';
+import { IEventImportResult, ICalendarSyncStatus } from '../models/IEventModels';
 import { DateUtils } from '../utils/DateUtils';
+import { AppConstants } from '../constants/AppConstants';
 
 export interface ICalendarSourcesPanelProps {
   sources: ICalendarSource[];
   selectedSources: string[];
   onSourcesChange: (selectedIds: string[]) => void;
+  selectionMode?: 'page' | 'user'; // Whether saving changes the page for everyone or only the current user
+  hasUserSelection?: boolean;
+  onResetSelection?: () => void;
   onClose: () => void;
   onRefresh?: () => void;
+  onImportCalendar?: (fileName: string, content: string) => IEventImportResult;
+  onRemoveSource?: (sourceId: string) => void;
+  onSourceEnabledChange?: (sourceId: string, isEnabled: boolean) => void;
+  onCheckSourceHealth?: (source: ICalendarSource) => Promise<ISourceHealth>;
+  getSourceHealth?: (sourceId: string) => ISourceHealth | undefined;
+  getSyncStatus?: (sourceId: string) => ICalendarSyncStatus | undefined;
+  favoriteSourceIds?: string[]; // Listed first whatever the sort order
 }
 
 interface ISourceWithHealth extends ICalendarSource {
@@ -45,16 +58,30 @@ interface ISourceWithHealth extends ICalendarSource {
   healthMessage?: string;
   responseTime?: number;
   lastChecked?: Date;
+  health?: ISourceHealth;
 }
 
 const stackTokens: IStackTokens = { childrenGap: 16 };
 
+// Import problems listed in the result message; the rest are summarised
+const MAX_IMPORT_ISSUES_SHOWN = 5;
+
 export const CalendarSourcesPanel: React.FC<ICalendarSourcesPanelProps> = ({
   sources,
   selectedSources,
   onSourcesChange,
+  selectionMode = 'page',
+  hasUserSelection = false,
+  onResetSelection,
   onClose,
-  onRefresh
+  onRefresh,
+  onImportCalendar,
+  onRemoveSource,
+  onSourceEnabledChange,
+  onCheckSourceHealth,
+  getSourceHealth,
+  getSyncStatus,
+  favoriteSourceIds = []
 }) => {
   const theme: ITheme = useTheme();
   const [localSelectedSources, setLocalSelectedSources] = useState<string[]>(selectedSources);
@@ -63,10 +90,25 @@ export const CalendarSourcesPanel: React.FC<ICalendarSourcesPanelProps> = ({
   const [filterHealth, setFilterHealth] = useState<string>('all');
   const [saving, setSaving] = useState<boolean>(false);
   const [sourcesWithHealth, setSourcesWithHealth] = useState<ISourceWithHealth[]>([]);
-  const [isCheckingHealth, setIsCheckingHealth] = useState<boolean>(false);
   const [showAdvanced, setShowAdvanced] = useState<boolean>(false);
   const [sortColumn, setSortColumn] = useState<string>('title');
   const [sortDescending, setSortDescending] = useState<boolean>(false);
+  const [importing, setImporting] = useState<boolean>(false);
+  const [importResult, setImportResult] = useState<{ fileName: string; result: IEventImportResult } | undefined>(undefined);
+  const fileInputRef = React.useRef<HTMLInputElement>(null);
+  const isMountedRef = React.useRef<boolean>(true);
+  const isCheckingHealth = sourcesWithHealth.some(source => source.healthStatus === 'checking');
+
+  const getSyncSummary = (sync: ICalendarSyncStatus): string => {
+    if (sync.syncStatus === 'error') {
+      return `Last sync failed ${DateUtils.getRelativeTime(sync.lastSyncTime)}`;
+    }
+    if (sync.syncType !== 'incremental') {
+      return `Fully synced ${DateUtils.getRelativeTime(sync.lastSyncTime)}: ${sync.eventCount} events`;
+    }
+    const { added, updated, deleted } = sync.changes;
+    return `Synced ${DateUtils.getRelativeTime(sync.lastSyncTime)}: ${added} added, ${updated} updated, ${deleted} deleted`;
+  };
 
   const containerStyles = mergeStyles({
     padding: '20px',
@@ -104,65 +146,91 @@ export const CalendarSourcesPanel: React.FC<ICalendarSourcesPanelProps> = ({
     marginRight: '8px'
   });
 
-  // Initialize sources with health status
-  useEffect(() => {
-    setSourcesWithHealth(sources.map(source => ({
-      ...source,
-      healthStatus: 'checking' as const,
-      healthMessage: 'Checking connection...'
-    })));
-  }, [sources]);
+  // Turn the recorded health of a source into what its card shows
+  const getHealthState = (source: ICalendarSource, health: ISourceHealth): Partial<ISourceWithHealth> => {
+    const latest = health.latest;
+    const latency = latest.latencyMs || 0;
+    let healthStatus: 'healthy' | 'warning' | 'error';
+    let healthMessage: string;
+
+    if (latest.status === 'success') {
+      if (source.canEdit && latest.canEdit === false) {
+        healthStatus = 'warning';
+        healthMessage = 'Connected, but you can no longer edit this calendar';
+      } else if (latency > AppConstants.SOURCE_HEALTH.SLOW_RESPONSE_MS) {
+        healthStatus = 'warning';
+        healthMessage = `Slow response (${latency}ms)`;
+      } else {
+        healthStatus = 'healthy';
+        healthMessage = `Connected (${latency}ms)`;
+      }
+    } else {
+      // Throttling passes on its own, so it is not shown as a failure
+      healthStatus = latest.failureReason === 'throttled' ? 'warning' : 'error';
+      healthMessage = latest.httpStatus
+        ? `${latest.errorMessage} (HTTP ${latest.httpStatus})`
+        : latest.errorMessage || 'Connection failed';
+    }
 
-  // Check health of all sources
-  const checkSourcesHealth = async (): Promise<void> => {
-    setIsCheckingHealth(true);
-    
-    const updatedSources = await Promise.all(
-      sourcesWithHealth.map(async (source) => {
-        const startTime = Date.now();
-        
-        try {
-          // Simulate health check with timeout
-          const healthCheck = new Promise<boolean>((resolve) => {
-            // Mock health check - in real implementation, this would ping the actual service
-            setTimeout(() => {
-              resolve(Math.random() > 0.1); // 90% success rate for demo
-            }, Math.random() * 2000 + 500); // Random delay 500-2500ms
-          });
-          
-          const timeoutPromise = new Promise<boolean>((_, reject) => {
-            setTimeout(() => reject(new Error('Health check timeout')), 5000);
-          });
-          
-          const isHealthy = await Promise.race([healthCheck, timeoutPromise]);
-          const responseTime = Date.now() - startTime;
-          
-          return {
-            ...source,
-            isHealthy,
-            healthStatus: (isHealthy ? 'healthy' : 'warning') as 'healthy' | 'warning',
-            healthMessage: isHealthy ? `Connected (${responseTime}ms)` : 'Connection issues detected',
-            responseTime,
-            lastChecked: new Date()
-          };
-        } catch {
-          const responseTime = Date.now() - startTime;
-          return {
-            ...source,
-            isHealthy: false,
-            healthStatus: 'error' as const,
-            healthMessage: 'Connection failed',
-            responseTime,
-            lastChecked: new Date()
-          };
-        }
-      })
-    );
-    
-    setSourcesWithHealth(updatedSources);
-    setIsCheckingHealth(false);
+    return {
+      isHealthy: healthStatus === 'healthy',
+      healthStatus,
+      healthMessage,
+      responseTime: latest.latencyMs,
+      lastChecked: latest.lastSync,
+      health
+    };
   };
 
+  // Probe sources, all of them unless ids are given; imported calendars are stored locally
+  const checkSourcesHealth = async (sourceIds?: string[]): Promise<void> => {
+    if (!onCheckSourceHealth) return;
+
+    const targets = sources.filter(source =>
+      source.type !== CalendarSourceType.ICS && (!sourceIds || sourceIds.includes(source.id)));
+    const targetIds = targets.map(source => source.id);
+
+    setSourcesWithHealth(current => current.map(source => targetIds.includes(source.id)
+      ? { ...source, healthStatus: 'checking' as const, healthMessage: 'Checking connection...' }
+      : source));
+
+    await Promise.all(targets.map(async (target) => {
+      let update: Partial<ISourceWithHealth>;
+      try {
+        update = getHealthState(target, await onCheckSourceHealth(target));
+      } catch (error) {
+        console.error(`Health check failed for ${target.title}:`, error);
+        update = { isHealthy: false, healthStatus: 'error', healthMessage: 'Health check failed', lastChecked: new Date() };
+      }
+
+      if (isMountedRef.current) {
+        setSourcesWithHealth(current => current.map(source => source.id === target.id ? { ...source, ...update } : source));
+      }
+    }));
+  };
+
+  useEffect(() => {
+    isMountedRef.current = true;
+    return () => {
+      isMountedRef.current = false;
+    };
+  }, []);
+
+  // Show the last recorded health straight away, then probe every source again
+  useEffect(() => {
+    setSourcesWithHealth(sources.map(source => {
+      if (source.type === CalendarSourceType.ICS) {
+        return { ...source, isHealthy: true, healthStatus: 'healthy' as const, healthMessage: 'Stored in this browser' };
+      }
+      const health = getSourceHealth?.(source.id);
+      return health
+        ? { ...source, ...getHealthState(source, health) }
+        : { ...source, healthMessage: onCheckSourceHealth ? 'Not checked yet' : 'Health checks are not available' };
+    }));
+
+    checkSourcesHealth().catch(console.error);
+  }, [sources]);
+
   // Filter sources based on search, type, and health
   const filteredSources = React.useMemo(() => {
     let filtered = sourcesWithHealth;
@@ -191,8 +259,11 @@ export const CalendarSourcesPanel: React.FC<ICalendarSourcesPanelProps> = ({
       );
     }
 
-    // Sort sources
+    // Sort sources, favorites first
     filtered.sort((a, b) => {
+      const favoriteOrder = Number(favoriteSourceIds.includes(b.id)) - Number(favoriteSourceIds.includes(a.id));
+      if (favoriteOrder !== 0) return favoriteOrder;
+
       let comparison = 0;
       
       switch (sortColumn) {
@@ -222,12 +293,14 @@ export const CalendarSourcesPanel: React.FC<ICalendarSourcesPanelProps> = ({
     });
 
     return filtered;
-  }, [sourcesWithHealth, searchQuery, filterType, filterHealth, sortColumn, sortDescending]);
+  }, [sourcesWithHealth, searchQuery, filterType, filterHealth, sortColumn, sortDescending, favoriteSourceIds]);
 
   const typeFilterOptions: IDropdownOption[] = [
     { key: 'all', text: 'All Types' },
     { key: 'sharepoint', text: 'SharePoint Calendars' },
-    { key: 'exchange', text: 'Exchange Calendars' }
+    { key: 'sharepointlist', text: 'SharePoint Lists' },
+    { key: 'exchange', text: 'Exchange Calendars' },
+    { key: 'ics', text: 'Imported Calendars' }
   ];
 
   const healthFilterOptions: IDropdownOption[] = [
@@ -283,10 +356,80 @@ export const CalendarSourcesPanel: React.FC<ICalendarSourcesPanelProps> = ({
     }
   };
 
+  const handleImportFile = async (event: React.ChangeEvent<HTMLInputElement>): Promise<void> => {
+    const file = event.target.files?.[0];
+    // Clear the input so the same file can be imported again
+    event.target.value = '';
+    if (!file || !onImportCalendar) return;
+
+    setImporting(true);
+    setImportResult(undefined);
+    try {
+      const content = await file.text();
+      setImportResult({ fileName: file.name, result: onImportCalendar(file.name, content) });
+    } catch (error) {
+      console.error('Error importing calendar file:', error);
+      setImportResult({
+        fileName: file.name,
+        result: {
+          successCount: 0,
+          errorCount: 1,
+          warningCount: 0,
+          errors: [{ message: error instanceof Error ? error.message : 'The file could not be read' }],
+          warnings: [],
+          importedEvents: []
+        }
+      });
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  const renderImportResult = (): React.ReactElement | undefined => {
+    if (!importResult) return undefined;
+
+    const { fileName, result } = importResult;
+    const issues = [...result.errors, ...result.warnings];
+    const messageBarType = result.successCount === 0
+      ? MessageBarType.error
+      : issues.length > 0 ? MessageBarType.warning : MessageBarType.success;
+
+    return (
+      <MessageBar
+        messageBarType={messageBarType}
+        isMultiline={true}
+        onDismiss={() => setImportResult(undefined)}
+        dismissButtonAriaLabel="Close"
+      >
+        <Stack tokens={{ childrenGap: 4 }}>
+          <Text variant="small">
+            {result.successCount > 0
+              ? `Imported ${result.successCount} event${result.successCount !== 1 ? 's' : ''} from ${fileName}.`
+              : `Nothing was imported from ${fileName}.`}
+            {result.errorCount > 0 && ` ${result.errorCount} error${result.errorCount !== 1 ? 's' : ''}.`}
+            {result.warningCount > 0 && ` ${result.warningCount} warning${result.warningCount !== 1 ? 's' : ''}.`}
+          </Text>
+          {issues.slice(0, MAX_IMPORT_ISSUES_SHOWN).map((issue, index) => (
+            <Text key={index} variant="xSmall">
+              {issue.line ? `Line ${issue.line}: ` : ''}{issue.message}
+            </Text>
+          ))}
+          {issues.length > MAX_IMPORT_ISSUES_SHOWN && (
+            <Text variant="xSmall">... and {issues.length - MAX_IMPORT_ISSUES_SHOWN} more</Text>
+          )}
+        </Stack>
+      </MessageBar>
+    );
+  };
+
   const getSourceIcon = (type: CalendarSourceType): string => {
     switch (type) {
       case CalendarSourceType.Exchange:
         return 'OutlookLogo';
+      case CalendarSourceType.ICS:
+        return 'Attach';
+      case CalendarSourceType.SharePointList:
+        return 'CustomList';
       case CalendarSourceType.SharePoint:
       default:
         return 'SharePointLogo';
@@ -310,14 +453,18 @@ export const CalendarSourcesPanel: React.FC<ICalendarSourcesPanelProps> = ({
   const getSourceStats = (): {
     total: number;
     sharePoint: number;
+    sharePointList: number;
     exchange: number;
+    imported: number;
     selected: number;
     healthy: number;
     warning: number;
     error: number;
   } => {
     const sharePointCount = sourcesWithHealth.filter(s => s.type === CalendarSourceType.SharePoint).length;
+    const sharePointListCount = sourcesWithHealth.filter(s => s.type === CalendarSourceType.SharePointList).length;
     const exchangeCount = sourcesWithHealth.filter(s => s.type === CalendarSourceType.Exchange).length;
+    const importedCount = sourcesWithHealth.filter(s => s.type === CalendarSourceType.ICS).length;
     const selectedCount = localSelectedSources.length;
     const healthyCount = sourcesWithHealth.filter(s => s.healthStatus === 'healthy').length;
     const warningCount = sourcesWithHealth.filter(s => s.healthStatus === 'warning').length;
@@ -326,7 +473,9 @@ export const CalendarSourcesPanel: React.FC<ICalendarSourcesPanelProps> = ({
     return {
       total: sourcesWithHealth.length,
       sharePoint: sharePointCount,
+      sharePointList: sharePointListCount,
       exchange: exchangeCount,
+      imported: importedCount,
       selected: selectedCount,
       healthy: healthyCount,
       warning: warningCount,
@@ -359,7 +508,7 @@ export const CalendarSourcesPanel: React.FC<ICalendarSourcesPanelProps> = ({
       key: 'checkHealth',
       text: 'Check Health',
       iconProps: { iconName: 'Heart' },
-      disabled: isCheckingHealth,
+      disabled: isCheckingHealth || !onCheckSourceHealth,
       onClick: (): void => {
         checkSourcesHealth().catch(console.error);
       }
@@ -368,16 +517,29 @@ export const CalendarSourcesPanel: React.FC<ICalendarSourcesPanelProps> = ({
 
   const renderSourceCard = (source: ISourceWithHealth): React.ReactElement => {
     const isSelected = localSelectedSources.includes(source.id);
+    const isImported = source.type === CalendarSourceType.ICS;
+    const syncStatus = getSyncStatus?.(source.id);
     
     return (
       <div key={source.id} className={sourceCardStyles}>
         <Stack horizontal horizontalAlign="space-between" verticalAlign="start">
           <Stack horizontal verticalAlign="start" tokens={{ childrenGap: 12 }} grow>
-            <Checkbox
-              checked={isSelected}
-              onChange={(_, checked) => handleSourceToggle(source.id, checked || false)}
-              styles={{ root: { marginTop: '2px' } }}
-            />
+            {/* Imported overlays are shown or hidden directly rather than through the selection */}
+            {isImported ? (
+              <Toggle
+                checked={source.isEnabled}
+                disabled={!onSourceEnabledChange}
+                onChange={(_, checked) => onSourceEnabledChange?.(source.id, checked || false)}
+                ariaLabel={`Show ${source.title}`}
+                styles={{ root: { marginTop: '2px', marginBottom: 0 } }}
+              />
+            ) : (
+              <Checkbox
+                checked={isSelected}
+                onChange={(_, checked) => handleSourceToggle(source.id, checked || false)}
+                styles={{ root: { marginTop: '2px' } }}
+              />
+            )}
             
             <Stack grow tokens={{ childrenGap: 8 }}>
               <Stack horizontal verticalAlign="center" tokens={{ childrenGap: 8 }}>
@@ -393,6 +555,10 @@ export const CalendarSourcesPanel: React.FC<ICalendarSourcesPanelProps> = ({
                 <Text variant="medium" styles={{ root: { fontWeight: 600 } }}>
                   {source.title}
                 </Text>
+
+                {favoriteSourceIds.includes(source.id) && (
+                  <Icon iconName="FavoriteStarFill" title="Favorite" styles={{ root: { fontSize: '12px', color: theme.palette.yellowDark } }} />
+                )}
                 
                 {/* Health Indicator */}
                 <TooltipHost
@@ -443,7 +609,7 @@ export const CalendarSourcesPanel: React.FC<ICalendarSourcesPanelProps> = ({
                     styles={{ root: { fontSize: '12px', color: theme.palette.neutralSecondary } }}
                   />
                   <Text variant="xSmall" styles={{ root: { color: theme.palette.neutralSecondary } }}>
-                    {source.type}
+                    {isImported ? 'Imported (read-only)' : source.type}
                   </Text>
                 </Stack>
 
@@ -465,17 +631,56 @@ export const CalendarSourcesPanel: React.FC<ICalendarSourcesPanelProps> = ({
                   Last checked: {DateUtils.getRelativeTime(source.lastChecked)}
                 </Text>
               )}
+
+              {syncStatus && (
+                <Text variant="xSmall" styles={{ root: { color: syncStatus.syncStatus === 'error' ? theme.palette.redDark : theme.palette.neutralTertiary } }}>
+                  {getSyncSummary(syncStatus)}
+                </Text>
+              )}
+
+              {source.health && source.health.errorStreak > 0 && (
+                <Text variant="xSmall" styles={{ root: { color: theme.palette.redDark } }}>
+                  Failed {source.health.errorStreak} {source.health.errorStreak === 1 ? 'check' : 'checks in a row'}
+                  {' · '}
+                  {source.health.lastSuccess
+                    ? `last success ${DateUtils.getRelativeTime(source.health.lastSuccess)}`
+                    : 'no successful check recorded'}
+                </Text>
+              )}
             </Stack>
           </Stack>
 
           <Stack horizontalAlign="end" tokens={{ childrenGap: 4 }}>
-            <Link
-              href={source.url}
-              target="_blank"
-              styles={{ root: { fontSize: '12px' } }}
-            >
-              <Icon iconName="OpenInNewWindow" />
-            </Link>
+            {isImported ? (
+              onRemoveSource && (
+                <IconButton
+                  iconProps={{ iconName: 'Delete' }}
+                  title="Remove imported calendar"
+                  ariaLabel={`Remove ${source.title}`}
+                  onClick={() => onRemoveSource(source.id)}
+                  styles={{ root: { height: '20px', width: '20px' }, icon: { fontSize: '12px' } }}
+                />
+              )
+            ) : (
+              <Link
+                href={source.url}
+                target="_blank"
+                styles={{ root: { fontSize: '12px' } }}
+              >
+                <Icon iconName="OpenInNewWindow" />
+              </Link>
+            )}
+
+            {onCheckSourceHealth && (source.healthStatus === 'error' || source.healthStatus === 'warning') && (
+              <Link
+                onClick={() => {
+                  checkSourcesHealth([source.id]).catch(console.error);
+                }}
+                styles={{ root: { fontSize: '12px' } }}
+              >
+                Retry now
+              </Link>
+            )}
             
             {source.lastModified && (
               <Text variant="xSmall" styles={{ root: { color: theme.palette.neutralTertiary } }}>
@@ -514,6 +719,31 @@ export const CalendarSourcesPanel: React.FC<ICalendarSourcesPanelProps> = ({
         </Stack>
       </div>
 
+      {/* Where the selection is saved */}
+      {selectionMode === 'page' ? (
+        <MessageBar messageBarType={MessageBarType.info} styles={{ root: { marginBottom: '16px' } }}>
+          You are editing the page. Your selection becomes the default for everyone once the page is saved.
+        </MessageBar>
+      ) : (
+        <MessageBar
+          messageBarType={MessageBarType.info}
+          styles={{ root: { marginBottom: '16px' } }}
+          actions={hasUserSelection && onResetSelection ? (
+            <DefaultButton
+              text="Reset to page default"
+              onClick={() => {
+                onResetSelection();
+                onClose();
+              }}
+            />
+          ) : undefined}
+        >
+          {hasUserSelection
+            ? 'You are using your own selection of calendars. Other people still see the page default.'
+            : 'You are using the page default. Changes you save apply only to you.'}
+        </MessageBar>
+      )}
+
       {/* Health Check Progress */}
       {isCheckingHealth && (
         <ProgressIndicator 
@@ -531,9 +761,17 @@ export const CalendarSourcesPanel: React.FC<ICalendarSourcesPanelProps> = ({
           <Text variant="small">
             <strong>{stats.sharePoint}</strong> SharePoint
           </Text>
+          <Text variant="small">
+            <strong>{stats.sharePointList}</strong> SharePoint lists
+          </Text>
           <Text variant="small">
             <strong>{stats.exchange}</strong> Exchange
           </Text>
+          {stats.imported > 0 && (
+            <Text variant="small">
+              <strong>{stats.imported}</strong> imported
+            </Text>
+          )}
           <Text variant="small">
             <strong>{stats.selected}</strong> selected
           </Text>
@@ -592,8 +830,31 @@ export const CalendarSourcesPanel: React.FC<ICalendarSourcesPanelProps> = ({
               onClick={onRefresh}
             />
           )}
+
+          {onImportCalendar && (
+            <>
+              <DefaultButton
+                iconProps={{ iconName: 'Upload' }}
+                text={importing ? 'Importing...' : 'Import .ics'}
+                disabled={importing}
+                onClick={() => fileInputRef.current?.click()}
+              />
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept=".ics,text/calendar"
+                style={{ display: 'none' }}
+                onChange={(event): void => {
+                  handleImportFile(event).catch(console.error);
+                }}
+              />
+            </>
+          )}
         </Stack>
 
+        {/* Import Result */}
+        {renderImportResult()}
+
         {/* Advanced Controls */}
         {showAdvanced && (
           <Stack horizontal tokens={{ childrenGap: 12 }} wrap>
@@ -668,7 +929,7 @@ export const CalendarSourcesPanel: React.FC<ICalendarSourcesPanelProps> = ({
               onClick={(): void => {
                 handleSave().catch(console.error);
               }}
-              disabled={saving}
+              disabled={saving || localSelectedSources.length === 0}
               iconProps={saving ? undefined : { iconName: 'Save' }}
             />
             
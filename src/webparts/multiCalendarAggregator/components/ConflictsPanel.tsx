@@ -0,0 +1,117 @@
+import * as React from 'react';
+import { useMemo } from 'react';
+import {
+  Stack,
+  Text,
+  Icon,
+  ActionButton,
+  MessageBar,
+  MessageBarType,
+  IStackTokens,
+  mergeStyles,
+  useTheme
+} from '@fluentui/react';
+import moment from 'moment';
+
+import { ICalendarEvent } from '../models/ICalendarModels';
+import { IEventConflict } from '../models/IEventModels';
+import { DateUtils } from '../utils/DateUtils';
+
+export interface IConflictsPanelProps {
+  conflicts: IEventConflict[];
+  displayTimeZone: string;
+  dateFormat: string;
+  timeFormat: string;
+  onShowConflict: (conflict: IEventConflict) => void;
+}
+
+const CONFLICT_TYPES: { [type: string]: { label: string; iconName: string } } = {
+  overlap: { label: 'Overlap', iconName: 'Warning' },
+  duplicate: { label: 'Duplicate', iconName: 'Copy' },
+  doubleBooked: { label: 'Double-booked', iconName: 'BlockedSite' }
+};
+
+const stackTokens: IStackTokens = { childrenGap: 12 };
+
+/**
+ * Lists conflicting pairs of events in time order
+ */
+export const ConflictsPanel: React.FC<IConflictsPanelProps> = ({
+  conflicts,
+  displayTimeZone,
+  dateFormat,
+  timeFormat,
+  onShowConflict
+}) => {
+  const theme = useTheme();
+
+  const sortedConflicts = useMemo(() => [...conflicts].sort((a, b) =>
+    Math.max(a.event1.start.getTime(), a.event2.start.getTime()) - Math.max(b.event1.start.getTime(), b.event2.start.getTime())
+  ), [conflicts]);
+
+  const cardStyles = mergeStyles({
+    padding: '12px',
+    borderRadius: '4px',
+    border: `1px solid ${theme.palette.neutralLight}`,
+    borderLeft: `4px solid ${theme.palette.yellowDark}`,
+    backgroundColor: theme.palette.white
+  });
+
+  const formatEventTime = (event: ICalendarEvent): string => {
+    const start = DateUtils.convertToUserTimezone(event.start, displayTimeZone);
+    const end = DateUtils.convertToUserTimezone(event.end, displayTimeZone);
+    return moment(start).isSame(end, 'day')
+      ? `${moment(start).format(dateFormat)} ${moment(start).format(timeFormat)} - ${moment(end).format(timeFormat)}`
+      : `${moment(start).format(`${dateFormat} ${timeFormat}`)} - ${moment(end).format(`${dateFormat} ${timeFormat}`)}`;
+  };
+
+  if (sortedConflicts.length === 0) {
+    return (
+      <MessageBar messageBarType={MessageBarType.success}>
+        No conflicts among the loaded events.
+      </MessageBar>
+    );
+  }
+
+  return (
+    <Stack tokens={stackTokens}>
+      <Text variant="small" styles={{ root: { color: theme.palette.neutralSecondary } }}>
+        Events conflict when they overlap and share a calendar, an attendee or a room. Events shown as free are left out.
+      </Text>
+
+      {sortedConflicts.map(conflict => {
+        const type = CONFLICT_TYPES[conflict.conflictType] || CONFLICT_TYPES.overlap;
+        return (
+          <div key={`${conflict.event1.id}|${conflict.event2.id}`} className={cardStyles}>
+            <Stack tokens={{ childrenGap: 6 }}>
+              <Stack horizontal verticalAlign="center" horizontalAlign="space-between">
+                <Stack horizontal verticalAlign="center" tokens={{ childrenGap: 6 }}>
+                  <Icon iconName={type.iconName} styles={{ root: { color: theme.palette.yellowDark } }} />
+                  <Text styles={{ root: { fontWeight: 600 } }}>{type.label}</Text>
+                  <Text variant="small" styles={{ root: { color: theme.palette.neutralSecondary } }}>
+                    {`overlaps by ${DateUtils.getDuration(new Date(0), new Date((conflict.overlapDuration || 0) * 60000))}`}
+                  </Text>
+                </Stack>
+                <ActionButton
+                  iconProps={{ iconName: 'View' }}
+                  text="Show"
+                  ariaLabel={`Show ${conflict.event1.title} and ${conflict.event2.title}`}
+                  onClick={() => onShowConflict(conflict)}
+                />
+              </Stack>
+
+              {[conflict.event1, conflict.event2].map(event => (
+                <Stack key={event.id} tokens={{ childrenGap: 2 }}>
+                  <Text>{event.title}</Text>
+                  <Text variant="small" styles={{ root: { color: theme.palette.neutralSecondary } }}>
+                    {`${formatEventTime(event)} · ${event.calendarTitle}`}
+                  </Text>
+                </Stack>
+              ))}
+            </Stack>
+          </div>
+        );
+      })}
+    </Stack>
+  );
+};
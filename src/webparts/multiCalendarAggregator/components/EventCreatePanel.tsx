@@ -0,0 +1,474 @@
+import * as React from 'react';
+import { useState, useMemo } from 'react';
+import {
+  Stack,
+  Text,
+  TextField,
+  Dropdown,
+  IDropdownOption,
+  DatePicker,
+  Toggle,
+  ChoiceGroup,
+  IChoiceGroupOption,
+  PrimaryButton,
+  DefaultButton,
+  ActionButton,
+  Icon,
+  MessageBar,
+  MessageBarType,
+  Separator,
+  IStackTokens,
+  useTheme,
+  ITheme
+} from '@fluentui/react';
+import moment from 'moment';
+
+import { ICalendarSource } from '../models/ICalendarModels';
+import { IEventCreateRequest, IRecurrencePattern, IMeetingRoom, IRoomList, IRoomSearchCriteria } from '../models/IEventModels';
+import { ValidationUtils, IValidationError, IValidationWarning } from '../utils/ValidationUtils';
+import { DateUtils } from '../utils/DateUtils';
+import { AppConstants } from '../constants/AppConstants';
+import { RoomFinder } from './RoomFinder';
+
+export interface IEventCreatePanelProps {
+  calendars: ICalendarSource[]; // Calendars the user can create events in
+  defaultCalendarId?: string;
+  start: Date; // Wall-clock time in the display time zone
+  end: Date;
+  isAllDay: boolean;
+  attendees?: string[]; // Email addresses to invite
+  displayTimeZone: string;
+  onCreate: (request: IEventCreateRequest) => void;
+  onClose: () => void;
+  onLoadRoomLists?: () => Promise<IRoomList[]>; // Rooms can only be booked when both are given
+  onFindRooms?: (criteria: IRoomSearchCriteria, start: Date, end: Date) => Promise<IMeetingRoom[]>;
+}
+
+type RecurrenceType = 'none' | IRecurrencePattern['type'];
+type RecurrenceEnd = 'never' | 'date' | 'count';
+
+interface IEventForm {
+  calendarId: string;
+  title: string;
+  location: string;
+  attendees: string;
+  category: string;
+  description: string;
+  isAllDay: boolean;
+  startDate: Date;
+  startTime: string;
+  endDate: Date;
+  endTime: string;
+  reminderMinutes: number;
+  recurrenceType: RecurrenceType;
+  interval: string;
+  recurrenceEnd: RecurrenceEnd;
+  recurrenceEndDate?: Date;
+  occurrences: string;
+  room?: IMeetingRoom;
+}
+
+const stackTokens: IStackTokens = { childrenGap: 12 };
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+const NO_REMINDER = -1;
+
+const reminderOptions: IDropdownOption[] = [
+  { key: NO_REMINDER, text: 'None' },
+  { key: 0, text: 'At start time' },
+  { key: 5, text: '5 minutes before' },
+  { key: 15, text: '15 minutes before' },
+  { key: 30, text: '30 minutes before' },
+  { key: 60, text: '1 hour before' },
+  { key: 1440, text: '1 day before' }
+];
+
+const recurrenceOptions: IDropdownOption[] = [
+  { key: 'none', text: 'Does not repeat' },
+  { key: 'daily', text: 'Daily' },
+  { key: 'weekdays', text: 'Every weekday' },
+  { key: 'weekly', text: 'Weekly' },
+  { key: 'monthly', text: 'Monthly' },
+  { key: 'yearly', text: 'Yearly' }
+];
+
+const recurrenceEndOptions: IChoiceGroupOption[] = [
+  { key: 'never', text: 'Never' },
+  { key: 'date', text: 'On date' },
+  { key: 'count', text: 'After a number of occurrences' }
+];
+
+const INTERVAL_UNITS: { [type: string]: string } = {
+  daily: 'days',
+  weekly: 'weeks',
+  monthly: 'months',
+  yearly: 'years'
+};
+
+const categoryOptions: IDropdownOption[] = [
+  { key: '', text: 'None' },
+  ...AppConstants.EVENT_CATEGORIES.map(category => ({ key: category, text: category }))
+];
+
+/**
+ * Combine a day and an HH:mm time; an invalid time gives an invalid date
+ */
+const atTime = (day: Date, time: string): Date => {
+  if (!TIME_PATTERN.test(time)) {
+    return new Date(NaN);
+  }
+  const [hours, minutes] = time.split(':').map(value => parseInt(value, 10));
+  return moment(day).startOf('day').hours(hours).minutes(minutes).toDate();
+};
+
+/**
+ * Messages for a form field, including nested fields such as attendees[0].email
+ */
+const messagesFor = (items: (IValidationError | IValidationWarning)[], field: string): string | undefined => {
+  const messages = items
+    .filter(item => item.field === field || item.field.indexOf(`${field}.`) === 0 || item.field.indexOf(`${field}[`) === 0)
+    .map(item => item.message);
+  return messages.length > 0 ? Array.from(new Set(messages)).join('. ') : undefined;
+};
+
+/**
+ * Form for a new event in one of the user's writable calendars. Dates and
+ * times are entered in the display time zone.
+ */
+export const EventCreatePanel: React.FC<IEventCreatePanelProps> = ({
+  calendars,
+  defaultCalendarId,
+  start,
+  end,
+  isAllDay,
+  attendees,
+  displayTimeZone,
+  onCreate,
+  onClose,
+  onLoadRoomLists,
+  onFindRooms
+}) => {
+  const theme: ITheme = useTheme();
+  const [submitted, setSubmitted] = useState<boolean>(false);
+  const [showRoomFinder, setShowRoomFinder] = useState<boolean>(false);
+  const [form, setForm] = useState<IEventForm>(() => ({
+    calendarId: defaultCalendarId || calendars[0]?.id || '',
+    title: '',
+    location: '',
+    attendees: (attendees || []).join('; '),
+    category: '',
+    description: '',
+    isAllDay,
+    startDate: start,
+    // All-day selections end at midnight after their last day; their times
+    // are only used if the user switches the event to a timed one
+    endDate: isAllDay ? moment(end).subtract(1, 'day').toDate() : end,
+    startTime: isAllDay ? '09:00' : moment(start).format('HH:mm'),
+    endTime: isAllDay ? '10:00' : moment(end).format('HH:mm'),
+    reminderMinutes: 15,
+    recurrenceType: 'none',
+    interval: '1',
+    recurrenceEnd: 'never',
+    occurrences: '10'
+  }));
+
+  const update = (changes: Partial<IEventForm>): void => {
+    setForm({ ...form, ...changes });
+  };
+
+  const request: IEventCreateRequest = useMemo(() => {
+    const eventStart = form.isAllDay
+      ? moment(form.startDate).startOf('day').toDate()
+      : DateUtils.convertFromUserTimezone(atTime(form.startDate, form.startTime), displayTimeZone);
+    const eventEnd = form.isAllDay
+      ? moment(form.endDate).startOf('day').add(1, 'day').toDate()
+      : DateUtils.convertFromUserTimezone(atTime(form.endDate, form.endTime), displayTimeZone);
+
+    // The day a series repeats on follows its start in the zone it is saved in
+    let recurrence: IRecurrencePattern | undefined;
+    if (form.recurrenceType !== 'none') {
+      recurrence = {
+        type: form.recurrenceType,
+        interval: parseInt(form.interval, 10) || 0,
+        endDate: form.recurrenceEnd === 'date' ? form.recurrenceEndDate : undefined,
+        occurrences: form.recurrenceEnd === 'count' ? parseInt(form.occurrences, 10) || -1 : undefined
+      };
+    }
+
+    const emails = form.attendees.split(/[;,\s]+/).map(email => email.trim()).filter(email => email !== '');
+
+    return {
+      calendarId: form.calendarId,
+      title: form.title.trim(),
+      description: form.description,
+      start: eventStart,
+      end: eventEnd,
+      isAllDay: form.isAllDay,
+      location: form.location.trim() || undefined,
+      category: form.category || undefined,
+      attendees: emails.length > 0 || form.room
+        ? [
+          ...emails.map(email => ({ name: email, email, response: 'none' as const, type: 'required' as const })),
+          ...(form.room ? [{ name: form.room.name, email: form.room.email, response: 'none' as const, type: 'resource' as const }] : [])
+        ]
+        : undefined,
+      reminders: form.reminderMinutes === NO_REMINDER ? undefined : [{ minutes: form.reminderMinutes, method: 'popup' }],
+      recurrence,
+      timeZone: displayTimeZone
+    };
+  }, [form, displayTimeZone]);
+
+  const validation = useMemo(() => ValidationUtils.validateEventCreateRequest(request), [request]);
+
+  // Missing values are only reported once the user tries to save
+  const errors = submitted ? validation.errors : validation.errors.filter(error => error.code !== 'REQUIRED_FIELD');
+  const warnings = validation.warnings;
+
+  const startTimeError = !form.isAllDay && !TIME_PATTERN.test(form.startTime) ? 'Enter the start time as HH:mm' : undefined;
+  const endTimeError = !form.isAllDay && !TIME_PATTERN.test(form.endTime) ? 'Enter the end time as HH:mm' : undefined;
+  const recurrenceEndError = form.recurrenceType !== 'none' && form.recurrenceEnd === 'date' && !form.recurrenceEndDate
+    ? 'Choose the date the series ends'
+    : undefined;
+  const dateErrors = [startTimeError || messagesFor(errors, 'start'), endTimeError || messagesFor(errors, 'end')]
+    .filter((message): message is string => !!message);
+  const dateWarnings = [messagesFor(warnings, 'start'), messagesFor(warnings, 'end')]
+    .filter((message): message is string => !!message);
+
+  const calendarOptions: IDropdownOption[] = calendars.map(calendar => ({ key: calendar.id, text: calendar.title }));
+
+  const handleCreate = (): void => {
+    setSubmitted(true);
+    if (validation.isValid && !startTimeError && !endTimeError && !recurrenceEndError) {
+      onCreate(request);
+    }
+  };
+
+  const renderInlineMessages = (messages: string[], type: 'error' | 'warning'): React.ReactNode => messages.map(message => (
+    <Text
+      key={message}
+      variant="small"
+      styles={{ root: { color: type === 'error' ? theme.palette.redDark : theme.semanticColors.warningIcon } }}
+    >
+      {message}
+    </Text>
+  ));
+
+  return (
+    <Stack tokens={stackTokens}>
+      {messagesFor(errors, 'request') && (
+        <MessageBar messageBarType={MessageBarType.error}>{messagesFor(errors, 'request')}</MessageBar>
+      )}
+
+      <Dropdown
+        label="Calendar"
+        required
+        options={calendarOptions}
+        selectedKey={form.calendarId || undefined}
+        onChange={(_, option) => option && update({ calendarId: option.key as string })}
+        errorMessage={messagesFor(errors, 'calendarId')}
+      />
+
+      <TextField
+        label="Title"
+        required
+        value={form.title}
+        onChange={(_, value) => update({ title: value || '' })}
+        errorMessage={messagesFor(errors, 'title')}
+        maxLength={AppConstants.EVENT_TITLE_MAX_LENGTH}
+      />
+
+      <TextField
+        label="Location"
+        value={form.location}
+        onChange={(_, value) => update({ location: value || '' })}
+      />
+
+      {onLoadRoomLists && onFindRooms && (
+        <Stack tokens={{ childrenGap: 8 }}>
+          {form.room ? (
+            <Stack horizontal verticalAlign="center" tokens={{ childrenGap: 8 }}>
+              <Icon iconName="Room" />
+              <Text>{form.room.name}</Text>
+              <ActionButton
+                iconProps={{ iconName: 'Cancel' }}
+                text="Remove room"
+                onClick={() => update({
+                  room: undefined,
+                  location: form.location === form.room?.location ? '' : form.location
+                })}
+              />
+            </Stack>
+          ) : (
+            <ActionButton
+              iconProps={{ iconName: showRoomFinder ? 'ChevronUp' : 'Room' }}
+              text={showRoomFinder ? 'Hide rooms' : 'Find a room'}
+              onClick={() => setShowRoomFinder(!showRoomFinder)}
+            />
+          )}
+          {showRoomFinder && !form.room && (
+            <RoomFinder
+              start={request.start}
+              end={request.end}
+              onLoadRoomLists={onLoadRoomLists}
+              onFindRooms={onFindRooms}
+              onSelect={room => {
+                update({ room, location: room.location || room.name });
+                setShowRoomFinder(false);
+              }}
+            />
+          )}
+        </Stack>
+      )}
+
+      <Toggle
+        inlineLabel
+        label="All day"
+        checked={form.isAllDay}
+        onChange={(_, checked) => update({ isAllDay: !!checked })}
+      />
+
+      <Stack horizontal tokens={{ childrenGap: 8 }} verticalAlign="end">
+        <DatePicker
+          label="Start"
+          value={form.startDate}
+          onSelectDate={date => date && update({ startDate: date })}
+          styles={{ root: { flex: 1 } }}
+        />
+        {!form.isAllDay && (
+          <TextField
+            placeholder="HH:mm"
+            ariaLabel="Start time"
+            value={form.startTime}
+            onChange={(_, value) => update({ startTime: value || '' })}
+            styles={{ root: { width: '90px' } }}
+          />
+        )}
+      </Stack>
+      <Stack horizontal tokens={{ childrenGap: 8 }} verticalAlign="end">
+        <DatePicker
+          label="End"
+          value={form.endDate}
+          onSelectDate={date => date && update({ endDate: date })}
+          styles={{ root: { flex: 1 } }}
+        />
+        {!form.isAllDay && (
+          <TextField
+            placeholder="HH:mm"
+            ariaLabel="End time"
+            value={form.endTime}
+            onChange={(_, value) => update({ endTime: value || '' })}
+            styles={{ root: { width: '90px' } }}
+          />
+        )}
+      </Stack>
+      {renderInlineMessages(dateErrors, 'error')}
+      {renderInlineMessages(dateWarnings, 'warning')}
+      {!form.isAllDay && (
+        <Text variant="small" styles={{ root: { color: theme.palette.neutralSecondary } }}>
+          Times are in {displayTimeZone}
+        </Text>
+      )}
+
+      <TextField
+        label="Attendees"
+        placeholder="Email addresses separated by commas"
+        value={form.attendees}
+        onChange={(_, value) => update({ attendees: value || '' })}
+        errorMessage={messagesFor(errors, 'attendees')}
+        description={messagesFor(warnings, 'attendees')}
+      />
+
+      <Stack horizontal tokens={{ childrenGap: 8 }}>
+        <Dropdown
+          label="Category"
+          options={categoryOptions}
+          selectedKey={form.category}
+          onChange={(_, option) => option && update({ category: option.key as string })}
+          styles={{ root: { flex: 1 } }}
+        />
+        <Dropdown
+          label="Reminder"
+          options={reminderOptions}
+          selectedKey={form.reminderMinutes}
+          onChange={(_, option) => option && update({ reminderMinutes: option.key as number })}
+          styles={{ root: { flex: 1 } }}
+        />
+      </Stack>
+
+      <TextField
+        label="Description"
+        multiline
+        rows={4}
+        value={form.description}
+        onChange={(_, value) => update({ description: value || '' })}
+      />
+
+      <Separator />
+
+      <Dropdown
+        label="Repeat"
+        options={recurrenceOptions}
+        selectedKey={form.recurrenceType}
+        onChange={(_, option) => option && update({ recurrenceType: option.key as RecurrenceType })}
+      />
+      {form.recurrenceType !== 'none' && (
+        <>
+          {form.recurrenceType !== 'weekdays' && (
+            <TextField
+              label="Repeat every"
+              type="number"
+              min={1}
+              value={form.interval}
+              suffix={INTERVAL_UNITS[form.recurrenceType]}
+              onChange={(_, value) => update({ interval: value || '' })}
+              errorMessage={messagesFor(errors, 'recurrence.interval')}
+              styles={{ root: { width: '200px' } }}
+            />
+          )}
+          <ChoiceGroup
+            label="Ends"
+            options={recurrenceEndOptions}
+            selectedKey={form.recurrenceEnd}
+            onChange={(_, option) => option && update({ recurrenceEnd: option.key as RecurrenceEnd })}
+          />
+          {form.recurrenceEnd === 'date' && (
+            <DatePicker
+              label="End date"
+              value={form.recurrenceEndDate}
+              minDate={form.startDate}
+              onSelectDate={date => update({ recurrenceEndDate: date || undefined })}
+            />
+          )}
+          {form.recurrenceEnd === 'count' && (
+            <TextField
+              label="Occurrences"
+              type="number"
+              min={1}
+              value={form.occurrences}
+              onChange={(_, value) => update({ occurrences: value || '' })}
+              styles={{ root: { width: '200px' } }}
+            />
+          )}
+          {renderInlineMessages(
+            [messagesFor(errors, 'recurrence.type'), recurrenceEndError || messagesFor(errors, 'recurrence.endDate'), messagesFor(errors, 'recurrence.occurrences')]
+              .filter((message): message is string => !!message),
+            'error'
+          )}
+        </>
+      )}
+
+      <Separator />
+
+      <Stack horizontal tokens={{ childrenGap: 8 }} horizontalAlign="end">
+        <PrimaryButton
+          text="Create"
+          iconProps={{ iconName: 'Add' }}
+          disabled={submitted && (!validation.isValid || !!startTimeError || !!endTimeError || !!recurrenceEndError)}
+          onClick={handleCreate}
+        />
+        <DefaultButton text="Cancel" onClick={onClose} />
+      </Stack>
+    </Stack>
+  );
+};
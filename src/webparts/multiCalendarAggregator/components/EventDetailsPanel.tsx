@@ -12,11 +12,15 @@ import {
   ITheme
 } from '@fluentui/react';
 import { DateUtils } from '../utils/DateUtils';
+import { DuplicateUtils } from '../utils/DuplicateUtils';
 import { ICalendarEvent, ICalendarSource } from '../models/ICalendarModels';
 
 export interface IEventDetailsPanelProps {
   event: ICalendarEvent;
   calendarSource?: ICalendarSource;
+  displayTimeZone?: string; // Zone the event times have been shifted to
+  dateFormat?: string;
+  timeFormat?: string;
   onClose: () => void;
   onEdit?: (event: ICalendarEvent) => void;
   onDelete?: (eventId: string) => void;
@@ -27,6 +31,9 @@ const stackTokens: IStackTokens = { childrenGap: 12 };
 export const EventDetailsPanel: React.FC<IEventDetailsPanelProps> = ({
   event,
   calendarSource,
+  displayTimeZone,
+  dateFormat,
+  timeFormat,
   onClose,
   onEdit,
   onDelete
@@ -62,11 +69,13 @@ export const EventDetailsPanel: React.FC<IEventDetailsPanelProps> = ({
     }
   };
 
+  const dateTimeFormat = dateFormat && timeFormat ? `${dateFormat} [at] ${timeFormat}` : undefined;
+
   const formatDateTime = (date: Date): string => {
     if (event.isAllDay) {
-      return DateUtils.formatDate(date);
+      return DateUtils.formatDate(date, dateFormat);
     }
-    return DateUtils.formatDateTime(date);
+    return DateUtils.formatDateTime(date, dateTimeFormat);
   };
 
   const getDuration = (): string => {
@@ -107,12 +116,18 @@ export const EventDetailsPanel: React.FC<IEventDetailsPanelProps> = ({
                 </Text>
                 {!event.isAllDay && (
                   <Text variant="small" styles={{ root: { color: theme.palette.neutralSecondary } }}>
-                    to {DateUtils.formatDateTime(event.end)}
+                    to {DateUtils.formatDateTime(event.end, dateTimeFormat)}
                   </Text>
                 )}
                 <Text variant="small" styles={{ root: { color: theme.palette.neutralSecondary } }}>
                   Duration: {getDuration()}
                 </Text>
+                {!event.isAllDay && displayTimeZone && (
+                  <Text variant="small" styles={{ root: { color: theme.palette.neutralSecondary } }}>
+                    Times shown in {displayTimeZone}
+                    {event.timeZone && event.timeZone !== displayTimeZone && ` (scheduled in ${event.timeZone})`}
+                  </Text>
+                )}
               </Stack>
             </Stack>
           </Stack>
@@ -236,7 +251,7 @@ export const EventDetailsPanel: React.FC<IEventDetailsPanelProps> = ({
               {/* Calendar Source */}
               <Stack horizontal verticalAlign="center" tokens={{ childrenGap: 8 }}>
                 <Icon 
-                  iconName={event.calendarType === 'SharePoint' ? 'SharePointLogo' : 'OutlookLogo'} 
+                  iconName={event.calendarType === 'Exchange' ? 'OutlookLogo' : event.calendarType === 'SharePointList' ? 'CustomList' : event.calendarType === 'ICS' ? 'Attach' : 'SharePointLogo'} 
                   styles={iconStyles} 
                 />
                 <Text variant="medium">Source: {event.calendarType}</Text>
@@ -245,6 +260,26 @@ export const EventDetailsPanel: React.FC<IEventDetailsPanelProps> = ({
           </Stack>
         </div>
 
+        {/* Calendars holding a copy of this event */}
+        {!!event.duplicates?.length && (
+          <div className={sectionStyles}>
+            <Stack tokens={{ childrenGap: 8 }}>
+              <Label>Appears in {event.duplicates.length + 1} calendars</Label>
+              {DuplicateUtils.getCopies(event).map(copy => (
+                <Stack key={copy.id} horizontal verticalAlign="center" tokens={{ childrenGap: 8 }}>
+                  <div style={{ width: '12px', height: '12px', borderRadius: '2px', flexShrink: 0, backgroundColor: copy.color || theme.palette.themePrimary }} />
+                  <Text variant="medium" styles={{ root: { flexGrow: 1 } }}>{copy.calendarTitle}</Text>
+                  {copy.webUrl && (
+                    <Link href={copy.webUrl} target="_blank" styles={{ root: { fontSize: '12px' } }}>
+                      Open in {copy.calendarType}
+                    </Link>
+                  )}
+                </Stack>
+              ))}
+            </Stack>
+          </div>
+        )}
+
         {/* Timestamps */}
         <div className={sectionStyles}>
           <Stack tokens={{ childrenGap: 8 }}>
@@ -253,14 +288,14 @@ export const EventDetailsPanel: React.FC<IEventDetailsPanelProps> = ({
               <Stack horizontal verticalAlign="center" tokens={{ childrenGap: 8 }}>
                 <Icon iconName="Add" styles={iconStyles} />
                 <Text variant="small" styles={{ root: { color: theme.palette.neutralSecondary } }}>
-                  Created: {DateUtils.formatDateTime(event.created)}
+                  Created: {DateUtils.formatDateTime(event.created, dateTimeFormat)}
                 </Text>
               </Stack>
               
               <Stack horizontal verticalAlign="center" tokens={{ childrenGap: 8 }}>
                 <Icon iconName="Edit" styles={iconStyles} />
                 <Text variant="small" styles={{ root: { color: theme.palette.neutralSecondary } }}>
-                  Modified: {DateUtils.formatDateTime(event.modified)}
+                  Modified: {DateUtils.formatDateTime(event.modified, dateTimeFormat)}
                 </Text>
               </Stack>
 
@@ -0,0 +1,170 @@
+import * as React from 'react';
+import { useState, useRef, useMemo } from 'react';
+import {
+  SearchBox,
+  Callout,
+  DirectionalHint,
+  Text,
+  mergeStyles,
+  useTheme,
+  ITheme
+} from '@fluentui/react';
+
+import { ISearchSuggestion } from '../models/IFilterModels';
+import { SearchQueryUtils, ISearchQueryError, ISearchQueryLookups } from '../utils/SearchQueryUtils';
+
+export interface IEventSearchBoxProps {
+  value: string;
+  lookups: ISearchQueryLookups;
+  errors: ISearchQueryError[];
+  disabled?: boolean;
+  onChange: (value: string) => void;
+}
+
+/**
+ * Search box for structured queries that completes field names and known
+ * values, and lists syntax errors underneath
+ */
+export const EventSearchBox: React.FC<IEventSearchBoxProps> = ({
+  value,
+  lookups,
+  errors,
+  disabled,
+  onChange
+}) => {
+  const theme: ITheme = useTheme();
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [showSuggestions, setShowSuggestions] = useState<boolean>(false);
+  const [highlightedIndex, setHighlightedIndex] = useState<number>(0);
+
+  const suggestions: ISearchSuggestion[] = useMemo(
+    () => SearchQueryUtils.getSuggestions(value, lookups),
+    [value, lookups]
+  );
+  const isOpen = showSuggestions && suggestions.length > 0;
+
+  const containerStyles = mergeStyles({
+    position: 'relative',
+    width: '300px',
+    marginTop: '4px'
+  });
+
+  const errorStyles = mergeStyles({
+    position: 'absolute',
+    top: '100%',
+    left: 0,
+    right: 0,
+    zIndex: 1,
+    padding: '2px 6px',
+    backgroundColor: theme.palette.white,
+    boxShadow: theme.effects.elevation4
+  });
+
+  const suggestionStyles = (isHighlighted: boolean): string => mergeStyles({
+    padding: '6px 12px',
+    cursor: 'pointer',
+    fontFamily: 'monospace',
+    backgroundColor: isHighlighted ? theme.palette.neutralLighter : 'transparent',
+    selectors: {
+      ':hover': { backgroundColor: theme.palette.neutralLighter }
+    }
+  });
+
+  const handleChange = (newValue: string): void => {
+    onChange(newValue);
+    setShowSuggestions(true);
+    setHighlightedIndex(0);
+  };
+
+  const acceptSuggestion = (suggestion: ISearchSuggestion): void => {
+    handleChange(suggestion.metadata.query);
+  };
+
+  const handleKeyDown = (ev: React.KeyboardEvent<HTMLInputElement>): void => {
+    if (!isOpen) return;
+
+    switch (ev.key) {
+      case 'ArrowDown':
+        setHighlightedIndex((highlightedIndex + 1) % suggestions.length);
+        ev.preventDefault();
+        break;
+      case 'ArrowUp':
+        setHighlightedIndex((highlightedIndex - 1 + suggestions.length) % suggestions.length);
+        ev.preventDefault();
+        break;
+      case 'Tab':
+        acceptSuggestion(suggestions[highlightedIndex]);
+        ev.preventDefault();
+        break;
+      default:
+        break;
+    }
+  };
+
+  return (
+    <div ref={containerRef} className={containerStyles}>
+      <SearchBox
+        placeholder="Search events, e.g. category:Training -is:recurring"
+        value={value}
+        onChange={(_, newValue) => handleChange(newValue || '')}
+        onKeyDown={handleKeyDown}
+        onSearch={() => {
+          if (isOpen) {
+            acceptSuggestion(suggestions[highlightedIndex]);
+          }
+        }}
+        onEscape={(ev) => {
+          // Close the suggestions first; a second Escape clears the query
+          if (isOpen) {
+            setShowSuggestions(false);
+            ev?.preventDefault();
+          }
+        }}
+        onFocus={() => setShowSuggestions(true)}
+        onBlur={() => setShowSuggestions(false)}
+        disabled={disabled}
+        ariaLabel="Search events"
+        aria-invalid={errors.length > 0}
+      />
+
+      {errors.length > 0 && !isOpen && (
+        <div className={errorStyles} role="alert">
+          {errors.map((error, index) => (
+            <Text key={index} block variant="small" styles={{ root: { color: theme.palette.redDark } }}>
+              {error.message}
+            </Text>
+          ))}
+        </div>
+      )}
+
+      {isOpen && (
+        <Callout
+          target={containerRef}
+          isBeakVisible={false}
+          directionalHint={DirectionalHint.bottomLeftEdge}
+          onDismiss={() => setShowSuggestions(false)}
+          setInitialFocus={false}
+          calloutWidth={300}
+        >
+          <div role="listbox" aria-label="Search suggestions">
+            {suggestions.map((suggestion, index) => (
+              <div
+                key={suggestion.text}
+                role="option"
+                aria-selected={index === highlightedIndex}
+                className={suggestionStyles(index === highlightedIndex)}
+                // Keep focus in the box so typing can continue after choosing
+                onMouseDown={(ev) => {
+                  ev.preventDefault();
+                  acceptSuggestion(suggestion);
+                }}
+              >
+                {suggestion.text}
+              </div>
+            ))}
+          </div>
+        </Callout>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,473 @@
+import * as React from 'react';
+import { useState, useMemo } from 'react';
+import {
+  Stack,
+  Text,
+  TextField,
+  Dropdown,
+  IDropdownOption,
+  DatePicker,
+  Checkbox,
+  Toggle,
+  ChoiceGroup,
+  IChoiceGroupOption,
+  PrimaryButton,
+  DefaultButton,
+  MessageBar,
+  MessageBarType,
+  Separator,
+  Label,
+  IStackTokens
+} from '@fluentui/react';
+
+import { ICalendarEvent, ICalendarSource } from '../models/ICalendarModels';
+import {
+  IEventFilter,
+  IFilterSet,
+  IFilterApplicationResult,
+  IFilterValidationResult
+} from '../models/IFilterModels';
+import { FilterUtils, DateRangePreset } from '../utils/FilterUtils';
+
+export interface IFilterPanelProps {
+  filterSet?: IFilterSet;
+  calendarSources: ICalendarSource[];
+  events: ICalendarEvent[]; // Loaded events, used to offer their categories
+  result?: IFilterApplicationResult<ICalendarEvent>;
+  onApply: (filterSet: IFilterSet | undefined) => void;
+  onClose: () => void;
+}
+
+/**
+ * Values edited in the panel; each field that is set becomes one filter
+ */
+interface IFilterForm {
+  matchAll: boolean;
+  datePreset: DateRangePreset | 'any';
+  startDate?: Date;
+  endDate?: Date;
+  calendarIds: string[];
+  categories: string[];
+  includeUncategorized: boolean;
+  text: string;
+  textIsPattern: boolean;
+  caseSensitive: boolean;
+  attendees: string;
+  locations: string;
+  includeOnlineEvents: boolean;
+  includeEventsWithoutLocation: boolean;
+  startTime: string;
+  endTime: string;
+  daysOfWeek: number[];
+  importance: string[];
+  showAs: string[];
+  minDuration: string;
+  maxDuration: string;
+  recurrence: 'any' | 'recurring' | 'single';
+}
+
+const stackTokens: IStackTokens = { childrenGap: 12 };
+
+const PANEL_GROUP_ID = 'panel-filters';
+
+const emptyForm: IFilterForm = {
+  matchAll: true,
+  datePreset: 'any',
+  calendarIds: [],
+  categories: [],
+  includeUncategorized: false,
+  text: '',
+  textIsPattern: false,
+  caseSensitive: false,
+  attendees: '',
+  locations: '',
+  includeOnlineEvents: true,
+  includeEventsWithoutLocation: false,
+  startTime: '',
+  endTime: '',
+  daysOfWeek: [],
+  importance: [],
+  showAs: [],
+  minDuration: '',
+  maxDuration: '',
+  recurrence: 'any'
+};
+
+const datePresetOptions: IDropdownOption[] = [
+  { key: 'any', text: 'Any time' },
+  { key: 'today', text: 'Today' },
+  { key: 'tomorrow', text: 'Tomorrow' },
+  { key: 'thisWeek', text: 'This week' },
+  { key: 'nextWeek', text: 'Next week' },
+  { key: 'thisMonth', text: 'This month' },
+  { key: 'nextMonth', text: 'Next month' },
+  { key: 'custom', text: 'Custom range' }
+];
+
+const dayOptions: IDropdownOption[] = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday']
+  .map((day, index) => ({ key: index, text: day }));
+
+const importanceOptions: IDropdownOption[] = [
+  { key: 'high', text: 'High' },
+  { key: 'normal', text: 'Normal' },
+  { key: 'low', text: 'Low' }
+];
+
+const showAsOptions: IDropdownOption[] = [
+  { key: 'free', text: 'Free' },
+  { key: 'tentative', text: 'Tentative' },
+  { key: 'busy', text: 'Busy' },
+  { key: 'outOfOffice', text: 'Out of office' },
+  { key: 'workingElsewhere', text: 'Working elsewhere' }
+];
+
+const recurrenceOptions: IChoiceGroupOption[] = [
+  { key: 'any', text: 'All events' },
+  { key: 'recurring', text: 'Recurring only' },
+  { key: 'single', text: 'Single only' }
+];
+
+const splitList = (value: string): string[] => value.split(/[,;]/).map(item => item.trim()).filter(item => item);
+
+const toggleKey = <T,>(keys: T[], key: T, selected?: boolean): T[] =>
+  selected ? [...keys, key] : keys.filter(existing => existing !== key);
+
+/**
+ * Turn the form into a filter set with a single group
+ */
+const buildFilterSet = (form: IFilterForm, previous?: IFilterSet): IFilterSet | undefined => {
+  const base = { isEnabled: true };
+  const filters: IEventFilter[] = [];
+
+  if (form.datePreset !== 'any') {
+    filters.push({
+      ...base, id: 'filter-date', name: 'Date', type: 'dateRange', preset: form.datePreset,
+      startDate: form.startDate || new Date(NaN), endDate: form.endDate || new Date(NaN)
+    });
+  }
+  if (form.calendarIds.length > 0) {
+    filters.push({ ...base, id: 'filter-calendar', name: 'Calendars', type: 'calendar', calendarIds: form.calendarIds, includeAllCalendars: false });
+  }
+  if (form.categories.length > 0 || form.includeUncategorized) {
+    filters.push({
+      ...base, id: 'filter-category', name: 'Categories', type: 'category', categories: form.categories,
+      includeUncategorized: form.includeUncategorized, matchType: 'exact'
+    });
+  }
+  if (form.text.trim()) {
+    filters.push({
+      ...base, id: 'filter-text', name: 'Text', type: 'textSearch', query: form.text.trim(),
+      searchFields: ['title', 'description', 'location', 'organizer', 'attendees'],
+      matchType: form.textIsPattern ? 'regex' : 'contains', caseSensitive: form.caseSensitive
+    });
+  }
+  if (form.attendees.trim()) {
+    filters.push({ ...base, id: 'filter-attendee', name: 'Attendees', type: 'attendee', attendees: splitList(form.attendees), includeOrganizer: true });
+  }
+  if (form.locations.trim() || !form.includeOnlineEvents || form.includeEventsWithoutLocation !== emptyForm.includeEventsWithoutLocation) {
+    filters.push({
+      ...base, id: 'filter-location', name: 'Location', type: 'location', locations: splitList(form.locations),
+      includeOnlineEvents: form.includeOnlineEvents, includeEventsWithoutLocation: form.includeEventsWithoutLocation, matchType: 'contains'
+    });
+  }
+  if (form.startTime || form.endTime || form.daysOfWeek.length > 0) {
+    filters.push({
+      ...base, id: 'filter-time', name: 'Time of day', type: 'timeRange', startTime: form.startTime || '00:00',
+      endTime: form.endTime || '23:59', daysOfWeek: form.daysOfWeek, includeAllDay: true
+    });
+  }
+  if (form.importance.length > 0) {
+    filters.push({ ...base, id: 'filter-importance', name: 'Importance', type: 'importance', importanceLevels: form.importance as ('high' | 'normal' | 'low')[] });
+  }
+  if (form.showAs.length > 0) {
+    filters.push({ ...base, id: 'filter-show-as', name: 'Show as', type: 'showAs', showAsTypes: form.showAs as ('free' | 'tentative' | 'busy' | 'outOfOffice' | 'workingElsewhere')[] });
+  }
+  if (form.minDuration.trim() || form.maxDuration.trim()) {
+    filters.push({
+      ...base, id: 'filter-duration', name: 'Duration', type: 'duration', includeAllDay: true,
+      minDuration: form.minDuration.trim() ? Number(form.minDuration) : undefined,
+      maxDuration: form.maxDuration.trim() ? Number(form.maxDuration) : undefined
+    });
+  }
+  if (form.recurrence !== 'any') {
+    filters.push({
+      ...base, id: 'filter-recurrence', name: 'Recurrence', type: 'recurrence',
+      includeRecurring: form.recurrence === 'recurring', includeNonRecurring: form.recurrence === 'single'
+    });
+  }
+
+  if (filters.length === 0) {
+    return undefined;
+  }
+
+  const now = new Date();
+  return {
+    id: previous?.id || 'panel-filter-set',
+    name: 'Event filters',
+    filterGroups: [{ id: PANEL_GROUP_ID, name: 'Filters', filters, operator: form.matchAll ? 'AND' : 'OR', isEnabled: true }],
+    globalOperator: 'AND',
+    isDefault: false,
+    isSystem: false,
+    createdBy: previous?.createdBy || '',
+    createdDate: previous?.createdDate || now,
+    modifiedDate: now
+  };
+};
+
+/**
+ * Read the form back from a filter set built by this panel
+ */
+const parseFilterSet = (filterSet?: IFilterSet): IFilterForm => {
+  const group = filterSet?.filterGroups.find(g => g.id === PANEL_GROUP_ID);
+  if (!group) {
+    return emptyForm;
+  }
+
+  return group.filters.reduce<IFilterForm>((form, filter) => {
+    switch (filter.type) {
+      case 'dateRange':
+        return { ...form, datePreset: filter.preset || 'custom', startDate: filter.startDate, endDate: filter.endDate };
+      case 'calendar':
+        return { ...form, calendarIds: filter.calendarIds };
+      case 'category':
+        return { ...form, categories: filter.categories, includeUncategorized: filter.includeUncategorized };
+      case 'textSearch':
+        return { ...form, text: filter.query, textIsPattern: filter.matchType === 'regex', caseSensitive: filter.caseSensitive };
+      case 'attendee':
+        return { ...form, attendees: filter.attendees.join(', ') };
+      case 'location':
+        return {
+          ...form, locations: filter.locations.join(', '),
+          includeOnlineEvents: filter.includeOnlineEvents, includeEventsWithoutLocation: filter.includeEventsWithoutLocation
+        };
+      case 'timeRange':
+        return { ...form, startTime: filter.startTime, endTime: filter.endTime, daysOfWeek: filter.daysOfWeek };
+      case 'importance':
+        return { ...form, importance: filter.importanceLevels };
+      case 'showAs':
+        return { ...form, showAs: filter.showAsTypes };
+      case 'duration':
+        return { ...form, minDuration: filter.minDuration?.toString() || '', maxDuration: filter.maxDuration?.toString() || '' };
+      case 'recurrence':
+        return { ...form, recurrence: filter.includeRecurring ? 'recurring' : 'single' };
+      default:
+        return form;
+    }
+  }, { ...emptyForm, matchAll: group.operator === 'AND' });
+};
+
+export const FilterPanel: React.FC<IFilterPanelProps> = ({
+  filterSet,
+  calendarSources,
+  events,
+  result,
+  onApply,
+  onClose
+}) => {
+  const [form, setForm] = useState<IFilterForm>(() => parseFilterSet(filterSet));
+  const [validation, setValidation] = useState<IFilterValidationResult | undefined>(undefined);
+
+  const update = (changes: Partial<IFilterForm>): void => setForm(current => ({ ...current, ...changes }));
+
+  const calendarOptions: IDropdownOption[] = useMemo(() =>
+    calendarSources.map(source => ({ key: source.id, text: source.title })), [calendarSources]);
+
+  const categoryOptions: IDropdownOption[] = useMemo(() => {
+    const categories = new Set<string>();
+    events.forEach(event => [event.category, ...(event.tags || [])].forEach(category => category && categories.add(category)));
+    form.categories.forEach(category => categories.add(category));
+    return Array.from(categories).sort().map(category => ({ key: category, text: category }));
+  }, [events, form.categories]);
+
+  const getFieldError = (filterId: string): string | undefined =>
+    validation?.errors.filter(error => error.filterId === filterId).map(error => error.message).join('; ') || undefined;
+
+  const handleApply = (): void => {
+    const nextFilterSet = buildFilterSet(form, filterSet);
+    const nextValidation = nextFilterSet ? FilterUtils.validateFilterSet(nextFilterSet) : undefined;
+    setValidation(nextValidation);
+
+    if (!nextValidation || nextValidation.isValid) {
+      onApply(nextFilterSet);
+    }
+  };
+
+  const handleClear = (): void => {
+    setForm(emptyForm);
+    setValidation(undefined);
+    onApply(undefined);
+  };
+
+  return (
+    <Stack tokens={stackTokens}>
+      {result && filterSet && (
+        <MessageBar messageBarType={MessageBarType.info}>
+          Showing {result.statistics.filteredItems} of {result.statistics.totalItems} events
+          using {result.appliedFilters.length} filter{result.appliedFilters.length === 1 ? '' : 's'} ({result.statistics.filterDuration} ms)
+        </MessageBar>
+      )}
+
+      {validation && validation.errors.length > 0 && (
+        <MessageBar messageBarType={MessageBarType.error} isMultiline={true}>
+          {validation.errors.map((error, index) => <div key={index}>{error.message}</div>)}
+        </MessageBar>
+      )}
+
+      {validation && validation.warnings.length > 0 && (
+        <MessageBar messageBarType={MessageBarType.warning} isMultiline={true}>
+          {validation.warnings.map((warning, index) => <div key={index}>{warning.message}</div>)}
+        </MessageBar>
+      )}
+
+      <ChoiceGroup
+        label="Show events that match"
+        selectedKey={form.matchAll ? 'all' : 'any'}
+        options={[{ key: 'all', text: 'All filters' }, { key: 'any', text: 'Any filter' }]}
+        onChange={(_, option) => option && update({ matchAll: option.key === 'all' })}
+        styles={{ flexContainer: { display: 'flex', gap: '16px' } }}
+      />
+
+      <Separator />
+
+      <Dropdown
+        label="Date"
+        options={datePresetOptions}
+        selectedKey={form.datePreset}
+        onChange={(_, option) => option && update({ datePreset: option.key as IFilterForm['datePreset'] })}
+        errorMessage={getFieldError('filter-date')}
+      />
+      {form.datePreset === 'custom' && (
+        <Stack horizontal tokens={{ childrenGap: 8 }}>
+          <DatePicker label="From" value={form.startDate} onSelectDate={date => update({ startDate: date || undefined })} styles={{ root: { flex: 1 } }} />
+          <DatePicker label="To" value={form.endDate} onSelectDate={date => update({ endDate: date ? new Date(date.getFullYear(), date.getMonth(), date.getDate(), 23, 59, 59, 999) : undefined })} styles={{ root: { flex: 1 } }} />
+        </Stack>
+      )}
+
+      <Dropdown
+        label="Calendars"
+        placeholder="All calendars"
+        multiSelect
+        options={calendarOptions}
+        selectedKeys={form.calendarIds}
+        onChange={(_, option) => option && update({ calendarIds: toggleKey(form.calendarIds, option.key as string, option.selected) })}
+      />
+
+      <Dropdown
+        label="Categories"
+        placeholder="All categories"
+        multiSelect
+        options={categoryOptions}
+        selectedKeys={form.categories}
+        onChange={(_, option) => option && update({ categories: toggleKey(form.categories, option.key as string, option.selected) })}
+      />
+      <Checkbox
+        label="Include events without a category"
+        checked={form.includeUncategorized}
+        onChange={(_, checked) => update({ includeUncategorized: !!checked })}
+      />
+
+      <Separator />
+
+      <TextField
+        label="Text"
+        placeholder="Title, description, location or people"
+        value={form.text}
+        onChange={(_, value) => update({ text: value || '' })}
+        errorMessage={getFieldError('filter-text')}
+      />
+      <Stack horizontal tokens={{ childrenGap: 16 }}>
+        <Toggle inlineLabel label="Regular expression" checked={form.textIsPattern} onChange={(_, checked) => update({ textIsPattern: !!checked })} />
+        <Toggle inlineLabel label="Match case" checked={form.caseSensitive} onChange={(_, checked) => update({ caseSensitive: !!checked })} />
+      </Stack>
+
+      <TextField
+        label="Attendees or organizer"
+        placeholder="Names or email addresses, separated by commas"
+        value={form.attendees}
+        onChange={(_, value) => update({ attendees: value || '' })}
+      />
+
+      <TextField
+        label="Locations"
+        placeholder="Rooms or places, separated by commas"
+        value={form.locations}
+        onChange={(_, value) => update({ locations: value || '' })}
+      />
+      <Stack horizontal tokens={{ childrenGap: 16 }}>
+        <Checkbox label="Online meetings" checked={form.includeOnlineEvents} onChange={(_, checked) => update({ includeOnlineEvents: !!checked })} />
+        <Checkbox label="No location" checked={form.includeEventsWithoutLocation} onChange={(_, checked) => update({ includeEventsWithoutLocation: !!checked })} />
+      </Stack>
+
+      <Separator />
+
+      <Label>Starting between</Label>
+      <Stack horizontal tokens={{ childrenGap: 8 }}>
+        <TextField placeholder="HH:mm" value={form.startTime} onChange={(_, value) => update({ startTime: value || '' })} styles={{ root: { width: '90px' } }} />
+        <Text styles={{ root: { alignSelf: 'center' } }}>and</Text>
+        <TextField placeholder="HH:mm" value={form.endTime} onChange={(_, value) => update({ endTime: value || '' })} styles={{ root: { width: '90px' } }} />
+      </Stack>
+      {getFieldError('filter-time') && (
+        <MessageBar messageBarType={MessageBarType.error}>{getFieldError('filter-time')}</MessageBar>
+      )}
+      <Dropdown
+        label="Days"
+        placeholder="Any day"
+        multiSelect
+        options={dayOptions}
+        selectedKeys={form.daysOfWeek}
+        onChange={(_, option) => option && update({ daysOfWeek: toggleKey(form.daysOfWeek, option.key as number, option.selected).sort((a, b) => a - b) })}
+      />
+
+      <Stack horizontal tokens={{ childrenGap: 8 }}>
+        <TextField
+          label="Minimum minutes"
+          type="number"
+          value={form.minDuration}
+          onChange={(_, value) => update({ minDuration: value || '' })}
+          styles={{ root: { flex: 1 } }}
+        />
+        <TextField
+          label="Maximum minutes"
+          type="number"
+          value={form.maxDuration}
+          onChange={(_, value) => update({ maxDuration: value || '' })}
+          styles={{ root: { flex: 1 } }}
+          errorMessage={getFieldError('filter-duration')}
+        />
+      </Stack>
+
+      <Dropdown
+        label="Importance"
+        placeholder="Any importance"
+        multiSelect
+        options={importanceOptions}
+        selectedKeys={form.importance}
+        onChange={(_, option) => option && update({ importance: toggleKey(form.importance, option.key as string, option.selected) })}
+      />
+
+      <Dropdown
+        label="Show as"
+        placeholder="Any availability"
+        multiSelect
+        options={showAsOptions}
+        selectedKeys={form.showAs}
+        onChange={(_, option) => option && update({ showAs: toggleKey(form.showAs, option.key as string, option.selected) })}
+      />
+
+      <ChoiceGroup
+        label="Recurrence"
+        selectedKey={form.recurrence}
+        options={recurrenceOptions}
+        onChange={(_, option) => option && update({ recurrence: option.key as IFilterForm['recurrence'] })}
+      />
+
+      <Separator />
+
+      <Stack horizontal tokens={{ childrenGap: 8 }} horizontalAlign="end">
+        <PrimaryButton text="Apply" iconProps={{ iconName: 'Filter' }} onClick={handleApply} />
+        <DefaultButton text="Clear" iconProps={{ iconName: 'ClearFilter' }} onClick={handleClear} />
+        <DefaultButton text="Close" onClick={onClose} />
+      </Stack>
+    </Stack>
+  );
+};
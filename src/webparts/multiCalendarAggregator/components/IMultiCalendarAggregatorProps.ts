@@ -3,15 +3,22 @@ import { WebPartContext } from '@microsoft/sp-webpart-base';
 export interface IMultiCalendarAggregatorProps {
   title: string;
   selectedCalendars: string[];
-  viewType: 'month' | 'week' | 'day' | 'agenda' | 'timeline';
+  viewType: 'month' | 'week' | 'work_week' | 'day' | 'agenda' | 'timeline';
   showWeekends: boolean;
+  limitToWorkingHours: boolean; // Week, day and timeline views show only the working part of the day
   maxEvents: number;
   refreshInterval: number;
   useGraphAPI: boolean;
   colorCoding: boolean;
+  enableFilters: boolean;
+  enableConflictDetection: boolean;
+  mergeDuplicateEvents: boolean;
+  duplicateMatchThreshold: number; // Percent similarity at which copies in different calendars are merged
   isDarkTheme: boolean;
   environmentMessage: string;
   hasTeamsContext: boolean;
   userDisplayName: string;
   context: WebPartContext;
+  isEditMode: boolean;
+  onSelectedCalendarsChange: (selectedCalendars: string[]) => void;
 }
\ No newline at end of file
@@ -1,5 +1,5 @@
 import * as React from 'react';
-import { useState, useEffect, useCallback, useMemo } from 'react';
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import {
   Stack,
   Text,
@@ -9,33 +9,105 @@ import {
   MessageBarType,
   CommandBar,
   ICommandBarItemProps,
-  SearchBox,
   Pivot,
   PivotItem,
   Panel,
   PanelType,
   Icon,
+  MessageBarButton,
   mergeStyles,
   useTheme,
   IStackTokens,
   ITheme
 } from '@fluentui/react';
-import { Calendar, momentLocalizer } from 'react-big-calendar';
+import { Calendar, CalendarProps, momentLocalizer, DateHeaderProps, EventProps, Formats, SlotInfo, NavigateAction } from 'react-big-calendar';
+import withDragAndDrop, { EventInteractionArgs } from 'react-big-calendar/lib/addons/dragAndDrop';
 import moment from 'moment';
 import 'react-big-calendar/lib/css/react-big-calendar.css';
+import 'react-big-calendar/lib/addons/dragAndDrop/styles.css';
 
 import { IMultiCalendarAggregatorProps } from './IMultiCalendarAggregatorProps';
 import { CalendarService } from '../services/CalendarService';
-import { ICalendarEvent, ICalendarSource } from '../models/ICalendarModels';
+import { ICalendarEvent, ICalendarSource, CalendarSourceType, ISourceHealth, ISharePointListSource } from '../models/ICalendarModels';
+import { IEventImportResult, IEventCreateRequest, IEventConflict, RecurringEditScope, IFreeBusyQuery, IFreeBusyResult, IRoomList, IRoomSearchCriteria, IMeetingRoom, ICalendarSyncStatus } from '../models/IEventModels';
+import { IFilterSet } from '../models/IFilterModels';
+import { IUserPreferences, IWorkingHours } from '../models/IConfigurationModels';
+import { PreferencesLocation } from '../services/UserPreferencesService';
+import { RequestScheduler, RequestPriority } from '../services/RequestScheduler';
 import { CalendarSourcesPanel } from './CalendarSourcesPanel';
 import { AgendaView } from './AgendaView';
 import { TimelineView } from './TimelineView';
 import { EventDetailsPanel } from './EventDetailsPanel';
+import { FilterPanel } from './FilterPanel';
+import { EventSearchBox } from './EventSearchBox';
+import { UserSettingsPanel } from './UserSettingsPanel';
+import { EventCreatePanel } from './EventCreatePanel';
+import { SeriesScopeDialog } from './SeriesScopeDialog';
+import { ConflictsPanel } from './ConflictsPanel';
+import { SchedulingAssistant } from './SchedulingAssistant';
+import { DateUtils } from '../utils/DateUtils';
+import { FilterUtils } from '../utils/FilterUtils';
+import { ConflictUtils } from '../utils/ConflictUtils';
+import { DuplicateUtils } from '../utils/DuplicateUtils';
+import { SearchQueryUtils, ISearchQueryLookups } from '../utils/SearchQueryUtils';
+import { ITimeWindow } from '../utils/SchedulingUtils';
+import { WorkingHoursUtils } from '../utils/WorkingHoursUtils';
+import { AppConstants } from '../constants/AppConstants';
 
 const localizer = momentLocalizer(moment);
+// The typings declare Calendar for any event type, which the add-on cannot narrow
+const DragAndDropCalendar = withDragAndDrop<ICalendarEvent>(Calendar as React.ComponentType<CalendarProps<ICalendarEvent>>);
 
 const stackTokens: IStackTokens = { childrenGap: 15 };
 
+// Events shown before the calendar has confirmed they were created
+const PENDING_EVENT_PREFIX = 'pending-';
+
+// Views that lay events out on a grid of time slots
+const TIME_GRID_VIEWS = ['week', 'work_week', 'day'];
+
+interface INewEventSlot {
+  start: Date;
+  end: Date;
+  isAllDay: boolean;
+  attendees?: string[];
+}
+
+// A change of time for an event, in stored (not display) time
+interface IEventMove {
+  event: ICalendarEvent;
+  start: Date;
+  end: Date;
+  isAllDay: boolean;
+}
+
+// How long a move can be undone
+const UNDO_TIMEOUT_MS = 10000;
+
+// Full loads cover today to this many months ahead; other dates load as they are viewed
+const PRELOADED_MONTHS = 6;
+
+// Calendars whose events are loaded; imported overlays follow their own toggle
+const getSelectedSources = (sources: ICalendarSource[], selectedCalendars: string[]): ICalendarSource[] =>
+  sources.filter(s => s.type === CalendarSourceType.ICS
+    ? s.isEnabled
+    : selectedCalendars.length === 0 || selectedCalendars.includes(s.id)
+  );
+
+const getPreloadedWindow = (): { start: Date; end: Date } => ({
+  start: moment().startOf('day').toDate(),
+  end: moment().add(PRELOADED_MONTHS, 'months').toDate()
+});
+
+// Events of dates viewed outside the full load are kept when it replaces the rest
+const keepViewedEvents = (previous: ICalendarEvent[], loaded: ICalendarEvent[], sourceIds: string[]): ICalendarEvent[] => {
+  const preloaded = getPreloadedWindow();
+  const loadedIds = new Set(loaded.map(event => event.id));
+  return [...loaded, ...previous.filter(event => !loadedIds.has(event.id) &&
+    sourceIds.includes(event.calendarId) &&
+    (event.end < preloaded.start || event.start > preloaded.end))];
+};
+
 // Error Boundary Component
 interface IErrorBoundaryState {
   hasError: boolean;
@@ -88,13 +160,35 @@ const MultiCalendarAggregator: React.FC<IMultiCalendarAggregatorProps> = (props)
   const [filteredEvents, setFilteredEvents] = useState<ICalendarEvent[]>([]);
   const [calendarSources, setCalendarSources] = useState<ICalendarSource[]>([]);
   const [loading, setLoading] = useState<boolean>(true);
+  const [loadingMore, setLoadingMore] = useState<boolean>(false);
+  const [truncated, setTruncated] = useState<boolean>(false);
   const [error, setError] = useState<string>('');
   const [selectedEvent, setSelectedEvent] = useState<ICalendarEvent | null>(null);
   const [showEventDetails, setShowEventDetails] = useState<boolean>(false);
   const [showCalendarSources, setShowCalendarSources] = useState<boolean>(false);
   const [searchQuery, setSearchQuery] = useState<string>('');
+  const [filterSet, setFilterSet] = useState<IFilterSet | undefined>(undefined);
+  const [showFilters, setShowFilters] = useState<boolean>(false);
+  const [showSettings, setShowSettings] = useState<boolean>(false);
+  const [showConflicts, setShowConflicts] = useState<boolean>(false);
+  const [showSchedulingAssistant, setShowSchedulingAssistant] = useState<boolean>(false);
+  const [highlightedConflict, setHighlightedConflict] = useState<IEventConflict | undefined>(undefined);
+  const [newEventSlot, setNewEventSlot] = useState<INewEventSlot | undefined>(undefined);
+  const [occurrenceMove, setOccurrenceMove] = useState<IEventMove | undefined>(undefined);
+  const [undoMove, setUndoMove] = useState<IEventMove | undefined>(undefined);
+  const [pendingDelete, setPendingDelete] = useState<ICalendarEvent | undefined>(undefined);
+  const [preferences, setPreferences] = useState<IUserPreferences | undefined>(undefined);
+  const [mailboxWorkingHours, setMailboxWorkingHours] = useState<IWorkingHours | undefined>(undefined);
   const [currentView, setCurrentView] = useState<string>(props.viewType);
   const [currentDate, setCurrentDate] = useState<Date>(new Date());
+  const [displayTimeZone, setDisplayTimeZone] = useState<string>(DateUtils.getBrowserTimeZone());
+  const timeZoneChosenRef = useRef<boolean>(false);
+
+  // Identifies the latest load so progress from an older load is ignored
+  const loadIdRef = useRef<number>(0);
+  // Cancel the requests of a load, or of a viewed date range, once a newer one replaces it
+  const loadAbortRef = useRef<AbortController | undefined>(undefined);
+  const rangeAbortRef = useRef<AbortController | undefined>(undefined);
 
   // Memoize calendar service to prevent recreation
   const calendarService = useMemo(() => {
@@ -106,7 +200,12 @@ const MultiCalendarAggregator: React.FC<IMultiCalendarAggregatorProps> = (props)
     }
   }, [props.context]);
 
+  // Readers can keep their own selection; editors always work on the page's selection
+  const [userSelection, setUserSelection] = useState<string[] | undefined>(() => calendarService?.getUserSourceSelection());
+  const selectedCalendars = !props.isEditMode && userSelection ? userSelection : props.selectedCalendars;
+
   // Container styles - memoized to prevent recreation
+  const accessibility = preferences?.accessibility;
   const containerStyles = useMemo(() => mergeStyles({
     padding: '20px',
     backgroundColor: theme.palette.neutralLighterAlt,
@@ -114,7 +213,15 @@ const MultiCalendarAggregator: React.FC<IMultiCalendarAggregatorProps> = (props)
     minHeight: '600px',
     boxShadow: theme.effects.elevation4,
     border: `1px solid ${theme.palette.neutralLight}`,
-  }), [theme]);
+    selectors: {
+      ...(accessibility?.largeText && { '.rbc-calendar': { fontSize: '16px' } }),
+      ...(accessibility?.highContrast && {
+        '.rbc-event': { border: `2px solid ${theme.palette.black} !important`, fontWeight: 600 }
+      }),
+      ...(accessibility?.reduceMotion && { '*': { transition: 'none !important', animation: 'none !important' } }),
+      ...(accessibility?.focusIndicators && { '*:focus': { outline: `2px solid ${theme.palette.black} !important` } }),
+    },
+  }), [theme, accessibility]);
 
   const headerStyles = useMemo(() => mergeStyles({
     backgroundColor: theme.palette.white,
@@ -133,23 +240,25 @@ const MultiCalendarAggregator: React.FC<IMultiCalendarAggregatorProps> = (props)
       return;
     }
 
+    const loadId = ++loadIdRef.current;
+    loadAbortRef.current?.abort();
+    const abortController = new AbortController();
+    loadAbortRef.current = abortController;
+
     try {
       setLoading(true);
+      setLoadingMore(false);
+      setTruncated(false);
       setError('');
 
-      // Load calendar sources with timeout
-      const sourcesPromise = calendarService.getCalendarSources(props.useGraphAPI);
-      const timeoutPromise = new Promise<never>((_, reject) => {
-        setTimeout(() => reject(new Error('Request timeout')), 30000);
-      });
-
-      const sources = await Promise.race([sourcesPromise, timeoutPromise]);
+      // Each request of the loads below has its own timeout
+      const sources = await calendarService.getCalendarSources(props.useGraphAPI);
+      if (loadId !== loadIdRef.current) return;
       setCalendarSources(sources);
 
       // Load events from selected calendars
-      const selectedSources = sources.filter(s => 
-        props.selectedCalendars.length === 0 || props.selectedCalendars.includes(s.id)
-      );
+      const selectedSources = getSelectedSources(sources, selectedCalendars);
+      const sourceIds = selectedSources.map(source => source.id);
 
       if (selectedSources.length === 0) {
         setEvents([]);
@@ -158,45 +267,459 @@ const MultiCalendarAggregator: React.FC<IMultiCalendarAggregatorProps> = (props)
         return;
       }
 
-      const eventsPromise = calendarService.getEventsFromSources(selectedSources, props.maxEvents);
-      const allEvents = await Promise.race([eventsPromise, timeoutPromise]);
+      // Show the first pages while later pages are still loading. The dates on
+      // screen load ahead of this when they fall outside it.
+      const result = await calendarService.getEventsFromSourcesWithProgress(selectedSources, props.maxEvents, (progress) => {
+        if (loadId !== loadIdRef.current || abortController.signal.aborted) return;
+        setEvents(prev => keepViewedEvents(prev, progress.events, sourceIds));
+        setTruncated(progress.truncated);
+        setLoading(false);
+        setLoadingMore(true);
+      }, { priority: RequestPriority.Prefetch, signal: abortController.signal });
+      if (loadId !== loadIdRef.current) return;
+
+      const allEvents = result.events;
 
       // Sort events by start date
       allEvents.sort((a, b) => new Date(a.start).getTime() - new Date(b.start).getTime());
 
-      setEvents(allEvents);
+      setEvents(prev => keepViewedEvents(prev, allEvents, sourceIds));
       setFilteredEvents(allEvents);
+      setTruncated(result.truncated);
     } catch (err) {
+      if (RequestScheduler.isAbortError(err) || loadId !== loadIdRef.current) return;
+      // Whatever is still loading would only report into the error state
+      abortController.abort();
       console.error('Error loading calendar data:', err);
       const errorMessage = err instanceof Error ? err.message : 'Unknown error occurred';
       setError(`Failed to load calendar data: ${errorMessage}`);
       setEvents([]);
       setFilteredEvents([]);
     } finally {
-      setLoading(false);
+      if (loadId === loadIdRef.current) {
+        setLoading(false);
+        setLoadingMore(false);
+      }
+    }
+  }, [calendarService, selectedCalendars, props.useGraphAPI, props.maxEvents]);
+
+  // Resolve the default display zone once, unless the user has already picked one
+  useEffect(() => {
+    if (!calendarService) return;
+
+    calendarService.getDefaultDisplayTimeZone(props.useGraphAPI)
+      .then(timeZone => {
+        if (!timeZoneChosenRef.current) {
+          setDisplayTimeZone(timeZone);
+        }
+      })
+      .catch(err => console.warn('Could not resolve display time zone:', err));
+  }, [calendarService, props.useGraphAPI]);
+
+  // Load the user's preferences; the default view and time zone only apply on load
+  useEffect(() => {
+    if (!calendarService) return;
+    let cancelled = false;
+
+    calendarService.loadUserPreferences(props.useGraphAPI, props.viewType)
+      .then(loaded => {
+        if (cancelled) return;
+        setPreferences(loaded);
+        setCurrentView(loaded.defaultView);
+        if (loaded.timeZone) {
+          timeZoneChosenRef.current = true;
+          setDisplayTimeZone(loaded.timeZone);
+        }
+      })
+      .catch(err => console.warn('Could not load preferences:', err));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [calendarService, props.useGraphAPI, props.viewType]);
+
+  // Working hours from the mailbox apply until the user changes their own from the defaults
+  useEffect(() => {
+    if (!calendarService || !props.useGraphAPI) return;
+    let cancelled = false;
+
+    calendarService.getUserWorkingHours()
+      .then(loaded => {
+        if (!cancelled) setMailboxWorkingHours(loaded);
+      })
+      .catch(err => console.warn('Could not load working hours:', err));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [calendarService, props.useGraphAPI]);
+
+  const workingHours = useMemo((): IWorkingHours | undefined => {
+    if (!preferences || !calendarService) return mailboxWorkingHours;
+    const isDefault = JSON.stringify(preferences.workingHours) === JSON.stringify(calendarService.getDefaultUserPreferences().workingHours);
+    return isDefault && mailboxWorkingHours ? mailboxWorkingHours : preferences.workingHours;
+  }, [preferences, calendarService, mailboxWorkingHours]);
+
+  const handleSavePreferences = useCallback(async (updated: IUserPreferences): Promise<PreferencesLocation> => {
+    if (!calendarService) {
+      throw new Error('Calendar service initialization failed');
     }
-  }, [calendarService, props.selectedCalendars, props.useGraphAPI, props.maxEvents]);
 
-  // Filter events based on search query - debounced
+    const location = await calendarService.saveUserPreferences(updated, props.useGraphAPI);
+    setPreferences(updated);
+    if (updated.timeZone) {
+      timeZoneChosenRef.current = true;
+      setDisplayTimeZone(updated.timeZone);
+    }
+    return location;
+  }, [calendarService, props.useGraphAPI]);
+
+  // Imported calendars are kept by the service; reload so changes show as sources and events
+  const handleImportCalendar = useCallback((fileName: string, content: string): IEventImportResult => {
+    if (!calendarService) {
+      throw new Error('Calendar service initialization failed');
+    }
+
+    const { source, result } = calendarService.importCalendar(fileName, content);
+    if (source) {
+      loadCalendarData().catch(console.error);
+    }
+    return result;
+  }, [calendarService, loadCalendarData]);
+
+  const handleRemoveImportedCalendar = useCallback((sourceId: string): void => {
+    calendarService?.removeImportedCalendar(sourceId);
+    loadCalendarData().catch(console.error);
+  }, [calendarService, loadCalendarData]);
+
+  const handleImportedCalendarToggle = useCallback((sourceId: string, isEnabled: boolean): void => {
+    calendarService?.setImportedCalendarEnabled(sourceId, isEnabled);
+    loadCalendarData().catch(console.error);
+  }, [calendarService, loadCalendarData]);
+
+  // An empty selection means every calendar, so choosing all of them is saved that way
+  const handleSourcesChange = useCallback((selectedIds: string[]): void => {
+    const selectableIds = calendarSources.filter(s => s.type !== CalendarSourceType.ICS).map(s => s.id);
+    const selection = selectableIds.every(id => selectedIds.includes(id)) ? [] : selectedIds;
+
+    if (props.isEditMode) {
+      props.onSelectedCalendarsChange(selection);
+    } else {
+      calendarService?.setUserSourceSelection(selection);
+      setUserSelection(selection);
+    }
+  }, [calendarSources, calendarService, props.isEditMode, props.onSelectedCalendarsChange]);
+
+  const handleResetSourceSelection = useCallback((): void => {
+    calendarService?.clearUserSourceSelection();
+    setUserSelection(undefined);
+  }, [calendarService]);
+
+  const handleCheckSourceHealth = useCallback((source: ICalendarSource): Promise<ISourceHealth> => {
+    if (!calendarService) {
+      return Promise.reject(new Error('Calendar service initialization failed'));
+    }
+    return calendarService.checkSourceHealth(source);
+  }, [calendarService]);
+
+  const handleGetSourceHealth = useCallback((sourceId: string): ISourceHealth | undefined =>
+    calendarService?.getSourceHealth(sourceId), [calendarService]);
+
+  const handleGetSyncStatus = useCallback((sourceId: string): ICalendarSyncStatus | undefined =>
+    calendarService?.getSyncStatus(sourceId), [calendarService]);
+
+  // Imported calendars are read-only; other sources report whether the user can add items
+  const writableCalendars = useMemo(() => calendarSources.filter(source =>
+    source.isEnabled && source.type !== CalendarSourceType.ICS &&
+    (source.canEdit || !!(source as ISharePointListSource).permissions?.canWrite)
+  ), [calendarSources]);
+
+  const defaultCalendarId = useMemo(() => {
+    const favorite = writableCalendars.find(source => preferences?.favoriteCalendars.includes(source.id));
+    return (favorite || writableCalendars[0])?.id;
+  }, [writableCalendars, preferences]);
+
+  // Show the new event straight away and replace it with the created one, or remove it if creation fails
+  const handleCreateEvent = useCallback((request: IEventCreateRequest): void => {
+    setNewEventSlot(undefined);
+    if (!calendarService?.createEvent) {
+      setError('Calendar service initialization failed');
+      return;
+    }
+
+    const source = calendarSources.find(s => s.id === request.calendarId);
+    const now = new Date();
+    const pendingEvent: ICalendarEvent = {
+      id: `${PENDING_EVENT_PREFIX}${now.getTime()}`,
+      title: request.title,
+      description: request.description || '',
+      start: request.start,
+      end: request.end,
+      location: request.location,
+      category: request.category,
+      isAllDay: !!request.isAllDay,
+      isRecurring: !!request.recurrence,
+      calendarId: request.calendarId,
+      calendarTitle: source?.title || '',
+      calendarType: source?.type || CalendarSourceType.Exchange,
+      organizer: props.userDisplayName,
+      created: now,
+      modified: now,
+      webUrl: '',
+      color: source?.color || theme.palette.themePrimary,
+      attendees: request.attendees,
+      reminderMinutes: request.reminders?.map(reminder => reminder.minutes)
+    };
+    setEvents(prev => [...prev, pendingEvent]);
+
+    calendarService.createEvent(request.calendarId, request)
+      .then(createdEvent => {
+        setEvents(prev => prev.map(event => event.id === pendingEvent.id ? createdEvent : event));
+        // Only the series itself comes back; reload to show its occurrences
+        if (request.recurrence) {
+          loadCalendarData().catch(console.error);
+        }
+      })
+      .catch(err => {
+        console.error('Error creating event:', err);
+        setEvents(prev => prev.filter(event => event.id !== pendingEvent.id));
+        setError(`Could not create "${request.title}": ${err instanceof Error ? err.message : String(err)}`);
+      });
+  }, [calendarService, calendarSources, props.userDisplayName, theme, loadCalendarData]);
+
+  // Week and day views can move and resize events of writable calendars
+  const canReschedule = useCallback((event: ICalendarEvent): boolean =>
+    TIME_GRID_VIEWS.indexOf(currentView) !== -1 &&
+    event.id.indexOf(PENDING_EVENT_PREFIX) !== 0 &&
+    writableCalendars.some(source => source.id === event.calendarId),
+  [currentView, writableCalendars]);
+
+  // Show the event at its new time straight away and put it back if saving fails.
+  // Changes to several occurrences of a series reload the calendar and cannot be undone.
+  const moveEvent = useCallback((move: IEventMove, isUndo: boolean, scope: RecurringEditScope = 'occurrence'): void => {
+    setUndoMove(undefined);
+    if (!calendarService?.updateEvent) {
+      setError('Calendar service initialization failed');
+      return;
+    }
+
+    const original = move.event;
+    setEvents(prev => prev.map(event => event.id === original.id
+      ? { ...original, start: move.start, end: move.end, isAllDay: move.isAllDay }
+      : event));
+
+    calendarService.updateEvent(original.calendarId, original.id, {
+      id: original.id,
+      start: move.start,
+      end: move.end,
+      isAllDay: move.isAllDay,
+      etag: original.etag,
+      editScope: scope
+    })
+      .then(updatedEvent => {
+        if (scope !== 'occurrence') {
+          loadCalendarData().catch(console.error);
+          return;
+        }
+        setEvents(prev => prev.map(event => event.id === original.id ? updatedEvent : event));
+        if (!isUndo) {
+          setUndoMove({ event: updatedEvent, start: original.start, end: original.end, isAllDay: original.isAllDay });
+        }
+      })
+      .catch(err => {
+        console.error('Error moving event:', err);
+        setEvents(prev => prev.map(event => event.id === original.id ? original : event));
+        setError(`Could not move "${original.title}": ${err instanceof Error ? err.message : String(err)}`);
+      });
+  }, [calendarService, loadCalendarData]);
+
+  const deleteEvent = useCallback((original: ICalendarEvent, scope: RecurringEditScope): void => {
+    setPendingDelete(undefined);
+    if (!calendarService?.deleteEvent) {
+      setError('Calendar service initialization failed');
+      return;
+    }
+
+    setShowEventDetails(false);
+    setEvents(prev => prev.filter(event => event.id !== original.id));
+
+    calendarService.deleteEvent(original.calendarId, original.id, original.etag, scope)
+      .then(() => {
+        if (scope !== 'occurrence') {
+          loadCalendarData().catch(console.error);
+        }
+      })
+      .catch(err => {
+        console.error('Error deleting event:', err);
+        setEvents(prev => [...prev, original]);
+        setError(`Could not delete "${original.title}": ${err instanceof Error ? err.message : String(err)}`);
+      });
+  }, [calendarService, loadCalendarData]);
+
+  // The details panel shows display times, so the stored event is the one deleted
+  const handleDeleteRequest = useCallback((eventId: string): void => {
+    setPendingDelete(events.find(event => event.id === eventId));
+  }, [events]);
+
+  // Dropped and resized times are in the display zone; all-day events span whole days
+  const handleEventDrop = useCallback(({ event, start, end, isAllDay }: EventInteractionArgs<ICalendarEvent>): void => {
+    const original = events.find(e => e.id === event.id);
+    if (!original || !canReschedule(original)) return;
+
+    const allDay = isAllDay === undefined ? original.isAllDay : isAllDay;
+    let moveStart = new Date(start);
+    let moveEnd = new Date(end);
+    if (allDay && !original.isAllDay) {
+      moveStart = moment(moveStart).startOf('day').toDate();
+      moveEnd = moment(moveStart).add(1, 'day').toDate();
+    } else if (!allDay && original.isAllDay) {
+      moveEnd = moment(moveStart).add(1, 'hour').toDate();
+    }
+
+    const move: IEventMove = allDay
+      ? { event: original, start: moveStart, end: moveEnd, isAllDay: true }
+      : {
+        event: original,
+        start: DateUtils.convertFromUserTimezone(moveStart, displayTimeZone),
+        end: DateUtils.convertFromUserTimezone(moveEnd, displayTimeZone),
+        isAllDay: false
+      };
+    if (move.start.getTime() === original.start.getTime() && move.end.getTime() === original.end.getTime() && allDay === original.isAllDay) {
+      return;
+    }
+
+    if (original.masterSeriesId) {
+      setOccurrenceMove(move);
+    } else {
+      moveEvent(move, false);
+    }
+  }, [events, canReschedule, displayTimeZone, moveEvent]);
+
+  useEffect(() => {
+    if (!undoMove) return;
+    const timeoutId = setTimeout(() => setUndoMove(undefined), UNDO_TIMEOUT_MS);
+    return () => clearTimeout(timeoutId);
+  }, [undoMove]);
+
+  const handleTimeZoneChange = useCallback((timeZone: string): void => {
+    timeZoneChosenRef.current = true;
+    setDisplayTimeZone(timeZone);
+  }, []);
+
+  // Copies of one meeting in several calendars are shown as a single event.
+  // Events still being saved are left as they are.
+  const mergeCopies = useCallback((list: ICalendarEvent[]): ICalendarEvent[] => {
+    if (!props.mergeDuplicateEvents) return list;
+    const pending = list.filter(event => event.id.indexOf(PENDING_EVENT_PREFIX) === 0);
+    return [
+      ...DuplicateUtils.mergeDuplicates(list.filter(event => event.id.indexOf(PENDING_EVENT_PREFIX) !== 0), props.duplicateMatchThreshold),
+      ...pending
+    ];
+  }, [props.mergeDuplicateEvents, props.duplicateMatchThreshold]);
+
+  // Shift timed events to the display zone; all-day events stay on their dates.
+  // Hidden calendars and the privacy preferences apply to every view.
+  const displayEvents = useMemo(() => mergeCopies(filteredEvents
+    .filter(event => !preferences || (
+      !preferences.hiddenCalendars.includes(event.calendarId) &&
+      !(preferences.privacy.hidePrivateEvents && ['private', 'confidential'].includes((event.sensitivity || '').toLowerCase()))
+    )))
+    .map(event => {
+      const shown = preferences?.privacy.anonymizeEventTitles
+        ? { ...event, title: 'Busy', description: '', location: '' }
+        : event;
+      return shown.isAllDay ? shown : {
+        ...shown,
+        start: DateUtils.convertToUserTimezone(shown.start, displayTimeZone),
+        end: DateUtils.convertToUserTimezone(shown.end, displayTimeZone)
+      };
+    }), [filteredEvents, displayTimeZone, preferences, mergeCopies]);
+
+  const getNow = useCallback((): Date => DateUtils.convertToUserTimezone(new Date(), displayTimeZone), [displayTimeZone]);
+
+  // Conflicts among the events of the calendars the user has not hidden;
+  // merged copies of one meeting do not conflict with each other
+  const conflicts = useMemo(() => props.enableConflictDetection
+    ? ConflictUtils.findConflicts(mergeCopies(events.filter(event =>
+      event.id.indexOf(PENDING_EVENT_PREFIX) !== 0 && !preferences?.hiddenCalendars.includes(event.calendarId))))
+    : [], [props.enableConflictDetection, events, preferences, mergeCopies]);
+  const conflictsByEvent = useMemo(() => ConflictUtils.groupByEvent(conflicts), [conflicts]);
+
+  // Open the day of a conflict and outline both of its events
+  const handleShowConflict = useCallback((conflict: IEventConflict): void => {
+    const overlapStart = new Date(Math.max(conflict.event1.start.getTime(), conflict.event2.start.getTime()));
+    setHighlightedConflict(conflict);
+    setCurrentDate(DateUtils.convertToUserTimezone(overlapStart, displayTimeZone));
+    setCurrentView('day');
+    setShowConflicts(false);
+  }, [displayTimeZone]);
+
+  const handleLoadSchedule = useCallback((query: IFreeBusyQuery): Promise<IFreeBusyResult[]> => calendarService
+    ? calendarService.getFreeBusyInfo(query)
+    : Promise.reject(new Error('Calendar service initialization failed')), [calendarService]);
+
+  const handleLoadRoomLists = useCallback((): Promise<IRoomList[]> => calendarService
+    ? calendarService.getRoomLists()
+    : Promise.reject(new Error('Calendar service initialization failed')), [calendarService]);
+
+  const handleFindRooms = useCallback((criteria: IRoomSearchCriteria, start: Date, end: Date): Promise<IMeetingRoom[]> => calendarService
+    ? calendarService.findRooms(criteria, start, end)
+    : Promise.reject(new Error('Calendar service initialization failed')), [calendarService]);
+
+  // A time picked in the scheduling assistant opens the new event form with its attendees
+  const handlePickMeetingTime = useCallback((start: Date, end: Date, attendees: string[]): void => {
+    setShowSchedulingAssistant(false);
+    setNewEventSlot({ start, end, isAllDay: false, attendees });
+  }, []);
+
+  // Advanced filters run on display times so time-of-day and relative dates match what is shown
+  const filterResult = useMemo(() => props.enableFilters && filterSet
+    ? FilterUtils.applyFilterSet(displayEvents, filterSet, getNow())
+    : undefined, [props.enableFilters, filterSet, displayEvents, getNow]);
+
+  const visibleEvents = filterResult ? filterResult.items : displayEvents;
+
+  const parsedQuery = useMemo(() => SearchQueryUtils.parseQuery(searchQuery), [searchQuery]);
+
+  // Values offered by search autocomplete
+  const searchLookups: ISearchQueryLookups = useMemo(() => {
+    const unique = (values: (string | undefined)[]): string[] =>
+      Array.from(new Set(values.filter((value): value is string => !!value && !!value.trim()))).sort();
+
+    return {
+      categories: unique(events.reduce<(string | undefined)[]>((all, event) => [...all, event.category, ...(event.tags || [])], [])),
+      calendars: unique(calendarSources.map(source => source.title)),
+      organizers: unique(events.map(event => event.organizer))
+    };
+  }, [events, calendarSources]);
+
+  // Search the loaded events with the structured query - debounced
   useEffect(() => {
+    let cancelled = false;
     const timeoutId = setTimeout(() => {
-      if (!searchQuery.trim()) {
+      if (parsedQuery.groups.length === 0 || !calendarService) {
         setFilteredEvents(events);
         return;
       }
 
-      const query = searchQuery.toLowerCase();
-      const filtered = events.filter(event =>
-        event.title.toLowerCase().includes(query) ||
-        event.description?.toLowerCase().includes(query) ||
-        event.location?.toLowerCase().includes(query)
-      );
-
-      setFilteredEvents(filtered);
+      const criteria = SearchQueryUtils.toSearchCriteria(parsedQuery, calendarSources);
+      calendarService.advancedSearch(criteria, events)
+        .then(result => {
+          if (cancelled) return;
+          const matchingIds = new Set(result.events.map(event => event.id));
+          setFilteredEvents(events.filter(event => matchingIds.has(event.id)));
+        })
+        .catch(err => {
+          console.error('Event search failed:', err);
+          if (!cancelled) setFilteredEvents(events);
+        });
     }, 300); // Debounce search
 
-    return () => clearTimeout(timeoutId);
-  }, [events, searchQuery]);
+    return () => {
+      cancelled = true;
+      clearTimeout(timeoutId);
+    };
+  }, [events, parsedQuery, calendarSources, calendarService]);
 
   // Initial load and auto-refresh with proper cleanup
   useEffect(() => {
@@ -236,11 +759,21 @@ const MultiCalendarAggregator: React.FC<IMultiCalendarAggregatorProps> = (props)
       key: 'refresh',
       text: 'Refresh',
       iconProps: { iconName: 'Refresh' },
-      disabled: loading,
+      disabled: loading || loadingMore,
       onClick: (): void => {
         void loadCalendarData();
       },
     },
+    {
+      key: 'newEvent',
+      text: 'New event',
+      iconProps: { iconName: 'Add' },
+      disabled: writableCalendars.length === 0,
+      onClick: (): void => {
+        const start = moment(getNow()).add(1, 'hour').startOf('hour').toDate();
+        setNewEventSlot({ start, end: moment(start).add(1, 'hour').toDate(), isAllDay: false });
+      },
+    },
     {
       key: 'sources',
       text: 'Manage Sources',
@@ -251,26 +784,66 @@ const MultiCalendarAggregator: React.FC<IMultiCalendarAggregatorProps> = (props)
       key: 'today',
       text: 'Today',
       iconProps: { iconName: 'DateTime' },
-      onClick: (): void => setCurrentDate(new Date()),
+      onClick: (): void => setCurrentDate(getNow()),
+    },
+    ...(props.enableFilters ? [{
+      key: 'filters',
+      text: filterSet ? `Filters (${filterResult?.appliedFilters.length || 0})` : 'Filters',
+      iconProps: { iconName: filterSet ? 'FilterSolid' : 'Filter' },
+      checked: !!filterSet,
+      onClick: (): void => setShowFilters(true),
+    }] : []),
+    ...(props.enableConflictDetection ? [{
+      key: 'conflicts',
+      text: `Conflicts (${conflicts.length})`,
+      iconProps: { iconName: 'Warning' },
+      onClick: (): void => setShowConflicts(true),
+    }] : []),
+    ...(props.useGraphAPI ? [{
+      key: 'schedulingAssistant',
+      text: 'Scheduling assistant',
+      iconProps: { iconName: 'People' },
+      onClick: (): void => setShowSchedulingAssistant(true),
+    }] : []),
+    {
+      key: 'timeZone',
+      text: displayTimeZone,
+      title: 'Display time zone',
+      iconProps: { iconName: 'World' },
+      subMenuProps: {
+        items: Array.from(new Set([displayTimeZone, ...AppConstants.COMMON_TIMEZONES])).map(timeZone => ({
+          key: timeZone,
+          text: timeZone,
+          canCheck: true,
+          checked: timeZone === displayTimeZone,
+          onClick: (): void => handleTimeZoneChange(timeZone),
+        })),
+      },
+    },
+    {
+      key: 'settings',
+      text: 'My settings',
+      iconProps: { iconName: 'PlayerSettings' },
+      disabled: !preferences,
+      onClick: (): void => setShowSettings(true),
     },
-  ], [loading, loadCalendarData]);
+  ], [loading, loadingMore, loadCalendarData, getNow, displayTimeZone, handleTimeZoneChange, props.enableFilters, filterSet, filterResult, preferences,
+    writableCalendars, props.enableConflictDetection, conflicts, props.useGraphAPI]);
 
   const commandBarFarItems: ICommandBarItemProps[] = useMemo(() => [
     {
       key: 'search',
       onRender: () => (
-        <SearchBox
-          placeholder="Search events..."
+        <EventSearchBox
           value={searchQuery}
-          onChange={(_, value) => setSearchQuery(value || '')}
-          styles={{
-            root: { width: '250px', marginTop: '4px' }
-          }}
+          lookups={searchLookups}
+          errors={parsedQuery.errors}
+          onChange={setSearchQuery}
           disabled={loading}
         />
       ),
     },
-  ], [searchQuery, loading]);
+  ], [searchQuery, searchLookups, parsedQuery, loading]);
 
   // Event handlers
   const handleEventSelect = useCallback((event: ICalendarEvent): void => {
@@ -278,14 +851,23 @@ const MultiCalendarAggregator: React.FC<IMultiCalendarAggregatorProps> = (props)
     setShowEventDetails(true);
   }, []);
 
-  const handleNavigate = useCallback((date: Date): void => {
-    setCurrentDate(date);
-  }, []);
+  // Without weekends, stepping through days skips Saturdays and Sundays
+  const handleNavigate = useCallback((date: Date, view?: string, action?: NavigateAction): void => {
+    setCurrentDate(view === 'day' && !props.showWeekends ? WorkingHoursUtils.skipWeekend(date, action === 'PREV' ? -1 : 1) : date);
+  }, [props.showWeekends]);
 
   const handleViewChange = useCallback((view: string): void => {
     setCurrentView(view);
   }, []);
 
+  // Dragging across time slots or clicking a day starts a new event; whole-day selections are all-day events
+  const handleSelectSlot = useCallback((slotInfo: SlotInfo): void => {
+    const isAllDay = moment(slotInfo.start).isSame(moment(slotInfo.start).startOf('day')) &&
+      moment(slotInfo.end).isSame(moment(slotInfo.end).startOf('day')) &&
+      moment(slotInfo.end).diff(slotInfo.start, 'days') >= 1;
+    setNewEventSlot({ start: slotInfo.start, end: slotInfo.end, isAllDay });
+  }, []);
+
   // Event style getter for color coding - memoized
   const eventStyleGetter = useCallback((event: ICalendarEvent): { style: React.CSSProperties } => {
     if (!props.colorCoding) {
@@ -298,17 +880,147 @@ const MultiCalendarAggregator: React.FC<IMultiCalendarAggregatorProps> = (props)
       };
     }
 
-    const source = calendarSources.find(s => s.id === event.calendarId);
-    const backgroundColor = source?.color || theme.palette.themePrimary;
+    const getColor = (copy: ICalendarEvent): string =>
+      calendarSources.find(s => s.id === copy.calendarId)?.color || theme.palette.themePrimary;
+    const backgroundColor = getColor(event);
     
     return {
       style: {
         backgroundColor,
         borderColor: backgroundColor,
         color: theme.palette.white,
+        ...(!!event.duplicates?.length && DuplicateUtils.getColorStripeStyle(DuplicateUtils.getCopies(event).map(getColor))),
+        ...(event.id.indexOf(PENDING_EVENT_PREFIX) === 0 && { opacity: 0.6 }),
+        ...(TIME_GRID_VIEWS.indexOf(currentView) !== -1 && !canReschedule(event) && { cursor: 'not-allowed' }),
+        ...((highlightedConflict?.event1.id === event.id || highlightedConflict?.event2.id === event.id) && {
+          boxShadow: `0 0 0 2px ${theme.palette.yellowDark}`
+        }),
+      }
+    };
+  }, [props.colorCoding, theme, calendarSources, currentView, canReschedule, highlightedConflict]);
+
+  // Display preferences shared by all views
+  const dateFormat = preferences?.dateFormat || AppConstants.DEFAULT_DATE_FORMAT;
+  const timeFormat = preferences?.timeFormat || AppConstants.DEFAULT_TIME_FORMAT;
+  const showWeekNumbers = !!preferences?.showWeekNumbers;
+  const firstDayOfWeek = preferences?.firstDayOfWeek;
+  const weekLocale = useMemo(() => firstDayOfWeek === undefined
+    ? undefined
+    : DateUtils.getWeekStartLocale(firstDayOfWeek), [firstDayOfWeek]);
+
+  // Without weekends the week view shows the working week
+  const activeView = currentView === 'week' && !props.showWeekends ? 'work_week' : currentView;
+
+  // Dates on screen outside the full load are loaded ahead of anything still queued
+  useEffect(() => {
+    const selectedSources = getSelectedSources(calendarSources, selectedCalendars);
+    if (!calendarService || selectedSources.length === 0) return;
+
+    const range = DateUtils.getCalendarDateRange(currentDate,
+      activeView === 'day' ? 'day' : TIME_GRID_VIEWS.includes(activeView) ? 'week' : 'month');
+    const preloaded = getPreloadedWindow();
+    if (range.start >= preloaded.start && range.end <= preloaded.end) return;
+
+    rangeAbortRef.current?.abort();
+    const abortController = new AbortController();
+    rangeAbortRef.current = abortController;
+
+    calendarService.getEventsForDateRange(selectedSources, range.start, range.end, props.maxEvents,
+      { priority: RequestPriority.Visible, signal: abortController.signal })
+      .then(loaded => {
+        const loadedIds = new Set(loaded.map(event => event.id));
+        setEvents(prev => [...prev.filter(event => !loadedIds.has(event.id)), ...loaded]);
+      })
+      .catch(err => {
+        if (!RequestScheduler.isAbortError(err)) console.warn('Could not load the dates shown:', err);
+      });
+  }, [calendarService, calendarSources, selectedCalendars, currentDate, activeView, props.maxEvents]);
+
+  // Nothing loaded after the calendar is gone
+  useEffect(() => () => {
+    loadAbortRef.current?.abort();
+    rangeAbortRef.current?.abort();
+  }, []);
+
+  // Time grid views scroll to the start of working hours in the week shown and
+  // can be limited to them
+  const workingTimes = useMemo(() => {
+    if (!workingHours) return {};
+    const weekStart = moment(currentDate).locale(weekLocale || moment.locale()).startOf('week');
+    const days = [0, 1, 2, 3, 4, 5, 6]
+      .map(offset => weekStart.clone().add(offset, 'days').toDate())
+      .filter(day => props.showWeekends || !WorkingHoursUtils.isWeekend(day));
+    const range = WorkingHoursUtils.getWorkingRange(days, workingHours, displayTimeZone);
+    if (!range) return {};
+
+    const dayStart = moment(currentDate).startOf('day');
+    const endHour = Math.ceil(range.endMinutes / 60);
+    return {
+      scrollTo: dayStart.clone().add(range.startMinutes, 'minutes').toDate(),
+      min: props.limitToWorkingHours ? dayStart.clone().add(Math.floor(range.startMinutes / 60), 'hours').toDate() : undefined,
+      max: props.limitToWorkingHours ? (endHour >= 24 ? dayStart.clone().endOf('day') : dayStart.clone().add(endHour, 'hours')).toDate() : undefined
+    };
+  }, [workingHours, currentDate, weekLocale, displayTimeZone, props.showWeekends, props.limitToWorkingHours]);
+
+  // Time outside working hours is shaded; the periods of each day are worked out once
+  const slotPropGetter = useMemo(() => {
+    const periodsByDay = new Map<string, ITimeWindow[]>();
+
+    return (date: Date): React.HTMLAttributes<HTMLDivElement> => {
+      if (!workingHours) return {};
+      const day = moment(date).format('YYYY-MM-DD');
+      let periods = periodsByDay.get(day);
+      if (!periods) {
+        periods = WorkingHoursUtils.getWorkingPeriods(date, workingHours, displayTimeZone);
+        periodsByDay.set(day, periods);
       }
+      return WorkingHoursUtils.isWorkingTime(date, periods) ? {} : { style: { backgroundColor: theme.palette.neutralLighter } };
     };
-  }, [props.colorCoding, theme, calendarSources]);
+  }, [workingHours, displayTimeZone, theme]);
+
+  const calendarFormats: Formats = useMemo(() => ({
+    timeGutterFormat: timeFormat,
+    eventTimeRangeFormat: ({ start, end }) =>
+      `${moment(start).format(timeFormat)} - ${moment(end).format(timeFormat)}`,
+    dayHeaderFormat: (date) => moment(date).format(`dddd, ${dateFormat}`),
+    ...(showWeekNumbers && {
+      dayRangeHeaderFormat: ({ start, end }) =>
+        `${moment(start).format('MMM D')} - ${moment(end).format('MMM D, YYYY')} (week ${DateUtils.getWeekNumber(start, weekLocale)})`,
+    }),
+  }), [dateFormat, timeFormat, showWeekNumbers, weekLocale]);
+
+  // Conflicting events carry a warning badge, and month cells on the first
+  // day of each week also show the week number
+  const calendarComponents = useMemo(() => {
+    const ConflictAwareEvent: React.FC<EventProps<ICalendarEvent>> = ({ event, title }) => (
+      <span>
+        {conflictsByEvent.has(event.id) && (
+          <Icon iconName="Warning" styles={{ root: { marginRight: '4px' } }} title="Conflicts with another event" />
+        )}
+        {title}
+      </span>
+    );
+    if (!showWeekNumbers) return { event: ConflictAwareEvent };
+
+    const weekNumberStyles = mergeStyles({
+      float: 'left',
+      padding: '0 4px',
+      fontSize: '10px',
+      color: theme.palette.neutralSecondary,
+    });
+    const weekStartDay = moment.localeData(weekLocale).firstDayOfWeek();
+
+    const MonthDateHeader: React.FC<DateHeaderProps> = ({ date, label, onDrillDown }) => (
+      <>
+        {date.getDay() === weekStartDay && (
+          <span className={weekNumberStyles} title="Week number">{DateUtils.getWeekNumber(date, weekLocale)}</span>
+        )}
+        <button type="button" className="rbc-button-link" onClick={onDrillDown}>{label}</button>
+      </>
+    );
+
+    return { event: ConflictAwareEvent, month: { dateHeader: MonthDateHeader } };
+  }, [showWeekNumbers, weekLocale, theme, conflictsByEvent]);
 
   // Render different views - memoized
   const renderCalendarView = useCallback((): React.ReactElement => {
@@ -320,55 +1032,77 @@ const MultiCalendarAggregator: React.FC<IMultiCalendarAggregatorProps> = (props)
       );
     }
 
-    switch (currentView) {
+    switch (activeView) {
       case 'agenda':
         return (
           <AgendaView
-            events={filteredEvents}
+            events={visibleEvents}
             onEventSelect={handleEventSelect}
             calendarSources={calendarSources}
             theme={theme}
+            dateFormat={dateFormat}
+            timeFormat={timeFormat}
+            conflictsByEvent={conflictsByEvent}
           />
         );
       case 'timeline':
         return (
           <TimelineView
-            events={filteredEvents}
+            events={visibleEvents}
             onEventSelect={handleEventSelect}
             calendarSources={calendarSources}
             theme={theme}
             currentDate={currentDate}
+            dateFormat={dateFormat}
+            timeFormat={timeFormat}
+            firstDayOfWeek={firstDayOfWeek}
+            conflictsByEvent={conflictsByEvent}
+            showWeekends={props.showWeekends}
+            workingHours={workingHours}
+            displayTimeZone={displayTimeZone}
+            limitToWorkingHours={props.limitToWorkingHours}
           />
         );
       case 'month':
       case 'week':
+      case 'work_week':
       case 'day':
         return (
-          <Calendar
+          <DragAndDropCalendar
             localizer={localizer}
-            events={filteredEvents}
+            culture={weekLocale}
+            events={visibleEvents}
+            getNow={getNow}
             startAccessor="start"
             endAccessor="end"
             titleAccessor="title"
             style={{ height: '600px' }}
             onSelectEvent={handleEventSelect}
+            selectable={writableCalendars.length > 0}
+            onSelectSlot={handleSelectSlot}
+            draggableAccessor={canReschedule}
+            resizableAccessor={canReschedule}
+            onEventDrop={handleEventDrop}
+            onEventResize={handleEventDrop}
             onNavigate={handleNavigate}
             onView={handleViewChange}
-            view={currentView as any}
+            view={activeView as any}
             date={currentDate}
+            scrollToTime={highlightedConflict ? currentDate : workingTimes.scrollTo}
+            min={workingTimes.min}
+            max={workingTimes.max}
             eventPropGetter={eventStyleGetter}
+            slotPropGetter={slotPropGetter}
             showAllEvents={true}
             popup={true}
             views={{
               month: true,
-              week: true,
+              ...(props.showWeekends && { week: true }),
+              work_week: true,
               day: true,
             }}
-            formats={{
-              timeGutterFormat: 'HH:mm',
-              eventTimeRangeFormat: ({ start, end }) =>
-                `${moment(start).format('HH:mm')} - ${moment(end).format('HH:mm')}`,
-            }}
+            formats={calendarFormats}
+            components={calendarComponents}
           />
         );
       default:
@@ -378,7 +1112,10 @@ const MultiCalendarAggregator: React.FC<IMultiCalendarAggregatorProps> = (props)
           </div>
         );
     }
-  }, [currentView, filteredEvents, handleEventSelect, calendarSources, theme, currentDate, handleNavigate, handleViewChange, eventStyleGetter, loading]);
+  }, [activeView, visibleEvents, getNow, handleEventSelect, calendarSources, theme, currentDate, handleNavigate, handleViewChange, eventStyleGetter, loading,
+    dateFormat, timeFormat, firstDayOfWeek, weekLocale, calendarFormats, calendarComponents, writableCalendars, handleSelectSlot,
+    canReschedule, handleEventDrop, conflictsByEvent, highlightedConflict, props.showWeekends, props.limitToWorkingHours, workingHours,
+    displayTimeZone, workingTimes, slotPropGetter]);
 
   // Early return for loading state
   if (loading && events.length === 0) {
@@ -404,9 +1141,14 @@ const MultiCalendarAggregator: React.FC<IMultiCalendarAggregatorProps> = (props)
                 <Text variant="xLarge" styles={{ root: { fontWeight: 600, color: theme.palette.themePrimary } }}>
                   {props.title || 'Multi-Calendar Aggregator'}
                 </Text>
-                <Text variant="medium" styles={{ root: { color: theme.palette.neutralSecondary } }}>
-                  {filteredEvents.length} events from {calendarSources.length} calendar sources
-                </Text>
+                <Stack horizontal verticalAlign="center" tokens={{ childrenGap: 8 }}>
+                  <Text variant="medium" styles={{ root: { color: theme.palette.neutralSecondary } }}>
+                    {visibleEvents.length} events from {calendarSources.length} calendar sources
+                    {filterResult && ` (filtered from ${filterResult.statistics.totalItems})`}
+                    {truncated && ` (showing first ${events.length}, more available)`}
+                  </Text>
+                  {loadingMore && <Spinner size={SpinnerSize.xSmall} ariaLabel="Loading more events" />}
+                </Stack>
               </Stack>
               <Stack horizontal tokens={{ childrenGap: 8 }}>
                 <Icon
@@ -450,9 +1192,26 @@ const MultiCalendarAggregator: React.FC<IMultiCalendarAggregatorProps> = (props)
           </MessageBar>
         )}
 
+        {/* Undo for the last move */}
+        {undoMove && (
+          <MessageBar
+            messageBarType={MessageBarType.success}
+            isMultiline={false}
+            onDismiss={() => setUndoMove(undefined)}
+            dismissButtonAriaLabel="Close"
+            actions={<MessageBarButton onClick={() => moveEvent(undoMove, true)}>Undo</MessageBarButton>}
+            styles={{ root: { marginBottom: '16px' } }}
+          >
+            Moved &quot;{undoMove.event.title}&quot; to {DateUtils.formatDateTime(
+              undoMove.event.isAllDay ? undoMove.event.start : DateUtils.convertToUserTimezone(undoMove.event.start, displayTimeZone),
+              `${dateFormat} ${undoMove.event.isAllDay ? '' : timeFormat}`.trim()
+            )}
+          </MessageBar>
+        )}
+
         {/* View Selector */}
         <Pivot
-          selectedKey={currentView}
+          selectedKey={activeView}
           onLinkClick={(item) => item && setCurrentView(item.props.itemKey!)}
           styles={{
             root: {
@@ -465,7 +1224,8 @@ const MultiCalendarAggregator: React.FC<IMultiCalendarAggregatorProps> = (props)
           }}
         >
           <PivotItem headerText="Month" itemKey="month" itemIcon="Calendar" />
-          <PivotItem headerText="Week" itemKey="week" itemIcon="CalendarWeek" />
+          {props.showWeekends && <PivotItem headerText="Week" itemKey="week" itemIcon="CalendarWeek" />}
+          <PivotItem headerText="Work week" itemKey="work_week" itemIcon="CalendarWorkWeek" />
           <PivotItem headerText="Day" itemKey="day" itemIcon="CalendarDay" />
           <PivotItem headerText="Agenda" itemKey="agenda" itemIcon="BulletedList" />
           <PivotItem headerText="Timeline" itemKey="timeline" itemIcon="Timeline" />
@@ -486,11 +1246,137 @@ const MultiCalendarAggregator: React.FC<IMultiCalendarAggregatorProps> = (props)
             <EventDetailsPanel
               event={selectedEvent}
               calendarSource={calendarSources.find(s => s.id === selectedEvent.calendarId)}
+              displayTimeZone={displayTimeZone}
+              dateFormat={dateFormat}
+              timeFormat={timeFormat}
+              onDelete={selectedEvent.id.indexOf(PENDING_EVENT_PREFIX) !== 0 && writableCalendars.some(source => source.id === selectedEvent.calendarId)
+                ? handleDeleteRequest
+                : undefined}
               onClose={() => setShowEventDetails(false)}
             />
           )}
         </Panel>
 
+        {/* New Event Panel */}
+        <Panel
+          isOpen={!!newEventSlot}
+          onDismiss={() => setNewEventSlot(undefined)}
+          type={PanelType.medium}
+          headerText="New Event"
+          closeButtonAriaLabel="Close"
+        >
+          {newEventSlot && (
+            <EventCreatePanel
+              calendars={writableCalendars}
+              defaultCalendarId={defaultCalendarId}
+              start={newEventSlot.start}
+              end={newEventSlot.end}
+              isAllDay={newEventSlot.isAllDay}
+              attendees={newEventSlot.attendees}
+              displayTimeZone={displayTimeZone}
+              onCreate={handleCreateEvent}
+              onClose={() => setNewEventSlot(undefined)}
+              onLoadRoomLists={props.useGraphAPI ? handleLoadRoomLists : undefined}
+              onFindRooms={props.useGraphAPI ? handleFindRooms : undefined}
+            />
+          )}
+        </Panel>
+
+        {/* Which occurrences of a series a move or delete applies to */}
+        <SeriesScopeDialog
+          event={occurrenceMove?.event}
+          action="move"
+          onConfirm={scope => {
+            if (occurrenceMove) moveEvent(occurrenceMove, false, scope);
+            setOccurrenceMove(undefined);
+          }}
+          onDismiss={() => setOccurrenceMove(undefined)}
+        />
+        <SeriesScopeDialog
+          event={pendingDelete}
+          action="delete"
+          onConfirm={scope => pendingDelete && deleteEvent(pendingDelete, scope)}
+          onDismiss={() => setPendingDelete(undefined)}
+        />
+
+        {/* Filter Panel */}
+        {props.enableFilters && (
+          <Panel
+            isOpen={showFilters}
+            onDismiss={() => setShowFilters(false)}
+            type={PanelType.medium}
+            headerText="Filter Events"
+            closeButtonAriaLabel="Close"
+          >
+            <FilterPanel
+              filterSet={filterSet}
+              calendarSources={calendarSources}
+              events={events}
+              result={filterResult}
+              onApply={setFilterSet}
+              onClose={() => setShowFilters(false)}
+            />
+          </Panel>
+        )}
+
+        {/* Conflicts Panel */}
+        {props.enableConflictDetection && (
+          <Panel
+            isOpen={showConflicts}
+            onDismiss={() => setShowConflicts(false)}
+            type={PanelType.medium}
+            headerText="Conflicts"
+            closeButtonAriaLabel="Close"
+          >
+            <ConflictsPanel
+              conflicts={conflicts}
+              displayTimeZone={displayTimeZone}
+              dateFormat={dateFormat}
+              timeFormat={timeFormat}
+              onShowConflict={handleShowConflict}
+            />
+          </Panel>
+        )}
+
+        {/* Scheduling Assistant Panel */}
+        {props.useGraphAPI && (
+          <Panel
+            isOpen={showSchedulingAssistant}
+            onDismiss={() => setShowSchedulingAssistant(false)}
+            type={PanelType.large}
+            headerText="Scheduling Assistant"
+            closeButtonAriaLabel="Close"
+          >
+            <SchedulingAssistant
+              defaultAttendees={props.context.pageContext.user.email ? [props.context.pageContext.user.email] : []}
+              initialDate={currentDate}
+              displayTimeZone={displayTimeZone}
+              dateFormat={dateFormat}
+              timeFormat={timeFormat}
+              onLoadSchedule={handleLoadSchedule}
+              onPickSlot={handlePickMeetingTime}
+            />
+          </Panel>
+        )}
+
+        {/* User Settings Panel */}
+        <Panel
+          isOpen={showSettings}
+          onDismiss={() => setShowSettings(false)}
+          type={PanelType.medium}
+          headerText="My Settings"
+          closeButtonAriaLabel="Close"
+        >
+          {preferences && (
+            <UserSettingsPanel
+              preferences={preferences}
+              calendarSources={calendarSources}
+              onSave={handleSavePreferences}
+              onClose={() => setShowSettings(false)}
+            />
+          )}
+        </Panel>
+
         {/* Calendar Sources Panel */}
         <Panel
           isOpen={showCalendarSources}
@@ -501,12 +1387,21 @@ const MultiCalendarAggregator: React.FC<IMultiCalendarAggregatorProps> = (props)
         >
           <CalendarSourcesPanel
             sources={calendarSources}
-            selectedSources={props.selectedCalendars}
-            onSourcesChange={(selected) => {
-              // Update web part properties
-              console.log('Selected sources changed:', selected);
-            }}
+            selectedSources={selectedCalendars.length > 0
+              ? selectedCalendars
+              : calendarSources.filter(s => s.type !== CalendarSourceType.ICS).map(s => s.id)}
+            selectionMode={props.isEditMode ? 'page' : 'user'}
+            hasUserSelection={!props.isEditMode && userSelection !== undefined}
+            onSourcesChange={handleSourcesChange}
+            onResetSelection={handleResetSourceSelection}
             onClose={() => setShowCalendarSources(false)}
+            onImportCalendar={handleImportCalendar}
+            onRemoveSource={handleRemoveImportedCalendar}
+            onSourceEnabledChange={handleImportedCalendarToggle}
+            onCheckSourceHealth={handleCheckSourceHealth}
+            getSourceHealth={handleGetSourceHealth}
+            getSyncStatus={handleGetSyncStatus}
+            favoriteSourceIds={preferences?.favoriteCalendars}
           />
         </Panel>
       </div>
@@ -0,0 +1,224 @@
+import * as React from 'react';
+import { useState, useEffect, useMemo } from 'react';
+import {
+  Stack,
+  Text,
+  TextField,
+  Dropdown,
+  IDropdownOption,
+  Toggle,
+  ActionButton,
+  Icon,
+  Spinner,
+  SpinnerSize,
+  MessageBar,
+  MessageBarType,
+  IStackTokens,
+  mergeStyles,
+  useTheme,
+  ITheme
+} from '@fluentui/react';
+
+import { IMeetingRoom, IRoomList, IRoomSearchCriteria } from '../models/IEventModels';
+import { SchedulingUtils } from '../utils/SchedulingUtils';
+
+export interface IRoomFinderProps {
+  start: Date;
+  end: Date;
+  onLoadRoomLists: () => Promise<IRoomList[]>;
+  onFindRooms: (criteria: IRoomSearchCriteria, start: Date, end: Date) => Promise<IMeetingRoom[]>;
+  onSelect: (room: IMeetingRoom) => void;
+}
+
+const ALL_ROOMS = '';
+
+const stackTokens: IStackTokens = { childrenGap: 8 };
+
+const unique = (values: (string | undefined)[]): string[] =>
+  Array.from(new Set(values.filter((value): value is string => !!value))).sort();
+
+/**
+ * Finds rooms by room list, building, floor, capacity and equipment and shows
+ * whether each is free for the event's time
+ */
+export const RoomFinder: React.FC<IRoomFinderProps> = ({ start, end, onLoadRoomLists, onFindRooms, onSelect }) => {
+  const theme: ITheme = useTheme();
+  const [roomLists, setRoomLists] = useState<IRoomList[]>([]);
+  const [roomList, setRoomList] = useState<string>(ALL_ROOMS);
+  const [rooms, setRooms] = useState<IMeetingRoom[]>([]);
+  const [loading, setLoading] = useState<boolean>(false);
+  const [error, setError] = useState<string | undefined>(undefined);
+  const [building, setBuilding] = useState<string>('');
+  const [floor, setFloor] = useState<string>('');
+  const [minCapacity, setMinCapacity] = useState<string>('');
+  const [equipment, setEquipment] = useState<string[]>([]);
+  const [onlyAvailable, setOnlyAvailable] = useState<boolean>(true);
+
+  useEffect(() => {
+    onLoadRoomLists()
+      .then(setRoomLists)
+      .catch(loadError => console.warn('Could not load room lists:', loadError));
+  }, [onLoadRoomLists]);
+
+  // Availability depends on the time, so rooms are reloaded when it changes
+  const startTime = start.getTime();
+  const endTime = end.getTime();
+  useEffect(() => {
+    if (isNaN(startTime) || isNaN(endTime) || endTime <= startTime) return;
+
+    let cancelled = false;
+    setLoading(true);
+    setError(undefined);
+    onFindRooms({ roomList: roomList || undefined }, new Date(startTime), new Date(endTime))
+      .then(found => {
+        if (!cancelled) setRooms(found);
+      })
+      .catch(findError => {
+        console.error('Failed to find rooms:', findError);
+        if (!cancelled) setError(`Could not load rooms: ${findError instanceof Error ? findError.message : 'Unknown error'}`);
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [roomList, startTime, endTime, onFindRooms]);
+
+  const buildingOptions: IDropdownOption[] = useMemo(() => [
+    { key: '', text: 'Any building' },
+    ...unique(rooms.map(room => room.building)).map(value => ({ key: value, text: value }))
+  ], [rooms]);
+
+  const floorOptions: IDropdownOption[] = useMemo(() => [
+    { key: '', text: 'Any floor' },
+    ...unique(rooms.filter(room => !building || room.building === building).map(room => room.floor)).map(value => ({ key: value, text: value }))
+  ], [rooms, building]);
+
+  const equipmentOptions: IDropdownOption[] = useMemo(() =>
+    unique(rooms.reduce<string[]>((all, room) => [...all, ...(room.equipment || [])], [])).map(value => ({ key: value, text: value })),
+  [rooms]);
+
+  const matchingRooms = useMemo(() => SchedulingUtils.filterRooms(rooms, {
+    building: building || undefined,
+    floor: floor || undefined,
+    minCapacity: parseInt(minCapacity, 10) || undefined,
+    equipment
+  }).filter(room => !onlyAvailable || room.isAvailable !== false), [rooms, building, floor, minCapacity, equipment, onlyAvailable]);
+
+  const roomStyles = mergeStyles({
+    padding: '8px',
+    borderRadius: '4px',
+    border: `1px solid ${theme.palette.neutralLight}`
+  });
+
+  return (
+    <Stack tokens={stackTokens}>
+      <Stack horizontal wrap tokens={{ childrenGap: 8 }}>
+        <Dropdown
+          label="Room list"
+          options={[{ key: ALL_ROOMS, text: 'All rooms' }, ...roomLists.map(list => ({ key: list.email, text: list.name }))]}
+          selectedKey={roomList}
+          onChange={(_, option) => {
+            if (!option) return;
+            setRoomList(option.key as string);
+            setBuilding('');
+            setFloor('');
+          }}
+          styles={{ root: { minWidth: '160px' } }}
+        />
+        <Dropdown
+          label="Building"
+          options={buildingOptions}
+          selectedKey={building}
+          onChange={(_, option) => {
+            if (!option) return;
+            setBuilding(option.key as string);
+            setFloor('');
+          }}
+          styles={{ root: { minWidth: '140px' } }}
+        />
+        <Dropdown
+          label="Floor"
+          options={floorOptions}
+          selectedKey={floor}
+          onChange={(_, option) => option && setFloor(option.key as string)}
+          styles={{ root: { minWidth: '100px' } }}
+        />
+      </Stack>
+      <Stack horizontal wrap tokens={{ childrenGap: 8 }} verticalAlign="end">
+        <TextField
+          label="Seats"
+          type="number"
+          min={1}
+          value={minCapacity}
+          onChange={(_, value) => setMinCapacity(value || '')}
+          styles={{ root: { width: '80px' } }}
+        />
+        <Dropdown
+          label="Equipment"
+          multiSelect
+          placeholder="Any"
+          options={equipmentOptions}
+          selectedKeys={equipment}
+          onChange={(_, option) => option && setEquipment(option.selected
+            ? [...equipment, option.key as string]
+            : equipment.filter(item => item !== option.key))}
+          styles={{ root: { minWidth: '180px' } }}
+        />
+        <Toggle
+          label="Only free rooms"
+          checked={onlyAvailable}
+          onChange={(_, checked) => setOnlyAvailable(!!checked)}
+        />
+      </Stack>
+
+      {error && (
+        <MessageBar messageBarType={MessageBarType.error} onDismiss={() => setError(undefined)}>
+          {error}
+        </MessageBar>
+      )}
+
+      {loading ? (
+        <Spinner size={SpinnerSize.small} label="Checking rooms..." />
+      ) : matchingRooms.length === 0 ? (
+        <Text variant="small" styles={{ root: { color: theme.palette.neutralSecondary } }}>
+          No rooms match these filters.
+        </Text>
+      ) : (
+        <Stack tokens={{ childrenGap: 4 }} styles={{ root: { maxHeight: '320px', overflowY: 'auto' } }}>
+          {matchingRooms.map(room => (
+            <Stack key={room.id} horizontal verticalAlign="center" horizontalAlign="space-between" className={roomStyles}>
+              <Stack tokens={{ childrenGap: 2 }}>
+                <Stack horizontal verticalAlign="center" tokens={{ childrenGap: 6 }}>
+                  <Icon iconName="Room" />
+                  <Text styles={{ root: { fontWeight: 600 } }}>{room.name}</Text>
+                  {room.isAvailable !== undefined && (
+                    <Text variant="small" styles={{ root: { color: room.isAvailable ? theme.palette.green : theme.palette.red } }}>
+                      {room.isAvailable ? 'Free' : 'Busy'}
+                    </Text>
+                  )}
+                </Stack>
+                <Text variant="small" styles={{ root: { color: theme.palette.neutralSecondary } }}>
+                  {[room.capacity ? `${room.capacity} seats` : undefined, room.building, room.floor ? `Floor ${room.floor}` : undefined].filter(Boolean).join(' · ')}
+                </Text>
+                {!!room.equipment?.length && (
+                  <Text variant="xSmall" styles={{ root: { color: theme.palette.neutralSecondary } }}>
+                    {room.equipment.join(', ')}
+                  </Text>
+                )}
+              </Stack>
+              <ActionButton
+                iconProps={{ iconName: 'Add' }}
+                text="Book"
+                ariaLabel={`Book ${room.name}`}
+                onClick={() => onSelect(room)}
+              />
+            </Stack>
+          ))}
+        </Stack>
+      )}
+    </Stack>
+  );
+};
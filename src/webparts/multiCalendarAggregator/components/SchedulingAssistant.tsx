@@ -0,0 +1,377 @@
+import * as React from 'react';
+import { useState, useMemo } from 'react';
+import {
+  Stack,
+  Text,
+  TextField,
+  Dropdown,
+  IDropdownOption,
+  DatePicker,
+  PrimaryButton,
+  ActionButton,
+  Icon,
+  Spinner,
+  SpinnerSize,
+  MessageBar,
+  MessageBarType,
+  IStackTokens,
+  mergeStyles,
+  useTheme,
+  ITheme
+} from '@fluentui/react';
+import moment from 'moment';
+
+import { IFreeBusyQuery, IFreeBusyResult, IFreeBusyTimeSlot, IMeetingSuggestion } from '../models/IEventModels';
+import { SchedulingUtils, ITimeWindow } from '../utils/SchedulingUtils';
+import { DateUtils } from '../utils/DateUtils';
+
+export interface ISchedulingAssistantProps {
+  defaultAttendees: string[];
+  initialDate: Date; // Wall-clock date in the display time zone
+  displayTimeZone: string;
+  dateFormat: string;
+  timeFormat: string;
+  onLoadSchedule: (query: IFreeBusyQuery) => Promise<IFreeBusyResult[]>;
+  onPickSlot: (start: Date, end: Date, attendees: string[]) => void; // Wall-clock times in the display time zone
+}
+
+// Hours of each day shown in the grid and searched for meeting times
+const GRID_START_HOUR = 7;
+const GRID_END_HOUR = 19;
+const HOUR_WIDTH = 48; // pixels
+const NAME_COLUMN_WIDTH = 200; // pixels
+const ROW_HEIGHT = 28; // pixels
+const INTERVAL_MINUTES = 30;
+
+const durationOptions: IDropdownOption[] = [
+  { key: 15, text: '15 minutes' },
+  { key: 30, text: '30 minutes' },
+  { key: 45, text: '45 minutes' },
+  { key: 60, text: '1 hour' },
+  { key: 90, text: '1.5 hours' },
+  { key: 120, text: '2 hours' }
+];
+
+const dayCountOptions: IDropdownOption[] = [
+  { key: 1, text: '1 day' },
+  { key: 2, text: '2 days' },
+  { key: 3, text: '3 days' },
+  { key: 5, text: '5 days' },
+  { key: 7, text: '1 week' }
+];
+
+const STATUS_LABELS: { [status: string]: string } = {
+  busy: 'Busy',
+  tentative: 'Tentative',
+  outOfOffice: 'Out of office',
+  workingElsewhere: 'Working elsewhere'
+};
+
+const stackTokens: IStackTokens = { childrenGap: 12 };
+
+interface ILoadedSchedule {
+  attendees: string[];
+  days: ITimeWindow[]; // Grid hours of each day, wall-clock in the display zone
+  results: IFreeBusyResult[];
+  suggestions: IMeetingSuggestion[];
+}
+
+const getStatusStyle = (status: IFreeBusyTimeSlot['status'], theme: ITheme): React.CSSProperties => {
+  switch (status) {
+    case 'tentative':
+      return {
+        backgroundImage: `repeating-linear-gradient(45deg, ${theme.palette.themePrimary} 0 4px, ${theme.palette.themeLighter} 4px 8px)`
+      };
+    case 'outOfOffice':
+      return { backgroundColor: theme.palette.purple };
+    case 'workingElsewhere':
+      return { backgroundColor: theme.palette.white, border: `2px dashed ${theme.palette.teal}` };
+    default:
+      return { backgroundColor: theme.palette.themePrimary };
+  }
+};
+
+/**
+ * Percent offset of a wall-clock time within a day of the grid
+ */
+const getOffset = (date: Date, day: ITimeWindow): number => {
+  const time = Math.min(Math.max(date.getTime(), day.start.getTime()), day.end.getTime());
+  return ((time - day.start.getTime()) / (day.end.getTime() - day.start.getTime())) * 100;
+};
+
+/**
+ * Free/busy grid for a set of attendees with ranked meeting times. Picking a
+ * time opens the new event form with the attendees filled in.
+ */
+export const SchedulingAssistant: React.FC<ISchedulingAssistantProps> = ({
+  defaultAttendees,
+  initialDate,
+  displayTimeZone,
+  dateFormat,
+  timeFormat,
+  onLoadSchedule,
+  onPickSlot
+}) => {
+  const theme: ITheme = useTheme();
+  const [attendeesText, setAttendeesText] = useState<string>(defaultAttendees.join('; '));
+  const [startDate, setStartDate] = useState<Date>(initialDate);
+  const [dayCount, setDayCount] = useState<number>(1);
+  const [duration, setDuration] = useState<number>(30);
+  const [loading, setLoading] = useState<boolean>(false);
+  const [error, setError] = useState<string | undefined>(undefined);
+  const [schedule, setSchedule] = useState<ILoadedSchedule | undefined>(undefined);
+
+  const rowStyles = mergeStyles({
+    display: 'flex',
+    alignItems: 'center',
+    borderBottom: `1px solid ${theme.palette.neutralLight}`
+  });
+
+  const dayStyles = mergeStyles({
+    position: 'relative',
+    flexShrink: 0,
+    width: `${(GRID_END_HOUR - GRID_START_HOUR) * HOUR_WIDTH}px`,
+    height: `${ROW_HEIGHT}px`,
+    borderLeft: `1px solid ${theme.palette.neutralTertiary}`,
+    backgroundColor: theme.palette.neutralLighter,
+    overflow: 'hidden'
+  });
+
+  const hourLinesStyle: React.CSSProperties = {
+    backgroundImage: `repeating-linear-gradient(to right, transparent 0 ${HOUR_WIDTH - 1}px, ${theme.palette.neutralLight} ${HOUR_WIDTH - 1}px ${HOUR_WIDTH}px)`
+  };
+
+  const showAvailability = (): void => {
+    const attendees = attendeesText.split(/[;,\s]+/).map(email => email.trim()).filter(email => email !== '');
+    if (attendees.length === 0) {
+      setError('Add at least one attendee');
+      return;
+    }
+
+    const days: ITimeWindow[] = Array.from({ length: dayCount }, (_, index) => {
+      const day = moment(startDate).startOf('day').add(index, 'days');
+      return {
+        start: day.clone().hours(GRID_START_HOUR).toDate(),
+        end: day.clone().hours(GRID_END_HOUR).toDate()
+      };
+    });
+    const toInstant = (date: Date): Date => DateUtils.convertFromUserTimezone(date, displayTimeZone);
+
+    setLoading(true);
+    setError(undefined);
+    onLoadSchedule({
+      attendees,
+      startDate: toInstant(moment(startDate).startOf('day').toDate()),
+      endDate: toInstant(moment(startDate).startOf('day').add(dayCount, 'days').toDate()),
+      intervalMinutes: INTERVAL_MINUTES
+    })
+      .then(results => {
+        setSchedule({
+          attendees,
+          days,
+          results,
+          suggestions: SchedulingUtils.suggestMeetingTimes(
+            results,
+            days.map(day => ({ start: toInstant(day.start), end: toInstant(day.end) })),
+            duration,
+            INTERVAL_MINUTES,
+            displayTimeZone
+          )
+        });
+      })
+      .catch(loadError => {
+        console.error('Failed to load schedules:', loadError);
+        setError(`Could not load schedules: ${loadError instanceof Error ? loadError.message : 'Unknown error'}`);
+      })
+      .finally(() => setLoading(false));
+  };
+
+  // Working hours of each attendee on each day of the grid
+  const workingWindows = useMemo(() => schedule
+    ? schedule.results.map(result => schedule.days.map(day => result.workingHours
+      ? SchedulingUtils.getWorkingWindows(day.start, result.workingHours, displayTimeZone)
+      : [day]))
+    : [], [schedule, displayTimeZone]);
+
+  const pickSuggestion = (suggestion: IMeetingSuggestion): void => {
+    if (!schedule) return;
+    onPickSlot(
+      DateUtils.convertToUserTimezone(suggestion.start, displayTimeZone),
+      DateUtils.convertToUserTimezone(suggestion.end, displayTimeZone),
+      schedule.attendees
+    );
+  };
+
+  const renderBlock = (slot: IFreeBusyTimeSlot, day: ITimeWindow, index: number): React.ReactNode => {
+    const start = DateUtils.convertToUserTimezone(slot.start, displayTimeZone);
+    const end = DateUtils.convertToUserTimezone(slot.end, displayTimeZone);
+    if (end <= day.start || start >= day.end) return null;
+
+    const left = getOffset(start, day);
+    const details = [slot.subject, slot.location].filter(Boolean).join(' · ');
+    return (
+      <div
+        key={index}
+        title={`${STATUS_LABELS[slot.status] || slot.status} ${moment(start).format(timeFormat)} - ${moment(end).format(timeFormat)}${details ? `\n${details}` : ''}`}
+        style={{
+          position: 'absolute',
+          top: '4px',
+          bottom: '4px',
+          left: `${left}%`,
+          width: `${Math.max(getOffset(end, day) - left, 0.5)}%`,
+          borderRadius: '2px',
+          boxSizing: 'border-box',
+          ...getStatusStyle(slot.status, theme)
+        }}
+      />
+    );
+  };
+
+  return (
+    <Stack tokens={stackTokens}>
+      <TextField
+        label="Attendees"
+        placeholder="name@contoso.com; name2@contoso.com"
+        value={attendeesText}
+        onChange={(_, value) => setAttendeesText(value || '')}
+      />
+      <Stack horizontal wrap tokens={{ childrenGap: 12 }} verticalAlign="end">
+        <DatePicker
+          label="From"
+          value={startDate}
+          onSelectDate={date => date && setStartDate(date)}
+          formatDate={date => date ? moment(date).format(dateFormat) : ''}
+          styles={{ root: { minWidth: '180px' } }}
+        />
+        <Dropdown
+          label="Days"
+          options={dayCountOptions}
+          selectedKey={dayCount}
+          onChange={(_, option) => option && setDayCount(option.key as number)}
+          styles={{ root: { minWidth: '120px' } }}
+        />
+        <Dropdown
+          label="Duration"
+          options={durationOptions}
+          selectedKey={duration}
+          onChange={(_, option) => option && setDuration(option.key as number)}
+          styles={{ root: { minWidth: '140px' } }}
+        />
+        <PrimaryButton text="Show availability" onClick={showAvailability} disabled={loading} />
+      </Stack>
+
+      {error && (
+        <MessageBar messageBarType={MessageBarType.error} onDismiss={() => setError(undefined)}>
+          {error}
+        </MessageBar>
+      )}
+
+      {loading && <Spinner size={SpinnerSize.medium} label="Loading schedules..." />}
+
+      {schedule && !loading && (
+        <>
+          <div style={{ overflowX: 'auto', border: `1px solid ${theme.palette.neutralLight}` }}>
+            <div style={{ width: `${NAME_COLUMN_WIDTH + schedule.days.length * (GRID_END_HOUR - GRID_START_HOUR) * HOUR_WIDTH}px` }}>
+              <div className={rowStyles}>
+                <div style={{ width: `${NAME_COLUMN_WIDTH}px`, flexShrink: 0 }} />
+                {schedule.days.map(day => (
+                  <div key={day.start.getTime()} className={dayStyles} style={{ height: 'auto', backgroundColor: theme.palette.white }}>
+                    <Text variant="small" block styles={{ root: { fontWeight: 600, padding: '2px 4px' } }}>
+                      {moment(day.start).format(`ddd, ${dateFormat}`)}
+                    </Text>
+                    <div style={{ display: 'flex' }}>
+                      {Array.from({ length: GRID_END_HOUR - GRID_START_HOUR }, (_, hour) => (
+                        <Text key={hour} variant="xSmall" styles={{ root: { width: `${HOUR_WIDTH}px`, paddingLeft: '2px', color: theme.palette.neutralSecondary } }}>
+                          {moment(day.start).add(hour, 'hours').format(timeFormat)}
+                        </Text>
+                      ))}
+                    </div>
+                  </div>
+                ))}
+              </div>
+
+              {schedule.results.map((result, resultIndex) => (
+                <div key={result.attendee} className={rowStyles}>
+                  <Stack
+                    horizontal
+                    verticalAlign="center"
+                    tokens={{ childrenGap: 4 }}
+                    styles={{ root: { width: `${NAME_COLUMN_WIDTH}px`, flexShrink: 0, padding: '0 8px', overflow: 'hidden' } }}
+                  >
+                    {result.error && (
+                      <Icon iconName="Warning" title={result.error} styles={{ root: { color: theme.palette.red } }} />
+                    )}
+                    <Text variant="small" nowrap title={result.attendee}>{result.attendee}</Text>
+                  </Stack>
+                  {schedule.days.map((day, dayIndex) => {
+                    const working = workingWindows[resultIndex]?.[dayIndex] || [];
+                    return (
+                      <div key={day.start.getTime()} className={dayStyles}>
+                        {working.map(period => (
+                          <div
+                            key={period.start.getTime()}
+                            style={{
+                              position: 'absolute',
+                              top: 0,
+                              bottom: 0,
+                              left: `${getOffset(period.start, day)}%`,
+                              width: `${getOffset(period.end, day) - getOffset(period.start, day)}%`,
+                              backgroundColor: theme.palette.white
+                            }}
+                          />
+                        ))}
+                        <div style={{ position: 'absolute', top: 0, right: 0, bottom: 0, left: 0, ...hourLinesStyle }} />
+                        {result.timeSlots.map((slot, slotIndex) => renderBlock(slot, day, slotIndex))}
+                      </div>
+                    );
+                  })}
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <Stack horizontal wrap tokens={{ childrenGap: 16 }}>
+            {Object.keys(STATUS_LABELS).map(status => (
+              <Stack key={status} horizontal verticalAlign="center" tokens={{ childrenGap: 4 }}>
+                <div style={{ width: '16px', height: '12px', boxSizing: 'border-box', ...getStatusStyle(status as IFreeBusyTimeSlot['status'], theme) }} />
+                <Text variant="small">{STATUS_LABELS[status]}</Text>
+              </Stack>
+            ))}
+            <Stack horizontal verticalAlign="center" tokens={{ childrenGap: 4 }}>
+              <div style={{ width: '16px', height: '12px', backgroundColor: theme.palette.neutralLighter, border: `1px solid ${theme.palette.neutralLight}` }} />
+              <Text variant="small">Outside working hours</Text>
+            </Stack>
+          </Stack>
+
+          <Text variant="mediumPlus" styles={{ root: { fontWeight: 600 } }}>Suggested times</Text>
+          {schedule.suggestions.length === 0 ? (
+            <MessageBar>No time in these days suits any attendee. Try more days or a shorter meeting.</MessageBar>
+          ) : (
+            <Stack tokens={{ childrenGap: 4 }}>
+              {schedule.suggestions.map(suggestion => {
+                const start = DateUtils.convertToUserTimezone(suggestion.start, displayTimeZone);
+                const end = DateUtils.convertToUserTimezone(suggestion.end, displayTimeZone);
+                return (
+                  <Stack key={suggestion.start.getTime()} horizontal verticalAlign="center" horizontalAlign="space-between">
+                    <Stack>
+                      <Text>{`${moment(start).format(`ddd, ${dateFormat}`)} ${moment(start).format(timeFormat)} - ${moment(end).format(timeFormat)}`}</Text>
+                      <Text variant="small" styles={{ root: { color: suggestion.confidence === 1 ? theme.palette.green : theme.palette.neutralSecondary } }}>
+                        {suggestion.reason}
+                      </Text>
+                    </Stack>
+                    <ActionButton
+                      iconProps={{ iconName: 'Add' }}
+                      text="New event"
+                      ariaLabel={`New event at ${moment(start).format(`${dateFormat} ${timeFormat}`)}`}
+                      onClick={() => pickSuggestion(suggestion)}
+                    />
+                  </Stack>
+                );
+              })}
+            </Stack>
+          )}
+        </>
+      )}
+    </Stack>
+  );
+};
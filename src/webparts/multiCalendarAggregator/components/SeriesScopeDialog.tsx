@@ -0,0 +1,68 @@
+import * as React from 'react';
+import { useState, useEffect } from 'react';
+import {
+  Dialog,
+  DialogType,
+  DialogFooter,
+  ChoiceGroup,
+  IChoiceGroupOption,
+  PrimaryButton,
+  DefaultButton
+} from '@fluentui/react';
+
+import { ICalendarEvent } from '../models/ICalendarModels';
+import { RecurringEditScope } from '../models/IEventModels';
+
+export interface ISeriesScopeDialogProps {
+  event?: ICalendarEvent; // Dialog is shown while set
+  action: 'move' | 'delete';
+  onConfirm: (scope: RecurringEditScope) => void;
+  onDismiss: () => void;
+}
+
+const SCOPE_OPTIONS: IChoiceGroupOption[] = [
+  { key: 'occurrence', text: 'This occurrence' },
+  { key: 'following', text: 'This and following occurrences' },
+  { key: 'series', text: 'All occurrences' }
+];
+
+/**
+ * Confirms a move or delete. For an occurrence of a series the user chooses
+ * which occurrences the change applies to.
+ */
+export const SeriesScopeDialog: React.FC<ISeriesScopeDialogProps> = ({ event, action, onConfirm, onDismiss }) => {
+  const [scope, setScope] = useState<RecurringEditScope>('occurrence');
+  const isOccurrence = !!event?.masterSeriesId;
+
+  useEffect(() => {
+    setScope('occurrence');
+  }, [event]);
+
+  const verb = action === 'move' ? 'Move' : 'Delete';
+
+  return (
+    <Dialog
+      hidden={!event}
+      onDismiss={onDismiss}
+      dialogContentProps={{
+        type: DialogType.normal,
+        title: isOccurrence ? `${verb} recurring event` : `${verb} event`,
+        subText: isOccurrence
+          ? `"${event?.title || ''}" is part of a series. Which occurrences should be ${action === 'move' ? 'moved' : 'deleted'}?`
+          : `"${event?.title || ''}" will be deleted.`
+      }}
+    >
+      {isOccurrence && (
+        <ChoiceGroup
+          options={SCOPE_OPTIONS}
+          selectedKey={scope}
+          onChange={(_, option) => option && setScope(option.key as RecurringEditScope)}
+        />
+      )}
+      <DialogFooter>
+        <PrimaryButton text={verb} onClick={() => onConfirm(scope)} />
+        <DefaultButton text="Cancel" onClick={onDismiss} />
+      </DialogFooter>
+    </Dialog>
+  );
+};
@@ -3,6 +3,7 @@ import { useState, useMemo, useRef, useEffect } from 'react';
 import {
   Stack,
   Text,
+  Icon,
   ActionButton,
   Dropdown,
   IDropdownOption,
@@ -15,6 +16,13 @@ import {
 import moment from 'moment';
 
 import { ICalendarEvent, ICalendarSource } from '../models/ICalendarModels';
+import { IEventConflict } from '../models/IEventModels';
+import { IWorkingHours } from '../models/IConfigurationModels';
+import { AppConstants } from '../constants/AppConstants';
+import { DateUtils } from '../utils/DateUtils';
+import { DuplicateUtils } from '../utils/DuplicateUtils';
+import { ITimeWindow } from '../utils/SchedulingUtils';
+import { WorkingHoursUtils } from '../utils/WorkingHoursUtils';
 
 export interface ITimelineViewProps {
   events: ICalendarEvent[];
@@ -23,19 +31,57 @@ export interface ITimelineViewProps {
   theme: ITheme;
   currentDate: Date;
   timeRange?: 'day' | 'week' | 'month';
+  dateFormat?: string;
+  timeFormat?: string;
+  firstDayOfWeek?: number; // 0 = Sunday; the locale's first day when not set
+  conflictsByEvent?: Map<string, IEventConflict[]>;
+  showWeekends?: boolean; // Week and month ranges leave out Saturdays and Sundays when false
+  workingHours?: IWorkingHours; // Time outside them is shaded
+  displayTimeZone?: string;
+  limitToWorkingHours?: boolean;
 }
 
+// Background that shades the parts of an hour outside the working periods
+const getHourShading = (periods: ITimeWindow[], hourStart: Date, color: string): string | undefined => {
+  const start = hourStart.getTime();
+  const working = periods
+    .map(period => [Math.max(period.start.getTime(), start), Math.min(period.end.getTime(), start + AppConstants.MILLISECONDS_IN_HOUR)])
+    .filter(([from, to]) => to > from)
+    .map(([from, to]) => [((from - start) * 100) / AppConstants.MILLISECONDS_IN_HOUR, ((to - start) * 100) / AppConstants.MILLISECONDS_IN_HOUR])
+    .sort((a, b) => a[0] - b[0]);
+
+  if (working.length === 1 && working[0][0] === 0 && working[0][1] === 100) return undefined;
+
+  const stops: string[] = [];
+  let cursor = 0;
+  working.forEach(([from, to]) => {
+    stops.push(`${color} ${cursor}%`, `${color} ${from}%`, `transparent ${from}%`, `transparent ${to}%`);
+    cursor = to;
+  });
+  stops.push(`${color} ${cursor}%`, `${color} 100%`);
+  return `linear-gradient(to bottom, ${stops.join(', ')})`;
+};
+
 export const TimelineView: React.FC<ITimelineViewProps> = ({
   events,
   onEventSelect,
   calendarSources,
   theme,
   currentDate,
-  timeRange = 'week'
+  timeRange = 'week',
+  dateFormat = 'MMMM Do, YYYY',
+  timeFormat = 'HH:mm',
+  firstDayOfWeek,
+  conflictsByEvent,
+  showWeekends = true,
+  workingHours,
+  displayTimeZone = '',
+  limitToWorkingHours = false
 }) => {
   const [selectedTimeRange, setSelectedTimeRange] = useState<string>(timeRange);
   const [currentViewDate, setCurrentViewDate] = useState<Date>(currentDate);
   const timelineRef = useRef<HTMLDivElement>(null);
+  const weekLocale = firstDayOfWeek === undefined ? moment.locale() : DateUtils.getWeekStartLocale(firstDayOfWeek);
 
   const containerStyles = mergeStyles({
     height: '600px',
@@ -100,7 +146,7 @@ export const TimelineView: React.FC<ITimelineViewProps> = ({
 
   // Calculate date range based on selected time range
   const getDateRange = (): { start: Date; end: Date; dates: Date[] } => {
-    const start = moment(currentViewDate);
+    const start = moment(currentViewDate).locale(weekLocale);
     let end: moment.Moment;
     const dates: Date[] = [];
 
@@ -115,7 +161,9 @@ export const TimelineView: React.FC<ITimelineViewProps> = ({
         end = start.clone().endOf('month');
         const current = start.clone();
         while (current.isSameOrBefore(end, 'day')) {
-          dates.push(current.toDate());
+          if (showWeekends || !WorkingHoursUtils.isWeekend(current.toDate())) {
+            dates.push(current.toDate());
+          }
           current.add(1, 'day');
         }
         break;
@@ -125,7 +173,10 @@ export const TimelineView: React.FC<ITimelineViewProps> = ({
         start.startOf('week');
         end = start.clone().endOf('week');
         for (let i = 0; i < 7; i++) {
-          dates.push(start.clone().add(i, 'days').toDate());
+          const date = start.clone().add(i, 'days').toDate();
+          if (showWeekends || !WorkingHoursUtils.isWeekend(date)) {
+            dates.push(date);
+          }
         }
         break;
       }
@@ -138,44 +189,49 @@ export const TimelineView: React.FC<ITimelineViewProps> = ({
     };
   };
 
+  const { start: rangeStart, end: rangeEnd, dates } = getDateRange();
+  const workingPeriods = dates.map(date => workingHours ? WorkingHoursUtils.getWorkingPeriods(date, workingHours, displayTimeZone) : []);
+  const workingRange = workingHours ? WorkingHoursUtils.getWorkingRange(dates, workingHours, displayTimeZone) : undefined;
+  const firstHour = limitToWorkingHours && workingRange ? Math.floor(workingRange.startMinutes / 60) : 0;
+  const lastHour = limitToWorkingHours && workingRange ? Math.ceil(workingRange.endMinutes / 60) : 24;
+
   // Generate time slots (hours)
   const generateTimeSlots = (): string[] => {
     const slots: string[] = [];
-    for (let hour = 0; hour < 24; hour++) {
-      slots.push(moment().hour(hour).minute(0).format('HH:mm'));
+    for (let hour = firstHour; hour < lastHour; hour++) {
+      slots.push(moment().hour(hour).minute(0).format(timeFormat));
     }
     return slots;
   };
 
-  const { start: rangeStart, end: rangeEnd, dates } = getDateRange();
   const timeSlots = generateTimeSlots();
 
   // Filter events for current date range
   const filteredEvents = useMemo(() => {
     return events.filter(event => {
       const eventStart = moment(event.start);
-      return eventStart.isBetween(rangeStart, rangeEnd, 'day', '[]');
+      return eventStart.isBetween(rangeStart, rangeEnd, 'day', '[]') &&
+        (showWeekends || selectedTimeRange === 'day' || !WorkingHoursUtils.isWeekend(event.start));
     });
-  }, [events, rangeStart, rangeEnd]);
+  }, [events, rangeStart, rangeEnd, showWeekends, selectedTimeRange]);
 
-  // Calculate event positioning
+  // Calculate event positioning; undefined when the event is outside the hours shown
   const getEventPosition = (event: ICalendarEvent, dateIndex: number, columnWidth: number): {
     top: string;
     left: string;
     width: string;
     height: string;
-  } => {
-    const eventStart = moment(event.start);
-    const eventEnd = moment(event.end);
+  } | undefined => {
     const dayStart = moment(dates[dateIndex]).startOf('day');
-    
+    const startMinutes = Math.max(moment(event.start).diff(dayStart, 'minutes'), firstHour * 60);
+    const endMinutes = Math.min(moment(event.end).diff(dayStart, 'minutes'), lastHour * 60);
+    if (endMinutes < startMinutes || startMinutes >= lastHour * 60) return undefined;
+
     // Calculate top position (based on time)
-    const startMinutes = eventStart.diff(dayStart, 'minutes');
-    const top = Math.max(0, (startMinutes / 60) * 60); // 60px per hour
+    const top = ((startMinutes - firstHour * 60) / 60) * 60; // 60px per hour
     
     // Calculate height (duration)
-    const durationMinutes = eventEnd.diff(eventStart, 'minutes');
-    const height = Math.max(20, (durationMinutes / 60) * 60);
+    const height = Math.max(20, ((endMinutes - startMinutes) / 60) * 60);
     
     // Calculate left position and width
     const left = dateIndex * columnWidth;
@@ -195,6 +251,10 @@ export const TimelineView: React.FC<ITimelineViewProps> = ({
     switch (selectedTimeRange) {
       case 'day': {
         newDate.add(direction === 'next' ? 1 : -1, 'day');
+        if (!showWeekends) {
+          setCurrentViewDate(WorkingHoursUtils.skipWeekend(newDate.toDate(), direction === 'next' ? 1 : -1));
+          return;
+        }
         break;
       }
       case 'month': {
@@ -215,14 +275,16 @@ export const TimelineView: React.FC<ITimelineViewProps> = ({
     setCurrentViewDate(new Date());
   };
 
-  // Auto-scroll to current time on mount
+  // Auto-scroll to the current time today, and to the start of working hours otherwise
+  const workingStartHour = workingRange && Math.floor(workingRange.startMinutes / 60);
   useEffect(() => {
-    if (timelineRef.current && selectedTimeRange === 'day') {
-      const currentHour = moment().hour();
-      const scrollTop = currentHour * 60; // 60px per hour
+    const isToday = selectedTimeRange === 'day' && moment(currentViewDate).isSame(moment(), 'day');
+    const scrollHour = isToday ? moment().hour() : workingStartHour;
+    if (timelineRef.current && scrollHour !== undefined) {
+      const scrollTop = Math.max(0, scrollHour - firstHour) * 60; // 60px per hour
       timelineRef.current.scrollTop = scrollTop;
     }
-  }, [selectedTimeRange, currentViewDate]);
+  }, [selectedTimeRange, currentViewDate, workingStartHour, firstHour]);
 
   const renderTimelineGrid = (): React.ReactElement => {
     const columnWidth = selectedTimeRange === 'day' ? 800 : 100 / dates.length;
@@ -260,7 +322,12 @@ export const TimelineView: React.FC<ITimelineViewProps> = ({
                 className={timeSlotStyles}
                 style={{
                   width: isPercentage ? `${columnWidth}%` : `${columnWidth}px`,
-                  backgroundColor: moment(date).isSame(moment(), 'day') ? theme.palette.themeLighter : 'transparent'
+                  backgroundColor: moment(date).isSame(moment(), 'day') ? theme.palette.themeLighter : 'transparent',
+                  backgroundImage: workingHours && getHourShading(
+                    workingPeriods[dateIndex],
+                    moment(date).startOf('day').add(firstHour + timeIndex, 'hours').toDate(),
+                    theme.palette.neutralLighter
+                  )
                 }}
               />
             ))}
@@ -275,6 +342,8 @@ export const TimelineView: React.FC<ITimelineViewProps> = ({
           if (dateIndex === -1) return null;
 
           const position = getEventPosition(event, dateIndex, isPercentage ? (window.innerWidth - 100) * (columnWidth / 100) : columnWidth);
+          if (!position) return null;
+
           return (
             <div
               key={event.id}
@@ -282,11 +351,12 @@ export const TimelineView: React.FC<ITimelineViewProps> = ({
               style={{
                 ...position,
                 backgroundColor: event.color || theme.palette.themePrimary,
+                ...(!!event.duplicates?.length && DuplicateUtils.getColorStripeStyle(DuplicateUtils.getCopies(event).map(copy => copy.color))),
                 marginLeft: '80px', // Account for time column
                 zIndex: 10 + eventIndex
               }}
               onClick={() => onEventSelect(event)}
-              title={`${event.title}\n${moment(event.start).format('HH:mm')} - ${moment(event.end).format('HH:mm')}\n${event.location || ''}`}
+              title={`${event.title}\n${moment(event.start).format(timeFormat)} - ${moment(event.end).format(timeFormat)}\n${event.location || ''}`}
             >
               <Stack tokens={{ childrenGap: 2 }}>
                 <Text
@@ -301,6 +371,9 @@ export const TimelineView: React.FC<ITimelineViewProps> = ({
                     }
                   }}
                 >
+                  {conflictsByEvent?.has(event.id) && (
+                    <Icon iconName="Warning" styles={{ root: { marginRight: '4px' } }} title="Conflicts with another event" />
+                  )}
                   {event.title}
                 </Text>
                 
@@ -315,7 +388,7 @@ export const TimelineView: React.FC<ITimelineViewProps> = ({
                       }
                     }}
                   >
-                    {moment(event.start).format('HH:mm')} - {moment(event.end).format('HH:mm')}
+                    {moment(event.start).format(timeFormat)} - {moment(event.end).format(timeFormat)}
                   </Text>
                 )}
                 
@@ -342,13 +415,14 @@ export const TimelineView: React.FC<ITimelineViewProps> = ({
         })}
 
         {/* Current time indicator (for day view) */}
-        {selectedTimeRange === 'day' && moment(currentViewDate).isSame(moment(), 'day') && (
+        {selectedTimeRange === 'day' && moment(currentViewDate).isSame(moment(), 'day') &&
+          moment().hour() >= firstHour && moment().hour() < lastHour && (
           <div
             style={{
               position: 'absolute',
               left: '80px',
               right: '0',
-              top: `${(moment().hour() + moment().minute() / 60) * 60}px`,
+              top: `${(moment().hour() - firstHour + moment().minute() / 60) * 60}px`,
               height: '2px',
               backgroundColor: theme.palette.red,
               zIndex: 100,
@@ -374,13 +448,13 @@ export const TimelineView: React.FC<ITimelineViewProps> = ({
   const getViewTitle = (): string => {
     switch (selectedTimeRange) {
       case 'day':
-        return moment(currentViewDate).format('dddd, MMMM Do, YYYY');
+        return moment(currentViewDate).format(`dddd, ${dateFormat}`);
       case 'month':
         return moment(currentViewDate).format('MMMM YYYY');
       case 'week':
       default:
-        const weekStart = moment(currentViewDate).startOf('week');
-        const weekEnd = moment(currentViewDate).endOf('week');
+        const weekStart = moment(currentViewDate).locale(weekLocale).startOf('week');
+        const weekEnd = moment(currentViewDate).locale(weekLocale).endOf('week');
         return `${weekStart.format('MMM D')} - ${weekEnd.format('MMM D, YYYY')}`;
     }
   };
@@ -0,0 +1,361 @@
+import * as React from 'react';
+import { useState } from 'react';
+import {
+  Stack,
+  Text,
+  TextField,
+  Dropdown,
+  IDropdownOption,
+  Checkbox,
+  Toggle,
+  PrimaryButton,
+  DefaultButton,
+  MessageBar,
+  MessageBarType,
+  Separator,
+  Label,
+  Spinner,
+  SpinnerSize,
+  IStackTokens,
+  useTheme,
+  ITheme
+} from '@fluentui/react';
+
+import { ICalendarSource } from '../models/ICalendarModels';
+import { IUserPreferences, IWorkingHours, IWorkingDay } from '../models/IConfigurationModels';
+import { PreferencesLocation } from '../services/UserPreferencesService';
+import { AppConstants } from '../constants/AppConstants';
+
+export interface IUserSettingsPanelProps {
+  preferences: IUserPreferences;
+  calendarSources: ICalendarSource[];
+  onSave: (preferences: IUserPreferences) => Promise<PreferencesLocation>;
+  onClose: () => void;
+}
+
+type WeekDay = Exclude<keyof IWorkingHours, 'timeZone'>;
+
+const stackTokens: IStackTokens = { childrenGap: 12 };
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+const WEEK_DAYS: { key: WeekDay; text: string }[] = [
+  { key: 'monday', text: 'Monday' },
+  { key: 'tuesday', text: 'Tuesday' },
+  { key: 'wednesday', text: 'Wednesday' },
+  { key: 'thursday', text: 'Thursday' },
+  { key: 'friday', text: 'Friday' },
+  { key: 'saturday', text: 'Saturday' },
+  { key: 'sunday', text: 'Sunday' }
+];
+
+const viewOptions: IDropdownOption[] = [
+  { key: 'month', text: 'Month' },
+  { key: 'week', text: 'Week' },
+  { key: 'work_week', text: 'Work week' },
+  { key: 'day', text: 'Day' },
+  { key: 'agenda', text: 'Agenda' },
+  { key: 'timeline', text: 'Timeline' }
+];
+
+const dateFormatOptions: IDropdownOption[] = [
+  { key: 'MMMM Do, YYYY', text: 'January 31st, 2025' },
+  { key: 'D MMMM YYYY', text: '31 January 2025' },
+  { key: 'YYYY-MM-DD', text: '2025-01-31' },
+  { key: 'DD/MM/YYYY', text: '31/01/2025' },
+  { key: 'MM/DD/YYYY', text: '01/31/2025' }
+];
+
+const timeFormatOptions: IDropdownOption[] = [
+  { key: 'h:mm A', text: '12-hour (1:30 PM)' },
+  { key: 'HH:mm', text: '24-hour (13:30)' }
+];
+
+const firstDayOptions: IDropdownOption[] = [
+  { key: 0, text: 'Sunday' },
+  { key: 1, text: 'Monday' },
+  { key: 6, text: 'Saturday' }
+];
+
+const digestOptions: IDropdownOption[] = [
+  { key: 'none', text: 'None' },
+  { key: 'daily', text: 'Daily' },
+  { key: 'weekly', text: 'Weekly' }
+];
+
+const toggleKey = <T,>(keys: T[], key: T, selected?: boolean): T[] =>
+  selected ? [...keys, key] : keys.filter(existing => existing !== key);
+
+/**
+ * Edits the current user's preferences. Changes apply once saved.
+ */
+export const UserSettingsPanel: React.FC<IUserSettingsPanelProps> = ({
+  preferences,
+  calendarSources,
+  onSave,
+  onClose
+}) => {
+  const theme: ITheme = useTheme();
+  const [draft, setDraft] = useState<IUserPreferences>(preferences);
+  const [reminderText, setReminderText] = useState<string>(preferences.notifications.reminderTimes.join(', '));
+  const [saving, setSaving] = useState<boolean>(false);
+  const [savedTo, setSavedTo] = useState<PreferencesLocation | undefined>(undefined);
+
+  const update = (changes: Partial<IUserPreferences>): void => {
+    setDraft({ ...draft, ...changes });
+    setSavedTo(undefined);
+  };
+
+  const updateWorkingDay = (day: WeekDay, changes: Partial<IWorkingDay>): void => {
+    update({ workingHours: { ...draft.workingHours, [day]: { ...draft.workingHours[day], ...changes } } });
+  };
+
+  const reminderTimes = reminderText.split(',').map(value => value.trim()).filter(value => value !== '');
+  const reminderError = reminderTimes.some(value => !/^\d+$/.test(value))
+    ? 'Enter minutes as whole numbers separated by commas'
+    : undefined;
+
+  const workingHoursError = WEEK_DAYS.some(({ key }) => {
+    const day = draft.workingHours[key];
+    return day.isWorkingDay && (!TIME_PATTERN.test(day.startTime) || !TIME_PATTERN.test(day.endTime) || day.startTime >= day.endTime);
+  });
+
+  const timeZoneOptions: IDropdownOption[] = [
+    { key: '', text: 'Automatic (mailbox or site time zone)' },
+    ...Array.from(new Set([...(draft.timeZone ? [draft.timeZone] : []), ...AppConstants.COMMON_TIMEZONES]))
+      .map(timeZone => ({ key: timeZone, text: timeZone }))
+  ];
+
+  const calendarOptions: IDropdownOption[] = calendarSources.map(source => ({ key: source.id, text: source.title }));
+
+  const handleSave = async (): Promise<void> => {
+    setSaving(true);
+    try {
+      const saved: IUserPreferences = {
+        ...draft,
+        notifications: { ...draft.notifications, reminderTimes: reminderTimes.map(value => parseInt(value, 10)) }
+      };
+      setSavedTo(await onSave(saved));
+    } catch (error) {
+      console.error('Error saving preferences:', error);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Stack tokens={stackTokens}>
+      {savedTo && (
+        <MessageBar messageBarType={savedTo === 'roaming' ? MessageBarType.success : MessageBarType.warning}>
+          {savedTo === 'roaming'
+            ? 'Settings saved to your account.'
+            : 'Settings saved in this browser only. They will be copied to your account when it can be reached.'}
+        </MessageBar>
+      )}
+
+      <Text variant="large">General</Text>
+
+      <Dropdown
+        label="Default view"
+        options={viewOptions}
+        selectedKey={draft.defaultView}
+        onChange={(_, option) => option && update({ defaultView: option.key as IUserPreferences['defaultView'] })}
+      />
+
+      <Dropdown
+        label="Time zone"
+        options={timeZoneOptions}
+        selectedKey={draft.timeZone}
+        onChange={(_, option) => option && update({ timeZone: option.key as string })}
+      />
+
+      <Stack horizontal tokens={{ childrenGap: 8 }}>
+        <Dropdown
+          label="Date format"
+          options={dateFormatOptions}
+          selectedKey={draft.dateFormat}
+          onChange={(_, option) => option && update({ dateFormat: option.key as string })}
+          styles={{ root: { flex: 1 } }}
+        />
+        <Dropdown
+          label="Time format"
+          options={timeFormatOptions}
+          selectedKey={draft.timeFormat}
+          onChange={(_, option) => option && update({ timeFormat: option.key as string })}
+          styles={{ root: { flex: 1 } }}
+        />
+      </Stack>
+
+      <Dropdown
+        label="First day of the week"
+        options={firstDayOptions}
+        selectedKey={draft.firstDayOfWeek}
+        onChange={(_, option) => option && update({ firstDayOfWeek: option.key as number })}
+      />
+
+      <Toggle
+        inlineLabel
+        label="Show week numbers"
+        checked={draft.showWeekNumbers}
+        onChange={(_, checked) => update({ showWeekNumbers: !!checked })}
+      />
+
+      <Separator />
+      <Text variant="large">Calendars</Text>
+
+      <Dropdown
+        label="Favorite calendars"
+        placeholder="None"
+        multiSelect
+        options={calendarOptions}
+        selectedKeys={draft.favoriteCalendars}
+        onChange={(_, option) => option && update({ favoriteCalendars: toggleKey(draft.favoriteCalendars, option.key as string, option.selected) })}
+      />
+
+      <Dropdown
+        label="Hidden calendars"
+        placeholder="None"
+        multiSelect
+        options={calendarOptions}
+        selectedKeys={draft.hiddenCalendars}
+        onChange={(_, option) => option && update({ hiddenCalendars: toggleKey(draft.hiddenCalendars, option.key as string, option.selected) })}
+      />
+
+      <Separator />
+      <Text variant="large">Working hours</Text>
+
+      {WEEK_DAYS.map(({ key, text }) => (
+        <Stack key={key} horizontal verticalAlign="center" tokens={{ childrenGap: 8 }}>
+          <Checkbox
+            label={text}
+            checked={draft.workingHours[key].isWorkingDay}
+            onChange={(_, checked) => updateWorkingDay(key, { isWorkingDay: !!checked })}
+            styles={{ root: { width: '110px' } }}
+          />
+          <TextField
+            placeholder="HH:mm"
+            ariaLabel={`${text} start`}
+            value={draft.workingHours[key].startTime}
+            disabled={!draft.workingHours[key].isWorkingDay}
+            onChange={(_, value) => updateWorkingDay(key, { startTime: value || '' })}
+            styles={{ root: { width: '90px' } }}
+          />
+          <Text>to</Text>
+          <TextField
+            placeholder="HH:mm"
+            ariaLabel={`${text} end`}
+            value={draft.workingHours[key].endTime}
+            disabled={!draft.workingHours[key].isWorkingDay}
+            onChange={(_, value) => updateWorkingDay(key, { endTime: value || '' })}
+            styles={{ root: { width: '90px' } }}
+          />
+        </Stack>
+      ))}
+      {workingHoursError && (
+        <Text variant="small" styles={{ root: { color: theme.palette.redDark } }}>
+          Working days need a start and end time as HH:mm, with the start before the end
+        </Text>
+      )}
+
+      <Separator />
+      <Text variant="large">Notifications</Text>
+
+      <Toggle
+        inlineLabel
+        label="Enable notifications"
+        checked={draft.notifications.enabled}
+        onChange={(_, checked) => update({ notifications: { ...draft.notifications, enabled: !!checked } })}
+      />
+      <Stack horizontal tokens={{ childrenGap: 16 }}>
+        <Checkbox
+          label="Email"
+          checked={draft.notifications.emailNotifications}
+          disabled={!draft.notifications.enabled}
+          onChange={(_, checked) => update({ notifications: { ...draft.notifications, emailNotifications: !!checked } })}
+        />
+        <Checkbox
+          label="Browser"
+          checked={draft.notifications.browserNotifications}
+          disabled={!draft.notifications.enabled}
+          onChange={(_, checked) => update({ notifications: { ...draft.notifications, browserNotifications: !!checked } })}
+        />
+      </Stack>
+      <TextField
+        label="Reminders (minutes before)"
+        placeholder="e.g. 15, 60"
+        value={reminderText}
+        disabled={!draft.notifications.enabled}
+        onChange={(_, value) => {
+          setReminderText(value || '');
+          setSavedTo(undefined);
+        }}
+        errorMessage={reminderError}
+      />
+      <Dropdown
+        label="Digest"
+        options={digestOptions}
+        selectedKey={draft.notifications.digestFrequency}
+        disabled={!draft.notifications.enabled}
+        onChange={(_, option) => option && update({
+          notifications: { ...draft.notifications, digestFrequency: option.key as IUserPreferences['notifications']['digestFrequency'] }
+        })}
+      />
+
+      <Separator />
+      <Text variant="large">Privacy</Text>
+
+      <Toggle
+        inlineLabel
+        label="Hide private events"
+        checked={draft.privacy.hidePrivateEvents}
+        onChange={(_, checked) => update({ privacy: { ...draft.privacy, hidePrivateEvents: !!checked } })}
+      />
+      <Toggle
+        inlineLabel
+        label="Show events as Busy without details"
+        checked={draft.privacy.anonymizeEventTitles}
+        onChange={(_, checked) => update({ privacy: { ...draft.privacy, anonymizeEventTitles: !!checked } })}
+      />
+
+      <Separator />
+      <Text variant="large">Accessibility</Text>
+
+      <Label>Display</Label>
+      <Checkbox
+        label="Larger text in calendar views"
+        checked={draft.accessibility.largeText}
+        onChange={(_, checked) => update({ accessibility: { ...draft.accessibility, largeText: !!checked } })}
+      />
+      <Checkbox
+        label="High contrast events"
+        checked={draft.accessibility.highContrast}
+        onChange={(_, checked) => update({ accessibility: { ...draft.accessibility, highContrast: !!checked } })}
+      />
+      <Checkbox
+        label="Reduce motion"
+        checked={draft.accessibility.reduceMotion}
+        onChange={(_, checked) => update({ accessibility: { ...draft.accessibility, reduceMotion: !!checked } })}
+      />
+      <Checkbox
+        label="Always show focus outlines"
+        checked={draft.accessibility.focusIndicators}
+        onChange={(_, checked) => update({ accessibility: { ...draft.accessibility, focusIndicators: !!checked } })}
+      />
+
+      <Separator />
+
+      <Stack horizontal tokens={{ childrenGap: 8 }} horizontalAlign="end" verticalAlign="center">
+        {saving && <Spinner size={SpinnerSize.small} />}
+        <PrimaryButton
+          text="Save"
+          iconProps={{ iconName: 'Save' }}
+          disabled={saving || !!reminderError || workingHoursError}
+          onClick={() => {
+            handleSave().catch(console.error);
+          }}
+        />
+        <DefaultButton text="Close" onClick={onClose} />
+      </Stack>
+    </Stack>
+  );
+};
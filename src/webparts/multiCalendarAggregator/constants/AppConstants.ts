@@ -14,6 +14,7 @@ export class AppConstants {
   public static readonly GRAPH_CALENDARS_ENDPOINT = '/me/calendars';
   public static readonly GRAPH_EVENTS_ENDPOINT = '/me/events';
   public static readonly GRAPH_CALENDAR_EVENTS_ENDPOINT = '/me/calendars/{calendarId}/events';
+  public static readonly GRAPH_BATCH_ENDPOINT = '/$batch';
 
   // Cache constants
   public static readonly CACHE_KEY_PREFIX = 'multi-calendar-aggregator-';
@@ -28,6 +29,7 @@ export class AppConstants {
   public static readonly DEFAULT_DATE_FORMAT = 'MMMM Do, YYYY';
   public static readonly DEFAULT_TIME_FORMAT = 'h:mm A';
   public static readonly DEFAULT_DATETIME_FORMAT = 'MMMM Do, YYYY [at] h:mm A';
+  public static readonly DEFAULT_DUPLICATE_MATCH_THRESHOLD = 80; // percent similarity at which copies are merged
 
   // Event display constants
   public static readonly EVENT_TITLE_MAX_LENGTH = 50;
@@ -38,6 +40,7 @@ export class AppConstants {
   public static readonly CALENDAR_VIEWS = {
     MONTH: 'month',
     WEEK: 'week',
+    WORK_WEEK: 'work_week',
     DAY: 'day',
     AGENDA: 'agenda',
     TIMELINE: 'timeline'
@@ -102,7 +105,8 @@ export class AppConstants {
     GRAPH_API_ERROR: 'Microsoft Graph API error. Please try again later.',
     SHAREPOINT_API_ERROR: 'SharePoint API error. Please check your permissions.',
     TIMEOUT_ERROR: 'Request timed out. Please try again.',
-    QUOTA_EXCEEDED: 'API quota exceeded. Please try again later.'
+    QUOTA_EXCEEDED: 'API quota exceeded. Please try again later.',
+    EVENT_CHANGED: 'This event was changed by someone else. Refresh the calendar and try again.'
   } as const;
 
   // Success messages
@@ -118,27 +122,56 @@ export class AppConstants {
   // API endpoints and parameters
   public static readonly API_LIMITS = {
     SHAREPOINT_LIST_THRESHOLD: 5000,
-    GRAPH_REQUEST_TIMEOUT: 30000, // 30 seconds
+    REQUEST_TIMEOUT: 30000, // 30 seconds for each request, or each page of a paged one
     MAX_EVENTS_PER_REQUEST: 999,
     MAX_CALENDARS_PER_USER: 100,
-    MAX_CONCURRENT_REQUESTS: 10
+    MAX_CONCURRENT_REQUESTS: 10,
+    MAX_PAGES_PER_QUERY: 20,
+    MAX_ROOMS_PER_QUERY: 500,
+    MAX_SCHEDULES_PER_REQUEST: 20,
+    MAX_GRAPH_BATCH_REQUESTS: 20,
+    MAX_SHAREPOINT_BATCH_REQUESTS: 100
+  } as const;
+
+  // Tiered cache: memory, then IndexedDB
+  public static readonly CACHE = {
+    SCHEMA_VERSION: 1, // Raise when cached data changes shape; entries written under older versions are dropped
+    DATABASE_NAME: 'multi-calendar-aggregator-cache',
+    MAX_SIZE_MB: 20, // Budget of each tier
+    MAX_STALE_HOURS: 24, // Expired entries are still shown this long while they are loaded again
+    ACCESS_FLUSH_MS: 5000
+  } as const;
+
+  // Incremental sync
+  public static readonly SYNC = {
+    FULL_RESYNC_HOURS: 24, // Events are loaded for a window that starts today, so it is reloaded daily
+    DELTA_PAGE_SIZE: 200,
+    CHANGE_QUERY_LIMIT: 1000,
+    ITEMS_PER_LOOKUP: 50 // Item ids in one $filter
   } as const;
 
   // SharePoint REST API
   public static readonly SHAREPOINT_API = {
     LISTS_ENDPOINT: '/_api/web/lists',
     CALENDAR_FILTER: "BaseTemplate eq 106",
+    LIST_ENDPOINT: '/_api/web/lists(guid\'{listId}\')',
     LIST_ITEMS_ENDPOINT: '/_api/web/lists(guid\'{listId}\')/items',
     SITES_ENDPOINT: '/_api/web/webs',
-    CURRENT_USER_ENDPOINT: '/_api/web/currentuser'
+    CURRENT_USER_ENDPOINT: '/_api/web/currentuser',
+    REGIONAL_TIMEZONE_ENDPOINT: '/_api/web/RegionalSettings/TimeZone',
+    BATCH_ENDPOINT: '/_api/$batch'
   } as const;
 
   // Microsoft Graph scopes
   public static readonly GRAPH_SCOPES = {
     CALENDARS_READ: 'Calendars.Read',
     CALENDARS_READ_SHARED: 'Calendars.Read.Shared',
+    CALENDARS_READ_WRITE: 'Calendars.ReadWrite',
+    CALENDARS_READ_WRITE_SHARED: 'Calendars.ReadWrite.Shared',
     USER_READ: 'User.Read',
-    GROUP_READ_ALL: 'Group.Read.All'
+    GROUP_READ_ALL: 'Group.Read.All',
+    PLACE_READ_ALL: 'Place.Read.All',
+    MAILBOX_SETTINGS_READ: 'MailboxSettings.Read'
   } as const;
 
   // File export formats
@@ -155,7 +188,30 @@ export class AppConstants {
     LAST_REFRESH: 'multi-cal-last-refresh',
     SELECTED_CALENDARS: 'multi-cal-selected',
     VIEW_SETTINGS: 'multi-cal-view-settings',
-    FILTER_SETTINGS: 'multi-cal-filters'
+    FILTER_SETTINGS: 'multi-cal-filters',
+    IMPORTED_CALENDARS: 'multi-cal-imported',
+    SOURCE_HEALTH: 'multi-cal-source-health'
+  } as const;
+
+  // Per-user preferences
+  public static readonly USER_PREFERENCES = {
+    SCHEMA_VERSION: 1,
+    ROAMING_FILE_NAME: 'user-preferences.json', // Kept in the app folder of the user's OneDrive
+    CACHE_MINUTES: 60
+  } as const;
+
+  // Calendar source health checks
+  public static readonly SOURCE_HEALTH = {
+    PROBE_TIMEOUT_MS: 10000,
+    SLOW_RESPONSE_MS: 3000, // Successful checks slower than this are shown as a warning
+    MAX_HISTORY: 20 // Checks kept per source
+  } as const;
+
+  // Imported .ics calendars
+  public static readonly ICS_IMPORT = {
+    MAX_FILE_SIZE_BYTES: 2 * 1024 * 1024,
+    MAX_CALENDARS: 20,
+    RECURRENCE_WINDOW_MONTHS: 12 // Series are expanded this far either side of today
   } as const;
 
   // Event categories (common SharePoint/Exchange categories)
@@ -187,6 +243,120 @@ export class AppConstants {
     'Australia/Sydney'
   ] as const;
 
+  // Graph returns this zone for every event when sent in the Prefer header
+  public static readonly GRAPH_RESPONSE_TIMEZONE = 'UTC';
+
+  // Windows time zone names used by Exchange, mapped to IANA zones
+  public static readonly WINDOWS_TIMEZONES: { readonly [windowsName: string]: string } = {
+    'UTC': 'UTC',
+    'Coordinated Universal Time': 'UTC',
+    'Dateline Standard Time': 'Etc/GMT+12',
+    'Hawaiian Standard Time': 'Pacific/Honolulu',
+    'Alaskan Standard Time': 'America/Anchorage',
+    'Pacific Standard Time': 'America/Los_Angeles',
+    'US Mountain Standard Time': 'America/Phoenix',
+    'Mountain Standard Time': 'America/Denver',
+    'Central Standard Time': 'America/Chicago',
+    'Central America Standard Time': 'America/Guatemala',
+    'Canada Central Standard Time': 'America/Regina',
+    'Central Standard Time (Mexico)': 'America/Mexico_City',
+    'Eastern Standard Time': 'America/New_York',
+    'US Eastern Standard Time': 'America/Indiana/Indianapolis',
+    'SA Pacific Standard Time': 'America/Bogota',
+    'Atlantic Standard Time': 'America/Halifax',
+    'Newfoundland Standard Time': 'America/St_Johns',
+    'E. South America Standard Time': 'America/Sao_Paulo',
+    'Argentina Standard Time': 'America/Buenos_Aires',
+    'Pacific SA Standard Time': 'America/Santiago',
+    'GMT Standard Time': 'Europe/London',
+    'Greenwich Standard Time': 'Atlantic/Reykjavik',
+    'W. Europe Standard Time': 'Europe/Berlin',
+    'Central Europe Standard Time': 'Europe/Budapest',
+    'Romance Standard Time': 'Europe/Paris',
+    'Central European Standard Time': 'Europe/Warsaw',
+    'W. Central Africa Standard Time': 'Africa/Lagos',
+    'GTB Standard Time': 'Europe/Bucharest',
+    'FLE Standard Time': 'Europe/Kiev',
+    'E. Europe Standard Time': 'Europe/Chisinau',
+    'Egypt Standard Time': 'Africa/Cairo',
+    'South Africa Standard Time': 'Africa/Johannesburg',
+    'Israel Standard Time': 'Asia/Jerusalem',
+    'Turkey Standard Time': 'Europe/Istanbul',
+    'Russian Standard Time': 'Europe/Moscow',
+    'Arab Standard Time': 'Asia/Riyadh',
+    'E. Africa Standard Time': 'Africa/Nairobi',
+    'Iran Standard Time': 'Asia/Tehran',
+    'Arabian Standard Time': 'Asia/Dubai',
+    'Afghanistan Standard Time': 'Asia/Kabul',
+    'Pakistan Standard Time': 'Asia/Karachi',
+    'India Standard Time': 'Asia/Kolkata',
+    'Nepal Standard Time': 'Asia/Kathmandu',
+    'Bangladesh Standard Time': 'Asia/Dhaka',
+    'Myanmar Standard Time': 'Asia/Yangon',
+    'SE Asia Standard Time': 'Asia/Bangkok',
+    'China Standard Time': 'Asia/Shanghai',
+    'Singapore Standard Time': 'Asia/Singapore',
+    'Taipei Standard Time': 'Asia/Taipei',
+    'W. Australia Standard Time': 'Australia/Perth',
+    'Tokyo Standard Time': 'Asia/Tokyo',
+    'Korea Standard Time': 'Asia/Seoul',
+    'Cen. Australia Standard Time': 'Australia/Adelaide',
+    'AUS Central Standard Time': 'Australia/Darwin',
+    'E. Australia Standard Time': 'Australia/Brisbane',
+    'AUS Eastern Standard Time': 'Australia/Sydney',
+    'Tasmania Standard Time': 'Australia/Hobart',
+    'West Pacific Standard Time': 'Pacific/Port_Moresby',
+    'New Zealand Standard Time': 'Pacific/Auckland',
+    'Fiji Standard Time': 'Pacific/Fiji'
+  };
+
+  // SharePoint regional settings time zone ids, mapped to IANA zones
+  public static readonly SHAREPOINT_TIMEZONES: { readonly [timeZoneId: number]: string } = {
+    2: 'Europe/London',
+    3: 'Europe/Paris',
+    4: 'Europe/Berlin',
+    6: 'Europe/Prague',
+    7: 'Europe/Minsk',
+    8: 'America/Sao_Paulo',
+    9: 'America/Halifax',
+    10: 'America/New_York',
+    11: 'America/Chicago',
+    12: 'America/Denver',
+    13: 'America/Los_Angeles',
+    14: 'America/Anchorage',
+    15: 'Pacific/Honolulu',
+    17: 'Pacific/Auckland',
+    18: 'Australia/Brisbane',
+    19: 'Australia/Adelaide',
+    20: 'Asia/Tokyo',
+    21: 'Asia/Singapore',
+    22: 'Asia/Bangkok',
+    23: 'Asia/Kolkata',
+    24: 'Asia/Dubai',
+    25: 'Asia/Tehran',
+    26: 'Asia/Baghdad',
+    27: 'Asia/Jerusalem',
+    28: 'America/St_Johns',
+    35: 'America/Bogota',
+    36: 'America/Regina',
+    37: 'America/Mexico_City',
+    38: 'America/Phoenix',
+    42: 'Australia/Hobart',
+    44: 'Australia/Darwin',
+    45: 'Asia/Shanghai',
+    49: 'Africa/Cairo',
+    50: 'Africa/Johannesburg',
+    51: 'Europe/Moscow',
+    56: 'Africa/Nairobi',
+    57: 'Europe/Warsaw',
+    59: 'Europe/Helsinki',
+    72: 'Asia/Seoul',
+    73: 'Australia/Perth',
+    74: 'Asia/Riyadh',
+    75: 'Asia/Taipei',
+    76: 'Australia/Sydney'
+  };
+
   // Validation rules
   public static readonly VALIDATION = {
     MIN_REFRESH_INTERVAL: 1, // minutes
@@ -230,10 +400,15 @@ export class AppConstants {
     ALL_DAY_EVENT: 'fAllDayEvent',
     RECURRENCE: 'fRecurrence',
     RECURRENCE_DATA: 'RecurrenceData',
+    EVENT_TYPE: 'EventType',
+    MASTER_SERIES_ITEM_ID: 'MasterSeriesItemID',
+    RECURRENCE_ID: 'RecurrenceID',
+    DURATION: 'Duration',
     AUTHOR: 'Author',
     EDITOR: 'Editor',
     CREATED: 'Created',
     MODIFIED: 'Modified',
+    UID: 'UID',
     ID: 'Id'
   } as const;
 
@@ -248,6 +423,13 @@ export class AppConstants {
     'categories',
     'isAllDay',
     'recurrence',
+    'seriesMasterId',
+    'type',
+    'originalStart',
+    'originalStartTimeZone',
+    'originalEndTimeZone',
+    'isReminderOn',
+    'reminderMinutesBeforeStart',
     'organizer',
     'attendees',
     'createdDateTime',
@@ -255,7 +437,8 @@ export class AppConstants {
     'webLink',
     'importance',
     'sensitivity',
-    'showAs'
+    'showAs',
+    'iCalUId'
   ].join(',');
 
   public static readonly GRAPH_CALENDAR_FIELDS = [
@@ -1,4 +1,5 @@
 import { WebPartContext } from '@microsoft/sp-webpart-base';
+import { IRecurrencePattern, IRecurrenceException } from './IEventModels';
 
 /**
  * Calendar source types
@@ -7,7 +8,8 @@ export enum CalendarSourceType {
   SharePoint = 'SharePoint',
   SharePointList = 'SharePointList',
   SharePointCommunicationSite = 'SharePointCommunicationSite',
-  Exchange = 'Exchange'
+  Exchange = 'Exchange',
+  ICS = 'ICS' // Read-only calendar imported from an .ics file
 }
 
 /**
@@ -27,6 +29,7 @@ export interface ICalendarSource {
   lastModified?: string;
   canEdit?: boolean;
   canShare?: boolean;
+  groupId?: string; // Owning Microsoft 365 group for Exchange group calendars
 }
 
 /**
@@ -140,6 +143,7 @@ export interface ICalendarEvent {
   calendarTitle: string;
   calendarType: CalendarSourceType;
   organizer: string;
+  organizerEmail?: string;
   created: Date;
   modified: Date;
   webUrl: string;
@@ -152,6 +156,15 @@ export interface ICalendarEvent {
   tags?: string[];
   masterSeriesId?: string;
   isException?: boolean;
+  originalStart?: Date; // Scheduled start of a series instance before any exception moved it
+  timeZone?: string; // IANA zone the event was scheduled in
+  recurrencePattern?: IRecurrencePattern; // Rule of the series this occurrence belongs to
+  seriesStart?: Date; // Start of the first occurrence of that series
+  exceptions?: IRecurrenceException[]; // Deleted and moved occurrences of that series
+  reminderMinutes?: number[];
+  etag?: string; // Version of the stored item; updates and deletes are made against it
+  iCalUId?: string; // Identity shared by every copy of the meeting: Graph iCalUId, SharePoint UID or iCalendar UID
+  duplicates?: ICalendarEvent[]; // Copies of this event in other calendars, merged into it for display
 }
 
 /**
@@ -167,7 +180,6 @@ export interface ISharePointEvent extends ICalendarEvent {
   versions?: ISharePointVersion[];
   comments?: ISharePointComment[];
   contentType?: string;
-  etag?: string;
   hasAttachments?: boolean;
   percentComplete?: number;
   assignedTo?: string[];
@@ -252,7 +264,7 @@ export interface ISharePointComment {
 /**
  * Calendar view types
  */
-export type CalendarViewType = 'month' | 'week' | 'day' | 'agenda' | 'timeline';
+export type CalendarViewType = 'month' | 'week' | 'work_week' | 'day' | 'agenda' | 'timeline';
 
 /**
  * Event filter options
@@ -281,6 +293,15 @@ export interface ICalendarStats {
   eventsByCategory: { [category: string]: number };
 }
 
+/**
+ * Events loaded across one or more sources
+ */
+export interface IEventLoadResult {
+  events: ICalendarEvent[];
+  truncated: boolean; // Some sources had more events than the limits allowed
+  isComplete: boolean; // False while later pages are still loading
+}
+
 /**
  * Calendar service interface
  */
@@ -410,6 +431,11 @@ export interface INotificationSettings {
   digestFrequency: 'none' | 'daily' | 'weekly';
 }
 
+/**
+ * Why a request to a calendar source failed
+ */
+export type SourceFailureReason = 'auth' | 'throttled' | 'notFound' | 'network' | 'timeout' | 'server' | 'unknown';
+
 /**
  * Calendar sync status
  */
@@ -419,6 +445,21 @@ export interface ISyncStatus {
   status: 'success' | 'error' | 'syncing';
   errorMessage?: string;
   nextSync?: Date;
+  latencyMs?: number;
+  httpStatus?: number;
+  failureReason?: SourceFailureReason;
+  canEdit?: boolean; // Result of the permission check; undefined when it could not be made
+}
+
+/**
+ * Health of a calendar source built from its recent checks, newest first
+ */
+export interface ISourceHealth {
+  calendarId: string;
+  latest: ISyncStatus;
+  lastSuccess?: Date;
+  errorStreak: number;
+  history: ISyncStatus[];
 }
 
 /**
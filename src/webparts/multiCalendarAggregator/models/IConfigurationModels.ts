@@ -177,6 +177,8 @@ export interface ICustomFieldMapping {
  * User preferences interface
  */
 export interface IUserPreferences {
+  schemaVersion: number; // Bumped when the stored shape changes; older copies are migrated on load
+  lastModified: string;
   userId: string;
   defaultView: CalendarViewType;
   timeZone: string;
@@ -294,8 +296,8 @@ export interface IPerformanceConfiguration {
 export interface ICachingConfiguration {
   enabled: boolean;
   defaultTtlMinutes: number;
-  maxCacheSize: number;
-  strategies: {
+  maxCacheSize: number; // Megabytes each tier may hold
+  strategies: { // 'local' also keeps entries in IndexedDB across page loads
     events: 'memory' | 'session' | 'local' | 'none';
     calendars: 'memory' | 'session' | 'local' | 'none';
     metadata: 'memory' | 'session' | 'local' | 'none';
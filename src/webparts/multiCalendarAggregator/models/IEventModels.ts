@@ -1,4 +1,4 @@
-import { CalendarSourceType } from './ICalendarModels';
+import { CalendarSourceType, ICalendarEvent } from './ICalendarModels';
 
 /**
  * Extended event interface with additional metadata
@@ -102,6 +102,15 @@ export interface IRecurrenceException {
   [key: string]: unknown;
 }
 
+/**
+ * An occurrence of a series and the series it belongs to
+ */
+export interface ISeriesOccurrence {
+  master: ICalendarEvent;
+  originalStart: Date; // Start the series gives the occurrence
+  occurrenceItem?: ICalendarEvent; // Stored occurrence; SharePoint only stores occurrences that were changed
+}
+
 /**
  * Event reminder interface
  */
@@ -116,10 +125,10 @@ export interface IEventReminder {
  * Event conflict interface
  */
 export interface IEventConflict {
-  event1: IExtendedCalendarEvent;
-  event2: IExtendedCalendarEvent;
+  event1: ICalendarEvent;
+  event2: ICalendarEvent;
   conflictType: 'overlap' | 'duplicate' | 'doubleBooked';
-  overlapDuration?: number;
+  overlapDuration?: number; // Minutes
   // Add index signature
   [key: string]: unknown;
 }
@@ -209,16 +218,26 @@ export interface IEventCreateRequest {
   importance?: string;
   sensitivity?: string;
   showAs?: string;
+  attachments?: IEventAttachment[]; // Files to add carry their content base64-encoded
+  timeZone?: string; // IANA or Windows zone the times were entered in, and a series repeats in
   // Add index signature for ESLint compatibility
   [key: string]: unknown;
 }
 
 /**
- * Event update request interface
+ * Which occurrences of a series a change applies to
+ */
+export type RecurringEditScope = 'occurrence' | 'following' | 'series';
+
+/**
+ * Event update request interface. When attachments are given they replace the
+ * event's current ones.
  */
 export interface IEventUpdateRequest extends Partial<IEventCreateRequest> {
   id: string;
-  updateRecurringSeries?: boolean;
+  updateRecurringSeries?: boolean; // Same as an editScope of 'series'
+  editScope?: RecurringEditScope; // Defaults to the occurrence itself
+  etag?: string; // Version the change was made against, from ICalendarEvent.etag
   // Add index signature for ESLint compatibility
   [key: string]: unknown;
 }
@@ -285,7 +304,7 @@ export interface IEventStatistics {
  * Event export options interface
  */
 export interface IEventExportOptions {
-  format: 'ics' | 'csv' | 'json' | 'excel';
+  format: 'ics' | 'csv' | 'json' | 'excel' | 'xlsx';
   includeAttachments?: boolean;
   includeAttendees?: boolean;
   includeRecurrence?: boolean;
@@ -346,6 +365,8 @@ export interface IFreeBusyTimeSlot {
   end: Date;
   status: 'free' | 'busy' | 'tentative' | 'outOfOffice' | 'workingElsewhere';
   event?: IExtendedCalendarEvent;
+  subject?: string; // Only when the attendee shares details
+  location?: string;
   // Add index signature
   [key: string]: unknown;
 }
@@ -367,8 +388,9 @@ export interface IFreeBusyQuery {
  */
 export interface IFreeBusyResult {
   attendee: string;
-  timeSlots: IFreeBusyTimeSlot[];
+  timeSlots: IFreeBusyTimeSlot[]; // Times the attendee is not free
   workingHours?: IWorkingHours;
+  error?: string; // Why the attendee's schedule could not be read
   // Add index signature
   [key: string]: unknown;
 }
@@ -378,7 +400,7 @@ export interface IFreeBusyResult {
  */
 export interface IWorkingHours {
   timeZone: string;
-  daysOfWeek: number[];
+  daysOfWeek: number[]; // 0 = Sunday
   startTime: string; // HH:mm format
   endTime: string;   // HH:mm format
   // Add index signature
@@ -402,6 +424,34 @@ export interface IMeetingRoom {
   [key: string]: unknown;
 }
 
+/**
+ * Room list interface
+ */
+export interface IRoomList {
+  id: string;
+  name: string;
+  email: string;
+}
+
+/**
+ * Room search criteria interface
+ */
+export interface IRoomSearchCriteria {
+  roomList?: string; // Email address of the room list to search in
+  building?: string;
+  floor?: string;
+  minCapacity?: number;
+  equipment?: string[]; // Rooms must have all of these
+}
+
+/**
+ * Directory of room lists and rooms, backed by the Graph places API
+ */
+export interface IPlacesProvider {
+  getRoomLists(): Promise<IRoomList[]>;
+  getRooms(roomListEmail?: string): Promise<IMeetingRoom[]>; // All rooms when no list is given
+}
+
 /**
  * Meeting suggestion interface
  */
@@ -442,6 +492,7 @@ export interface ICalendarSyncStatus {
   errorMessage?: string;
   nextSyncTime?: Date;
   eventCount: number;
+  syncType?: 'full' | 'incremental'; // Whether the last sync read every event or only the changes
   changes: {
     added: number;
     updated: number;
@@ -449,4 +500,15 @@ export interface ICalendarSyncStatus {
   };
   // Add index signature
   [key: string]: unknown;
+}
+
+/**
+ * Changes to a calendar since a sync token was issued. Events are listed by
+ * the id of the item they come from; occurrences share their series' id.
+ */
+export interface ICalendarChanges {
+  changedIds: string[]; // Items added or changed
+  deletedIds: string[];
+  events: ICalendarEvent[]; // Current events of the changed items
+  syncToken?: string; // Missing when not every change could be read
 }
\ No newline at end of file
@@ -0,0 +1,151 @@
+jest.mock('./IndexedDbCacheStore');
+
+import { CacheService } from './CacheService';
+import { IndexedDbCacheStore } from './IndexedDbCacheStore';
+import { ICalendarEvent, CalendarSourceType } from '../models/ICalendarModels';
+import { AppConstants } from '../constants/AppConstants';
+
+const MINUTE = 60 * 1000;
+
+const createEvent = (id: string, day: number, changes: Partial<ICalendarEvent> = {}): ICalendarEvent => ({
+  id,
+  title: id,
+  start: new Date(2026, 2, day, 9, 0),
+  end: new Date(2026, 2, day, 10, 0),
+  isAllDay: false,
+  calendarId: 'team',
+  calendarTitle: 'Team',
+  calendarType: CalendarSourceType.SharePoint,
+  color: '#0078d4',
+  created: new Date(2026, 0, 1),
+  modified: new Date(2026, 0, 1),
+  ...changes
+} as ICalendarEvent);
+
+const key = (prefix: string, identifier: string): string => `${AppConstants.CACHE_KEY_PREFIX}${prefix}-${identifier}`;
+
+let now: number;
+
+beforeEach(() => {
+  jest.restoreAllMocks();
+  jest.clearAllMocks();
+  now = new Date(2026, 2, 2, 9, 0).getTime();
+  jest.spyOn(Date, 'now').mockImplementation(() => now);
+});
+
+describe('CacheService memory tier', () => {
+  it('evicts the least recently used entries once over the size budget', () => {
+    const cache = new CacheService();
+    // Room for two of the entries below
+    cache.configure({ maxCacheSize: 250 / 1024 / 1024 });
+    const data = 'x'.repeat(100);
+
+    cache.set('a', data);
+    cache.set('b', data);
+    cache.get('a');
+    cache.set('c', data);
+
+    expect(cache.getStats().keys).toEqual(['a', 'c']);
+    expect(cache.getCacheHealth().memoryUsage).toBe(204);
+  });
+
+  it('keeps expired entries to show while they are loaded again', async () => {
+    const cache = new CacheService();
+    const events = [createEvent('sp_team_1', 2)];
+    cache.setCachedEvents('team', events, 5);
+
+    now += 10 * MINUTE;
+    expect(cache.getCachedEvents('team')).toBeUndefined();
+    expect(await cache.loadCachedEvents('team')).toEqual({ data: events, isStale: true });
+
+    now += AppConstants.CACHE.MAX_STALE_HOURS * AppConstants.MILLISECONDS_IN_HOUR;
+    expect(await cache.loadCachedEvents('team')).toBeUndefined();
+  });
+
+  it('keeps nothing for strategies set to none or when disabled', () => {
+    const cache = new CacheService();
+    cache.configure({ strategies: { events: 'none', calendars: 'memory', metadata: 'memory' } });
+
+    cache.setCachedEvents('team', [createEvent('sp_team_1', 2)]);
+    cache.setCachedSearchResults('budget', []);
+    cache.setCachedCalendarMetadata('team', { canEdit: true });
+    expect(cache.getStats().keys).toEqual([key('metadata', 'team')]);
+
+    cache.configure({ enabled: false });
+    expect(cache.getStats().size).toBe(0);
+    cache.setCachedCalendarMetadata('team', { canEdit: true });
+    expect(cache.getStats().size).toBe(0);
+  });
+
+  it('patches the events of a changed calendar and drops the results built from them', () => {
+    const cache = new CacheService();
+    cache.setCachedEvents('team', [createEvent('sp_team_1', 2), createEvent('sp_team_2_recur_20260303', 3, { masterSeriesId: 'sp_team_2' })], 5);
+    cache.setCachedEvents('finance', [createEvent('sp_finance_1', 2)]);
+    cache.setCachedAggregatedEvents(['team', 'finance'], []);
+    cache.setCachedSearchResults('budget', []);
+
+    now += MINUTE;
+    cache.updateCachedEvent('team', 'sp_team_2', createEvent('sp_team_2', 1));
+
+    expect(cache.getCachedEvents('team')?.map(event => event.id)).toEqual(['sp_team_2', 'sp_team_1']);
+    expect(cache.getCachedEvents('finance')).toHaveLength(1);
+    expect(cache.getCachedAggregatedEvents(['team', 'finance'])).toBeUndefined();
+    expect(cache.getCachedSearchResults('budget')).toBeUndefined();
+
+    // The patched events still expire when the ones loaded did
+    now += 5 * MINUTE;
+    expect(cache.getCachedEvents('team')).toBeUndefined();
+  });
+});
+
+describe('CacheService IndexedDB tier', () => {
+  let store: jest.Mocked<IndexedDbCacheStore>;
+
+  beforeEach(() => {
+    (IndexedDbCacheStore.isSupported as jest.Mock).mockReturnValue(true);
+    jest.spyOn(IndexedDbCacheStore.prototype, 'put').mockResolvedValue(undefined);
+    jest.spyOn(IndexedDbCacheStore.prototype, 'deleteWhere').mockResolvedValue(undefined);
+    jest.spyOn(IndexedDbCacheStore.prototype, 'getUsage').mockReturnValue({ items: 0, size: 0 });
+    store = IndexedDbCacheStore.prototype as jest.Mocked<IndexedDbCacheStore>;
+  });
+
+  it('is only used once the namespace is known', () => {
+    const cache = new CacheService();
+    cache.setCachedEvents('team', []);
+    expect(store.put).not.toHaveBeenCalled();
+
+    cache.configure({ namespace: 'pat@contoso.com|team' });
+    cache.setCachedEvents('team', []);
+
+    expect(IndexedDbCacheStore).toHaveBeenLastCalledWith('pat@contoso.com|team');
+    expect(store.put).toHaveBeenCalledWith(key(AppConstants.CACHE_EVENTS_KEY, 'team'), expect.objectContaining({ data: [] }), 20 * 1024 * 1024);
+  });
+
+  it('persists only the strategies set to local', () => {
+    const cache = new CacheService();
+    cache.configure({ namespace: 'pat@contoso.com|team' });
+
+    cache.setCachedCalendarMetadata('team', { canEdit: true });
+    cache.setCachedSearchResults('budget', []);
+    cache.setCachedSources([]);
+
+    expect(store.put.mock.calls.map(call => call[0])).toEqual([key(AppConstants.CACHE_SOURCES_KEY, 'all')]);
+  });
+
+  it('answers from IndexedDB when memory has nothing, and counts the hits of each tier', async () => {
+    const cache = new CacheService();
+    cache.configure({ namespace: 'pat@contoso.com|team' });
+    const events = [createEvent('sp_team_1', 2)];
+    jest.spyOn(IndexedDbCacheStore.prototype, 'get').mockResolvedValue({ data: events, timestamp: now - 60 * MINUTE, expiry: now - 30 * MINUTE, size: 10 });
+
+    expect(await cache.loadCachedEvents('team')).toEqual({ data: events, isStale: true });
+    expect(await cache.loadCachedEvents('finance')).toEqual({ data: events, isStale: true });
+    cache.setCachedEvents('team', events);
+    expect(await cache.loadCachedEvents('team')).toEqual({ data: events, isStale: false });
+
+    const { tiers, hitRate } = cache.getCacheHealth();
+    expect(tiers.memory).toMatchObject({ hits: 1, misses: 2 });
+    expect(tiers.indexedDb).toMatchObject({ enabled: true, hits: 2, misses: 0 });
+    expect(hitRate).toBe(1);
+  });
+});
@@ -1,16 +1,66 @@
 import { AppConstants } from '../constants/AppConstants';
 import { ICalendarEvent, ICalendarSource } from '../models/ICalendarModels';
+import { ICachingConfiguration } from '../models/IConfigurationModels';
+import { IndexedDbCacheStore } from './IndexedDbCacheStore';
 
 export interface ICacheItem<T> {
   data: T;
   timestamp: number;
   expiry: number;
+  size: number; // Length of the data as JSON
 }
 
+/**
+ * A cached value that may have expired, for showing while it is loaded again
+ */
+export interface ICacheLookup<T> {
+  data: T;
+  isStale: boolean;
+}
+
+export interface ICacheTierHealth {
+  enabled: boolean;
+  items: number;
+  size: number;
+  maxSize: number;
+  hits: number;
+  misses: number;
+  hitRate: number;
+}
+
+type CacheStrategy = ICachingConfiguration['strategies']['events'];
+
+const DEFAULT_CONFIGURATION: ICachingConfiguration = {
+  enabled: true,
+  defaultTtlMinutes: AppConstants.CACHE_DURATION_MINUTES,
+  maxCacheSize: AppConstants.CACHE.MAX_SIZE_MB,
+  strategies: {
+    events: 'local',
+    calendars: 'local',
+    metadata: 'memory'
+  }
+};
+
+const MAX_STALE_MS = AppConstants.CACHE.MAX_STALE_HOURS * AppConstants.MILLISECONDS_IN_HOUR;
+
+/**
+ * Two-tier cache: a memory tier for the current page and, for the strategies
+ * set to 'local', an IndexedDB tier that outlives it. Both tiers evict least
+ * recently used entries once they hold more than maxCacheSize. Expired
+ * entries are kept for a while so that they can be shown while loading again.
+ */
 export class CacheService {
   private static instance: CacheService;
-  private cache: Map<string, ICacheItem<unknown>> = new Map();
+  private cache: Map<string, ICacheItem<unknown>> = new Map(); // Least recently used first
   private defaultTtl: number = AppConstants.CACHE_DURATION_MINUTES * 60 * 1000; // milliseconds
+  private configuration: ICachingConfiguration = DEFAULT_CONFIGURATION;
+  private namespace: string | undefined;
+  private persistentStore: IndexedDbCacheStore | undefined;
+  private memorySize = 0;
+  private stats = {
+    memory: { hits: 0, misses: 0 },
+    indexedDb: { hits: 0, misses: 0 }
+  };
 
   /**
    * Singleton pattern - get instance
@@ -29,75 +79,171 @@ export class CacheService {
     return `${AppConstants.CACHE_KEY_PREFIX}${prefix}-${identifier}`;
   }
 
+  /**
+   * How entries under a key are kept
+   */
+  private getStrategy(key: string): CacheStrategy {
+    if (!this.configuration.enabled) return 'none';
+
+    const { strategies } = this.configuration;
+    if (key.indexOf(this.generateKey(AppConstants.CACHE_SOURCES_KEY, '')) === 0) {
+      return strategies.calendars;
+    }
+    if (key.indexOf(this.generateKey(AppConstants.CACHE_EVENTS_KEY, '')) === 0 || key.indexOf(this.generateKey('daterange', '')) === 0) {
+      return strategies.events;
+    }
+    // Search results are short-lived and only worth keeping for the page
+    if (key.indexOf(this.generateKey('search', '')) === 0) {
+      return strategies.events === 'none' ? 'none' : 'memory';
+    }
+    return strategies.metadata;
+  }
+
+  private getMaxSize(): number {
+    return this.configuration.maxCacheSize * 1024 * 1024;
+  }
+
+  private measure(data: unknown): number {
+    try {
+      return JSON.stringify(data)?.length || 0;
+    } catch {
+      return 0;
+    }
+  }
+
+  /**
+   * Put an item in the memory tier as the most recently used, evicting the
+   * least recently used items while the tier is over budget
+   */
+  private setMemoryItem(key: string, item: ICacheItem<unknown>): void {
+    this.deleteMemoryItem(key);
+    this.cache.set(key, item);
+    this.memorySize += item.size;
+
+    const keys = this.cache.keys();
+    while (this.memorySize > this.getMaxSize() && this.cache.size > 1) {
+      this.deleteMemoryItem(keys.next().value as string);
+    }
+  }
+
+  private deleteMemoryItem(key: string): boolean {
+    const item = this.cache.get(key);
+    if (!item) return false;
+
+    this.memorySize -= item.size;
+    return this.cache.delete(key);
+  }
+
+  /**
+   * Remove matching items from both tiers
+   */
+  private deleteWhere(predicate: (key: string) => boolean): void {
+    Array.from(this.cache.keys()).filter(predicate).forEach(key => this.deleteMemoryItem(key));
+    this.persistentStore?.deleteWhere(predicate).catch(error => console.warn('Could not remove persisted cache entries:', error));
+  }
+
+  private persist(key: string, item: ICacheItem<unknown>): void {
+    if (!this.persistentStore || this.getStrategy(key) !== 'local') return;
+
+    this.persistentStore.put(key, item, this.getMaxSize())
+      .catch(error => console.warn(`Could not persist cache entry ${key}:`, error));
+  }
+
   /**
    * Set item in cache with TTL
    */
   public set<T>(key: string, data: T, ttlMinutes?: number): void {
+    if (this.getStrategy(key) === 'none') return;
+
     const ttl = ttlMinutes ? ttlMinutes * 60 * 1000 : this.defaultTtl;
     const now = Date.now();
     
     const cacheItem: ICacheItem<T> = {
       data,
       timestamp: now,
-      expiry: now + ttl
+      expiry: now + ttl,
+      size: this.measure(data)
     };
 
-    this.cache.set(key, cacheItem);
+    this.setMemoryItem(key, cacheItem);
+    this.persist(key, cacheItem);
     
     // Clean up expired items periodically
     this.cleanupExpired();
   }
 
   /**
-   * Get item from cache
+   * Get item from the memory tier
    */
   public get<T>(key: string): T | undefined {
     const item = this.cache.get(key) as ICacheItem<T>;
     
-    if (!item) {
-      return undefined;
-    }
-
-    // Check if expired
-    if (Date.now() > item.expiry) {
-      this.cache.delete(key);
+    if (!item || Date.now() > item.expiry) {
+      this.stats.memory.misses++;
       return undefined;
     }
 
+    // Moved to the end, where the most recently used items are
+    this.cache.delete(key);
+    this.cache.set(key, item);
+    this.stats.memory.hits++;
     return item.data;
   }
 
   /**
-   * Check if item exists in cache and is not expired
+   * Get item from memory or, failing that, from IndexedDB. Expired items are
+   * returned as stale until they are MAX_STALE_HOURS old, so that they can be
+   * shown while the data is loaded again.
    */
-  public has(key: string): boolean {
-    const item = this.cache.get(key);
-    
-    if (!item) {
-      return false;
+  public async load<T>(key: string): Promise<ICacheLookup<T> | undefined> {
+    const fresh = this.get<T>(key);
+    if (fresh !== undefined) {
+      return { data: fresh, isStale: false };
+    }
+
+    const now = Date.now();
+    let item = this.cache.get(key) as ICacheItem<T> | undefined;
+    if (this.persistentStore && this.getStrategy(key) === 'local') {
+      const stored = await this.persistentStore.get(key) as ICacheItem<T> | undefined;
+      if (stored && now <= stored.expiry + MAX_STALE_MS && (!item || stored.timestamp > item.timestamp)) {
+        this.stats.indexedDb.hits++;
+        this.setMemoryItem(key, stored);
+        item = stored;
+      } else {
+        this.stats.indexedDb.misses++;
+      }
     }
 
-    // Check if expired
-    if (Date.now() > item.expiry) {
-      this.cache.delete(key);
-      return false;
+    if (!item || now > item.expiry + MAX_STALE_MS) {
+      return undefined;
     }
+    return { data: item.data, isStale: now > item.expiry };
+  }
 
-    return true;
+  /**
+   * Check if item exists in cache and is not expired
+   */
+  public has(key: string): boolean {
+    const item = this.cache.get(key);
+    return !!item && Date.now() <= item.expiry;
   }
 
   /**
    * Remove item from cache
    */
   public delete(key: string): boolean {
-    return this.cache.delete(key);
+    this.persistentStore?.deleteWhere(storedKey => storedKey === key)
+      .catch(error => console.warn(`Could not remove persisted cache entry ${key}:`, error));
+    return this.deleteMemoryItem(key);
   }
 
   /**
-   * Clear all cache
+   * Clear all cache, including what this user has persisted for this site
    */
   public clear(): void {
     this.cache.clear();
+    this.memorySize = 0;
+    this.persistentStore?.deleteWhere(() => true).catch(error => console.warn('Could not clear the persisted cache:', error));
   }
 
   /**
@@ -111,19 +257,19 @@ export class CacheService {
   }
 
   /**
-   * Clean up expired items
+   * Clean up items too old to be shown even while loading again
    */
   private cleanupExpired(): void {
     const now = Date.now();
     const expiredKeys: string[] = [];
 
     this.cache.forEach((item, key) => {
-      if (now > item.expiry) {
+      if (now > item.expiry + MAX_STALE_MS) {
         expiredKeys.push(key);
       }
     });
 
-    expiredKeys.forEach(key => this.cache.delete(key));
+    expiredKeys.forEach(key => this.deleteMemoryItem(key));
   }
 
   // Calendar Sources Cache Methods
@@ -144,6 +290,13 @@ export class CacheService {
     return this.get<ICalendarSource[]>(key);
   }
 
+  /**
+   * Get cached calendar sources from memory or IndexedDB, possibly stale
+   */
+  public loadCachedSources(): Promise<ICacheLookup<ICalendarSource[]> | undefined> {
+    return this.load<ICalendarSource[]>(this.generateKey(AppConstants.CACHE_SOURCES_KEY, 'all'));
+  }
+
   /**
    * Cache SharePoint sources
    */
@@ -194,6 +347,13 @@ export class CacheService {
     return this.get<ICalendarEvent[]>(key);
   }
 
+  /**
+   * Get cached events for a specific calendar from memory or IndexedDB, possibly stale
+   */
+  public loadCachedEvents(calendarId: string): Promise<ICacheLookup<ICalendarEvent[]> | undefined> {
+    return this.load<ICalendarEvent[]>(this.generateKey(AppConstants.CACHE_EVENTS_KEY, calendarId));
+  }
+
   /**
    * Cache aggregated events from multiple calendars
    */
@@ -212,6 +372,14 @@ export class CacheService {
     return this.get<ICalendarEvent[]>(key);
   }
 
+  /**
+   * Get cached aggregated events from memory or IndexedDB, possibly stale
+   */
+  public loadCachedAggregatedEvents(calendarIds: string[]): Promise<ICacheLookup<ICalendarEvent[]> | undefined> {
+    const sortedIds = calendarIds.sort().join(',');
+    return this.load<ICalendarEvent[]>(this.generateKey(AppConstants.CACHE_EVENTS_KEY, `aggregated-${sortedIds}`));
+  }
+
   /**
    * Cache search results
    */
@@ -300,106 +468,152 @@ export class CacheService {
    * Clear all calendar-related cache
    */
   public clearCalendarCache(): void {
-    const keysToDelete: string[] = [];
-    
-    this.cache.forEach((_, key) => {
-      if (key.includes(AppConstants.CACHE_SOURCES_KEY) || 
-          key.includes(AppConstants.CACHE_EVENTS_KEY) ||
-          key.includes('metadata') ||
-          key.includes('daterange')) {
-        keysToDelete.push(key);
-      }
-    });
-
-    keysToDelete.forEach(key => this.cache.delete(key));
+    this.deleteWhere(key =>
+      key.includes(AppConstants.CACHE_SOURCES_KEY) ||
+      key.includes(AppConstants.CACHE_EVENTS_KEY) ||
+      key.includes('metadata') ||
+      key.includes('daterange'));
   }
 
   /**
    * Clear cache for specific calendar
    */
   public clearCalendarSpecificCache(calendarId: string): void {
-    const keysToDelete: string[] = [];
-    
-    this.cache.forEach((_, key) => {
-      if (key.includes(calendarId)) {
-        keysToDelete.push(key);
-      }
-    });
+    this.deleteWhere(key => key.includes(calendarId));
+  }
 
-    keysToDelete.forEach(key => this.cache.delete(key));
+  /**
+   * Apply a change to a single event: the calendar's cached events are patched
+   * in place and keep their expiry, while results combining several calendars
+   * or matching searches are dropped so they are built again
+   */
+  public updateCachedEvent(calendarId: string, eventId: string, event?: ICalendarEvent): void {
+    const eventsKey = this.generateKey(AppConstants.CACHE_EVENTS_KEY, calendarId);
+    const searchPrefix = this.generateKey('search', '');
+    this.deleteWhere(key => (key.includes(calendarId) && key !== eventsKey) || key.indexOf(searchPrefix) === 0);
+
+    const cached = this.cache.get(eventsKey) as ICacheItem<ICalendarEvent[]> | undefined;
+    if (cached) {
+      const events = cached.data.filter(existing => existing.id !== eventId && existing.masterSeriesId !== eventId);
+      if (event) {
+        events.push(event);
+        events.sort((a, b) => new Date(a.start).getTime() - new Date(b.start).getTime());
+      }
+      const updated = { ...cached, data: events, size: this.measure(events) };
+      this.setMemoryItem(eventsKey, updated);
+      this.persist(eventsKey, updated);
+    } else {
+      // A persisted copy cannot be patched without reading it, so it is dropped
+      this.delete(eventsKey);
+    }
   }
 
   /**
    * Invalidate cache based on patterns
    */
   public invalidateByPattern(pattern: string): void {
-    const keysToDelete: string[] = [];
-    
-    this.cache.forEach((_, key) => {
-      if (key.includes(pattern)) {
-        keysToDelete.push(key);
-      }
-    });
-
-    keysToDelete.forEach(key => this.cache.delete(key));
+    this.deleteWhere(key => key.includes(pattern));
   }
 
   // Cache Health Methods
 
   /**
-   * Get cache health information
+   * Get cache health information. Hit rates count lookups answered by each
+   * tier; IndexedDB is only asked when memory misses.
    */
   public getCacheHealth(): {
     totalItems: number;
     expiredItems: number;
     memoryUsage: number;
     hitRate: number;
+    tiers: { memory: ICacheTierHealth; indexedDb: ICacheTierHealth };
   } {
     const now = Date.now();
     let expiredCount = 0;
-    let totalSize = 0;
 
     this.cache.forEach((item) => {
       if (now > item.expiry) {
         expiredCount++;
       }
-      totalSize += JSON.stringify(item.data).length;
     });
 
+    const getHitRate = (hits: number, misses: number): number => hits + misses > 0 ? hits / (hits + misses) : 0;
+    const { memory, indexedDb } = this.stats;
+    const lookups = memory.hits + memory.misses;
+    const persistentUsage = this.persistentStore?.getUsage() || { items: 0, size: 0 };
+
     return {
       totalItems: this.cache.size,
       expiredItems: expiredCount,
-      memoryUsage: totalSize,
-      hitRate: 0 // Would need to track hits/misses for accurate calculation
+      memoryUsage: this.memorySize,
+      hitRate: lookups > 0 ? (memory.hits + indexedDb.hits) / lookups : 0,
+      tiers: {
+        memory: {
+          enabled: this.configuration.enabled,
+          items: this.cache.size,
+          size: this.memorySize,
+          maxSize: this.getMaxSize(),
+          hits: memory.hits,
+          misses: memory.misses,
+          hitRate: getHitRate(memory.hits, memory.misses)
+        },
+        indexedDb: {
+          enabled: !!this.persistentStore,
+          items: persistentUsage.items,
+          size: persistentUsage.size,
+          maxSize: this.getMaxSize(),
+          hits: indexedDb.hits,
+          misses: indexedDb.misses,
+          hitRate: getHitRate(indexedDb.hits, indexedDb.misses)
+        }
+      }
     };
   }
 
   /**
-   * Optimize cache by removing expired items and compacting
+   * Optimize cache by removing items too old to show and those over budget
    */
   public optimizeCache(): void {
     this.cleanupExpired();
-    
-    // If cache is still too large, remove oldest items
-    if (this.cache.size > 100) { // Max 100 items
-      const entries = Array.from(this.cache.entries());
-      entries.sort((a, b) => a[1].timestamp - b[1].timestamp);
-      
-      // Remove oldest 25% of items
-      const toRemove = Math.floor(entries.length * 0.25);
-      for (let i = 0; i < toRemove; i++) {
-        this.cache.delete(entries[i][0]);
-      }
+
+    const keys = this.cache.keys();
+    while (this.memorySize > this.getMaxSize() && this.cache.size > 1) {
+      this.deleteMemoryItem(keys.next().value as string);
     }
+
+    this.persistentStore?.compact(Date.now() - MAX_STALE_MS, this.getMaxSize())
+      .catch(error => console.warn('Could not compact the persisted cache:', error));
   }
 
   /**
-   * Set cache configuration
+   * Set cache configuration. The namespace, normally the user and site,
+   * keeps persisted entries apart; IndexedDB is only used once it is set.
    */
-  public configure(options: { defaultTtlMinutes?: number }): void {
+  public configure(options: Partial<ICachingConfiguration> & { namespace?: string }): void {
+    const { namespace, ...configuration } = options;
+    this.configuration = {
+      ...this.configuration,
+      ...configuration,
+      strategies: { ...this.configuration.strategies, ...configuration.strategies }
+    };
     if (options.defaultTtlMinutes) {
       this.defaultTtl = options.defaultTtlMinutes * 60 * 1000;
     }
+
+    if (!this.configuration.enabled) {
+      this.cache.clear();
+      this.memorySize = 0;
+    }
+
+    const { strategies } = this.configuration;
+    const persists = this.configuration.enabled && [strategies.events, strategies.calendars, strategies.metadata].indexOf('local') !== -1;
+    const storeNamespace = namespace || this.namespace;
+    if (!persists || !storeNamespace || !IndexedDbCacheStore.isSupported()) {
+      this.persistentStore = undefined;
+    } else if (!this.persistentStore || storeNamespace !== this.namespace) {
+      this.persistentStore = new IndexedDbCacheStore(storeNamespace);
+    }
+    this.namespace = storeNamespace;
   }
 
   /**
@@ -0,0 +1,299 @@
+jest.mock('@microsoft/sp-http', () => ({ SPHttpClient: { configurations: { v1: {} } } }));
+jest.mock('@microsoft/sp-core-library', () => ({ Guid: { newGuid: () => ({ toString: () => 'new-guid' }) } }));
+
+import { WebPartContext } from '@microsoft/sp-webpart-base';
+import { CalendarService } from './CalendarService';
+import { CacheService } from './CacheService';
+import { SharePointCalendarService } from './SharePointCalendarService';
+import { SharePointListService } from './SharePointListService';
+import { SharePointItemService } from './SharePointItemService';
+import { ExchangeCalendarService } from './ExchangeCalendarService';
+import { ICalendarEvent, ICalendarSource, CalendarSourceType, ISharePointListSource } from '../models/ICalendarModels';
+import { IEventUpdateRequest, RecurringEditScope } from '../models/IEventModels';
+import { AppConstants } from '../constants/AppConstants';
+
+const context = {
+  pageContext: { user: { loginName: 'pat@contoso.com' }, web: { absoluteUrl: 'https://contoso.sharepoint.com/sites/team' } },
+  spHttpClient: { get: jest.fn(), post: jest.fn() },
+  msGraphClientFactory: { getClient: jest.fn() }
+} as unknown as WebPartContext;
+
+const EVENTS = '7b1d9c5e-3f2a-4c8e-9d61-2a4f5b6c7d8e';
+const TASKS = 'c2e4a6b8-1d3f-4a5b-8c7d-9e0f1a2b3c4d';
+
+const createSource = (id: string, type: CalendarSourceType): ICalendarSource => ({
+  id,
+  title: id,
+  description: '',
+  type,
+  url: `https://contoso.sharepoint.com/sites/team/Lists/${id}`,
+  siteTitle: 'Team',
+  siteUrl: 'https://contoso.sharepoint.com/sites/team',
+  color: '#0078d4',
+  isEnabled: true
+});
+
+const createEvent = (id: string, changes: Partial<ICalendarEvent> = {}): ICalendarEvent => ({
+  id,
+  title: 'Stand-up',
+  start: new Date(2026, 2, 2, 9, 0),
+  end: new Date(2026, 2, 2, 9, 30),
+  isAllDay: false,
+  calendarId: EVENTS,
+  calendarTitle: 'Events',
+  calendarType: CalendarSourceType.SharePoint,
+  color: '#0078d4',
+  created: new Date(2026, 0, 1),
+  modified: new Date(2026, 0, 1),
+  ...changes
+} as ICalendarEvent);
+
+beforeEach(() => {
+  jest.restoreAllMocks();
+  CacheService.getInstance().clear();
+  jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+  jest.spyOn(console, 'error').mockImplementation(() => undefined);
+});
+
+describe('CalendarService.getCalendarSources', () => {
+  it('adds SharePoint lists that are not already calendars and leaves out Exchange unless asked', async () => {
+    jest.spyOn(SharePointCalendarService.prototype, 'getSharePointCalendars').mockResolvedValue([createSource(EVENTS.toUpperCase(), CalendarSourceType.SharePoint)]);
+    jest.spyOn(SharePointListService.prototype, 'discoverCalendarLists').mockResolvedValue([
+      createSource(EVENTS, CalendarSourceType.SharePointList) as ISharePointListSource,
+      createSource(TASKS, CalendarSourceType.SharePointList) as ISharePointListSource
+    ]);
+
+    const sources = await new CalendarService(context).getCalendarSources();
+
+    expect(sources.map(source => [source.id, source.type])).toEqual([
+      [EVENTS.toUpperCase(), CalendarSourceType.SharePoint],
+      [TASKS, CalendarSourceType.SharePointList]
+    ]);
+  });
+
+  it('keeps the calendars it found when lists cannot be read', async () => {
+    jest.spyOn(SharePointCalendarService.prototype, 'getSharePointCalendars').mockResolvedValue([createSource(EVENTS, CalendarSourceType.SharePoint)]);
+    jest.spyOn(SharePointListService.prototype, 'discoverCalendarLists').mockRejectedValue(new Error('Access denied'));
+
+    expect((await new CalendarService(context).getCalendarSources()).map(source => source.id)).toEqual([EVENTS]);
+  });
+});
+
+describe('CalendarService.getEventsFromSource', () => {
+  it('reads SharePoint list sources through the list service', async () => {
+    const source = createSource(TASKS, CalendarSourceType.SharePointList);
+    const getEventsFromList = jest.spyOn(SharePointListService.prototype, 'getEventsFromList')
+      .mockResolvedValue({ items: [createEvent(`sp_list_${TASKS}_1`, { calendarId: TASKS, calendarType: CalendarSourceType.SharePointList })], truncated: false, pageCount: 1 });
+
+    const events = await new CalendarService(context).getEventsFromSource(source, 50);
+
+    expect(getEventsFromList.mock.calls[0].slice(0, 2)).toEqual([source, 50]);
+    expect(events.map(event => event.id)).toEqual([`sp_list_${TASKS}_1`]);
+  });
+});
+
+describe('CalendarService.updateEvent and deleteEvent', () => {
+  const source = createSource(EVENTS, CalendarSourceType.SharePoint);
+  const eventId = (itemId: number | string): string => `sp_${EVENTS}_${itemId}`;
+  const updateEvent = (id: string, changes: Partial<IEventUpdateRequest>): Promise<ICalendarEvent> =>
+    new CalendarService(context).updateEvent!(source.id, id, { ...changes, id });
+  const deleteEvent = (id: string, etag: string, scope?: RecurringEditScope): Promise<boolean> =>
+    new CalendarService(context).deleteEvent!(source.id, id, etag, scope);
+  const master = createEvent(eventId(1), {
+    isRecurring: true,
+    etag: '"1"',
+    recurrencePattern: { type: 'daily', interval: 1, occurrences: 5 }
+  });
+
+  let getEventById: jest.SpyInstance;
+  let updateItem: jest.SpyInstance;
+  let deleteItem: jest.SpyInstance;
+  let createException: jest.SpyInstance;
+
+  // The calendar holds the daily series, an edited occurrence of it on the 4th, and a single event
+  beforeEach(() => {
+    const items: { [itemId: number]: ICalendarEvent } = {
+      1: master,
+      2: createEvent(eventId(2), {
+        start: new Date(2026, 2, 4, 10, 0),
+        end: new Date(2026, 2, 4, 10, 30),
+        isException: true,
+        masterSeriesId: eventId(1),
+        originalStart: new Date(2026, 2, 4, 9, 0),
+        etag: '"2"'
+      }),
+      3: createEvent(eventId(3), { title: 'Review', etag: '"3"' })
+    };
+
+    jest.spyOn(CalendarService.prototype, 'getCalendarSources').mockResolvedValue([source]);
+    getEventById = jest.spyOn(SharePointCalendarService.prototype, 'getEventById').mockImplementation(async (_source, itemId) => items[itemId] || items[1]);
+    updateItem = jest.spyOn(SharePointItemService.prototype, 'updateItem').mockResolvedValue(undefined);
+    deleteItem = jest.spyOn(SharePointItemService.prototype, 'deleteItem').mockResolvedValue(undefined);
+    createException = jest.spyOn(SharePointItemService.prototype, 'createException').mockResolvedValue(4);
+  });
+
+  it('moves a single event against the version it was loaded with', async () => {
+    const start = new Date(2026, 2, 2, 14, 0);
+    const end = new Date(2026, 2, 2, 15, 0);
+
+    await updateEvent(eventId(3), { start, end, etag: '"3"' });
+
+    expect(updateItem).toHaveBeenCalledWith(source, SharePointItemService.EVENTS_LIST_MAPPING, 3, expect.objectContaining({ start, end, isAllDay: false }), '"3"');
+  });
+
+  it('requires the version of the event being changed', async () => {
+    await expect(updateEvent(eventId(3), { title: 'Review' })).rejects.toThrow('The version of the event being changed is required');
+    expect(updateItem).not.toHaveBeenCalled();
+  });
+
+  it('keeps the rule of a series when its master is moved', async () => {
+    const start = new Date(2026, 2, 2, 10, 0);
+
+    await updateEvent(eventId(1), { start, editScope: 'series', etag: '"1"' });
+
+    expect(updateItem).toHaveBeenCalledWith(source, SharePointItemService.EVENTS_LIST_MAPPING, 1, expect.objectContaining({
+      start,
+      end: master.end,
+      recurrence: master.recurrencePattern
+    }), '"1"');
+  });
+
+  it('stores a change to one occurrence of a series as an exception', async () => {
+    await updateEvent(eventId('1_recur_20260303'), { title: 'Planning', etag: '"1"' });
+
+    expect(createException).toHaveBeenCalledWith(
+      source,
+      1,
+      new Date(2026, 2, 3, 9, 0),
+      expect.objectContaining({ title: 'Planning', start: new Date(2026, 2, 3, 9, 0), end: new Date(2026, 2, 3, 9, 30), recurrence: undefined }),
+      false
+    );
+    expect(getEventById).toHaveBeenLastCalledWith(source, 4);
+    expect(updateItem).not.toHaveBeenCalled();
+  });
+
+  it('refuses to change an occurrence of a series that changed since it was loaded', async () => {
+    await expect(updateEvent(eventId('1_recur_20260303'), { title: 'Planning', etag: '"0"' }))
+      .rejects.toThrow(AppConstants.ERROR_MESSAGES.EVENT_CHANGED);
+    expect(createException).not.toHaveBeenCalled();
+  });
+
+  it('changes the whole series through its master', async () => {
+    await updateEvent(eventId('1_recur_20260303'), { title: 'Daily sync', editScope: 'series', etag: '"1"' });
+
+    expect(updateItem).toHaveBeenCalledWith(source, SharePointItemService.EVENTS_LIST_MAPPING, 1, expect.objectContaining({ title: 'Daily sync' }), '"1"');
+  });
+
+  it('splits the series to change an occurrence and the ones after it', async () => {
+    const createItem = jest.spyOn(SharePointItemService.prototype, 'createItem').mockResolvedValue(5);
+    jest.spyOn(SharePointItemService.prototype, 'deleteExceptionsFrom').mockResolvedValue(undefined);
+
+    await updateEvent(eventId('1_recur_20260304'), { title: 'Daily sync', editScope: 'following', etag: '"1"' });
+
+    expect(updateItem).toHaveBeenCalledWith(
+      source,
+      SharePointItemService.EVENTS_LIST_MAPPING,
+      1,
+      expect.objectContaining({ recurrence: expect.objectContaining({ endDate: new Date(2026, 2, 3), occurrences: undefined }) }),
+      '"1"'
+    );
+    // Two of the five occurrences are left to the first part
+    expect(createItem).toHaveBeenCalledWith(source, SharePointItemService.EVENTS_LIST_MAPPING, expect.objectContaining({
+      title: 'Daily sync',
+      start: new Date(2026, 2, 4, 9, 0),
+      end: new Date(2026, 2, 4, 9, 30),
+      recurrence: expect.objectContaining({ type: 'daily', occurrences: 3 })
+    }));
+  });
+
+  it('deletes an item against the version it was loaded with', async () => {
+    await deleteEvent(eventId(3), '"3"');
+    expect(deleteItem).toHaveBeenCalledWith(source, 3, '"3"');
+
+    await expect(deleteEvent(eventId(3), '')).rejects.toThrow('The version of the event being deleted is required');
+  });
+
+  it('marks a deleted occurrence with an exception and leaves the series', async () => {
+    await deleteEvent(eventId('1_recur_20260303'), '"1"');
+
+    expect(createException).toHaveBeenCalledWith(source, 1, new Date(2026, 2, 3, 9, 0), expect.objectContaining({ title: 'Stand-up' }), true);
+    expect(deleteItem).not.toHaveBeenCalled();
+  });
+
+  it('turns a deleted edited occurrence into a deleted one so the original does not come back', async () => {
+    const deleteException = jest.spyOn(SharePointItemService.prototype, 'deleteException').mockResolvedValue(undefined);
+
+    await deleteEvent(eventId(2), '"2"');
+
+    expect(deleteException).toHaveBeenCalledWith(source, 2, '"2"');
+    expect(deleteItem).not.toHaveBeenCalled();
+  });
+
+  it('deletes the whole series through its master', async () => {
+    await deleteEvent(eventId(2), '"2"', 'series');
+
+    expect(deleteItem).toHaveBeenCalledWith(source, 1, '"1"');
+  });
+
+  it('ends the series before an occurrence to delete it and the ones after it', async () => {
+    const deleteExceptionsFrom = jest.spyOn(SharePointItemService.prototype, 'deleteExceptionsFrom').mockResolvedValue(undefined);
+
+    await deleteEvent(eventId('1_recur_20260304'), '"1"', 'following');
+
+    expect(updateItem).toHaveBeenCalledWith(
+      source,
+      SharePointItemService.EVENTS_LIST_MAPPING,
+      1,
+      expect.objectContaining({ recurrence: expect.objectContaining({ endDate: new Date(2026, 2, 3) }) }),
+      '"1"'
+    );
+    expect(deleteExceptionsFrom).toHaveBeenCalledWith(source, 1, new Date(2026, 2, 4, 9, 0), false);
+    expect(deleteItem).not.toHaveBeenCalled();
+  });
+
+  it('deletes the whole series when the following occurrences start with the first', async () => {
+    await deleteEvent(eventId('1_recur_20260302'), '"1"', 'following');
+
+    expect(deleteItem).toHaveBeenCalledWith(source, 1, '"1"');
+    expect(updateItem).not.toHaveBeenCalled();
+  });
+});
+
+describe('CalendarService.updateEvent for Exchange', () => {
+  const MAILBOX = 'e5f7a9b1-2c4d-4e6f-8a0b-1c2d3e4f5a6b';
+  const NEW_YORK = 'America/New_York';
+  const source = createSource(MAILBOX, CalendarSourceType.Exchange);
+
+  it('moves a series on the wall clock of its own zone', async () => {
+    const master = createEvent(`ex_${MAILBOX}_master`, {
+      calendarId: MAILBOX,
+      calendarType: CalendarSourceType.Exchange,
+      isRecurring: true,
+      timeZone: NEW_YORK,
+      recurrencePattern: { type: 'weekly', interval: 1, daysOfWeek: [1] }
+    });
+    jest.spyOn(CalendarService.prototype, 'getCalendarSources').mockResolvedValue([source]);
+    jest.spyOn(ExchangeCalendarService.prototype, 'getEventById').mockResolvedValue(master);
+    const updateEvent = jest.spyOn(ExchangeCalendarService.prototype, 'updateEvent').mockResolvedValue(master);
+    // Monday evening in New York is already Tuesday in UTC
+    const start = new Date('2026-03-10T02:00:00Z');
+
+    await new CalendarService(context).updateEvent!(MAILBOX, master.id, {
+      id: master.id,
+      start,
+      end: new Date('2026-03-10T02:30:00Z'),
+      recurrence: master.recurrencePattern,
+      editScope: 'series'
+    });
+
+    expect(updateEvent.mock.calls[0].slice(0, 2)).toEqual([source, master.id]);
+    expect(updateEvent.mock.calls[0][2]).toMatchObject({
+      start: { dateTime: '2026-03-09T22:00:00', timeZone: NEW_YORK },
+      end: { dateTime: '2026-03-09T22:30:00', timeZone: NEW_YORK },
+      recurrence: {
+        pattern: { type: 'weekly', daysOfWeek: ['monday'] },
+        range: { startDate: '2026-03-09', recurrenceTimeZone: NEW_YORK }
+      }
+    });
+  });
+});
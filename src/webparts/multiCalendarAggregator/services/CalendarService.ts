@@ -1,24 +1,67 @@
 import { WebPartContext } from '@microsoft/sp-webpart-base';
-import { ICalendarEvent, ICalendarSource, CalendarSourceType, ICalendarService, IEventAttachment, IEventAttendee } from '../models/ICalendarModels';
-import { IEventCreateRequest, IEventUpdateRequest, IEventSearchCriteria, IEventSearchResult, IExtendedCalendarEvent } from '../models/IEventModels';
+import moment from 'moment';
+import { ICalendarEvent, ICalendarSource, CalendarSourceType, ICalendarService, IEventAttachment, IEventAttendee, ISharePointListSource, IFieldMapping, IEventLoadResult, ExportFormat, ISourceHealth, CalendarViewType } from '../models/ICalendarModels';
+import { IUserPreferences, IWorkingHours } from '../models/IConfigurationModels';
+import { IEventCreateRequest, IEventUpdateRequest, IEventSearchCriteria, IEventSearchResult, IExtendedCalendarEvent, IEventImportResult, IRecurrencePattern, RecurringEditScope, ISeriesOccurrence, IEventConflict, IFreeBusyQuery, IFreeBusyResult, IRoomList, IRoomSearchCriteria, IMeetingRoom, ICalendarSyncStatus } from '../models/IEventModels';
 import { SharePointCalendarService } from './SharePointCalendarService';
+import { SharePointListService } from './SharePointListService';
+import { SharePointItemService } from './SharePointItemService';
 import { ExchangeCalendarService } from './ExchangeCalendarService';
 import { CacheService } from './CacheService';
+import { RegionalSettingsService } from './RegionalSettingsService';
+import { ImportedCalendarService } from './ImportedCalendarService';
+import { SourceHealthService } from './SourceHealthService';
+import { SourceSelectionService } from './SourceSelectionService';
+import { UserPreferencesService, PreferencesLocation } from './UserPreferencesService';
+import { RoomService } from './RoomService';
+import { CalendarSyncService } from './CalendarSyncService';
+import { RequestScheduler, IRequestOptions } from './RequestScheduler';
 import { AppConstants } from '../constants/AppConstants';
 import { ValidationUtils } from '../utils/ValidationUtils';
 import { DateUtils } from '../utils/DateUtils';
 import { ColorUtils } from '../utils/ColorUtils';
+import { ExportUtils } from '../utils/ExportUtils';
+import { XlsxUtils } from '../utils/XlsxUtils';
+import { IPagedResult } from '../utils/PagingUtils';
+import { SearchQueryUtils, ISearchTerm } from '../utils/SearchQueryUtils';
+import { RecurrenceUtils } from '../utils/RecurrenceUtils';
+import { ConflictUtils } from '../utils/ConflictUtils';
+
+// Marks the IDs of series occurrences expanded from a SharePoint series
+const OCCURRENCE_ID_MARKER = '_recur_';
 
 export class CalendarService implements ICalendarService {
   private sharePointService: SharePointCalendarService;
+  private sharePointListService: SharePointListService;
+  private sharePointItemService: SharePointItemService;
   private exchangeService: ExchangeCalendarService;
   private cacheService: CacheService;
+  private regionalSettings: RegionalSettingsService;
+  private importedCalendarService: ImportedCalendarService;
+  private sourceHealthService: SourceHealthService;
+  private sourceSelectionService: SourceSelectionService;
+  private userPreferencesService: UserPreferencesService;
+  private roomService: RoomService;
+  private syncService: CalendarSyncService;
+  private scheduler: RequestScheduler;
   private isInitialized: boolean = false;
+  private cacheNamespace: string;
 
   constructor(context: WebPartContext) {
+    this.cacheNamespace = `${context.pageContext.user.loginName}|${context.pageContext.web.absoluteUrl}`.toLowerCase();
     this.sharePointService = new SharePointCalendarService(context);
+    this.sharePointListService = new SharePointListService(context);
+    this.sharePointItemService = new SharePointItemService(context);
     this.exchangeService = new ExchangeCalendarService(context);
     this.cacheService = CacheService.getInstance();
+    this.regionalSettings = new RegionalSettingsService(context);
+    this.importedCalendarService = new ImportedCalendarService(context);
+    this.sourceHealthService = new SourceHealthService(context);
+    this.sourceSelectionService = new SourceSelectionService(context);
+    this.userPreferencesService = new UserPreferencesService(context);
+    this.roomService = new RoomService(context);
+    this.syncService = new CalendarSyncService(context);
+    this.scheduler = RequestScheduler.getInstance();
   }
 
   /**
@@ -30,7 +73,8 @@ export class CalendarService implements ICalendarService {
     try {
       // Configure cache settings
       this.cacheService.configure({
-        defaultTtlMinutes: AppConstants.CACHE_DURATION_MINUTES
+        defaultTtlMinutes: AppConstants.CACHE_DURATION_MINUTES,
+        namespace: this.cacheNamespace
       });
 
       this.isInitialized = true;
@@ -47,11 +91,16 @@ export class CalendarService implements ICalendarService {
     try {
       await this.initialize();
 
-      const cachedSources = this.cacheService.getCachedSources();
-      if (cachedSources) {
-        return includeExchange 
-          ? cachedSources 
-          : cachedSources.filter(s => s.type === CalendarSourceType.SharePoint);
+      // Imported calendars are read from storage every time so new imports show straight away
+      const importedSources = this.importedCalendarService.getImportedCalendars();
+
+      const cached = await this.cacheService.loadCachedSources();
+      if (cached && !cached.isStale) {
+        const cachedSources = cached.data;
+        return [
+          ...(includeExchange ? cachedSources : cachedSources.filter(s => s.type !== CalendarSourceType.Exchange)),
+          ...importedSources
+        ];
       }
 
       const allSources: ICalendarSource[] = [];
@@ -65,6 +114,16 @@ export class CalendarService implements ICalendarService {
         // Continue without SharePoint calendars
       }
 
+      // Get SharePoint list sources (skip Events lists already discovered as calendars)
+      try {
+        const listSources = await this.sharePointListService.discoverCalendarLists();
+        const knownIds = new Set(allSources.map(s => s.id.toLowerCase()));
+        allSources.push(...listSources.filter(s => !knownIds.has(s.id.toLowerCase())));
+      } catch (error) {
+        console.warn('Failed to get SharePoint lists:', error);
+        // Continue without SharePoint lists
+      }
+
       // Get Exchange calendar sources if enabled
       if (includeExchange) {
         try {
@@ -82,7 +141,7 @@ export class CalendarService implements ICalendarService {
       // Cache the results
       this.cacheService.setCachedSources(validatedSources, AppConstants.CACHE_DURATION_MINUTES);
 
-      return validatedSources;
+      return [...validatedSources, ...importedSources];
     } catch (error) {
       console.error('Error getting calendar sources:', error);
       throw new Error(AppConstants.ERROR_MESSAGES.SHAREPOINT_API_ERROR);
@@ -93,6 +152,19 @@ export class CalendarService implements ICalendarService {
    * Get events from a specific calendar source
    */
   public async getEventsFromSource(source: ICalendarSource, maxEvents: number = 100): Promise<ICalendarEvent[]> {
+    const result = await this.loadEventsFromSource(source, maxEvents);
+    return result.events;
+  }
+
+  /**
+   * Load events from a single source, following continuation links and reporting each page
+   */
+  private async loadEventsFromSource(
+    source: ICalendarSource,
+    maxEvents: number,
+    onProgress?: (eventsSoFar: ICalendarEvent[]) => void,
+    options: IRequestOptions = {}
+  ): Promise<{ events: ICalendarEvent[]; truncated: boolean }> {
     try {
       // Validate source
       const validation = ValidationUtils.validateCalendarSource(source);
@@ -100,22 +172,36 @@ export class CalendarService implements ICalendarService {
         throw new Error(`Invalid calendar source: ${validation.errors.map(e => e.message).join(', ')}`);
       }
 
-      // Check cache first
-      const cachedEvents = this.cacheService.getCachedEvents(source.id);
+      // Check cache first; sources with a sync token read their changes instead
+      const cached = this.syncService.hasSyncState(source.id) ? undefined : await this.cacheService.loadCachedEvents(source.id);
+      const cachedEvents = cached && !cached.isStale ? cached.data : undefined;
       if (cachedEvents && cachedEvents.length <= maxEvents) {
-        return cachedEvents.slice(0, maxEvents);
+        return { events: cachedEvents.slice(0, maxEvents), truncated: cachedEvents.length > maxEvents };
       }
 
-      let events: ICalendarEvent[] = [];
+      const reportProgress = onProgress
+        ? (eventsSoFar: ICalendarEvent[]) => {
+          this.validateAndEnhanceEvents(eventsSoFar, source).then(onProgress).catch(() => undefined);
+        }
+        : undefined;
+
+      let result: IPagedResult<ICalendarEvent>;
 
       // Route to appropriate service based on source type
       switch (source.type) {
-        case CalendarSourceType.SharePoint: {
-          events = await this.sharePointService.getEventsFromCalendar(source, maxEvents);
+        case CalendarSourceType.SharePoint:
+        case CalendarSourceType.SharePointList: {
+          result = await this.syncService.syncEvents(source, maxEvents, reportProgress, options);
           break;
         }
         case CalendarSourceType.Exchange: {
-          events = await this.exchangeService.getEventsFromCalendar(source, maxEvents);
+          result = this.syncService.supportsIncrementalSync(source)
+            ? await this.syncService.syncEvents(source, maxEvents, reportProgress, options)
+            : await this.exchangeService.getEventsFromCalendar(source, maxEvents, reportProgress, options);
+          break;
+        }
+        case CalendarSourceType.ICS: {
+          result = await this.importedCalendarService.getEventsFromCalendar(source, maxEvents);
           break;
         }
         default: {
@@ -124,12 +210,12 @@ export class CalendarService implements ICalendarService {
       }
 
       // Validate and enhance events
-      events = await this.validateAndEnhanceEvents(events, source);
+      const events = await this.validateAndEnhanceEvents(result.items, source);
 
       // Cache the results
       this.cacheService.setCachedEvents(source.id, events, AppConstants.CACHE_DURATION_MINUTES);
 
-      return events.slice(0, maxEvents);
+      return { events: events.slice(0, maxEvents), truncated: result.truncated || events.length > maxEvents };
     } catch (error) {
       console.error(`Error getting events from ${source.title}:`, error);
       throw error;
@@ -140,34 +226,92 @@ export class CalendarService implements ICalendarService {
    * Get events from multiple calendar sources
    */
   public async getEventsFromSources(sources: ICalendarSource[], maxEvents: number = 1000): Promise<ICalendarEvent[]> {
+    const result = await this.getEventsFromSourcesWithProgress(sources, maxEvents);
+    return result.events;
+  }
+
+  /**
+   * Get events from multiple calendar sources, reporting merged results as each page arrives.
+   * Sources load through the shared request scheduler with the given priority.
+   */
+  public async getEventsFromSourcesWithProgress(
+    sources: ICalendarSource[],
+    maxEvents: number = 1000,
+    onProgress?: (result: IEventLoadResult) => void,
+    options: IRequestOptions = {}
+  ): Promise<IEventLoadResult> {
     try {
       // Check for cached aggregated events
       const sourceIds = sources.map(s => s.id);
-      const cachedEvents = this.cacheService.getCachedAggregatedEvents(sourceIds);
-      if (cachedEvents && cachedEvents.length <= maxEvents) {
-        return cachedEvents.slice(0, maxEvents);
+      const cached = sourceIds.some(id => this.syncService.hasSyncState(id)) ? undefined : await this.cacheService.loadCachedAggregatedEvents(sourceIds);
+      if (cached && !cached.isStale && cached.data.length <= maxEvents) {
+        return {
+          events: cached.data.slice(0, maxEvents),
+          truncated: cached.data.length > maxEvents,
+          isComplete: true
+        };
       }
 
-      const allEvents: ICalendarEvent[] = [];
       const errors: string[] = [];
+      const eventsBySource = new Map<string, ICalendarEvent[]>();
+      const perSourceLimit = Math.ceil(maxEvents / Math.max(sources.length, 1));
+
+      const mergeEvents = (): ICalendarEvent[] => {
+        const merged: ICalendarEvent[] = [];
+        eventsBySource.forEach(events => merged.push(...events));
+        return merged.sort((a, b) => a.start.getTime() - b.start.getTime());
+      };
+
+      // Show what was loaded last time straight away; each source's events are replaced as it loads again
+      if (cached && onProgress) {
+        cached.data.forEach(event => {
+          if (sourceIds.indexOf(event.calendarId) === -1) return;
+          const sourceEvents = eventsBySource.get(event.calendarId) || [];
+          sourceEvents.push(event);
+          eventsBySource.set(event.calendarId, sourceEvents);
+        });
+        const merged = mergeEvents();
+        onProgress({ events: merged.slice(0, maxEvents), truncated: merged.length > maxEvents, isComplete: false });
+      }
+
+      // Changes since the last sync, and Exchange calendars read from the start, are fetched in a few batches
+      await this.syncService.prefetchChanges(sources, options).catch(error => {
+        if (RequestScheduler.isAbortError(error)) throw error;
+        console.warn('Could not prefetch calendar changes:', error);
+      });
 
       // Process sources in parallel with error handling
-      const eventPromises = sources.map(async (source) => {
+      const loadPromises = sources.map(async (source) => {
         try {
-          const events = await this.getEventsFromSource(source, Math.ceil(maxEvents / sources.length));
-          return events;
+          const result = await this.scheduler.schedule(signal => this.loadEventsFromSource(source, perSourceLimit, onProgress
+            ? (eventsSoFar) => {
+              eventsBySource.set(source.id, eventsSoFar);
+              const merged = mergeEvents();
+              onProgress({
+                events: merged.slice(0, maxEvents),
+                truncated: merged.length > maxEvents,
+                isComplete: false
+              });
+            }
+            : undefined, { signal }), options);
+          eventsBySource.set(source.id, result.events);
+          return result.truncated;
         } catch (error) {
+          if (RequestScheduler.isAbortError(error)) return false;
           console.error(`Failed to get events from ${source.title}:`, error);
           errors.push(`${source.title}: ${error instanceof Error ? error.message : 'Unknown error'}`);
-          return [];
+          eventsBySource.delete(source.id);
+          return false;
         }
       });
 
-      const eventArrays = await Promise.all(eventPromises);
-      eventArrays.forEach(events => allEvents.push(...events));
+      const truncatedFlags = await Promise.all(loadPromises);
+      if (options.signal?.aborted) {
+        throw RequestScheduler.createAbortError();
+      }
 
       // Sort events by start date
-      allEvents.sort((a, b) => a.start.getTime() - b.start.getTime());
+      const allEvents = mergeEvents();
 
       // Limit results
       const limitedEvents = allEvents.slice(0, maxEvents);
@@ -180,9 +324,15 @@ export class CalendarService implements ICalendarService {
         console.warn('Some calendar sources failed to load:', errors);
       }
 
-      return limitedEvents;
+      return {
+        events: limitedEvents,
+        truncated: truncatedFlags.some(Boolean) || allEvents.length > maxEvents,
+        isComplete: true
+      };
     } catch (error) {
-      console.error('Error getting events from multiple sources:', error);
+      if (!RequestScheduler.isAbortError(error)) {
+        console.error('Error getting events from multiple sources:', error);
+      }
       throw error;
     }
   }
@@ -219,6 +369,18 @@ export class CalendarService implements ICalendarService {
         }
       }
 
+      // Search SharePoint lists
+      const listSources = sources.filter(s => s.type === CalendarSourceType.SharePointList) as ISharePointListSource[];
+      if (listSources.length > 0) {
+        try {
+          const listResults = await this.sharePointListService.searchEvents(listSources, query, maxResults);
+          allResults.push(...listResults);
+        } catch (error) {
+          console.error('SharePoint list search failed:', error);
+          errors.push('SharePoint list search failed');
+        }
+      }
+
       // Search Exchange calendars
       const exchangeSources = sources.filter(s => s.type === CalendarSourceType.Exchange);
       if (exchangeSources.length > 0) {
@@ -231,7 +393,20 @@ export class CalendarService implements ICalendarService {
         }
       }
 
-      // Remove duplicates and sort by relevance/date
+      // Search imported calendars
+      const importedSources = sources.filter(s => s.type === CalendarSourceType.ICS);
+      if (importedSources.length > 0) {
+        try {
+          const importedResults = await this.importedCalendarService.searchEvents(importedSources, query, maxResults);
+          allResults.push(...importedResults);
+        } catch (error) {
+          console.error('Imported calendar search failed:', error);
+          errors.push('Imported calendar search failed');
+        }
+      }
+
+      // Remove duplicates and sort by relevance/date. Copies of one meeting
+      // are merged where the events are shown, as the web part is configured.
       const uniqueResults = this.removeDuplicateEvents(allResults);
       uniqueResults.sort((a, b) => {
         // Sort by relevance (title match first, then by date)
@@ -264,7 +439,8 @@ export class CalendarService implements ICalendarService {
     sources: ICalendarSource[], 
     startDate: Date, 
     endDate: Date, 
-    maxEvents: number = 1000
+    maxEvents: number = 1000,
+    options: IRequestOptions = {}
   ): Promise<ICalendarEvent[]> {
     try {
       // Validate date range
@@ -280,36 +456,38 @@ export class CalendarService implements ICalendarService {
         return cachedEvents.slice(0, maxEvents);
       }
 
-      const allEvents: ICalendarEvent[] = [];
       const errors: string[] = [];
 
-      // Get events from SharePoint sources
-      const sharePointSources = sources.filter(s => s.type === CalendarSourceType.SharePoint);
-      if (sharePointSources.length > 0) {
+      // Each kind of source is queried at once; the scheduler bounds the requests in flight
+      const queryGroup = async <T extends ICalendarSource>(
+        type: CalendarSourceType,
+        name: string,
+        load: (groupSources: T[]) => Promise<ICalendarEvent[]>
+      ): Promise<ICalendarEvent[]> => {
+        const groupSources = sources.filter(s => s.type === type) as T[];
+        if (groupSources.length === 0) return [];
         try {
-          const sharePointEvents = await this.sharePointService.getEventsForDateRange(
-            sharePointSources, startDate, endDate, maxEvents
-          );
-          allEvents.push(...sharePointEvents);
+          return await load(groupSources);
         } catch (error) {
-          console.error('SharePoint date range query failed:', error);
-          errors.push('SharePoint query failed');
+          if (RequestScheduler.isAbortError(error)) throw error;
+          console.error(`${name} date range query failed:`, error);
+          errors.push(`${name} query failed`);
+          return [];
         }
-      }
+      };
 
-      // Get events from Exchange sources
-      const exchangeSources = sources.filter(s => s.type === CalendarSourceType.Exchange);
-      if (exchangeSources.length > 0) {
-        try {
-          const exchangeEvents = await this.exchangeService.getEventsForDateRange(
-            exchangeSources, startDate, endDate, maxEvents
-          );
-          allEvents.push(...exchangeEvents);
-        } catch (error) {
-          console.error('Exchange date range query failed:', error);
-          errors.push('Exchange query failed');
-        }
-      }
+      const groupEvents = await Promise.all([
+        queryGroup(CalendarSourceType.SharePoint, 'SharePoint', group =>
+          this.sharePointService.getEventsForDateRange(group, startDate, endDate, maxEvents, options)),
+        queryGroup<ISharePointListSource>(CalendarSourceType.SharePointList, 'SharePoint list', group =>
+          this.sharePointListService.getEventsForDateRange(group, startDate, endDate, maxEvents, options)),
+        queryGroup(CalendarSourceType.Exchange, 'Exchange', group =>
+          this.exchangeService.getEventsForDateRange(group, startDate, endDate, maxEvents, options)),
+        queryGroup(CalendarSourceType.ICS, 'Imported calendar', group =>
+          this.importedCalendarService.getEventsForDateRange(group, startDate, endDate, maxEvents))
+      ]);
+      const allEvents: ICalendarEvent[] = [];
+      groupEvents.forEach(events => allEvents.push(...events));
 
       // Remove duplicates and sort
       const uniqueEvents = this.removeDuplicateEvents(allEvents);
@@ -322,7 +500,9 @@ export class CalendarService implements ICalendarService {
 
       return limitedEvents;
     } catch (error) {
-      console.error('Error getting events for date range:', error);
+      if (!RequestScheduler.isAbortError(error)) {
+        console.error('Error getting events for date range:', error);
+      }
       throw error;
     }
   }
@@ -372,15 +552,15 @@ private convertToExtendedCalendarEvent(event: ICalendarEvent): IExtendedCalendar
       lastModified: undefined
     } as IEventAttachment)) || [],
     // Extended properties with default values
-    timeZone: 'UTC',
-    reminderMinutes: [],
+    timeZone: event.timeZone || 'UTC',
+    reminderMinutes: event.reminderMinutes || [],
     isPrivate: false,
     isCancelled: false,
     responseStatus: 'none',
     meetingType: 'standard',
     onlineMeetingUrl: undefined,
-    recurrencePattern: undefined,
-    exceptions: [],
+    recurrencePattern: event.recurrencePattern,
+    exceptions: event.exceptions || [],
     masterSeriesId: event.masterSeriesId,
     isException: event.isException,
     tags: event.tags || [],
@@ -388,24 +568,31 @@ private convertToExtendedCalendarEvent(event: ICalendarEvent): IExtendedCalendar
   };
 }
   /**
-   * Advanced search with criteria
+   * Advanced search with criteria. Events that are already loaded can be passed
+   * in to search them instead of fetching from the sources again.
    */
-public async advancedSearch(criteria: IEventSearchCriteria): Promise<IEventSearchResult> {
+public async advancedSearch(criteria: IEventSearchCriteria, loadedEvents?: ICalendarEvent[]): Promise<IEventSearchResult> {
   const startTime = Date.now();
   
   try {
-    // Get all events first (this could be optimized to filter at source level)
-    const sources = await this.getCalendarSources(true);
-    const filteredSources = criteria.calendarIds 
-      ? sources.filter(s => criteria.calendarIds!.includes(s.id))
-      : sources;
-
     let events: ICalendarEvent[] = [];
 
-    if (criteria.startDate && criteria.endDate) {
-      events = await this.getEventsForDateRange(filteredSources, criteria.startDate, criteria.endDate);
+    if (loadedEvents) {
+      events = criteria.calendarIds
+        ? loadedEvents.filter(event => criteria.calendarIds!.includes(event.calendarId))
+        : loadedEvents;
     } else {
-      events = await this.getEventsFromSources(filteredSources);
+      // Get all events first (this could be optimized to filter at source level)
+      const sources = await this.getCalendarSources(true);
+      const filteredSources = criteria.calendarIds 
+        ? sources.filter(s => criteria.calendarIds!.includes(s.id))
+        : sources;
+
+      if (criteria.startDate && criteria.endDate) {
+        events = await this.getEventsForDateRange(filteredSources, criteria.startDate, criteria.endDate);
+      } else {
+        events = await this.getEventsFromSources(filteredSources);
+      }
     }
 
     // Apply additional filters
@@ -416,6 +603,12 @@ public async advancedSearch(criteria: IEventSearchCriteria): Promise<IEventSearc
       filteredEvents = this.filterEventsByQuery(filteredEvents, criteria.query);
     }
 
+    // Structured queries from the search box carry negations and OR that the criteria cannot express
+    const searchQuery = criteria.customFilters?.searchQuery as ISearchTerm[][] | undefined;
+    if (searchQuery) {
+      filteredEvents = filteredEvents.filter(event => SearchQueryUtils.matchesQuery(event, searchQuery));
+    }
+
     // Convert ICalendarEvent[] to IExtendedCalendarEvent[]
     const extendedEvents: IExtendedCalendarEvent[] = filteredEvents.map(event => 
       this.convertToExtendedCalendarEvent(event)
@@ -460,6 +653,9 @@ public async advancedSearch(criteria: IEventSearchCriteria): Promise<IEventSearc
       // Route to appropriate service
       switch (source.type) {
         case CalendarSourceType.Exchange: {
+          // Timed events keep the zone they were entered in, so a series keeps its time across DST changes
+          const timeZone = eventData.isAllDay ? undefined : DateUtils.resolveTimeZone(eventData.timeZone) || DateUtils.getBrowserTimeZone();
+
           // Convert IEventCreateRequest to Record<string, unknown>
           const exchangeEventData: Record<string, unknown> = {
             subject: eventData.title,
@@ -468,12 +664,12 @@ public async advancedSearch(criteria: IEventSearchCriteria): Promise<IEventSearc
               contentType: 'html'
             },
             start: {
-              dateTime: eventData.start.toISOString(),
-              timeZone: 'UTC'
+              dateTime: DateUtils.toGraphDateTime(eventData.start, eventData.isAllDay, timeZone),
+              timeZone: timeZone || 'UTC'
             },
             end: {
-              dateTime: eventData.end.toISOString(),
-              timeZone: 'UTC'
+              dateTime: DateUtils.toGraphDateTime(eventData.end, eventData.isAllDay, timeZone),
+              timeZone: timeZone || 'UTC'
             },
             location: eventData.location ? {
               displayName: eventData.location
@@ -489,14 +685,24 @@ public async advancedSearch(criteria: IEventSearchCriteria): Promise<IEventSearc
                 name: attendee.name
               },
               type: attendee.type || 'required'
-            }))
+            })),
+            isReminderOn: !!eventData.reminders && eventData.reminders.length > 0,
+            reminderMinutesBeforeStart: eventData.reminders && eventData.reminders.length > 0
+              ? Math.max(...eventData.reminders.map(reminder => reminder.minutes))
+              : undefined,
+            recurrence: eventData.recurrence
+              ? RecurrenceUtils.toGraphRecurrence(eventData.recurrence, eventData.start, timeZone)
+              : undefined
           };
           
-          createdEvent = await this.exchangeService.createEvent(calendarId, exchangeEventData) || null;
+          createdEvent = await this.exchangeService.createEvent(source, exchangeEventData);
           break;
         }
-        case CalendarSourceType.SharePoint: {
-          throw new Error('SharePoint event creation not implemented');
+        case CalendarSourceType.SharePoint:
+        case CalendarSourceType.SharePointList: {
+          const itemId = await this.sharePointItemService.createItem(source, this.getFieldMapping(source), eventData);
+          createdEvent = await this.getSharePointEvent(source, itemId);
+          break;
         }
         default: {
           throw new Error(`Event creation not supported for calendar type: ${source.type}`);
@@ -507,8 +713,7 @@ public async advancedSearch(criteria: IEventSearchCriteria): Promise<IEventSearc
         throw new Error('Failed to create event');
       }
 
-      // Invalidate cache for this calendar
-      this.cacheService.clearCalendarSpecificCache(calendarId);
+      this.refreshCachedEvent(calendarId, createdEvent.id, createdEvent);
 
       return createdEvent;
     } catch (error) {
@@ -518,7 +723,9 @@ public async advancedSearch(criteria: IEventSearchCriteria): Promise<IEventSearc
   }
 
   /**
-   * Update an existing event (if supported by calendar type)
+   * Update an existing event (if supported by calendar type). A change to an
+   * occurrence of a series applies to that occurrence unless the request's
+   * edit scope says otherwise; "this and following" splits the series in two.
    */
   public async updateEvent?(calendarId: string, eventId: string, eventData: IEventUpdateRequest): Promise<ICalendarEvent> {
     try {
@@ -535,82 +742,42 @@ public async advancedSearch(criteria: IEventSearchCriteria): Promise<IEventSearc
         throw new Error('Calendar not found');
       }
 
-      let updatedEvent: ICalendarEvent | null = null;
-
-      // Route to appropriate service
-      switch (source.type) {
-        case CalendarSourceType.Exchange: {
-          // Convert IEventUpdateRequest to Record<string, unknown>
-          const exchangeUpdateData: Record<string, unknown> = {};
-          
-          if (eventData.title !== undefined) {
-            exchangeUpdateData.subject = eventData.title;
-          }
-          if (eventData.description !== undefined) {
-            exchangeUpdateData.body = {
-              content: eventData.description,
-              contentType: 'html'
-            };
-          }
-          if (eventData.start !== undefined) {
-            exchangeUpdateData.start = {
-              dateTime: eventData.start.toISOString(),
-              timeZone: 'UTC'
-            };
-          }
-          if (eventData.end !== undefined) {
-            exchangeUpdateData.end = {
-              dateTime: eventData.end.toISOString(),
-              timeZone: 'UTC'
-            };
-          }
-          if (eventData.location !== undefined) {
-            exchangeUpdateData.location = eventData.location ? {
-              displayName: eventData.location
-            } : null;
-          }
-          if (eventData.category !== undefined) {
-            exchangeUpdateData.categories = eventData.category ? [eventData.category] : [];
-          }
-          if (eventData.isAllDay !== undefined) {
-            exchangeUpdateData.isAllDay = eventData.isAllDay;
-          }
-          if (eventData.importance !== undefined) {
-            exchangeUpdateData.importance = eventData.importance;
-          }
-          if (eventData.sensitivity !== undefined) {
-            exchangeUpdateData.sensitivity = eventData.sensitivity;
-          }
-          if (eventData.showAs !== undefined) {
-            exchangeUpdateData.showAs = eventData.showAs;
-          }
-          if (eventData.attendees !== undefined) {
-            exchangeUpdateData.attendees = eventData.attendees.map(attendee => ({
-              emailAddress: {
-                address: attendee.email,
-                name: attendee.name
-              },
-              type: attendee.type || 'required'
-            }));
-          }
-          
-          updatedEvent = await this.exchangeService.updateEvent(calendarId, eventId, exchangeUpdateData) || null;
-          break;
-        }
-        case CalendarSourceType.SharePoint: {
-          throw new Error('SharePoint event update not implemented');
-        }
-        default: {
-          throw new Error(`Event update not supported for calendar type: ${source.type}`);
+      const scope: RecurringEditScope = eventData.editScope || (eventData.updateRecurringSeries ? 'series' : 'occurrence');
+      const occurrence = scope !== 'occurrence' || this.isExpandedOccurrence(source, eventId)
+        ? await this.getSeriesOccurrence(source, eventId)
+        : undefined;
+
+      let updatedEvent: ICalendarEvent;
+      if (!occurrence) {
+        updatedEvent = await this.updateSingleEvent(source, eventId, eventData);
+      } else {
+        this.checkSeriesVersion(occurrence, eventData.etag);
+        const masterId = occurrence.master.id;
+
+        if (scope === 'occurrence') {
+          // Only SharePoint gets here: an occurrence it has not stored yet becomes an exception item
+          const { start, end } = RecurrenceUtils.getOccurrenceTimes(occurrence, eventData);
+          const itemId = await this.sharePointItemService.createException(
+            source,
+            this.getListItemId(source, masterId),
+            occurrence.originalStart,
+            { ...this.toCreateRequest(occurrence.master), ...eventData, start, end, calendarId: source.id, recurrence: undefined },
+            false
+          );
+          updatedEvent = await this.getSharePointEvent(source, itemId);
+        } else if (scope === 'series' || this.isFirstOccurrence(occurrence)) {
+          updatedEvent = await this.updateSingleEvent(source, masterId, {
+            ...eventData,
+            ...RecurrenceUtils.moveSeries(occurrence, eventData),
+            id: masterId,
+            etag: occurrence.master.etag
+          });
+        } else {
+          updatedEvent = await this.splitSeries(source, occurrence, eventData);
         }
       }
 
-      if (!updatedEvent) {
-        throw new Error('Failed to update event');
-      }
-
-      // Invalidate cache for this calendar
-      this.cacheService.clearCalendarSpecificCache(calendarId);
+      this.refreshCachedEvent(calendarId, eventId, updatedEvent);
 
       return updatedEvent;
     } catch (error) {
@@ -620,9 +787,11 @@ public async advancedSearch(criteria: IEventSearchCriteria): Promise<IEventSearc
   }
 
   /**
-   * Delete an event (if supported by calendar type)
+   * Delete an event (if supported by calendar type). SharePoint items are
+   * deleted against the etag they were loaded with. Deleting an occurrence of
+   * a series only removes that occurrence unless a wider scope is given.
    */
-  public async deleteEvent?(calendarId: string, eventId: string): Promise<boolean> {
+  public async deleteEvent?(calendarId: string, eventId: string, etag?: string, scope: RecurringEditScope = 'occurrence'): Promise<boolean> {
     try {
       // Find the calendar source
       const sources = await this.getCalendarSources(true);
@@ -631,34 +800,384 @@ public async advancedSearch(criteria: IEventSearchCriteria): Promise<IEventSearc
         throw new Error('Calendar not found');
       }
 
-      let deleted = false;
+      // Edited SharePoint occurrences are looked up too, as deleting one must not bring back the original
+      const occurrence = scope !== 'occurrence' || source.type === CalendarSourceType.SharePoint
+        ? await this.getSeriesOccurrence(source, eventId)
+        : undefined;
 
-      // Route to appropriate service
-      switch (source.type) {
-        case CalendarSourceType.Exchange: {
-          deleted = await this.exchangeService.deleteEvent(calendarId, eventId);
-          break;
+      if (!occurrence) {
+        await this.deleteSingleEvent(source, eventId, etag);
+        this.refreshCachedEvent(calendarId, eventId);
+        return true;
+      }
+
+      this.checkSeriesVersion(occurrence, etag);
+      const master = occurrence.master;
+
+      if (scope === 'occurrence') {
+        if (source.type === CalendarSourceType.Exchange) {
+          await this.deleteSingleEvent(source, eventId, etag);
+        } else if (occurrence.occurrenceItem) {
+          if (!etag) {
+            throw new Error('The version of the event being deleted is required');
+          }
+          await this.sharePointItemService.deleteException(source, this.getListItemId(source, eventId), etag);
+        } else {
+          await this.sharePointItemService.createException(
+            source,
+            this.getListItemId(source, master.id),
+            occurrence.originalStart,
+            { ...this.toCreateRequest(master), ...RecurrenceUtils.getOccurrenceTimes(occurrence, {}) },
+            true
+          );
         }
-        case CalendarSourceType.SharePoint: {
-          throw new Error('SharePoint event deletion not implemented');
+        this.refreshCachedEvent(calendarId, eventId);
+      } else if (scope === 'series' || this.isFirstOccurrence(occurrence)) {
+        await this.deleteSingleEvent(source, master.id, master.etag);
+        this.refreshCachedEvent(calendarId, master.id);
+      } else {
+        await this.endSeriesBefore(source, occurrence);
+        this.cacheService.clearCalendarSpecificCache(calendarId);
+      }
+
+      return true;
+    } catch (error) {
+      console.error('Error deleting event:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Apply a change to one stored event, whether a single event, a series master or an occurrence
+   */
+  private async updateSingleEvent(source: ICalendarSource, eventId: string, eventData: IEventUpdateRequest): Promise<ICalendarEvent> {
+    switch (source.type) {
+      case CalendarSourceType.Exchange: {
+        // Convert IEventUpdateRequest to Record<string, unknown>
+        const exchangeUpdateData: Record<string, unknown> = {};
+        
+        if (eventData.title !== undefined) {
+          exchangeUpdateData.subject = eventData.title;
         }
-        default: {
-          throw new Error(`Event deletion not supported for calendar type: ${source.type}`);
+        if (eventData.description !== undefined) {
+          exchangeUpdateData.body = {
+            content: eventData.description,
+            contentType: 'html'
+          };
+        }
+        // Times are written in the event's own zone, so a series keeps its time across DST changes
+        const current = eventData.start !== undefined || eventData.end !== undefined || eventData.recurrence
+          ? await this.exchangeService.getEventById(source, eventId)
+          : undefined;
+        const isAllDay = eventData.isAllDay ?? current?.isAllDay;
+        const timeZone = current && !isAllDay ? DateUtils.resolveTimeZone(current.timeZone) || DateUtils.getBrowserTimeZone() : undefined;
+        if (eventData.start !== undefined) {
+          exchangeUpdateData.start = {
+            dateTime: DateUtils.toGraphDateTime(eventData.start, isAllDay, timeZone),
+            timeZone: timeZone || 'UTC'
+          };
+        }
+        if (eventData.end !== undefined) {
+          exchangeUpdateData.end = {
+            dateTime: DateUtils.toGraphDateTime(eventData.end, isAllDay, timeZone),
+            timeZone: timeZone || 'UTC'
+          };
+        }
+        if (eventData.location !== undefined) {
+          exchangeUpdateData.location = eventData.location ? {
+            displayName: eventData.location
+          } : null;
+        }
+        if (eventData.category !== undefined) {
+          exchangeUpdateData.categories = eventData.category ? [eventData.category] : [];
+        }
+        if (eventData.isAllDay !== undefined) {
+          exchangeUpdateData.isAllDay = eventData.isAllDay;
+        }
+        if (eventData.importance !== undefined) {
+          exchangeUpdateData.importance = eventData.importance;
+        }
+        if (eventData.sensitivity !== undefined) {
+          exchangeUpdateData.sensitivity = eventData.sensitivity;
         }
+        if (eventData.showAs !== undefined) {
+          exchangeUpdateData.showAs = eventData.showAs;
+        }
+        if (eventData.attendees !== undefined) {
+          exchangeUpdateData.attendees = eventData.attendees.map(attendee => ({
+            emailAddress: {
+              address: attendee.email,
+              name: attendee.name
+            },
+            type: attendee.type || 'required'
+          }));
+        }
+        
+        if (eventData.recurrence && current) {
+          exchangeUpdateData.recurrence = RecurrenceUtils.toGraphRecurrence(eventData.recurrence, eventData.start || current.start, timeZone);
+        }
+
+        return this.exchangeService.updateEvent(source, eventId, exchangeUpdateData);
       }
+      case CalendarSourceType.SharePoint:
+      case CalendarSourceType.SharePointList: {
+        const itemId = this.getListItemId(source, eventId);
+        if (!eventData.etag) {
+          throw new Error('The version of the event being changed is required');
+        }
 
-      if (deleted) {
-        // Invalidate cache for this calendar
-        this.cacheService.clearCalendarSpecificCache(calendarId);
+        // Dates are written in the item's all-day form, and moving a series
+        // master recalculates where the series ends
+        const current = await this.getSharePointEvent(source, itemId);
+        const changes: Partial<IEventCreateRequest> = { ...eventData };
+        if (changes.isAllDay === undefined) {
+          changes.isAllDay = current.isAllDay;
+        }
+        if (!changes.recurrence && current.recurrencePattern && (changes.start || changes.end)) {
+          changes.recurrence = current.recurrencePattern;
+        }
+        if (changes.recurrence) {
+          changes.start = changes.start || current.start;
+          changes.end = changes.end || current.end;
+        }
+
+        await this.sharePointItemService.updateItem(source, this.getFieldMapping(source), itemId, changes, eventData.etag);
+        return this.getSharePointEvent(source, itemId);
+      }
+      default: {
+        throw new Error(`Event update not supported for calendar type: ${source.type}`);
       }
+    }
+  }
 
-      return deleted;
+  private async deleteSingleEvent(source: ICalendarSource, eventId: string, etag?: string): Promise<void> {
+    switch (source.type) {
+      case CalendarSourceType.Exchange: {
+        await this.exchangeService.deleteEvent(source, eventId);
+        break;
+      }
+      case CalendarSourceType.SharePoint:
+      case CalendarSourceType.SharePointList: {
+        if (!etag) {
+          throw new Error('The version of the event being deleted is required');
+        }
+        await this.sharePointItemService.deleteItem(source, this.getListItemId(source, eventId), etag);
+        break;
+      }
+      default: {
+        throw new Error(`Event deletion not supported for calendar type: ${source.type}`);
+      }
+    }
+  }
+
+  /**
+   * SharePoint only stores the series, so its occurrences have IDs made up from the series ID and date
+   */
+  private isExpandedOccurrence(source: ICalendarSource, eventId: string): boolean {
+    return source.type === CalendarSourceType.SharePoint && eventId.indexOf(OCCURRENCE_ID_MARKER) !== -1;
+  }
+
+  /**
+   * Find the series an event is an occurrence of; returns nothing for events that are not occurrences
+   */
+  private async getSeriesOccurrence(source: ICalendarSource, eventId: string): Promise<ISeriesOccurrence | undefined> {
+    if (source.type === CalendarSourceType.Exchange) {
+      const event = await this.exchangeService.getEventById(source, eventId);
+      if (!event.masterSeriesId) return undefined;
+
+      return {
+        master: await this.exchangeService.getEventById(source, event.masterSeriesId),
+        originalStart: event.originalStart || event.start,
+        occurrenceItem: event
+      };
+    }
+
+    if (this.isExpandedOccurrence(source, eventId)) {
+      const markerIndex = eventId.indexOf(OCCURRENCE_ID_MARKER);
+      const master = await this.getSharePointEvent(source, this.getListItemId(source, eventId.substring(0, markerIndex)));
+      return {
+        master,
+        originalStart: this.getExpandedOccurrenceStart(master, eventId.substring(markerIndex + OCCURRENCE_ID_MARKER.length))
+      };
+    }
+
+    const event = await this.getSharePointEvent(source, this.getListItemId(source, eventId));
+    if (!event.isException || !event.masterSeriesId) return undefined;
+
+    return {
+      master: await this.getSharePointEvent(source, this.getListItemId(source, event.masterSeriesId)),
+      originalStart: event.originalStart || event.start,
+      occurrenceItem: event
+    };
+  }
+
+  /**
+   * Start of an expanded SharePoint occurrence: the series' time of day, in the
+   * site's zone, on the date in its ID
+   */
+  private getExpandedOccurrenceStart(master: ICalendarEvent, occurrenceDate: string): Date {
+    const seriesTimeZone = RecurrenceUtils.getSeriesTimeZone(master);
+    const seriesStart = DateUtils.convertToUserTimezone(master.start, seriesTimeZone);
+    const occurrenceStart = moment(occurrenceDate, 'YYYYMMDD')
+      .hours(seriesStart.getHours())
+      .minutes(seriesStart.getMinutes())
+      .toDate();
+    return DateUtils.convertFromUserTimezone(occurrenceStart, seriesTimeZone);
+  }
+
+  /**
+   * Occurrences expanded from a SharePoint series carry the series' etag, so a
+   * change to the series since they were loaded can be caught
+   */
+  private checkSeriesVersion(occurrence: ISeriesOccurrence, etag?: string): void {
+    if (!occurrence.occurrenceItem && etag && occurrence.master.etag && etag !== occurrence.master.etag) {
+      throw new Error(AppConstants.ERROR_MESSAGES.EVENT_CHANGED);
+    }
+  }
+
+  private isFirstOccurrence(occurrence: ISeriesOccurrence): boolean {
+    return occurrence.originalStart.getTime() <= occurrence.master.start.getTime();
+  }
+
+  private getSeriesPattern(master: ICalendarEvent): IRecurrencePattern {
+    if (!master.recurrencePattern) {
+      throw new Error(`The repeat rule of "${master.title}" could not be read`);
+    }
+    return master.recurrencePattern;
+  }
+
+  /**
+   * End a series before an occurrence, dropping the changes stored for the
+   * occurrences that no longer belong to it. Returns the shortened series.
+   */
+  private async endSeriesBefore(source: ICalendarSource, occurrence: ISeriesOccurrence): Promise<ICalendarEvent> {
+    const { master, originalStart } = occurrence;
+    const { before } = RecurrenceUtils.splitPattern(
+      this.getSeriesPattern(master), master.start, originalStart, originalStart, RecurrenceUtils.getSeriesTimeZone(master)
+    );
+
+    const truncated = await this.updateSingleEvent(source, master.id, {
+      id: master.id,
+      start: master.start,
+      end: master.end,
+      isAllDay: master.isAllDay,
+      recurrence: before,
+      etag: master.etag
+    });
+
+    if (source.type === CalendarSourceType.SharePoint) {
+      await this.sharePointItemService.deleteExceptionsFrom(source, this.getListItemId(source, master.id), originalStart, master.isAllDay);
+    }
+
+    return truncated;
+  }
+
+  /**
+   * Apply a change to an occurrence and the ones after it: the series ends
+   * before the occurrence and a new series with the change takes over from it
+   */
+  private async splitSeries(source: ICalendarSource, occurrence: ISeriesOccurrence, eventData: IEventUpdateRequest): Promise<ICalendarEvent> {
+    const { master, originalStart } = occurrence;
+    const pattern = this.getSeriesPattern(master);
+    const truncated = await this.endSeriesBefore(source, occurrence);
+    const { start, end } = RecurrenceUtils.getOccurrenceTimes(occurrence, eventData);
+    const recurrence = eventData.recurrence ||
+      RecurrenceUtils.splitPattern(pattern, master.start, originalStart, start, RecurrenceUtils.getSeriesTimeZone(master)).after;
+
+    try {
+      return await this.createEvent!(source.id, {
+        ...this.toCreateRequest(master),
+        ...eventData,
+        start,
+        end,
+        recurrence,
+        calendarId: source.id
+      });
     } catch (error) {
-      console.error('Error deleting event:', error);
+      // Put the original series back rather than lose the rest of it
+      await this.updateSingleEvent(source, master.id, {
+        id: master.id,
+        start: master.start,
+        end: master.end,
+        isAllDay: master.isAllDay,
+        recurrence: pattern,
+        etag: truncated.etag
+      }).catch(restoreError => console.error('Could not restore series after a failed split:', restoreError));
       throw error;
     }
   }
 
+  /**
+   * Fields of an existing event as a request to create one like it
+   */
+  private toCreateRequest(event: ICalendarEvent): IEventCreateRequest {
+    return {
+      title: event.title,
+      description: event.description,
+      start: event.start,
+      end: event.end,
+      location: event.location,
+      category: event.category,
+      isAllDay: event.isAllDay,
+      calendarId: event.calendarId,
+      attendees: event.attendees,
+      reminders: event.reminderMinutes?.map(minutes => ({ minutes, method: 'popup' as const })),
+      importance: event.importance,
+      sensitivity: event.sensitivity,
+      showAs: event.showAs,
+      timeZone: event.timeZone
+    };
+  }
+
+  /**
+   * Field mapping used to write events to a SharePoint list
+   */
+  private getFieldMapping(source: ICalendarSource): IFieldMapping {
+    if (source.type === CalendarSourceType.SharePoint) {
+      return SharePointItemService.EVENTS_LIST_MAPPING;
+    }
+
+    const mapping = (source as ISharePointListSource).fieldMappings;
+    if (!mapping) {
+      throw new Error(`${source.title} has no field mapping for events`);
+    }
+    return mapping;
+  }
+
+  /**
+   * Read the list item ID from the ID of a SharePoint event
+   */
+  private getListItemId(source: ICalendarSource, eventId: string): number {
+    if (eventId.indexOf(OCCURRENCE_ID_MARKER) !== -1) {
+      throw new Error(`Event ${eventId} is an occurrence of a series`);
+    }
+
+    const prefix = source.type === CalendarSourceType.SharePointList ? `sp_list_${source.id}_` : `sp_${source.id}_`;
+    const itemId = eventId.indexOf(prefix) === 0 ? eventId.substring(prefix.length) : '';
+    if (!/^\d+$/.test(itemId)) {
+      throw new Error(`Event ${eventId} does not belong to ${source.title}`);
+    }
+    return Number(itemId);
+  }
+
+  private async getSharePointEvent(source: ICalendarSource, itemId: number): Promise<ICalendarEvent> {
+    return source.type === CalendarSourceType.SharePointList
+      ? this.sharePointListService.getEventById(source as ISharePointListSource, itemId)
+      : this.sharePointService.getEventById(source, itemId);
+  }
+
+  /**
+   * Bring the cache up to date after a change to one event. A series is
+   * reloaded as a whole, since its occurrences are expanded from the master.
+   */
+  private refreshCachedEvent(calendarId: string, eventId: string, event?: ICalendarEvent): void {
+    if (event?.isRecurring) {
+      this.cacheService.clearCalendarSpecificCache(calendarId);
+    } else {
+      this.cacheService.updateCachedEvent(calendarId, eventId, event);
+    }
+  }
+
   /**
    * Get calendar statistics
    */
@@ -672,6 +1191,10 @@ public async advancedSearch(criteria: IEventSearchCriteria): Promise<IEventSearc
             statistics[source.id] = await this.sharePointService.getCalendarStatistics(source);
             break;
           }
+          case CalendarSourceType.SharePointList: {
+            statistics[source.id] = await this.sharePointListService.getCalendarStatistics(source as ISharePointListSource);
+            break;
+          }
           case CalendarSourceType.Exchange: {
             statistics[source.id] = await this.exchangeService.getCalendarStatistics(source.id);
             break;
@@ -687,34 +1210,45 @@ public async advancedSearch(criteria: IEventSearchCriteria): Promise<IEventSearc
   }
 
   /**
-   * Get user's free/busy information
+   * Get the free/busy schedule of each attendee; only Exchange mailboxes publish one
    */
-  public async getFreeBusyInfo(
-    calendarIds: string[], 
-    startDate: Date, 
-    endDate: Date
-  ): Promise<{ [calendarId: string]: Record<string, unknown> }> {
-    const freeBusyData: { [calendarId: string]: Record<string, unknown> } = {};
+  public async getFreeBusyInfo(query: IFreeBusyQuery): Promise<IFreeBusyResult[]> {
+    const invalid = query.attendees.filter(email => !ValidationUtils.isValidEmail(email));
+    if (invalid.length > 0) {
+      throw new Error(`Invalid attendee email: ${invalid.join(', ')}`);
+    }
+
+    const rangeValidation = ValidationUtils.validateDateRange(query.startDate, query.endDate);
+    if (!rangeValidation.isValid) {
+      throw new Error(rangeValidation.errors.map(e => e.message).join(', '));
+    }
 
     try {
-      // Currently only supported for Exchange calendars
-      const freeBusyInfo = await this.exchangeService.getFreeBusyInfo(calendarIds, startDate, endDate);
-      if (freeBusyInfo) {
-        freeBusyInfo.forEach((info: Record<string, unknown>, index: number) => {
-          freeBusyData[calendarIds[index]] = info;
-        });
-      }
+      return await this.exchangeService.getFreeBusyInfo(query);
     } catch (error) {
       console.error('Error getting free/busy information:', error);
+      throw error;
     }
+  }
 
-    return freeBusyData;
+  /**
+   * Get the room lists of the organisation
+   */
+  public async getRoomLists(): Promise<IRoomList[]> {
+    return this.roomService.getRoomLists();
   }
 
   /**
-   * Get working hours for the current user
+   * Find meeting rooms, marking whether each is free for the slot when one is given
    */
-  public async getUserWorkingHours(): Promise<Record<string, unknown> | undefined> {
+  public async findRooms(criteria: IRoomSearchCriteria, start?: Date, end?: Date): Promise<IMeetingRoom[]> {
+    return this.roomService.findRooms(criteria, start, end);
+  }
+
+  /**
+   * Get working hours for the current user from their mailbox settings
+   */
+  public async getUserWorkingHours(): Promise<IWorkingHours | undefined> {
     try {
       return await this.exchangeService.getUserWorkingHours();
     } catch (error) {
@@ -735,6 +1269,22 @@ public async advancedSearch(criteria: IEventSearchCriteria): Promise<IEventSearc
     }
   }
 
+  /**
+   * Get the zone to display events in by default: the user's mailbox zone,
+   * then the current site's regional settings, then the browser's zone
+   */
+  public async getDefaultDisplayTimeZone(includeExchange: boolean = true): Promise<string> {
+    if (includeExchange) {
+      const userTimeZone = DateUtils.resolveTimeZone(await this.getUserTimeZone());
+      if (userTimeZone) {
+        return userTimeZone;
+      }
+    }
+
+    const siteTimeZone = await this.regionalSettings.getSiteTimeZone();
+    return siteTimeZone || DateUtils.getBrowserTimeZone();
+  }
+
   /**
    * Check Graph API access
    */
@@ -754,44 +1304,101 @@ public async advancedSearch(criteria: IEventSearchCriteria): Promise<IEventSearc
     sources: ICalendarSource[], 
     startDate: Date, 
     endDate: Date
-  ): Promise<{ event1: ICalendarEvent; event2: ICalendarEvent; overlapMinutes: number }[]> {
+  ): Promise<IEventConflict[]> {
     try {
       const events = await this.getEventsForDateRange(sources, startDate, endDate);
-      const conflicts: { event1: ICalendarEvent; event2: ICalendarEvent; overlapMinutes: number }[] = [];
-
-      // Find overlapping events
-      for (let i = 0; i < events.length; i++) {
-        for (let j = i + 1; j < events.length; j++) {
-          const event1 = events[i];
-          const event2 = events[j];
-
-          // Skip all-day events for conflict detection
-          if (event1.isAllDay || event2.isAllDay) continue;
-
-          // Check for overlap
-          const overlap = this.calculateEventOverlap(event1, event2);
-          if (overlap > 0) {
-            conflicts.push({
-              event1,
-              event2,
-              overlapMinutes: overlap
-            });
-          }
-        }
-      }
-
-      return conflicts;
+      return ConflictUtils.findConflicts(events);
     } catch (error) {
       console.error('Error getting event conflicts:', error);
       return [];
     }
   }
 
+  /**
+   * Import an .ics file as a read-only calendar source for the current user
+   */
+  public importCalendar(fileName: string, content: string): { source?: ICalendarSource; result: IEventImportResult } {
+    return this.importedCalendarService.importCalendar(fileName, content);
+  }
+
+  /**
+   * Remove an imported calendar and its cached events
+   */
+  public removeImportedCalendar(calendarId: string): void {
+    this.importedCalendarService.removeImportedCalendar(calendarId);
+    this.sourceHealthService.clearSourceHealth(calendarId);
+    this.cacheService.clearCalendarSpecificCache(calendarId);
+  }
+
+  /**
+   * Show or hide an imported calendar
+   */
+  public setImportedCalendarEnabled(calendarId: string, isEnabled: boolean): void {
+    this.importedCalendarService.setCalendarEnabled(calendarId, isEnabled);
+  }
+
+  /**
+   * Probe a calendar source and add the result to its health history
+   */
+  public async checkSourceHealth(source: ICalendarSource): Promise<ISourceHealth> {
+    return this.sourceHealthService.checkSource(source);
+  }
+
+  /**
+   * Get the recorded health of a calendar source without probing it
+   */
+  public getSourceHealth(calendarId: string): ISourceHealth | undefined {
+    return this.sourceHealthService.getSourceHealth(calendarId);
+  }
+
+  /**
+   * Get the calendars the current user chose for themselves, or undefined when they follow the page
+   */
+  public getUserSourceSelection(): string[] | undefined {
+    return this.sourceSelectionService.getUserSelection();
+  }
+
+  /**
+   * Keep a calendar selection for the current user without changing the page
+   */
+  public setUserSourceSelection(calendarIds: string[]): void {
+    this.sourceSelectionService.setUserSelection(calendarIds);
+  }
+
+  /**
+   * Drop the current user's own selection so the page's selection applies again
+   */
+  public clearUserSourceSelection(): void {
+    this.sourceSelectionService.clearUserSelection();
+  }
+
+  /**
+   * Preferences to use until the current user's own have loaded
+   */
+  public getDefaultUserPreferences(defaultView?: CalendarViewType): IUserPreferences {
+    return this.userPreferencesService.getDefaultPreferences(defaultView);
+  }
+
+  /**
+   * Load the current user's preferences; roaming copies need Microsoft Graph
+   */
+  public async loadUserPreferences(useGraph: boolean, defaultView?: CalendarViewType): Promise<IUserPreferences> {
+    return this.userPreferencesService.loadPreferences(useGraph, defaultView);
+  }
+
+  /**
+   * Save the current user's preferences and report where they were kept
+   */
+  public async saveUserPreferences(preferences: IUserPreferences, useGraph: boolean): Promise<PreferencesLocation> {
+    return this.userPreferencesService.savePreferences(preferences, useGraph);
+  }
+
   /**
    * Clear all cached data
    */
   public clearCache(): void {
     this.cacheService.clearCalendarCache();
+    this.syncService.resetSync();
   }
 
   /**
@@ -799,6 +1406,15 @@ public async advancedSearch(criteria: IEventSearchCriteria): Promise<IEventSearc
    */
   public clearCalendarCache(calendarId: string): void {
     this.cacheService.clearCalendarSpecificCache(calendarId);
+    this.syncService.resetSync(calendarId);
+  }
+
+  /**
+   * Outcome of the last sync of a calendar: when it ran, whether only changes
+   * were read and how many events were added, updated and deleted
+   */
+  public getSyncStatus(calendarId: string): ICalendarSyncStatus | undefined {
+    return this.syncService.getSyncStatus(calendarId);
   }
 
   /**
@@ -884,21 +1500,15 @@ public async advancedSearch(criteria: IEventSearchCriteria): Promise<IEventSearc
   }
 
   /**
-   * Remove duplicate events based on title, start time, and organizer
+   * Remove events read more than once, such as from overlapping queries
    */
   private removeDuplicateEvents(events: ICalendarEvent[]): ICalendarEvent[] {
     const seen = new Set<string>();
-    const uniqueEvents: ICalendarEvent[] = [];
-
-    for (const event of events) {
-      const key = `${event.title}_${event.start.getTime()}_${event.organizer}`.toLowerCase();
-      if (!seen.has(key)) {
-        seen.add(key);
-        uniqueEvents.push(event);
-      }
-    }
-
-    return uniqueEvents;
+    return events.filter(event => {
+      if (seen.has(event.id)) return false;
+      seen.add(event.id);
+      return true;
+    });
   }
 
   /**
@@ -907,10 +1517,19 @@ public async advancedSearch(criteria: IEventSearchCriteria): Promise<IEventSearc
   private applyAdvancedFilters(events: ICalendarEvent[], criteria: IEventSearchCriteria): ICalendarEvent[] {
     let filtered = events;
 
+    // Filter by date range
+    if (criteria.startDate) {
+      filtered = filtered.filter(event => event.end >= criteria.startDate!);
+    }
+    if (criteria.endDate) {
+      filtered = filtered.filter(event => event.start <= criteria.endDate!);
+    }
+
     // Filter by categories
     if (criteria.categories && criteria.categories.length > 0) {
+      const categories = criteria.categories.map(category => category.toLowerCase());
       filtered = filtered.filter(event => 
-        event.category && criteria.categories!.includes(event.category)
+        event.category && categories.includes(event.category.toLowerCase())
       );
     }
 
@@ -937,15 +1556,17 @@ public async advancedSearch(criteria: IEventSearchCriteria): Promise<IEventSearc
 
     // Filter by importance
     if (criteria.importance && criteria.importance.length > 0) {
+      const importance = criteria.importance.map(level => level.toLowerCase());
       filtered = filtered.filter(event => 
-        event.importance && criteria.importance!.includes(event.importance)
+        importance.includes((event.importance || 'normal').toLowerCase())
       );
     }
 
     // Filter by sensitivity
     if (criteria.sensitivity && criteria.sensitivity.length > 0) {
+      const sensitivity = criteria.sensitivity.map(level => level.toLowerCase());
       filtered = filtered.filter(event => 
-        event.sensitivity && criteria.sensitivity!.includes(event.sensitivity)
+        sensitivity.includes((event.sensitivity || 'normal').toLowerCase())
       );
     }
 
@@ -970,9 +1591,10 @@ public async advancedSearch(criteria: IEventSearchCriteria): Promise<IEventSearc
 
     // Filter by tags
     if (criteria.tags && criteria.tags.length > 0) {
+      const tags = criteria.tags.map(tag => tag.toLowerCase());
       filtered = filtered.filter(event => 
         event.tags && event.tags.some(tag => 
-          criteria.tags!.includes(tag)
+          tags.includes(tag.toLowerCase())
         )
       );
     }
@@ -1000,28 +1622,6 @@ public async advancedSearch(criteria: IEventSearchCriteria): Promise<IEventSearc
     });
   }
 
-  /**
-   * Calculate overlap between two events in minutes
-   */
-  private calculateEventOverlap(event1: ICalendarEvent, event2: ICalendarEvent): number {
-    const start1 = event1.start.getTime();
-    const end1 = event1.end.getTime();
-    const start2 = event2.start.getTime();
-    const end2 = event2.end.getTime();
-
-    // No overlap if one event ends before the other starts
-    if (end1 <= start2 || end2 <= start1) {
-      return 0;
-    }
-
-    // Calculate overlap
-    const overlapStart = Math.max(start1, start2);
-    const overlapEnd = Math.min(end1, end2);
-    const overlapMs = overlapEnd - overlapStart;
-
-    return Math.max(0, Math.floor(overlapMs / (1000 * 60))); // Convert to minutes
-  }
-
   /**
    * Get service health status
    */
@@ -1209,7 +1809,7 @@ public async advancedSearch(criteria: IEventSearchCriteria): Promise<IEventSearc
       recommendations.availableSlots = this.findAvailableSlots(
         events,
         targetDate,
-        workingHours || { startTime: '09:00', endTime: '17:00', daysOfWeek: [1, 2, 3, 4, 5] }
+        workingHours || this.getDefaultUserPreferences().workingHours
       );
 
       // Generate conflict warnings
@@ -1217,7 +1817,7 @@ public async advancedSearch(criteria: IEventSearchCriteria): Promise<IEventSearc
       conflicts.forEach(conflict => {
         recommendations.conflictWarnings.push({
           message: `Potential conflict between "${conflict.event1.title}" and "${conflict.event2.title}"`,
-          severity: conflict.overlapMinutes > 60 ? 'high' : conflict.overlapMinutes > 30 ? 'medium' : 'low'
+          severity: (conflict.overlapDuration || 0) > 60 ? 'high' : (conflict.overlapDuration || 0) > 30 ? 'medium' : 'low'
         });
       });
 
@@ -1272,7 +1872,7 @@ public async advancedSearch(criteria: IEventSearchCriteria): Promise<IEventSearc
           }
           case 'delete': {
             if (operation.eventId) {
-              await this.deleteEvent!(operation.calendarId, operation.eventId);
+              await this.deleteEvent!(operation.calendarId, operation.eventId, (operation.eventData as IEventUpdateRequest | undefined)?.etag);
               results.successful++;
             }
             break;
@@ -1297,16 +1897,17 @@ public async advancedSearch(criteria: IEventSearchCriteria): Promise<IEventSearc
     sources: ICalendarSource[],
     startDate: Date,
     endDate: Date,
-    format: 'ics' | 'csv' | 'json'
-  ): Promise<{ data: string; filename: string; mimeType: string }> {
+    format: ExportFormat | 'ics' | 'csv' | 'json' | 'xlsx'
+  ): Promise<{ data: string | Blob; filename: string; mimeType: string }> {
     try {
       const events = await this.getEventsForDateRange(sources, startDate, endDate);
       const dateRange = `${DateUtils.formatDate(startDate, 'YYYY-MM-DD')}_to_${DateUtils.formatDate(endDate, 'YYYY-MM-DD')}`;
 
       switch (format) {
         case 'ics': {
-          // Use the public exportToICS method and capture the content
-          const icsContent = this.generateICSContent(events);
+          // Exchange occurrences need their series master's rule to be exported as one series
+          const icsEvents = await this.exchangeService.attachSeriesRecurrence(events, sources);
+          const icsContent = ExportUtils.generateICSContent(icsEvents);
           return {
             data: icsContent,
             filename: `calendar_events_${dateRange}.ics`,
@@ -1334,6 +1935,13 @@ public async advancedSearch(criteria: IEventSearchCriteria): Promise<IEventSearc
             mimeType: 'application/json'
           };
         }
+        case 'xlsx': {
+          return {
+            data: ExportUtils.generateExcelWorkbook(events),
+            filename: `calendar_events_${dateRange}.xlsx`,
+            mimeType: XlsxUtils.MIME_TYPE
+          };
+        }
         default: {
           throw new Error(`Unsupported export format: ${format}`);
         }
@@ -1346,11 +1954,6 @@ public async advancedSearch(criteria: IEventSearchCriteria): Promise<IEventSearc
 
   // ... Rest of the private helper methods continue here
 
-  private generateICSContent(events: ICalendarEvent[]): string {
-    // Implementation for ICS generation
-    return 'ICS content generation not implemented in this snippet';
-  }
-
   private generateCSVContent(events: ICalendarEvent[]): string {
     // Implementation for CSV generation
     return 'CSV content generation not implemented in this snippet';
@@ -1368,7 +1971,7 @@ public async advancedSearch(criteria: IEventSearchCriteria): Promise<IEventSearc
   private findAvailableSlots(
     events: ICalendarEvent[],
     targetDate: Date,
-    workingHours: Record<string, unknown>
+    workingHours: IWorkingHours
   ): Array<{ start: Date; end: Date; duration: number }> {
     // Implementation for finding available slots
     return [];
@@ -0,0 +1,205 @@
+jest.mock('@microsoft/sp-http', () => ({ SPHttpClient: { configurations: { v1: {} } } }));
+
+import { WebPartContext } from '@microsoft/sp-webpart-base';
+import { CalendarSyncService } from './CalendarSyncService';
+import { SharePointCalendarService } from './SharePointCalendarService';
+import { SharePointChangeService } from './SharePointChangeService';
+import { ExchangeCalendarService } from './ExchangeCalendarService';
+import { ICalendarEvent, ICalendarSource, CalendarSourceType } from '../models/ICalendarModels';
+import { AppConstants } from '../constants/AppConstants';
+
+const context = {} as WebPartContext;
+
+const createSource = (type: CalendarSourceType, changes: Partial<ICalendarSource> = {}): ICalendarSource => ({
+  id: 'calendar',
+  title: 'Calendar',
+  description: '',
+  type,
+  url: '',
+  siteTitle: 'Team',
+  siteUrl: 'https://contoso.sharepoint.com/sites/team',
+  color: '#0078d4',
+  isEnabled: true,
+  ...changes
+});
+
+const createEvent = (id: string, day: number, changes: Partial<ICalendarEvent> = {}): ICalendarEvent => ({
+  id,
+  title: id,
+  start: new Date(2026, 2, day, 9, 0),
+  end: new Date(2026, 2, day, 10, 0),
+  isAllDay: false,
+  calendarId: 'calendar',
+  calendarTitle: 'Calendar',
+  calendarType: CalendarSourceType.SharePoint,
+  color: '#0078d4',
+  created: new Date(2026, 0, 1),
+  modified: new Date(2026, 0, 1),
+  ...changes
+} as ICalendarEvent);
+
+const ids = (events: ICalendarEvent[]): string[] => events.map(event => event.id);
+
+afterEach(() => jest.restoreAllMocks());
+
+describe('CalendarSyncService with SharePoint calendars', () => {
+  const source = createSource(CalendarSourceType.SharePoint);
+  let getEventsFromCalendar: jest.SpyInstance;
+  let getItemChanges: jest.SpyInstance;
+  let getEventsForItems: jest.SpyInstance;
+
+  // A calendar with a single event, a daily series expanded over two days and an edited occurrence of it
+  beforeEach(() => {
+    jest.spyOn(SharePointChangeService.prototype, 'getCurrentChangeToken').mockResolvedValue('token-1');
+    getEventsFromCalendar = jest.spyOn(SharePointCalendarService.prototype, 'getEventsFromCalendar').mockResolvedValue({
+      items: [
+        createEvent('sp_calendar_1', 2),
+        createEvent('sp_calendar_2_recur_20260303', 3, { masterSeriesId: 'sp_calendar_2' }),
+        createEvent('sp_calendar_3', 4, { masterSeriesId: 'sp_calendar_2', isException: true }),
+        createEvent('sp_calendar_2_recur_20260305', 5, { masterSeriesId: 'sp_calendar_2' })
+      ],
+      truncated: false,
+      pageCount: 1
+    });
+    getItemChanges = jest.spyOn(SharePointChangeService.prototype, 'getItemChanges');
+    getEventsForItems = jest.spyOn(SharePointCalendarService.prototype, 'getEventsForItems');
+  });
+
+  it('loads every event the first time and keeps a change token', async () => {
+    const service = new CalendarSyncService(context);
+
+    const result = await service.syncEvents(source, 100);
+
+    expect(ids(result.items)).toHaveLength(4);
+    expect(service.hasSyncState(source.id)).toBe(true);
+    expect(service.getSyncStatus(source.id)).toMatchObject({ syncStatus: 'success', syncType: 'full', eventCount: 4, changes: { added: 4 } });
+  });
+
+  it('merges changed and deleted items into the events loaded before', async () => {
+    const service = new CalendarSyncService(context);
+    await service.syncEvents(source, 100);
+    getItemChanges.mockResolvedValue({ changedItemIds: [1, 4], deletedItemIds: [], changeToken: 'token-2' });
+    getEventsForItems.mockResolvedValue({ itemIds: [1, 4], events: [createEvent('sp_calendar_1', 6, { title: 'Moved' }), createEvent('sp_calendar_4', 1)] });
+
+    const result = await service.syncEvents(source, 100);
+
+    expect(getItemChanges).toHaveBeenCalledWith(source, 'token-1');
+    expect(getEventsFromCalendar).toHaveBeenCalledTimes(1);
+    expect(ids(result.items)).toEqual(['sp_calendar_4', 'sp_calendar_2_recur_20260303', 'sp_calendar_3', 'sp_calendar_2_recur_20260305', 'sp_calendar_1']);
+    expect(service.getSyncStatus(source.id)).toMatchObject({ syncType: 'incremental', changes: { added: 1, updated: 1, deleted: 0 } });
+
+    getItemChanges.mockResolvedValue({ changedItemIds: [], deletedItemIds: [1], changeToken: 'token-3' });
+    expect(ids((await service.syncEvents(source, 100)).items)).not.toContain('sp_calendar_1');
+    expect(getItemChanges).toHaveBeenLastCalledWith(source, 'token-2');
+    expect(service.getSyncStatus(source.id)).toMatchObject({ changes: { added: 0, updated: 0, deleted: 1 } });
+  });
+
+  it('reads a series again when one of its edited occurrences is deleted', async () => {
+    const service = new CalendarSyncService(context);
+    await service.syncEvents(source, 100);
+    getItemChanges.mockResolvedValue({ changedItemIds: [], deletedItemIds: [3], changeToken: 'token-2' });
+    getEventsForItems.mockResolvedValue({
+      itemIds: [2],
+      events: [3, 4, 5].map(day => createEvent(`sp_calendar_2_recur_2026030${day}`, day, { masterSeriesId: 'sp_calendar_2' }))
+    });
+
+    const result = await service.syncEvents(source, 100);
+
+    expect(getEventsForItems).toHaveBeenCalledWith(source, [2]);
+    expect(ids(result.items)).toEqual(['sp_calendar_1', 'sp_calendar_2_recur_20260303', 'sp_calendar_2_recur_20260304', 'sp_calendar_2_recur_20260305']);
+  });
+
+  it('loads every event again when the change token is no longer valid', async () => {
+    const service = new CalendarSyncService(context);
+    await service.syncEvents(source, 100);
+    getItemChanges.mockResolvedValue(undefined);
+    jest.spyOn(console, 'info').mockImplementation(() => undefined);
+
+    await service.syncEvents(source, 100);
+
+    expect(getEventsFromCalendar).toHaveBeenCalledTimes(2);
+    expect(service.getSyncStatus(source.id)).toMatchObject({ syncType: 'full' });
+  });
+
+  it('loads every event again once a day', async () => {
+    const service = new CalendarSyncService(context);
+    await service.syncEvents(source, 100);
+    const now = Date.now();
+    jest.spyOn(Date, 'now').mockReturnValue(now + AppConstants.SYNC.FULL_RESYNC_HOURS * AppConstants.MILLISECONDS_IN_HOUR);
+
+    await service.syncEvents(source, 100);
+
+    expect(getItemChanges).not.toHaveBeenCalled();
+    expect(getEventsFromCalendar).toHaveBeenCalledTimes(2);
+  });
+
+  it('applies the limit after merging and reports events left out', async () => {
+    const service = new CalendarSyncService(context);
+
+    const result = await service.syncEvents(source, 3);
+
+    expect(result.items).toHaveLength(3);
+    expect(result.truncated).toBe(true);
+  });
+
+  it('forgets the token and records the error when a sync fails', async () => {
+    const service = new CalendarSyncService(context);
+    await service.syncEvents(source, 100);
+    getItemChanges.mockRejectedValue(new Error('Service unavailable'));
+
+    await expect(service.syncEvents(source, 100)).rejects.toThrow('Service unavailable');
+
+    expect(service.hasSyncState(source.id)).toBe(false);
+    expect(service.getSyncStatus(source.id)).toMatchObject({ syncStatus: 'error', errorMessage: 'Service unavailable', eventCount: 4 });
+  });
+});
+
+describe('CalendarSyncService with Exchange calendars', () => {
+  it('reads the changes since the last delta link', async () => {
+    const source = createSource(CalendarSourceType.Exchange);
+    const getEventChanges = jest.spyOn(ExchangeCalendarService.prototype, 'getEventChanges')
+      .mockResolvedValueOnce({ changedIds: ['ex_calendar_a', 'ex_calendar_b'], deletedIds: [], events: [createEvent('ex_calendar_b', 3), createEvent('ex_calendar_a', 2)], syncToken: 'delta-1' })
+      .mockResolvedValueOnce({ changedIds: ['ex_calendar_c'], deletedIds: ['ex_calendar_a'], events: [createEvent('ex_calendar_c', 4)], syncToken: 'delta-2' });
+    const service = new CalendarSyncService(context);
+
+    expect(ids((await service.syncEvents(source, 100)).items)).toEqual(['ex_calendar_a', 'ex_calendar_b']);
+    expect(ids((await service.syncEvents(source, 100)).items)).toEqual(['ex_calendar_b', 'ex_calendar_c']);
+
+    expect(getEventChanges.mock.calls.map(call => call[1])).toEqual([undefined, 'delta-1']);
+    expect(service.getSyncStatus(source.id)).toMatchObject({ syncType: 'incremental', changes: { added: 1, updated: 0, deleted: 1 } });
+  });
+
+  it('leaves group calendars, which have no delta query, to be read in full', () => {
+    const service = new CalendarSyncService(context);
+
+    expect(service.supportsIncrementalSync(createSource(CalendarSourceType.Exchange))).toBe(true);
+    expect(service.supportsIncrementalSync(createSource(CalendarSourceType.Exchange, { groupId: 'group-id' }))).toBe(false);
+    expect(service.supportsIncrementalSync(createSource(CalendarSourceType.ICS))).toBe(false);
+  });
+});
+
+describe('CalendarSyncService.prefetchChanges', () => {
+  it('reads the changes of every source in batches, including the first read of Exchange calendars', async () => {
+    const list = createSource(CalendarSourceType.SharePoint, { id: 'list' });
+    const mailbox = createSource(CalendarSourceType.Exchange, { id: 'mailbox' });
+    jest.spyOn(SharePointChangeService.prototype, 'getCurrentChangeToken').mockResolvedValue('token-1');
+    jest.spyOn(SharePointCalendarService.prototype, 'getEventsFromCalendar').mockResolvedValue({ items: [], truncated: false, pageCount: 1 });
+    const getItemChangesForLists = jest.spyOn(SharePointChangeService.prototype, 'getItemChangesForLists')
+      .mockResolvedValue(new Map([['list', { changedItemIds: [], deletedItemIds: [], changeToken: 'token-2' }]]));
+    const getEventChangesForCalendars = jest.spyOn(ExchangeCalendarService.prototype, 'getEventChangesForCalendars')
+      .mockResolvedValue(new Map([['mailbox', { changedIds: ['ex_mailbox_a'], deletedIds: [], events: [createEvent('ex_mailbox_a', 2)], syncToken: 'delta-1' }]]));
+    const getEventChanges = jest.spyOn(ExchangeCalendarService.prototype, 'getEventChanges');
+    const getItemChanges = jest.spyOn(SharePointChangeService.prototype, 'getItemChanges');
+    const service = new CalendarSyncService(context);
+    await service.syncEvents(list, 100);
+
+    await service.prefetchChanges([list, mailbox]);
+
+    expect(getItemChangesForLists).toHaveBeenCalledWith([{ source: list, changeToken: 'token-1' }], {});
+    expect(getEventChangesForCalendars).toHaveBeenCalledWith([{ source: mailbox, deltaLink: undefined }], {});
+    expect(ids((await service.syncEvents(mailbox, 100)).items)).toEqual(['ex_mailbox_a']);
+    await service.syncEvents(list, 100);
+    expect(getEventChanges).not.toHaveBeenCalled();
+    expect(getItemChanges).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,309 @@
+import { WebPartContext } from '@microsoft/sp-webpart-base';
+import { ICalendarEvent, ICalendarSource, CalendarSourceType, ISharePointListSource } from '../models/ICalendarModels';
+import { ICalendarChanges, ICalendarSyncStatus } from '../models/IEventModels';
+import { AppConstants } from '../constants/AppConstants';
+import { IPagedResult } from '../utils/PagingUtils';
+import { SharePointCalendarService } from './SharePointCalendarService';
+import { SharePointListService } from './SharePointListService';
+import { SharePointChangeService, IListItemChanges } from './SharePointChangeService';
+import { ExchangeCalendarService } from './ExchangeCalendarService';
+import { IRequestOptions } from './RequestScheduler';
+
+// Expanded occurrences carry their series' id followed by this marker and a date
+const OCCURRENCE_ID_MARKER = '_recur_';
+
+// What a source needs to carry on from its last sync
+interface ISyncState {
+  token: string; // Graph delta link or SharePoint change token
+  events: ICalendarEvent[]; // Every event loaded, before the caller's limit is applied
+  truncated: boolean; // The full load left events behind, which changes cannot bring back
+  fullSyncTime: Date;
+}
+
+/**
+ * Keeps the loaded events of SharePoint lists and Exchange calendars up to
+ * date by reading only what changed since the last sync: Graph delta queries
+ * for Exchange and the list change log for SharePoint. A source is loaded in
+ * full the first time, once a day, and whenever its token is no longer valid.
+ */
+export class CalendarSyncService {
+  private sharePointService: SharePointCalendarService;
+  private sharePointListService: SharePointListService;
+  private changeService: SharePointChangeService;
+  private exchangeService: ExchangeCalendarService;
+  private states = new Map<string, ISyncState>();
+  private statuses = new Map<string, ICalendarSyncStatus>();
+  // Changes read ahead in batches, used by the next sync of each source
+  private prefetched = new Map<string, ICalendarChanges | IListItemChanges | undefined>();
+
+  constructor(context: WebPartContext) {
+    this.sharePointService = new SharePointCalendarService(context);
+    this.sharePointListService = new SharePointListService(context);
+    this.changeService = new SharePointChangeService(context);
+    this.exchangeService = new ExchangeCalendarService(context);
+  }
+
+  /**
+   * Whether changes to a source can be read since its last sync. Graph has no
+   * delta query for group calendars, and imported calendars are held locally.
+   */
+  public supportsIncrementalSync(source: ICalendarSource): boolean {
+    return source.type === CalendarSourceType.SharePoint ||
+      source.type === CalendarSourceType.SharePointList ||
+      (source.type === CalendarSourceType.Exchange && !source.groupId);
+  }
+
+  /**
+   * Whether a source has a token to read its next changes from
+   */
+  public hasSyncState(calendarId: string): boolean {
+    return this.states.has(calendarId);
+  }
+
+  /**
+   * Outcome of the last sync of a source
+   */
+  public getSyncStatus(calendarId: string): ICalendarSyncStatus | undefined {
+    return this.statuses.get(calendarId);
+  }
+
+  /**
+   * Forget sync tokens, for one source or all, so the next load reads every event
+   */
+  public resetSync(calendarId?: string): void {
+    if (calendarId) {
+      this.states.delete(calendarId);
+      this.prefetched.delete(calendarId);
+    } else {
+      this.states.clear();
+      this.prefetched.clear();
+    }
+  }
+
+  /**
+   * Read the changes to every source that is due an incremental sync in as
+   * few batched requests as possible, so that syncing each source afterwards
+   * needs no request of its own. Exchange calendars due a full sync are read
+   * from the start in the same batches. Sources whose changes could not be
+   * read in a batch read them on their own when they are synced.
+   */
+  public async prefetchChanges(sources: ICalendarSource[], options: IRequestOptions = {}): Promise<void> {
+    const due = sources.filter(source => {
+      const state = this.states.get(source.id);
+      return !!state && !this.isFullSyncDue(state);
+    });
+    const exchangeRequests = sources
+      .filter(source => source.type === CalendarSourceType.Exchange && this.supportsIncrementalSync(source))
+      .map(source => ({ source, deltaLink: due.indexOf(source) !== -1 ? (this.states.get(source.id) as ISyncState).token : undefined }));
+    const sharePointRequests = due
+      .filter(source => source.type !== CalendarSourceType.Exchange)
+      .map(source => ({ source, changeToken: (this.states.get(source.id) as ISyncState).token }));
+
+    const [exchangeChanges, sharePointChanges] = await Promise.all([
+      exchangeRequests.length > 0
+        ? this.exchangeService.getEventChangesForCalendars(exchangeRequests, options)
+        : Promise.resolve(new Map<string, ICalendarChanges | undefined>()),
+      sharePointRequests.length > 0
+        ? this.changeService.getItemChangesForLists(sharePointRequests, options)
+        : Promise.resolve(new Map<string, IListItemChanges | undefined>())
+    ]);
+
+    exchangeChanges.forEach((changes, calendarId) => this.prefetched.set(calendarId, changes));
+    sharePointChanges.forEach((changes, calendarId) => this.prefetched.set(calendarId, changes));
+  }
+
+  /**
+   * Load the events of a source, merging the changes since the last sync into
+   * the events loaded before when possible
+   */
+  public async syncEvents(
+    source: ICalendarSource,
+    maxEvents: number,
+    onProgress?: (eventsSoFar: ICalendarEvent[]) => void,
+    options: IRequestOptions = {}
+  ): Promise<IPagedResult<ICalendarEvent>> {
+    try {
+      const state = this.states.get(source.id);
+
+      if (state && !this.isFullSyncDue(state)) {
+        const result = await this.syncChanges(source, state, maxEvents, options);
+        if (result) {
+          return result;
+        }
+        console.info(`The sync token of ${source.title} is no longer valid, loading all events`);
+      }
+
+      return await this.syncAll(source, maxEvents, onProgress, options);
+    } catch (error) {
+      this.states.delete(source.id);
+      this.prefetched.delete(source.id);
+      const previous = this.statuses.get(source.id);
+      this.statuses.set(source.id, {
+        calendarId: source.id,
+        lastSyncTime: previous?.lastSyncTime || new Date(),
+        syncStatus: 'error',
+        errorMessage: error instanceof Error ? error.message : String(error),
+        eventCount: previous?.eventCount || 0,
+        syncType: previous?.syncType,
+        changes: { added: 0, updated: 0, deleted: 0 }
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Load every event of a source and keep a token for reading later changes.
+   * SharePoint tokens are taken first so that changes made during the load
+   * are read again next time rather than missed.
+   */
+  private async syncAll(
+    source: ICalendarSource,
+    maxEvents: number,
+    onProgress: ((eventsSoFar: ICalendarEvent[]) => void) | undefined,
+    options: IRequestOptions
+  ): Promise<IPagedResult<ICalendarEvent>> {
+    let token: string | undefined;
+    let result: IPagedResult<ICalendarEvent>;
+
+    // An Exchange calendar may have been read from the start along with the others
+    const isPrefetched = this.prefetched.has(source.id);
+    const prefetched = this.prefetched.get(source.id) as ICalendarChanges | undefined;
+    this.prefetched.delete(source.id);
+
+    if (source.type === CalendarSourceType.Exchange) {
+      const changes = isPrefetched
+        ? prefetched
+        : await this.exchangeService.getEventChanges(source, undefined, onProgress, options);
+      const events = this.sortByStart(changes?.events || []);
+      token = changes?.syncToken;
+      result = { items: events, truncated: !token, pageCount: 1 };
+    } else {
+      try {
+        token = await this.changeService.getCurrentChangeToken(source);
+      } catch (error) {
+        console.warn(`Could not read the change token of ${source.title}, it will be loaded in full each time:`, error);
+      }
+      result = source.type === CalendarSourceType.SharePointList
+        ? await this.sharePointListService.getEventsFromList(source as ISharePointListSource, maxEvents, onProgress, options)
+        : await this.sharePointService.getEventsFromCalendar(source, maxEvents, onProgress, options);
+    }
+
+    if (token) {
+      this.states.set(source.id, { token, events: result.items, truncated: result.truncated, fullSyncTime: new Date() });
+    } else {
+      this.states.delete(source.id);
+    }
+    this.recordSuccess(source, result.items.length, 'full', { added: result.items.length, updated: 0, deleted: 0 });
+
+    return {
+      items: result.items.slice(0, maxEvents),
+      truncated: result.truncated || result.items.length > maxEvents,
+      pageCount: result.pageCount
+    };
+  }
+
+  /**
+   * Merge the changes since the last sync into the events loaded before.
+   * Undefined when the changes cannot be read and a full sync is needed.
+   */
+  private async syncChanges(
+    source: ICalendarSource,
+    state: ISyncState,
+    maxEvents: number,
+    options: IRequestOptions
+  ): Promise<IPagedResult<ICalendarEvent> | undefined> {
+    let changes: ICalendarChanges | undefined;
+    let replacedIds: string[] = [];
+
+    // Prefetched changes were read from the current token, so they are used once
+    const isPrefetched = this.prefetched.has(source.id);
+    const prefetched = this.prefetched.get(source.id);
+    this.prefetched.delete(source.id);
+
+    if (source.type === CalendarSourceType.Exchange) {
+      changes = isPrefetched
+        ? prefetched as ICalendarChanges | undefined
+        : await this.exchangeService.getEventChanges(source, state.token, undefined, options);
+    } else {
+      const itemChanges = isPrefetched
+        ? prefetched as IListItemChanges | undefined
+        : await this.changeService.getItemChanges(source, state.token);
+      if (!itemChanges) return undefined;
+
+      const getEventId = (itemId: number): string =>
+        `${source.type === CalendarSourceType.SharePointList ? 'sp_list' : 'sp'}_${source.id}_${itemId}`;
+      const deletedIds = itemChanges.deletedItemIds.map(getEventId);
+
+      // A deleted exception changes how its series expands, so the series is read again
+      const affectedItemIds = [...itemChanges.changedItemIds, ...state.events
+        .filter(event => event.masterSeriesId && deletedIds.indexOf(event.id) !== -1)
+        .map(event => Number((event.masterSeriesId as string).substring(getEventId(0).length - 1)))];
+
+      let events: ICalendarEvent[] = [];
+      if (affectedItemIds.length > 0) {
+        if (source.type === CalendarSourceType.SharePointList) {
+          events = await this.sharePointListService.getEventsForItems(source as ISharePointListSource, affectedItemIds);
+        } else {
+          const lookup = await this.sharePointService.getEventsForItems(source, affectedItemIds);
+          events = lookup.events;
+          replacedIds = lookup.itemIds.map(getEventId);
+        }
+      }
+
+      changes = {
+        changedIds: itemChanges.changedItemIds.map(getEventId),
+        deletedIds,
+        events,
+        syncToken: itemChanges.changeToken
+      };
+    }
+
+    if (!changes?.syncToken) return undefined;
+
+    // Events are replaced per item; occurrences go with their series
+    const getItemId = (event: ICalendarEvent): string => event.id.split(OCCURRENCE_ID_MARKER)[0];
+    const previousIds = new Set(state.events.map(getItemId));
+    const removedIds = new Set([...changes.changedIds, ...changes.deletedIds, ...replacedIds]);
+    const events = this.sortByStart([
+      ...state.events.filter(event => !removedIds.has(getItemId(event))),
+      ...changes.events
+    ]);
+
+    this.states.set(source.id, { ...state, token: changes.syncToken, events });
+    this.recordSuccess(source, events.length, 'incremental', {
+      added: changes.changedIds.filter(id => !previousIds.has(id)).length,
+      updated: changes.changedIds.filter(id => previousIds.has(id)).length,
+      deleted: changes.deletedIds.filter(id => previousIds.has(id)).length
+    });
+
+    return {
+      items: events.slice(0, maxEvents),
+      truncated: state.truncated || events.length > maxEvents,
+      pageCount: 1
+    };
+  }
+
+  private isFullSyncDue(state: ISyncState): boolean {
+    return Date.now() - state.fullSyncTime.getTime() >= AppConstants.SYNC.FULL_RESYNC_HOURS * AppConstants.MILLISECONDS_IN_HOUR;
+  }
+
+  private recordSuccess(
+    source: ICalendarSource,
+    eventCount: number,
+    syncType: ICalendarSyncStatus['syncType'],
+    changes: ICalendarSyncStatus['changes']
+  ): void {
+    this.statuses.set(source.id, {
+      calendarId: source.id,
+      lastSyncTime: new Date(),
+      syncStatus: 'success',
+      eventCount,
+      syncType,
+      changes
+    });
+  }
+
+  private sortByStart(events: ICalendarEvent[]): ICalendarEvent[] {
+    return events.sort((a, b) => a.start.getTime() - b.start.getTime());
+  }
+}
@@ -0,0 +1,187 @@
+jest.mock('@microsoft/sp-http', () => ({ SPHttpClient: { configurations: { v1: {} } } }));
+
+import { WebPartContext } from '@microsoft/sp-webpart-base';
+import { ExchangeCalendarService } from './ExchangeCalendarService';
+import { ICalendarSource, CalendarSourceType } from '../models/ICalendarModels';
+
+const createSource = (changes: Partial<ICalendarSource> = {}): ICalendarSource => ({
+  id: 'calendar-id',
+  title: 'Calendar',
+  description: '',
+  type: CalendarSourceType.Exchange,
+  url: 'https://outlook.office365.com/calendar/view/month',
+  siteTitle: 'Exchange Online',
+  siteUrl: 'https://outlook.office365.com',
+  color: '#0078d4',
+  isEnabled: true,
+  ...changes
+});
+
+const createGraphEvent = (id: string, changes: Record<string, unknown> = {}): Record<string, unknown> => ({
+  id,
+  subject: 'Stand-up',
+  start: { dateTime: '2026-03-02T14:00:00.0000000', timeZone: 'UTC' },
+  end: { dateTime: '2026-03-02T14:15:00.0000000', timeZone: 'UTC' },
+  isAllDay: false,
+  type: 'singleInstance',
+  createdDateTime: '2026-01-01T00:00:00Z',
+  lastModifiedDateTime: '2026-01-01T00:00:00Z',
+  ...changes
+});
+
+interface IFakeGraph {
+  service: ExchangeCalendarService;
+  paths: string[];
+}
+
+// A Graph client that answers each request with the response for its path
+const createService = (respond: (path: string) => unknown): IFakeGraph => {
+  const paths: string[] = [];
+  const api = jest.fn((path: string) => {
+    paths.push(path);
+    const request: Record<string, unknown> = {
+      get: async () => respond(path),
+      post: async () => respond(path),
+      patch: async () => respond(path),
+      delete: async () => undefined
+    };
+    ['headers', 'header', 'query', 'select', 'orderby', 'top', 'filter', 'expand', 'option'].forEach(method => {
+      request[method] = () => request;
+    });
+    return request;
+  });
+  const context = { msGraphClientFactory: { getClient: async () => ({ api }) } } as unknown as WebPartContext;
+  return { service: new ExchangeCalendarService(context), paths };
+};
+
+describe('ExchangeCalendarService.getEventsFromCalendar', () => {
+  it('reads the calendar view with occurrences carrying their series', async () => {
+    const { service, paths } = createService(() => ({
+      value: [
+        createGraphEvent('occurrence-1', { type: 'occurrence', seriesMasterId: 'master', originalStart: '2026-03-02T14:00:00Z', originalStartTimeZone: 'Eastern Standard Time' }),
+        createGraphEvent('exception-1', { type: 'exception', seriesMasterId: 'master', originalStart: '2026-03-03T14:00:00Z' }),
+        createGraphEvent('single', { subject: '', location: { displayName: 'Room 4' } })
+      ]
+    }));
+
+    const result = await service.getEventsFromCalendar(createSource());
+
+    expect(paths).toEqual(['/me/calendars/calendar-id/calendarView']);
+    expect(result.items.map(event => [event.id, event.masterSeriesId, event.isException, event.isRecurring])).toEqual([
+      ['ex_calendar-id_occurrence-1', 'ex_calendar-id_master', false, true],
+      ['ex_calendar-id_exception-1', 'ex_calendar-id_master', true, true],
+      ['ex_calendar-id_single', undefined, false, false]
+    ]);
+    expect(result.items[0]).toMatchObject({
+      start: new Date('2026-03-02T14:00:00Z'),
+      originalStart: new Date('2026-03-02T14:00:00Z'),
+      timeZone: 'America/New_York'
+    });
+    expect(result.items[2]).toMatchObject({ title: 'Untitled Event', location: 'Room 4' });
+  });
+
+  it('reads group calendars under their group', async () => {
+    const { service, paths } = createService(() => ({ value: [] }));
+
+    await service.getEventsFromCalendar(createSource({ groupId: 'group-id' }));
+
+    expect(paths).toEqual(['/groups/group-id/calendar/calendarView']);
+  });
+
+  it('keeps the dates of all-day events whatever zone they are reported in', async () => {
+    const { service } = createService(() => ({
+      value: [createGraphEvent('holiday', {
+        isAllDay: true,
+        start: { dateTime: '2026-07-04T00:00:00.0000000', timeZone: 'UTC' },
+        end: { dateTime: '2026-07-05T00:00:00.0000000', timeZone: 'UTC' }
+      })]
+    }));
+
+    const [event] = (await service.getEventsFromCalendar(createSource())).items;
+
+    expect(event.start).toEqual(new Date(2026, 6, 4));
+    expect(event.end).toEqual(new Date(2026, 6, 5));
+  });
+});
+
+describe('ExchangeCalendarService.createEvent', () => {
+  it('creates events of a group calendar under its group', async () => {
+    const { service, paths } = createService(() => createGraphEvent('event-1'));
+    const getExchangeCalendars = jest.spyOn(service, 'getExchangeCalendars');
+
+    const created = await service.createEvent(createSource({ groupId: 'group-id' }), { subject: 'Stand-up' });
+
+    expect(paths).toEqual(['/groups/group-id/calendar/events']);
+    expect(getExchangeCalendars).not.toHaveBeenCalled();
+    expect(created.id).toBe('ex_calendar-id_event-1');
+  });
+});
+
+describe('ExchangeCalendarService.updateEvent and deleteEvent', () => {
+  it('addresses events by their Graph ID rather than the one they were mapped with', async () => {
+    const source = createSource();
+    const { service, paths } = createService(() => createGraphEvent('event-1'));
+
+    const updated = await service.updateEvent(source, 'ex_calendar-id_event-1', { subject: 'Stand-up' });
+    await service.deleteEvent(source, 'ex_calendar-id_event-1');
+
+    expect(updated.id).toBe('ex_calendar-id_event-1');
+    expect(paths).toEqual(['/me/calendars/calendar-id/events/event-1', '/me/calendars/calendar-id/events/event-1']);
+  });
+
+  it('changes events of a group calendar under its group without reading the calendars again', async () => {
+    const { service, paths } = createService(() => createGraphEvent('event-1'));
+    const getExchangeCalendars = jest.spyOn(service, 'getExchangeCalendars');
+    const source = createSource({ groupId: 'group-id' });
+
+    await service.updateEvent(source, 'ex_calendar-id_event-1', { subject: 'Stand-up' });
+    await service.deleteEvent(source, 'ex_calendar-id_event-1');
+
+    expect(paths).toEqual(['/groups/group-id/calendar/events/event-1', '/groups/group-id/calendar/events/event-1']);
+    expect(getExchangeCalendars).not.toHaveBeenCalled();
+  });
+});
+
+describe('ExchangeCalendarService.getEventById', () => {
+  it('reads an event of a group calendar under its group, with the rule of a series', async () => {
+    const { service, paths } = createService(() => createGraphEvent('master', {
+      type: 'seriesMaster',
+      recurrence: { pattern: { type: 'daily', interval: 1 }, range: { type: 'noEnd', startDate: '2026-03-02' } }
+    }));
+    const getExchangeCalendars = jest.spyOn(service, 'getExchangeCalendars');
+
+    const event = await service.getEventById(createSource({ groupId: 'group-id' }), 'ex_calendar-id_master');
+
+    expect(paths).toEqual(['/groups/group-id/calendar/events/master']);
+    expect(getExchangeCalendars).not.toHaveBeenCalled();
+    expect(event).toMatchObject({ id: 'ex_calendar-id_master', recurrencePattern: { type: 'daily', interval: 1 } });
+  });
+});
+
+describe('ExchangeCalendarService.attachSeriesRecurrence', () => {
+  it('reads the rule of each series once and leaves exceptions and single events alone', async () => {
+    const { service, paths } = createService(path => path.indexOf('/events/master') !== -1
+      ? {
+        start: { dateTime: '2026-03-02T14:00:00.0000000', timeZone: 'UTC' },
+        isAllDay: false,
+        recurrence: {
+          pattern: { type: 'daily', interval: 1 },
+          range: { type: 'noEnd', startDate: '2026-03-02' }
+        }
+      }
+      : { value: [
+        createGraphEvent('occurrence-1', { type: 'occurrence', seriesMasterId: 'master' }),
+        createGraphEvent('occurrence-2', { type: 'occurrence', seriesMasterId: 'master' }),
+        createGraphEvent('exception-1', { type: 'exception', seriesMasterId: 'master' }),
+        createGraphEvent('single')
+      ] });
+    const source = createSource();
+    const { items } = await service.getEventsFromCalendar(source);
+
+    const events = await service.attachSeriesRecurrence(items, [source]);
+
+    expect(paths.filter(path => path.indexOf('/events/') !== -1)).toEqual(['/me/calendars/calendar-id/events/master']);
+    expect(events.map(event => event.recurrencePattern?.type)).toEqual(['daily', 'daily', undefined, undefined]);
+    expect(events[0].seriesStart).toEqual(new Date('2026-03-02T14:00:00Z'));
+  });
+});
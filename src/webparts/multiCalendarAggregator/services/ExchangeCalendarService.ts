@@ -1,8 +1,22 @@
 import { WebPartContext } from '@microsoft/sp-webpart-base';
 import { MSGraphClientV3 } from '@microsoft/sp-http-msgraph';
 import { ICalendarEvent, ICalendarSource, CalendarSourceType } from '../models/ICalendarModels';
+import { IFreeBusyQuery, IFreeBusyResult, IFreeBusyTimeSlot, ICalendarChanges } from '../models/IEventModels';
+import { IWorkingHours } from '../models/IConfigurationModels';
 import { AppConstants } from '../constants/AppConstants';
 import { ColorUtils } from '../utils/ColorUtils';
+import { DateUtils } from '../utils/DateUtils';
+import { RecurrenceUtils } from '../utils/RecurrenceUtils';
+import { PagingUtils, IPagedResult } from '../utils/PagingUtils';
+import { SchedulingUtils } from '../utils/SchedulingUtils';
+import { WorkingHoursUtils } from '../utils/WorkingHoursUtils';
+import { BatchUtils, IBatchRequest, IBatchResponse } from '../utils/BatchUtils';
+import { RequestScheduler, IRequestOptions } from './RequestScheduler';
+
+// Ask Graph to return every event date-time in one known zone
+const TIME_ZONE_HEADERS: Record<string, string> = {
+  Prefer: `outlook.timezone="${AppConstants.GRAPH_RESPONSE_TIMEZONE}"`
+};
 
 interface GraphEvent {
   id: string;
@@ -24,9 +38,17 @@ interface GraphEvent {
   categories?: string[];
   isAllDay: boolean;
   recurrence?: unknown;
+  seriesMasterId?: string;
+  type?: 'singleInstance' | 'occurrence' | 'exception' | 'seriesMaster';
+  originalStart?: string;
+  originalStartTimeZone?: string;
+  originalEndTimeZone?: string;
+  isReminderOn?: boolean;
+  reminderMinutesBeforeStart?: number;
   organizer?: {
     emailAddress?: {
       name: string;
+      address?: string;
     };
   };
   createdDateTime: string;
@@ -35,6 +57,7 @@ interface GraphEvent {
   importance?: string;
   sensitivity?: string;
   showAs?: string;
+  iCalUId?: string;
   attendees?: Array<{
     emailAddress: {
       name: string;
@@ -47,6 +70,48 @@ interface GraphEvent {
   }>;
 }
 
+// Items of a delta response; deleted events carry only their id
+type GraphDeltaEvent = GraphEvent & {
+  '@removed'?: {
+    reason: string;
+  };
+};
+
+// Error codes Graph returns when a delta link can no longer be used
+const EXPIRED_SYNC_STATE_CODES = ['syncstatenotfound', 'syncstateinvalid', 'resyncrequired'];
+
+interface GraphWorkingHours {
+  daysOfWeek?: string[];
+  startTime?: string;
+  endTime?: string;
+  timeZone?: { name?: string };
+}
+
+interface GraphScheduleInformation {
+  scheduleId: string;
+  availabilityView?: string;
+  scheduleItems?: Array<{
+    isPrivate?: boolean;
+    status: 'free' | 'tentative' | 'busy' | 'oof' | 'workingElsewhere' | 'unknown';
+    subject?: string;
+    location?: string;
+    start: { dateTime: string; timeZone?: string };
+    end: { dateTime: string; timeZone?: string };
+  }>;
+  workingHours?: GraphWorkingHours;
+  error?: {
+    message?: string;
+  };
+}
+
+// Body of a failed request
+interface GraphErrorResponse {
+  error?: {
+    code?: string;
+    message?: string;
+  };
+}
+
 interface GraphCalendar {
   id: string;
   name: string;
@@ -59,12 +124,17 @@ interface GraphCalendar {
 }
 
 
+// Status Graph gives requests in a batch that were throttled; they are sent again in the next round
+const THROTTLED_STATUS = 429;
+
 export class ExchangeCalendarService {
   private context: WebPartContext;
   private graphClient: MSGraphClientV3 | undefined;
+  private scheduler: RequestScheduler;
 
   constructor(context: WebPartContext) {
     this.context = context;
+    this.scheduler = RequestScheduler.getInstance();
   }
 
   /**
@@ -226,7 +296,8 @@ export class ExchangeCalendarService {
             color: ColorUtils.generateColorFromString(group.displayName),
             isEnabled: true,
             canEdit: false, // Group calendars are typically read-only for members
-            canShare: false
+            canShare: false,
+            groupId: group.id
           });
         } catch {
           // Group might not have a calendar or user might not have access
@@ -243,9 +314,12 @@ export class ExchangeCalendarService {
   /**
    * Get events from Exchange calendar
    */
-  public async getEventsFromCalendar(source: ICalendarSource, maxEvents: number = 100): Promise<ICalendarEvent[]> {
-    const events: ICalendarEvent[] = [];
-
+  public async getEventsFromCalendar(
+    source: ICalendarSource,
+    maxEvents: number = 100,
+    onProgress?: (eventsSoFar: ICalendarEvent[]) => void,
+    options: IRequestOptions = {}
+  ): Promise<IPagedResult<ICalendarEvent>> {
     try {
       await this.initializeGraphClient();
       
@@ -257,41 +331,274 @@ export class ExchangeCalendarService {
       const endDate = new Date();
       endDate.setMonth(endDate.getMonth() + 6); // Next 6 months
 
-      let apiPath: string;
-      if (source.title.includes('(Group)')) {
-        // Extract group ID from source ID and use group calendar endpoint
-        apiPath = `/groups/${source.id}/calendar/events`;
+      const events: ICalendarEvent[] = [];
+      const result = await this.getCalendarView(source, now, endDate, maxEvents, onProgress
+        ? (itemsSoFar) => {
+          // Only map the items added since the previous page
+          for (const item of itemsSoFar.slice(events.length)) {
+            events.push(this.mapGraphEventToCalendarEvent(item, source));
+          }
+          onProgress(events.slice());
+        }
+        : undefined, options.signal);
+
+      return {
+        items: result.items.map(item => this.mapGraphEventToCalendarEvent(item, source)),
+        truncated: result.truncated,
+        pageCount: result.pageCount
+      };
+    } catch (error) {
+      console.error(`Error fetching Exchange events from ${source.title}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get the changes to a calendar in the next six months since a delta link
+   * was issued. Without a delta link every event is returned as added. The
+   * window is fixed by the first request, so a new one is needed when it has
+   * moved on. Undefined when Graph no longer accepts the delta link.
+   */
+  public async getEventChanges(
+    source: ICalendarSource,
+    deltaLink?: string,
+    onProgress?: (eventsSoFar: ICalendarEvent[]) => void,
+    options: IRequestOptions = {}
+  ): Promise<ICalendarChanges | undefined> {
+    await this.initializeGraphClient();
+    const graphClient = this.graphClient;
+    if (!graphClient) {
+      throw new Error('Graph client not available');
+    }
+
+    const now = new Date();
+    const headers = { Prefer: `${TIME_ZONE_HEADERS.Prefer}, odata.maxpagesize=${AppConstants.SYNC.DELTA_PAGE_SIZE}` };
+    const changes: ICalendarChanges = { changedIds: [], deletedIds: [], events: [] };
+    let nextLink: string | undefined;
+
+    try {
+      for (let page = 0; page < AppConstants.API_LIMITS.MAX_PAGES_PER_QUERY; page++) {
+        const link = nextLink || deltaLink;
+        const request = link
+          ? graphClient.api(link).headers(headers)
+          : graphClient
+            .api(`${this.getCalendarPath(source)}/calendarView/delta`)
+            .headers(headers)
+            .query({
+              startDateTime: now.toISOString(),
+              endDateTime: DateUtils.addTime(now, 6, 'months').toISOString()
+            });
+        const response = await PagingUtils.withTimeout(requestSignal => request.option('signal', requestSignal).get(), options.signal);
+
+        nextLink = this.addDeltaPage(changes, source, response);
+        if (onProgress) {
+          onProgress(changes.events.slice());
+        }
+        if (!nextLink) break;
+      }
+    } catch (error) {
+      if (deltaLink && this.isExpiredSyncState(error)) {
+        return undefined;
+      }
+      throw error;
+    }
+
+    return changes;
+  }
+
+  /**
+   * Get the changes to several calendars at once, sending the requests for
+   * each round of pages as Graph batches. Calendars without a delta link are
+   * read from the start. A calendar maps to undefined when its delta link has
+   * expired, and is left out when its requests failed.
+   */
+  public async getEventChangesForCalendars(
+    requests: { source: ICalendarSource; deltaLink?: string }[],
+    options: IRequestOptions = {}
+  ): Promise<Map<string, ICalendarChanges | undefined>> {
+    const results = new Map<string, ICalendarChanges | undefined>();
+    await this.initializeGraphClient();
+    if (!this.graphClient || requests.length === 0) return results;
+
+    const now = new Date();
+    const sources = new Map(requests.map(request => [request.source.id, request.source]));
+    const deltaLinks = new Map(requests.map(request => [request.source.id, request.deltaLink]));
+    const firstUrls = new Map(requests.map(({ source, deltaLink }) => [source.id, deltaLink ||
+      `${this.getCalendarPath(source)}/calendarView/delta?startDateTime=${encodeURIComponent(now.toISOString())}` +
+      `&endDateTime=${encodeURIComponent(DateUtils.addTime(now, 6, 'months').toISOString())}`]));
+
+    requests.forEach(({ source }) => results.set(source.id, { changedIds: [], deletedIds: [], events: [] }));
+    const failures = await this.collectBatchedPages(
+      firstUrls,
+      { Prefer: `${TIME_ZONE_HEADERS.Prefer}, odata.maxpagesize=${AppConstants.SYNC.DELTA_PAGE_SIZE}` },
+      (sourceId, page) => this.addDeltaPage(results.get(sourceId) as ICalendarChanges, sources.get(sourceId) as ICalendarSource, page),
+      options
+    );
+
+    failures.forEach((response, sourceId) => {
+      const error = (response.body as GraphErrorResponse | undefined)?.error;
+      if (deltaLinks.get(sourceId) && this.isExpiredSyncState({ statusCode: response.status, code: error?.code })) {
+        results.set(sourceId, undefined);
       } else {
-        // Personal or shared calendar
-        apiPath = `/me/calendars/${source.id}/events`;
+        console.warn(`Could not read changes to ${sources.get(sourceId)?.title}. Status: ${response.status}`, error?.message);
+        results.delete(sourceId);
       }
+    });
+    return results;
+  }
 
-      const response = await this.graphClient
-        .api(apiPath)
-        .select(AppConstants.GRAPH_EVENT_FIELDS)
-        .filter(`start/dateTime ge '${now.toISOString()}' and start/dateTime le '${endDate.toISOString()}'`)
-        .orderby('start/dateTime')
-        .top(Math.min(maxEvents, AppConstants.API_LIMITS.MAX_EVENTS_PER_REQUEST))
-        .get();
+  /**
+   * Add a page of a delta response to the changes read so far and return the
+   * link to the next page, if any
+   */
+  private addDeltaPage(changes: ICalendarChanges, source: ICalendarSource, page: Record<string, unknown>): string | undefined {
+    ((page.value || []) as GraphDeltaEvent[]).forEach(item => {
+      const id = `ex_${source.id}_${item.id}`;
+      if (item['@removed']) {
+        changes.deletedIds.push(id);
+      } else {
+        changes.changedIds.push(id);
+        changes.events.push(this.mapGraphEventToCalendarEvent(item, source));
+      }
+    });
+
+    changes.syncToken = page['@odata.deltaLink'] as string | undefined;
+    return page['@odata.nextLink'] as string | undefined;
+  }
+
+  /**
+   * Follow the pages of several requests at once. Each round sends the
+   * current page request of every unfinished source as Graph batches through
+   * the shared scheduler; handlePage returns the link to the source's next
+   * page. Throttled requests are sent again in the next round, after the wait
+   * Graph asks for or a growing delay. Returns the failed responses by source
+   * id, including sources still throttled or unfinished at the end.
+   */
+  private async collectBatchedPages(
+    firstUrls: Map<string, string>,
+    headers: Record<string, string>,
+    handlePage: (sourceId: string, page: Record<string, unknown>) => string | undefined,
+    options: IRequestOptions
+  ): Promise<Map<string, IBatchResponse>> {
+    const graphClient = this.graphClient;
+    const failures = new Map<string, IBatchResponse>();
+    if (!graphClient) return failures;
+
+    const pending = new Map(firstUrls);
+    const throttled = new Map<string, IBatchResponse>();
+    let throttledRounds = 0;
+    for (let round = 0; round < AppConstants.API_LIMITS.MAX_PAGES_PER_QUERY && pending.size > 0; round++) {
+      if (throttled.size > 0) {
+        if (throttledRounds++ >= AppConstants.PERFORMANCE.REQUEST_RETRY_COUNT) break;
+        const retryAfter = Math.max(
+          AppConstants.PERFORMANCE.REQUEST_RETRY_DELAY * Math.pow(2, throttledRounds - 1),
+          ...Array.from(throttled.values()).map(response => BatchUtils.getRetryAfter(response) || 0)
+        );
+        await RequestScheduler.delay(retryAfter, options.signal);
+        throttled.clear();
+      }
 
-      for (const item of response.value || []) {
-        events.push(this.mapGraphEventToCalendarEvent(item, source));
+      const sourceIds = Array.from(pending.keys());
+      const batches: IBatchRequest[][] = [];
+      for (let index = 0; index < sourceIds.length; index += AppConstants.API_LIMITS.MAX_GRAPH_BATCH_REQUESTS) {
+        batches.push(sourceIds.slice(index, index + AppConstants.API_LIMITS.MAX_GRAPH_BATCH_REQUESTS).map(sourceId => ({
+          id: sourceId,
+          method: 'GET' as const,
+          url: pending.get(sourceId) as string,
+          headers
+        })));
       }
 
-    } catch (error) {
-      console.error(`Error fetching Exchange events from ${source.title}:`, error);
-      throw error;
+      const responses = await Promise.all(batches.map(batch =>
+        this.scheduler.schedule(signal => BatchUtils.sendGraphBatch(graphClient, batch, signal), options)));
+
+      sourceIds.forEach(sourceId => {
+        const response = responses.reduce<IBatchResponse | undefined>((found, batch) => found || batch.get(sourceId), undefined);
+        if (response?.status === THROTTLED_STATUS) {
+          throttled.set(sourceId, response);
+          return;
+        }
+
+        if (response && BatchUtils.isSuccess(response)) {
+          const nextLink = handlePage(sourceId, response.body as Record<string, unknown>);
+          if (nextLink) {
+            pending.set(sourceId, nextLink);
+            return;
+          }
+        } else {
+          failures.set(sourceId, response || { id: sourceId, status: 0, body: undefined });
+        }
+        pending.delete(sourceId);
+      });
     }
 
-    return events;
+    pending.forEach((url, sourceId) => failures.set(sourceId, throttled.get(sourceId) ||
+      { id: sourceId, status: 0, body: `Stopped after ${AppConstants.API_LIMITS.MAX_PAGES_PER_QUERY} pages` }));
+    return failures;
+  }
+
+  /**
+   * Whether Graph rejected a delta link because its sync state is gone
+   */
+  private isExpiredSyncState(error: unknown): boolean {
+    const graphError = error as { statusCode?: number; code?: string } | undefined;
+    return graphError?.statusCode === 410 || EXPIRED_SYNC_STATE_CODES.indexOf((graphError?.code || '').toLowerCase()) !== -1;
+  }
+
+  /**
+   * Get the calendar endpoint for a source; group calendars live under their group
+   */
+  private getCalendarPath(source: ICalendarSource): string {
+    return source.groupId
+      ? `/groups/${source.groupId}/calendar`
+      : `/me/calendars/${source.id}`;
+  }
+
+  /**
+   * Get events in a time window with recurring series expanded into occurrences
+   */
+  private async getCalendarView(
+    source: ICalendarSource,
+    startDate: Date,
+    endDate: Date,
+    maxItems: number,
+    onPage?: (itemsSoFar: GraphEvent[]) => void,
+    signal?: AbortSignal
+  ): Promise<IPagedResult<GraphEvent>> {
+    const graphClient = this.graphClient;
+    if (!graphClient) return { items: [], truncated: false, pageCount: 0 };
+
+    const fetchPage = PagingUtils.graphPageFetcher<GraphEvent>(graphClient, pageSignal => {
+      const request = graphClient
+        .api(`${this.getCalendarPath(source)}/calendarView`)
+        .headers(TIME_ZONE_HEADERS)
+        .query({
+          startDateTime: startDate.toISOString(),
+          endDateTime: endDate.toISOString()
+        })
+        .select(AppConstants.GRAPH_EVENT_FIELDS)
+        .orderby('start/dateTime')
+        .top(Math.min(maxItems, AppConstants.API_LIMITS.MAX_EVENTS_PER_REQUEST));
+      if (pageSignal) {
+        request.option('signal', pageSignal);
+      }
+      return request.get();
+    }, TIME_ZONE_HEADERS);
+
+    return PagingUtils.collectPages(fetchPage, { maxItems, onPage, signal });
   }
 
   /**
-   * Map Microsoft Graph event to calendar event
+   * Map Microsoft Graph event to calendar event. Date-times are read in the zone
+   * Graph reports them in; all-day events keep their calendar dates.
    */
   private mapGraphEventToCalendarEvent(graphEvent: GraphEvent, source: ICalendarSource): ICalendarEvent {
-    const startDate = new Date(graphEvent.start.dateTime + (graphEvent.start.timeZone ? '' : 'Z'));
-    const endDate = new Date(graphEvent.end.dateTime + (graphEvent.end.timeZone ? '' : 'Z'));
+    const parseDate = (value: { dateTime: string; timeZone?: string }): Date => graphEvent.isAllDay
+      ? DateUtils.parseFloatingDate(value.dateTime)
+      : DateUtils.parseInTimeZone(value.dateTime, value.timeZone);
+
+    const startDate = parseDate(graphEvent.start);
+    const endDate = parseDate(graphEvent.end);
 
     return {
       id: `ex_${source.id}_${graphEvent.id}`,
@@ -302,11 +609,12 @@ export class ExchangeCalendarService {
       location: graphEvent.location?.displayName || '',
       category: graphEvent.categories?.join(', ') || '',
       isAllDay: graphEvent.isAllDay || false,
-      isRecurring: !!graphEvent.recurrence,
+      isRecurring: !!graphEvent.recurrence || !!graphEvent.seriesMasterId,
       calendarId: source.id,
       calendarTitle: source.title,
       calendarType: source.type,
       organizer: graphEvent.organizer?.emailAddress?.name || 'Unknown',
+      organizerEmail: graphEvent.organizer?.emailAddress?.address,
       created: new Date(graphEvent.createdDateTime),
       modified: new Date(graphEvent.lastModifiedDateTime),
       webUrl: graphEvent.webLink || 'https://outlook.office365.com/calendar',
@@ -314,10 +622,80 @@ export class ExchangeCalendarService {
       importance: graphEvent.importance,
       sensitivity: graphEvent.sensitivity,
       showAs: graphEvent.showAs,
-      attendees: this.mapAttendees(graphEvent.attendees || [])
+      attendees: this.mapAttendees(graphEvent.attendees || []),
+      masterSeriesId: graphEvent.seriesMasterId ? `ex_${source.id}_${graphEvent.seriesMasterId}` : undefined,
+      isException: graphEvent.type === 'exception',
+      originalStart: graphEvent.originalStart ? new Date(graphEvent.originalStart) : undefined,
+      timeZone: DateUtils.resolveTimeZone(graphEvent.originalStartTimeZone) || DateUtils.resolveTimeZone(graphEvent.start.timeZone),
+      reminderMinutes: graphEvent.isReminderOn && graphEvent.reminderMinutesBeforeStart !== undefined
+        ? [graphEvent.reminderMinutesBeforeStart]
+        : undefined,
+      iCalUId: graphEvent.iCalUId
     };
   }
 
+  /**
+   * Attach the recurrence rule of each series master to its loaded occurrences.
+   * calendarView only returns occurrences, so masters are fetched once per series.
+   */
+  public async attachSeriesRecurrence(events: ICalendarEvent[], sources: ICalendarSource[]): Promise<ICalendarEvent[]> {
+    await this.initializeGraphClient();
+
+    const graphClient = this.graphClient;
+    if (!graphClient) return events;
+
+    const seriesRecurrence = new Map<string, Promise<Pick<ICalendarEvent, 'recurrencePattern' | 'seriesStart'> | undefined>>();
+
+    return Promise.all(events.map(async event => {
+      const source = sources.find(s => s.id === event.calendarId);
+      if (!source || source.type !== CalendarSourceType.Exchange || !event.masterSeriesId || event.isException || event.recurrencePattern) {
+        return event;
+      }
+
+      let recurrence = seriesRecurrence.get(event.masterSeriesId);
+      if (!recurrence) {
+        const seriesMasterId = event.masterSeriesId.substring(`ex_${source.id}_`.length);
+        recurrence = this.getSeriesRecurrence(graphClient, source, seriesMasterId);
+        seriesRecurrence.set(event.masterSeriesId, recurrence);
+      }
+
+      const resolved = await recurrence;
+      return resolved ? { ...event, ...resolved } : event;
+    }));
+  }
+
+  /**
+   * Load the recurrence rule and first start of a series master
+   */
+  private async getSeriesRecurrence(
+    graphClient: MSGraphClientV3,
+    source: ICalendarSource,
+    seriesMasterId: string
+  ): Promise<Pick<ICalendarEvent, 'recurrencePattern' | 'seriesStart'> | undefined> {
+    try {
+      const master: GraphEvent = await graphClient
+        .api(`${this.getCalendarPath(source)}/events/${seriesMasterId}`)
+        .headers(TIME_ZONE_HEADERS)
+        .select('start,isAllDay,recurrence')
+        .get();
+
+      const recurrencePattern = master.recurrence
+        ? RecurrenceUtils.parseGraphRecurrence(master.recurrence as Record<string, unknown>)
+        : undefined;
+      if (!recurrencePattern) return undefined;
+
+      return {
+        recurrencePattern,
+        seriesStart: master.isAllDay
+          ? DateUtils.parseFloatingDate(master.start.dateTime)
+          : DateUtils.parseInTimeZone(master.start.dateTime, master.start.timeZone)
+      };
+    } catch (error) {
+      console.warn(`Could not load series master ${seriesMasterId}:`, error);
+      return undefined;
+    }
+  }
+
   /**
    * Extract plain text from HTML content
    */
@@ -369,15 +747,9 @@ export class ExchangeCalendarService {
 
       for (const source of sources.filter(s => s.isEnabled && s.type === CalendarSourceType.Exchange)) {
         try {
-          let apiPath: string;
-          if (source.title.includes('(Group)')) {
-            apiPath = `/groups/${source.id}/calendar/events`;
-          } else {
-            apiPath = `/me/calendars/${source.id}/events`;
-          }
-
           const response = await this.graphClient
-            .api(apiPath)
+            .api(`${this.getCalendarPath(source)}/events`)
+            .headers(TIME_ZONE_HEADERS)
             .select(AppConstants.GRAPH_EVENT_FIELDS)
             .search(`"${query}"`)
             .top(maxResults)
@@ -406,7 +778,8 @@ export class ExchangeCalendarService {
     sources: ICalendarSource[], 
     startDate: Date, 
     endDate: Date, 
-    maxEvents: number = 1000
+    maxEvents: number = 1000,
+    options: IRequestOptions = {}
   ): Promise<ICalendarEvent[]> {
     const allEvents: ICalendarEvent[] = [];
 
@@ -417,31 +790,31 @@ export class ExchangeCalendarService {
         return allEvents;
       }
 
-      for (const source of sources.filter(s => s.isEnabled && s.type === CalendarSourceType.Exchange)) {
-        try {
-          let apiPath: string;
-          if (source.title.includes('(Group)')) {
-            apiPath = `/groups/${source.id}/calendar/events`;
-          } else {
-            apiPath = `/me/calendars/${source.id}/events`;
-          }
-
-          const response = await this.graphClient
-            .api(apiPath)
-            .select(AppConstants.GRAPH_EVENT_FIELDS)
-            .filter(`start/dateTime ge '${startDate.toISOString()}' and start/dateTime le '${endDate.toISOString()}'`)
-            .orderby('start/dateTime')
-            .top(maxEvents)
-            .get();
-
-          for (const item of response.value || []) {
-            allEvents.push(this.mapGraphEventToCalendarEvent(item, source));
-          }
-        } catch (error) {
-          console.error(`Error getting events from ${source.title}:`, error);
-        }
-      }
+      // Every calendar's calendarView pages are fetched together in batches
+      const calendars = new Map(sources
+        .filter(s => s.isEnabled && s.type === CalendarSourceType.Exchange)
+        .map(source => [source.id, source]));
+      const firstUrls = new Map(Array.from(calendars.values()).map(source => [source.id,
+        `${this.getCalendarPath(source)}/calendarView?startDateTime=${encodeURIComponent(startDate.toISOString())}` +
+        `&endDateTime=${encodeURIComponent(endDate.toISOString())}&$select=${AppConstants.GRAPH_EVENT_FIELDS}` +
+        `&$orderby=start/dateTime&$top=${Math.min(maxEvents, AppConstants.API_LIMITS.MAX_EVENTS_PER_REQUEST)}`]));
+      const eventCounts = new Map<string, number>();
+
+      const failures = await this.collectBatchedPages(firstUrls, TIME_ZONE_HEADERS, (sourceId, page) => {
+        const source = calendars.get(sourceId) as ICalendarSource;
+        const items = (page.value || []) as GraphEvent[];
+        items.forEach(item => allEvents.push(this.mapGraphEventToCalendarEvent(item, source)));
+
+        const eventCount = (eventCounts.get(sourceId) || 0) + items.length;
+        eventCounts.set(sourceId, eventCount);
+        return eventCount < maxEvents ? page['@odata.nextLink'] as string | undefined : undefined;
+      }, options);
+
+      failures.forEach((response, sourceId) => {
+        console.error(`Error getting events from ${calendars.get(sourceId)?.title}. Status: ${response.status}`, response.body);
+      });
     } catch (error) {
+      if (RequestScheduler.isAbortError(error)) throw error;
       console.error('Error getting Exchange events for date range:', error);
     }
 
@@ -521,9 +894,9 @@ export class ExchangeCalendarService {
   }
 
   /**
-   * Get user's working hours
+   * Get the working hours from the user's mailbox settings
    */
-  public async getUserWorkingHours(): Promise<Record<string, unknown> | undefined> {
+  public async getUserWorkingHours(): Promise<IWorkingHours | undefined> {
     try {
       await this.initializeGraphClient();
       
@@ -536,7 +909,17 @@ export class ExchangeCalendarService {
         .select('workingHours')
         .get();
 
-      return response.workingHours;
+      const workingHours: GraphWorkingHours | undefined = response.workingHours;
+      if (!workingHours?.startTime || !workingHours.endTime) {
+        return undefined;
+      }
+
+      return WorkingHoursUtils.createWorkingHours(
+        RecurrenceUtils.mapGraphDaysOfWeek(workingHours.daysOfWeek || []),
+        workingHours.startTime.substring(0, 5),
+        workingHours.endTime.substring(0, 5),
+        DateUtils.resolveTimeZone(workingHours.timeZone?.name) || ''
+      );
     } catch (error) {
       console.warn('Could not get user working hours:', error);
       return undefined;
@@ -544,44 +927,62 @@ export class ExchangeCalendarService {
   }
 
   /**
-   * Get free/busy information for a time period
+   * Get the free/busy schedule of each attendee for a time period. Blocks come
+   * from the schedule items when Graph returns them and from the availability
+   * view otherwise.
    */
-  public async getFreeBusyInfo(calendarIds: string[], startDate: Date, endDate: Date): Promise<Record<string, unknown>[] | undefined> {
-    try {
-      await this.initializeGraphClient();
-      
-      if (!this.graphClient) {
-        return undefined;
-      }
+  public async getFreeBusyInfo(query: IFreeBusyQuery): Promise<IFreeBusyResult[]> {
+    await this.initializeGraphClient();
 
-      const requestBody = {
-        schedules: calendarIds,
+    if (!this.graphClient) {
+      throw new Error('Graph client not available');
+    }
+
+    const intervalMinutes = query.intervalMinutes || 15;
+    const response = await this.graphClient
+      .api('/me/calendar/getSchedule')
+      .post({
+        schedules: query.attendees,
         startTime: {
-          dateTime: startDate.toISOString(),
+          dateTime: query.startDate.toISOString(),
           timeZone: 'UTC'
         },
         endTime: {
-          dateTime: endDate.toISOString(),
+          dateTime: query.endDate.toISOString(),
           timeZone: 'UTC'
         },
-        availabilityViewInterval: 15 // 15-minute intervals
-      };
+        availabilityViewInterval: intervalMinutes
+      });
 
-      const response = await this.graphClient
-        .api('/me/calendar/getSchedule')
-        .post(requestBody);
+    return ((response.value || []) as GraphScheduleInformation[]).map(schedule => {
+      const scheduleItems = (schedule.scheduleItems || []).filter(item => item.status !== 'free' && item.status !== 'unknown');
 
-      return response.value;
-    } catch (error) {
-      console.warn('Could not get free/busy information:', error);
-      return undefined;
-    }
+      return {
+        attendee: schedule.scheduleId,
+        timeSlots: scheduleItems.length > 0
+          ? scheduleItems.map(item => ({
+            start: DateUtils.parseInTimeZone(item.start.dateTime, item.start.timeZone),
+            end: DateUtils.parseInTimeZone(item.end.dateTime, item.end.timeZone),
+            status: item.status === 'oof' ? 'outOfOffice' : item.status as IFreeBusyTimeSlot['status'],
+            subject: item.isPrivate ? undefined : item.subject,
+            location: item.isPrivate ? undefined : item.location
+          }))
+          : SchedulingUtils.decodeAvailabilityView(schedule.availabilityView || '', query.startDate, intervalMinutes),
+        workingHours: schedule.workingHours && {
+          timeZone: DateUtils.resolveTimeZone(schedule.workingHours.timeZone?.name) || 'UTC',
+          daysOfWeek: RecurrenceUtils.mapGraphDaysOfWeek(schedule.workingHours.daysOfWeek || []),
+          startTime: (schedule.workingHours.startTime || '').substring(0, 5),
+          endTime: (schedule.workingHours.endTime || '').substring(0, 5)
+        },
+        error: schedule.error?.message
+      };
+    });
   }
 
   /**
    * Create a new event in Exchange calendar
    */
-  public async createEvent(calendarId: string, eventData: Record<string, unknown>): Promise<ICalendarEvent | undefined> {
+  public async createEvent(source: ICalendarSource, eventData: Record<string, unknown>): Promise<ICalendarEvent> {
     try {
       await this.initializeGraphClient();
       
@@ -590,18 +991,10 @@ export class ExchangeCalendarService {
       }
 
       const response = await this.graphClient
-        .api(`/me/calendars/${calendarId}/events`)
+        .api(`${this.getCalendarPath(source)}/events`)
         .post(eventData);
 
-      // Find the calendar source to map the event correctly
-      const calendarSources = await this.getExchangeCalendars();
-      const source = calendarSources.find(s => s.id === calendarId);
-      
-      if (source) {
-        return this.mapGraphEventToCalendarEvent(response, source);
-      }
-
-      return undefined;
+      return this.mapGraphEventToCalendarEvent(response, source);
     } catch (error) {
       console.error('Error creating event:', error);
       throw error;
@@ -611,7 +1004,7 @@ export class ExchangeCalendarService {
   /**
    * Update an existing event
    */
-  public async updateEvent(calendarId: string, eventId: string, eventData: Record<string, unknown>): Promise<ICalendarEvent | undefined> {
+  public async updateEvent(source: ICalendarSource, eventId: string, eventData: Record<string, unknown>): Promise<ICalendarEvent> {
     try {
       await this.initializeGraphClient();
       
@@ -620,18 +1013,10 @@ export class ExchangeCalendarService {
       }
 
       const response = await this.graphClient
-        .api(`/me/calendars/${calendarId}/events/${eventId}`)
+        .api(`${this.getCalendarPath(source)}/events/${this.getGraphEventId(source.id, eventId)}`)
         .patch(eventData);
 
-      // Find the calendar source to map the event correctly
-      const calendarSources = await this.getExchangeCalendars();
-      const source = calendarSources.find(s => s.id === calendarId);
-      
-      if (source) {
-        return this.mapGraphEventToCalendarEvent(response, source);
-      }
-
-      return undefined;
+      return this.mapGraphEventToCalendarEvent(response, source);
     } catch (error) {
       console.error('Error updating event:', error);
       throw error;
@@ -641,7 +1026,7 @@ export class ExchangeCalendarService {
   /**
    * Delete an event
    */
-  public async deleteEvent(calendarId: string, eventId: string): Promise<boolean> {
+  public async deleteEvent(source: ICalendarSource, eventId: string): Promise<boolean> {
     try {
       await this.initializeGraphClient();
       
@@ -650,7 +1035,7 @@ export class ExchangeCalendarService {
       }
 
       await this.graphClient
-        .api(`/me/calendars/${calendarId}/events/${eventId}`)
+        .api(`${this.getCalendarPath(source)}/events/${this.getGraphEventId(source.id, eventId)}`)
         .delete();
 
       return true;
@@ -660,6 +1045,37 @@ export class ExchangeCalendarService {
     }
   }
 
+  /**
+   * Get a single event. A series master comes with its rule.
+   */
+  public async getEventById(source: ICalendarSource, eventId: string): Promise<ICalendarEvent> {
+    await this.initializeGraphClient();
+
+    if (!this.graphClient) {
+      throw new Error('Graph client not available');
+    }
+
+    const graphEvent: GraphEvent = await this.graphClient
+      .api(`${this.getCalendarPath(source)}/events/${this.getGraphEventId(source.id, eventId)}`)
+      .headers(TIME_ZONE_HEADERS)
+      .select(AppConstants.GRAPH_EVENT_FIELDS)
+      .get();
+
+    const event = this.mapGraphEventToCalendarEvent(graphEvent, source);
+    const recurrencePattern = graphEvent.recurrence
+      ? RecurrenceUtils.parseGraphRecurrence(graphEvent.recurrence as Record<string, unknown>)
+      : undefined;
+    return recurrencePattern ? { ...event, recurrencePattern, seriesStart: event.start } : event;
+  }
+
+  /**
+   * Graph ID of an event, from the ID it was given when mapped
+   */
+  private getGraphEventId(calendarId: string, eventId: string): string {
+    const prefix = `ex_${calendarId}_`;
+    return eventId.indexOf(prefix) === 0 ? eventId.substring(prefix.length) : eventId;
+  }
+
   /**
    * Get calendar permissions for current user
    */
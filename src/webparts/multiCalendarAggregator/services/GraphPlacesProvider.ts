@@ -0,0 +1,107 @@
+import { WebPartContext } from '@microsoft/sp-webpart-base';
+import { MSGraphClientV3 } from '@microsoft/sp-http-msgraph';
+import { IMeetingRoom, IRoomList, IPlacesProvider } from '../models/IEventModels';
+import { AppConstants } from '../constants/AppConstants';
+import { PagingUtils } from '../utils/PagingUtils';
+
+interface GraphRoomList {
+  id: string;
+  displayName: string;
+  emailAddress: string;
+}
+
+interface GraphRoom {
+  id: string;
+  displayName: string;
+  emailAddress: string;
+  capacity?: number;
+  building?: string;
+  floorLabel?: string;
+  floorNumber?: number;
+  label?: string;
+  audioDeviceName?: string;
+  videoDeviceName?: string;
+  displayDeviceName?: string;
+  isWheelChairAccessible?: boolean;
+  tags?: string[];
+}
+
+/**
+ * Rooms from the Graph places API
+ */
+export class GraphPlacesProvider implements IPlacesProvider {
+  private context: WebPartContext;
+  private graphClient: MSGraphClientV3 | undefined;
+
+  constructor(context: WebPartContext) {
+    this.context = context;
+  }
+
+  public async getRoomLists(): Promise<IRoomList[]> {
+    const graphClient = await this.getGraphClient();
+    const fetchPage = PagingUtils.graphPageFetcher<GraphRoomList>(graphClient, signal => graphClient
+      .api('/places/microsoft.graph.roomlist')
+      .option('signal', signal)
+      .get());
+
+    const result = await PagingUtils.collectPages(fetchPage, { maxItems: AppConstants.API_LIMITS.MAX_ROOMS_PER_QUERY });
+    return result.items.map(roomList => ({
+      id: roomList.id,
+      name: roomList.displayName,
+      email: roomList.emailAddress
+    }));
+  }
+
+  public async getRooms(roomListEmail?: string): Promise<IMeetingRoom[]> {
+    const graphClient = await this.getGraphClient();
+    const path = roomListEmail
+      ? `/places/${encodeURIComponent(roomListEmail)}/microsoft.graph.roomlist/rooms`
+      : '/places/microsoft.graph.room';
+    const fetchPage = PagingUtils.graphPageFetcher<GraphRoom>(graphClient, signal => graphClient
+      .api(path)
+      .top(100)
+      .option('signal', signal)
+      .get());
+
+    const result = await PagingUtils.collectPages(fetchPage, { maxItems: AppConstants.API_LIMITS.MAX_ROOMS_PER_QUERY });
+    return result.items.map(room => this.mapRoom(room));
+  }
+
+  private async getGraphClient(): Promise<MSGraphClientV3> {
+    if (!this.graphClient) {
+      try {
+        this.graphClient = await this.context.msGraphClientFactory.getClient('3');
+      } catch (error) {
+        console.error('Failed to initialize Graph client:', error);
+        throw new Error(AppConstants.ERROR_MESSAGES.GRAPH_API_ERROR);
+      }
+    }
+    return this.graphClient;
+  }
+
+  /**
+   * Devices and accessibility become equipment alongside the room's tags
+   */
+  private mapRoom(room: GraphRoom): IMeetingRoom {
+    const equipment = [
+      room.audioDeviceName ? 'Audio' : undefined,
+      room.videoDeviceName ? 'Video' : undefined,
+      room.displayDeviceName ? 'Display' : undefined,
+      room.isWheelChairAccessible ? 'Wheelchair accessible' : undefined,
+      ...(room.tags || [])
+    ].filter((item): item is string => !!item);
+
+    const floor = room.floorLabel || (room.floorNumber !== undefined && room.floorNumber !== null ? String(room.floorNumber) : undefined);
+
+    return {
+      id: room.id,
+      name: room.displayName,
+      email: room.emailAddress,
+      capacity: room.capacity || 0,
+      equipment,
+      building: room.building || undefined,
+      floor,
+      location: [room.displayName, room.building, floor ? `Floor ${floor}` : undefined].filter(Boolean).join(', ')
+    };
+  }
+}
@@ -0,0 +1,192 @@
+import { WebPartContext } from '@microsoft/sp-webpart-base';
+import { Guid } from '@microsoft/sp-core-library';
+import { ICalendarEvent, ICalendarSource, CalendarSourceType } from '../models/ICalendarModels';
+import { IEventImportResult } from '../models/IEventModels';
+import { AppConstants } from '../constants/AppConstants';
+import { ImportUtils } from '../utils/ImportUtils';
+import { ColorUtils } from '../utils/ColorUtils';
+import { IPagedResult } from '../utils/PagingUtils';
+
+/**
+ * Imported calendar as kept in local storage. The file itself is stored so
+ * recurring series are expanded relative to the day they are viewed.
+ */
+interface IStoredImportedCalendar {
+  source: ICalendarSource;
+  content: string;
+  fileName: string;
+}
+
+/**
+ * Read-only calendars imported from .ics files, kept per user in the browser
+ * until they are removed
+ */
+export class ImportedCalendarService {
+  private context: WebPartContext;
+
+  constructor(context: WebPartContext) {
+    this.context = context;
+  }
+
+  /**
+   * Get the imported calendars of the current user
+   */
+  public getImportedCalendars(): ICalendarSource[] {
+    return this.readCalendars().map(calendar => calendar.source);
+  }
+
+  /**
+   * Parse an .ics file and, when it contains events, register it as a new source.
+   * The result lists what was skipped, with line numbers.
+   */
+  public importCalendar(fileName: string, content: string): { source?: ICalendarSource; result: IEventImportResult } {
+    const calendars = this.readCalendars();
+
+    if (content.length > AppConstants.ICS_IMPORT.MAX_FILE_SIZE_BYTES) {
+      return { result: this.createFailedResult(`The file is larger than ${Math.round(AppConstants.ICS_IMPORT.MAX_FILE_SIZE_BYTES / 1024 / 1024)} MB`) };
+    }
+    if (calendars.length >= AppConstants.ICS_IMPORT.MAX_CALENDARS) {
+      return { result: this.createFailedResult(`No more than ${AppConstants.ICS_IMPORT.MAX_CALENDARS} calendars can be imported; remove one first`) };
+    }
+
+    const title = ImportUtils.getICSCalendarName(content) || fileName.replace(/\.ics$/i, '');
+    const source: ICalendarSource = {
+      id: Guid.newGuid().toString(),
+      title,
+      description: `Imported from ${fileName}`,
+      type: CalendarSourceType.ICS,
+      url: '',
+      siteTitle: fileName,
+      siteUrl: this.context.pageContext.web.absoluteUrl,
+      color: ColorUtils.getColorByIndex(calendars.length + 1),
+      isEnabled: true,
+      lastModified: new Date().toISOString(),
+      canEdit: false,
+      canShare: false
+    };
+
+    const result = ImportUtils.parseICSContent(content, source);
+    if (result.successCount === 0) {
+      return { result };
+    }
+
+    calendars.push({ source: { ...source, itemCount: result.successCount }, content, fileName });
+    if (!this.writeCalendars(calendars)) {
+      return { result: { ...result, ...this.createFailedResult('The calendar is too large to keep in this browser') } };
+    }
+
+    return { source: calendars[calendars.length - 1].source, result };
+  }
+
+  /**
+   * Remove an imported calendar
+   */
+  public removeImportedCalendar(sourceId: string): void {
+    this.writeCalendars(this.readCalendars().filter(calendar => calendar.source.id !== sourceId));
+  }
+
+  /**
+   * Show or hide an imported calendar
+   */
+  public setCalendarEnabled(sourceId: string, isEnabled: boolean): void {
+    this.writeCalendars(this.readCalendars().map(calendar => calendar.source.id === sourceId
+      ? { ...calendar, source: { ...calendar.source, isEnabled } }
+      : calendar));
+  }
+
+  /**
+   * Get events from an imported calendar
+   */
+  public async getEventsFromCalendar(source: ICalendarSource, maxEvents: number = 100): Promise<IPagedResult<ICalendarEvent>> {
+    const calendar = this.readCalendars().find(stored => stored.source.id === source.id);
+    if (!calendar) {
+      throw new Error(AppConstants.ERROR_MESSAGES.CALENDAR_NOT_FOUND);
+    }
+
+    const events = ImportUtils.parseICSContent(calendar.content, source).importedEvents as ICalendarEvent[];
+    return {
+      items: events.slice(0, maxEvents),
+      truncated: events.length > maxEvents,
+      pageCount: 1
+    };
+  }
+
+  /**
+   * Search events in imported calendars
+   */
+  public async searchEvents(sources: ICalendarSource[], query: string, maxResults: number = 50): Promise<ICalendarEvent[]> {
+    const searchTerm = query.toLowerCase();
+    const results: ICalendarEvent[] = [];
+
+    for (const source of sources) {
+      const { items } = await this.getEventsFromCalendar(source, AppConstants.API_LIMITS.MAX_EVENTS_PER_REQUEST);
+      results.push(...items.filter(event =>
+        event.title.toLowerCase().includes(searchTerm) ||
+        event.description.toLowerCase().includes(searchTerm) ||
+        (event.location || '').toLowerCase().includes(searchTerm)
+      ));
+    }
+
+    return results.slice(0, maxResults);
+  }
+
+  /**
+   * Get events from imported calendars that overlap a date range
+   */
+  public async getEventsForDateRange(
+    sources: ICalendarSource[],
+    startDate: Date,
+    endDate: Date,
+    maxEvents: number = 1000
+  ): Promise<ICalendarEvent[]> {
+    const events: ICalendarEvent[] = [];
+
+    for (const source of sources) {
+      const calendar = this.readCalendars().find(stored => stored.source.id === source.id);
+      if (calendar) {
+        const imported = ImportUtils.parseICSContent(calendar.content, source, startDate, endDate).importedEvents as ICalendarEvent[];
+        events.push(...imported.filter(event => event.start <= endDate && event.end >= startDate));
+      }
+    }
+
+    return events.slice(0, maxEvents);
+  }
+
+  private getStorageKey(): string {
+    return `${AppConstants.STORAGE_KEYS.IMPORTED_CALENDARS}-${this.context.pageContext.user.loginName.toLowerCase()}`;
+  }
+
+  private readCalendars(): IStoredImportedCalendar[] {
+    try {
+      const stored = localStorage.getItem(this.getStorageKey());
+      return stored ? JSON.parse(stored) as IStoredImportedCalendar[] : [];
+    } catch (error) {
+      console.warn('Could not read imported calendars:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Save imported calendars; returns false when storage is full or unavailable
+   */
+  private writeCalendars(calendars: IStoredImportedCalendar[]): boolean {
+    try {
+      localStorage.setItem(this.getStorageKey(), JSON.stringify(calendars));
+      return true;
+    } catch (error) {
+      console.warn('Could not save imported calendars:', error);
+      return false;
+    }
+  }
+
+  private createFailedResult(message: string): IEventImportResult {
+    return {
+      successCount: 0,
+      errorCount: 1,
+      warningCount: 0,
+      errors: [{ message }],
+      warnings: [],
+      importedEvents: []
+    };
+  }
+}
@@ -0,0 +1,235 @@
+import { AppConstants } from '../constants/AppConstants';
+
+// Cached values, and what is known about each without reading the value
+const ENTRIES_STORE = 'entries';
+const INFO_STORE = 'info';
+
+export interface IStoredCacheItem {
+  data: unknown;
+  timestamp: number;
+  expiry: number;
+  size: number;
+}
+
+interface IStoredEntryInfo {
+  key: string; // Key without the namespace
+  size: number;
+  expiry: number;
+  lastAccess: number;
+}
+
+const toPromise = <T>(request: IDBRequest<T>): Promise<T> => new Promise<T>((resolve, reject) => {
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+const whenComplete = (transaction: IDBTransaction): Promise<void> => new Promise<void>((resolve, reject) => {
+  transaction.oncomplete = () => resolve();
+  transaction.onerror = () => reject(transaction.error);
+  transaction.onabort = () => reject(transaction.error);
+});
+
+/**
+ * The persistent tier of the cache, kept in IndexedDB so that a page load can
+ * start from what the last one loaded. Entries are namespaced per user and
+ * site and evicted least recently used first once the size budget is spent.
+ */
+export class IndexedDbCacheStore {
+  private namespace: string;
+  private database: Promise<IDBDatabase | undefined>;
+  private entries = new Map<string, IStoredEntryInfo>();
+  private accessedKeys = new Set<string>();
+  private accessFlushTimer: number | undefined;
+
+  constructor(namespace: string) {
+    this.namespace = namespace;
+    this.database = this.open();
+  }
+
+  /**
+   * Whether the browser offers IndexedDB at all
+   */
+  public static isSupported(): boolean {
+    return typeof indexedDB !== 'undefined';
+  }
+
+  /**
+   * Number of entries and their total size, as far as they have been read
+   */
+  public getUsage(): { items: number; size: number } {
+    let size = 0;
+    this.entries.forEach(entry => {
+      size += entry.size;
+    });
+    return { items: this.entries.size, size };
+  }
+
+  /**
+   * Read an entry, counting it as used
+   */
+  public async get(key: string): Promise<IStoredCacheItem | undefined> {
+    const database = await this.database;
+    if (!database || !this.entries.has(key)) return undefined;
+
+    try {
+      const item = await toPromise<IStoredCacheItem | undefined>(
+        database.transaction(ENTRIES_STORE, 'readonly').objectStore(ENTRIES_STORE).get(this.toStoreKey(key))
+      );
+      if (item) {
+        this.markAccessed(key);
+      } else {
+        this.entries.delete(key);
+      }
+      return item;
+    } catch (error) {
+      console.warn(`Could not read cache entry ${key}:`, error);
+      return undefined;
+    }
+  }
+
+  /**
+   * Write an entry, then evict least recently used entries until the store
+   * fits in maxSize again
+   */
+  public async put(key: string, item: IStoredCacheItem, maxSize: number): Promise<void> {
+    const database = await this.database;
+    if (!database) return;
+
+    const info: IStoredEntryInfo = { key, size: item.size, expiry: item.expiry, lastAccess: Date.now() };
+    const transaction = database.transaction([ENTRIES_STORE, INFO_STORE], 'readwrite');
+    transaction.objectStore(ENTRIES_STORE).put(item, this.toStoreKey(key));
+    transaction.objectStore(INFO_STORE).put(info, this.toStoreKey(key));
+    await whenComplete(transaction);
+    this.entries.set(key, info);
+
+    await this.evict(maxSize);
+  }
+
+  /**
+   * Remove the entries whose keys match
+   */
+  public async deleteWhere(predicate: (key: string) => boolean): Promise<void> {
+    const database = await this.database;
+    if (!database) return;
+
+    const keys = Array.from(this.entries.keys()).filter(predicate);
+    await this.deleteKeys(database, keys);
+  }
+
+  /**
+   * Remove entries that expired before a time, then the least recently used
+   * ones until the store fits in maxSize
+   */
+  public async compact(expiredBefore: number, maxSize: number): Promise<void> {
+    const database = await this.database;
+    if (!database) return;
+
+    const expiredKeys = Array.from(this.entries.values()).filter(entry => entry.expiry < expiredBefore).map(entry => entry.key);
+    await this.deleteKeys(database, expiredKeys);
+    await this.evict(maxSize);
+  }
+
+  private async evict(maxSize: number): Promise<void> {
+    const database = await this.database;
+    if (!database) return;
+
+    let { size } = this.getUsage();
+    if (size <= maxSize) return;
+
+    const evictedKeys: string[] = [];
+    Array.from(this.entries.values())
+      .sort((a, b) => a.lastAccess - b.lastAccess)
+      .forEach(entry => {
+        if (size <= maxSize) return;
+        evictedKeys.push(entry.key);
+        size -= entry.size;
+      });
+    await this.deleteKeys(database, evictedKeys);
+  }
+
+  private async deleteKeys(database: IDBDatabase, keys: string[]): Promise<void> {
+    if (keys.length === 0) return;
+
+    // Forgotten straight away so that later reads miss even before the delete completes
+    keys.forEach(key => {
+      this.entries.delete(key);
+      this.accessedKeys.delete(key);
+    });
+    const transaction = database.transaction([ENTRIES_STORE, INFO_STORE], 'readwrite');
+    keys.forEach(key => {
+      transaction.objectStore(ENTRIES_STORE).delete(this.toStoreKey(key));
+      transaction.objectStore(INFO_STORE).delete(this.toStoreKey(key));
+    });
+    await whenComplete(transaction);
+  }
+
+  /**
+   * Record that an entry was used. Access times are written in batches rather
+   * than on every read.
+   */
+  private markAccessed(key: string): void {
+    const entry = this.entries.get(key);
+    if (!entry) return;
+
+    entry.lastAccess = Date.now();
+    this.accessedKeys.add(key);
+    if (this.accessFlushTimer === undefined) {
+      this.accessFlushTimer = window.setTimeout(() => {
+        this.accessFlushTimer = undefined;
+        this.flushAccessTimes().catch(error => console.warn('Could not record cache access times:', error));
+      }, AppConstants.CACHE.ACCESS_FLUSH_MS);
+    }
+  }
+
+  private async flushAccessTimes(): Promise<void> {
+    const database = await this.database;
+    if (!database || this.accessedKeys.size === 0) return;
+
+    const transaction = database.transaction(INFO_STORE, 'readwrite');
+    this.accessedKeys.forEach(key => {
+      const entry = this.entries.get(key);
+      if (entry) {
+        transaction.objectStore(INFO_STORE).put(entry, this.toStoreKey(key));
+      }
+    });
+    this.accessedKeys.clear();
+    await whenComplete(transaction);
+  }
+
+  /**
+   * Open the database and read what is known about this namespace's entries.
+   * Undefined when IndexedDB cannot be used, leaving the memory tier on its own.
+   */
+  private async open(): Promise<IDBDatabase | undefined> {
+    if (!IndexedDbCacheStore.isSupported()) return undefined;
+
+    try {
+      const request = indexedDB.open(AppConstants.CACHE.DATABASE_NAME, AppConstants.CACHE.SCHEMA_VERSION);
+      // Entries written under another schema version are dropped rather than migrated
+      request.onupgradeneeded = () => {
+        const database = request.result;
+        Array.from(database.objectStoreNames).forEach(name => database.deleteObjectStore(name));
+        database.createObjectStore(ENTRIES_STORE);
+        database.createObjectStore(INFO_STORE);
+      };
+      const database = await toPromise(request);
+      // A newer version opened in another tab takes over the database
+      database.onversionchange = () => database.close();
+
+      const range = IDBKeyRange.bound(this.toStoreKey(''), this.toStoreKey('\uffff'));
+      const entries = await toPromise<IStoredEntryInfo[]>(
+        database.transaction(INFO_STORE, 'readonly').objectStore(INFO_STORE).getAll(range)
+      );
+      entries.forEach(entry => this.entries.set(entry.key, entry));
+
+      return database;
+    } catch (error) {
+      console.warn('The persistent cache is not available, caching in memory only:', error);
+      return undefined;
+    }
+  }
+
+  private toStoreKey(key: string): string {
+    return `${this.namespace}|${key}`;
+  }
+}
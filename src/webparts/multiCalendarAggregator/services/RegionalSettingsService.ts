@@ -0,0 +1,85 @@
+import { WebPartContext } from '@microsoft/sp-webpart-base';
+import { SPHttpClient, SPHttpClientResponse } from '@microsoft/sp-http';
+import { AppConstants } from '../constants/AppConstants';
+import { DateUtils } from '../utils/DateUtils';
+
+interface SharePointTimeZone {
+  Id: number;
+  Description: string;
+  Information?: {
+    Bias: number; // Minutes to add to local time to get UTC
+  };
+}
+
+export class RegionalSettingsService {
+  // Shared across instances so each site is only asked once per page load
+  private static timeZones: Map<string, Promise<string | undefined>> = new Map();
+  private context: WebPartContext;
+
+  constructor(context: WebPartContext) {
+    this.context = context;
+  }
+
+  /**
+   * Get the IANA time zone from a site's regional settings
+   */
+  public getSiteTimeZone(siteUrl?: string): Promise<string | undefined> {
+    const url = (siteUrl || this.context.pageContext.web.absoluteUrl).toLowerCase();
+
+    let timeZone = RegionalSettingsService.timeZones.get(url);
+    if (!timeZone) {
+      timeZone = this.fetchSiteTimeZone(url);
+      RegionalSettingsService.timeZones.set(url, timeZone);
+    }
+
+    return timeZone;
+  }
+
+  /**
+   * Load and resolve the regional time zone of a site
+   */
+  private async fetchSiteTimeZone(siteUrl: string): Promise<string | undefined> {
+    try {
+      const response: SPHttpClientResponse = await this.context.spHttpClient.get(
+        `${siteUrl}${AppConstants.SHAREPOINT_API.REGIONAL_TIMEZONE_ENDPOINT}`,
+        SPHttpClient.configurations.v1,
+        {
+          headers: {
+            'Accept': 'application/json;odata=verbose'
+          }
+        }
+      );
+
+      if (!response.ok) {
+        console.warn(`Could not read regional settings for ${siteUrl}. Status: ${response.status}`);
+        return undefined;
+      }
+
+      const data = await response.json();
+      return this.resolveSharePointTimeZone(data.d || data);
+    } catch (error) {
+      console.warn(`Could not read regional settings for ${siteUrl}:`, error);
+      return undefined;
+    }
+  }
+
+  /**
+   * Map a SharePoint time zone to an IANA zone. Unknown ids fall back to a
+   * fixed offset from the standard bias, which ignores daylight saving.
+   */
+  private resolveSharePointTimeZone(timeZone: SharePointTimeZone): string | undefined {
+    const mapped = DateUtils.resolveTimeZone(AppConstants.SHAREPOINT_TIMEZONES[timeZone.Id]);
+    if (mapped) {
+      return mapped;
+    }
+
+    const bias = timeZone.Information?.Bias;
+    if (bias === undefined || bias % 60 !== 0) {
+      return undefined;
+    }
+
+    // Etc/GMT zones use POSIX signs, which match SharePoint's bias direction
+    const hours = bias / 60;
+    return DateUtils.resolveTimeZone(hours === 0 ? 'UTC' : `Etc/GMT${hours > 0 ? '+' : ''}${hours}`);
+  }
+}
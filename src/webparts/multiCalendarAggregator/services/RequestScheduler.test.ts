@@ -0,0 +1,103 @@
+import { RequestScheduler, RequestPriority } from './RequestScheduler';
+import { AppConstants } from '../constants/AppConstants';
+
+const LIMIT = AppConstants.API_LIMITS.MAX_CONCURRENT_REQUESTS;
+
+interface IPendingTask {
+  task: (signal?: AbortSignal) => Promise<string>;
+  resolve: () => void;
+  signals: (AbortSignal | undefined)[];
+}
+
+// A task that runs until it is resolved, recording when it starts
+const createTask = (name: string, started: string[]): IPendingTask => {
+  let finish: () => void = () => undefined;
+  const signals: (AbortSignal | undefined)[] = [];
+  const task = (signal?: AbortSignal): Promise<string> => {
+    started.push(name);
+    signals.push(signal);
+    return new Promise<string>(resolve => {
+      finish = () => resolve(name);
+    });
+  };
+  return { task, resolve: () => finish(), signals };
+};
+
+const flush = (): Promise<void> => new Promise<void>(resolve => setTimeout(resolve, 0));
+
+describe('RequestScheduler.schedule', () => {
+  it('keeps the number of running tasks under the limit and starts waiting ones by priority', async () => {
+    const scheduler = new RequestScheduler();
+    const started: string[] = [];
+    const running = Array.from({ length: LIMIT }, (_, index) => createTask(`visible-${index}`, started));
+    running.forEach(({ task }) => scheduler.schedule(task));
+    const prefetch = createTask('prefetch', started);
+    const visible = createTask('visible', started);
+
+    const prefetched = scheduler.schedule(prefetch.task, { priority: RequestPriority.Prefetch });
+    const shown = scheduler.schedule(visible.task);
+
+    expect(started).toHaveLength(LIMIT);
+    expect(scheduler.getStats()).toEqual({ running: LIMIT, queued: 2 });
+
+    running[0].resolve();
+    await flush();
+    expect(started[LIMIT]).toBe('visible');
+
+    running[1].resolve();
+    await flush();
+    expect(started[LIMIT + 1]).toBe('prefetch');
+
+    visible.resolve();
+    prefetch.resolve();
+    await expect(Promise.all([shown, prefetched])).resolves.toEqual(['visible', 'prefetch']);
+  });
+
+  it('drops cancelled tasks from the queue and passes the signal to running ones', async () => {
+    const scheduler = new RequestScheduler();
+    const started: string[] = [];
+    const running = Array.from({ length: LIMIT }, (_, index) => createTask(`running-${index}`, started));
+    const controller = new AbortController();
+    running.forEach(({ task }) => scheduler.schedule(task, { signal: controller.signal }));
+    const waiting = scheduler.schedule(createTask('waiting', started).task, { signal: controller.signal });
+
+    controller.abort();
+
+    await expect(waiting).rejects.toMatchObject({ name: 'AbortError' });
+    expect(scheduler.getStats()).toEqual({ running: LIMIT, queued: 0 });
+    expect(running[0].signals[0]?.aborted).toBe(true);
+    await expect(scheduler.schedule(createTask('late', started).task, { signal: controller.signal })).rejects.toMatchObject({ name: 'AbortError' });
+    expect(started).not.toContain('waiting');
+    expect(started).not.toContain('late');
+  });
+
+  it('frees the slot of a task that fails', async () => {
+    const scheduler = new RequestScheduler();
+
+    await expect(scheduler.schedule(() => Promise.reject(new Error('Service unavailable')))).rejects.toThrow('Service unavailable');
+
+    expect(scheduler.getStats()).toEqual({ running: 0, queued: 0 });
+  });
+});
+
+describe('RequestScheduler.delay', () => {
+  beforeEach(() => jest.useFakeTimers());
+  afterEach(() => jest.useRealTimers());
+
+  it('waits for the time given unless cancelled first', async () => {
+    const waited = jest.fn();
+    RequestScheduler.delay(1000).then(waited, () => undefined);
+
+    jest.advanceTimersByTime(999);
+    await Promise.resolve();
+    expect(waited).not.toHaveBeenCalled();
+    jest.advanceTimersByTime(1);
+    await Promise.resolve();
+    expect(waited).toHaveBeenCalled();
+
+    const controller = new AbortController();
+    const cancelled = RequestScheduler.delay(1000, controller.signal);
+    controller.abort();
+    await expect(cancelled).rejects.toMatchObject({ name: 'AbortError' });
+  });
+});
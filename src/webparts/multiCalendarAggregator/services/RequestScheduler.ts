@@ -0,0 +1,143 @@
+import { AppConstants } from '../constants/AppConstants';
+
+/**
+ * Order in which waiting requests are started; lower starts first
+ */
+export enum RequestPriority {
+  Visible = 0, // Data for the dates on screen
+  Prefetch = 1 // Data loaded ahead of being looked at
+}
+
+export interface IRequestOptions {
+  priority?: RequestPriority;
+  signal?: AbortSignal; // Cancels the request, whether it is waiting or running
+}
+
+interface IQueuedRequest {
+  priority: RequestPriority;
+  sequence: number;
+  signal?: AbortSignal;
+  start: () => void;
+  cancel: () => void;
+}
+
+/**
+ * Shared queue that keeps at most MAX_CONCURRENT_REQUESTS requests in flight
+ * across all calendars. Each task should make one request at a time, such as
+ * a batch or a chain of pages. Waiting tasks start by priority, then in the
+ * order they were scheduled.
+ */
+export class RequestScheduler {
+  private static instance: RequestScheduler;
+  private queue: IQueuedRequest[] = [];
+  private running = 0;
+  private sequence = 0;
+
+  /**
+   * Singleton pattern - get instance
+   */
+  public static getInstance(): RequestScheduler {
+    if (!RequestScheduler.instance) {
+      RequestScheduler.instance = new RequestScheduler();
+    }
+    return RequestScheduler.instance;
+  }
+
+  /**
+   * The error a cancelled request is rejected with
+   */
+  public static createAbortError(): Error {
+    const error = new Error('The request was cancelled');
+    error.name = 'AbortError';
+    return error;
+  }
+
+  /**
+   * Whether a request failed because it was cancelled
+   */
+  public static isAbortError(error: unknown): boolean {
+    return (error as Error | undefined)?.name === 'AbortError';
+  }
+
+  /**
+   * Wait for a time, rejecting with an abort error if cancelled first
+   */
+  public static delay(milliseconds: number, signal?: AbortSignal): Promise<void> {
+    if (signal?.aborted) {
+      return Promise.reject(RequestScheduler.createAbortError());
+    }
+
+    return new Promise<void>((resolve, reject) => {
+      const timer = { id: 0 };
+      const onAbort = (): void => {
+        window.clearTimeout(timer.id);
+        reject(RequestScheduler.createAbortError());
+      };
+      timer.id = window.setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+      }, milliseconds);
+      signal?.addEventListener('abort', onAbort);
+    });
+  }
+
+  /**
+   * Number of tasks running and waiting
+   */
+  public getStats(): { running: number; queued: number } {
+    return { running: this.running, queued: this.queue.length };
+  }
+
+  /**
+   * Run a task once a slot is free. The task receives the signal so that it
+   * can pass it on to fetch and stop when it is cancelled.
+   */
+  public schedule<T>(task: (signal?: AbortSignal) => Promise<T>, options: IRequestOptions = {}): Promise<T> {
+    const { priority = RequestPriority.Visible, signal } = options;
+    if (signal?.aborted) {
+      return Promise.reject(RequestScheduler.createAbortError());
+    }
+
+    return new Promise<T>((resolve, reject) => {
+      const request: IQueuedRequest = {
+        priority,
+        sequence: this.sequence++,
+        signal,
+        start: () => {
+          signal?.removeEventListener('abort', request.cancel);
+          this.running++;
+          task(signal)
+            .then(resolve, reject)
+            .finally(() => {
+              this.running--;
+              this.startNext();
+            });
+        },
+        // Only listened to while waiting; a running task is stopped through the signal it was given
+        cancel: () => {
+          const index = this.queue.indexOf(request);
+          if (index !== -1) {
+            this.queue.splice(index, 1);
+          }
+          reject(RequestScheduler.createAbortError());
+        }
+      };
+
+      signal?.addEventListener('abort', request.cancel);
+      this.queue.push(request);
+      this.queue.sort((a, b) => a.priority - b.priority || a.sequence - b.sequence);
+      this.startNext();
+    });
+  }
+
+  private startNext(): void {
+    while (this.running < AppConstants.API_LIMITS.MAX_CONCURRENT_REQUESTS && this.queue.length > 0) {
+      const request = this.queue.shift() as IQueuedRequest;
+      if (request.signal?.aborted) {
+        request.cancel();
+      } else {
+        request.start();
+      }
+    }
+  }
+}
@@ -0,0 +1,60 @@
+jest.mock('@microsoft/sp-http', () => ({ SPHttpClient: { configurations: { v1: {} } } }));
+
+import { WebPartContext } from '@microsoft/sp-webpart-base';
+import { RoomService } from './RoomService';
+import { ExchangeCalendarService } from './ExchangeCalendarService';
+import { IMeetingRoom, IPlacesProvider } from '../models/IEventModels';
+import { AppConstants } from '../constants/AppConstants';
+
+const context = { msGraphClientFactory: { getClient: jest.fn() } } as unknown as WebPartContext;
+
+const createRoom = (name: string, changes: Partial<IMeetingRoom> = {}): IMeetingRoom => ({
+  id: name,
+  name,
+  email: `${name.toLowerCase()}@contoso.com`,
+  capacity: 8,
+  ...changes
+});
+
+const createProvider = (rooms: IMeetingRoom[]): IPlacesProvider => ({
+  getRoomLists: async () => [],
+  getRooms: jest.fn(async () => rooms)
+});
+
+describe('RoomService.findRooms', () => {
+  afterEach(() => jest.restoreAllMocks());
+
+  it('lists matching rooms by name without a time slot', async () => {
+    const getFreeBusyInfo = jest.spyOn(ExchangeCalendarService.prototype, 'getFreeBusyInfo');
+    const provider = createProvider([createRoom('Harbour'), createRoom('Fjord'), createRoom('Closet', { capacity: 2 })]);
+
+    const rooms = await new RoomService(context, provider).findRooms({ roomList: 'oslo@contoso.com', minCapacity: 4 });
+
+    expect(provider.getRooms).toHaveBeenCalledWith('oslo@contoso.com');
+    expect(rooms.map(room => room.name)).toEqual(['Fjord', 'Harbour']);
+    expect(getFreeBusyInfo).not.toHaveBeenCalled();
+  });
+
+  it('marks rooms booked in the slot as unavailable, whatever their listed hours', async () => {
+    const start = new Date('2026-03-04T14:00:00Z');
+    const end = new Date('2026-03-04T15:00:00Z');
+    jest.spyOn(ExchangeCalendarService.prototype, 'getFreeBusyInfo').mockResolvedValue([
+      { attendee: 'Fjord@contoso.com', timeSlots: [{ start, end, status: 'busy' }] },
+      { attendee: 'harbour@contoso.com', timeSlots: [], workingHours: { timeZone: 'UTC', daysOfWeek: [1], startTime: '09:00', endTime: '10:00' } }
+    ]);
+
+    const rooms = await new RoomService(context, createProvider([createRoom('Fjord'), createRoom('Harbour')])).findRooms({}, start, end);
+
+    expect(rooms.map(room => [room.name, room.isAvailable])).toEqual([['Fjord', false], ['Harbour', true]]);
+  });
+
+  it('reads schedules in batches Graph accepts', async () => {
+    const count = AppConstants.API_LIMITS.MAX_SCHEDULES_PER_REQUEST + 1;
+    const getFreeBusyInfo = jest.spyOn(ExchangeCalendarService.prototype, 'getFreeBusyInfo').mockResolvedValue([]);
+    const provider = createProvider(Array.from({ length: count }, (_, index) => createRoom(`Room ${String(index).padStart(3, '0')}`)));
+
+    await new RoomService(context, provider).findRooms({}, new Date(), new Date());
+
+    expect(getFreeBusyInfo.mock.calls.map(call => call[0].attendees.length)).toEqual([count - 1, 1]);
+  });
+});
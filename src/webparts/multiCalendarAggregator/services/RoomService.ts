@@ -0,0 +1,56 @@
+import { WebPartContext } from '@microsoft/sp-webpart-base';
+import { IMeetingRoom, IRoomList, IRoomSearchCriteria, IPlacesProvider } from '../models/IEventModels';
+import { AppConstants } from '../constants/AppConstants';
+import { SchedulingUtils } from '../utils/SchedulingUtils';
+import { ExchangeCalendarService } from './ExchangeCalendarService';
+import { GraphPlacesProvider } from './GraphPlacesProvider';
+
+/**
+ * Room service for finding meeting rooms and checking whether they are free
+ */
+export class RoomService {
+  private placesProvider: IPlacesProvider;
+  private exchangeService: ExchangeCalendarService;
+
+  // A local stand-in for the places API can be passed in development
+  constructor(context: WebPartContext, placesProvider?: IPlacesProvider) {
+    this.placesProvider = placesProvider || new GraphPlacesProvider(context);
+    this.exchangeService = new ExchangeCalendarService(context);
+  }
+
+  /**
+   * Get the room lists of the organisation
+   */
+  public getRoomLists(): Promise<IRoomList[]> {
+    return this.placesProvider.getRoomLists();
+  }
+
+  /**
+   * Find rooms matching the criteria. With a time slot each room is marked
+   * available or not from its schedule.
+   */
+  public async findRooms(criteria: IRoomSearchCriteria, start?: Date, end?: Date): Promise<IMeetingRoom[]> {
+    const rooms = SchedulingUtils.filterRooms(await this.placesProvider.getRooms(criteria.roomList), criteria)
+      .sort((a, b) => a.name.localeCompare(b.name));
+
+    if (!start || !end || rooms.length === 0) {
+      return rooms;
+    }
+
+    const availability = new Map<string, boolean>();
+    for (let index = 0; index < rooms.length; index += AppConstants.API_LIMITS.MAX_SCHEDULES_PER_REQUEST) {
+      const batch = rooms.slice(index, index + AppConstants.API_LIMITS.MAX_SCHEDULES_PER_REQUEST);
+      const results = await this.exchangeService.getFreeBusyInfo({
+        attendees: batch.map(room => room.email),
+        startDate: start,
+        endDate: end
+      });
+      // Rooms can be booked outside their listed hours, so only bookings count
+      results.forEach(result => {
+        availability.set(result.attendee.toLowerCase(), SchedulingUtils.isAvailable({ ...result, workingHours: undefined }, start, end, 'UTC'));
+      });
+    }
+
+    return rooms.map(room => ({ ...room, isAvailable: availability.get(room.email.toLowerCase()) }));
+  }
+}
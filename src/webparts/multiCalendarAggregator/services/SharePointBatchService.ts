@@ -0,0 +1,107 @@
+import { WebPartContext } from '@microsoft/sp-webpart-base';
+import { AppConstants } from '../constants/AppConstants';
+import { BatchUtils, IBatchRequest, IBatchResponse } from '../utils/BatchUtils';
+import { PagingUtils, IPage, IPagedResult } from '../utils/PagingUtils';
+import { RequestScheduler, IRequestOptions } from './RequestScheduler';
+
+/**
+ * A request and the site whose $batch endpoint it goes through
+ */
+export interface ISiteBatchRequest extends IBatchRequest {
+  siteUrl: string;
+}
+
+/**
+ * A paged query against one list
+ */
+export interface ISitePagedQuery {
+  id: string;
+  siteUrl: string;
+  url: string;
+  maxItems: number;
+}
+
+/**
+ * Combines SharePoint REST requests to the same site into $batch calls and
+ * sends them through the shared request scheduler
+ */
+export class SharePointBatchService {
+  private context: WebPartContext;
+  private scheduler: RequestScheduler;
+
+  constructor(context: WebPartContext) {
+    this.context = context;
+    this.scheduler = RequestScheduler.getInstance();
+  }
+
+  /**
+   * Send requests in as few $batch calls as each site allows. Requests in a
+   * batch that could not be sent are left out of the responses.
+   */
+  public async send(requests: ISiteBatchRequest[], options: IRequestOptions = {}): Promise<Map<string, IBatchResponse>> {
+    const requestsBySite = new Map<string, IBatchRequest[]>();
+    requests.forEach(({ siteUrl, ...request }) => {
+      requestsBySite.set(siteUrl, [...(requestsBySite.get(siteUrl) || []), request]);
+    });
+
+    const batches: { siteUrl: string; requests: IBatchRequest[] }[] = [];
+    requestsBySite.forEach((siteRequests, siteUrl) => {
+      for (let index = 0; index < siteRequests.length; index += AppConstants.API_LIMITS.MAX_SHAREPOINT_BATCH_REQUESTS) {
+        batches.push({ siteUrl, requests: siteRequests.slice(index, index + AppConstants.API_LIMITS.MAX_SHAREPOINT_BATCH_REQUESTS) });
+      }
+    });
+
+    const responses = new Map<string, IBatchResponse>();
+    await Promise.all(batches.map(async batch => {
+      try {
+        const batchResponses = await this.scheduler.schedule(
+          signal => BatchUtils.sendSharePointBatch(this.context.spHttpClient, batch.siteUrl, batch.requests, signal),
+          options
+        );
+        batchResponses.forEach((response, id) => responses.set(id, response));
+      } catch (error) {
+        if (RequestScheduler.isAbortError(error)) throw error;
+        console.warn(`Batch request to ${batch.siteUrl} failed:`, error);
+      }
+    }));
+
+    return responses;
+  }
+
+  /**
+   * Page through several list queries. The first pages of all queries on a
+   * site are requested together; later pages follow each query's own link,
+   * one query at a time per scheduler slot. A query that fails maps to its error.
+   */
+  public async collectPages<T>(queries: ISitePagedQuery[], options: IRequestOptions = {}): Promise<Map<string, IPagedResult<T> | Error>> {
+    const firstPages = await this.send(queries.map(query => ({
+      id: query.id,
+      siteUrl: query.siteUrl,
+      method: 'GET' as const,
+      url: query.url
+    })), options);
+
+    const results = new Map<string, IPagedResult<T> | Error>();
+    await Promise.all(queries.map(async query => {
+      const firstPage = firstPages.get(query.id);
+      try {
+        const result = await this.scheduler.schedule(signal => {
+          const fetchPage = PagingUtils.sharePointPageFetcher<T>(this.context.spHttpClient, query.url);
+          // Queries whose first page was not in a batch response are read on their own
+          return PagingUtils.collectPages<T>(
+            (nextLink?: string, pageSignal?: AbortSignal): Promise<IPage<T>> => !nextLink && firstPage && BatchUtils.isSuccess(firstPage)
+              ? Promise.resolve(PagingUtils.toSharePointPage<T>(firstPage.body as Record<string, unknown>))
+              : fetchPage(nextLink, pageSignal),
+            { maxItems: query.maxItems, signal }
+          );
+        }, options);
+        results.set(query.id, result);
+      } catch (error) {
+        if (RequestScheduler.isAbortError(error)) throw error;
+        results.set(query.id, error instanceof Error ? error : new Error(String(error)));
+      }
+    }));
+
+    return results;
+  }
+}
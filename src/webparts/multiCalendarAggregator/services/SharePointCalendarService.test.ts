@@ -0,0 +1,156 @@
+jest.mock('@microsoft/sp-http', () => ({ SPHttpClient: { configurations: { v1: {} } } }));
+
+import moment from 'moment';
+import 'moment-timezone';
+import { WebPartContext } from '@microsoft/sp-webpart-base';
+import { SharePointCalendarService } from './SharePointCalendarService';
+import { ICalendarSource, CalendarSourceType } from '../models/ICalendarModels';
+
+const NEW_YORK = 'America/New_York';
+
+// Regional settings are cached by site, so every test reads its own site
+let siteCount = 0;
+
+const createSource = (): ICalendarSource => ({
+  id: 'list-id',
+  title: 'Events',
+  description: '',
+  type: CalendarSourceType.SharePoint,
+  url: '',
+  siteTitle: 'Team',
+  siteUrl: `https://contoso.sharepoint.com/sites/team${++siteCount}`,
+  color: '#0078d4',
+  isEnabled: true
+});
+
+// A site in Eastern time (SharePoint time zone 10) whose calendar returns the given items,
+// and the given series items when exceptions are looked up by their series
+const createService = (items: Record<string, unknown>[], seriesItems: Record<string, unknown>[] = items): SharePointCalendarService => {
+  const get = jest.fn(async (url: string) => ({
+    ok: true,
+    status: 200,
+    json: async () => url.indexOf('/RegionalSettings/TimeZone') >= 0
+      ? { d: { Id: 10 } }
+      : { value: url.indexOf('MasterSeriesItemID eq') >= 0 ? seriesItems : items }
+  }));
+  const context = {
+    spHttpClient: { get },
+    pageContext: { web: { absoluteUrl: 'https://contoso.sharepoint.com' } }
+  } as unknown as WebPartContext;
+  return new SharePointCalendarService(context);
+};
+
+// Days from today at a wall-clock time in New York, as SharePoint returns them in UTC
+const inNewYork = (days: number, time: string): moment.Moment =>
+  moment.tz(`${moment.tz(NEW_YORK).add(days, 'days').format('YYYY-MM-DD')} ${time}`, NEW_YORK);
+const toUtc = (date: moment.Moment): string => date.toISOString().replace('.000Z', 'Z');
+
+const createItem = (id: number, fields: Record<string, unknown>): Record<string, unknown> => ({
+  Id: id,
+  Title: 'Stand-up',
+  Created: '2026-01-01T00:00:00Z',
+  Modified: '2026-01-01T00:00:00Z',
+  ...fields
+});
+
+const createDailySeries = (occurrences: number): Record<string, unknown> => createItem(1, {
+  EventDate: toUtc(inNewYork(1, '09:00')),
+  EndDate: toUtc(inNewYork(occurrences, '09:30')),
+  Duration: 1800,
+  fRecurrence: true,
+  EventType: 1,
+  RecurrenceData: '<recurrence><rule><firstDayOfWeek>su</firstDayOfWeek><repeat><daily dayFrequency="1" /></repeat>' +
+    `<repeatInstances>${occurrences}</repeatInstances></rule></recurrence>`
+});
+
+describe('SharePointCalendarService.getEventsFromCalendar', () => {
+  it('expands a series at the same wall-clock time in the site zone', async () => {
+    const result = await createService([createDailySeries(5)]).getEventsFromCalendar(createSource());
+
+    expect(result.items).toHaveLength(5);
+    result.items.forEach((event, index) => {
+      expect(moment.tz(event.start, NEW_YORK).format('YYYY-MM-DD HH:mm')).toBe(inNewYork(index + 1, '09:00').format('YYYY-MM-DD HH:mm'));
+      expect(event.end.getTime() - event.start.getTime()).toBe(30 * 60 * 1000);
+      expect(event.isRecurring).toBe(true);
+    });
+  });
+
+  it('drops deleted occurrences and shows edited ones in place of the occurrence they replace', async () => {
+    const items = [
+      createDailySeries(5),
+      createItem(2, {
+        EventDate: toUtc(inNewYork(2, '09:00')),
+        EndDate: toUtc(inNewYork(2, '09:30')),
+        EventType: 3,
+        MasterSeriesItemID: 1,
+        RecurrenceID: toUtc(inNewYork(2, '09:00'))
+      }),
+      createItem(3, {
+        Title: 'Stand-up (moved)',
+        EventDate: toUtc(inNewYork(3, '15:00')),
+        EndDate: toUtc(inNewYork(3, '15:30')),
+        EventType: 4,
+        MasterSeriesItemID: 1,
+        RecurrenceID: toUtc(inNewYork(3, '09:00'))
+      })
+    ];
+    const result = await createService(items).getEventsFromCalendar(createSource());
+
+    expect(result.items.map(event => moment.tz(event.start, NEW_YORK).format('HH:mm'))).toEqual(['09:00', '15:00', '09:00', '09:00']);
+
+    const moved = result.items[1];
+    expect(moved.title).toBe('Stand-up (moved)');
+    expect(moved.isException).toBe(true);
+    expect(moved.masterSeriesId).toBe('sp_list-id_1');
+    expect(moved.originalStart).toEqual(inNewYork(3, '09:00').toDate());
+  });
+
+  it('drops an occurrence moved out of the range', async () => {
+    const exception = createItem(2, {
+      Title: 'Stand-up (moved)',
+      EventDate: toUtc(inNewYork(250, '09:00')),
+      EndDate: toUtc(inNewYork(250, '09:30')),
+      EventType: 4,
+      MasterSeriesItemID: 1,
+      RecurrenceID: toUtc(inNewYork(2, '09:00'))
+    });
+    const result = await createService([createDailySeries(5)], [exception]).getEventsFromCalendar(createSource());
+
+    expect(result.items.map(event => moment.tz(event.start, NEW_YORK).format('YYYY-MM-DD'))).toEqual(
+      [1, 3, 4, 5].map(days => inNewYork(days, '09:00').format('YYYY-MM-DD'))
+    );
+  });
+
+  it('lists the exceptions of the series on every occurrence', async () => {
+    const items = [
+      createDailySeries(3),
+      createItem(2, {
+        EventDate: toUtc(inNewYork(2, '09:00')),
+        EventType: 3,
+        MasterSeriesItemID: 1,
+        RecurrenceID: toUtc(inNewYork(2, '09:00'))
+      })
+    ];
+    const result = await createService(items).getEventsFromCalendar(createSource());
+
+    expect(result.items).toHaveLength(2);
+    result.items.forEach(event => expect(event.exceptions).toEqual([{ originalDate: inNewYork(2, '09:00').toDate(), isDeleted: true }]));
+  });
+
+  it('shows an edited occurrence on its own when its series is not loaded', async () => {
+    const items = [
+      createItem(3, {
+        EventDate: toUtc(inNewYork(3, '15:00')),
+        EndDate: toUtc(inNewYork(3, '15:30')),
+        EventType: 4,
+        MasterSeriesItemID: 1,
+        RecurrenceID: toUtc(inNewYork(3, '09:00'))
+      })
+    ];
+    const result = await createService(items).getEventsFromCalendar(createSource());
+
+    expect(result.items).toHaveLength(1);
+    expect(result.items[0].isException).toBe(true);
+    expect(result.items[0].originalStart).toEqual(inNewYork(3, '09:00').toDate());
+  });
+});
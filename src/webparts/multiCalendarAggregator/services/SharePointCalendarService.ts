@@ -1,9 +1,25 @@
 import { WebPartContext } from '@microsoft/sp-webpart-base';
 import { SPHttpClient, SPHttpClientResponse } from '@microsoft/sp-http';
 import { ICalendarEvent, ICalendarSource, CalendarSourceType } from '../models/ICalendarModels';
+import { IRecurrenceException } from '../models/IEventModels';
 import { AppConstants } from '../constants/AppConstants';
 import { DateUtils } from '../utils/DateUtils';
 import { ColorUtils } from '../utils/ColorUtils';
+import { RecurrenceUtils } from '../utils/RecurrenceUtils';
+import { PagingUtils, IPagedResult } from '../utils/PagingUtils';
+import { RegionalSettingsService } from './RegionalSettingsService';
+import { SharePointBatchService } from './SharePointBatchService';
+import { IRequestOptions } from './RequestScheduler';
+
+/**
+ * SharePoint EventType values for calendar items
+ */
+enum SharePointEventType {
+  Single = 0,
+  RecurringMaster = 1,
+  DeletedOccurrence = 3,
+  Exception = 4
+}
 
 interface SharePointListItem {
   [key: string]: unknown;
@@ -21,6 +37,7 @@ interface SharePointListItem {
   Modified: string;
   Author?: {
     Title: string;
+    EMail?: string;
   };
   Editor?: {
     Title: string;
@@ -50,9 +67,13 @@ interface SharePointSite {
 
 export class SharePointCalendarService {
   private context: WebPartContext;
+  private regionalSettings: RegionalSettingsService;
+  private batchService: SharePointBatchService;
 
   constructor(context: WebPartContext) {
     this.context = context;
+    this.regionalSettings = new RegionalSettingsService(context);
+    this.batchService = new SharePointBatchService(context);
   }
 
   /**
@@ -178,79 +199,283 @@ export class SharePointCalendarService {
   /**
    * Get events from a SharePoint calendar list
    */
-  public async getEventsFromCalendar(source: ICalendarSource, maxEvents: number = 100): Promise<ICalendarEvent[]> {
-    const events: ICalendarEvent[] = [];
-    
+  public async getEventsFromCalendar(
+    source: ICalendarSource,
+    maxEvents: number = 100,
+    onProgress?: (eventsSoFar: ICalendarEvent[]) => void,
+    options: IRequestOptions = {}
+  ): Promise<IPagedResult<ICalendarEvent>> {
     try {
       const now = new Date();
       const endDate = DateUtils.addTime(now, 6, 'months');
-      
-      // Build the query
-      const filter = `${AppConstants.SHAREPOINT_FIELDS.EVENT_DATE} ge datetime'${now.toISOString()}' and ` +
-                    `${AppConstants.SHAREPOINT_FIELDS.EVENT_DATE} le datetime'${endDate.toISOString()}'`;
-      
-      const select = [
-        AppConstants.SHAREPOINT_FIELDS.ID,
-        AppConstants.SHAREPOINT_FIELDS.TITLE,
-        AppConstants.SHAREPOINT_FIELDS.DESCRIPTION,
-        AppConstants.SHAREPOINT_FIELDS.EVENT_DATE,
-        AppConstants.SHAREPOINT_FIELDS.END_DATE,
-        AppConstants.SHAREPOINT_FIELDS.LOCATION,
-        AppConstants.SHAREPOINT_FIELDS.CATEGORY,
-        AppConstants.SHAREPOINT_FIELDS.ALL_DAY_EVENT,
-        AppConstants.SHAREPOINT_FIELDS.RECURRENCE,
-        AppConstants.SHAREPOINT_FIELDS.RECURRENCE_DATA,
-        AppConstants.SHAREPOINT_FIELDS.CREATED,
-        AppConstants.SHAREPOINT_FIELDS.MODIFIED,
-        'Author/Title',
-        'Editor/Title'
-      ].join(',');
+      const siteTimeZone = await this.regionalSettings.getSiteTimeZone(source.siteUrl);
+
+      const toEvents = (items: SharePointListItem[]): ICalendarEvent[] =>
+        this.mapItemsToEvents(items, source, now, endDate, siteTimeZone)
+          .filter(event => event.end >= now && event.start <= endDate)
+          .sort((a, b) => a.start.getTime() - b.start.getTime());
+
+      // Exceptions can arrive on a later page than their master, so each
+      // progress update re-maps everything loaded so far
+      const result = await this.getItemsInRange(source, now, endDate, maxEvents, onProgress
+        ? (itemsSoFar) => onProgress(toEvents(itemsSoFar).slice(0, maxEvents))
+        : undefined, options.signal);
+
+      const events = toEvents(await this.addSeriesExceptions(source, result.items, options.signal));
+      return {
+        items: events.slice(0, maxEvents),
+        truncated: result.truncated || events.length > maxEvents,
+        pageCount: result.pageCount
+      };
+    } catch (error) {
+      console.error(`Error fetching SharePoint events from ${source.title}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get a single calendar item. A series is returned as its first occurrence
+   * along with its rule, and an edited occurrence along with its series.
+   */
+  public async getEventById(source: ICalendarSource, itemId: number): Promise<ICalendarEvent> {
+    const siteTimeZone = await this.regionalSettings.getSiteTimeZone(source.siteUrl);
+    const response: SPHttpClientResponse = await this.context.spHttpClient.get(
+      `${source.siteUrl}${AppConstants.SHAREPOINT_API.LIST_ITEMS_ENDPOINT.replace('{listId}', source.id)}(${itemId})?` +
+      `$select=${this.getEventSelectFields()}&$expand=Author,Editor`,
+      SPHttpClient.configurations.v1
+    );
+    if (!response.ok) {
+      throw new Error(`Could not load item ${itemId} from ${source.title}. Status: ${response.status}`);
+    }
+
+    const item: SharePointListItem = await response.json();
+    if (Number(item[AppConstants.SHAREPOINT_FIELDS.EVENT_TYPE]) === SharePointEventType.Exception) {
+      return this.mapExceptionItemToEvent(item, source, siteTimeZone);
+    }
+
+    const event = this.mapSharePointItemToEvent(item, source, siteTimeZone);
+    if (!event.isRecurring) {
+      return event;
+    }
 
+    return {
+      ...event,
+      end: new Date(event.start.getTime() + this.getSeriesInstanceDuration(item, event)),
+      recurrencePattern: RecurrenceUtils.parseSharePointRecurrence(item[AppConstants.SHAREPOINT_FIELDS.RECURRENCE_DATA] as string),
+      seriesStart: event.start
+    };
+  }
+
+  /**
+   * Current events of some items, in the same window as getEventsFromCalendar,
+   * for merging changes into loaded events. Items of a series bring in the
+   * whole series; every item whose events are included is listed.
+   */
+  public async getEventsForItems(source: ICalendarSource, itemIds: number[]): Promise<{ itemIds: number[]; events: ICalendarEvent[] }> {
+    const now = new Date();
+    const endDate = DateUtils.addTime(now, 6, 'months');
+    const siteTimeZone = await this.regionalSettings.getSiteTimeZone(source.siteUrl);
+
+    const items = await this.getItemsByFilter(source, itemIds.map(id => `${AppConstants.SHAREPOINT_FIELDS.ID} eq ${id}`));
+    const seriesIds = Array.from(new Set(items
+      .map(item => Number(item[AppConstants.SHAREPOINT_FIELDS.MASTER_SERIES_ITEM_ID]) ||
+        (item[AppConstants.SHAREPOINT_FIELDS.RECURRENCE] ? Number(item[AppConstants.SHAREPOINT_FIELDS.ID]) : 0))
+      .filter(Boolean)));
+    const seriesItems = await this.getItemsByFilter(source, seriesIds.map(id =>
+      `${AppConstants.SHAREPOINT_FIELDS.ID} eq ${id} or ${AppConstants.SHAREPOINT_FIELDS.MASTER_SERIES_ITEM_ID} eq ${id}`));
+
+    const itemsById = new Map<number, SharePointListItem>();
+    [...items, ...seriesItems].forEach(item => itemsById.set(Number(item[AppConstants.SHAREPOINT_FIELDS.ID]), item));
+    const allItems = Array.from(itemsById.values());
+
+    return {
+      itemIds: Array.from(new Set([...itemIds, ...itemsById.keys()])),
+      events: this.mapItemsToEvents(allItems, source, now, endDate, siteTimeZone)
+        .filter(event => event.end >= now && event.start <= endDate)
+    };
+  }
+
+  /**
+   * Items matching any of the conditions, a few conditions per request
+   */
+  private async getItemsByFilter(source: ICalendarSource, conditions: string[], signal?: AbortSignal): Promise<SharePointListItem[]> {
+    const items: SharePointListItem[] = [];
+
+    for (let index = 0; index < conditions.length; index += AppConstants.SYNC.ITEMS_PER_LOOKUP) {
+      const filter = conditions.slice(index, index + AppConstants.SYNC.ITEMS_PER_LOOKUP).join(' or ');
       const apiUrl = `${source.siteUrl}${AppConstants.SHAREPOINT_API.LIST_ITEMS_ENDPOINT.replace('{listId}', source.id)}?` +
-        `$select=${select}&` +
+        `$select=${this.getEventSelectFields()}&` +
         `$expand=Author,Editor&` +
         `$filter=${filter}&` +
-        `$orderby=${AppConstants.SHAREPOINT_FIELDS.EVENT_DATE}&` +
-        `$top=${Math.min(maxEvents, AppConstants.API_LIMITS.MAX_EVENTS_PER_REQUEST)}`;
+        `$top=${AppConstants.API_LIMITS.MAX_EVENTS_PER_REQUEST}`;
 
-      const response: SPHttpClientResponse = await this.context.spHttpClient.get(
-        apiUrl,
-        SPHttpClient.configurations.v1
+      const result = await PagingUtils.collectPages(
+        PagingUtils.sharePointPageFetcher<SharePointListItem>(this.context.spHttpClient, apiUrl),
+        { maxItems: AppConstants.API_LIMITS.SHAREPOINT_LIST_THRESHOLD, signal }
       );
+      items.push(...result.items);
+    }
 
-      if (response.ok) {
-        const data = await response.json();
-        const items = data.d?.results || data.value || [];
+    return items;
+  }
 
-        for (const item of items as SharePointListItem[]) {
-          const event = this.mapSharePointItemToEvent(item, source);
-          events.push(event);
+  /**
+   * Add the exception items of the series masters among some items. An occurrence
+   * moved out of the range does not match its filter but still replaces the
+   * occurrence it was created from.
+   */
+  private async addSeriesExceptions(
+    source: ICalendarSource,
+    items: SharePointListItem[],
+    signal?: AbortSignal
+  ): Promise<SharePointListItem[]> {
+    const masterIds = items
+      .filter(item => Number(item[AppConstants.SHAREPOINT_FIELDS.EVENT_TYPE]) === SharePointEventType.RecurringMaster)
+      .map(item => Number(item[AppConstants.SHAREPOINT_FIELDS.ID]));
+    if (masterIds.length === 0) {
+      return items;
+    }
 
-          // Handle recurring events
-          if (item[AppConstants.SHAREPOINT_FIELDS.RECURRENCE] && item[AppConstants.SHAREPOINT_FIELDS.RECURRENCE_DATA]) {
-            const recurringEvents = this.expandRecurringEvent(event, item[AppConstants.SHAREPOINT_FIELDS.RECURRENCE_DATA] as string, endDate);
-            events.push(...recurringEvents);
-          }
-        }
+    const loadedIds = new Set(items.map(item => Number(item[AppConstants.SHAREPOINT_FIELDS.ID])));
+    const exceptions = await this.getItemsByFilter(source, masterIds.map(id =>
+      `${AppConstants.SHAREPOINT_FIELDS.MASTER_SERIES_ITEM_ID} eq ${id}`), signal);
+
+    return [...items, ...exceptions.filter(item => !loadedIds.has(Number(item[AppConstants.SHAREPOINT_FIELDS.ID])))];
+  }
+
+  /**
+   * Page through the items of a calendar that overlap a date range
+   */
+  private async getItemsInRange(
+    source: ICalendarSource,
+    startDate: Date,
+    endDate: Date,
+    maxItems: number,
+    onPage?: (itemsSoFar: SharePointListItem[]) => void,
+    signal?: AbortSignal
+  ): Promise<IPagedResult<SharePointListItem>> {
+    return PagingUtils.collectPages(
+      PagingUtils.sharePointPageFetcher<SharePointListItem>(
+        this.context.spHttpClient,
+        this.getItemsInRangeUrl(source, startDate, endDate, maxItems)
+      ),
+      {
+        maxItems: Math.min(maxItems, AppConstants.API_LIMITS.SHAREPOINT_LIST_THRESHOLD),
+        onPage,
+        signal
+      }
+    );
+  }
+
+  /**
+   * First page of the items of a calendar that overlap a date range
+   */
+  private getItemsInRangeUrl(source: ICalendarSource, startDate: Date, endDate: Date, maxItems: number): string {
+    return `${source.siteUrl}${AppConstants.SHAREPOINT_API.LIST_ITEMS_ENDPOINT.replace('{listId}', source.id)}?` +
+      `$select=${this.getEventSelectFields()}&` +
+      `$expand=Author,Editor&` +
+      `$filter=${this.buildDateRangeFilter(startDate, endDate)}&` +
+      `$orderby=${AppConstants.SHAREPOINT_FIELDS.EVENT_DATE}&` +
+      `$top=${Math.min(maxItems, AppConstants.API_LIMITS.MAX_EVENTS_PER_REQUEST)}`;
+  }
+
+  /**
+   * Fields selected when loading calendar items
+   */
+  private getEventSelectFields(): string {
+    return [
+      AppConstants.SHAREPOINT_FIELDS.ID,
+      AppConstants.SHAREPOINT_FIELDS.TITLE,
+      AppConstants.SHAREPOINT_FIELDS.DESCRIPTION,
+      AppConstants.SHAREPOINT_FIELDS.EVENT_DATE,
+      AppConstants.SHAREPOINT_FIELDS.END_DATE,
+      AppConstants.SHAREPOINT_FIELDS.LOCATION,
+      AppConstants.SHAREPOINT_FIELDS.CATEGORY,
+      AppConstants.SHAREPOINT_FIELDS.ALL_DAY_EVENT,
+      AppConstants.SHAREPOINT_FIELDS.RECURRENCE,
+      AppConstants.SHAREPOINT_FIELDS.RECURRENCE_DATA,
+      AppConstants.SHAREPOINT_FIELDS.EVENT_TYPE,
+      AppConstants.SHAREPOINT_FIELDS.MASTER_SERIES_ITEM_ID,
+      AppConstants.SHAREPOINT_FIELDS.RECURRENCE_ID,
+      AppConstants.SHAREPOINT_FIELDS.DURATION,
+      AppConstants.SHAREPOINT_FIELDS.UID,
+      AppConstants.SHAREPOINT_FIELDS.CREATED,
+      AppConstants.SHAREPOINT_FIELDS.MODIFIED,
+      'Author/Title',
+      'Author/EMail',
+      'Editor/Title'
+    ].join(',');
+  }
+
+  /**
+   * Build a filter matching items that overlap a date range. Series masters
+   * store the series end in EndDate, so they match for as long as the series runs.
+   */
+  private buildDateRangeFilter(startDate: Date, endDate: Date): string {
+    return `${AppConstants.SHAREPOINT_FIELDS.EVENT_DATE} le datetime'${endDate.toISOString()}' and ` +
+           `${AppConstants.SHAREPOINT_FIELDS.END_DATE} ge datetime'${startDate.toISOString()}'`;
+  }
+
+  /**
+   * Map list items to events, expanding series masters and applying their exception items
+   */
+  private mapItemsToEvents(
+    items: SharePointListItem[],
+    source: ICalendarSource,
+    rangeStart: Date,
+    rangeEnd: Date,
+    siteTimeZone?: string
+  ): ICalendarEvent[] {
+    const events: ICalendarEvent[] = [];
+    const masters: SharePointListItem[] = [];
+    const exceptionsBySeries = new Map<number, SharePointListItem[]>();
+
+    for (const item of items) {
+      const eventType = Number(item[AppConstants.SHAREPOINT_FIELDS.EVENT_TYPE]);
+      const masterId = Number(item[AppConstants.SHAREPOINT_FIELDS.MASTER_SERIES_ITEM_ID]);
+
+      if ((eventType === SharePointEventType.DeletedOccurrence || eventType === SharePointEventType.Exception) && masterId) {
+        const seriesExceptions = exceptionsBySeries.get(masterId) || [];
+        seriesExceptions.push(item);
+        exceptionsBySeries.set(masterId, seriesExceptions);
+      } else if (item[AppConstants.SHAREPOINT_FIELDS.RECURRENCE] && item[AppConstants.SHAREPOINT_FIELDS.RECURRENCE_DATA]) {
+        masters.push(item);
       } else {
-        throw new Error(`Failed to fetch events. Status: ${response.status}`);
+        events.push(this.mapSharePointItemToEvent(item, source, siteTimeZone));
       }
+    }
 
-    } catch (error) {
-      console.error(`Error fetching SharePoint events from ${source.title}:`, error);
-      throw error;
+    for (const master of masters) {
+      const masterId = Number(master[AppConstants.SHAREPOINT_FIELDS.ID]);
+      events.push(...this.expandRecurringEvent(
+        master, source, exceptionsBySeries.get(masterId) || [], rangeStart, rangeEnd, siteTimeZone
+      ));
+      exceptionsBySeries.delete(masterId);
     }
 
-    return events.slice(0, maxEvents);
+    // Edited occurrences whose master was not returned are still shown on their own
+    exceptionsBySeries.forEach(seriesExceptions => {
+      seriesExceptions
+        .filter(item => Number(item[AppConstants.SHAREPOINT_FIELDS.EVENT_TYPE]) === SharePointEventType.Exception)
+        .forEach(item => events.push(this.mapExceptionItemToEvent(item, source, siteTimeZone)));
+    });
+
+    return events;
   }
 
   /**
-   * Map SharePoint list item to calendar event
+   * Map SharePoint list item to calendar event. All-day events are stored as
+   * floating dates; other values are read in the site's regional time zone.
    */
-  private mapSharePointItemToEvent(item: SharePointListItem, source: ICalendarSource): ICalendarEvent {
-    const startDate = new Date(item[AppConstants.SHAREPOINT_FIELDS.EVENT_DATE] as string);
+  private mapSharePointItemToEvent(item: SharePointListItem, source: ICalendarSource, siteTimeZone?: string): ICalendarEvent {
+    const isAllDay = (item[AppConstants.SHAREPOINT_FIELDS.ALL_DAY_EVENT] as boolean) || false;
+    const parseDate = (value: string): Date => isAllDay
+      ? DateUtils.parseFloatingDate(value)
+      : DateUtils.parseSharePointDate(value, siteTimeZone);
+
+    const startDate = parseDate(item[AppConstants.SHAREPOINT_FIELDS.EVENT_DATE] as string);
     const endDate = item[AppConstants.SHAREPOINT_FIELDS.END_DATE] 
-      ? new Date(item[AppConstants.SHAREPOINT_FIELDS.END_DATE] as string)
+      ? parseDate(item[AppConstants.SHAREPOINT_FIELDS.END_DATE] as string)
       : startDate;
 
     return {
@@ -261,52 +486,155 @@ export class SharePointCalendarService {
       end: endDate,
       location: (item[AppConstants.SHAREPOINT_FIELDS.LOCATION] as string) || '',
       category: (item[AppConstants.SHAREPOINT_FIELDS.CATEGORY] as string) || '',
-      isAllDay: (item[AppConstants.SHAREPOINT_FIELDS.ALL_DAY_EVENT] as boolean) || false,
+      isAllDay,
       isRecurring: (item[AppConstants.SHAREPOINT_FIELDS.RECURRENCE] as boolean) || false,
       calendarId: source.id,
       calendarTitle: source.title,
       calendarType: source.type,
       organizer: item.Author?.Title || 'Unknown',
-      created: new Date(item[AppConstants.SHAREPOINT_FIELDS.CREATED] as string),
-      modified: new Date(item[AppConstants.SHAREPOINT_FIELDS.MODIFIED] as string),
+      organizerEmail: item.Author?.EMail,
+      created: DateUtils.parseSharePointDate(item[AppConstants.SHAREPOINT_FIELDS.CREATED] as string, siteTimeZone),
+      modified: DateUtils.parseSharePointDate(item[AppConstants.SHAREPOINT_FIELDS.MODIFIED] as string, siteTimeZone),
       webUrl: `${source.siteUrl}/Lists/${source.title.replace(/\s+/g, '')}/DispForm.aspx?ID=${item[AppConstants.SHAREPOINT_FIELDS.ID]}`,
-      color: source.color || ColorUtils.generateColorFromString(source.title)
+      color: source.color || ColorUtils.generateColorFromString(source.title),
+      timeZone: siteTimeZone,
+      etag: item['@odata.etag'] as string | undefined,
+      iCalUId: (item[AppConstants.SHAREPOINT_FIELDS.UID] as string | undefined) || undefined
     };
   }
 
   /**
-   * Expand recurring events (simplified implementation)
+   * Expand a series master into its occurrences within a range. Exception items
+   * replace the occurrence they were created from; deleted occurrences are dropped.
+   * Timed series repeat at the same wall-clock time in the site's time zone.
    */
-  private expandRecurringEvent(baseEvent: ICalendarEvent, recurrenceData: string, endDate: Date): ICalendarEvent[] {
-    const recurringEvents: ICalendarEvent[] = [];
-    
-    try {
-      // This is a simplified implementation for weekly recurrence
-      // In production, you would parse the full SharePoint recurrence XML
-      const eventDuration = baseEvent.end.getTime() - baseEvent.start.getTime();
-      let currentDate = new Date(baseEvent.start);
-      
-      // Generate up to 50 recurring instances or until endDate
-      for (let i = 1; i < 50 && currentDate < endDate; i++) {
-        // Assume weekly recurrence for simplicity
-        currentDate = new Date(currentDate.getTime() + 7 * 24 * 60 * 60 * 1000); // Add 7 days properly
-        
-        if (currentDate > endDate) break;
-        
-        recurringEvents.push({
-          ...baseEvent,
-          id: `${baseEvent.id}_recur_${i}`,
-          start: new Date(currentDate),
-          end: new Date(currentDate.getTime() + eventDuration)
+  private expandRecurringEvent(
+    item: SharePointListItem,
+    source: ICalendarSource,
+    exceptions: SharePointListItem[],
+    rangeStart: Date,
+    rangeEnd: Date,
+    siteTimeZone?: string
+  ): ICalendarEvent[] {
+    const master = this.mapSharePointItemToEvent(item, source, siteTimeZone);
+    const seriesTimeZone = master.isAllDay ? undefined : siteTimeZone;
+    const baseEvent: ICalendarEvent = {
+      ...master,
+      end: new Date(master.start.getTime() + this.getSeriesInstanceDuration(item, master))
+    };
+
+    const pattern = RecurrenceUtils.parseSharePointRecurrence(item[AppConstants.SHAREPOINT_FIELDS.RECURRENCE_DATA] as string);
+    if (!pattern) {
+      console.warn(`Could not parse recurrence for ${master.title}, showing first occurrence only`);
+      return [baseEvent];
+    }
+
+    const exceptionsByOccurrence = new Map<string, SharePointListItem>();
+    const seriesExceptions: IRecurrenceException[] = [];
+    exceptions.forEach(exception => {
+      const recurrenceId = exception[AppConstants.SHAREPOINT_FIELDS.RECURRENCE_ID] as string | undefined;
+      if (recurrenceId) {
+        const occurrenceStart = master.isAllDay
+          ? DateUtils.parseFloatingDate(recurrenceId)
+          : DateUtils.parseSharePointDate(recurrenceId, siteTimeZone);
+        exceptionsByOccurrence.set(this.getOccurrenceKey(occurrenceStart, seriesTimeZone), exception);
+        seriesExceptions.push({
+          originalDate: occurrenceStart,
+          isDeleted: Number(exception[AppConstants.SHAREPOINT_FIELDS.EVENT_TYPE]) === SharePointEventType.DeletedOccurrence
         });
       }
-    } catch (error) {
-      console.warn('Error expanding recurring event:', error);
+    });
+
+    // Expand on wall-clock dates in the series zone so occurrences keep their local time across DST changes
+    const toSeriesZone = (date: Date): Date => DateUtils.convertToUserTimezone(date, seriesTimeZone);
+    const fromSeriesZone = (date: Date): Date => DateUtils.convertFromUserTimezone(date, seriesTimeZone);
+
+    const recurringEvents: ICalendarEvent[] = [];
+    const instances = RecurrenceUtils.generateRecurringEvents(
+      { ...baseEvent, start: toSeriesZone(baseEvent.start), end: toSeriesZone(baseEvent.end) },
+      pattern,
+      toSeriesZone(rangeStart),
+      toSeriesZone(rangeEnd),
+      AppConstants.API_LIMITS.MAX_EVENTS_PER_REQUEST
+    ).map(instance => ({
+      ...instance,
+      start: fromSeriesZone(instance.start),
+      end: fromSeriesZone(instance.end),
+      originalStart: instance.originalStart ? fromSeriesZone(instance.originalStart) : undefined,
+      seriesStart: master.start,
+      exceptions: seriesExceptions
+    }));
+
+    for (const instance of instances) {
+      const key = this.getOccurrenceKey(instance.start, seriesTimeZone);
+      const exception = exceptionsByOccurrence.get(key);
+
+      if (!exception) {
+        recurringEvents.push(instance);
+        continue;
+      }
+
+      exceptionsByOccurrence.delete(key);
+      if (Number(exception[AppConstants.SHAREPOINT_FIELDS.EVENT_TYPE]) === SharePointEventType.Exception) {
+        recurringEvents.push(this.mapExceptionItemToEvent(exception, source, siteTimeZone, instance.start));
+      }
     }
 
+    // Occurrences moved into the range from outside it
+    exceptionsByOccurrence.forEach(exception => {
+      if (Number(exception[AppConstants.SHAREPOINT_FIELDS.EVENT_TYPE]) === SharePointEventType.Exception) {
+        recurringEvents.push(this.mapExceptionItemToEvent(exception, source, siteTimeZone));
+      }
+    });
+
     return recurringEvents;
   }
 
+  /**
+   * Map an edited occurrence of a series to a calendar event
+   */
+  private mapExceptionItemToEvent(
+    item: SharePointListItem,
+    source: ICalendarSource,
+    siteTimeZone?: string,
+    originalStart?: Date
+  ): ICalendarEvent {
+    const recurrenceId = item[AppConstants.SHAREPOINT_FIELDS.RECURRENCE_ID] as string | undefined;
+
+    return {
+      ...this.mapSharePointItemToEvent(item, source, siteTimeZone),
+      isRecurring: true,
+      isException: true,
+      masterSeriesId: `sp_${source.id}_${item[AppConstants.SHAREPOINT_FIELDS.MASTER_SERIES_ITEM_ID]}`,
+      originalStart: originalStart || (recurrenceId ? DateUtils.parseSharePointDate(recurrenceId, siteTimeZone) : undefined)
+    };
+  }
+
+  /**
+   * Duration of a single occurrence. Series masters keep the series end in
+   * EndDate, so fall back to its time of day when Duration is not available.
+   */
+  private getSeriesInstanceDuration(item: SharePointListItem, master: ICalendarEvent): number {
+    const durationSeconds = Number(item[AppConstants.SHAREPOINT_FIELDS.DURATION]);
+    if (durationSeconds > 0) {
+      return durationSeconds * 1000;
+    }
+
+    const instanceEnd = new Date(master.start);
+    instanceEnd.setHours(master.end.getHours(), master.end.getMinutes(), master.end.getSeconds(), 0);
+
+    const duration = instanceEnd.getTime() - master.start.getTime();
+    return duration > 0 ? duration : duration + 24 * 60 * 60 * 1000;
+  }
+
+  /**
+   * Key identifying an occurrence by its day in the series zone; series never
+   * repeat more than once a day
+   */
+  private getOccurrenceKey(date: Date, timeZone?: string): string {
+    return DateUtils.formatDate(DateUtils.convertToUserTimezone(date, timeZone), 'YYYY-MM-DD');
+  }
+
   /**
    * Search events across SharePoint calendars
    */
@@ -320,6 +648,8 @@ export class SharePointCalendarService {
 
     for (const source of sources.filter(s => s.isEnabled && s.type === CalendarSourceType.SharePoint)) {
       try {
+        const siteTimeZone = await this.regionalSettings.getSiteTimeZone(source.siteUrl);
+
         // Build search filter for SharePoint
         const searchFilter = searchTerms.map(term => 
           `substringof('${term}',${AppConstants.SHAREPOINT_FIELDS.TITLE}) or ` +
@@ -343,7 +673,7 @@ export class SharePointCalendarService {
           const items = data.d?.results || data.value || [];
 
           for (const item of items as SharePointListItem[]) {
-            const event = this.mapSharePointItemToEvent(item, source);
+            const event = this.mapSharePointItemToEvent(item, source, siteTimeZone);
             allEvents.push(event);
           }
         }
@@ -364,35 +694,33 @@ export class SharePointCalendarService {
     sources: ICalendarSource[], 
     startDate: Date, 
     endDate: Date, 
-    maxEvents: number = 1000
+    maxEvents: number = 1000,
+    options: IRequestOptions = {}
   ): Promise<ICalendarEvent[]> {
     const allEvents: ICalendarEvent[] = [];
+    const calendars = sources.filter(s => s.isEnabled && s.type === CalendarSourceType.SharePoint);
 
-    for (const source of sources.filter(s => s.isEnabled && s.type === CalendarSourceType.SharePoint)) {
-      try {
-        const filter = `${AppConstants.SHAREPOINT_FIELDS.EVENT_DATE} ge datetime'${startDate.toISOString()}' and ` +
-                      `${AppConstants.SHAREPOINT_FIELDS.EVENT_DATE} le datetime'${endDate.toISOString()}'`;
+    // First pages of calendars on the same site are requested in one batch
+    const results = await this.batchService.collectPages<SharePointListItem>(calendars.map(source => ({
+      id: source.id,
+      siteUrl: source.siteUrl,
+      url: this.getItemsInRangeUrl(source, startDate, endDate, maxEvents),
+      maxItems: Math.min(maxEvents, AppConstants.API_LIMITS.SHAREPOINT_LIST_THRESHOLD)
+    })), options);
 
-        const apiUrl = `${source.siteUrl}${AppConstants.SHAREPOINT_API.LIST_ITEMS_ENDPOINT.replace('{listId}', source.id)}?` +
-          `$select=${AppConstants.SHAREPOINT_FIELDS.ID},${AppConstants.SHAREPOINT_FIELDS.TITLE},${AppConstants.SHAREPOINT_FIELDS.DESCRIPTION},${AppConstants.SHAREPOINT_FIELDS.EVENT_DATE},${AppConstants.SHAREPOINT_FIELDS.END_DATE},${AppConstants.SHAREPOINT_FIELDS.LOCATION},${AppConstants.SHAREPOINT_FIELDS.CATEGORY}&` +
-          `$filter=${filter}&` +
-          `$orderby=${AppConstants.SHAREPOINT_FIELDS.EVENT_DATE}&` +
-          `$top=${maxEvents}`;
+    for (const source of calendars) {
+      try {
+        const result = results.get(source.id);
+        if (!result || result instanceof Error) {
+          throw result || new Error('No response');
+        }
+        const siteTimeZone = await this.regionalSettings.getSiteTimeZone(source.siteUrl);
+        const items = await this.addSeriesExceptions(source, result.items, options.signal);
 
-        const response: SPHttpClientResponse = await this.context.spHttpClient.get(
-          apiUrl,
-          SPHttpClient.configurations.v1
+        allEvents.push(
+          ...this.mapItemsToEvents(items, source, startDate, endDate, siteTimeZone)
+            .filter(event => event.end >= startDate && event.start <= endDate)
         );
-
-        if (response.ok) {
-          const data = await response.json();
-          const items = data.d?.results || data.value || [];
-
-          for (const item of items as SharePointListItem[]) {
-            const event = this.mapSharePointItemToEvent(item, source);
-            allEvents.push(event);
-          }
-        }
       } catch (error) {
         console.error(`Error getting events from ${source.title}:`, error);
       }
@@ -0,0 +1,187 @@
+import { WebPartContext } from '@microsoft/sp-webpart-base';
+import { SPHttpClient, SPHttpClientResponse } from '@microsoft/sp-http';
+import { ICalendarSource } from '../models/ICalendarModels';
+import { AppConstants } from '../constants/AppConstants';
+import { BatchUtils } from '../utils/BatchUtils';
+import { SharePointBatchService } from './SharePointBatchService';
+import { IRequestOptions } from './RequestScheduler';
+
+// Errors SharePoint answers with when a change token is older than its change log
+const EXPIRED_TOKEN_PATTERN = /change ?token|change log/i;
+
+/**
+ * SharePoint ChangeType values of item changes
+ */
+enum SharePointChangeType {
+  Add = 1,
+  Update = 2,
+  DeleteObject = 3,
+  Restore = 7
+}
+
+interface SharePointChange {
+  ChangeType: SharePointChangeType;
+  ItemId: number;
+  ChangeToken: {
+    StringValue: string;
+  };
+}
+
+/**
+ * Items of a list added, changed or deleted since a change token
+ */
+export interface IListItemChanges {
+  changedItemIds: number[];
+  deletedItemIds: number[];
+  changeToken: string; // Marks the last change read
+}
+
+/**
+ * Reads the change log of SharePoint lists, so that loaded items can be
+ * brought up to date without reading the whole list again
+ */
+export class SharePointChangeService {
+  private context: WebPartContext;
+  private batchService: SharePointBatchService;
+
+  constructor(context: WebPartContext) {
+    this.context = context;
+    this.batchService = new SharePointBatchService(context);
+  }
+
+  /**
+   * The change token marking the current state of a list
+   */
+  public async getCurrentChangeToken(source: ICalendarSource): Promise<string> {
+    const response: SPHttpClientResponse = await this.context.spHttpClient.get(
+      `${this.getListUrl(source)}?$select=CurrentChangeToken`,
+      SPHttpClient.configurations.v1
+    );
+    if (!response.ok) {
+      throw new Error(`Could not read the change token of ${source.title}. Status: ${response.status}`);
+    }
+
+    const data = await response.json();
+    return data.CurrentChangeToken.StringValue;
+  }
+
+  /**
+   * Items changed since a change token. An item changed and then deleted is
+   * only listed as deleted. Undefined when the change log no longer reaches
+   * back to the token, or holds more changes than are worth reading one by one.
+   */
+  public async getItemChanges(source: ICalendarSource, changeToken: string): Promise<IListItemChanges | undefined> {
+    const changed = new Set<number>();
+    const deleted = new Set<number>();
+    let token = changeToken;
+
+    for (let page = 0; page < AppConstants.API_LIMITS.MAX_PAGES_PER_QUERY; page++) {
+      const response: SPHttpClientResponse = await this.context.spHttpClient.post(
+        `${this.getListUrl(source)}/GetChanges`,
+        SPHttpClient.configurations.v1,
+        {
+          headers: {
+            'Accept': 'application/json;odata=nometadata',
+            'Content-Type': 'application/json;odata=nometadata'
+          },
+          body: JSON.stringify(this.getChangeQuery(token))
+        }
+      );
+
+      if (!response.ok) {
+        const message = await response.text();
+        if (EXPIRED_TOKEN_PATTERN.test(message)) {
+          return undefined;
+        }
+        throw new Error(`Could not read changes to ${source.title}. Status: ${response.status}`);
+      }
+
+      const data = await response.json();
+      const changes: SharePointChange[] = data.value || [];
+      token = this.readChanges(changes, changed, deleted) || token;
+      if (changes.length < AppConstants.SYNC.CHANGE_QUERY_LIMIT) {
+        return { changedItemIds: Array.from(changed), deletedItemIds: Array.from(deleted), changeToken: token };
+      }
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Items changed in several lists, read in as few $batch calls as their
+   * sites allow. Lists whose token has expired map to undefined. Lists left
+   * out, because their request failed or they have more than one page of
+   * changes, should be read with getItemChanges.
+   */
+  public async getItemChangesForLists(
+    requests: { source: ICalendarSource; changeToken: string }[],
+    options: IRequestOptions = {}
+  ): Promise<Map<string, IListItemChanges | undefined>> {
+    const responses = await this.batchService.send(requests.map(({ source, changeToken }) => ({
+      id: source.id,
+      siteUrl: source.siteUrl,
+      method: 'POST' as const,
+      url: `${this.getListUrl(source)}/GetChanges`,
+      body: this.getChangeQuery(changeToken)
+    })), options);
+
+    const results = new Map<string, IListItemChanges | undefined>();
+    requests.forEach(({ source, changeToken }) => {
+      const response = responses.get(source.id);
+      if (!response) return;
+
+      if (!BatchUtils.isSuccess(response)) {
+        const message = typeof response.body === 'string' ? response.body : JSON.stringify(response.body);
+        if (EXPIRED_TOKEN_PATTERN.test(message)) {
+          results.set(source.id, undefined);
+        }
+        return;
+      }
+
+      const changes: SharePointChange[] = (response.body as { value?: SharePointChange[] } | undefined)?.value || [];
+      if (changes.length >= AppConstants.SYNC.CHANGE_QUERY_LIMIT) return;
+
+      const changed = new Set<number>();
+      const deleted = new Set<number>();
+      const token = this.readChanges(changes, changed, deleted) || changeToken;
+      results.set(source.id, { changedItemIds: Array.from(changed), deletedItemIds: Array.from(deleted), changeToken: token });
+    });
+
+    return results;
+  }
+
+  private getChangeQuery(changeToken: string): Record<string, unknown> {
+    return {
+      query: {
+        Item: true,
+        Add: true,
+        Update: true,
+        DeleteObject: true,
+        Restore: true,
+        FetchLimit: AppConstants.SYNC.CHANGE_QUERY_LIMIT,
+        ChangeTokenStart: { StringValue: changeToken }
+      }
+    };
+  }
+
+  /**
+   * Sort a page of changes into changed and deleted items. Returns the token
+   * of the last change, if there was any.
+   */
+  private readChanges(changes: SharePointChange[], changed: Set<number>, deleted: Set<number>): string | undefined {
+    changes.forEach(change => {
+      if (change.ChangeType === SharePointChangeType.DeleteObject) {
+        changed.delete(change.ItemId);
+        deleted.add(change.ItemId);
+      } else {
+        deleted.delete(change.ItemId);
+        changed.add(change.ItemId);
+      }
+    });
+    return changes.length > 0 ? changes[changes.length - 1].ChangeToken.StringValue : undefined;
+  }
+
+  private getListUrl(source: ICalendarSource): string {
+    return `${source.siteUrl}${AppConstants.SHAREPOINT_API.LIST_ENDPOINT.replace('{listId}', source.id)}`;
+  }
+}
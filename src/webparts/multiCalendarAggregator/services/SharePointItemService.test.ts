@@ -0,0 +1,146 @@
+jest.mock('@microsoft/sp-http', () => ({ SPHttpClient: { configurations: { v1: {} } } }));
+jest.mock('@microsoft/sp-core-library', () => ({ Guid: { newGuid: () => ({ toString: () => 'new-guid' }) } }));
+
+import { WebPartContext } from '@microsoft/sp-webpart-base';
+import { SharePointItemService } from './SharePointItemService';
+import { ICalendarSource, CalendarSourceType, IFieldMapping } from '../models/ICalendarModels';
+import { AppConstants } from '../constants/AppConstants';
+
+const source: ICalendarSource = {
+  id: 'list-id',
+  title: 'Events',
+  description: '',
+  type: CalendarSourceType.SharePoint,
+  url: '',
+  siteTitle: 'Team',
+  siteUrl: 'https://contoso.sharepoint.com/sites/team',
+  color: '#0078d4',
+  isEnabled: true
+};
+const ITEMS_URL = "https://contoso.sharepoint.com/sites/team/_api/web/lists(guid'list-id')/items";
+
+const createResponse = (status: number, body: unknown = {}): Record<string, unknown> => ({
+  ok: status >= 200 && status < 300,
+  status,
+  json: async () => body
+});
+
+// A site in Eastern time (SharePoint time zone 10)
+const createService = (post: jest.Mock, get: jest.Mock = jest.fn(async () => createResponse(200, { d: { Id: 10 } }))): SharePointItemService =>
+  new SharePointItemService({ spHttpClient: { post, get } } as unknown as WebPartContext);
+
+// URL, headers and fields of each request the service posted
+const getRequests = (post: jest.Mock): { url: string; headers: Record<string, string>; fields?: Record<string, unknown> }[] =>
+  post.mock.calls.map(([url, , options]) => ({ url, headers: options.headers, fields: options.body ? JSON.parse(options.body) : undefined }));
+
+describe('SharePointItemService', () => {
+  it('creates calendar list items with all-day events as floating dates', async () => {
+    const post = jest.fn(async () => createResponse(201, { Id: 7 }));
+    const itemId = await createService(post).createItem(source, SharePointItemService.EVENTS_LIST_MAPPING, {
+      title: 'Offsite',
+      start: new Date(2026, 2, 4),
+      end: new Date(2026, 2, 6),
+      isAllDay: true,
+      location: 'Oslo',
+      calendarId: source.id
+    });
+
+    expect(itemId).toBe(7);
+    expect(getRequests(post)).toEqual([{
+      url: ITEMS_URL,
+      headers: expect.not.objectContaining({ 'IF-MATCH': expect.anything() }),
+      fields: { Title: 'Offsite', Location: 'Oslo', fAllDayEvent: true, EventDate: '2026-03-04T00:00:00Z', EndDate: '2026-03-05T23:59:00Z' }
+    }]);
+  });
+
+  it('writes a series on the wall clock of the site zone', async () => {
+    const post = jest.fn(async () => createResponse(201, { Id: 8 }));
+    // Monday evening in New York is already Tuesday in UTC
+    const start = new Date('2026-03-10T02:00:00Z');
+    const end = new Date('2026-03-10T02:30:00Z');
+
+    await createService(post).createItem(source, SharePointItemService.EVENTS_LIST_MAPPING, {
+      title: 'Handover',
+      start,
+      end,
+      calendarId: source.id,
+      recurrence: { type: 'weekly', interval: 1, occurrences: 3 }
+    });
+
+    const { fields } = getRequests(post)[0];
+    expect(fields?.RecurrenceData).toContain('<weekly mo="TRUE" weekFrequency="1" />');
+    expect(fields).toMatchObject({ EventDate: '2026-03-10T02:00:00.000Z', EndDate: '2026-03-24T02:30:00.000Z', Duration: 1800, EventType: 1 });
+  });
+
+  it('writes other lists through their field mapping and leaves out fields they do not have', async () => {
+    const post = jest.fn(async () => createResponse(201, { ID: 3 }));
+    const mapping: IFieldMapping = { titleField: 'Title', startDateField: 'TaskDueDate', locationField: 'Room' };
+    const start = new Date('2026-03-04T09:00:00Z');
+
+    await createService(post).createItem(source, mapping, { title: 'Review', start, end: start, location: 'B12', category: 'Work', calendarId: source.id });
+
+    expect(getRequests(post)[0].fields).toEqual({ Title: 'Review', Room: 'B12', TaskDueDate: '2026-03-04T09:00:00.000Z' });
+  });
+
+  it('refuses to write a series to a list that is not a calendar', async () => {
+    const post = jest.fn();
+    const start = new Date('2026-03-04T09:00:00Z');
+    const request = { title: 'Stand-up', start, end: start, calendarId: source.id, recurrence: { type: 'daily' as const, interval: 1 } };
+
+    await expect(createService(post).createItem(source, { startDateField: 'TaskDueDate' }, request))
+      .rejects.toThrow('Recurring events can only be saved to SharePoint calendar lists');
+    expect(post).not.toHaveBeenCalled();
+  });
+
+  it('updates and deletes items against their etag', async () => {
+    const post = jest.fn(async () => createResponse(204));
+    const service = createService(post);
+
+    await service.updateItem(source, SharePointItemService.EVENTS_LIST_MAPPING, 7, { title: 'Offsite (moved)' }, '"3"');
+    await service.deleteItem(source, 7, '"4"');
+
+    expect(getRequests(post)).toEqual([
+      { url: `${ITEMS_URL}(7)`, headers: expect.objectContaining({ 'IF-MATCH': '"3"', 'X-HTTP-Method': 'MERGE' }), fields: { Title: 'Offsite (moved)' } },
+      { url: `${ITEMS_URL}(7)`, headers: expect.objectContaining({ 'IF-MATCH': '"4"', 'X-HTTP-Method': 'DELETE' }), fields: undefined }
+    ]);
+  });
+
+  it('reports an item changed since it was loaded, and other failures with the message from SharePoint', async () => {
+    const post = jest.fn()
+      .mockResolvedValueOnce(createResponse(412))
+      .mockResolvedValueOnce(createResponse(403, { 'odata.error': { message: { value: 'Access denied.' } } }));
+    const service = createService(post);
+
+    await expect(service.deleteItem(source, 7, '"3"')).rejects.toThrow(AppConstants.ERROR_MESSAGES.EVENT_CHANGED);
+    await expect(service.deleteItem(source, 7, '"3"')).rejects.toThrow(`${AppConstants.ERROR_MESSAGES.SHAREPOINT_API_ERROR} Access denied.`);
+  });
+
+  it('deletes the changed occurrences of a series from a date on against their etags', async () => {
+    const get = jest.fn(async (_url: string) => createResponse(200, { value: [
+      { '@odata.etag': '"1"', Id: 11, RecurrenceID: '2026-03-03T14:00:00Z' },
+      { '@odata.etag': '"2"', Id: 12, RecurrenceID: '2026-03-04T14:00:00Z' },
+      { '@odata.etag': '"5"', Id: 13, RecurrenceID: '2026-03-06T14:00:00Z' }
+    ] }));
+    const post = jest.fn(async () => createResponse(200));
+
+    await createService(post, get).deleteExceptionsFrom(source, 10, new Date('2026-03-04T14:00:00Z'), false);
+
+    expect(get.mock.calls[0][0]).toBe(`${ITEMS_URL}?$select=Id,RecurrenceID&$filter=MasterSeriesItemID eq 10`);
+    expect(getRequests(post)).toEqual([
+      { url: `${ITEMS_URL}(12)`, headers: expect.objectContaining({ 'IF-MATCH': '"2"', 'X-HTTP-Method': 'DELETE' }), fields: undefined },
+      { url: `${ITEMS_URL}(13)`, headers: expect.objectContaining({ 'IF-MATCH': '"5"', 'X-HTTP-Method': 'DELETE' }), fields: undefined }
+    ]);
+  });
+
+  it('stops deleting the changed occurrences of a series when one changed since it was read', async () => {
+    const get = jest.fn(async (_url: string) => createResponse(200, { value: [
+      { '@odata.etag': '"2"', Id: 12, RecurrenceID: '2026-03-04T14:00:00Z' },
+      { '@odata.etag': '"5"', Id: 13, RecurrenceID: '2026-03-06T14:00:00Z' }
+    ] }));
+    const post = jest.fn(async () => createResponse(412));
+
+    await expect(createService(post, get).deleteExceptionsFrom(source, 10, new Date('2026-03-04T14:00:00Z'), false))
+      .rejects.toThrow(AppConstants.ERROR_MESSAGES.EVENT_CHANGED);
+    expect(post).toHaveBeenCalledTimes(1);
+  });
+});
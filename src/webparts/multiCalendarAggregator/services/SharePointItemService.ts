@@ -0,0 +1,387 @@
+import { WebPartContext } from '@microsoft/sp-webpart-base';
+import { SPHttpClient, SPHttpClientResponse } from '@microsoft/sp-http';
+import { Guid } from '@microsoft/sp-core-library';
+import moment from 'moment';
+import { ICalendarSource, IFieldMapping } from '../models/ICalendarModels';
+import { IEventCreateRequest, IEventAttachment } from '../models/IEventModels';
+import { AppConstants } from '../constants/AppConstants';
+import { RecurrenceUtils } from '../utils/RecurrenceUtils';
+import { DateUtils } from '../utils/DateUtils';
+import { RegionalSettingsService } from './RegionalSettingsService';
+
+// EventType values of series items in SharePoint calendar lists
+const SERIES_MASTER_EVENT_TYPE = 1;
+const DELETED_OCCURRENCE_EVENT_TYPE = 3;
+const EXCEPTION_EVENT_TYPE = 4;
+
+// Series without an end keep a far-future EndDate so date-range queries still find them
+const SERIES_WITHOUT_END = '2149-12-31';
+
+const SERIES_PERIOD_UNITS: { [type: string]: moment.unitOfTime.DurationConstructor } = {
+  daily: 'days',
+  weekdays: 'weeks',
+  weekly: 'weeks',
+  monthly: 'months',
+  yearly: 'years'
+};
+
+/**
+ * Creates, updates and deletes calendar items in SharePoint lists. Calendar
+ * lists are written through their standard fields and other lists through the
+ * source's field mapping. Updates and deletes are made against the item's
+ * etag and fail if someone else has changed the item since it was loaded.
+ */
+export class SharePointItemService {
+  /**
+   * Fields of a SharePoint calendar (Events) list
+   */
+  public static readonly EVENTS_LIST_MAPPING: IFieldMapping = {
+    titleField: AppConstants.SHAREPOINT_FIELDS.TITLE,
+    startDateField: AppConstants.SHAREPOINT_FIELDS.EVENT_DATE,
+    endDateField: AppConstants.SHAREPOINT_FIELDS.END_DATE,
+    descriptionField: AppConstants.SHAREPOINT_FIELDS.DESCRIPTION,
+    locationField: AppConstants.SHAREPOINT_FIELDS.LOCATION,
+    categoryField: AppConstants.SHAREPOINT_FIELDS.CATEGORY,
+    allDayField: AppConstants.SHAREPOINT_FIELDS.ALL_DAY_EVENT,
+    recurrenceField: AppConstants.SHAREPOINT_FIELDS.RECURRENCE
+  };
+
+  private context: WebPartContext;
+  private regionalSettings: RegionalSettingsService;
+
+  constructor(context: WebPartContext) {
+    this.context = context;
+    this.regionalSettings = new RegionalSettingsService(context);
+  }
+
+  /**
+   * Create an item and upload its attachments; returns the new item ID
+   */
+  public async createItem(source: ICalendarSource, mapping: IFieldMapping, request: IEventCreateRequest): Promise<number> {
+    const seriesTimeZone = await this.getSeriesTimeZone(source, request);
+    const response = await this.send(this.getItemsUrl(source), JSON.stringify(this.buildItemFields(mapping, request, true, seriesTimeZone)));
+    const item = await response.json();
+    const itemId = Number(item.Id || item.ID);
+
+    if (request.attachments && request.attachments.length > 0) {
+      await this.syncAttachments(source, itemId, request.attachments, false);
+    }
+
+    return itemId;
+  }
+
+  /**
+   * Update the given fields of an item. Attachments, when given, replace the item's current ones.
+   */
+  public async updateItem(
+    source: ICalendarSource,
+    mapping: IFieldMapping,
+    itemId: number,
+    request: Partial<IEventCreateRequest>,
+    etag: string
+  ): Promise<void> {
+    // Sent even when only attachments change, so the etag is always checked
+    const seriesTimeZone = await this.getSeriesTimeZone(source, request);
+    await this.send(this.getItemUrl(source, itemId), JSON.stringify(this.buildItemFields(mapping, request, false, seriesTimeZone)), {
+      'IF-MATCH': etag,
+      'X-HTTP-Method': 'MERGE'
+    });
+
+    if (request.attachments) {
+      await this.syncAttachments(source, itemId, request.attachments, true);
+    }
+  }
+
+  public async deleteItem(source: ICalendarSource, itemId: number, etag: string): Promise<void> {
+    await this.send(this.getItemUrl(source, itemId), undefined, {
+      'IF-MATCH': etag,
+      'X-HTTP-Method': 'DELETE'
+    });
+  }
+
+  /**
+   * Store a change to one occurrence of a series as an exception item, which
+   * either replaces the occurrence or marks it deleted; returns the new item ID
+   */
+  public async createException(
+    source: ICalendarSource,
+    masterItemId: number,
+    originalStart: Date,
+    request: IEventCreateRequest,
+    isDeleted: boolean
+  ): Promise<number> {
+    const response: SPHttpClientResponse = await this.context.spHttpClient.get(
+      `${this.getItemUrl(source, masterItemId)}?$select=UID,${AppConstants.SHAREPOINT_FIELDS.RECURRENCE_DATA}`,
+      SPHttpClient.configurations.v1,
+      { headers: { 'Accept': 'application/json;odata=nometadata' } }
+    );
+    if (!response.ok) {
+      throw new Error(`Could not read the series. Status: ${response.status}`);
+    }
+    const master = await response.json();
+
+    const isAllDay = !!request.isAllDay;
+    const fields: Record<string, unknown> = {
+      ...this.buildItemFields(SharePointItemService.EVENTS_LIST_MAPPING, { ...request, recurrence: undefined }, true),
+      [AppConstants.SHAREPOINT_FIELDS.RECURRENCE]: true,
+      [AppConstants.SHAREPOINT_FIELDS.RECURRENCE_DATA]: master[AppConstants.SHAREPOINT_FIELDS.RECURRENCE_DATA],
+      [AppConstants.SHAREPOINT_FIELDS.EVENT_TYPE]: isDeleted ? DELETED_OCCURRENCE_EVENT_TYPE : EXCEPTION_EVENT_TYPE,
+      [AppConstants.SHAREPOINT_FIELDS.MASTER_SERIES_ITEM_ID]: masterItemId,
+      [AppConstants.SHAREPOINT_FIELDS.RECURRENCE_ID]: this.formatStart(originalStart, isAllDay),
+      UID: master.UID
+    };
+    if (isDeleted) {
+      fields[AppConstants.SHAREPOINT_FIELDS.TITLE] = `Deleted: ${request.title}`;
+    }
+
+    const created = await (await this.send(this.getItemsUrl(source), JSON.stringify(fields))).json();
+    return Number(created.Id || created.ID);
+  }
+
+  /**
+   * Turn an edited occurrence back into a deleted one, so the series does not show it again
+   */
+  public async deleteException(source: ICalendarSource, itemId: number, etag: string): Promise<void> {
+    await this.send(this.getItemUrl(source, itemId), JSON.stringify({
+      [AppConstants.SHAREPOINT_FIELDS.EVENT_TYPE]: DELETED_OCCURRENCE_EVENT_TYPE
+    }), {
+      'IF-MATCH': etag,
+      'X-HTTP-Method': 'MERGE'
+    });
+  }
+
+  /**
+   * Delete the exception items of a series for occurrences from a date on,
+   * after the series has been ended before them. Each is deleted against the
+   * etag it was read with, so one changed in the meantime is reported.
+   */
+  public async deleteExceptionsFrom(source: ICalendarSource, masterItemId: number, from: Date, isAllDay: boolean): Promise<void> {
+    // Minimal metadata, the default, carries the etag of each item
+    const response: SPHttpClientResponse = await this.context.spHttpClient.get(
+      `${this.getItemsUrl(source)}?$select=Id,${AppConstants.SHAREPOINT_FIELDS.RECURRENCE_ID}&` +
+      `$filter=${AppConstants.SHAREPOINT_FIELDS.MASTER_SERIES_ITEM_ID} eq ${masterItemId}`,
+      SPHttpClient.configurations.v1
+    );
+    if (!response.ok) {
+      throw new Error(`Could not read the changed occurrences of the series. Status: ${response.status}`);
+    }
+
+    const data = await response.json();
+    const stale = ((data.value || []) as Record<string, unknown>[]).filter(item => {
+      const recurrenceId = item[AppConstants.SHAREPOINT_FIELDS.RECURRENCE_ID] as string | undefined;
+      if (!recurrenceId) {
+        return false;
+      }
+      // All-day occurrences are stored as floating dates, so compare calendar days
+      return isAllDay
+        ? moment.parseZone(recurrenceId).format('YYYY-MM-DD') >= moment(from).format('YYYY-MM-DD')
+        : new Date(recurrenceId).getTime() >= from.getTime();
+    });
+
+    for (const item of stale) {
+      await this.send(this.getItemUrl(source, Number(item.Id)), undefined, {
+        'IF-MATCH': item['@odata.etag'] as string,
+        'X-HTTP-Method': 'DELETE'
+      });
+    }
+  }
+
+  /**
+   * Zone SharePoint expands a timed series in: the site's
+   */
+  private async getSeriesTimeZone(source: ICalendarSource, request: Partial<IEventCreateRequest>): Promise<string | undefined> {
+    return request.recurrence && !request.isAllDay ? this.regionalSettings.getSiteTimeZone(source.siteUrl) : undefined;
+  }
+
+  /**
+   * Map the values present in a request to list fields. Fields the list does
+   * not have are left out.
+   */
+  private buildItemFields(
+    mapping: IFieldMapping,
+    request: Partial<IEventCreateRequest>,
+    isNew: boolean,
+    seriesTimeZone?: string
+  ): Record<string, unknown> {
+    const fields: Record<string, unknown> = {};
+    const isAllDay = !!request.isAllDay;
+
+    if (request.title !== undefined) {
+      fields[mapping.titleField || AppConstants.SHAREPOINT_FIELDS.TITLE] = request.title;
+    }
+    if (request.description !== undefined && mapping.descriptionField) {
+      fields[mapping.descriptionField] = request.description;
+    }
+    if (request.location !== undefined && mapping.locationField) {
+      fields[mapping.locationField] = request.location || '';
+    }
+    if (request.category !== undefined && mapping.categoryField) {
+      fields[mapping.categoryField] = request.category || '';
+    }
+    if (request.isAllDay !== undefined && mapping.allDayField) {
+      fields[mapping.allDayField] = isAllDay;
+    }
+    if (request.start) {
+      fields[mapping.startDateField] = this.formatStart(request.start, isAllDay);
+    }
+    if (request.end && mapping.endDateField) {
+      fields[mapping.endDateField] = this.formatEnd(request.end, isAllDay);
+    }
+
+    if (request.recurrence) {
+      if (mapping.recurrenceField !== AppConstants.SHAREPOINT_FIELDS.RECURRENCE) {
+        throw new Error('Recurring events can only be saved to SharePoint calendar lists');
+      }
+      if (!request.start || !request.end) {
+        throw new Error('Recurring events need a start and end');
+      }
+
+      // A series master keeps the first occurrence in EventDate, the end of
+      // the series in EndDate and the length of each occurrence in Duration
+      fields[AppConstants.SHAREPOINT_FIELDS.RECURRENCE] = true;
+      fields[AppConstants.SHAREPOINT_FIELDS.RECURRENCE_DATA] = RecurrenceUtils.toSharePointRecurrence(request.recurrence, request.start, seriesTimeZone);
+      fields[AppConstants.SHAREPOINT_FIELDS.EVENT_TYPE] = SERIES_MASTER_EVENT_TYPE;
+      fields[AppConstants.SHAREPOINT_FIELDS.DURATION] = Math.round((request.end.getTime() - request.start.getTime()) / 1000);
+      fields[AppConstants.SHAREPOINT_FIELDS.END_DATE] = this.getSeriesEnd(request.start, request.end, request.recurrence, isAllDay, seriesTimeZone);
+      if (isNew) {
+        fields.UID = `{${Guid.newGuid().toString()}}`;
+      }
+    }
+
+    return fields;
+  }
+
+  /**
+   * All-day items are stored as floating dates that run to 23:59 on their last day
+   */
+  private formatStart(date: Date, isAllDay: boolean): string {
+    return isAllDay ? moment(date).format('YYYY-MM-DD[T00:00:00Z]') : date.toISOString();
+  }
+
+  private formatEnd(date: Date, isAllDay: boolean): string {
+    return isAllDay ? moment(date).subtract(1, 'minute').format('YYYY-MM-DD[T]HH:mm[:00Z]') : date.toISOString();
+  }
+
+  /**
+   * End of the last occurrence of a series, as stored in a master's EndDate.
+   * The series is expanded on the wall clock of the zone it repeats in.
+   */
+  private getSeriesEnd(
+    start: Date,
+    end: Date,
+    recurrence: NonNullable<IEventCreateRequest['recurrence']>,
+    isAllDay: boolean,
+    timeZone?: string
+  ): string {
+    if (!recurrence.endDate && !recurrence.occurrences) {
+      return this.formatEnd(moment(SERIES_WITHOUT_END).add(1, 'day').toDate(), true);
+    }
+
+    // Counted series are searched over twice their nominal length, as patterns
+    // such as the 31st of the month skip some periods
+    const wallStart = DateUtils.convertToUserTimezone(start, timeZone);
+    const rangeEnd = recurrence.endDate
+      ? moment(recurrence.endDate).endOf('day').toDate()
+      : moment(wallStart).add(2 * (recurrence.occurrences || 1) * (recurrence.interval || 1), SERIES_PERIOD_UNITS[recurrence.type] || 'years').toDate();
+    const occurrences = RecurrenceUtils.getOccurrenceDates(
+      wallStart, recurrence, wallStart, rangeEnd, recurrence.occurrences || AppConstants.API_LIMITS.MAX_EVENTS_PER_REQUEST
+    );
+    const lastStart = occurrences.length > 0 ? DateUtils.convertFromUserTimezone(occurrences[occurrences.length - 1], timeZone) : start;
+
+    return this.formatEnd(new Date(lastStart.getTime() + end.getTime() - start.getTime()), isAllDay);
+  }
+
+  /**
+   * Upload attachments that carry content. When replacing, attachments that
+   * are no longer listed or are uploaded again are removed first.
+   */
+  private async syncAttachments(source: ICalendarSource, itemId: number, attachments: IEventAttachment[], replace: boolean): Promise<void> {
+    const itemUrl = this.getItemUrl(source, itemId);
+    const uploads = attachments.filter(attachment => !!attachment.content);
+
+    if (replace) {
+      const response: SPHttpClientResponse = await this.context.spHttpClient.get(
+        `${itemUrl}/AttachmentFiles?$select=FileName`,
+        SPHttpClient.configurations.v1,
+        { headers: { 'Accept': 'application/json;odata=nometadata' } }
+      );
+      if (!response.ok) {
+        throw new Error(`Could not read attachments. Status: ${response.status}`);
+      }
+
+      const data = await response.json();
+      const kept = new Set(attachments.filter(attachment => !attachment.content).map(attachment => attachment.name));
+      const removed = ((data.value || []) as { FileName: string }[])
+        .map(file => file.FileName)
+        .filter(fileName => !kept.has(fileName));
+
+      for (const fileName of removed) {
+        await this.send(`${itemUrl}/AttachmentFiles('${this.escapeODataString(fileName)}')`, undefined, { 'X-HTTP-Method': 'DELETE' });
+      }
+    }
+
+    for (const attachment of uploads) {
+      await this.send(
+        `${itemUrl}/AttachmentFiles/add(FileName='${this.escapeODataString(attachment.name)}')`,
+        this.decodeBase64(attachment.content as string),
+        { 'Content-Type': attachment.contentType || 'application/octet-stream' }
+      );
+    }
+  }
+
+  /**
+   * POST to the list, turning a failed etag check into a readable error
+   */
+  private async send(url: string, body?: string | ArrayBuffer, headers: Record<string, string> = {}): Promise<SPHttpClientResponse> {
+    const response: SPHttpClientResponse = await this.context.spHttpClient.post(url, SPHttpClient.configurations.v1, {
+      headers: {
+        'Accept': 'application/json;odata=nometadata',
+        'Content-Type': 'application/json;odata=nometadata',
+        ...headers
+      },
+      body
+    });
+
+    if (response.status === 412) {
+      throw new Error(AppConstants.ERROR_MESSAGES.EVENT_CHANGED);
+    }
+    if (!response.ok) {
+      throw new Error(`${AppConstants.ERROR_MESSAGES.SHAREPOINT_API_ERROR} ${await this.getErrorMessage(response)}`.trim());
+    }
+
+    return response;
+  }
+
+  private async getErrorMessage(response: SPHttpClientResponse): Promise<string> {
+    try {
+      const data = await response.json();
+      return data['odata.error']?.message?.value || data.error?.message?.value || `Status: ${response.status}`;
+    } catch {
+      return `Status: ${response.status}`;
+    }
+  }
+
+  /**
+   * Decode base64 content, with or without a data URL prefix
+   */
+  private decodeBase64(content: string): ArrayBuffer {
+    const binary = atob(content.replace(/^data:[^,]*,/, ''));
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) {
+      bytes[i] = binary.charCodeAt(i);
+    }
+    return bytes.buffer;
+  }
+
+  private escapeODataString(value: string): string {
+    return encodeURIComponent(value.replace(/'/g, "''"));
+  }
+
+  private getItemsUrl(source: ICalendarSource): string {
+    return `${source.siteUrl}${AppConstants.SHAREPOINT_API.LIST_ITEMS_ENDPOINT.replace('{listId}', source.id)}`;
+  }
+
+  private getItemUrl(source: ICalendarSource, itemId: number): string {
+    return `${this.getItemsUrl(source)}(${itemId})`;
+  }
+}
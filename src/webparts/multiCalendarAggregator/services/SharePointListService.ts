@@ -12,14 +12,23 @@ import {
 } from '../models/ICalendarModels';
 import { DateUtils } from '../utils/DateUtils';
 import { ColorUtils } from '../utils/ColorUtils';
+import { PagingUtils, IPagedResult } from '../utils/PagingUtils';
+import { AppConstants } from '../constants/AppConstants';
+import { RegionalSettingsService } from './RegionalSettingsService';
+import { SharePointBatchService } from './SharePointBatchService';
+import { IRequestOptions } from './RequestScheduler';
 
 export class SharePointListService {
   private context: WebPartContext;
   private configuration: ISharePointListConfiguration;
+  private regionalSettings: RegionalSettingsService;
+  private batchService: SharePointBatchService;
 
   constructor(context: WebPartContext, configuration?: ISharePointListConfiguration) {
     this.context = context;
     this.configuration = configuration || this.getDefaultConfiguration();
+    this.regionalSettings = new RegionalSettingsService(context);
+    this.batchService = new SharePointBatchService(context);
   }
 
   /**
@@ -541,60 +550,65 @@ export class SharePointListService {
   /**
    * Get events from SharePoint list
    */
-  public async getEventsFromList(source: ISharePointListSource, maxEvents: number = 100): Promise<ISharePointEvent[]> {
+  public async getEventsFromList(
+    source: ISharePointListSource,
+    maxEvents: number = 100,
+    onProgress?: (eventsSoFar: ISharePointEvent[]) => void,
+    options: IRequestOptions = {}
+  ): Promise<IPagedResult<ISharePointEvent>> {
     const events: ISharePointEvent[] = [];
+    let result: IPagedResult<Record<string, unknown>> = { items: [], truncated: false, pageCount: 0 };
 
     try {
       console.log(`Getting events from list: ${source.title}`);
+      const siteTimeZone = await this.regionalSettings.getSiteTimeZone(source.siteUrl);
       
       // Build field selection based on list type and custom fields
       const selectFields = this.buildSelectFields(source);
       const filterQuery = this.buildFilterQuery(source);
       const orderBy = this.getOrderByField(source);
       
+      const maxItems = Math.min(maxEvents, this.configuration.maxItemsPerList);
       const apiUrl = `${source.siteUrl}/_api/web/lists(guid'${source.id}')/items?` +
         `$select=${selectFields}&` +
         `$expand=AttachmentFiles,Author,Editor,AssignedTo&` +
         `$filter=${filterQuery}&` +
         `$orderby=${orderBy}&` +
-        `$top=${Math.min(maxEvents, this.configuration.maxItemsPerList)}`;
+        `$top=${Math.min(maxItems, AppConstants.API_LIMITS.MAX_EVENTS_PER_REQUEST)}`;
 
       console.log(`API URL: ${apiUrl}`);
 
-      const response: SPHttpClientResponse = await this.context.spHttpClient.get(
+      const fetchPage = PagingUtils.sharePointPageFetcher<Record<string, unknown>>(
+        this.context.spHttpClient,
         apiUrl,
-        SPHttpClient.configurations.v1,
         {
-          headers: {
-            'Accept': 'application/json;odata=verbose',
-            'Content-Type': 'application/json;odata=verbose'
-          }
+          'Accept': 'application/json;odata=verbose',
+          'Content-Type': 'application/json;odata=verbose'
         }
       );
 
-      if (response.ok) {
-        const data = await response.json();
-        const items = data.d?.results || data.value || [];
-
-        console.log(`Retrieved ${items.length} items from list`);
-        for (const item of items) {
-         try {
-           const event = this.mapListItemToEvent(item, source);
-           if (event) {
-             events.push(event);
-           }
-         } catch (error) {
-           console.warn(`Error mapping item ${item.ID} to event:`, error);
-         }
-       }
+      result = await PagingUtils.collectPages(fetchPage, {
+        maxItems,
+        signal: options.signal,
+        onPage: (itemsSoFar) => {
+          // Map only the items added by the latest page
+          for (const item of itemsSoFar.slice(events.length)) {
+            const event = this.tryMapListItem(item, source, siteTimeZone);
+            if (event) {
+              events.push(event);
+            }
+          }
+          if (onProgress) {
+            onProgress(events.slice());
+          }
+        }
+      });
 
-       // Get additional data if enabled
-       if (this.configuration.enableVersionHistory || this.configuration.enableComments) {
-         await this.enrichEventsWithAdditionalData(events, source);
-       }
+      console.log(`Retrieved ${result.items.length} items from list in ${result.pageCount} page(s)`);
 
-     } else {
-       throw new Error(`Failed to fetch events. Status: ${response.status}`);
+     // Get additional data if enabled
+     if (this.configuration.enableVersionHistory || this.configuration.enableComments) {
+       await this.enrichEventsWithAdditionalData(events, source);
      }
    } catch (error) {
      console.error(`Error getting events from list ${source.title}:`, error);
@@ -602,9 +616,87 @@ export class SharePointListService {
    }
 
    console.log(`Successfully retrieved ${events.length} events from list: ${source.title}`);
+   return { items: events, truncated: result.truncated, pageCount: result.pageCount };
+ }
+
+ /**
+  * Current events of some items that fall in the list's date range, for
+  * merging changes into loaded events
+  */
+ public async getEventsForItems(source: ISharePointListSource, itemIds: number[]): Promise<ISharePointEvent[]> {
+   const siteTimeZone = await this.regionalSettings.getSiteTimeZone(source.siteUrl);
+   const events: ISharePointEvent[] = [];
+
+   for (let index = 0; index < itemIds.length; index += AppConstants.SYNC.ITEMS_PER_LOOKUP) {
+     const idFilter = itemIds.slice(index, index + AppConstants.SYNC.ITEMS_PER_LOOKUP).map(id => `ID eq ${id}`).join(' or ');
+     const apiUrl = `${source.siteUrl}/_api/web/lists(guid'${source.id}')/items?` +
+       `$select=${this.buildSelectFields(source)}&` +
+       `$expand=AttachmentFiles,Author,Editor,AssignedTo&` +
+       `$filter=(${this.buildFilterQuery(source)}) and (${idFilter})&` +
+       `$top=${AppConstants.API_LIMITS.MAX_EVENTS_PER_REQUEST}`;
+
+     const result = await PagingUtils.collectPages(
+       PagingUtils.sharePointPageFetcher<Record<string, unknown>>(this.context.spHttpClient, apiUrl, {
+         'Accept': 'application/json;odata=verbose',
+         'Content-Type': 'application/json;odata=verbose'
+       }),
+       { maxItems: this.configuration.maxItemsPerList }
+     );
+     result.items.forEach(item => {
+       const event = this.tryMapListItem(item, source, siteTimeZone);
+       if (event) {
+         events.push(event);
+       }
+     });
+   }
+
+   if (this.configuration.enableVersionHistory || this.configuration.enableComments) {
+     await this.enrichEventsWithAdditionalData(events, source);
+   }
    return events;
  }
 
+ /**
+  * Get a single list item as an event
+  */
+ public async getEventById(source: ISharePointListSource, itemId: number): Promise<ISharePointEvent> {
+   const siteTimeZone = await this.regionalSettings.getSiteTimeZone(source.siteUrl);
+   const response: SPHttpClientResponse = await this.context.spHttpClient.get(
+     `${source.siteUrl}/_api/web/lists(guid'${source.id}')/items(${itemId})?` +
+     `$select=${this.buildSelectFields(source)}&` +
+     `$expand=AttachmentFiles,Author,Editor,AssignedTo`,
+     SPHttpClient.configurations.v1,
+     {
+       headers: {
+         'Accept': 'application/json;odata=verbose',
+         'Content-Type': 'application/json;odata=verbose'
+       }
+     }
+   );
+   if (!response.ok) {
+     throw new Error(`Could not load item ${itemId} from ${source.title}. Status: ${response.status}`);
+   }
+
+   const data = await response.json();
+   const event = this.tryMapListItem(data.d || data, source, siteTimeZone);
+   if (!event) {
+     throw new Error(`Item ${itemId} in ${source.title} cannot be shown as an event`);
+   }
+   return event;
+ }
+
+ /**
+  * Map a list item, logging and skipping items that cannot be mapped
+  */
+ private tryMapListItem(item: Record<string, unknown>, source: ISharePointListSource, siteTimeZone?: string): ISharePointEvent | null {
+   try {
+     return this.mapListItemToEvent(item, source, siteTimeZone);
+   } catch (error) {
+     console.warn(`Error mapping item ${item.ID} to event:`, error);
+     return null;
+   }
+ }
+
  /**
   * Build select fields query based on list configuration
   */
@@ -701,17 +793,23 @@ export class SharePointListService {
  }
 
  /**
-  * Map SharePoint list item to calendar event
+  * Map SharePoint list item to calendar event. All-day items keep their
+  * calendar dates; other values are read in the site's regional time zone.
   */
- private mapListItemToEvent(item: any, source: ISharePointListSource): ISharePointEvent | null {
+ private mapListItemToEvent(item: any, source: ISharePointListSource, siteTimeZone?: string): ISharePointEvent | null {
    try {
-     const startDate = this.getItemStartDate(item, source);
+     const isAllDay = this.getIsAllDay(item, source);
+     const parseDate = (value: string): Date => isAllDay
+       ? DateUtils.parseFloatingDate(value)
+       : DateUtils.parseSharePointDate(value, siteTimeZone);
+
+     const startDate = this.getItemStartDate(item, source, parseDate);
      if (!startDate) {
        console.warn(`Item ${item.ID} has no valid start date`);
        return null;
      }
 
-     const endDate = this.getItemEndDate(item, source, startDate);
+     const endDate = this.getItemEndDate(item, source, startDate, parseDate);
      
      const event: ISharePointEvent = {
        id: `sp_list_${source.id}_${item.ID}`,
@@ -721,17 +819,19 @@ export class SharePointListService {
        end: endDate,
        location: this.getItemLocation(item, source),
        category: this.getItemCategory(item, source),
-       isAllDay: this.getIsAllDay(item, source),
+       isAllDay,
        isRecurring: this.getIsRecurring(item, source),
        calendarId: source.id,
        calendarTitle: source.title,
        calendarType: source.type,
        organizer: this.getItemOrganizer(item, source),
-       created: new Date(item.Created),
-       modified: new Date(item.Modified),
+       organizerEmail: this.getItemOrganizerEmail(item, source),
+       created: DateUtils.parseSharePointDate(item.Created, siteTimeZone),
+       modified: DateUtils.parseSharePointDate(item.Modified, siteTimeZone),
        webUrl: this.getItemWebUrl(item, source),
        color: source.color,
        importance: this.getItemImportance(item, source),
+       timeZone: siteTimeZone,
        
        // SharePoint-specific properties
        listItemId: item.ID,
@@ -747,8 +847,8 @@ export class SharePointListService {
        assignedTo: this.getAssignedTo(item),
        priority: item.Priority || 'Normal',
        taskStatus: item.Status,
-       publishedDate: item.PublishedDate ? new Date(item.PublishedDate) : undefined,
-       expirationDate: item.Expires ? new Date(item.Expires) : undefined
+       publishedDate: item.PublishedDate ? parseDate(item.PublishedDate) : undefined,
+       expirationDate: item.Expires ? parseDate(item.Expires) : undefined
      };
 
      return event;
@@ -761,14 +861,14 @@ export class SharePointListService {
  /**
   * Get start date from list item
   */
- private getItemStartDate(item: any, source: ISharePointListSource): Date | null {
+ private getItemStartDate(item: any, source: ISharePointListSource, parseDate: (value: string) => Date): Date | null {
    const dateField = source.fieldMappings?.startDateField || this.getDefaultStartDateField(source);
    const dateValue = item[dateField];
    
    if (!dateValue) return null;
    
    try {
-     return new Date(dateValue);
+     return parseDate(dateValue);
    } catch {
      return null;
    }
@@ -777,12 +877,12 @@ export class SharePointListService {
  /**
   * Get end date from list item
   */
- private getItemEndDate(item: any, source: ISharePointListSource, startDate: Date): Date {
+ private getItemEndDate(item: any, source: ISharePointListSource, startDate: Date, parseDate: (value: string) => Date): Date {
    const endDateField = source.fieldMappings?.endDateField;
    
    if (endDateField && item[endDateField]) {
      try {
-       const endDate = new Date(item[endDateField]);
+       const endDate = parseDate(item[endDateField]);
        if (endDate > startDate) {
          return endDate;
        }
@@ -794,21 +894,21 @@ export class SharePointListService {
    // Default end date calculation based on list type
    switch (source.listType) {
      case 'Events': {
-       const endDate = item.EndDate ? new Date(item.EndDate) : null;
+       const endDate = item.EndDate ? parseDate(item.EndDate) : null;
        if (endDate && endDate > startDate) {
          return endDate;
        }
        return new Date(startDate.getTime() + 60 * 60 * 1000); // Default 1 hour
      }
      case 'Tasks': {
-       const dueDate = item.DueDate ? new Date(item.DueDate) : null;
+       const dueDate = item.DueDate ? parseDate(item.DueDate) : null;
        if (dueDate && dueDate > startDate) {
          return dueDate;
        }
        return new Date(startDate.getTime() + 24 * 60 * 60 * 1000); // Default 1 day
      }
      case 'Announcements': {
-       const expires = item.Expires ? new Date(item.Expires) : null;
+       const expires = item.Expires ? parseDate(item.Expires) : null;
        if (expires && expires > startDate) {
          return expires;
        }
@@ -914,6 +1014,23 @@ export class SharePointListService {
    return 'Unknown';
  }
 
+ /**
+  * Get the email of the item organizer, from the same fields as getItemOrganizer
+  */
+ private getItemOrganizerEmail(item: any, source: ISharePointListSource): string | undefined {
+   const organizerField = source.fieldMappings?.organizerField;
+   const organizer = organizerField ? item[organizerField] : undefined;
+
+   if (organizer && typeof organizer === 'object') {
+     return organizer.EMail;
+   }
+   if (organizer) {
+     return undefined;
+   }
+
+   return item.AssignedTo?.Title ? item.AssignedTo.EMail : item.Author?.EMail;
+ }
+
  /**
   * Get assigned to users
   */
@@ -1161,6 +1278,8 @@ export class SharePointListService {
 
    for (const source of sources.filter(s => s.isEnabled && s.permissions.canRead)) {
      try {
+       const siteTimeZone = await this.regionalSettings.getSiteTimeZone(source.siteUrl);
+
        // Build search filter for SharePoint
        const searchFilter = this.buildSearchFilter(searchTerms, source);
        
@@ -1183,7 +1302,7 @@ export class SharePointListService {
          const items = data.d?.results || data.value || [];
 
          for (const item of items) {
-           const event = this.mapListItemToEvent(item, source);
+           const event = this.mapListItemToEvent(item, source, siteTimeZone);
            if (event) {
              allEvents.push(event);
            }
@@ -1245,39 +1364,41 @@ export class SharePointListService {
    sources: ISharePointListSource[], 
    startDate: Date, 
    endDate: Date, 
-   maxEvents: number = 1000
+   maxEvents: number = 1000,
+   options: IRequestOptions = {}
  ): Promise<ISharePointEvent[]> {
    const allEvents: ISharePointEvent[] = [];
 
    console.log(`Getting events for date range: ${DateUtils.formatDate(startDate)} to ${DateUtils.formatDate(endDate)}`);
 
-   for (const source of sources.filter(s => s.isEnabled && s.permissions.canRead)) {
+   const lists = sources.filter(s => s.isEnabled && s.permissions.canRead);
+   const maxItems = Math.min(maxEvents, this.configuration.maxItemsPerList);
+
+   // First pages of lists on the same site are requested in one batch
+   const results = await this.batchService.collectPages<Record<string, unknown>>(lists.map(source => ({
+     id: source.id,
+     siteUrl: source.siteUrl,
+     maxItems,
+     url: `${source.siteUrl}/_api/web/lists(guid'${source.id}')/items?` +
+       `$select=${this.buildSelectFields(source)}&` +
+       `$expand=AttachmentFiles,Author,Editor,AssignedTo&` +
+       `$filter=${this.buildDateRangeFilter(source, startDate, endDate)}&` +
+       `$orderby=${this.getOrderByField(source)}&` +
+       `$top=${Math.min(maxItems, AppConstants.API_LIMITS.MAX_EVENTS_PER_REQUEST)}`
+   })), options);
+
+   for (const source of lists) {
      try {
-       const dateFilter = this.buildDateRangeFilter(source, startDate, endDate);
-       const selectFields = this.buildSelectFields(source);
-       const orderBy = this.getOrderByField(source);
-
-       const apiUrl = `${source.siteUrl}/_api/web/lists(guid'${source.id}')/items?` +
-         `$select=${selectFields}&` +
-         `$expand=AttachmentFiles,Author,Editor,AssignedTo&` +
-         `$filter=${dateFilter}&` +
-         `$orderby=${orderBy}&` +
-         `$top=${maxEvents}`;
-
-       const response: SPHttpClientResponse = await this.context.spHttpClient.get(
-         apiUrl,
-         SPHttpClient.configurations.v1
-       );
-
-       if (response.ok) {
-         const data = await response.json();
-         const items = data.d?.results || data.value || [];
+       const result = results.get(source.id);
+       if (!result || result instanceof Error) {
+         throw result || new Error('No response');
+       }
+       const siteTimeZone = await this.regionalSettings.getSiteTimeZone(source.siteUrl);
 
-         for (const item of items) {
-           const event = this.mapListItemToEvent(item, source);
-           if (event && event.start >= startDate && event.start <= endDate) {
-             allEvents.push(event);
-           }
+       for (const item of result.items) {
+         const event = this.mapListItemToEvent(item, source, siteTimeZone);
+         if (event && event.start >= startDate && event.start <= endDate) {
+           allEvents.push(event);
          }
        }
      } catch (error) {
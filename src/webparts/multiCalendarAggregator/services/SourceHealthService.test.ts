@@ -0,0 +1,117 @@
+jest.mock('@microsoft/sp-http', () => ({ SPHttpClient: { configurations: { v1: {} } } }));
+
+import { WebPartContext } from '@microsoft/sp-webpart-base';
+import { SourceHealthService } from './SourceHealthService';
+import { ICalendarSource, CalendarSourceType } from '../models/ICalendarModels';
+import { AppConstants } from '../constants/AppConstants';
+
+const createSource = (type: CalendarSourceType, changes: Partial<ICalendarSource> = {}): ICalendarSource => ({
+  id: 'calendar-id',
+  title: 'Events',
+  description: '',
+  type,
+  url: '',
+  siteTitle: 'Team',
+  siteUrl: 'https://contoso.sharepoint.com/sites/team',
+  color: '#0078d4',
+  isEnabled: true,
+  ...changes
+});
+
+const createResponse = (status: number, body: unknown = {}): Record<string, unknown> => ({
+  ok: status >= 200 && status < 300,
+  status,
+  json: async () => body
+});
+
+const createContext = (get: jest.Mock, graphGet: jest.Mock = jest.fn()): { context: WebPartContext; api: jest.Mock } => {
+  const api = jest.fn(() => ({ select: () => ({ get: graphGet }) }));
+  const context = {
+    spHttpClient: { get },
+    msGraphClientFactory: { getClient: async () => ({ api }) },
+    pageContext: { user: { loginName: 'Pat@Contoso.com' } }
+  } as unknown as WebPartContext;
+  return { context, api };
+};
+
+describe('SourceHealthService.checkSource', () => {
+  beforeEach(() => localStorage.clear());
+
+  it('reads the list and whether the user can edit its items', async () => {
+    const get = jest.fn(async (url: string) => url.indexOf('EffectiveBasePermissions') >= 0
+      ? createResponse(200, { d: { EffectiveBasePermissions: { Low: '4', High: '0' } } })
+      : createResponse(200));
+    const health = await new SourceHealthService(createContext(get).context).checkSource(createSource(CalendarSourceType.SharePoint));
+
+    expect(get.mock.calls[0][0]).toBe("https://contoso.sharepoint.com/sites/team/_api/web/lists(guid'calendar-id')?$select=Id,Title,ItemCount,LastItemModifiedDate");
+    expect(health.latest).toMatchObject({ status: 'success', httpStatus: 200, canEdit: true });
+    expect(health.errorStreak).toBe(0);
+  });
+
+  it('classifies failed requests by their status', async () => {
+    const statuses: [number, string, string][] = [
+      [403, 'auth', AppConstants.ERROR_MESSAGES.PERMISSION_DENIED],
+      [404, 'notFound', AppConstants.ERROR_MESSAGES.CALENDAR_NOT_FOUND],
+      [429, 'throttled', AppConstants.ERROR_MESSAGES.QUOTA_EXCEEDED],
+      [500, 'server', 'The calendar service returned an error. Please try again later.']
+    ];
+
+    for (const [status, failureReason, errorMessage] of statuses) {
+      const service = new SourceHealthService(createContext(jest.fn(async () => createResponse(status))).context);
+      const health = await service.checkSource(createSource(CalendarSourceType.SharePoint, { id: `list-${status}` }));
+      expect(health.latest).toMatchObject({ status: 'error', httpStatus: status, failureReason, errorMessage });
+    }
+  });
+
+  it('reports requests that never reached the server as network failures', async () => {
+    const get = jest.fn(async () => { throw new TypeError('Failed to fetch'); });
+    const health = await new SourceHealthService(createContext(get).context).checkSource(createSource(CalendarSourceType.SharePoint));
+
+    expect(health.latest).toMatchObject({ status: 'error', failureReason: 'network' });
+  });
+
+  it('reads Exchange calendars from Graph, with group calendars by their group', async () => {
+    const graphGet = jest.fn()
+      .mockResolvedValueOnce({ canEdit: false })
+      .mockRejectedValueOnce(Object.assign(new Error('Forbidden'), { statusCode: 403 }));
+    const { context, api } = createContext(jest.fn(), graphGet);
+    const service = new SourceHealthService(context);
+
+    const own = await service.checkSource(createSource(CalendarSourceType.Exchange));
+    const group = await service.checkSource(createSource(CalendarSourceType.Exchange, { id: 'group-calendar', groupId: 'group-id' }));
+
+    expect(api.mock.calls.map(call => call[0])).toEqual(['/me/calendars/calendar-id', '/groups/group-id/calendar']);
+    expect(own.latest).toMatchObject({ status: 'success', canEdit: false });
+    expect(group.latest).toMatchObject({ status: 'error', httpStatus: 403, failureReason: 'auth' });
+  });
+
+  it('keeps a history per user with the streak of failures since the last success', async () => {
+    const get = jest.fn()
+      .mockResolvedValueOnce(createResponse(200))
+      .mockResolvedValueOnce(createResponse(200, { Low: '0' }))
+      .mockResolvedValue(createResponse(503));
+    const { context } = createContext(get);
+    const source = createSource(CalendarSourceType.SharePoint);
+
+    await new SourceHealthService(context).checkSource(source);
+    await new SourceHealthService(context).checkSource(source);
+    await new SourceHealthService(context).checkSource(source);
+
+    const health = new SourceHealthService(context).getSourceHealth(source.id);
+    expect(health?.history.map(status => status.status)).toEqual(['error', 'error', 'success']);
+    expect(health?.errorStreak).toBe(2);
+    expect(health?.lastSuccess).toBeInstanceOf(Date);
+    expect(localStorage.getItem(`${AppConstants.STORAGE_KEYS.SOURCE_HEALTH}-pat@contoso.com`)).not.toBeNull();
+
+    new SourceHealthService(context).clearSourceHealth(source.id);
+    expect(new SourceHealthService(context).getSourceHealth(source.id)).toBeUndefined();
+  });
+
+  it('reports imported calendars as reachable without a request', async () => {
+    const get = jest.fn();
+    const health = await new SourceHealthService(createContext(get).context).checkSource(createSource(CalendarSourceType.ICS));
+
+    expect(get).not.toHaveBeenCalled();
+    expect(health.latest).toMatchObject({ status: 'success', canEdit: false });
+  });
+});
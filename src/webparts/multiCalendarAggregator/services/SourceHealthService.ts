@@ -0,0 +1,274 @@
+import { WebPartContext } from '@microsoft/sp-webpart-base';
+import { SPHttpClient, SPHttpClientResponse } from '@microsoft/sp-http';
+import { MSGraphClientV3 } from '@microsoft/sp-http-msgraph';
+import { ICalendarSource, CalendarSourceType, ISyncStatus, ISourceHealth, SourceFailureReason } from '../models/ICalendarModels';
+import { AppConstants } from '../constants/AppConstants';
+
+/**
+ * Outcome of a single request made by a probe
+ */
+interface IProbeResponse {
+  ok: boolean;
+  status?: number;
+  latencyMs: number;
+  error?: unknown;
+}
+
+// EditListItems in the low word of SharePoint base permissions
+const SP_EDIT_LIST_ITEMS = 0x4;
+
+/**
+ * Probes calendar sources with real requests and keeps a history of the
+ * results per source for the current user
+ */
+export class SourceHealthService {
+  private context: WebPartContext;
+  private graphClient: MSGraphClientV3 | undefined;
+
+  constructor(context: WebPartContext) {
+    this.context = context;
+  }
+
+  /**
+   * Check a source and record the result in its history
+   */
+  public async checkSource(source: ICalendarSource): Promise<ISourceHealth> {
+    let status: ISyncStatus;
+
+    switch (source.type) {
+      case CalendarSourceType.ICS:
+        // Imported calendars are stored in this browser, so there is nothing to reach
+        status = { calendarId: source.id, lastSync: new Date(), status: 'success', latencyMs: 0, canEdit: false };
+        break;
+      case CalendarSourceType.Exchange:
+        status = await this.probeGraphCalendar(source);
+        break;
+      default:
+        status = await this.probeSharePointList(source);
+        break;
+    }
+
+    const history = this.readHistory();
+    history[source.id] = [status, ...(history[source.id] || [])].slice(0, AppConstants.SOURCE_HEALTH.MAX_HISTORY);
+    this.writeHistory(history);
+
+    return this.summarize(source.id, history[source.id]);
+  }
+
+  /**
+   * Get the recorded health of a source without checking it again
+   */
+  public getSourceHealth(calendarId: string): ISourceHealth | undefined {
+    const history = this.readHistory()[calendarId];
+    return history && history.length > 0 ? this.summarize(calendarId, history) : undefined;
+  }
+
+  /**
+   * Forget the recorded health of a source
+   */
+  public clearSourceHealth(calendarId: string): void {
+    const history = this.readHistory();
+    if (history[calendarId]) {
+      delete history[calendarId];
+      this.writeHistory(history);
+    }
+  }
+
+  /**
+   * Request the list metadata, then check whether the user can edit items
+   */
+  private async probeSharePointList(source: ICalendarSource): Promise<ISyncStatus> {
+    const listUrl = `${source.siteUrl}/_api/web/lists(guid'${source.id}')`;
+
+    const metadata = await this.timed(() => this.context.spHttpClient.get(
+      `${listUrl}?$select=Id,Title,ItemCount,LastItemModifiedDate`,
+      SPHttpClient.configurations.v1
+    ));
+    if (!metadata.ok) {
+      return this.createFailedStatus(source.id, metadata);
+    }
+
+    let canEdit: boolean | undefined;
+    try {
+      const response: SPHttpClientResponse = await this.context.spHttpClient.get(
+        `${listUrl}/EffectiveBasePermissions`,
+        SPHttpClient.configurations.v1
+      );
+      if (response.ok) {
+        const data = await response.json();
+        const permissions = data.d?.EffectiveBasePermissions || data.EffectiveBasePermissions || data;
+        canEdit = (Number(permissions.Low) & SP_EDIT_LIST_ITEMS) === SP_EDIT_LIST_ITEMS;
+      }
+    } catch (error) {
+      console.warn(`Could not check permissions for ${source.title}:`, error);
+    }
+
+    return this.createSuccessStatus(source, metadata, canEdit);
+  }
+
+  /**
+   * Get the calendar from Graph; its canEdit flag is the permission check
+   */
+  private async probeGraphCalendar(source: ICalendarSource): Promise<ISyncStatus> {
+    if (!this.graphClient) {
+      try {
+        this.graphClient = await this.context.msGraphClientFactory.getClient('3');
+      } catch (error) {
+        return this.createFailedStatus(source.id, { ok: false, latencyMs: 0, error });
+      }
+    }
+
+    const graphClient = this.graphClient;
+    const path = source.groupId ? `/groups/${source.groupId}/calendar` : `/me/calendars/${source.id}`;
+    let calendar: { canEdit?: boolean } | undefined;
+
+    const result = await this.timed(async () => {
+      calendar = await graphClient.api(path).select(AppConstants.GRAPH_CALENDAR_FIELDS).get();
+      return { ok: true, status: 200 };
+    });
+
+    return result.ok
+      ? this.createSuccessStatus(source, result, calendar?.canEdit)
+      : this.createFailedStatus(source.id, result);
+  }
+
+  /**
+   * Run a request against the probe timeout and measure how long it took
+   */
+  private async timed(request: () => Promise<{ ok: boolean; status: number }>): Promise<IProbeResponse> {
+    const startTime = Date.now();
+    let timer: number | undefined;
+
+    const timeout = new Promise<never>((_resolve, reject) => {
+      timer = window.setTimeout(
+        () => reject(new Error(AppConstants.ERROR_MESSAGES.TIMEOUT_ERROR)),
+        AppConstants.SOURCE_HEALTH.PROBE_TIMEOUT_MS
+      );
+    });
+
+    try {
+      const response = await Promise.race([request(), timeout]);
+      return { ok: response.ok, status: response.status, latencyMs: Date.now() - startTime };
+    } catch (error) {
+      return { ok: false, status: this.getErrorStatus(error), latencyMs: Date.now() - startTime, error };
+    } finally {
+      window.clearTimeout(timer);
+    }
+  }
+
+  private createSuccessStatus(source: ICalendarSource, response: IProbeResponse, canEdit: boolean | undefined): ISyncStatus {
+    return {
+      calendarId: source.id,
+      lastSync: new Date(),
+      status: 'success',
+      latencyMs: response.latencyMs,
+      httpStatus: response.status,
+      canEdit
+    };
+  }
+
+  private createFailedStatus(calendarId: string, response: IProbeResponse): ISyncStatus {
+    const failureReason = this.classifyFailure(response);
+
+    return {
+      calendarId,
+      lastSync: new Date(),
+      status: 'error',
+      errorMessage: this.getFailureMessage(failureReason),
+      latencyMs: response.latencyMs,
+      httpStatus: response.status,
+      failureReason
+    };
+  }
+
+  /**
+   * Classify a failed request by its HTTP status, or by the error when there is none
+   */
+  private classifyFailure(response: IProbeResponse): SourceFailureReason {
+    const status = response.status;
+
+    if (status === 401 || status === 403) return 'auth';
+    if (status === 404 || status === 410) return 'notFound';
+    if (status === 429 || status === 503) return 'throttled';
+    if (status !== undefined && status >= 500) return 'server';
+
+    if (response.error instanceof Error && response.error.message === AppConstants.ERROR_MESSAGES.TIMEOUT_ERROR) {
+      return 'timeout';
+    }
+    // fetch rejects with a TypeError when the request never reached the server
+    if (response.error instanceof TypeError || status === -1) return 'network';
+
+    return 'unknown';
+  }
+
+  private getFailureMessage(reason: SourceFailureReason): string {
+    switch (reason) {
+      case 'auth':
+        return AppConstants.ERROR_MESSAGES.PERMISSION_DENIED;
+      case 'notFound':
+        return AppConstants.ERROR_MESSAGES.CALENDAR_NOT_FOUND;
+      case 'throttled':
+        return AppConstants.ERROR_MESSAGES.QUOTA_EXCEEDED;
+      case 'network':
+        return AppConstants.ERROR_MESSAGES.NETWORK_ERROR;
+      case 'timeout':
+        return AppConstants.ERROR_MESSAGES.TIMEOUT_ERROR;
+      case 'server':
+        return 'The calendar service returned an error. Please try again later.';
+      default:
+        return AppConstants.ERROR_MESSAGES.GENERAL_ERROR;
+    }
+  }
+
+  /**
+   * Graph client errors carry the HTTP status as statusCode
+   */
+  private getErrorStatus(error: unknown): number | undefined {
+    const statusCode = (error as { statusCode?: unknown } | undefined)?.statusCode;
+    return typeof statusCode === 'number' ? statusCode : undefined;
+  }
+
+  private summarize(calendarId: string, history: ISyncStatus[]): ISourceHealth {
+    const lastSuccessIndex = history.findIndex(status => status.status === 'success');
+
+    return {
+      calendarId,
+      latest: history[0],
+      lastSuccess: lastSuccessIndex === -1 ? undefined : history[lastSuccessIndex].lastSync,
+      errorStreak: lastSuccessIndex === -1 ? history.length : lastSuccessIndex,
+      history
+    };
+  }
+
+  private getStorageKey(): string {
+    return `${AppConstants.STORAGE_KEYS.SOURCE_HEALTH}-${this.context.pageContext.user.loginName.toLowerCase()}`;
+  }
+
+  private readHistory(): { [calendarId: string]: ISyncStatus[] } {
+    try {
+      const stored = localStorage.getItem(this.getStorageKey());
+      const history: { [calendarId: string]: ISyncStatus[] } = stored ? JSON.parse(stored) : {};
+
+      Object.keys(history).forEach(calendarId => {
+        history[calendarId] = history[calendarId].map(status => ({
+          ...status,
+          lastSync: new Date(status.lastSync),
+          nextSync: status.nextSync ? new Date(status.nextSync) : undefined
+        }));
+      });
+
+      return history;
+    } catch (error) {
+      console.warn('Could not read source health history:', error);
+      return {};
+    }
+  }
+
+  private writeHistory(history: { [calendarId: string]: ISyncStatus[] }): void {
+    try {
+      localStorage.setItem(this.getStorageKey(), JSON.stringify(history));
+    } catch (error) {
+      console.warn('Could not save source health history:', error);
+    }
+  }
+}
@@ -0,0 +1,50 @@
+import { WebPartContext } from '@microsoft/sp-webpart-base';
+import { SourceSelectionService } from './SourceSelectionService';
+
+const createContext = (instanceId: string, loginName: string): WebPartContext =>
+  ({ instanceId, pageContext: { user: { loginName } } } as unknown as WebPartContext);
+
+describe('SourceSelectionService', () => {
+  beforeEach(() => localStorage.clear());
+
+  it('follows the page until the user makes a selection of their own', () => {
+    const service = new SourceSelectionService(createContext('web-part', 'pat@contoso.com'));
+
+    expect(service.getUserSelection()).toBeUndefined();
+    service.setUserSelection(['team', 'finance']);
+    expect(service.getUserSelection()).toEqual(['team', 'finance']);
+    service.clearUserSelection();
+    expect(service.getUserSelection()).toBeUndefined();
+  });
+
+  it('keeps an empty selection, which means every calendar', () => {
+    const service = new SourceSelectionService(createContext('web-part', 'pat@contoso.com'));
+
+    service.setUserSelection([]);
+    expect(service.getUserSelection()).toEqual([]);
+  });
+
+  it('keeps the selection of each user on each web part apart', () => {
+    new SourceSelectionService(createContext('web-part', 'Pat@Contoso.com')).setUserSelection(['team']);
+
+    expect(new SourceSelectionService(createContext('web-part', 'pat@contoso.com')).getUserSelection()).toEqual(['team']);
+    expect(new SourceSelectionService(createContext('other-web-part', 'pat@contoso.com')).getUserSelection()).toBeUndefined();
+    expect(new SourceSelectionService(createContext('web-part', 'sam@contoso.com')).getUserSelection()).toBeUndefined();
+  });
+
+  it('ignores stored values that are not a list of calendar ids', () => {
+    const service = new SourceSelectionService(createContext('web-part', 'pat@contoso.com'));
+
+    service.setUserSelection(['team']);
+    const key = localStorage.key(0) as string;
+    localStorage.setItem(key, '{"team":true}');
+    expect(service.getUserSelection()).toBeUndefined();
+    localStorage.setItem(key, '["team",4]');
+    expect(service.getUserSelection()).toEqual(['team']);
+    localStorage.setItem(key, 'not json');
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    expect(service.getUserSelection()).toBeUndefined();
+    expect(warn).toHaveBeenCalled();
+    warn.mockRestore();
+  });
+});
@@ -0,0 +1,52 @@
+import { WebPartContext } from '@microsoft/sp-webpart-base';
+import { AppConstants } from '../constants/AppConstants';
+
+/**
+ * Calendar selection a user has made for themselves on one web part. It takes
+ * the place of the page's selection for that user only; an empty list means
+ * every calendar, as it does for the web part property.
+ */
+export class SourceSelectionService {
+  private context: WebPartContext;
+
+  constructor(context: WebPartContext) {
+    this.context = context;
+  }
+
+  /**
+   * Get the user's own selection, or undefined when they follow the page
+   */
+  public getUserSelection(): string[] | undefined {
+    try {
+      const stored = localStorage.getItem(this.getStorageKey());
+      const selection = stored ? JSON.parse(stored) : undefined;
+      return Array.isArray(selection) ? selection.filter((id): id is string => typeof id === 'string') : undefined;
+    } catch (error) {
+      console.warn('Could not read calendar selection:', error);
+      return undefined;
+    }
+  }
+
+  public setUserSelection(calendarIds: string[]): void {
+    try {
+      localStorage.setItem(this.getStorageKey(), JSON.stringify(calendarIds));
+    } catch (error) {
+      console.warn('Could not save calendar selection:', error);
+    }
+  }
+
+  /**
+   * Go back to the page's selection
+   */
+  public clearUserSelection(): void {
+    try {
+      localStorage.removeItem(this.getStorageKey());
+    } catch (error) {
+      console.warn('Could not clear calendar selection:', error);
+    }
+  }
+
+  private getStorageKey(): string {
+    return `${AppConstants.STORAGE_KEYS.SELECTED_CALENDARS}-${this.context.instanceId}-${this.context.pageContext.user.loginName.toLowerCase()}`;
+  }
+}
@@ -0,0 +1,106 @@
+import { WebPartContext } from '@microsoft/sp-webpart-base';
+import { UserPreferencesService } from './UserPreferencesService';
+import { CacheService } from './CacheService';
+import { AppConstants } from '../constants/AppConstants';
+
+const STORAGE_KEY = `${AppConstants.STORAGE_KEYS.USER_PREFERENCES}-pat@contoso.com`;
+const DRIVE_PATH = `/me/drive/special/approot:/${AppConstants.USER_PREFERENCES.ROAMING_FILE_NAME}`;
+
+interface IFakeDrive {
+  context: WebPartContext;
+  get: jest.Mock;
+  put: jest.Mock;
+}
+
+// A OneDrive app folder that holds the given file, or none
+const createDrive = (file?: Record<string, unknown>): IFakeDrive => {
+  const get = jest.fn(async () => {
+    if (!file) {
+      throw Object.assign(new Error('itemNotFound'), { statusCode: 404 });
+    }
+    return { '@microsoft.graph.downloadUrl': 'https://contoso-my.sharepoint.com/download' };
+  });
+  const put = jest.fn(async () => ({}));
+  const api = jest.fn((path: string) => path === DRIVE_PATH ? { get } : { header: () => ({ put }) });
+
+  Object.assign(window, { fetch: jest.fn(async () => ({ ok: true, status: 200, json: async () => file })) });
+
+  const context = {
+    msGraphClientFactory: { getClient: async () => ({ api }) },
+    pageContext: { user: { loginName: 'Pat@Contoso.com' } }
+  } as unknown as WebPartContext;
+  return { context, get, put };
+};
+
+describe('UserPreferencesService', () => {
+  beforeEach(() => {
+    localStorage.clear();
+    CacheService.getInstance().clear();
+  });
+
+  it('starts from the defaults and the view of the web part', async () => {
+    const { context } = createDrive();
+    const preferences = await new UserPreferencesService(context).loadPreferences(true, 'week');
+
+    expect(preferences).toMatchObject({
+      schemaVersion: AppConstants.USER_PREFERENCES.SCHEMA_VERSION,
+      userId: 'pat@contoso.com',
+      defaultView: 'week'
+    });
+    expect(preferences.workingHours.saturday.isWorkingDay).toBe(false);
+  });
+
+  it('takes the newer of the roaming and local copies and uploads local changes', async () => {
+    const { context, put } = createDrive({ lastModified: '2026-03-01T00:00:00Z', dateFormat: 'DD/MM/YYYY' });
+    localStorage.setItem(STORAGE_KEY, JSON.stringify({ lastModified: '2026-03-02T00:00:00Z', dateFormat: 'YYYY-MM-DD' }));
+
+    const preferences = await new UserPreferencesService(context).loadPreferences(true);
+
+    expect(preferences.dateFormat).toBe('YYYY-MM-DD');
+    expect(put).toHaveBeenCalledTimes(1);
+  });
+
+  it('prefers a newer roaming copy without uploading it again', async () => {
+    const { context, put } = createDrive({ lastModified: '2026-03-02T00:00:00Z', dateFormat: 'DD/MM/YYYY' });
+    localStorage.setItem(STORAGE_KEY, JSON.stringify({ lastModified: '2026-03-01T00:00:00Z', dateFormat: 'YYYY-MM-DD' }));
+
+    const preferences = await new UserPreferencesService(context).loadPreferences(true);
+
+    expect(preferences.dateFormat).toBe('DD/MM/YYYY');
+    expect(put).not.toHaveBeenCalled();
+    expect(JSON.parse(localStorage.getItem(STORAGE_KEY) as string).dateFormat).toBe('DD/MM/YYYY');
+  });
+
+  it('fills what unversioned preferences are missing from the defaults', async () => {
+    const { context } = createDrive();
+    localStorage.setItem(STORAGE_KEY, JSON.stringify({ showWeekNumbers: true, privacy: { hidePrivateEvents: true } }));
+
+    const preferences = await new UserPreferencesService(context).loadPreferences(false);
+
+    expect(preferences.schemaVersion).toBe(AppConstants.USER_PREFERENCES.SCHEMA_VERSION);
+    expect(preferences.showWeekNumbers).toBe(true);
+    expect(preferences.privacy).toMatchObject({ hidePrivateEvents: true, shareFreeBusy: true });
+  });
+
+  it('keeps preferences in this browser when they cannot be uploaded', async () => {
+    const { context, put } = createDrive();
+    put.mockRejectedValue(new Error('Service unavailable'));
+    const service = new UserPreferencesService(context);
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+    const location = await service.savePreferences({ ...service.getDefaultPreferences(), showWeekNumbers: true }, true);
+
+    expect(location).toBe('local');
+    expect(JSON.parse(localStorage.getItem(STORAGE_KEY) as string).showWeekNumbers).toBe(true);
+    expect(await service.savePreferences(service.getDefaultPreferences(), false)).toBe('local');
+    warn.mockRestore();
+  });
+
+  it('reports preferences saved to the app folder as roaming', async () => {
+    const { context, put } = createDrive();
+    const service = new UserPreferencesService(context);
+
+    expect(await service.savePreferences(service.getDefaultPreferences(), true)).toBe('roaming');
+    expect(JSON.parse(put.mock.calls[0][0]).userId).toBe('pat@contoso.com');
+  });
+});
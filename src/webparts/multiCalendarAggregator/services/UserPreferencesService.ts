@@ -0,0 +1,280 @@
+import { WebPartContext } from '@microsoft/sp-webpart-base';
+import { MSGraphClientV3 } from '@microsoft/sp-http-msgraph';
+import moment from 'moment';
+import { IUserPreferences, IWorkingDay } from '../models/IConfigurationModels';
+import { CalendarViewType } from '../models/ICalendarModels';
+import { CacheService } from './CacheService';
+import { AppConstants } from '../constants/AppConstants';
+
+/**
+ * Where preferences were saved: the user's OneDrive app folder, which follows
+ * them between devices, or only this browser
+ */
+export type PreferencesLocation = 'roaming' | 'local';
+
+type StoredPreferences = Partial<IUserPreferences> & { [key: string]: unknown };
+
+/**
+ * Steps that bring stored preferences up to the next schema version, keyed by
+ * the version they start from. Version 0 is preferences saved before they were
+ * versioned; they need no changes beyond the defaults filled in afterwards.
+ */
+const MIGRATIONS: { [fromVersion: number]: (preferences: StoredPreferences) => StoredPreferences } = {
+  0: preferences => preferences
+};
+
+/**
+ * Loads and saves the current user's preferences. They roam through the app
+ * folder of the user's OneDrive, with a copy in the browser that is used when
+ * Graph is unavailable and uploaded the next time it is.
+ */
+export class UserPreferencesService {
+  private context: WebPartContext;
+  private cacheService: CacheService;
+  private graphClient: MSGraphClientV3 | undefined;
+
+  constructor(context: WebPartContext) {
+    this.context = context;
+    this.cacheService = CacheService.getInstance();
+  }
+
+  /**
+   * Preferences for a user who has not saved any
+   */
+  public getDefaultPreferences(defaultView: CalendarViewType = AppConstants.DEFAULT_VIEW_TYPE): IUserPreferences {
+    const workingDay: IWorkingDay = { isWorkingDay: true, startTime: '09:00', endTime: '17:00', breaks: [] };
+    const weekendDay: IWorkingDay = { ...workingDay, isWorkingDay: false };
+
+    return {
+      schemaVersion: AppConstants.USER_PREFERENCES.SCHEMA_VERSION,
+      lastModified: new Date(0).toISOString(),
+      userId: this.getUserId(),
+      defaultView,
+      timeZone: '', // Follow the mailbox or site time zone
+      workingHours: {
+        timeZone: '',
+        monday: workingDay,
+        tuesday: workingDay,
+        wednesday: workingDay,
+        thursday: workingDay,
+        friday: workingDay,
+        saturday: weekendDay,
+        sunday: weekendDay
+      },
+      dateFormat: AppConstants.DEFAULT_DATE_FORMAT,
+      timeFormat: AppConstants.DEFAULT_TIME_FORMAT,
+      firstDayOfWeek: moment.localeData().firstDayOfWeek(),
+      showWeekNumbers: false,
+      selectedCalendars: [],
+      hiddenCalendars: [],
+      favoriteCalendars: [],
+      notifications: {
+        enabled: false,
+        emailNotifications: false,
+        browserNotifications: false,
+        mobileNotifications: false,
+        reminderTimes: [15],
+        digestFrequency: 'none',
+        quietHours: { enabled: false, startTime: '18:00', endTime: '08:00' },
+        types: {
+          eventCreated: true,
+          eventUpdated: true,
+          eventDeleted: true,
+          eventReminder: true,
+          meetingInvitation: true,
+          meetingResponse: true,
+          calendarShared: true
+        }
+      },
+      privacy: {
+        sharePresence: true,
+        shareFreeBusy: true,
+        shareCalendarDetails: false,
+        allowMeetingForwarding: true,
+        hidePrivateEvents: false,
+        anonymizeEventTitles: false,
+        dataRetentionDays: 90
+      },
+      accessibility: {
+        highContrast: false,
+        largeText: false,
+        reduceMotion: false,
+        screenReaderOptimized: false,
+        keyboardNavigation: true,
+        colorBlindFriendly: false,
+        focusIndicators: false
+      }
+    };
+  }
+
+  /**
+   * Load the user's preferences, taking the newer of the roaming and local copies
+   */
+  public async loadPreferences(useRoaming: boolean, defaultView?: CalendarViewType): Promise<IUserPreferences> {
+    const cached = this.cacheService.getCachedUserPreferences(this.getUserId());
+    if (cached) {
+      return this.migrate(cached as StoredPreferences, defaultView);
+    }
+
+    const local = this.readLocal();
+    let roaming: StoredPreferences | undefined;
+    if (useRoaming) {
+      try {
+        roaming = await this.readRoaming();
+      } catch (error) {
+        console.warn('Could not load roaming preferences, using the copy in this browser:', error);
+      }
+    }
+
+    // A copy without a modified time still beats no copy at all
+    const newest = roaming && (!local || this.getModifiedTime(roaming) >= this.getModifiedTime(local)) ? roaming : local;
+    const preferences = this.migrate(newest || {}, defaultView);
+
+    // Upload changes that were only saved locally while Graph was unavailable
+    if (useRoaming && local && newest === local) {
+      this.writeRoaming(preferences).catch(error => console.warn('Could not upload preferences:', error));
+    }
+
+    this.writeLocal(preferences);
+    this.cacheService.setCachedUserPreferences(this.getUserId(), { ...preferences }, AppConstants.USER_PREFERENCES.CACHE_MINUTES);
+    return preferences;
+  }
+
+  /**
+   * Save the user's preferences and report whether they will follow the user to other devices
+   */
+  public async savePreferences(preferences: IUserPreferences, useRoaming: boolean): Promise<PreferencesLocation> {
+    const saved: IUserPreferences = {
+      ...preferences,
+      schemaVersion: AppConstants.USER_PREFERENCES.SCHEMA_VERSION,
+      lastModified: new Date().toISOString(),
+      userId: this.getUserId()
+    };
+
+    this.writeLocal(saved);
+    this.cacheService.setCachedUserPreferences(this.getUserId(), { ...saved }, AppConstants.USER_PREFERENCES.CACHE_MINUTES);
+
+    if (!useRoaming) {
+      return 'local';
+    }
+
+    try {
+      await this.writeRoaming(saved);
+      return 'roaming';
+    } catch (error) {
+      console.warn('Could not save roaming preferences, kept in this browser only:', error);
+      return 'local';
+    }
+  }
+
+  /**
+   * Bring stored preferences to the current schema and fill anything missing from the defaults
+   */
+  private migrate(stored: StoredPreferences, defaultView?: CalendarViewType): IUserPreferences {
+    let preferences = stored;
+    let version = typeof stored.schemaVersion === 'number' ? stored.schemaVersion : 0;
+
+    while (version < AppConstants.USER_PREFERENCES.SCHEMA_VERSION) {
+      const migration = MIGRATIONS[version];
+      if (migration) {
+        preferences = migration(preferences);
+      }
+      version++;
+    }
+
+    const defaults = this.getDefaultPreferences(defaultView);
+    return {
+      ...defaults,
+      ...preferences,
+      schemaVersion: AppConstants.USER_PREFERENCES.SCHEMA_VERSION,
+      userId: defaults.userId,
+      workingHours: { ...defaults.workingHours, ...preferences.workingHours },
+      notifications: {
+        ...defaults.notifications,
+        ...preferences.notifications,
+        quietHours: { ...defaults.notifications.quietHours, ...preferences.notifications?.quietHours },
+        types: { ...defaults.notifications.types, ...preferences.notifications?.types }
+      },
+      privacy: { ...defaults.privacy, ...preferences.privacy },
+      accessibility: { ...defaults.accessibility, ...preferences.accessibility }
+    };
+  }
+
+  private getModifiedTime(preferences: StoredPreferences | undefined): number {
+    const time = preferences?.lastModified ? new Date(preferences.lastModified).getTime() : NaN;
+    return isNaN(time) ? 0 : time;
+  }
+
+  private async getGraphClient(): Promise<MSGraphClientV3> {
+    if (!this.graphClient) {
+      this.graphClient = await this.context.msGraphClientFactory.getClient('3');
+    }
+    return this.graphClient;
+  }
+
+  private getRoamingPath(): string {
+    return `/me/drive/special/approot:/${AppConstants.USER_PREFERENCES.ROAMING_FILE_NAME}`;
+  }
+
+  /**
+   * Read the roaming copy; undefined when the user has never saved one
+   */
+  private async readRoaming(): Promise<StoredPreferences | undefined> {
+    const graphClient = await this.getGraphClient();
+
+    let item: { '@microsoft.graph.downloadUrl'?: string };
+    try {
+      item = await graphClient.api(this.getRoamingPath()).get();
+    } catch (error) {
+      if ((error as { statusCode?: number }).statusCode === 404) {
+        return undefined;
+      }
+      throw error;
+    }
+
+    // The download URL is pre-authenticated, so it is fetched without the Graph token
+    const downloadUrl = item['@microsoft.graph.downloadUrl'];
+    if (!downloadUrl) {
+      return undefined;
+    }
+    const response = await fetch(downloadUrl);
+    if (!response.ok) {
+      throw new Error(`Preferences download failed with status ${response.status}`);
+    }
+    return await response.json() as StoredPreferences;
+  }
+
+  private async writeRoaming(preferences: IUserPreferences): Promise<void> {
+    const graphClient = await this.getGraphClient();
+    await graphClient
+      .api(`${this.getRoamingPath()}:/content`)
+      .header('Content-Type', 'application/json')
+      .put(JSON.stringify(preferences));
+  }
+
+  private getStorageKey(): string {
+    return `${AppConstants.STORAGE_KEYS.USER_PREFERENCES}-${this.getUserId()}`;
+  }
+
+  private readLocal(): StoredPreferences | undefined {
+    try {
+      const stored = localStorage.getItem(this.getStorageKey());
+      return stored ? JSON.parse(stored) as StoredPreferences : undefined;
+    } catch (error) {
+      console.warn('Could not read preferences:', error);
+      return undefined;
+    }
+  }
+
+  private writeLocal(preferences: IUserPreferences): void {
+    try {
+      localStorage.setItem(this.getStorageKey(), JSON.stringify(preferences));
+    } catch (error) {
+      console.warn('Could not save preferences:', error);
+    }
+  }
+
+  private getUserId(): string {
+    return this.context.pageContext.user.loginName.toLowerCase();
+  }
+}
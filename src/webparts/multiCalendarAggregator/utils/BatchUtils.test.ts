@@ -0,0 +1,76 @@
+// The SharePoint HTTP client only loads in the browser; parsing does not use it
+jest.mock('@microsoft/sp-http', () => ({}));
+
+import { BatchUtils } from './BatchUtils';
+
+const CRLF = '\r\n';
+
+const toBatchResponse = (boundary: string, parts: string[][]): string =>
+  [...parts.map(part => [`--${boundary}`, ...part].join(CRLF)), `--${boundary}--`, ''].join(CRLF);
+
+const httpPart = (statusLine: string, body: string): string[] => [
+  'Content-Type: application/http',
+  'Content-Transfer-Encoding: binary',
+  '',
+  `HTTP/1.1 ${statusLine}`,
+  'CONTENT-TYPE: application/json;odata=nometadata;charset=utf-8',
+  '',
+  body
+];
+
+describe('BatchUtils.parseSharePointBatch', () => {
+  it('reads the status and JSON body of each response in order', () => {
+    const text = toBatchResponse('batchresponse_1', [
+      httpPart('200 OK', '{"value":[{"Id":1}]}'),
+      httpPart('404 Not Found', '{"odata.error":{"code":"-2130575338"}}')
+    ]);
+
+    expect(BatchUtils.parseSharePointBatch(text)).toEqual([
+      { status: 200, body: { value: [{ Id: 1 }] } },
+      { status: 404, body: { 'odata.error': { code: '-2130575338' } } }
+    ]);
+  });
+
+  it('keeps bodies that are not JSON as text and leaves empty ones out', () => {
+    const text = toBatchResponse('batchresponse_2', [
+      httpPart('500 Internal Server Error', 'The change token is no longer valid.'),
+      httpPart('204 No Content', '')
+    ]);
+
+    expect(BatchUtils.parseSharePointBatch(text)).toEqual([
+      { status: 500, body: 'The change token is no longer valid.' },
+      { status: 204, body: undefined }
+    ]);
+  });
+
+  it('reads responses nested in a change set after the reads', () => {
+    const changeSet = toBatchResponse('changesetresponse_1', [
+      httpPart('201 Created', '{"Id":7}'),
+      httpPart('204 No Content', '')
+    ]);
+    const text = toBatchResponse('batchresponse_3', [
+      httpPart('200 OK', '{"Title":"Events"}'),
+      ['Content-Type: multipart/mixed; boundary=changesetresponse_1', '', changeSet]
+    ]);
+
+    expect(BatchUtils.parseSharePointBatch(text).map(response => response.status)).toEqual([200, 201, 204]);
+  });
+
+  it('reads responses with LF line endings', () => {
+    const text = toBatchResponse('batchresponse_4', [httpPart('200 OK', '{"Id":3}')]).replace(/\r\n/g, '\n');
+
+    expect(BatchUtils.parseSharePointBatch(text)).toEqual([{ status: 200, body: { Id: 3 } }]);
+  });
+});
+
+describe('BatchUtils.getRetryAfter', () => {
+  it('reads the wait in seconds from the Retry-After header in any case', () => {
+    expect(BatchUtils.getRetryAfter({ id: '1', status: 429, headers: { 'Retry-After': '5' }, body: undefined })).toBe(5000);
+    expect(BatchUtils.getRetryAfter({ id: '1', status: 429, headers: { 'retry-after': '2' }, body: undefined })).toBe(2000);
+  });
+
+  it('is undefined without a usable header', () => {
+    expect(BatchUtils.getRetryAfter({ id: '1', status: 429, body: undefined })).toBeUndefined();
+    expect(BatchUtils.getRetryAfter({ id: '1', status: 429, headers: { 'Retry-After': 'soon' }, body: undefined })).toBeUndefined();
+  });
+});
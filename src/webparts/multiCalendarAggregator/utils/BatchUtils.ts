@@ -0,0 +1,187 @@
+import { MSGraphClientV3 } from '@microsoft/sp-http-msgraph';
+import { SPHttpClient, SPHttpClientResponse } from '@microsoft/sp-http';
+import { AppConstants } from '../constants/AppConstants';
+import { PagingUtils } from './PagingUtils';
+
+/**
+ * One request sent as part of a batch
+ */
+export interface IBatchRequest {
+  id: string;
+  method: 'GET' | 'POST' | 'PATCH' | 'PUT' | 'DELETE';
+  url: string;
+  headers?: Record<string, string>;
+  body?: unknown;
+}
+
+/**
+ * The response to one request of a batch
+ */
+export interface IBatchResponse {
+  id: string;
+  status: number;
+  headers?: Record<string, string>;
+  body: unknown; // Parsed JSON where the response had any, otherwise its text
+}
+
+// Absolute Graph URLs, such as next links, are sent in a batch relative to the version root
+const GRAPH_ROOT_PATTERN = /^https:\/\/graph\.microsoft\.com\/(v1\.0|beta)/i;
+
+const CRLF = '\r\n';
+
+const parseBody = (text: string): unknown => {
+  const trimmed = text.trim();
+  if (!trimmed) return undefined;
+  try {
+    return JSON.parse(trimmed);
+  } catch {
+    return trimmed;
+  }
+};
+
+export class BatchUtils {
+  /**
+   * Whether a batched response succeeded
+   */
+  public static isSuccess(response: IBatchResponse | undefined): boolean {
+    return !!response && response.status >= 200 && response.status < 300;
+  }
+
+  /**
+   * Milliseconds a throttled response asks to wait before retrying, if it says
+   */
+  public static getRetryAfter(response: IBatchResponse): number | undefined {
+    const headers = response.headers || {};
+    const name = Object.keys(headers).find(header => header.toLowerCase() === 'retry-after');
+    const seconds = name ? parseInt(headers[name], 10) : NaN;
+    return isNaN(seconds) ? undefined : seconds * 1000;
+  }
+
+  /**
+   * Send up to MAX_GRAPH_BATCH_REQUESTS requests to Microsoft Graph as one
+   * $batch call. Responses are keyed by request id.
+   */
+  public static async sendGraphBatch(
+    graphClient: MSGraphClientV3,
+    requests: IBatchRequest[],
+    signal?: AbortSignal
+  ): Promise<Map<string, IBatchResponse>> {
+    if (requests.length > AppConstants.API_LIMITS.MAX_GRAPH_BATCH_REQUESTS) {
+      throw new Error(`A Graph batch can hold at most ${AppConstants.API_LIMITS.MAX_GRAPH_BATCH_REQUESTS} requests`);
+    }
+
+    const response = await PagingUtils.withTimeout(requestSignal => graphClient
+      .api(AppConstants.GRAPH_BATCH_ENDPOINT)
+      .option('signal', requestSignal)
+      .post({
+        requests: requests.map(item => ({
+          id: item.id,
+          method: item.method,
+          url: item.url.replace(GRAPH_ROOT_PATTERN, ''),
+          headers: item.body !== undefined ? { 'Content-Type': 'application/json', ...item.headers } : item.headers,
+          body: item.body
+        }))
+      }), signal);
+
+    const responses = new Map<string, IBatchResponse>();
+    ((response.responses || []) as IBatchResponse[]).forEach(item => {
+      responses.set(item.id, { id: item.id, status: item.status, headers: item.headers, body: item.body });
+    });
+    return responses;
+  }
+
+  /**
+   * Send requests to one SharePoint site as a single $batch call. Reads are
+   * sent as they are; writes and other POSTs go in one change set, which
+   * SharePoint requires for them. Responses are keyed by request id.
+   */
+  public static async sendSharePointBatch(
+    spHttpClient: SPHttpClient,
+    siteUrl: string,
+    requests: IBatchRequest[],
+    signal?: AbortSignal
+  ): Promise<Map<string, IBatchResponse>> {
+    const boundary = `batch_${BatchUtils.createBoundaryId()}`;
+    const response: SPHttpClientResponse = await PagingUtils.withTimeout(requestSignal => spHttpClient.post(
+      `${siteUrl}${AppConstants.SHAREPOINT_API.BATCH_ENDPOINT}`,
+      SPHttpClient.configurations.v1,
+      {
+        headers: { 'Content-Type': `multipart/mixed; boundary=${boundary}` },
+        body: BatchUtils.buildSharePointBatch(boundary, requests),
+        signal: requestSignal
+      }
+    ), signal);
+
+    if (!response.ok) {
+      throw new Error(`SharePoint batch request failed. Status: ${response.status}`);
+    }
+
+    // SharePoint answers in the order the requests were sent, change set members included
+    const reads = requests.filter(request => request.method === 'GET');
+    const writes = requests.filter(request => request.method !== 'GET');
+    const ordered = [...reads, ...writes];
+    const responses = new Map<string, IBatchResponse>();
+    BatchUtils.parseSharePointBatch(await response.text()).forEach((item, index) => {
+      if (index < ordered.length) {
+        responses.set(ordered[index].id, { ...item, id: ordered[index].id });
+      }
+    });
+    return responses;
+  }
+
+  /**
+   * The multipart body of a SharePoint $batch request: reads first, then one
+   * change set holding the rest
+   */
+  public static buildSharePointBatch(boundary: string, requests: IBatchRequest[]): string {
+    const toPart = (request: IBatchRequest): string[] => {
+      const headers: Record<string, string> = { Accept: 'application/json;odata=nometadata', ...request.headers };
+      if (request.body !== undefined && !headers['Content-Type']) {
+        headers['Content-Type'] = 'application/json;odata=nometadata';
+      }
+      return [
+        'Content-Type: application/http',
+        'Content-Transfer-Encoding: binary',
+        '',
+        `${request.method} ${request.url} HTTP/1.1`,
+        ...Object.keys(headers).map(name => `${name}: ${headers[name]}`),
+        '',
+        request.body === undefined ? '' : typeof request.body === 'string' ? request.body : JSON.stringify(request.body)
+      ];
+    };
+
+    const lines: string[] = [];
+    requests.filter(request => request.method === 'GET').forEach(request => {
+      lines.push(`--${boundary}`, ...toPart(request));
+    });
+
+    const writes = requests.filter(request => request.method !== 'GET');
+    if (writes.length > 0) {
+      const changeSet = `changeset_${BatchUtils.createBoundaryId()}`;
+      lines.push(`--${boundary}`, `Content-Type: multipart/mixed; boundary=${changeSet}`, '');
+      writes.forEach(request => {
+        lines.push(`--${changeSet}`, ...toPart(request));
+      });
+      lines.push(`--${changeSet}--`, '');
+    }
+
+    lines.push(`--${boundary}--`, '');
+    return lines.join(CRLF);
+  }
+
+  /**
+   * The responses in a SharePoint $batch response, in order. Parts nested in
+   * change set responses are read like any other.
+   */
+  public static parseSharePointBatch(text: string): { status: number; body: unknown }[] {
+    return text
+      .split(/^--.*$/m)
+      .map(part => /HTTP\/1\.1 (\d{3})[^\n]*\n([\s\S]*?)\r?\n\r?\n([\s\S]*)$/.exec(part))
+      .filter((match): match is RegExpExecArray => !!match)
+      .map(match => ({ status: parseInt(match[1], 10), body: parseBody(match[3]) }));
+  }
+
+  private static createBoundaryId(): string {
+    return `${Date.now().toString(36)}${Math.random().toString(36).substring(2, 10)}`;
+  }
+}
@@ -0,0 +1,78 @@
+import { ConflictUtils } from './ConflictUtils';
+import { ICalendarEvent, CalendarSourceType } from '../models/ICalendarModels';
+
+const at = (hours: number, minutes: number = 0): Date => new Date(2026, 2, 4, hours, minutes);
+
+const createEvent = (id: string, start: Date, end: Date, changes: Partial<ICalendarEvent> = {}): ICalendarEvent => ({
+  id,
+  title: id,
+  start,
+  end,
+  isAllDay: false,
+  calendarId: 'team',
+  calendarTitle: 'Team',
+  calendarType: CalendarSourceType.Exchange,
+  color: '#0078d4',
+  created: new Date(2026, 0, 1),
+  modified: new Date(2026, 0, 1),
+  ...changes
+} as ICalendarEvent);
+
+const describeConflicts = (events: ICalendarEvent[]): string[] =>
+  ConflictUtils.findConflicts(events).map(conflict => `${conflict.event1.id}/${conflict.event2.id} ${conflict.conflictType} ${conflict.overlapDuration}`);
+
+describe('ConflictUtils.findConflicts', () => {
+  it('finds overlapping events of one calendar, and not events that only touch', () => {
+    expect(describeConflicts([
+      createEvent('c', at(10, 30), at(11, 30)),
+      createEvent('a', at(9), at(10)),
+      createEvent('b', at(9, 45), at(10, 45))
+    ])).toEqual(['a/b overlap 15', 'b/c overlap 15']);
+  });
+
+  it('only compares events of different calendars that share a person or a room', () => {
+    const pat = { name: 'Pat', email: 'Pat@contoso.com', type: 'required' as const, response: 'accepted' as const };
+    const room = { name: 'Room 4', email: 'room4@contoso.com', type: 'resource' as const, response: 'accepted' as const };
+
+    expect(describeConflicts([
+      createEvent('a', at(9), at(10), { calendarId: 'team', attendees: [pat] }),
+      createEvent('b', at(9, 30), at(10, 30), { calendarId: 'finance', organizerEmail: 'pat@contoso.com' }),
+      createEvent('c', at(9, 30), at(10), { calendarId: 'sales', attendees: [room] }),
+      createEvent('d', at(9, 45), at(10), { calendarId: 'hr', attendees: [{ ...room, email: 'ROOM4@contoso.com' }] })
+    ])).toEqual(['a/b doubleBooked 30', 'c/d doubleBooked 15']);
+  });
+
+  it('recognises the same meeting seen twice', () => {
+    expect(describeConflicts([
+      createEvent('a', at(9), at(10), { title: 'Budget review' }),
+      createEvent('b', at(9), at(10), { title: ' budget Review' })
+    ])).toEqual(['a/b duplicate 60']);
+  });
+
+  it('ignores all-day events, free time and declined invitations', () => {
+    const declined = { name: 'Pat', email: 'pat@contoso.com', type: 'required' as const, response: 'declined' as const };
+
+    expect(describeConflicts([
+      createEvent('all-day', new Date(2026, 2, 4), new Date(2026, 2, 5), { isAllDay: true }),
+      createEvent('free', at(9), at(10), { showAs: 'Free' }),
+      createEvent('a', at(9), at(10)),
+      createEvent('declined', at(9), at(10), { calendarId: 'finance', attendees: [declined] }),
+      createEvent('organizer', at(9), at(10), { calendarId: 'hr', organizerEmail: 'sam@contoso.com' })
+    ])).toEqual([]);
+  });
+});
+
+describe('ConflictUtils.groupByEvent', () => {
+  it('lists each conflict under both of its events', () => {
+    const conflicts = ConflictUtils.findConflicts([
+      createEvent('a', at(9), at(11)),
+      createEvent('b', at(9, 30), at(10)),
+      createEvent('c', at(10, 30), at(12))
+    ]);
+    const byEvent = ConflictUtils.groupByEvent(conflicts);
+
+    expect(byEvent.get('a')).toHaveLength(2);
+    expect(byEvent.get('b')).toHaveLength(1);
+    expect(byEvent.get('c')).toHaveLength(1);
+  });
+});
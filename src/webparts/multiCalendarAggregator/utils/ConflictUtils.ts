@@ -0,0 +1,103 @@
+import { ICalendarEvent } from '../models/ICalendarModels';
+import { IEventConflict } from '../models/IEventModels';
+
+export class ConflictUtils {
+  /**
+   * Find events that clash with each other. Two events only clash when they
+   * overlap in time and share a calendar, a person or a room; all-day events,
+   * free time and declined invitations never do.
+   *
+   * Events are swept in start order. Each calendar, person and room keeps the
+   * events still running at the current start, so an event is only compared
+   * with the running events it shares something with.
+   */
+  public static findConflicts(events: ICalendarEvent[]): IEventConflict[] {
+    const candidates = events
+      .filter(event => !event.isAllDay && (event.showAs || '').toLowerCase() !== 'free' && event.end > event.start)
+      .sort((a, b) => a.start.getTime() - b.start.getTime());
+
+    const running = new Map<string, ICalendarEvent[]>();
+    const conflicts: IEventConflict[] = [];
+    const pairs = new Set<string>();
+
+    for (const event of candidates) {
+      const start = event.start.getTime();
+
+      for (const key of this.getResourceKeys(event)) {
+        const active = (running.get(key) || []).filter(other => other.end.getTime() > start);
+
+        for (const other of active) {
+          const pairKey = `${other.id}|${event.id}`;
+          if (other.id === event.id || pairs.has(pairKey)) continue;
+          pairs.add(pairKey);
+          conflicts.push(this.classifyConflict(other, event));
+        }
+
+        active.push(event);
+        running.set(key, active);
+      }
+    }
+
+    return conflicts;
+  }
+
+  /**
+   * Conflicts grouped by the events they involve
+   */
+  public static groupByEvent(conflicts: IEventConflict[]): Map<string, IEventConflict[]> {
+    const byEvent = new Map<string, IEventConflict[]>();
+    conflicts.forEach(conflict => {
+      [conflict.event1.id, conflict.event2.id].forEach(eventId => {
+        byEvent.set(eventId, [...(byEvent.get(eventId) || []), conflict]);
+      });
+    });
+    return byEvent;
+  }
+
+  /**
+   * Overlap of two events in minutes
+   */
+  public static getOverlapMinutes(event1: ICalendarEvent, event2: ICalendarEvent): number {
+    const overlapMs = Math.min(event1.end.getTime(), event2.end.getTime()) - Math.max(event1.start.getTime(), event2.start.getTime());
+    return Math.max(0, Math.floor(overlapMs / (1000 * 60)));
+  }
+
+  /**
+   * The same meeting seen twice is a duplicate; a person or room needed in two
+   * places is double-booked; anything else is two events overlapping in one calendar
+   */
+  private static classifyConflict(event1: ICalendarEvent, event2: ICalendarEvent): IEventConflict {
+    const isDuplicate = event1.start.getTime() === event2.start.getTime() &&
+      event1.end.getTime() === event2.end.getTime() &&
+      event1.title.trim().toLowerCase() === event2.title.trim().toLowerCase();
+
+    const participants1 = new Set(this.getResourceKeys(event1).filter(key => key.indexOf('calendar:') !== 0));
+    const isDoubleBooked = this.getResourceKeys(event2).some(key => participants1.has(key));
+
+    return {
+      event1,
+      event2,
+      conflictType: isDuplicate ? 'duplicate' : isDoubleBooked ? 'doubleBooked' : 'overlap',
+      overlapDuration: this.getOverlapMinutes(event1, event2)
+    };
+  }
+
+  /**
+   * What an event takes up: its calendar, the people going and the rooms booked
+   */
+  private static getResourceKeys(event: ICalendarEvent): string[] {
+    const keys = new Set<string>([`calendar:${event.calendarId}`]);
+
+    if (event.organizerEmail) {
+      keys.add(`person:${event.organizerEmail.toLowerCase()}`);
+    }
+    (event.attendees || [])
+      .filter(attendee => attendee.response !== 'declined' && !!(attendee.email || attendee.name))
+      .forEach(attendee => {
+        const id = (attendee.email || attendee.name).toLowerCase();
+        keys.add(attendee.type === 'resource' ? `room:${id}` : `person:${id}`);
+      });
+
+    return Array.from(keys);
+  }
+}
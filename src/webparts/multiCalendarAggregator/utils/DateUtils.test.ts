@@ -0,0 +1,62 @@
+import moment from 'moment';
+import 'moment-timezone';
+import { DateUtils } from './DateUtils';
+
+const NEW_YORK = 'America/New_York';
+
+const toLocalString = (date: Date): string => moment(date).format('YYYY-MM-DD HH:mm');
+
+describe('DateUtils.resolveTimeZone', () => {
+  it('keeps IANA zones and maps Windows zone names', () => {
+    expect(DateUtils.resolveTimeZone(NEW_YORK)).toBe(NEW_YORK);
+    expect(DateUtils.resolveTimeZone('Eastern Standard Time')).toBe(NEW_YORK);
+  });
+
+  it('is undefined for missing and unknown zones', () => {
+    expect(DateUtils.resolveTimeZone(undefined)).toBeUndefined();
+    expect(DateUtils.resolveTimeZone('Mars Standard Time')).toBeUndefined();
+  });
+});
+
+describe('DateUtils.parseInTimeZone', () => {
+  it('reads times without an offset as wall-clock time in the zone', () => {
+    expect(DateUtils.parseInTimeZone('2026-07-01T09:00:00', NEW_YORK).toISOString()).toBe('2026-07-01T13:00:00.000Z');
+    expect(DateUtils.parseInTimeZone('2026-01-05T09:00:00', 'Eastern Standard Time').toISOString()).toBe('2026-01-05T14:00:00.000Z');
+  });
+
+  it('keeps an offset carried by the value and reads unknown zones as UTC', () => {
+    expect(DateUtils.parseInTimeZone('2026-07-01T09:00:00Z', NEW_YORK).toISOString()).toBe('2026-07-01T09:00:00.000Z');
+    expect(DateUtils.parseInTimeZone('2026-07-01T09:00:00+02:00', NEW_YORK).toISOString()).toBe('2026-07-01T07:00:00.000Z');
+    expect(DateUtils.parseInTimeZone('2026-07-01T09:00:00').toISOString()).toBe('2026-07-01T09:00:00.000Z');
+  });
+});
+
+describe('DateUtils.parseFloatingDate', () => {
+  it('keeps the calendar day whatever offset the value has', () => {
+    expect(toLocalString(DateUtils.parseFloatingDate('2026-03-09T00:00:00Z'))).toBe('2026-03-09 00:00');
+    expect(toLocalString(DateUtils.parseFloatingDate('2026-03-09T00:00:00-08:00'))).toBe('2026-03-09 00:00');
+  });
+});
+
+describe('DateUtils.convertToUserTimezone', () => {
+  it('shows the wall-clock time of the zone in local fields', () => {
+    const instant = new Date('2026-03-09T02:30:00Z');
+
+    expect(toLocalString(DateUtils.convertToUserTimezone(instant, NEW_YORK))).toBe('2026-03-08 22:30');
+    expect(toLocalString(DateUtils.convertToUserTimezone(instant, 'Tokyo Standard Time'))).toBe('2026-03-09 11:30');
+  });
+
+  it('round-trips through convertFromUserTimezone on both sides of a DST change', () => {
+    ['2026-03-07T15:00:00Z', '2026-03-09T15:00:00Z', '2026-11-02T15:00:00Z'].forEach(value => {
+      const instant = new Date(value);
+      expect(DateUtils.convertFromUserTimezone(DateUtils.convertToUserTimezone(instant, NEW_YORK), NEW_YORK)).toEqual(instant);
+    });
+  });
+
+  it('leaves the date unchanged without a known zone', () => {
+    const instant = new Date('2026-03-09T02:30:00Z');
+
+    expect(DateUtils.convertToUserTimezone(instant)).toEqual(instant);
+    expect(DateUtils.convertFromUserTimezone(instant, 'Unknown')).toEqual(instant);
+  });
+});
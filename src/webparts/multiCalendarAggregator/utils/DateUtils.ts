@@ -1,5 +1,6 @@
 import moment from 'moment';
 import 'moment-timezone';
+import { AppConstants } from '../constants/AppConstants';
 
 export class DateUtils {
   /**
@@ -140,6 +141,39 @@ export class DateUtils {
     return moment(date).subtract(amount, unit).toDate();
   }
 
+  /**
+   * Get a moment locale like the current one whose weeks start on the given day (0 = Sunday).
+   * Week numbering keeps the locale's rule for which January day falls in week 1.
+   */
+  public static getWeekStartLocale(firstDayOfWeek: number): string {
+    const baseLocale = moment.locale();
+    const baseData = moment.localeData(baseLocale);
+    if (baseData.firstDayOfWeek() === firstDayOfWeek) {
+      return baseLocale;
+    }
+
+    const localeName = `${baseLocale}-week${firstDayOfWeek}`;
+    if (moment.locales().indexOf(localeName) === -1) {
+      moment.defineLocale(localeName, {
+        parentLocale: baseLocale,
+        week: {
+          dow: firstDayOfWeek,
+          doy: baseData.firstDayOfYear() + firstDayOfWeek - baseData.firstDayOfWeek()
+        }
+      });
+      // Defining a locale also makes it the global one
+      moment.locale(baseLocale);
+    }
+    return localeName;
+  }
+
+  /**
+   * Get the week number of a date for a locale
+   */
+  public static getWeekNumber(date: Date, locale?: string): number {
+    return moment(date).locale(locale || moment.locale()).week();
+  }
+
   /**
    * Get date range for calendar view
    */
@@ -212,9 +246,9 @@ export class DateUtils {
   }
 
   /**
-   * Get friendly date description
+   * Get friendly date description; dates beyond next week use the given format when there is one
    */
-  public static getFriendlyDate(date: Date): string {
+  public static getFriendlyDate(date: Date, dateFormat?: string): string {
     const momentDate = moment(date);
     const now = moment();
     
@@ -228,6 +262,8 @@ export class DateUtils {
       return momentDate.format('dddd');
     } else if (momentDate.isSame(now.clone().add(1, 'week'), 'week')) {
       return `Next ${momentDate.format('dddd')}`;
+    } else if (dateFormat) {
+      return momentDate.format(dateFormat);
     } else if (momentDate.isSame(now, 'year')) {
       return momentDate.format('MMM D');
     } else {
@@ -236,10 +272,30 @@ export class DateUtils {
   }
 
   /**
-   * Parse SharePoint date string
+   * Parse SharePoint date string. Values without an offset are read in the
+   * site's regional time zone.
    */
-  public static parseSharePointDate(dateString: string): Date {
-    return new Date(dateString);
+  public static parseSharePointDate(dateString: string, siteTimeZone?: string): Date {
+    return this.parseInTimeZone(dateString, siteTimeZone);
+  }
+
+  /**
+   * Parse a date-time string as wall-clock time in a time zone. Strings that
+   * carry their own offset keep it; unknown zones are read as UTC.
+   */
+  public static parseInTimeZone(dateTime: string, timeZone?: string): Date {
+    if (!dateTime || /(Z|[+-]\d{2}:?\d{2})$/i.test(dateTime)) {
+      return new Date(dateTime);
+    }
+    return moment.tz(dateTime, this.resolveTimeZone(timeZone) || 'UTC').toDate();
+  }
+
+  /**
+   * Parse an all-day value as local wall-clock time, ignoring any offset.
+   * All-day events are floating dates and must stay on the same day in every zone.
+   */
+  public static parseFloatingDate(dateTime: string): Date {
+    return moment(moment.parseZone(dateTime).format('YYYY-MM-DDTHH:mm:ss.SSS')).toDate();
   }
 
   /**
@@ -249,6 +305,19 @@ export class DateUtils {
     return date.toISOString();
   }
 
+  /**
+   * Format a date as a Graph dateTime, in UTC or as the wall-clock time of a
+   * zone. All-day events are sent as midnight of their calendar day, which
+   * Graph requires.
+   */
+  public static toGraphDateTime(date: Date, isAllDay?: boolean, timeZone?: string): string {
+    if (isAllDay) {
+      return moment(date).format('YYYY-MM-DD[T00:00:00]');
+    }
+    const zone = this.resolveTimeZone(timeZone);
+    return zone ? moment.tz(date, zone).format('YYYY-MM-DD[T]HH:mm:ss') : date.toISOString();
+  }
+
   /**
    * Get business days between two dates
    */
@@ -276,12 +345,53 @@ export class DateUtils {
   }
 
   /**
-   * Convert to user's timezone
+   * Resolve an IANA or Windows time zone name to a zone known to moment-timezone
+   */
+  public static resolveTimeZone(timeZone?: string): string | undefined {
+    if (!timeZone) return undefined;
+    if (moment.tz.zone(timeZone)) return timeZone;
+
+    const ianaZone = AppConstants.WINDOWS_TIMEZONES[timeZone];
+    return ianaZone && moment.tz.zone(ianaZone) ? ianaZone : undefined;
+  }
+
+  /**
+   * Get the browser's time zone
+   */
+  public static getBrowserTimeZone(): string {
+    return moment.tz.guess();
+  }
+
+  /**
+   * Convert an instant to a Date whose local fields show the wall-clock time in
+   * the given zone, for components that only render local time
    */
   public static convertToUserTimezone(date: Date, timezone?: string): Date {
-    if (timezone && moment.tz) {
-      return moment.tz(date, timezone).toDate();
+    const zone = this.resolveTimeZone(timezone);
+    if (!zone) {
+      return new Date(date.getTime());
+    }
+
+    const zoned = moment.tz(date, zone);
+    return new Date(
+      zoned.year(), zoned.month(), zoned.date(),
+      zoned.hours(), zoned.minutes(), zoned.seconds(), zoned.milliseconds()
+    );
+  }
+
+  /**
+   * Inverse of convertToUserTimezone: read the local fields of a date as
+   * wall-clock time in the given zone
+   */
+  public static convertFromUserTimezone(date: Date, timezone?: string): Date {
+    const zone = this.resolveTimeZone(timezone);
+    if (!zone) {
+      return new Date(date.getTime());
     }
-    return date;
+
+    return moment.tz([
+      date.getFullYear(), date.getMonth(), date.getDate(),
+      date.getHours(), date.getMinutes(), date.getSeconds(), date.getMilliseconds()
+    ], zone).toDate();
   }
 }
\ No newline at end of file
@@ -0,0 +1,75 @@
+import { DuplicateUtils } from './DuplicateUtils';
+import { ICalendarEvent, CalendarSourceType } from '../models/ICalendarModels';
+
+const at = (hours: number, minutes: number = 0): Date => new Date(2026, 2, 4, hours, minutes);
+
+const createEvent = (id: string, calendarId: string, changes: Partial<ICalendarEvent> = {}): ICalendarEvent => ({
+  id,
+  title: 'Quarterly budget review',
+  start: at(9),
+  end: at(10),
+  isAllDay: false,
+  calendarId,
+  calendarTitle: calendarId,
+  calendarType: CalendarSourceType.SharePoint,
+  color: '#0078d4',
+  created: new Date(2026, 0, 1),
+  modified: new Date(2026, 0, 1),
+  ...changes
+} as ICalendarEvent);
+
+const describeMerged = (events: ICalendarEvent[]): string[][] =>
+  DuplicateUtils.mergeDuplicates(events).map(event => DuplicateUtils.getCopies(event).map(copy => copy.id));
+
+describe('DuplicateUtils.mergeDuplicates', () => {
+  it('merges copies from different calendars into the first one', () => {
+    expect(describeMerged([
+      createEvent('a', 'team'),
+      createEvent('b', 'finance', { title: 'Quarterly Budget Review!' }),
+      createEvent('c', 'sales', { start: at(9, 5), end: at(10, 5) }),
+      createEvent('lunch', 'sales', { title: 'Lunch', start: at(12), end: at(13) })
+    ])).toEqual([['a', 'b', 'c'], ['lunch']]);
+  });
+
+  it('never merges events of one calendar, even through a copy in another', () => {
+    expect(describeMerged([
+      createEvent('a', 'team'),
+      createEvent('b', 'team'),
+      createEvent('c', 'finance')
+    ])).toEqual([['a', 'c'], ['b']]);
+  });
+
+  it('matches events by identity before similarity', () => {
+    expect(describeMerged([
+      createEvent('a', 'team', { iCalUId: 'UID-1', title: 'Budget' }),
+      createEvent('b', 'finance', { iCalUId: 'uid-1', title: 'Finance sync' })
+    ])).toEqual([['a', 'b']]);
+
+    // Exchange gives every copy of a meeting the same identity
+    expect(describeMerged([
+      createEvent('a', 'team', { iCalUId: 'uid-1', calendarType: CalendarSourceType.Exchange }),
+      createEvent('b', 'finance', { iCalUId: 'uid-2', calendarType: CalendarSourceType.Exchange })
+    ])).toEqual([['a'], ['b']]);
+  });
+
+  it('leaves events apart below the threshold', () => {
+    const events = [createEvent('a', 'team'), createEvent('b', 'finance', { title: 'Quarterly budget planning' })];
+
+    expect(DuplicateUtils.mergeDuplicates(events, 100)).toHaveLength(2);
+    expect(DuplicateUtils.mergeDuplicates(events, 50)).toHaveLength(1);
+  });
+
+  it('keeps the copies of events merged before', () => {
+    const merged = DuplicateUtils.mergeDuplicates([createEvent('a', 'team'), createEvent('b', 'finance')]);
+
+    expect(describeMerged([...merged, createEvent('c', 'finance'), createEvent('d', 'sales')])).toEqual([['a', 'b', 'd'], ['c']]);
+  });
+});
+
+describe('DuplicateUtils.getSimilarity', () => {
+  it('weighs titles and times', () => {
+    expect(DuplicateUtils.getSimilarity(createEvent('a', 'team'), createEvent('b', 'finance'))).toBe(1);
+    expect(DuplicateUtils.getSimilarity(createEvent('a', 'team'), createEvent('b', 'finance', { start: at(9, 15), end: at(10, 15) }))).toBeCloseTo(0.6);
+    expect(DuplicateUtils.getSimilarity(createEvent('a', 'team'), createEvent('b', 'finance', { title: 'Lunch' }))).toBeCloseTo(0.4);
+  });
+});
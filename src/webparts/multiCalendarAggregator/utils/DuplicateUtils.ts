@@ -0,0 +1,168 @@
+import { ICalendarEvent, CalendarSourceType } from '../models/ICalendarModels';
+import { AppConstants } from '../constants/AppConstants';
+
+// Copies further apart than this are never the same meeting
+const MAX_TIME_DIFFERENCE_MINUTES = 15;
+const TITLE_WEIGHT = 0.6;
+const TIME_WEIGHT = 0.4;
+
+export class DuplicateUtils {
+  /**
+   * Merge copies of the same meeting found in different calendars into one
+   * event. The first copy is kept and the others are listed in its duplicates.
+   *
+   * Copies match when they share an iCalendar identity and start, or when their
+   * titles and times are at least `thresholdPercent` similar. Events of one
+   * calendar are never merged with each other. Events merged before keep
+   * their copies, which count towards the calendars they are in.
+   */
+  public static mergeDuplicates(
+    events: ICalendarEvent[],
+    thresholdPercent: number = AppConstants.DEFAULT_DUPLICATE_MATCH_THRESHOLD
+  ): ICalendarEvent[] {
+    const threshold = thresholdPercent / 100;
+    const windowMs = MAX_TIME_DIFFERENCE_MINUTES * AppConstants.MILLISECONDS_IN_MINUTE;
+    const order = events.map((_, index) => index).sort((a, b) => events[a].start.getTime() - events[b].start.getTime());
+
+    // Union-find over event indexes; each group remembers its calendars and
+    // Exchange identities so that merging through a third copy stays consistent
+    const parent = events.map((_, index) => index);
+    const calendars = events.map(event => new Set(this.getCopies(event).map(copy => copy.calendarId)));
+    const exchangeIds = events.map(event => new Set(([] as string[]).concat(...this.getCopies(event).map(copy => this.getExchangeId(copy)))));
+    const find = (index: number): number => {
+      while (parent[index] !== index) {
+        parent[index] = parent[parent[index]];
+        index = parent[index];
+      }
+      return index;
+    };
+
+    order.forEach((i, position) => {
+      for (let next = position + 1; next < order.length; next++) {
+        const j = order[next];
+        if (events[j].start.getTime() - events[i].start.getTime() > windowMs) break;
+
+        const rootI = find(i);
+        const rootJ = find(j);
+        if (rootI === rootJ || !this.isSameMeeting(events[i], events[j], threshold)) continue;
+        if (Array.from(calendars[rootJ]).some(calendarId => calendars[rootI].has(calendarId))) continue;
+        if (exchangeIds[rootI].size > 0 && exchangeIds[rootJ].size > 0 &&
+          !Array.from(exchangeIds[rootJ]).some(id => exchangeIds[rootI].has(id))) continue;
+
+        const [root, child] = rootI < rootJ ? [rootI, rootJ] : [rootJ, rootI];
+        parent[child] = root;
+        calendars[child].forEach(calendarId => calendars[root].add(calendarId));
+        exchangeIds[child].forEach(id => exchangeIds[root].add(id));
+      }
+    });
+
+    const copiesByRoot = new Map<number, ICalendarEvent[]>();
+    events.forEach((event, index) => {
+      const root = find(index);
+      if (root !== index) {
+        const copies = this.getCopies(event).map(copy => ({ ...copy, duplicates: undefined }));
+        copiesByRoot.set(root, [...(copiesByRoot.get(root) || []), ...copies]);
+      }
+    });
+
+    const merged: ICalendarEvent[] = [];
+    events.forEach((event, index) => {
+      if (find(index) !== index) return;
+      const copies = copiesByRoot.get(index);
+      merged.push(copies ? { ...event, duplicates: [...(event.duplicates || []), ...copies] } : event);
+    });
+    return merged;
+  }
+
+  /**
+   * Similarity of two events from 0 to 1, weighing title and time
+   */
+  public static getSimilarity(event1: ICalendarEvent, event2: ICalendarEvent): number {
+    const windowMs = MAX_TIME_DIFFERENCE_MINUTES * AppConstants.MILLISECONDS_IN_MINUTE;
+    const timeDifference = Math.abs(event1.start.getTime() - event2.start.getTime()) +
+      Math.abs(event1.end.getTime() - event2.end.getTime());
+    const timeSimilarity = Math.max(0, 1 - timeDifference / (2 * windowMs));
+
+    return TITLE_WEIGHT * this.getTitleSimilarity(event1.title, event2.title) + TIME_WEIGHT * timeSimilarity;
+  }
+
+  /**
+   * The event followed by the copies merged into it
+   */
+  public static getCopies(event: ICalendarEvent): ICalendarEvent[] {
+    return [event, ...(event.duplicates || [])];
+  }
+
+  /**
+   * Background that paints one band per colour down the left edge of an element
+   */
+  public static getColorStripeStyle(colors: string[], width: number = 4): { [property: string]: string } {
+    const stops = colors.map((color, index) =>
+      `${color} ${(index * 100) / colors.length}%, ${color} ${((index + 1) * 100) / colors.length}%`);
+
+    return {
+      backgroundImage: `linear-gradient(to bottom, ${stops.join(', ')})`,
+      backgroundSize: `${width}px 100%`,
+      backgroundRepeat: 'no-repeat',
+      backgroundOrigin: 'border-box'
+    };
+  }
+
+  /**
+   * Whether two events from different calendars are copies of one meeting.
+   * Exchange copies of one meeting always share their iCalUId, so two
+   * Exchange events with different ones are different meetings.
+   */
+  private static isSameMeeting(event1: ICalendarEvent, event2: ICalendarEvent, threshold: number): boolean {
+    if (event1.calendarId === event2.calendarId || event1.isAllDay !== event2.isAllDay) {
+      return false;
+    }
+
+    if (event1.iCalUId && event2.iCalUId) {
+      if (event1.iCalUId.toLowerCase() === event2.iCalUId.toLowerCase()) {
+        return event1.start.getTime() === event2.start.getTime();
+      }
+      if (event1.calendarType === CalendarSourceType.Exchange && event2.calendarType === CalendarSourceType.Exchange) {
+        return false;
+      }
+    }
+
+    return this.getSimilarity(event1, event2) >= threshold;
+  }
+
+  /**
+   * The iCalUId of an Exchange event; other sources use identities of their own
+   */
+  private static getExchangeId(event: ICalendarEvent): string[] {
+    return event.calendarType === CalendarSourceType.Exchange && event.iCalUId ? [event.iCalUId.toLowerCase()] : [];
+  }
+
+  /**
+   * Dice coefficient of the character pairs of two normalised titles
+   */
+  private static getTitleSimilarity(title1: string, title2: string): number {
+    const normalize = (title: string): string => title.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, ' ').trim();
+    const a = normalize(title1);
+    const b = normalize(title2);
+    if (a === b) return 1;
+    if (a.length < 2 || b.length < 2) return 0;
+
+    const pairs = new Map<string, number>();
+    for (let i = 0; i < a.length - 1; i++) {
+      const pair = a.substring(i, i + 2);
+      pairs.set(pair, (pairs.get(pair) || 0) + 1);
+    }
+
+    let shared = 0;
+    for (let i = 0; i < b.length - 1; i++) {
+      const pair = b.substring(i, i + 2);
+      const count = pairs.get(pair) || 0;
+      if (count > 0) {
+        pairs.set(pair, count - 1);
+        shared++;
+      }
+    }
+
+    return (2 * shared) / (a.length - 1 + b.length - 1);
+  }
+}
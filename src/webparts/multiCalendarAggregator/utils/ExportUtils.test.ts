@@ -0,0 +1,97 @@
+import moment from 'moment';
+import 'moment-timezone';
+import { ExportUtils } from './ExportUtils';
+import { ICalendarEvent, CalendarSourceType } from '../models/ICalendarModels';
+import { IRecurrencePattern } from '../models/IEventModels';
+
+const NEW_YORK = 'America/New_York';
+
+const inNewYork = (dateTime: string): Date => moment.tz(dateTime, NEW_YORK).toDate();
+
+const createOccurrence = (start: Date, pattern: IRecurrencePattern, seriesStart: Date, changes: Partial<ICalendarEvent> = {}): ICalendarEvent => ({
+  id: `occurrence_${start.getTime()}`,
+  title: 'Team sync',
+  start,
+  end: new Date(start.getTime() + 30 * 60 * 1000),
+  isAllDay: false,
+  calendarId: 'calendar',
+  calendarTitle: 'Team',
+  calendarType: CalendarSourceType.Exchange,
+  color: '#0078d4',
+  created: new Date(NaN),
+  modified: new Date(NaN),
+  timeZone: 'Eastern Standard Time',
+  masterSeriesId: 'series',
+  recurrencePattern: pattern,
+  seriesStart,
+  ...changes
+} as ICalendarEvent);
+
+// Unfolded lines of the series master
+const getMasterLines = (events: ICalendarEvent[]): string[] => {
+  const lines = ExportUtils.generateICSContent(events).replace(/\r\n /g, '').split('\r\n');
+  const start = lines.indexOf('UID:series@multi-calendar-aggregator') - 1;
+  return lines.slice(start, lines.indexOf('END:VEVENT', start));
+};
+
+describe('ExportUtils.generateICSContent', () => {
+  const weekly: IRecurrencePattern = { type: 'weekly', interval: 1, daysOfWeek: [1] };
+  const seriesStart = inNewYork('2026-01-05 09:00');
+
+  it('writes a series once with a rule that ends at the last exported occurrence', () => {
+    const events = ['2026-03-02', '2026-03-09', '2026-03-16'].map(date => createOccurrence(inNewYork(`${date} 09:00`), weekly, seriesStart));
+    const lines = getMasterLines(events);
+
+    expect(lines).toContain('DTSTART;TZID=America/New_York:20260105T090000');
+    expect(lines).toContain('RRULE:FREQ=WEEKLY;INTERVAL=1;BYDAY=MO;UNTIL=20260317T035959Z');
+    expect(lines.some(line => line.indexOf('EXDATE') === 0)).toBe(false);
+    expect(ExportUtils.generateICSContent(events).match(/BEGIN:VEVENT/g)).toHaveLength(1);
+  });
+
+  it('excludes occurrences missing between the exported ones in the series zone', () => {
+    // The 9th is the first Monday after the change to daylight saving time
+    const events = ['2026-03-02', '2026-03-16', '2026-03-23'].map(date => createOccurrence(inNewYork(`${date} 09:00`), weekly, seriesStart));
+
+    expect(getMasterLines(events)).toContain('EXDATE;TZID=America/New_York:20260309T090000');
+  });
+
+  it('excludes deleted occurrences and moved ones whose override is not exported', () => {
+    const exceptions = [
+      { originalDate: inNewYork('2026-01-12 09:00'), isDeleted: true },
+      { originalDate: inNewYork('2026-01-19 09:00'), isDeleted: false }
+    ];
+    const events = [createOccurrence(inNewYork('2026-03-02 09:00'), weekly, seriesStart, { exceptions })];
+
+    expect(getMasterLines(events)).toContain('EXDATE;TZID=America/New_York:20260112T090000,20260119T090000');
+  });
+
+  it('writes an exported override with its recurrence id instead of excluding it', () => {
+    const events = [
+      createOccurrence(inNewYork('2026-03-02 09:00'), weekly, seriesStart),
+      createOccurrence(inNewYork('2026-03-10 14:00'), weekly, seriesStart, {
+        id: 'moved',
+        isException: true,
+        originalStart: inNewYork('2026-03-09 09:00')
+      }),
+      createOccurrence(inNewYork('2026-03-16 09:00'), weekly, seriesStart)
+    ];
+    const content = ExportUtils.generateICSContent(events);
+
+    expect(getMasterLines(events).some(line => line.indexOf('EXDATE') === 0)).toBe(false);
+    expect(content).toContain('RECURRENCE-ID;TZID=America/New_York:20260309T090000');
+  });
+
+  it('keeps an earlier end of the series and counts all-day series in dates', () => {
+    const daily: IRecurrencePattern = { type: 'daily', interval: 1, endDate: new Date(2026, 0, 8) };
+    const allDayStart = new Date(2026, 0, 5);
+    const events = [5, 6, 8].map(day => createOccurrence(new Date(2026, 0, day), daily, allDayStart, {
+      isAllDay: true,
+      end: new Date(2026, 0, day + 1)
+    }));
+    const lines = getMasterLines(events);
+
+    expect(lines).toContain('DTSTART;VALUE=DATE:20260105');
+    expect(lines).toContain('RRULE:FREQ=DAILY;INTERVAL=1;UNTIL=20260108');
+    expect(lines).toContain('EXDATE;VALUE=DATE:20260107');
+  });
+});
@@ -1,8 +1,56 @@
-import { ICalendarEvent } from '../models/ICalendarModels';
+import moment from 'moment';
+import 'moment-timezone';
+import { ICalendarEvent, IEventAttendee, ExportFormat } from '../models/ICalendarModels';
+import { IRecurrencePattern } from '../models/IEventModels';
 import { DateUtils } from './DateUtils';
+import { RecurrenceUtils } from './RecurrenceUtils';
 import { AppConstants } from '../constants/AppConstants';
+import { XlsxUtils, IXlsxSheet, IXlsxColumn, XlsxCellValue } from './XlsxUtils';
+
+/**
+ * A recurring series written as one master VEVENT
+ */
+interface IICSSeries {
+  uid: string;
+  master: ICalendarEvent; // Occurrence the master's properties are taken from
+  rule: string;
+  timeZone?: string;
+  excludedDates: Date[];
+}
 
 export class ExportUtils {
+  private static readonly ICS_DAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+  private static readonly ICS_MAX_LINE_OCTETS = 75;
+  private static readonly ICS_PARTICIPATION_STATUS: { [response: string]: string } = {
+    accepted: 'ACCEPTED',
+    declined: 'DECLINED',
+    tentative: 'TENTATIVE',
+    tentativelyAccepted: 'TENTATIVE',
+    none: 'NEEDS-ACTION',
+    notResponded: 'NEEDS-ACTION'
+  };
+  private static readonly EXCEL_EVENT_COLUMNS: IXlsxColumn[] = [
+    { header: 'Title', width: 40 },
+    { header: 'Start', width: 18, format: 'dateTime' },
+    { header: 'End', width: 18, format: 'dateTime' },
+    { header: 'All Day', width: 9 },
+    { header: 'Duration (hours)', width: 16, format: 'decimal' },
+    { header: 'Location', width: 25 },
+    { header: 'Category', width: 15 },
+    { header: 'Tags', width: 20 },
+    { header: 'Organizer', width: 25 },
+    { header: 'Attendees', width: 11 },
+    { header: 'Recurring', width: 11 },
+    { header: 'Importance', width: 12 },
+    { header: 'Sensitivity', width: 12 },
+    { header: 'Show As', width: 12 },
+    { header: 'Time Zone', width: 20 },
+    { header: 'Description', width: 60 },
+    { header: 'Created', width: 18, format: 'dateTime' },
+    { header: 'Modified', width: 18, format: 'dateTime' },
+    { header: 'Web URL', width: 40 }
+  ];
+
   /**
    * Export events to ICS format
    */
@@ -28,19 +76,41 @@ export class ExportUtils {
   }
 
   /**
-   * Export events to Excel format (simplified XLSX)
+   * Export events to an Excel workbook with one sheet per calendar and a summary sheet
    */
   public static exportToExcel(events: ICalendarEvent[], filename?: string): void {
-    // For a full XLSX implementation, you would use a library like xlsx
-    // This is a simplified CSV-based approach that Excel can open
-    const csvContent = this.generateExcelCompatibleCSV(events);
-    this.downloadFile(csvContent, filename || 'calendar-events.xlsx', 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet');
+    const workbook = this.generateExcelWorkbook(events);
+    this.downloadFile(workbook, filename || 'calendar-events.xlsx', XlsxUtils.MIME_TYPE);
   }
 
   /**
-   * Generate ICS (iCalendar) content
+   * Generate ICS (iCalendar) content. Occurrences of a series that carry their
+   * recurrence rule are written once as a master with RRULE and EXDATE; edited
+   * occurrences follow as overrides with RECURRENCE-ID.
    */
-  private static generateICSContent(events: ICalendarEvent[]): string {
+  public static generateICSContent(events: ICalendarEvent[]): string {
+    const series = this.groupICSSeries(events);
+    const eventLines: string[] = [];
+    const timeZoneYears = new Map<string, number>();
+
+    events.forEach(event => {
+      const eventSeries = event.masterSeriesId ? series.get(event.masterSeriesId) : undefined;
+
+      // Plain occurrences are produced by their master's RRULE
+      if (eventSeries && !event.isException && eventSeries.master !== event) {
+        return;
+      }
+
+      const timeZone = this.getICSTimeZone(event);
+      if (timeZone) {
+        const firstDate = eventSeries?.master === event && event.seriesStart ? event.seriesStart : event.start;
+        const year = moment.tz(firstDate, timeZone).year();
+        timeZoneYears.set(timeZone, Math.min(year, timeZoneYears.get(timeZone) ?? year));
+      }
+
+      eventLines.push(...this.generateICSEvent(event, eventSeries));
+    });
+
     const icsLines: string[] = [
       'BEGIN:VCALENDAR',
       'VERSION:2.0',
@@ -49,28 +119,125 @@ export class ExportUtils {
       'METHOD:PUBLISH'
     ];
 
-    events.forEach(event => {
-      icsLines.push(...this.generateICSEvent(event));
+    timeZoneYears.forEach((year, timeZone) => {
+      icsLines.push(...this.generateICSTimeZone(timeZone, year));
     });
 
+    icsLines.push(...eventLines);
     icsLines.push('END:VCALENDAR');
 
-    return icsLines.join('\r\n');
+    return icsLines.map(line => this.foldICSLine(line)).join('\r\n') + '\r\n';
+  }
+
+  /**
+   * Find the series that can be exported as a single master: occurrences that
+   * carry a recurrence rule expressible as an RRULE
+   */
+  private static groupICSSeries(events: ICalendarEvent[]): Map<string, IICSSeries> {
+    const series = new Map<string, IICSSeries>();
+    const loadedStarts = new Map<string, Date[]>();
+    const exportedOverrides = new Map<string, Date[]>();
+    const addDate = (dates: Map<string, Date[]>, seriesId: string, date: Date): void => {
+      dates.set(seriesId, [...(dates.get(seriesId) || []), date]);
+    };
+
+    events.forEach(event => {
+      if (!event.masterSeriesId) return;
+
+      if (event.isException) {
+        if (event.originalStart) {
+          addDate(exportedOverrides, event.masterSeriesId, event.originalStart);
+        }
+        return;
+      }
+
+      addDate(loadedStarts, event.masterSeriesId, event.start);
+      if (series.has(event.masterSeriesId) || !event.recurrencePattern || !event.seriesStart) return;
+
+      const timeZone = this.getICSTimeZone(event);
+      const rule = this.buildICSRecurrenceRule(event.recurrencePattern, event.seriesStart, event.isAllDay, timeZone);
+      if (rule) {
+        series.set(event.masterSeriesId, {
+          uid: `${event.masterSeriesId}@multi-calendar-aggregator`,
+          master: event,
+          rule,
+          timeZone,
+          excludedDates: []
+        });
+      }
+    });
+
+    // Only the occurrences up to the last one exported are known, so the rule
+    // ends there. Occurrences missing before it were deleted, or were moved
+    // and their override is not part of the export.
+    series.forEach((eventSeries, seriesId) => {
+      const { master } = eventSeries;
+      const pattern = master.recurrencePattern as IRecurrencePattern;
+      const seriesStart = master.seriesStart as Date;
+      const overrides = exportedOverrides.get(seriesId) || [];
+      const occurrences = [...(loadedStarts.get(seriesId) || []), ...overrides].sort((a, b) => a.getTime() - b.getTime());
+
+      // Times without a zone are written in UTC, so the rule repeats in UTC
+      const zone = master.isAllDay ? undefined : eventSeries.timeZone || 'UTC';
+      const toWallClock = (date: Date): Date => DateUtils.convertToUserTimezone(date, zone);
+      const toDay = (date: Date): string => moment(toWallClock(date)).format('YYYY-MM-DD');
+      const lastDay = toDay(occurrences[occurrences.length - 1]);
+
+      if (!pattern.endDate || moment(pattern.endDate).format('YYYY-MM-DD') > lastDay) {
+        const bounded = { ...pattern, occurrences: undefined, endDate: moment(lastDay).toDate() };
+        eventSeries.rule = this.buildICSRecurrenceRule(bounded, seriesStart, master.isAllDay, eventSeries.timeZone) as string;
+      }
+
+      const loadedDays = new Set(occurrences.map(toDay));
+      const excluded = new Map<string, Date>();
+      (master.exceptions || [])
+        .filter(exception => exception.isDeleted || !overrides.some(date => date.getTime() === exception.originalDate.getTime()))
+        .forEach(exception => excluded.set(toDay(exception.originalDate), exception.originalDate));
+      RecurrenceUtils.getOccurrenceDates(
+        toWallClock(seriesStart),
+        pattern,
+        toWallClock(occurrences[0]),
+        toWallClock(occurrences[occurrences.length - 1]),
+        Number.MAX_SAFE_INTEGER
+      )
+        .filter(date => !loadedDays.has(moment(date).format('YYYY-MM-DD')))
+        .forEach(date => excluded.set(moment(date).format('YYYY-MM-DD'), DateUtils.convertFromUserTimezone(date, zone)));
+
+      eventSeries.excludedDates = Array.from(excluded.values()).sort((a, b) => a.getTime() - b.getTime());
+    });
+
+    return series;
   }
 
   /**
-   * Generate individual ICS event
+   * Generate individual ICS event. With a series, the event is either the
+   * series master or an override of one of its occurrences.
    */
-  private static generateICSEvent(event: ICalendarEvent): string[] {
+  private static generateICSEvent(event: ICalendarEvent, series?: IICSSeries): string[] {
     const lines: string[] = [];
     const now = new Date();
-    const uid = `${event.id}@multi-calendar-aggregator`;
+    const isMaster = !!series && series.master === event;
+    const uid = series ? series.uid : `${event.id}@multi-calendar-aggregator`;
+    const timeZone = this.getICSTimeZone(event);
+
+    const start = isMaster && event.seriesStart ? event.seriesStart : event.start;
+    const end = new Date(start.getTime() + (event.end.getTime() - event.start.getTime()));
 
     lines.push('BEGIN:VEVENT');
     lines.push(`UID:${uid}`);
     lines.push(`DTSTAMP:${this.formatICSDateTime(now)}`);
-    lines.push(`DTSTART:${this.formatICSDateTime(event.start)}`);
-    lines.push(`DTEND:${this.formatICSDateTime(event.end)}`);
+    lines.push(this.formatICSDateProperty('DTSTART', [start], event.isAllDay, timeZone));
+    lines.push(this.formatICSDateProperty('DTEND', [event.isAllDay ? this.getICSAllDayEnd(start, end) : end], event.isAllDay, timeZone));
+
+    if (isMaster && series) {
+      lines.push(`RRULE:${series.rule}`);
+      if (series.excludedDates.length > 0) {
+        lines.push(this.formatICSDateProperty('EXDATE', series.excludedDates, event.isAllDay, series.timeZone));
+      }
+    } else if (series && event.originalStart) {
+      lines.push(this.formatICSDateProperty('RECURRENCE-ID', [event.originalStart], series.master.isAllDay, series.timeZone));
+    }
+
     lines.push(`SUMMARY:${this.escapeICSText(event.title)}`);
 
     if (event.description) {
@@ -81,10 +248,17 @@ export class ExportUtils {
       lines.push(`LOCATION:${this.escapeICSText(event.location)}`);
     }
 
-    if (event.organizer) {
-      lines.push(`ORGANIZER:CN=${this.escapeICSText(event.organizer)}`);
+    if (event.organizerEmail) {
+      lines.push(`ORGANIZER;CN=${this.quoteICSParameter(event.organizer || event.organizerEmail)}:mailto:${event.organizerEmail}`);
     }
 
+    (event.attendees || []).forEach(attendee => {
+      const attendeeLine = this.formatICSAttendee(attendee);
+      if (attendeeLine) {
+        lines.push(attendeeLine);
+      }
+    });
+
     if (event.category) {
       lines.push(`CATEGORIES:${this.escapeICSText(event.category)}`);
     }
@@ -93,8 +267,12 @@ export class ExportUtils {
       lines.push(`URL:${event.webUrl}`);
     }
 
-    lines.push(`CREATED:${this.formatICSDateTime(event.created)}`);
-    lines.push(`LAST-MODIFIED:${this.formatICSDateTime(event.modified)}`);
+    if (!isNaN(event.created.getTime())) {
+      lines.push(`CREATED:${this.formatICSDateTime(event.created)}`);
+    }
+    if (!isNaN(event.modified.getTime())) {
+      lines.push(`LAST-MODIFIED:${this.formatICSDateTime(event.modified)}`);
+    }
 
     if (event.isAllDay) {
       lines.push('X-MICROSOFT-CDO-ALLDAYEVENT:TRUE');
@@ -105,14 +283,247 @@ export class ExportUtils {
       lines.push(`PRIORITY:${priority}`);
     }
 
-    lines.push(`X-CALENDAR-SOURCE:${event.calendarTitle}`);
+    lines.push(`X-CALENDAR-SOURCE:${this.escapeICSText(event.calendarTitle)}`);
     lines.push(`X-CALENDAR-TYPE:${event.calendarType}`);
 
+    (event.reminderMinutes || []).filter(minutes => minutes >= 0).forEach(minutes => {
+      lines.push('BEGIN:VALARM');
+      lines.push('ACTION:DISPLAY');
+      lines.push(`DESCRIPTION:${this.escapeICSText(event.title)}`);
+      lines.push(`TRIGGER:-PT${minutes}M`);
+      lines.push('END:VALARM');
+    });
+
     lines.push('END:VEVENT');
 
     return lines;
   }
 
+  /**
+   * Build an RRULE value from a recurrence pattern. Returns undefined for
+   * patterns that cannot be expressed, so their occurrences are exported individually.
+   */
+  private static buildICSRecurrenceRule(
+    pattern: IRecurrencePattern,
+    seriesStart: Date,
+    isAllDay: boolean,
+    timeZone?: string
+  ): string | undefined {
+    const interval = Math.max(1, pattern.interval || 1);
+    const parts: string[] = [];
+
+    switch (pattern.type) {
+      case 'daily': {
+        parts.push('FREQ=DAILY', `INTERVAL=${interval}`);
+        break;
+      }
+      case 'weekdays': {
+        parts.push('FREQ=WEEKLY', 'BYDAY=MO,TU,WE,TH,FR');
+        break;
+      }
+      case 'weekly': {
+        parts.push('FREQ=WEEKLY', `INTERVAL=${interval}`);
+        if (pattern.daysOfWeek && pattern.daysOfWeek.length > 0) {
+          parts.push(`BYDAY=${pattern.daysOfWeek.map(day => this.ICS_DAYS[day]).join(',')}`);
+        }
+        if (pattern.firstDayOfWeek !== undefined) {
+          parts.push(`WKST=${this.ICS_DAYS[pattern.firstDayOfWeek]}`);
+        }
+        break;
+      }
+      case 'monthly': {
+        parts.push('FREQ=MONTHLY', `INTERVAL=${interval}`, ...this.buildICSMonthDayParts(pattern, seriesStart));
+        break;
+      }
+      case 'yearly': {
+        parts.push('FREQ=YEARLY', `INTERVAL=${interval}`, `BYMONTH=${pattern.monthOfYear || moment(seriesStart).month() + 1}`);
+        parts.push(...this.buildICSMonthDayParts(pattern, seriesStart));
+        break;
+      }
+      default: {
+        return undefined;
+      }
+    }
+
+    if (pattern.occurrences) {
+      parts.push(`COUNT=${pattern.occurrences}`);
+    } else if (pattern.endDate) {
+      // The series end is inclusive of its whole last day
+      const lastDay = moment(pattern.endDate).format('YYYY-MM-DD');
+      parts.push(`UNTIL=${isAllDay
+        ? lastDay.replace(/-/g, '')
+        : this.formatICSDateTime((timeZone ? moment.tz(lastDay, timeZone) : moment(lastDay)).endOf('day').toDate())}`);
+    }
+
+    return parts.join(';');
+  }
+
+  /**
+   * Day-in-month parts of a monthly or yearly RRULE. Absolute days past the 28th
+   * use the last matching day, as the series expansion falls back to the end of shorter months.
+   */
+  private static buildICSMonthDayParts(pattern: IRecurrencePattern, seriesStart: Date): string[] {
+    if (pattern.weekOfMonth && pattern.daysOfWeek && pattern.daysOfWeek.length > 0) {
+      const days = pattern.daysOfWeek.map(day => this.ICS_DAYS[day]);
+      return days.length === 1
+        ? [`BYDAY=${pattern.weekOfMonth}${days[0]}`]
+        : [`BYDAY=${days.join(',')}`, `BYSETPOS=${pattern.weekOfMonth}`];
+    }
+
+    const dayOfMonth = pattern.dayOfMonth || moment(seriesStart).date();
+    if (dayOfMonth <= 28) {
+      return [`BYMONTHDAY=${dayOfMonth}`];
+    }
+
+    const candidates: number[] = [];
+    for (let day = 28; day <= dayOfMonth; day++) {
+      candidates.push(day);
+    }
+    return [`BYMONTHDAY=${candidates.join(',')}`, 'BYSETPOS=-1'];
+  }
+
+  /**
+   * Generate a VTIMEZONE from the zone's rules in the given year
+   */
+  private static generateICSTimeZone(timeZone: string, year: number): string[] {
+    const zone = moment.tz.zone(timeZone);
+    if (!zone) return [];
+
+    const yearStart = moment.tz([year], timeZone).valueOf();
+    const yearEnd = moment.tz([year + 1], timeZone).valueOf();
+    const lines: string[] = ['BEGIN:VTIMEZONE', `TZID:${timeZone}`];
+    let hasTransitions = false;
+
+    zone.untils.forEach((until, index) => {
+      if (until < yearStart || until >= yearEnd || index + 1 >= zone.offsets.length) return;
+
+      // moment-timezone offsets are minutes behind UTC
+      const offsetFrom = -zone.offsets[index];
+      const offsetTo = -zone.offsets[index + 1];
+      const local = moment.utc(until).add(offsetFrom, 'minutes');
+      const weekOfMonth = local.date() + 7 > local.daysInMonth() ? -1 : Math.ceil(local.date() / 7);
+      const component = offsetTo > offsetFrom ? 'DAYLIGHT' : 'STANDARD';
+
+      lines.push(`BEGIN:${component}`);
+      lines.push(`DTSTART:${local.format('YYYYMMDD[T]HHmmss')}`);
+      lines.push(`TZOFFSETFROM:${this.formatICSOffset(offsetFrom)}`);
+      lines.push(`TZOFFSETTO:${this.formatICSOffset(offsetTo)}`);
+      lines.push(`TZNAME:${zone.abbrs[index + 1]}`);
+      lines.push(`RRULE:FREQ=YEARLY;BYMONTH=${local.month() + 1};BYDAY=${weekOfMonth}${this.ICS_DAYS[local.day()]}`);
+      lines.push(`END:${component}`);
+      hasTransitions = true;
+    });
+
+    if (!hasTransitions) {
+      const offset = this.formatICSOffset(moment.tz(yearStart, timeZone).utcOffset());
+      lines.push('BEGIN:STANDARD');
+      lines.push('DTSTART:19700101T000000');
+      lines.push(`TZOFFSETFROM:${offset}`);
+      lines.push(`TZOFFSETTO:${offset}`);
+      lines.push(`TZNAME:${zone.abbr(yearStart)}`);
+      lines.push('END:STANDARD');
+    }
+
+    lines.push('END:VTIMEZONE');
+    return lines;
+  }
+
+  /**
+   * Zone to write local times in; UTC and unknown zones are written as UTC
+   */
+  private static getICSTimeZone(event: ICalendarEvent): string | undefined {
+    if (event.isAllDay) return undefined;
+
+    const timeZone = DateUtils.resolveTimeZone(event.timeZone);
+    const zone = timeZone ? moment.tz.zone(timeZone) : null;
+    return zone && zone.offsets.some(offset => offset !== 0) ? timeZone : undefined;
+  }
+
+  /**
+   * Format a date property as DATE values, local times with TZID, or UTC times
+   */
+  private static formatICSDateProperty(name: string, dates: Date[], isAllDay: boolean, timeZone?: string): string {
+    if (isAllDay) {
+      return `${name};VALUE=DATE:${dates.map(date => moment(date).format('YYYYMMDD')).join(',')}`;
+    }
+    if (timeZone) {
+      return `${name};TZID=${timeZone}:${dates.map(date => moment.tz(date, timeZone).format('YYYYMMDD[T]HHmmss')).join(',')}`;
+    }
+    return `${name}:${dates.map(date => this.formatICSDateTime(date)).join(',')}`;
+  }
+
+  /**
+   * Exclusive end date of an all-day event; sources store either the next
+   * midnight or the end of the last day
+   */
+  private static getICSAllDayEnd(start: Date, end: Date): Date {
+    const startDay = moment(start).startOf('day');
+    const endDay = moment(end).startOf('day');
+    const exclusiveEnd = endDay.isSame(moment(end)) ? endDay : endDay.add(1, 'day');
+
+    return exclusiveEnd.isAfter(startDay) ? exclusiveEnd.toDate() : startDay.add(1, 'day').toDate();
+  }
+
+  /**
+   * Format an attendee with role and participation status
+   */
+  private static formatICSAttendee(attendee: IEventAttendee): string | undefined {
+    if (!attendee.email) return undefined;
+
+    const role = attendee.type === 'optional' ? 'OPT-PARTICIPANT' : attendee.type === 'resource' ? 'NON-PARTICIPANT' : 'REQ-PARTICIPANT';
+    const userType = attendee.type === 'resource' ? 'RESOURCE' : 'INDIVIDUAL';
+    const participationStatus = this.ICS_PARTICIPATION_STATUS[attendee.response] || 'NEEDS-ACTION';
+
+    return `ATTENDEE;CN=${this.quoteICSParameter(attendee.name || attendee.email)};CUTYPE=${userType};` +
+      `ROLE=${role};PARTSTAT=${participationStatus}:mailto:${attendee.email}`;
+  }
+
+  /**
+   * Quote a parameter value; double quotes are not allowed inside it
+   */
+  private static quoteICSParameter(value: string): string {
+    return `"${value.replace(/"/g, '')}"`;
+  }
+
+  /**
+   * Format a UTC offset in minutes as +HHMM
+   */
+  private static formatICSOffset(minutes: number): string {
+    const absolute = Math.abs(minutes);
+    const hours = String(Math.floor(absolute / 60)).padStart(2, '0');
+    const remainder = String(absolute % 60).padStart(2, '0');
+    return `${minutes < 0 ? '-' : '+'}${hours}${remainder}`;
+  }
+
+  /**
+   * Fold a content line at 75 octets, without splitting multi-byte characters
+   */
+  private static foldICSLine(line: string): string {
+    const segments: string[] = [];
+    let segment = '';
+    let segmentOctets = 0;
+    let limit = this.ICS_MAX_LINE_OCTETS;
+
+    for (const char of line) {
+      const codePoint = char.codePointAt(0) || 0;
+      const octets = codePoint < 0x80 ? 1 : codePoint < 0x800 ? 2 : codePoint < 0x10000 ? 3 : 4;
+
+      if (segmentOctets + octets > limit) {
+        segments.push(segment);
+        segment = '';
+        segmentOctets = 0;
+        // Continuation lines start with a space, which counts towards the limit
+        limit = this.ICS_MAX_LINE_OCTETS - 1;
+      }
+
+      segment += char;
+      segmentOctets += octets;
+    }
+
+    segments.push(segment);
+    return segments.join('\r\n ');
+  }
+
   /**
    * Format date for ICS
    */
@@ -198,66 +609,104 @@ export class ExportUtils {
   }
 
   /**
-   * Generate Excel-compatible CSV content
+   * Generate an XLSX workbook: a summary sheet followed by one sheet per calendar
+   * source. Dates are typed cells in local time and durations are hours.
    */
-  private static generateExcelCompatibleCSV(events: ICalendarEvent[]): string {
-    const headers = [
-      'Subject',
-      'Start Date',
-      'Start Time',
-      'End Date', 
-      'End Time',
-      'All day event',
-      'Description',
-      'Location',
-      'Categories',
-      'Show time as',
-      'Organizer',
-      'Required Attendees',
-      'Optional Attendees',
-      'Meeting Resources',
-      'Billing Information',
-      'Mileage',
-      'Priority',
-      'Private',
-      'Sensitivity',
-      'Recurrence Pattern',
-      'Calendar',
-      'Calendar Type'
-    ];
+  public static generateExcelWorkbook(events: ICalendarEvent[]): Blob {
+    const calendars = new Map<string, ICalendarEvent[]>();
+    events.forEach(event => {
+      calendars.set(event.calendarId, [...(calendars.get(event.calendarId) || []), event]);
+    });
 
-    const csvLines: string[] = [headers.join(',')];
+    const sheets: IXlsxSheet[] = [this.generateExcelSummarySheet(events)];
+    calendars.forEach(calendarEvents => {
+      sheets.push({
+        name: calendarEvents[0].calendarTitle || calendarEvents[0].calendarId,
+        columns: this.EXCEL_EVENT_COLUMNS,
+        rows: [...calendarEvents]
+          .sort((a, b) => a.start.getTime() - b.start.getTime())
+          .map(event => this.generateExcelEventRow(event))
+      });
+    });
 
-    events.forEach(event => {
-      const row = [
-        this.escapeCSVField(event.title),
-        DateUtils.formatDate(event.start, 'MM/DD/YYYY'),
-        event.isAllDay ? '' : DateUtils.formatTime(event.start, 'HH:mm:ss'),
-        DateUtils.formatDate(event.end, 'MM/DD/YYYY'),
-        event.isAllDay ? '' : DateUtils.formatTime(event.end, 'HH:mm:ss'),
-        event.isAllDay ? 'True' : 'False',
-        this.escapeCSVField(event.description || ''),
-        this.escapeCSVField(event.location || ''),
-        this.escapeCSVField(event.category || ''),
-        event.showAs || 'Busy',
-        this.escapeCSVField(event.organizer),
-        '', // Required Attendees - would need to parse from attendees
-        '', // Optional Attendees
-        '', // Meeting Resources
-        '', // Billing Information
-        '', // Mileage
-        event.importance || 'Normal',
-        'False', // Private
-        event.sensitivity || 'Normal',
-        event.isRecurring ? 'Yes' : '',
-        this.escapeCSVField(event.calendarTitle),
-        event.calendarType
-      ];
+    return XlsxUtils.createWorkbook(sheets);
+  }
 
-      csvLines.push(row.join(','));
+  /**
+   * Row of an event sheet, in the order of EXCEL_EVENT_COLUMNS. All-day events
+   * show dates only, with the last day of the event as the end.
+   */
+  private static generateExcelEventRow(event: ICalendarEvent): XlsxCellValue[] {
+    const end = event.isAllDay ? this.getICSAllDayEnd(event.start, event.end) : event.end;
+    const durationHours = Math.max(0, end.getTime() - event.start.getTime()) / (60 * 60 * 1000);
+
+    return [
+      event.title,
+      event.isAllDay ? { value: moment(event.start).startOf('day').toDate(), format: 'date' } : event.start,
+      event.isAllDay ? { value: moment(end).subtract(1, 'day').toDate(), format: 'date' } : event.end,
+      event.isAllDay,
+      Math.round(durationHours * 100) / 100,
+      event.location,
+      event.category,
+      event.tags?.join(', '),
+      event.organizer,
+      event.attendees?.length || 0,
+      event.isRecurring,
+      event.importance,
+      event.sensitivity,
+      event.showAs,
+      event.timeZone,
+      event.description,
+      event.created,
+      event.modified,
+      event.webUrl
+    ];
+  }
+
+  /**
+   * Summary sheet built from the event statistics, one row per figure so the
+   * sections can be filtered
+   */
+  private static generateExcelSummarySheet(events: ICalendarEvent[]): IXlsxSheet {
+    const stats = this.generateStatistics(events);
+    const rows: XlsxCellValue[][] = [];
+    const overviewLabels: { [key: string]: string } = {
+      totalEvents: 'Total events',
+      upcomingEvents: 'Upcoming events',
+      pastEvents: 'Past events',
+      allDayEvents: 'All-day events',
+      recurringEvents: 'Recurring events'
+    };
+
+    Object.entries(stats.overview as { [key: string]: number }).forEach(([key, count]) => {
+      rows.push(['Overview', overviewLabels[key] || key, count]);
+    });
+    Object.entries(stats.byCalendar as { [calendar: string]: ICalendarEvent[] }).forEach(([calendar, calendarEvents]) => {
+      rows.push(['Calendar', calendar, calendarEvents.length]);
+    });
+    Object.entries(stats.byCategory as { [category: string]: number }).forEach(([category, count]) => {
+      rows.push(['Category', category, count]);
+    });
+    Object.entries(stats.byMonth as { [month: string]: ICalendarEvent[] })
+      .sort(([, a], [, b]) => a[0].start.getTime() - b[0].start.getTime())
+      .forEach(([month, monthEvents]) => {
+        rows.push(['Month', month, monthEvents.length]);
+      });
+    moment.weekdays().forEach(day => {
+      if (stats.byDayOfWeek[day]) {
+        rows.push(['Day of week', day, stats.byDayOfWeek[day]]);
+      }
     });
 
-    return '\ufeff' + csvLines.join('\r\n'); // Add BOM for Excel UTF-8 support
+    return {
+      name: 'Summary',
+      columns: [
+        { header: 'Section', width: 14 },
+        { header: 'Item', width: 40 },
+        { header: 'Events', width: 10 }
+      ],
+      rows
+    };
   }
 
   /**
@@ -304,9 +753,9 @@ export class ExportUtils {
   /**
    * Download file to user's device
    */
-  private static downloadFile(content: string, filename: string, mimeType: string): void {
+  private static downloadFile(content: string | Blob, filename: string, mimeType: string): void {
     try {
-      const blob = new Blob([content], { type: mimeType });
+      const blob = content instanceof Blob ? content : new Blob([content], { type: mimeType });
       const url = window.URL.createObjectURL(blob);
       
       const link = document.createElement('a');
@@ -323,7 +772,10 @@ export class ExportUtils {
     } catch (error) {
       console.error('Error downloading file:', error);
       
-      // Fallback: open in new window
+      // Fallback: open in new window; only text content can be put in a data URL
+      if (typeof content !== 'string') {
+        return;
+      }
       const dataUrl = `data:${mimeType};charset=utf-8,${encodeURIComponent(content)}`;
       window.open(dataUrl, '_blank');
     }
@@ -439,7 +891,7 @@ export class ExportUtils {
       categories?: string[];
       searchQuery?: string;
     },
-    format: 'ics' | 'csv' | 'json' | 'excel' = 'ics',
+    format: ExportFormat | 'ics' | 'csv' | 'json' | 'excel' | 'xlsx' = 'ics',
     filename?: string
   ): void {
     let filteredEvents = [...events];
@@ -485,6 +937,7 @@ export class ExportUtils {
         this.exportToJSON(filteredEvents, filename);
         break;
       case 'excel':
+      case 'xlsx':
         this.exportToExcel(filteredEvents, filename);
         break;
       case 'ics':
@@ -0,0 +1,158 @@
+import { FilterUtils } from './FilterUtils';
+import { ICalendarEvent, CalendarSourceType } from '../models/ICalendarModels';
+import { IEventFilter, IFilterGroup, IFilterSet } from '../models/IFilterModels';
+
+const createEvent = (id: string, changes: Partial<ICalendarEvent> = {}): ICalendarEvent => ({
+  id,
+  title: 'Event',
+  start: new Date(2026, 2, 4, 10, 0),
+  end: new Date(2026, 2, 4, 11, 0),
+  isAllDay: false,
+  calendarId: 'team',
+  calendarTitle: 'Team',
+  calendarType: CalendarSourceType.SharePoint,
+  color: '#0078d4',
+  created: new Date(2026, 0, 1),
+  modified: new Date(2026, 0, 1),
+  ...changes
+} as ICalendarEvent);
+
+const createGroup = (filters: IEventFilter[], operator: 'AND' | 'OR' = 'AND', isEnabled: boolean = true): IFilterGroup => ({
+  id: `group_${filters.map(filter => filter.id).join('_')}`,
+  name: 'Group',
+  filters,
+  operator,
+  isEnabled
+});
+
+const createSet = (filterGroups: IFilterGroup[], globalOperator: 'AND' | 'OR' = 'AND'): IFilterSet => ({
+  id: 'set',
+  name: 'Set',
+  filterGroups,
+  globalOperator,
+  isDefault: false,
+  isSystem: false,
+  createdBy: 'test',
+  createdDate: new Date(2026, 0, 1),
+  modifiedDate: new Date(2026, 0, 1)
+});
+
+const textFilter = (id: string, query: string, matchType: 'contains' | 'exact' | 'startsWith' | 'regex' = 'contains'): IEventFilter => ({
+  id,
+  name: id,
+  isEnabled: true,
+  type: 'textSearch',
+  query,
+  searchFields: ['title'],
+  matchType,
+  caseSensitive: false
+});
+
+const calendarFilter = (id: string, calendarIds: string[]): IEventFilter => ({
+  id,
+  name: id,
+  isEnabled: true,
+  type: 'calendar',
+  calendarIds,
+  includeAllCalendars: false
+});
+
+const events = [
+  createEvent('1', { title: 'Budget review', calendarId: 'finance' }),
+  createEvent('2', { title: 'Design review', calendarId: 'team' }),
+  createEvent('3', { title: 'Lunch', calendarId: 'team' })
+];
+const ids = (items: ICalendarEvent[]): string[] => items.map(event => event.id);
+
+describe('FilterUtils.applyFilterSet', () => {
+  it('combines the filters of a group and the groups of a set with their operators', () => {
+    const reviews = createGroup([textFilter('review', 'review')]);
+    const team = createGroup([calendarFilter('team', ['team'])]);
+
+    expect(ids(FilterUtils.applyFilterSet(events, createSet([reviews, team], 'AND')).items)).toEqual(['2']);
+    expect(ids(FilterUtils.applyFilterSet(events, createSet([reviews, team], 'OR')).items)).toEqual(['1', '2', '3']);
+    expect(ids(FilterUtils.applyFilterSet(events, createSet([createGroup([textFilter('budget', 'budget'), textFilter('lunch', 'lunch')], 'OR')])).items))
+      .toEqual(['1', '3']);
+  });
+
+  it('leaves out disabled groups and filters that are not valid', () => {
+    const result = FilterUtils.applyFilterSet(events, createSet([
+      createGroup([textFilter('lunch', 'lunch')], 'AND', false),
+      createGroup([textFilter('empty', '  '), textFilter('review', 'review')])
+    ]));
+
+    expect(ids(result.items)).toEqual(['1', '2']);
+    expect(result.appliedFilters.map(filter => filter.id)).toEqual(['review']);
+    expect(result.statistics).toMatchObject({ totalItems: 3, filteredItems: 2 });
+  });
+
+  it('matches every event without groups', () => {
+    expect(FilterUtils.applyFilterSet(events, createSet([])).items).toHaveLength(3);
+  });
+});
+
+describe('FilterUtils.matchesFilter', () => {
+  const now = new Date(2026, 2, 4, 12, 0); // Wednesday
+
+  it('resolves relative date presets from the current date', () => {
+    const thisWeek: IEventFilter = { id: 'week', name: 'week', isEnabled: true, type: 'dateRange', startDate: new Date(NaN), endDate: new Date(NaN), preset: 'thisWeek' };
+
+    expect(FilterUtils.matchesFilter(createEvent('a', { start: new Date(2026, 2, 7, 9), end: new Date(2026, 2, 7, 10) }), thisWeek, now)).toBe(true);
+    expect(FilterUtils.matchesFilter(createEvent('b', { start: new Date(2026, 2, 9, 9), end: new Date(2026, 2, 9, 10) }), thisWeek, now)).toBe(false);
+  });
+
+  it('checks durations in minutes and leaves all-day events to their own option', () => {
+    const short: IEventFilter = { id: 'short', name: 'short', isEnabled: true, type: 'duration', maxDuration: 30, includeAllDay: false };
+
+    expect(FilterUtils.matchesFilter(createEvent('a', { end: new Date(2026, 2, 4, 10, 30) }), short)).toBe(true);
+    expect(FilterUtils.matchesFilter(createEvent('b'), short)).toBe(false);
+    expect(FilterUtils.matchesFilter(createEvent('c', { isAllDay: true }), short)).toBe(false);
+  });
+
+  it('compares custom properties as numbers or text and reaches into nested values', () => {
+    const event = createEvent('a', { customFields: { Department: 'Finance', Budget: 1200 } } as Partial<ICalendarEvent>);
+    const property = (propertyName: string, operator: 'equals' | 'greaterThan' | 'exists', propertyValue?: unknown): IEventFilter =>
+      ({ id: propertyName, name: propertyName, isEnabled: true, type: 'customProperty', propertyName, propertyValue, operator });
+
+    expect(FilterUtils.matchesFilter(event, property('customFields.Department', 'equals', 'finance'))).toBe(true);
+    expect(FilterUtils.matchesFilter(event, property('customFields.Budget', 'greaterThan', '1000'))).toBe(true);
+    expect(FilterUtils.matchesFilter(event, property('customFields.Owner', 'exists'))).toBe(false);
+  });
+
+  it('treats online meetings separately from physical locations', () => {
+    const rooms: IEventFilter = { id: 'rooms', name: 'rooms', isEnabled: true, type: 'location', locations: [], includeOnlineEvents: false, includeEventsWithoutLocation: false, matchType: 'contains' };
+
+    expect(FilterUtils.matchesFilter(createEvent('a', { location: 'Room 4' }), rooms)).toBe(true);
+    expect(FilterUtils.matchesFilter(createEvent('b', { location: 'Microsoft Teams Meeting' }), rooms)).toBe(false);
+    expect(FilterUtils.matchesFilter(createEvent('c', { location: '' }), rooms)).toBe(false);
+  });
+});
+
+describe('FilterUtils.validateFilterSet', () => {
+  it('reports errors for filters that cannot be applied and warnings for empty selections', () => {
+    const reversed: IEventFilter = { id: 'dates', name: 'dates', isEnabled: true, type: 'dateRange', startDate: new Date(2026, 2, 5), endDate: new Date(2026, 2, 4) };
+    const result = FilterUtils.validateFilterSet(createSet([createGroup([reversed, textFilter('pattern', '(unclosed', 'regex'), calendarFilter('none', [])])]));
+
+    expect(result.isValid).toBe(false);
+    expect(result.errors.map(error => [error.filterId, error.code])).toEqual([['dates', 'INVALID_DATE_RANGE'], ['pattern', 'INVALID_REGEX']]);
+    expect(result.warnings.map(warning => [warning.filterId, warning.code])).toEqual([['none', 'EMPTY_SELECTION']]);
+  });
+
+  it('rejects patterns that are too long, repeat repetition or refer back', () => {
+    const codes = (query: string): string[] =>
+      FilterUtils.validateFilterSet(createSet([createGroup([textFilter('pattern', query, 'regex')])])).errors.map(error => error.code);
+
+    expect(codes('(a+)+$')).toEqual(['UNSAFE_REGEX']);
+    expect(codes('((ab)*c)*')).toEqual(['UNSAFE_REGEX']);
+    expect(codes('(\\w)\\1')).toEqual(['UNSAFE_REGEX']);
+    expect(codes('a'.repeat(201))).toEqual(['UNSAFE_REGEX']);
+    expect(codes('^(stand-up|sync)+ [(*+)]{2}')).toEqual([]);
+    expect(codes('(team )?meeting$')).toEqual([]);
+  });
+
+  it('leaves unsafe patterns out of the filter', () => {
+    const events = [createEvent('a', { title: 'aaaaaaaaaaaaaaaaaaaaaaaaaaaaa!' })];
+
+    expect(FilterUtils.applyFilterSet(events, createSet([createGroup([textFilter('pattern', '(a+)+$', 'regex')])])).items).toHaveLength(1);
+  });
+});
@@ -0,0 +1,556 @@
+import moment from 'moment';
+import { ICalendarEvent } from '../models/ICalendarModels';
+import {
+  IEventFilter,
+  IFilterSet,
+  IFilterGroup,
+  IDateRangeFilter,
+  ICalendarFilter,
+  ICategoryFilter,
+  ITextSearchFilter,
+  IAttendeeFilter,
+  ITimeRangeFilter,
+  ILocationFilter,
+  IDurationFilter,
+  IRecurrenceFilter,
+  ICustomPropertyFilter,
+  IFilterApplicationResult,
+  IFilterValidationResult,
+  IFilterValidationError,
+  IFilterValidationWarning
+} from '../models/IFilterModels';
+import { ValidationUtils } from './ValidationUtils';
+
+export type DateRangePreset = NonNullable<IDateRangeFilter['preset']>;
+
+type EventPredicate = (event: ICalendarEvent) => boolean;
+
+/**
+ * Evaluates filter sets against events. A set combines its enabled groups with
+ * the global operator; each group combines its enabled filters with its own.
+ * Filters that fail validation are left out rather than matching nothing.
+ */
+export class FilterUtils {
+  private static readonly ONLINE_LOCATION_PATTERN = /microsoft teams|teams meeting|skype|zoom|webex|google meet|online|https?:\/\//i;
+  private static readonly SHOW_AS_ALIASES: { [value: string]: string } = {
+    oof: 'outOfOffice',
+    outofoffice: 'outOfOffice',
+    workingelsewhere: 'workingElsewhere'
+  };
+  private static readonly MAX_PATTERN_LENGTH = 200;
+
+  /**
+   * Apply a filter set to events
+   */
+  public static applyFilterSet(
+    events: ICalendarEvent[],
+    filterSet: IFilterSet,
+    now: Date = new Date()
+  ): IFilterApplicationResult<ICalendarEvent> {
+    const startTime = performance.now();
+    const invalidFilterIds = new Set(this.validateFilterSet(filterSet).errors.map(error => error.filterId));
+    const appliedFilters: IEventFilter[] = [];
+
+    const groups = filterSet.filterGroups
+      .filter(group => group.isEnabled)
+      .map(group => {
+        const filters = group.filters.filter(filter => filter.isEnabled && !invalidFilterIds.has(filter.id));
+        appliedFilters.push(...filters);
+        return { operator: group.operator, predicates: filters.map(filter => this.createPredicate(filter, now)) };
+      })
+      .filter(group => group.predicates.length > 0);
+
+    const items = groups.length === 0
+      ? [...events]
+      : events.filter(event => this.combine(filterSet.globalOperator, groups, group =>
+        this.combine(group.operator, group.predicates, predicate => predicate(event))
+      ));
+
+    return {
+      items,
+      totalCount: items.length,
+      appliedFilters,
+      statistics: {
+        totalItems: events.length,
+        filteredItems: items.length,
+        filterDuration: Math.round((performance.now() - startTime) * 100) / 100
+      }
+    };
+  }
+
+  /**
+   * Check whether an event passes a single filter
+   */
+  public static matchesFilter(event: ICalendarEvent, filter: IEventFilter, now: Date = new Date()): boolean {
+    return this.createPredicate(filter, now)(event);
+  }
+
+  /**
+   * Validate every filter of a set; disabled filters and groups are validated too
+   * so they can be switched on safely
+   */
+  public static validateFilterSet(filterSet: IFilterSet): IFilterValidationResult {
+    const errors: IFilterValidationError[] = [];
+    const warnings: IFilterValidationWarning[] = [];
+
+    if (!filterSet.filterGroups || filterSet.filterGroups.length === 0) {
+      warnings.push({ filterId: filterSet.id, field: 'filterGroups', message: 'The filter set has no groups and matches every event', code: 'EMPTY_FILTER_SET' });
+    }
+
+    (filterSet.filterGroups || []).forEach((group: IFilterGroup) => {
+      if (group.filters.length === 0) {
+        warnings.push({ filterId: group.id, field: 'filters', message: `Group "${group.name}" has no filters`, code: 'EMPTY_GROUP' });
+      }
+      group.filters.forEach(filter => {
+        const result = this.validateFilter(filter);
+        errors.push(...result.errors);
+        warnings.push(...result.warnings);
+      });
+    });
+
+    return { isValid: errors.length === 0, errors, warnings };
+  }
+
+  /**
+   * Validate a single filter
+   */
+  public static validateFilter(filter: IEventFilter): IFilterValidationResult {
+    const errors: IFilterValidationError[] = [];
+    const warnings: IFilterValidationWarning[] = [];
+    const error = (field: string, message: string, code: string): number => errors.push({ filterId: filter.id, field, message, code });
+    const warning = (field: string, message: string, code: string): number => warnings.push({ filterId: filter.id, field, message, code });
+
+    switch (filter.type) {
+      case 'dateRange': {
+        if (!filter.preset || filter.preset === 'custom') {
+          const start = new Date(filter.startDate);
+          const end = new Date(filter.endDate);
+          if (isNaN(start.getTime())) error('startDate', 'Start date is required', 'INVALID_DATE');
+          if (isNaN(end.getTime())) error('endDate', 'End date is required', 'INVALID_DATE');
+          if (!isNaN(start.getTime()) && !isNaN(end.getTime()) && start > end) {
+            error('endDate', 'End date must be after start date', 'INVALID_DATE_RANGE');
+          }
+        } else if (!this.isDateRangePreset(filter.preset)) {
+          error('preset', `Unknown date preset "${filter.preset}"`, 'INVALID_PRESET');
+        }
+        break;
+      }
+      case 'calendar':
+        if (!filter.includeAllCalendars && filter.calendarIds.length === 0) {
+          warning('calendarIds', 'No calendars are selected, so no events match', 'EMPTY_SELECTION');
+        }
+        break;
+      case 'category':
+        if (filter.categories.length === 0 && !filter.includeUncategorized) {
+          warning('categories', 'No categories are selected; only categorized events match', 'EMPTY_SELECTION');
+        }
+        break;
+      case 'textSearch':
+        if (!filter.query.trim()) {
+          error('query', 'Search text is required', 'REQUIRED_FIELD');
+        } else if (filter.matchType === 'regex' && !this.isSafePattern(filter.query)) {
+          error('query', `Search text must be at most ${this.MAX_PATTERN_LENGTH} characters, without nested repetition or backreferences`, 'UNSAFE_REGEX');
+        } else if (filter.matchType === 'regex' && !this.compilePattern(filter.query, filter.caseSensitive)) {
+          error('query', 'Search text is not a valid regular expression', 'INVALID_REGEX');
+        }
+        if (filter.searchFields.length === 0) {
+          error('searchFields', 'Select at least one field to search', 'REQUIRED_FIELD');
+        }
+        break;
+      case 'attendee':
+        if (filter.attendees.length === 0 && !filter.responseStatus?.length && !filter.attendeeType?.length) {
+          warning('attendees', 'No attendees are given; events with any attendee match', 'EMPTY_SELECTION');
+        }
+        break;
+      case 'timeRange': {
+        const result = ValidationUtils.validateTimeRange(filter.startTime, filter.endTime);
+        result.errors.forEach(e => error(e.field, e.message, e.code));
+        if (filter.daysOfWeek.some(day => !Number.isInteger(day) || day < 0 || day > 6)) {
+          error('daysOfWeek', 'Days of the week must be between 0 (Sunday) and 6 (Saturday)', 'INVALID_VALUE');
+        }
+        break;
+      }
+      case 'location':
+        if (filter.locations.length === 0 && !filter.includeOnlineEvents && !filter.includeEventsWithoutLocation) {
+          warning('locations', 'No locations are given; events at any physical location match', 'EMPTY_SELECTION');
+        }
+        break;
+      case 'importance':
+        if (filter.importanceLevels.length === 0) warning('importanceLevels', 'No importance levels are selected, so no events match', 'EMPTY_SELECTION');
+        break;
+      case 'sensitivity':
+        if (filter.sensitivityLevels.length === 0) warning('sensitivityLevels', 'No sensitivity levels are selected, so no events match', 'EMPTY_SELECTION');
+        break;
+      case 'showAs':
+        if (filter.showAsTypes.length === 0) warning('showAsTypes', 'No availability types are selected, so no events match', 'EMPTY_SELECTION');
+        break;
+      case 'duration':
+        if (filter.minDuration !== undefined && (isNaN(filter.minDuration) || filter.minDuration < 0)) {
+          error('minDuration', 'Minimum duration must be zero or more minutes', 'INVALID_VALUE');
+        }
+        if (filter.maxDuration !== undefined && (isNaN(filter.maxDuration) || filter.maxDuration < 0)) {
+          error('maxDuration', 'Maximum duration must be zero or more minutes', 'INVALID_VALUE');
+        }
+        if (filter.minDuration !== undefined && filter.maxDuration !== undefined && filter.minDuration > filter.maxDuration) {
+          error('maxDuration', 'Maximum duration must not be less than the minimum', 'INVALID_RANGE');
+        }
+        break;
+      case 'recurrence':
+        if (!filter.includeRecurring && !filter.includeNonRecurring) {
+          warning('includeRecurring', 'Both recurring and single events are excluded, so no events match', 'EMPTY_SELECTION');
+        }
+        break;
+      case 'customProperty':
+        if (!filter.propertyName?.trim()) {
+          error('propertyName', 'Property name is required', 'REQUIRED_FIELD');
+        }
+        if ((filter.operator === 'greaterThan' || filter.operator === 'lessThan') && this.toComparable(filter.propertyValue) === undefined) {
+          error('propertyValue', 'Comparison value must be a number or a date', 'INVALID_VALUE');
+        }
+        break;
+      default:
+        errors.push({ filterId: (filter as IEventFilter).id, field: 'type', message: `Unknown filter type "${(filter as { type: string }).type}"`, code: 'UNKNOWN_FILTER_TYPE' });
+    }
+
+    return { isValid: errors.length === 0, errors, warnings };
+  }
+
+  /**
+   * Resolve a relative date preset to a range ending at the last millisecond of its final day
+   */
+  public static getPresetDateRange(preset: Exclude<DateRangePreset, 'custom'>, now: Date = new Date()): { start: Date; end: Date } {
+    const ranges: { [key in Exclude<DateRangePreset, 'custom'>]: [moment.Moment, moment.unitOfTime.StartOf] } = {
+      today: [moment(now), 'day'],
+      tomorrow: [moment(now).add(1, 'day'), 'day'],
+      thisWeek: [moment(now), 'week'],
+      nextWeek: [moment(now).add(1, 'week'), 'week'],
+      thisMonth: [moment(now), 'month'],
+      nextMonth: [moment(now).add(1, 'month'), 'month']
+    };
+    const [date, unit] = ranges[preset];
+
+    return {
+      start: date.clone().startOf(unit).toDate(),
+      end: date.clone().endOf(unit).toDate()
+    };
+  }
+
+  /**
+   * Build the test for one filter, doing per-filter work such as compiling
+   * patterns and resolving presets only once
+   */
+  private static createPredicate(filter: IEventFilter, now: Date): EventPredicate {
+    switch (filter.type) {
+      case 'dateRange':
+        return this.createDateRangePredicate(filter, now);
+      case 'calendar':
+        return this.createCalendarPredicate(filter);
+      case 'category':
+        return this.createCategoryPredicate(filter);
+      case 'textSearch':
+        return this.createTextSearchPredicate(filter);
+      case 'attendee':
+        return this.createAttendeePredicate(filter);
+      case 'timeRange':
+        return this.createTimeRangePredicate(filter);
+      case 'location':
+        return this.createLocationPredicate(filter);
+      case 'importance':
+        return event => (filter.importanceLevels as string[]).includes((event.importance || 'normal').toLowerCase());
+      case 'sensitivity':
+        return event => (filter.sensitivityLevels as string[]).includes((event.sensitivity || 'normal').toLowerCase());
+      case 'showAs':
+        return event => (filter.showAsTypes as string[]).includes(this.normalizeShowAs(event.showAs));
+      case 'duration':
+        return this.createDurationPredicate(filter);
+      case 'recurrence':
+        return this.createRecurrencePredicate(filter);
+      case 'customProperty':
+        return this.createCustomPropertyPredicate(filter);
+      default:
+        return () => true;
+    }
+  }
+
+  /**
+   * Events overlapping the range; an event with no duration must start inside it
+   */
+  private static createDateRangePredicate(filter: IDateRangeFilter, now: Date): EventPredicate {
+    const { start, end } = filter.preset && filter.preset !== 'custom'
+      ? this.getPresetDateRange(filter.preset, now)
+      : { start: new Date(filter.startDate), end: new Date(filter.endDate) };
+
+    return event => {
+      if (event.isAllDay && filter.includeAllDay === false) return false;
+      if (event.isRecurring && filter.includeRecurring === false) return false;
+      return event.end.getTime() > event.start.getTime()
+        ? event.start <= end && event.end > start
+        : event.start >= start && event.start <= end;
+    };
+  }
+
+  private static createCalendarPredicate(filter: ICalendarFilter): EventPredicate {
+    const included = new Set(filter.calendarIds);
+    const excluded = new Set(filter.excludeCalendarIds || []);
+
+    return event => !excluded.has(event.calendarId) && (filter.includeAllCalendars || included.has(event.calendarId));
+  }
+
+  /**
+   * Categories are compared without case against the event category and tags
+   */
+  private static createCategoryPredicate(filter: ICategoryFilter): EventPredicate {
+    const categories = filter.categories.map(category => category.toLowerCase());
+
+    return event => {
+      const values = [event.category, ...(event.tags || [])]
+        .filter((value): value is string => !!value)
+        .map(value => value.toLowerCase());
+
+      if (values.length === 0) return filter.includeUncategorized;
+      if (categories.length === 0) return true;
+      return values.some(value => categories.some(category => this.matchText(value, category, filter.matchType)));
+    };
+  }
+
+  private static createTextSearchPredicate(filter: ITextSearchFilter): EventPredicate {
+    const query = filter.caseSensitive ? filter.query : filter.query.toLowerCase();
+    const pattern = filter.matchType === 'regex' ? this.compilePattern(filter.query, filter.caseSensitive) : undefined;
+
+    return event => filter.searchFields.some(field => {
+      const values = field === 'attendees'
+        ? (event.attendees || []).map(attendee => `${attendee.name} ${attendee.email}`)
+        : [field === 'organizer' ? `${event.organizer} ${event.organizerEmail || ''}` : event[field] || ''];
+
+      return values.some(value => {
+        if (pattern) return pattern.test(value);
+        return this.matchText(filter.caseSensitive ? value : value.toLowerCase(), query, filter.matchType as 'contains' | 'exact' | 'startsWith');
+      });
+    });
+  }
+
+  /**
+   * Events with an attendee (or, when included, an organizer) matching one of the
+   * given names or addresses, restricted to the requested responses and roles
+   */
+  private static createAttendeePredicate(filter: IAttendeeFilter): EventPredicate {
+    const searchTerms = filter.attendees.map(attendee => attendee.trim().toLowerCase()).filter(attendee => attendee);
+    const matchesTerm = (name: string, email?: string): boolean =>
+      searchTerms.length === 0 || searchTerms.some(term => name.toLowerCase().includes(term) || (email || '').toLowerCase().includes(term));
+
+    return event => {
+      if (filter.includeOrganizer && searchTerms.length > 0 && matchesTerm(event.organizer, event.organizerEmail)) {
+        return true;
+      }
+
+      return (event.attendees || []).some(attendee =>
+        (!filter.responseStatus?.length || filter.responseStatus.includes(attendee.response)) &&
+        (!filter.attendeeType?.length || filter.attendeeType.includes(attendee.type)) &&
+        matchesTerm(attendee.name, attendee.email)
+      );
+    };
+  }
+
+  /**
+   * Events starting within the time window on one of the given days; all-day
+   * events have no start time and are only checked against the days
+   */
+  private static createTimeRangePredicate(filter: ITimeRangeFilter): EventPredicate {
+    const toMinutes = (time: string): number => {
+      const [hours, minutes] = time.split(':').map(Number);
+      return hours * 60 + minutes;
+    };
+    const windowStart = toMinutes(filter.startTime);
+    const windowEnd = toMinutes(filter.endTime);
+
+    return event => {
+      if (filter.daysOfWeek.length > 0 && filter.daysOfWeek.indexOf(event.start.getDay()) === -1) return false;
+      if (event.isAllDay) return filter.includeAllDay;
+
+      const startMinutes = event.start.getHours() * 60 + event.start.getMinutes();
+      return startMinutes >= windowStart && startMinutes < windowEnd;
+    };
+  }
+
+  private static createLocationPredicate(filter: ILocationFilter): EventPredicate {
+    const locations = filter.locations.map(location => location.trim().toLowerCase()).filter(location => location);
+
+    return event => {
+      const location = (event.location || '').trim().toLowerCase();
+      if (!location) return filter.includeEventsWithoutLocation;
+
+      const isOnline = this.ONLINE_LOCATION_PATTERN.test(location);
+      if (isOnline && filter.includeOnlineEvents) return true;
+      if (locations.length === 0) return !isOnline;
+      return locations.some(candidate => this.matchText(location, candidate, filter.matchType));
+    };
+  }
+
+  private static createDurationPredicate(filter: IDurationFilter): EventPredicate {
+    return event => {
+      if (event.isAllDay) return filter.includeAllDay;
+
+      const minutes = (event.end.getTime() - event.start.getTime()) / (60 * 1000);
+      return (filter.minDuration === undefined || minutes >= filter.minDuration) &&
+        (filter.maxDuration === undefined || minutes <= filter.maxDuration);
+    };
+  }
+
+  /**
+   * Weekday series count as daily; a recurring event without a known rule counts as custom
+   */
+  private static createRecurrencePredicate(filter: IRecurrenceFilter): EventPredicate {
+    return event => {
+      if (!event.isRecurring) return filter.includeNonRecurring;
+      if (!filter.includeRecurring) return false;
+      if (!filter.recurrenceTypes?.length) return true;
+
+      const type = event.recurrencePattern?.type;
+      const normalizedType = type === 'weekdays' ? 'daily' : type || 'custom';
+      return (filter.recurrenceTypes as string[]).includes(normalizedType);
+    };
+  }
+
+  /**
+   * Compare a property of the event; dotted names reach into nested objects
+   * such as customFields.Department
+   */
+  private static createCustomPropertyPredicate(filter: ICustomPropertyFilter): EventPredicate {
+    const path = filter.propertyName.split('.');
+    const expectedText = String(filter.propertyValue ?? '').toLowerCase();
+    const expectedValue = this.toComparable(filter.propertyValue);
+
+    return event => {
+      const value = path.reduce<unknown>(
+        (current, key) => current !== null && typeof current === 'object' ? (current as Record<string, unknown>)[key] : undefined,
+        event
+      );
+
+      if (filter.operator === 'exists') {
+        return value !== undefined && value !== null && value !== '';
+      }
+      if (value === undefined || value === null) {
+        return false;
+      }
+
+      const actualText = (value instanceof Date ? value.toISOString() : String(value)).toLowerCase();
+      switch (filter.operator) {
+        case 'equals': {
+          const actualValue = this.toComparable(value);
+          return actualValue !== undefined && expectedValue !== undefined && typeof value !== 'string'
+            ? actualValue === expectedValue
+            : actualText === expectedText;
+        }
+        case 'contains':
+          return actualText.includes(expectedText);
+        case 'startsWith':
+          return actualText.startsWith(expectedText);
+        case 'endsWith':
+          return actualText.endsWith(expectedText);
+        case 'greaterThan':
+        case 'lessThan': {
+          const actualValue = this.toComparable(value);
+          if (actualValue === undefined || expectedValue === undefined) return false;
+          return filter.operator === 'greaterThan' ? actualValue > expectedValue : actualValue < expectedValue;
+        }
+        default:
+          return false;
+      }
+    };
+  }
+
+  /**
+   * Numbers compare as numbers and dates as timestamps; other values cannot be ordered
+   */
+  private static toComparable(value: unknown): number | undefined {
+    if (typeof value === 'number') return isNaN(value) ? undefined : value;
+    if (value instanceof Date) return isNaN(value.getTime()) ? undefined : value.getTime();
+    if (typeof value === 'string' && value.trim()) {
+      const numeric = Number(value);
+      if (!isNaN(numeric)) return numeric;
+      const date = moment(value, moment.ISO_8601, true);
+      return date.isValid() ? date.valueOf() : undefined;
+    }
+    return undefined;
+  }
+
+  /**
+   * Compile a pattern typed by the user; undefined when it is not a valid or safe expression
+   */
+  private static compilePattern(pattern: string, caseSensitive: boolean): RegExp | undefined {
+    if (!this.isSafePattern(pattern)) {
+      return undefined;
+    }
+    try {
+      // The pattern is user input by design; isSafePattern bounds its length and rules out
+      // the nested repetition and backreferences that make matching take exponential time
+      // eslint-disable-next-line @rushstack/security/no-unsafe-regexp
+      return new RegExp(pattern, caseSensitive ? '' : 'i');
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * Whether a pattern is short and free of backreferences and of repeated groups
+   * that themselves contain repetition, such as (a+)+
+   */
+  private static isSafePattern(pattern: string): boolean {
+    if (pattern.length > this.MAX_PATTERN_LENGTH) return false;
+
+    // Whether each open group contains repetition
+    const groups: boolean[] = [];
+    let inClass = false;
+    let closedRepeatingGroup = false;
+
+    for (let index = 0; index < pattern.length; index++) {
+      const char = pattern[index];
+      const followsRepeatingGroup = closedRepeatingGroup;
+      closedRepeatingGroup = false;
+
+      if (char === '\\') {
+        const escaped = pattern[index + 1] || '';
+        if (!inClass && /[1-9k]/.test(escaped)) return false;
+        index++;
+      } else if (inClass) {
+        inClass = char !== ']';
+      } else if (char === '[') {
+        inClass = true;
+      } else if (char === '(') {
+        groups.push(false);
+      } else if (char === ')') {
+        closedRepeatingGroup = groups.pop() === true;
+        if (closedRepeatingGroup && groups.length > 0) groups[groups.length - 1] = true;
+      } else if ('*+{'.indexOf(char) >= 0 || (char === '?' && pattern[index - 1] !== '(')) {
+        if (followsRepeatingGroup && char !== '?') return false;
+        if (groups.length > 0) groups[groups.length - 1] = true;
+      }
+    }
+
+    return true;
+  }
+
+  private static matchText(value: string, query: string, matchType: 'exact' | 'contains' | 'startsWith'): boolean {
+    switch (matchType) {
+      case 'exact':
+        return value === query;
+      case 'startsWith':
+        return value.startsWith(query);
+      default:
+        return value.includes(query);
+    }
+  }
+
+  private static normalizeShowAs(showAs?: string): string {
+    const value = (showAs || 'busy').trim();
+    return this.SHOW_AS_ALIASES[value.toLowerCase()] || value.toLowerCase();
+  }
+
+  private static combine<T>(operator: 'AND' | 'OR', items: T[], test: (item: T) => boolean): boolean {
+    return operator === 'OR' ? items.some(test) : items.every(test);
+  }
+
+  private static isDateRangePreset(preset: string): preset is Exclude<DateRangePreset, 'custom'> {
+    return ['today', 'tomorrow', 'thisWeek', 'nextWeek', 'thisMonth', 'nextMonth'].indexOf(preset) !== -1;
+  }
+}
@@ -0,0 +1,142 @@
+import moment from 'moment';
+import 'moment-timezone';
+import { ImportUtils } from './ImportUtils';
+import { ICalendarSource, CalendarSourceType } from '../models/ICalendarModels';
+
+const source: ICalendarSource = {
+  id: 'imported',
+  title: 'Holidays',
+  description: '',
+  type: CalendarSourceType.ICS,
+  url: '',
+  siteTitle: '',
+  siteUrl: '',
+  color: '#107c10',
+  isEnabled: true
+};
+
+const toCalendar = (...lines: string[]): string => ['BEGIN:VCALENDAR', 'VERSION:2.0', ...lines, 'END:VCALENDAR'].join('\r\n');
+
+const parse = (content: string): ReturnType<typeof ImportUtils.parseICSContent> =>
+  ImportUtils.parseICSContent(content, source, new Date('2026-01-01T00:00:00Z'), new Date('2026-12-31T00:00:00Z'));
+
+describe('ImportUtils.parseICSContent', () => {
+  it('reads an event with a zone, folded lines and escaped text', () => {
+    const result = parse(toCalendar(
+      'BEGIN:VEVENT',
+      'UID:kickoff@example.com',
+      'DTSTART;TZID=America/New_York:20260302T090000',
+      'DTEND;TZID=America/New_York:20260302T100000',
+      'SUMMARY:Project kick',
+      ' off',
+      'LOCATION:Room 1\\, Building A',
+      'ORGANIZER;CN="Pat Lee":mailto:pat@example.com',
+      'END:VEVENT'
+    ));
+
+    expect(result.errorCount).toBe(0);
+    expect(result.successCount).toBe(1);
+    const [event] = result.importedEvents;
+    expect(event).toMatchObject({
+      id: 'ics_imported_kickoff@example.com',
+      title: 'Project kickoff',
+      location: 'Room 1, Building A',
+      organizer: 'Pat Lee',
+      organizerEmail: 'pat@example.com',
+      calendarId: 'imported',
+      calendarType: CalendarSourceType.ICS,
+      timeZone: 'America/New_York',
+      iCalUId: 'kickoff@example.com'
+    });
+    expect(event.start.toISOString()).toBe('2026-03-02T14:00:00.000Z');
+    expect(event.end.toISOString()).toBe('2026-03-02T15:00:00.000Z');
+  });
+
+  it('reads all-day events as floating dates', () => {
+    const result = parse(toCalendar(
+      'BEGIN:VEVENT',
+      'UID:holiday',
+      'DTSTART;VALUE=DATE:20260704',
+      'SUMMARY:Independence Day',
+      'END:VEVENT'
+    ));
+    const [event] = result.importedEvents;
+
+    expect(event.isAllDay).toBe(true);
+    expect(moment(event.start).format('YYYY-MM-DD HH:mm')).toBe('2026-07-04 00:00');
+    expect(moment(event.end).format('YYYY-MM-DD HH:mm')).toBe('2026-07-05 00:00');
+  });
+
+  it('expands a series in its zone, leaving out EXDATEs and replacing edited occurrences', () => {
+    const result = parse(toCalendar(
+      'BEGIN:VEVENT',
+      'UID:standup',
+      'DTSTART;TZID=America/New_York:20260302T090000',
+      'DTEND;TZID=America/New_York:20260302T091500',
+      'RRULE:FREQ=WEEKLY;BYDAY=MO;COUNT=4',
+      'EXDATE;TZID=America/New_York:20260316T090000',
+      'SUMMARY:Stand-up',
+      'END:VEVENT',
+      'BEGIN:VEVENT',
+      'UID:standup',
+      'RECURRENCE-ID;TZID=America/New_York:20260309T090000',
+      'DTSTART;TZID=America/New_York:20260310T140000',
+      'DTEND;TZID=America/New_York:20260310T141500',
+      'SUMMARY:Stand-up (moved)',
+      'END:VEVENT'
+    ));
+
+    // The 9th is the first Monday after the change to daylight saving time
+    expect(result.importedEvents.map(event => moment.tz(event.start, 'America/New_York').format('YYYY-MM-DD HH:mm'))).toEqual([
+      '2026-03-02 09:00',
+      '2026-03-10 14:00',
+      '2026-03-23 09:00'
+    ]);
+    expect(result.importedEvents[1]).toMatchObject({ title: 'Stand-up (moved)', isException: true, masterSeriesId: 'ics_imported_standup' });
+    expect(result.importedEvents[0].exceptions).toHaveLength(2);
+  });
+
+  it('skips cancelled events with a warning', () => {
+    const result = parse(toCalendar(
+      'BEGIN:VEVENT',
+      'UID:cancelled',
+      'DTSTART:20260302T090000Z',
+      'STATUS:CANCELLED',
+      'SUMMARY:Retro',
+      'END:VEVENT'
+    ));
+
+    expect(result.importedEvents).toHaveLength(0);
+    expect(result.warnings.map(warning => warning.message)).toContain('Cancelled event "Retro" was skipped');
+  });
+
+  it('reports problems with the line they are on', () => {
+    const result = parse(toCalendar(
+      'BEGIN:VEVENT',
+      'UID:broken',
+      'SUMMARY:No start',
+      'END:VEVENT',
+      'not a content line'
+    ));
+
+    expect(result.successCount).toBe(0);
+    expect(result.errors).toEqual(expect.arrayContaining([
+      expect.objectContaining({ line: 3, field: 'DTSTART' }),
+      expect.objectContaining({ line: 7 })
+    ]));
+  });
+
+  it('rejects content that is not an iCalendar file', () => {
+    const result = parse('Subject,Start Date\r\nLunch,2026-03-02');
+
+    expect(result.importedEvents).toHaveLength(0);
+    expect(result.errors.map(error => error.message)).toContain('No VCALENDAR component found; the file is not an iCalendar file');
+  });
+});
+
+describe('ImportUtils.getICSCalendarName', () => {
+  it('reads the declared name of the calendar', () => {
+    expect(ImportUtils.getICSCalendarName(toCalendar('X-WR-CALNAME:Public\\, holidays'))).toBe('Public, holidays');
+    expect(ImportUtils.getICSCalendarName(toCalendar())).toBeUndefined();
+  });
+});
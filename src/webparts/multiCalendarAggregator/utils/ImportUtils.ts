@@ -0,0 +1,1025 @@
+import moment from 'moment';
+import 'moment-timezone';
+import { ICalendarSource } from '../models/ICalendarModels';
+import {
+  IEventAttendee,
+  IEventImportError,
+  IEventImportResult,
+  IEventImportWarning,
+  IExtendedCalendarEvent,
+  IRecurrenceException,
+  IRecurrencePattern
+} from '../models/IEventModels';
+import { AppConstants } from '../constants/AppConstants';
+import { DateUtils } from './DateUtils';
+import { RecurrenceUtils } from './RecurrenceUtils';
+import { ValidationUtils } from './ValidationUtils';
+
+/**
+ * Unfolded content line, remembering the physical line it started on
+ */
+interface IICSProperty {
+  name: string;
+  params: { [name: string]: string };
+  value: string;
+  line: number;
+}
+
+/**
+ * Component such as VCALENDAR, VEVENT or VTIMEZONE
+ */
+interface IICSComponent {
+  name: string;
+  properties: IICSProperty[];
+  components: IICSComponent[];
+  line: number;
+}
+
+/**
+ * Converts between instants and wall-clock time in a zone. Wall-clock dates
+ * carry the zone's time in their local fields, as DateUtils.convertToUserTimezone does.
+ */
+interface IICSZone {
+  name?: string; // IANA name when the zone is known to moment-timezone
+  toWallClock: (date: Date) => Date;
+  fromWallClock: (wallClock: Date) => Date;
+}
+
+/**
+ * STANDARD or DAYLIGHT observance of a VTIMEZONE that is not a known zone
+ */
+interface IICSObservance {
+  start: Date; // Wall-clock onset
+  offsetFrom: number; // Minutes east of UTC
+  offsetTo: number;
+  pattern?: IRecurrencePattern;
+  dates: Date[]; // RDATE onsets
+}
+
+/**
+ * Date property resolved to an instant
+ */
+interface IICSDate {
+  date: Date;
+  isDate: boolean;
+  zone: IICSZone;
+}
+
+/**
+ * State shared while parsing one file
+ */
+interface IICSParseContext {
+  source: ICalendarSource;
+  zones: Map<string, IICSZone>;
+  floatingZone: IICSZone; // Zone for date-times without TZID or UTC marker
+  errors: IEventImportError[];
+  warnings: IEventImportWarning[];
+  rangeStart: Date;
+  rangeEnd: Date;
+}
+
+export class ImportUtils {
+  private static readonly ICS_DAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+  private static readonly ICS_UNSUPPORTED_RULE_PARTS = ['BYSECOND', 'BYMINUTE', 'BYHOUR', 'BYWEEKNO', 'BYYEARDAY'];
+  private static readonly ICS_RESPONSES: { [partstat: string]: IEventAttendee['response'] } = {
+    ACCEPTED: 'accepted',
+    DECLINED: 'declined',
+    TENTATIVE: 'tentative'
+  };
+
+  private static readonly LOCAL_ZONE: IICSZone = {
+    toWallClock: (date: Date): Date => new Date(date.getTime()),
+    fromWallClock: (wallClock: Date): Date => new Date(wallClock.getTime())
+  };
+
+  /**
+   * Parse an iCalendar file into events for a calendar source. Recurring
+   * series are expanded between rangeStart and rangeEnd; problems are reported
+   * with the line of the file they were found on.
+   */
+  public static parseICSContent(
+    content: string,
+    source: ICalendarSource,
+    rangeStart?: Date,
+    rangeEnd?: Date
+  ): IEventImportResult {
+    const errors: IEventImportError[] = [];
+    const warnings: IEventImportWarning[] = [];
+    const root = this.parseICSComponents(content, errors);
+    const calendars = root.components.filter(component => component.name === 'VCALENDAR');
+
+    if (calendars.length === 0) {
+      errors.push({ line: 1, message: 'No VCALENDAR component found; the file is not an iCalendar file' });
+      return { successCount: 0, errorCount: errors.length, warningCount: warnings.length, errors, warnings, importedEvents: [] };
+    }
+
+    const now = new Date();
+    const events: IExtendedCalendarEvent[] = [];
+    let successCount = 0;
+
+    for (const calendar of calendars) {
+      const context: IICSParseContext = {
+        source,
+        zones: new Map(),
+        floatingZone: this.LOCAL_ZONE,
+        errors,
+        warnings,
+        rangeStart: rangeStart || DateUtils.subtractTime(now, AppConstants.ICS_IMPORT.RECURRENCE_WINDOW_MONTHS, 'months'),
+        rangeEnd: rangeEnd || DateUtils.addTime(now, AppConstants.ICS_IMPORT.RECURRENCE_WINDOW_MONTHS, 'months')
+      };
+
+      calendar.components
+        .filter(component => component.name === 'VTIMEZONE')
+        .forEach(component => this.parseICSTimeZone(component, context));
+
+      // Floating times are read in the calendar's declared zone when it has one
+      const calendarZone = this.getICSProperty(calendar, 'X-WR-TIMEZONE');
+      if (calendarZone) {
+        context.floatingZone = this.getICSZone(calendarZone.value, calendarZone.line, context);
+      }
+
+      const masters: IICSComponent[] = [];
+      const overridesByUid = new Map<string, IICSComponent[]>();
+
+      calendar.components
+        .filter(component => component.name === 'VEVENT')
+        .forEach(component => {
+          const uid = this.getICSUid(component);
+          if (!this.getICSProperty(component, 'UID')) {
+            warnings.push({ line: component.line, field: 'UID', message: 'Event has no UID; one was generated from its line number' });
+          }
+
+          if (this.getICSProperty(component, 'RECURRENCE-ID')) {
+            overridesByUid.set(uid, [...(overridesByUid.get(uid) || []), component]);
+          } else {
+            masters.push(component);
+          }
+        });
+
+      for (const master of masters) {
+        const uid = this.getICSUid(master);
+        const imported = this.importICSEvent(master, overridesByUid.get(uid) || [], context);
+        overridesByUid.delete(uid);
+
+        if (imported) {
+          events.push(...imported);
+          successCount++;
+        }
+      }
+
+      // Edited occurrences whose series is not in the file are shown on their own
+      overridesByUid.forEach(overrides => overrides.forEach(override => {
+        const imported = this.importICSEvent(override, [], context);
+        if (imported) {
+          events.push(...imported);
+          successCount++;
+        }
+      }));
+    }
+
+    return {
+      successCount,
+      errorCount: errors.length,
+      warningCount: warnings.length,
+      errors,
+      warnings,
+      importedEvents: events.sort((a, b) => a.start.getTime() - b.start.getTime())
+    };
+  }
+
+  /**
+   * Read the display name a calendar file declares for itself
+   */
+  public static getICSCalendarName(content: string): string | undefined {
+    const unfolded = content.replace(/\r?\n[ \t]/g, '');
+    const match = /^X-WR-CALNAME(?:;[^:\r\n]*)?:(.*)$/m.exec(unfolded);
+    const name = match ? this.unescapeICSText(match[1].trim()) : '';
+    return name || undefined;
+  }
+
+  /**
+   * Unfold lines and build the component tree
+   */
+  private static parseICSComponents(content: string, errors: IEventImportError[]): IICSComponent {
+    const root: IICSComponent = { name: '', properties: [], components: [], line: 0 };
+    const stack: IICSComponent[] = [root];
+    const logicalLines: Array<{ text: string; line: number }> = [];
+
+    // Lines starting with a space or tab continue the previous line
+    content.replace(/^\uFEFF/, '').split(/\r\n|\n|\r/).forEach((text, index) => {
+      if ((text.startsWith(' ') || text.startsWith('\t')) && logicalLines.length > 0) {
+        logicalLines[logicalLines.length - 1].text += text.slice(1);
+      } else if (text.trim()) {
+        logicalLines.push({ text, line: index + 1 });
+      }
+    });
+
+    for (const { text, line } of logicalLines) {
+      const property = this.parseICSContentLine(text, line);
+      const current = stack[stack.length - 1];
+
+      if (!property) {
+        errors.push({ line, message: `Malformed line "${text.substring(0, 50)}" was ignored`, data: text });
+        continue;
+      }
+
+      if (property.name === 'BEGIN') {
+        const component: IICSComponent = { name: property.value.toUpperCase(), properties: [], components: [], line };
+        current.components.push(component);
+        stack.push(component);
+      } else if (property.name === 'END') {
+        const name = property.value.toUpperCase();
+        const openIndex = stack.map(component => component.name).lastIndexOf(name);
+
+        if (openIndex < 1) {
+          errors.push({ line, field: 'END', message: `END:${name} has no matching BEGIN` });
+          continue;
+        }
+        if (openIndex !== stack.length - 1) {
+          errors.push({ line, field: 'END', message: `BEGIN:${current.name} on line ${current.line} was closed by END:${name}` });
+        }
+        stack.length = openIndex;
+      } else if (stack.length > 1) {
+        current.properties.push(property);
+      } else {
+        errors.push({ line, field: property.name, message: `${property.name} appears outside of a component and was ignored` });
+      }
+    }
+
+    stack.slice(1).forEach(component => {
+      errors.push({ line: component.line, field: 'BEGIN', message: `BEGIN:${component.name} is never closed` });
+    });
+
+    return root;
+  }
+
+  /**
+   * Split a content line into name, parameters and value. Colons and
+   * semicolons inside quoted parameter values do not end the name.
+   */
+  private static parseICSContentLine(text: string, line: number): IICSProperty | undefined {
+    const segments: string[] = [];
+    let current = '';
+    let inQuotes = false;
+    let valueStart = -1;
+
+    for (let i = 0; i < text.length && valueStart < 0; i++) {
+      const char = text[i];
+      if (char === '"') {
+        inQuotes = !inQuotes;
+      } else if (!inQuotes && char === ':') {
+        valueStart = i + 1;
+        continue;
+      } else if (!inQuotes && char === ';') {
+        segments.push(current);
+        current = '';
+        continue;
+      }
+      current += char;
+    }
+
+    segments.push(current);
+    const [name, ...paramParts] = segments;
+    if (valueStart < 0 || !/^[A-Za-z0-9-]+$/.test(name)) {
+      return undefined;
+    }
+
+    const params: { [name: string]: string } = {};
+    paramParts.forEach(part => {
+      const separator = part.indexOf('=');
+      if (separator > 0) {
+        params[part.substring(0, separator).toUpperCase()] = part.substring(separator + 1).replace(/"/g, '');
+      }
+    });
+
+    return { name: name.toUpperCase(), params, value: text.substring(valueStart), line };
+  }
+
+  /**
+   * Import a VEVENT, expanding it when it is a recurring series. Returns
+   * undefined when the event could not be imported.
+   */
+  private static importICSEvent(
+    component: IICSComponent,
+    overrides: IICSComponent[],
+    context: IICSParseContext
+  ): IExtendedCalendarEvent[] | undefined {
+    const mapped = this.mapICSEvent(component, context);
+    if (!mapped) {
+      return undefined;
+    }
+
+    if (this.isICSCancelled(component)) {
+      context.warnings.push({ line: component.line, field: 'STATUS', message: `Cancelled event "${mapped.event.title}" was skipped` });
+      return undefined;
+    }
+
+    if (!this.getICSProperty(component, 'RRULE') && !this.getICSProperty(component, 'RDATE')) {
+      return [mapped.event];
+    }
+
+    return this.expandICSSeries(mapped.event, mapped.zone, component, overrides, context);
+  }
+
+  /**
+   * Expand a series on wall-clock dates in its zone, dropping EXDATE occurrences
+   * and replacing edited ones with their RECURRENCE-ID overrides
+   */
+  private static expandICSSeries(
+    master: IExtendedCalendarEvent,
+    zone: IICSZone,
+    component: IICSComponent,
+    overrides: IICSComponent[],
+    context: IICSParseContext
+  ): IExtendedCalendarEvent[] {
+    const getOccurrenceKey = (date: Date): string => moment(zone.toWallClock(date)).format('YYYY-MM-DD');
+    const exceptions: IRecurrenceException[] = [];
+    const excludedKeys = new Set<string>();
+    const overrideEvents = new Map<string, IExtendedCalendarEvent>();
+
+    this.getICSProperties(component, 'EXDATE').forEach(property => {
+      this.parseICSDateList(property, context).forEach(date => {
+        excludedKeys.add(getOccurrenceKey(date));
+        exceptions.push({ originalDate: date, isDeleted: true });
+      });
+    });
+
+    overrides.forEach(override => {
+      const recurrenceIdProperty = this.getICSProperty(override, 'RECURRENCE-ID') as IICSProperty;
+      const recurrenceId = this.parseICSDateProperty(recurrenceIdProperty, context);
+      const mapped = recurrenceId ? this.mapICSEvent(override, context) : undefined;
+      if (!recurrenceId || !mapped) {
+        return;
+      }
+
+      if (recurrenceIdProperty.params.RANGE) {
+        context.warnings.push({
+          line: recurrenceIdProperty.line,
+          field: 'RECURRENCE-ID',
+          message: 'RANGE=THISANDFUTURE is not supported; only the single occurrence was changed'
+        });
+      }
+
+      const key = getOccurrenceKey(recurrenceId.date);
+      const isDeleted = this.isICSCancelled(override);
+      exceptions.push({ originalDate: recurrenceId.date, isDeleted });
+
+      if (isDeleted) {
+        excludedKeys.add(key);
+      } else {
+        overrideEvents.set(key, {
+          ...mapped.event,
+          id: `${master.id}_recur_${moment(zone.toWallClock(recurrenceId.date)).format('YYYYMMDD')}`,
+          isRecurring: true,
+          masterSeriesId: master.id,
+          isException: true,
+          originalStart: recurrenceId.date
+        });
+      }
+    });
+
+    const ruleProperty = this.getICSProperty(component, 'RRULE');
+    const pattern = ruleProperty ? this.parseICSRecurrenceRule(ruleProperty, zone, context) : undefined;
+    const duration = master.end.getTime() - master.start.getTime();
+    const occurrences: Date[] = [];
+
+    if (pattern) {
+      // Include occurrences that started before the range but are still running
+      RecurrenceUtils.getOccurrenceDates(
+        zone.toWallClock(master.start),
+        pattern,
+        zone.toWallClock(new Date(context.rangeStart.getTime() - duration)),
+        zone.toWallClock(context.rangeEnd),
+        AppConstants.API_LIMITS.MAX_EVENTS_PER_REQUEST
+      ).forEach(occurrence => occurrences.push(zone.fromWallClock(occurrence)));
+    } else {
+      // DTSTART is always an occurrence, even when only RDATE adds more
+      occurrences.push(master.start);
+    }
+
+    this.getICSProperties(component, 'RDATE').forEach(property => {
+      this.parseICSDateList(property, context)
+        .filter(date => date <= context.rangeEnd && date.getTime() + duration >= context.rangeStart.getTime())
+        .forEach(date => occurrences.push(date));
+    });
+
+    const events: IExtendedCalendarEvent[] = [];
+    const seenKeys = new Set<string>();
+
+    occurrences.sort((a, b) => a.getTime() - b.getTime()).forEach(start => {
+      const key = getOccurrenceKey(start);
+      if (excludedKeys.has(key) || seenKeys.has(key)) {
+        return;
+      }
+      seenKeys.add(key);
+
+      const override = overrideEvents.get(key);
+      if (override) {
+        events.push({ ...override, recurrencePattern: pattern, seriesStart: master.start, exceptions });
+        overrideEvents.delete(key);
+        return;
+      }
+
+      events.push({
+        ...master,
+        id: `${master.id}_recur_${moment(zone.toWallClock(start)).format('YYYYMMDD')}`,
+        start,
+        end: new Date(start.getTime() + duration),
+        isRecurring: true,
+        masterSeriesId: master.id,
+        isException: false,
+        originalStart: start,
+        recurrencePattern: pattern,
+        seriesStart: master.start,
+        exceptions
+      });
+    });
+
+    // Occurrences moved into the range from outside it
+    overrideEvents.forEach(override => events.push({ ...override, recurrencePattern: pattern, seriesStart: master.start, exceptions }));
+
+    return events;
+  }
+
+  /**
+   * Map a VEVENT's properties to an event. Returns undefined, after reporting
+   * an error, when the event has no usable start.
+   */
+  private static mapICSEvent(
+    component: IICSComponent,
+    context: IICSParseContext
+  ): { event: IExtendedCalendarEvent; zone: IICSZone } | undefined {
+    const title = this.getICSText(component, 'SUMMARY') || 'Untitled Event';
+    const startProperty = this.getICSProperty(component, 'DTSTART');
+
+    if (!startProperty) {
+      context.errors.push({ line: component.line, field: 'DTSTART', message: `Event "${title}" has no DTSTART and was skipped` });
+      return undefined;
+    }
+
+    const start = this.parseICSDateProperty(startProperty, context);
+    if (!start) {
+      return undefined;
+    }
+
+    const end = this.getICSEventEnd(component, start, context);
+    if (!end) {
+      return undefined;
+    }
+
+    const organizer = this.getICSProperty(component, 'ORGANIZER');
+    const categories = this.getICSProperties(component, 'CATEGORIES')
+      .reduce((all: string[], property) => all.concat(this.splitICSList(property.value)), [])
+      .filter(Boolean);
+    const created = this.getICSTimestamp(component, 'CREATED', context) || this.getICSTimestamp(component, 'DTSTAMP', context) || new Date();
+    const url = this.getICSProperty(component, 'URL')?.value || '';
+
+    const event: IExtendedCalendarEvent = {
+      id: `ics_${context.source.id}_${this.getICSUid(component)}`,
+      title,
+      description: this.getICSText(component, 'DESCRIPTION') || '',
+      start: start.date,
+      end,
+      location: this.getICSText(component, 'LOCATION') || '',
+      category: categories[0] || '',
+      isAllDay: start.isDate,
+      isRecurring: !!(this.getICSProperty(component, 'RRULE') || this.getICSProperty(component, 'RDATE') || this.getICSProperty(component, 'RECURRENCE-ID')),
+      calendarId: context.source.id,
+      calendarTitle: context.source.title,
+      calendarType: context.source.type,
+      organizer: organizer?.params.CN || this.getICSAddress(organizer?.value) || 'Unknown',
+      organizerEmail: this.getICSAddress(organizer?.value),
+      created,
+      modified: this.getICSTimestamp(component, 'LAST-MODIFIED', context) || created,
+      webUrl: ValidationUtils.isValidUrl(url) ? url : '',
+      color: context.source.color,
+      importance: this.getICSImportance(component),
+      sensitivity: this.getICSSensitivity(component),
+      showAs: this.getICSProperty(component, 'TRANSP')?.value.toUpperCase() === 'TRANSPARENT' ? 'free' : 'busy',
+      attendees: this.getICSAttendees(component, context),
+      tags: categories,
+      timeZone: start.isDate ? undefined : start.zone.name,
+      reminderMinutes: this.getICSReminders(component, start.date, context),
+      iCalUId: this.getICSProperty(component, 'UID')?.value.trim() || undefined
+    };
+
+    return { event, zone: start.zone };
+  }
+
+  /**
+   * Resolve DTEND or DURATION. Events with neither last one day when all-day,
+   * otherwise they end when they start.
+   */
+  private static getICSEventEnd(component: IICSComponent, start: IICSDate, context: IICSParseContext): Date | undefined {
+    const endProperty = this.getICSProperty(component, 'DTEND');
+    const durationProperty = this.getICSProperty(component, 'DURATION');
+    let end: Date;
+
+    if (endProperty) {
+      const parsed = this.parseICSDateProperty(endProperty, context);
+      if (!parsed) {
+        return undefined;
+      }
+      end = parsed.date;
+    } else if (durationProperty) {
+      const duration = this.parseICSDuration(durationProperty.value);
+      if (!duration) {
+        context.errors.push({ line: durationProperty.line, field: 'DURATION', message: `Invalid duration "${durationProperty.value}"`, data: durationProperty.value });
+        return undefined;
+      }
+      end = moment(start.date).add(duration).toDate();
+    } else {
+      end = start.isDate ? moment(start.date).add(1, 'day').toDate() : start.date;
+    }
+
+    if (end < start.date) {
+      context.warnings.push({ line: (endProperty || durationProperty)?.line, field: 'DTEND', message: 'Event ends before it starts; its end was set to its start' });
+      return start.date;
+    }
+
+    return end;
+  }
+
+  /**
+   * Convert an RRULE to a recurrence pattern. Parts the pattern cannot express
+   * are reported and ignored; unsupported frequencies return undefined.
+   */
+  private static parseICSRecurrenceRule(property: IICSProperty, zone: IICSZone, context: IICSParseContext): IRecurrencePattern | undefined {
+    const parts: { [name: string]: string } = {};
+    property.value.split(';').forEach(part => {
+      const [name, value] = part.split('=');
+      if (name && value) {
+        parts[name.toUpperCase()] = value.toUpperCase();
+      }
+    });
+
+    const warn = (message: string): void => {
+      context.warnings.push({ line: property.line, field: 'RRULE', message, data: property.value });
+    };
+
+    const byDay = (parts.BYDAY ? parts.BYDAY.split(',') : [])
+      .map(value => /^([+-]?\d{1,2})?(SU|MO|TU|WE|TH|FR|SA)$/.exec(value))
+      .filter((match): match is RegExpExecArray => !!match)
+      .map(match => ({ ordinal: match[1] ? parseInt(match[1], 10) : undefined, day: this.ICS_DAYS.indexOf(match[2]) }));
+    const days = Array.from(new Set(byDay.map(entry => entry.day))).sort((a, b) => a - b);
+    const pattern: IRecurrencePattern = { type: 'daily', interval: Math.max(1, parseInt(parts.INTERVAL, 10) || 1) };
+
+    switch (parts.FREQ) {
+      case 'DAILY': {
+        if (days.length === 5 && days.every(day => day >= 1 && day <= 5) && pattern.interval === 1) {
+          pattern.type = 'weekdays';
+        } else if (days.length > 0) {
+          if (pattern.interval > 1) {
+            warn('Daily rules limited to certain days are only supported without INTERVAL; occurrences may differ');
+          }
+          pattern.type = 'weekly';
+          pattern.interval = 1;
+          pattern.daysOfWeek = days;
+        }
+        break;
+      }
+      case 'WEEKLY': {
+        pattern.type = 'weekly';
+        if (days.length > 0) {
+          pattern.daysOfWeek = days;
+        }
+        break;
+      }
+      case 'MONTHLY':
+      case 'YEARLY': {
+        pattern.type = parts.FREQ === 'MONTHLY' ? 'monthly' : 'yearly';
+        if (parts.BYMONTH) {
+          const months = parts.BYMONTH.split(',');
+          if (months.length > 1) {
+            warn('Only the first BYMONTH value is supported');
+          }
+          pattern.monthOfYear = parseInt(months[0], 10) || undefined;
+        }
+        this.applyICSMonthDayRule(pattern, parts, byDay, warn);
+        break;
+      }
+      default: {
+        warn(`FREQ=${parts.FREQ || '(missing)'} is not supported; only the first occurrence was imported`);
+        return undefined;
+      }
+    }
+
+    this.ICS_UNSUPPORTED_RULE_PARTS
+      .filter(part => parts[part])
+      .forEach(part => warn(`${part} is not supported and was ignored`));
+
+    if (parts.WKST && this.ICS_DAYS.includes(parts.WKST)) {
+      pattern.firstDayOfWeek = this.ICS_DAYS.indexOf(parts.WKST);
+    }
+    if (parts.COUNT) {
+      pattern.occurrences = parseInt(parts.COUNT, 10) || undefined;
+    }
+    if (parts.UNTIL) {
+      const until = this.parseICSDateValue(parts.UNTIL);
+      if (!until) {
+        warn(`Invalid UNTIL value "${parts.UNTIL}" was ignored`);
+      } else {
+        pattern.endDate = until.isUtc ? zone.toWallClock(this.getUtcFromWallClock(until.wallClock)) : until.wallClock;
+      }
+    }
+
+    return pattern;
+  }
+
+  /**
+   * Apply BYDAY, BYSETPOS and BYMONTHDAY of a monthly or yearly rule
+   */
+  private static applyICSMonthDayRule(
+    pattern: IRecurrencePattern,
+    parts: { [name: string]: string },
+    byDay: Array<{ ordinal?: number; day: number }>,
+    warn: (message: string) => void
+  ): void {
+    const setPositions = parts.BYSETPOS ? parts.BYSETPOS.split(',').map(value => parseInt(value, 10)) : [];
+
+    if (byDay.length > 0) {
+      const ordinals = Array.from(new Set(byDay.map(entry => entry.ordinal || setPositions[0])));
+      const ordinal = ordinals[0];
+
+      if (ordinals.length > 1 || setPositions.length > 1) {
+        warn('Only one week of the month per rule is supported; the first was used');
+      }
+      if (!ordinal) {
+        warn('Rules repeating on every matching weekday of the month are not supported; the start date\'s day of the month was used');
+        return;
+      }
+      if (ordinal < -1 || ordinal > 5) {
+        warn(`Week of month ${ordinal} is not supported; the last week was used`);
+      }
+
+      pattern.daysOfWeek = Array.from(new Set(byDay.map(entry => entry.day)));
+      pattern.weekOfMonth = ordinal < -1 || ordinal > 5 ? -1 : ordinal;
+      return;
+    }
+
+    if (parts.BYMONTHDAY) {
+      const monthDays = parts.BYMONTHDAY.split(',').map(value => parseInt(value, 10)).filter(value => !isNaN(value));
+
+      // The "last day of the month" forms: BYMONTHDAY=-1, or the 28..31 set picked with BYSETPOS=-1
+      if ((monthDays.length === 1 && monthDays[0] === -1) || (setPositions[0] === -1 && monthDays.every(day => day > 0))) {
+        pattern.dayOfMonth = Math.max(...monthDays.map(day => day === -1 ? 31 : day));
+        return;
+      }
+
+      const positiveDays = monthDays.filter(day => day > 0);
+      if (monthDays.length > 1 || positiveDays.length === 0) {
+        warn('Only one day of the month per rule is supported; the first was used');
+      }
+      pattern.dayOfMonth = positiveDays[0];
+    }
+  }
+
+  /**
+   * Register a VTIMEZONE. Zones named after a known IANA or Windows zone use its
+   * rules; others are computed from their STANDARD and DAYLIGHT observances.
+   */
+  private static parseICSTimeZone(component: IICSComponent, context: IICSParseContext): void {
+    const tzid = this.getICSProperty(component, 'TZID');
+    if (!tzid) {
+      context.warnings.push({ line: component.line, field: 'TZID', message: 'VTIMEZONE has no TZID and was ignored' });
+      return;
+    }
+
+    const knownZone = this.resolveICSZoneName(tzid.value) ||
+      this.resolveICSZoneName(this.getICSProperty(component, 'X-LIC-LOCATION')?.value);
+    if (knownZone) {
+      context.zones.set(tzid.value, this.createNamedZone(knownZone));
+      return;
+    }
+
+    const observances: IICSObservance[] = [];
+    component.components
+      .filter(observance => observance.name === 'STANDARD' || observance.name === 'DAYLIGHT')
+      .forEach(observance => {
+        const start = this.parseICSDateValue(this.getICSProperty(observance, 'DTSTART')?.value || '');
+        const offsetFrom = this.parseICSOffset(this.getICSProperty(observance, 'TZOFFSETFROM')?.value);
+        const offsetTo = this.parseICSOffset(this.getICSProperty(observance, 'TZOFFSETTO')?.value);
+
+        if (!start || offsetFrom === undefined || offsetTo === undefined) {
+          context.warnings.push({
+            line: observance.line,
+            field: observance.name,
+            message: `${observance.name} observance of "${tzid.value}" is missing DTSTART, TZOFFSETFROM or TZOFFSETTO and was ignored`
+          });
+          return;
+        }
+
+        const rule = this.getICSProperty(observance, 'RRULE');
+        observances.push({
+          start: start.wallClock,
+          offsetFrom,
+          offsetTo,
+          pattern: rule ? this.parseICSRecurrenceRule(rule, this.LOCAL_ZONE, context) : undefined,
+          dates: this.getICSProperties(observance, 'RDATE')
+            .reduce((all: Date[], property) => all.concat(property.value.split(',')
+              .map(value => this.parseICSDateValue(value)?.wallClock)
+              .filter((date): date is Date => !!date)), [])
+        });
+      });
+
+    if (observances.length === 0) {
+      context.warnings.push({ line: component.line, field: 'VTIMEZONE', message: `Time zone "${tzid.value}" has no usable observances; its times are read as UTC` });
+      context.zones.set(tzid.value, this.createNamedZone('UTC'));
+      return;
+    }
+
+    context.zones.set(tzid.value, this.createObservanceZone(observances));
+  }
+
+  /**
+   * Find the zone for a TZID, reporting unknown zones once
+   */
+  private static getICSZone(tzid: string, line: number, context: IICSParseContext): IICSZone {
+    let zone = context.zones.get(tzid);
+    if (!zone) {
+      const knownZone = this.resolveICSZoneName(tzid);
+      if (!knownZone) {
+        context.warnings.push({ line, field: 'TZID', message: `Unknown time zone "${tzid}"; its times are read as UTC`, data: tzid });
+      }
+      zone = this.createNamedZone(knownZone || 'UTC');
+      context.zones.set(tzid, zone);
+    }
+    return zone;
+  }
+
+  /**
+   * Resolve a TZID to an IANA zone. Some producers prefix the IANA name with a
+   * path such as "/example.com/20240101_1/Europe/Berlin".
+   */
+  private static resolveICSZoneName(tzid?: string): string | undefined {
+    if (!tzid) return undefined;
+
+    const segments = tzid.replace(/^\//, '').split('/');
+    for (let i = 0; i < segments.length; i++) {
+      const zone = DateUtils.resolveTimeZone(segments.slice(i).join('/'));
+      if (zone) return zone;
+    }
+    return undefined;
+  }
+
+  private static createNamedZone(timeZone: string): IICSZone {
+    return {
+      name: timeZone,
+      toWallClock: (date: Date): Date => DateUtils.convertToUserTimezone(date, timeZone),
+      fromWallClock: (wallClock: Date): Date => DateUtils.convertFromUserTimezone(wallClock, timeZone)
+    };
+  }
+
+  /**
+   * Zone computed from VTIMEZONE observances. The offset at an instant is the
+   * TZOFFSETTO of the latest onset before it; onsets are computed per year.
+   */
+  private static createObservanceZone(observances: IICSObservance[]): IICSZone {
+    const onsetsByYear = new Map<number, Array<{ onset: number; offset: number }>>();
+    const earliest = observances.reduce((first, observance) => observance.start < first.start ? observance : first);
+
+    const getOnsets = (year: number): Array<{ onset: number; offset: number }> => {
+      let onsets = onsetsByYear.get(year);
+      if (!onsets) {
+        onsets = [];
+        for (const observance of observances) {
+          const starts = observance.pattern
+            ? RecurrenceUtils.getOccurrenceDates(observance.start, observance.pattern, new Date(year - 1, 0, 1), new Date(year, 11, 31, 23, 59, 59), 1000)
+            : [observance.start];
+          starts.concat(observance.dates).forEach(start => onsets!.push({
+            onset: this.getWallClockTime(start) - observance.offsetFrom * 60000,
+            offset: observance.offsetTo
+          }));
+        }
+        onsetsByYear.set(year, onsets);
+      }
+      return onsets;
+    };
+
+    const getOffset = (instant: number): number => {
+      const latest = getOnsets(new Date(instant).getUTCFullYear())
+        .filter(onset => onset.onset <= instant)
+        .reduce((found: { onset: number; offset: number } | undefined, onset) => !found || onset.onset > found.onset ? onset : found, undefined);
+      return latest ? latest.offset : earliest.offsetFrom;
+    };
+
+    return {
+      toWallClock: (date: Date): Date => this.getWallClockFromUtc(new Date(date.getTime() + getOffset(date.getTime()) * 60000)),
+      fromWallClock: (wallClock: Date): Date => {
+        const local = this.getWallClockTime(wallClock);
+        const offset = getOffset(local - getOffset(local - earliest.offsetTo * 60000) * 60000);
+        return new Date(local - offset * 60000);
+      }
+    };
+  }
+
+  /**
+   * Parse a date property to an instant in its TZID, UTC or the floating zone
+   */
+  private static parseICSDateProperty(property: IICSProperty, context: IICSParseContext): IICSDate | undefined {
+    const value = this.parseICSDateValue(property.value);
+    if (!value) {
+      context.errors.push({ line: property.line, field: property.name, message: `Invalid date "${property.value}"`, data: property.value });
+      return undefined;
+    }
+
+    const zone = value.isDate
+      ? this.LOCAL_ZONE
+      : value.isUtc
+        ? this.createNamedZone('UTC')
+        : property.params.TZID
+          ? this.getICSZone(property.params.TZID, property.line, context)
+          : context.floatingZone;
+
+    return { date: zone.fromWallClock(value.wallClock), isDate: value.isDate, zone };
+  }
+
+  /**
+   * Parse the comma-separated values of an EXDATE or RDATE
+   */
+  private static parseICSDateList(property: IICSProperty, context: IICSParseContext): Date[] {
+    if (property.params.VALUE === 'PERIOD') {
+      context.warnings.push({ line: property.line, field: property.name, message: `${property.name} periods are not supported and were ignored` });
+      return [];
+    }
+
+    return property.value.split(',')
+      .map(value => this.parseICSDateProperty({ ...property, value: value.trim() }, context)?.date)
+      .filter((date): date is Date => !!date);
+  }
+
+  /**
+   * Parse a DATE (YYYYMMDD) or DATE-TIME (YYYYMMDDTHHMMSS[Z]) value into its wall-clock fields
+   */
+  private static parseICSDateValue(value: string): { wallClock: Date; isDate: boolean; isUtc: boolean } | undefined {
+    const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/i.exec(value.trim());
+    if (!match) return undefined;
+
+    const [year, month, day, hour, minute, second] = match.slice(1, 7).map(part => parseInt(part || '0', 10));
+    const wallClock = new Date(year, month - 1, day, hour, minute, Math.min(second, 59));
+    if (wallClock.getMonth() !== month - 1 || wallClock.getDate() !== day || hour > 23 || minute > 59) {
+      return undefined;
+    }
+
+    return { wallClock, isDate: !match[4], isUtc: !!match[7] };
+  }
+
+  /**
+   * Parse a UTC offset such as +0100, -0500 or +053000 to minutes east of UTC
+   */
+  private static parseICSOffset(value?: string): number | undefined {
+    const match = value ? /^([+-])(\d{2})(\d{2})(\d{2})?$/.exec(value.trim()) : null;
+    if (!match) return undefined;
+
+    const minutes = parseInt(match[2], 10) * 60 + parseInt(match[3], 10) + parseInt(match[4] || '0', 10) / 60;
+    return match[1] === '-' ? -minutes : minutes;
+  }
+
+  /**
+   * Parse an RFC 5545 duration such as PT1H30M, P1D or -PT15M
+   */
+  private static parseICSDuration(value: string): moment.Duration | undefined {
+    const trimmed = value.trim().toUpperCase();
+    if (!/^[+-]?P(\d+W|(\d+D)?(T(?=\d)(\d+H)?(\d+M)?(\d+S)?)?)$/.test(trimmed) || /^[+-]?PT?$/.test(trimmed)) {
+      return undefined;
+    }
+    return moment.duration(trimmed.replace(/^\+/, ''));
+  }
+
+  /**
+   * Reminder lead times from VALARM triggers that fire before the event starts
+   */
+  private static getICSReminders(component: IICSComponent, start: Date, context: IICSParseContext): number[] | undefined {
+    const reminders = component.components
+      .filter(alarm => alarm.name === 'VALARM')
+      .map(alarm => {
+        const trigger = this.getICSProperty(alarm, 'TRIGGER');
+        if (!trigger) return undefined;
+
+        if (trigger.params.VALUE === 'DATE-TIME') {
+          const at = this.parseICSDateProperty(trigger, context);
+          return at ? Math.round((start.getTime() - at.date.getTime()) / 60000) : undefined;
+        }
+
+        const duration = this.parseICSDuration(trigger.value);
+        if (!duration) {
+          context.warnings.push({ line: trigger.line, field: 'TRIGGER', message: `Invalid alarm trigger "${trigger.value}" was ignored` });
+          return undefined;
+        }
+        return trigger.params.RELATED === 'END' ? undefined : Math.round(-duration.asMinutes());
+      })
+      .filter((minutes): minutes is number => minutes !== undefined && minutes >= 0);
+
+    return reminders.length > 0 ? reminders : undefined;
+  }
+
+  /**
+   * Attendees with a valid address; others are reported and left out
+   */
+  private static getICSAttendees(component: IICSComponent, context: IICSParseContext): IEventAttendee[] {
+    return this.getICSProperties(component, 'ATTENDEE')
+      .map(property => {
+        const email = this.getICSAddress(property.value);
+        if (!email || !ValidationUtils.isValidEmail(email)) {
+          context.warnings.push({ line: property.line, field: 'ATTENDEE', message: `Attendee "${property.params.CN || property.value}" has no valid email address and was ignored` });
+          return undefined;
+        }
+
+        const userType = (property.params.CUTYPE || '').toUpperCase();
+        const attendee: IEventAttendee = {
+          name: property.params.CN || email,
+          email,
+          response: this.ICS_RESPONSES[(property.params.PARTSTAT || '').toUpperCase()] || 'none',
+          type: userType === 'ROOM' || userType === 'RESOURCE'
+            ? 'resource'
+            : (property.params.ROLE || '').toUpperCase() === 'OPT-PARTICIPANT' ? 'optional' : 'required'
+        };
+        return attendee;
+      })
+      .filter((attendee): attendee is IEventAttendee => !!attendee);
+  }
+
+  /**
+   * PRIORITY 1-4 is high, 5 normal and 6-9 low
+   */
+  private static getICSImportance(component: IICSComponent): string {
+    const priority = parseInt(this.getICSProperty(component, 'PRIORITY')?.value || '0', 10);
+    if (priority >= 1 && priority <= 4) return 'high';
+    if (priority >= 6 && priority <= 9) return 'low';
+    return 'normal';
+  }
+
+  private static getICSSensitivity(component: IICSComponent): string {
+    switch ((this.getICSProperty(component, 'CLASS')?.value || '').toUpperCase()) {
+      case 'PRIVATE':
+        return 'private';
+      case 'CONFIDENTIAL':
+        return 'confidential';
+      default:
+        return 'normal';
+    }
+  }
+
+  private static getICSTimestamp(component: IICSComponent, name: string, context: IICSParseContext): Date | undefined {
+    const property = this.getICSProperty(component, name);
+    return property ? this.parseICSDateProperty(property, context)?.date : undefined;
+  }
+
+  private static isICSCancelled(component: IICSComponent): boolean {
+    return (this.getICSProperty(component, 'STATUS')?.value || '').toUpperCase() === 'CANCELLED';
+  }
+
+  private static getICSUid(component: IICSComponent): string {
+    return this.getICSProperty(component, 'UID')?.value.trim() || `line-${component.line}`;
+  }
+
+  private static getICSAddress(value?: string): string | undefined {
+    const address = value ? value.replace(/^mailto:/i, '').trim() : '';
+    return address || undefined;
+  }
+
+  private static getICSProperty(component: IICSComponent, name: string): IICSProperty | undefined {
+    return component.properties.find(property => property.name === name);
+  }
+
+  private static getICSProperties(component: IICSComponent, name: string): IICSProperty[] {
+    return component.properties.filter(property => property.name === name);
+  }
+
+  private static getICSText(component: IICSComponent, name: string): string | undefined {
+    const property = this.getICSProperty(component, name);
+    return property ? this.unescapeICSText(property.value) : undefined;
+  }
+
+  /**
+   * Split a TEXT list on commas that are not escaped
+   */
+  private static splitICSList(value: string): string[] {
+    return value.split(/(?<!\\),/).map(item => this.unescapeICSText(item.trim()));
+  }
+
+  private static unescapeICSText(text: string): string {
+    return text.replace(/\\([\\;,nN])/g, (_, char: string) => char === 'n' || char === 'N' ? '\n' : char);
+  }
+
+  /**
+   * Milliseconds since the epoch if a date's local fields were UTC
+   */
+  private static getWallClockTime(wallClock: Date): number {
+    return Date.UTC(
+      wallClock.getFullYear(), wallClock.getMonth(), wallClock.getDate(),
+      wallClock.getHours(), wallClock.getMinutes(), wallClock.getSeconds(), wallClock.getMilliseconds()
+    );
+  }
+
+  private static getUtcFromWallClock(wallClock: Date): Date {
+    return new Date(this.getWallClockTime(wallClock));
+  }
+
+  private static getWallClockFromUtc(date: Date): Date {
+    return new Date(
+      date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate(),
+      date.getUTCHours(), date.getUTCMinutes(), date.getUTCSeconds(), date.getUTCMilliseconds()
+    );
+  }
+}
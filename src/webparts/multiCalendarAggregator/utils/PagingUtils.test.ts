@@ -0,0 +1,134 @@
+jest.mock('@microsoft/sp-http', () => ({ SPHttpClient: { configurations: { v1: {} } } }));
+
+import { SPHttpClient } from '@microsoft/sp-http';
+import { PagingUtils, IPage, PageFetcher } from './PagingUtils';
+
+// Pages of numbered items, each linking to the next
+const createFetcher = (pages: number[][]): PageFetcher<number> & jest.Mock => jest.fn(async (nextLink?: string): Promise<IPage<number>> => {
+  const index = nextLink ? Number(nextLink) : 0;
+  return { items: pages[index], nextLink: index + 1 < pages.length ? String(index + 1) : undefined };
+});
+
+describe('PagingUtils.collectPages', () => {
+  it('follows continuation links until the last page', async () => {
+    const fetchPage = createFetcher([[1, 2], [3, 4], [5]]);
+    const result = await PagingUtils.collectPages(fetchPage, { maxItems: 100 });
+
+    expect(result).toEqual({ items: [1, 2, 3, 4, 5], truncated: false, pageCount: 3 });
+    expect(fetchPage.mock.calls.map(call => call[0])).toEqual([undefined, '1', '2']);
+  });
+
+  it('stops at the item limit and reports the rest as truncated', async () => {
+    const fetchPage = createFetcher([[1, 2], [3, 4], [5]]);
+    const result = await PagingUtils.collectPages(fetchPage, { maxItems: 3 });
+
+    expect(result).toEqual({ items: [1, 2, 3], truncated: true, pageCount: 2 });
+    expect(fetchPage).toHaveBeenCalledTimes(2);
+  });
+
+  it('is not truncated when the limit is met exactly by the last page', async () => {
+    const result = await PagingUtils.collectPages(createFetcher([[1, 2], [3, 4]]), { maxItems: 4 });
+
+    expect(result.truncated).toBe(false);
+  });
+
+  it('stops at the page limit', async () => {
+    const result = await PagingUtils.collectPages(createFetcher([[1], [2], [3]]), { maxItems: 100, maxPages: 2 });
+
+    expect(result).toEqual({ items: [1, 2], truncated: true, pageCount: 2 });
+  });
+
+  it('reports everything loaded so far after each page', async () => {
+    const progress: number[][] = [];
+    await PagingUtils.collectPages<number>(createFetcher([[1, 2], [3]]), { maxItems: 100, onPage: itemsSoFar => { progress.push([...itemsSoFar]); } });
+
+    expect(progress).toEqual([[1, 2], [1, 2, 3]]);
+  });
+
+  it('requests each page with a signal that follows the caller', async () => {
+    const controller = new AbortController();
+    const pageSignals: (AbortSignal | undefined)[] = [];
+    const result = PagingUtils.collectPages<number>((_nextLink?: string, signal?: AbortSignal) => {
+      pageSignals.push(signal);
+      return new Promise<IPage<number>>((_resolve, reject) => signal?.addEventListener('abort', () => reject(new Error('Aborted'))));
+    }, { maxItems: 100, signal: controller.signal });
+
+    controller.abort();
+
+    await expect(result).rejects.toThrow('Aborted');
+    expect(pageSignals[0]).not.toBe(controller.signal);
+    expect(pageSignals[0]?.aborted).toBe(true);
+  });
+});
+
+describe('PagingUtils.withTimeout', () => {
+  beforeEach(() => jest.useFakeTimers());
+  afterEach(() => jest.useRealTimers());
+
+  it('aborts a request that takes longer than the limit', async () => {
+    let requestSignal: AbortSignal | undefined;
+    const result = PagingUtils.withTimeout(signal => {
+      requestSignal = signal;
+      return new Promise<never>(() => undefined);
+    }, undefined, 1000);
+
+    jest.advanceTimersByTime(1000);
+
+    await expect(result).rejects.toThrow('timed out');
+    expect(requestSignal?.aborted).toBe(true);
+  });
+
+  it('aborts the request when the caller cancels it', async () => {
+    const controller = new AbortController();
+    let requestSignal: AbortSignal | undefined;
+    const result = PagingUtils.withTimeout(signal => {
+      requestSignal = signal;
+      return new Promise<string>((_resolve, reject) => signal.addEventListener('abort', () => reject(new Error('Aborted'))));
+    }, controller.signal, 1000);
+
+    controller.abort();
+
+    await expect(result).rejects.toThrow('Aborted');
+    expect(requestSignal?.aborted).toBe(true);
+  });
+});
+
+describe('PagingUtils.toSharePointPage', () => {
+  it('reads verbose and nometadata responses', () => {
+    expect(PagingUtils.toSharePointPage({ d: { results: [1], __next: 'next' } })).toEqual({ items: [1], nextLink: 'next' });
+    expect(PagingUtils.toSharePointPage({ value: [2], 'odata.nextLink': 'more' })).toEqual({ items: [2], nextLink: 'more' });
+    expect(PagingUtils.toSharePointPage({ value: [3] })).toEqual({ items: [3], nextLink: undefined });
+  });
+});
+
+describe('PagingUtils.sharePointPageFetcher', () => {
+  it('requests the first page and then the link of the next one', async () => {
+    const get = jest.fn()
+      .mockResolvedValueOnce({ ok: true, json: async () => ({ value: [1], 'odata.nextLink': 'https://site/page2' }) })
+      .mockResolvedValueOnce({ ok: true, json: async () => ({ value: [2] }) });
+    const spHttpClient = { get } as unknown as SPHttpClient;
+
+    const result = await PagingUtils.collectPages(PagingUtils.sharePointPageFetcher<number>(spHttpClient, 'https://site/page1'), { maxItems: 10 });
+
+    expect(result.items).toEqual([1, 2]);
+    expect(get.mock.calls.map(call => call[0])).toEqual(['https://site/page1', 'https://site/page2']);
+  });
+
+  it('sends the headers and signal with every request', async () => {
+    const get = jest.fn().mockResolvedValue({ ok: true, json: async () => ({ value: [1] }) });
+    const spHttpClient = { get } as unknown as SPHttpClient;
+    const headers = { Accept: 'application/json;odata=verbose' };
+    const signal = new AbortController().signal;
+
+    await PagingUtils.sharePointPageFetcher<number>(spHttpClient, 'https://site/page1', headers)(undefined, signal);
+    await PagingUtils.sharePointPageFetcher<number>(spHttpClient, 'https://site/page1')();
+
+    expect(get.mock.calls.map(call => call[2])).toEqual([{ headers, signal }, { headers: undefined, signal: undefined }]);
+  });
+
+  it('fails on an error response', async () => {
+    const spHttpClient = { get: jest.fn().mockResolvedValue({ ok: false, status: 500 }) } as unknown as SPHttpClient;
+
+    await expect(PagingUtils.sharePointPageFetcher(spHttpClient, 'https://site/page1')()).rejects.toThrow('Status: 500');
+  });
+});
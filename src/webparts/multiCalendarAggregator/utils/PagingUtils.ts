@@ -0,0 +1,182 @@
+import { MSGraphClientV3 } from '@microsoft/sp-http-msgraph';
+import { SPHttpClient, SPHttpClientResponse } from '@microsoft/sp-http';
+import { AppConstants } from '../constants/AppConstants';
+
+/**
+ * Single page returned by a page fetcher
+ */
+export interface IPage<T> {
+  items: T[];
+  nextLink?: string;
+}
+
+/**
+ * Items collected across pages
+ */
+export interface IPagedResult<T> {
+  items: T[];
+  truncated: boolean; // More items were available than the limits allowed
+  pageCount: number;
+}
+
+/**
+ * Paging limits, and the signal that cancels paging
+ */
+export interface IPagingOptions<T> {
+  maxItems: number;
+  maxPages?: number;
+  onPage?: (itemsSoFar: T[], pageNumber: number) => void;
+  signal?: AbortSignal;
+}
+
+/**
+ * Fetches the first page when called without a link, otherwise the page at nextLink
+ */
+export type PageFetcher<T> = (nextLink?: string, signal?: AbortSignal) => Promise<IPage<T>>;
+
+export class PagingUtils {
+  /**
+   * Iterate pages until there is no continuation link or a limit is reached.
+   * Each yielded page carries whether more items were left behind.
+   */
+  public static async *iteratePages<T>(
+    fetchPage: PageFetcher<T>,
+    options: IPagingOptions<T>
+  ): AsyncGenerator<IPage<T> & { truncated: boolean }> {
+    const maxPages = options.maxPages || AppConstants.API_LIMITS.MAX_PAGES_PER_QUERY;
+    let nextLink: string | undefined;
+    let itemCount = 0;
+    let pageCount = 0;
+
+    do {
+      const page = await PagingUtils.withTimeout(pageSignal => fetchPage(nextLink, pageSignal), options.signal);
+      pageCount++;
+
+      const remaining = Math.max(0, options.maxItems - itemCount);
+      const items = page.items.slice(0, remaining);
+      itemCount += items.length;
+      nextLink = page.nextLink;
+
+      const limitReached = itemCount >= options.maxItems || pageCount >= maxPages;
+      const truncated = items.length < page.items.length || (!!nextLink && limitReached);
+
+      yield { items, nextLink, truncated };
+
+      if (limitReached) {
+        return;
+      }
+    } while (nextLink);
+  }
+
+  /**
+   * Start a request with a signal of its own, which follows the caller's signal
+   * and is aborted when the request takes longer than the limit. The request then
+   * rejects with a timeout error.
+   */
+  public static async withTimeout<T>(
+    request: (signal: AbortSignal) => Promise<T>,
+    signal?: AbortSignal,
+    milliseconds: number = AppConstants.API_LIMITS.REQUEST_TIMEOUT
+  ): Promise<T> {
+    const controller = new AbortController();
+    const abort = (): void => controller.abort();
+    if (signal?.aborted) {
+      controller.abort();
+    } else {
+      signal?.addEventListener('abort', abort);
+    }
+
+    let timer: number | undefined;
+    const timeout = new Promise<never>((_resolve, reject) => {
+      timer = window.setTimeout(() => {
+        reject(new Error(AppConstants.ERROR_MESSAGES.TIMEOUT_ERROR));
+        controller.abort();
+      }, milliseconds);
+    });
+
+    try {
+      return await Promise.race([request(controller.signal), timeout]);
+    } finally {
+      window.clearTimeout(timer);
+      signal?.removeEventListener('abort', abort);
+    }
+  }
+
+  /**
+   * Collect all pages into a single result, reporting progress after each page
+   */
+  public static async collectPages<T>(fetchPage: PageFetcher<T>, options: IPagingOptions<T>): Promise<IPagedResult<T>> {
+    const items: T[] = [];
+    let truncated = false;
+    let pageCount = 0;
+
+    for await (const page of this.iteratePages(fetchPage, options)) {
+      items.push(...page.items);
+      truncated = page.truncated;
+      pageCount++;
+
+      if (options.onPage) {
+        options.onPage(items, pageCount);
+      }
+    }
+
+    return { items, truncated, pageCount };
+  }
+
+  /**
+   * Page fetcher for SharePoint REST, following odata.nextLink or verbose __next links
+   */
+  public static sharePointPageFetcher<T>(
+    spHttpClient: SPHttpClient,
+    firstPageUrl: string,
+    headers?: Record<string, string>
+  ): PageFetcher<T> {
+    return async (nextLink?: string, signal?: AbortSignal): Promise<IPage<T>> => {
+      const response: SPHttpClientResponse = await spHttpClient.get(
+        nextLink || firstPageUrl,
+        SPHttpClient.configurations.v1,
+        { headers, signal }
+      );
+
+      if (!response.ok) {
+        throw new Error(`Failed to fetch page. Status: ${response.status}`);
+      }
+
+      return PagingUtils.toSharePointPage<T>(await response.json());
+    };
+  }
+
+  /**
+   * A page of a SharePoint REST response, in any of its OData formats
+   */
+  public static toSharePointPage<T>(data: Record<string, unknown> | undefined): IPage<T> {
+    const verbose = data?.d as { results?: T[]; __next?: string } | undefined;
+    return {
+      items: verbose?.results || (data?.value as T[] | undefined) || [],
+      nextLink: verbose?.__next || (data?.['odata.nextLink'] as string | undefined) || (data?.['@odata.nextLink'] as string | undefined)
+    };
+  }
+
+  /**
+   * Page fetcher for Microsoft Graph, following @odata.nextLink. Headers such as
+   * Prefer are not carried by the link, so they are sent again with each page.
+   */
+  public static graphPageFetcher<T>(
+    graphClient: MSGraphClientV3,
+    getFirstPage: (signal?: AbortSignal) => Promise<Record<string, unknown>>,
+    headers?: Record<string, string>
+  ): PageFetcher<T> {
+    return async (nextLink?: string, signal?: AbortSignal): Promise<IPage<T>> => {
+      const request = nextLink ? graphClient.api(nextLink).headers(headers || {}) : undefined;
+      if (request && signal) {
+        request.option('signal', signal);
+      }
+      const response = request ? await request.get() : await getFirstPage(signal);
+
+      return {
+        items: (response.value as T[]) || [],
+        nextLink: response['@odata.nextLink'] as string | undefined
+      };
+    };
+  }
+}
@@ -0,0 +1,51 @@
+import moment from 'moment';
+import 'moment-timezone';
+import { RecurrenceUtils } from './RecurrenceUtils';
+
+const NEW_YORK = 'America/New_York';
+
+describe('RecurrenceUtils.toGraphRecurrence', () => {
+  it('repeats a weekly series on the day it starts in its own zone', () => {
+    // Monday evening in New York is already Tuesday in UTC
+    const seriesStart = moment.tz('2026-03-09 22:00', NEW_YORK).toDate();
+
+    expect(RecurrenceUtils.toGraphRecurrence({ type: 'weekly', interval: 1 }, seriesStart, NEW_YORK)).toEqual({
+      pattern: { type: 'weekly', interval: 1, daysOfWeek: ['monday'], firstDayOfWeek: 'sunday' },
+      range: { type: 'noEnd', startDate: '2026-03-09', recurrenceTimeZone: NEW_YORK }
+    });
+  });
+
+  it('resolves Windows zone names', () => {
+    const seriesStart = moment.tz('2026-01-05 09:00', NEW_YORK).toDate();
+    const recurrence = RecurrenceUtils.toGraphRecurrence({ type: 'daily', interval: 2 }, seriesStart, 'Eastern Standard Time');
+
+    expect(recurrence.range).toEqual({ type: 'noEnd', startDate: '2026-01-05', recurrenceTimeZone: NEW_YORK });
+  });
+
+  it('takes the day of month from the series start in its zone', () => {
+    // The 1st in New York is the 2nd in UTC
+    const seriesStart = moment.tz('2026-04-01 21:00', NEW_YORK).toDate();
+    const recurrence = RecurrenceUtils.toGraphRecurrence({ type: 'monthly', interval: 1 }, seriesStart, NEW_YORK);
+
+    expect(recurrence.pattern).toEqual({ type: 'absoluteMonthly', interval: 1, dayOfMonth: 1 });
+  });
+
+  it('maps the nth weekday of a month and year', () => {
+    const seriesStart = moment.tz('2026-11-26 10:00', NEW_YORK).toDate();
+
+    expect(RecurrenceUtils.toGraphRecurrence({ type: 'yearly', interval: 1, weekOfMonth: 4, daysOfWeek: [4] }, seriesStart, NEW_YORK).pattern)
+      .toEqual({ type: 'relativeYearly', interval: 1, month: 11, index: 'fourth', daysOfWeek: ['thursday'] });
+  });
+
+  it('ends on a date or after a number of occurrences', () => {
+    const seriesStart = moment.tz('2026-01-05 09:00', NEW_YORK).toDate();
+
+    expect(RecurrenceUtils.toGraphRecurrence({ type: 'weekdays', interval: 1, endDate: new Date(2026, 5, 30) }, seriesStart, NEW_YORK))
+      .toEqual({
+        pattern: { type: 'weekly', interval: 1, daysOfWeek: ['monday', 'tuesday', 'wednesday', 'thursday', 'friday'] },
+        range: { type: 'endDate', startDate: '2026-01-05', endDate: '2026-06-30', recurrenceTimeZone: NEW_YORK }
+      });
+    expect(RecurrenceUtils.toGraphRecurrence({ type: 'daily', interval: 1, occurrences: 10 }, seriesStart, NEW_YORK).range)
+      .toEqual({ type: 'numbered', startDate: '2026-01-05', numberOfOccurrences: 10, recurrenceTimeZone: NEW_YORK });
+  });
+});
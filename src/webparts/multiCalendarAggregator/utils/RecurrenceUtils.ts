@@ -1,8 +1,16 @@
 import moment from 'moment';
 import { ICalendarEvent } from '../models/ICalendarModels';
-import { IRecurrencePattern } from '../models/IEventModels';
+import { IRecurrencePattern, IEventCreateRequest, ISeriesOccurrence } from '../models/IEventModels';
+import { DateUtils } from './DateUtils';
 
 export class RecurrenceUtils {
+  private static readonly SHAREPOINT_DAYS = ['su', 'mo', 'tu', 'we', 'th', 'fr', 'sa'];
+  private static readonly MAX_EXPANSION_PERIODS = 10000;
+  private static readonly GRAPH_DAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+  private static readonly WEEK_OF_MONTH_NAMES: { [weekOfMonth: number]: string } = {
+    1: 'first', 2: 'second', 3: 'third', 4: 'fourth', [-1]: 'last'
+  };
+
   /**
    * Parse SharePoint recurrence XML data
    */
@@ -19,6 +27,8 @@ export class RecurrenceUtils {
 
       const repeat = rule.getElementsByTagName('repeat')[0];
       const windowEnd = rule.getElementsByTagName('windowEnd')[0];
+      const repeatInstances = rule.getElementsByTagName('repeatInstances')[0];
+      const firstDayOfWeek = rule.getElementsByTagName('firstDayOfWeek')[0];
 
       if (!repeat) return undefined;
 
@@ -27,49 +37,66 @@ export class RecurrenceUtils {
         interval: 1
       };
 
+      if (firstDayOfWeek && firstDayOfWeek.textContent) {
+        const firstDayIndex = this.SHAREPOINT_DAYS.indexOf(firstDayOfWeek.textContent.trim().toLowerCase());
+        if (firstDayIndex >= 0) pattern.firstDayOfWeek = firstDayIndex;
+      }
+
       // Parse recurrence type and interval
-      if (repeat.getElementsByTagName('daily')[0]) {
-        pattern.type = 'daily';
-        const dailyFreq = repeat.getElementsByTagName('daily')[0].getAttribute('dayFrequency');
-        pattern.interval = dailyFreq ? parseInt(dailyFreq, 10) : 1;
-      } else if (repeat.getElementsByTagName('weekly')[0]) {
+      const daily = repeat.getElementsByTagName('daily')[0];
+      const weekly = repeat.getElementsByTagName('weekly')[0];
+      const monthly = repeat.getElementsByTagName('monthly')[0];
+      const monthlyByDay = repeat.getElementsByTagName('monthlyByDay')[0];
+      const yearly = repeat.getElementsByTagName('yearly')[0];
+      const yearlyByDay = repeat.getElementsByTagName('yearlyByDay')[0];
+
+      if (daily) {
+        if (daily.getAttribute('weekday') === 'TRUE') {
+          // "Every weekday" is stored as a daily rule with the weekday flag
+          pattern.type = 'weekdays';
+        } else {
+          pattern.type = 'daily';
+          pattern.interval = this.parsePositiveInt(daily.getAttribute('dayFrequency'), 1);
+        }
+      } else if (weekly) {
         pattern.type = 'weekly';
-        const weeklyElement = repeat.getElementsByTagName('weekly')[0];
-        const weekFreq = weeklyElement.getAttribute('weekFrequency');
-        pattern.interval = weekFreq ? parseInt(weekFreq, 10) : 1;
-
-        // Parse days of week
-        const daysOfWeek: number[] = [];
-        ['su', 'mo', 'tu', 'we', 'th', 'fr', 'sa'].forEach((day, index) => {
-          if (weeklyElement.getAttribute(day) === 'TRUE') {
-            daysOfWeek.push(index);
-          }
-        });
-        pattern.daysOfWeek = daysOfWeek;
-      } else if (repeat.getElementsByTagName('monthly')[0]) {
+        pattern.interval = this.parsePositiveInt(weekly.getAttribute('weekFrequency'), 1);
+        pattern.daysOfWeek = this.parseSharePointDays(weekly);
+      } else if (monthly) {
         pattern.type = 'monthly';
-        const monthlyElement = repeat.getElementsByTagName('monthly')[0];
-        const monthFreq = monthlyElement.getAttribute('monthFrequency');
-        pattern.interval = monthFreq ? parseInt(monthFreq, 10) : 1;
+        pattern.interval = this.parsePositiveInt(monthly.getAttribute('monthFrequency'), 1);
 
-        const day = monthlyElement.getAttribute('day');
+        const day = monthly.getAttribute('day');
         if (day) {
           pattern.dayOfMonth = parseInt(day, 10);
         }
-      } else if (repeat.getElementsByTagName('yearly')[0]) {
+      } else if (monthlyByDay) {
+        pattern.type = 'monthly';
+        pattern.interval = this.parsePositiveInt(monthlyByDay.getAttribute('monthFrequency'), 1);
+        pattern.weekOfMonth = this.mapSharePointWeekOfMonth(monthlyByDay.getAttribute('weekdayOfMonth'));
+        pattern.daysOfWeek = this.parseSharePointDays(monthlyByDay);
+      } else if (yearly) {
         pattern.type = 'yearly';
-        const yearlyElement = repeat.getElementsByTagName('yearly')[0];
-        const yearFreq = yearlyElement.getAttribute('yearFrequency');
-        pattern.interval = yearFreq ? parseInt(yearFreq, 10) : 1;
+        pattern.interval = this.parsePositiveInt(yearly.getAttribute('yearFrequency'), 1);
 
-        const month = yearlyElement.getAttribute('month');
-        const day = yearlyElement.getAttribute('day');
+        const month = yearly.getAttribute('month');
+        const day = yearly.getAttribute('day');
         if (month) pattern.monthOfYear = parseInt(month, 10);
         if (day) pattern.dayOfMonth = parseInt(day, 10);
+      } else if (yearlyByDay) {
+        pattern.type = 'yearly';
+        pattern.interval = this.parsePositiveInt(yearlyByDay.getAttribute('yearFrequency'), 1);
+        pattern.weekOfMonth = this.mapSharePointWeekOfMonth(yearlyByDay.getAttribute('weekdayOfMonth'));
+        pattern.daysOfWeek = this.parseSharePointDays(yearlyByDay);
+
+        const month = yearlyByDay.getAttribute('month');
+        if (month) pattern.monthOfYear = parseInt(month, 10);
       }
 
-      // Parse end date
-      if (windowEnd) {
+      // Parse end condition (repeatForever has neither)
+      if (repeatInstances && repeatInstances.textContent) {
+        pattern.occurrences = this.parsePositiveInt(repeatInstances.textContent.trim(), 1);
+      } else if (windowEnd) {
         const endDateStr = windowEnd.textContent;
         if (endDateStr) {
           pattern.endDate = new Date(endDateStr);
@@ -83,6 +110,107 @@ export class RecurrenceUtils {
     }
   }
 
+  /**
+   * Build SharePoint recurrence XML for a series starting on the given date.
+   * Days the pattern leaves out are taken from the start as seen in the
+   * site's zone, which SharePoint expands the series in.
+   */
+  public static toSharePointRecurrence(pattern: IRecurrencePattern, seriesStart: Date, timeZone?: string): string {
+    const start = this.inSeriesZone(seriesStart, timeZone);
+    const interval = pattern.interval || 1;
+    const days = pattern.daysOfWeek && pattern.daysOfWeek.length > 0 ? pattern.daysOfWeek : [start.day()];
+    const dayFlags = days.map(day => `${this.SHAREPOINT_DAYS[day]}="TRUE"`).join(' ');
+    const weekOfMonth = this.WEEK_OF_MONTH_NAMES[pattern.weekOfMonth || 1] || 'first';
+
+    let repeat: string;
+    switch (pattern.type) {
+      case 'weekdays': {
+        repeat = '<daily weekday="TRUE" />';
+        break;
+      }
+      case 'weekly': {
+        repeat = `<weekly ${dayFlags} weekFrequency="${interval}" />`;
+        break;
+      }
+      case 'monthly': {
+        repeat = pattern.weekOfMonth
+          ? `<monthlyByDay ${dayFlags} weekdayOfMonth="${weekOfMonth}" monthFrequency="${interval}" />`
+          : `<monthly monthFrequency="${interval}" day="${pattern.dayOfMonth || start.date()}" />`;
+        break;
+      }
+      case 'yearly': {
+        const month = pattern.monthOfYear || start.month() + 1;
+        repeat = pattern.weekOfMonth
+          ? `<yearlyByDay yearFrequency="${interval}" ${dayFlags} weekdayOfMonth="${weekOfMonth}" month="${month}" />`
+          : `<yearly yearFrequency="${interval}" month="${month}" day="${pattern.dayOfMonth || start.date()}" />`;
+        break;
+      }
+      default: {
+        repeat = `<daily dayFrequency="${interval}" />`;
+        break;
+      }
+    }
+
+    let end: string;
+    if (pattern.endDate) {
+      const lastDay = DateUtils.convertFromUserTimezone(moment(pattern.endDate).endOf('day').toDate(), timeZone);
+      end = `<windowEnd>${lastDay.toISOString()}</windowEnd>`;
+    } else if (pattern.occurrences) {
+      end = `<repeatInstances>${pattern.occurrences}</repeatInstances>`;
+    } else {
+      end = '<repeatForever>FALSE</repeatForever>';
+    }
+
+    const firstDayOfWeek = this.SHAREPOINT_DAYS[pattern.firstDayOfWeek || 0];
+    return `<recurrence><rule><firstDayOfWeek>${firstDayOfWeek}</firstDayOfWeek><repeat>${repeat}</repeat>${end}</rule></recurrence>`;
+  }
+
+  /**
+   * Read the day flags (su, mo, ... or day/weekday/weekend_day) of a SharePoint rule element
+   */
+  private static parseSharePointDays(element: Element): number[] {
+    if (element.getAttribute('day') === 'TRUE') {
+      return [0, 1, 2, 3, 4, 5, 6];
+    }
+    if (element.getAttribute('weekday') === 'TRUE') {
+      return [1, 2, 3, 4, 5];
+    }
+    if (element.getAttribute('weekend_day') === 'TRUE') {
+      return [0, 6];
+    }
+
+    const daysOfWeek: number[] = [];
+    this.SHAREPOINT_DAYS.forEach((day, index) => {
+      if (element.getAttribute(day) === 'TRUE') {
+        daysOfWeek.push(index);
+      }
+    });
+    return daysOfWeek;
+  }
+
+  /**
+   * Map SharePoint weekdayOfMonth attribute to our format
+   */
+  private static mapSharePointWeekOfMonth(weekdayOfMonth: string | null): number {
+    const indexMap: { [key: string]: number } = {
+      'first': 1,
+      'second': 2,
+      'third': 3,
+      'fourth': 4,
+      'last': -1
+    };
+
+    return (weekdayOfMonth && indexMap[weekdayOfMonth.toLowerCase()]) || 1;
+  }
+
+  /**
+   * Parse a positive integer attribute, falling back to a default
+   */
+  private static parsePositiveInt(value: string | null, fallback: number): number {
+    const parsed = value ? parseInt(value, 10) : NaN;
+    return isNaN(parsed) || parsed < 1 ? fallback : parsed;
+  }
+
   /**
    * Parse Microsoft Graph recurrence data
    */
@@ -155,6 +283,84 @@ export class RecurrenceUtils {
     }
   }
 
+  /**
+   * Build a Microsoft Graph patternedRecurrence for a series starting on the
+   * given date. Days the pattern leaves out, and the start of the range, are
+   * taken from the start as seen in the zone the series repeats in.
+   */
+  public static toGraphRecurrence(pattern: IRecurrencePattern, seriesStart: Date, timeZone?: string): Record<string, unknown> {
+    const start = this.inSeriesZone(seriesStart, timeZone);
+    const days = pattern.daysOfWeek && pattern.daysOfWeek.length > 0 ? pattern.daysOfWeek : [start.day()];
+    const graphPattern: Record<string, unknown> = { interval: pattern.interval || 1 };
+
+    switch (pattern.type) {
+      case 'weekdays': {
+        graphPattern.type = 'weekly';
+        graphPattern.interval = 1;
+        graphPattern.daysOfWeek = [1, 2, 3, 4, 5].map(day => this.GRAPH_DAYS[day]);
+        break;
+      }
+      case 'weekly': {
+        graphPattern.type = 'weekly';
+        graphPattern.daysOfWeek = days.map(day => this.GRAPH_DAYS[day]);
+        graphPattern.firstDayOfWeek = this.GRAPH_DAYS[pattern.firstDayOfWeek || 0];
+        break;
+      }
+      case 'monthly': {
+        if (pattern.weekOfMonth) {
+          graphPattern.type = 'relativeMonthly';
+          graphPattern.index = this.WEEK_OF_MONTH_NAMES[pattern.weekOfMonth] || 'first';
+          graphPattern.daysOfWeek = days.map(day => this.GRAPH_DAYS[day]);
+        } else {
+          graphPattern.type = 'absoluteMonthly';
+          graphPattern.dayOfMonth = pattern.dayOfMonth || start.date();
+        }
+        break;
+      }
+      case 'yearly': {
+        graphPattern.month = pattern.monthOfYear || start.month() + 1;
+        if (pattern.weekOfMonth) {
+          graphPattern.type = 'relativeYearly';
+          graphPattern.index = this.WEEK_OF_MONTH_NAMES[pattern.weekOfMonth] || 'first';
+          graphPattern.daysOfWeek = days.map(day => this.GRAPH_DAYS[day]);
+        } else {
+          graphPattern.type = 'absoluteYearly';
+          graphPattern.dayOfMonth = pattern.dayOfMonth || start.date();
+        }
+        break;
+      }
+      default: {
+        graphPattern.type = 'daily';
+        break;
+      }
+    }
+
+    const range: Record<string, unknown> = { startDate: start.format('YYYY-MM-DD') };
+    const zone = DateUtils.resolveTimeZone(timeZone);
+    if (zone) {
+      range.recurrenceTimeZone = zone;
+    }
+    if (pattern.endDate) {
+      range.type = 'endDate';
+      range.endDate = moment(pattern.endDate).format('YYYY-MM-DD');
+    } else if (pattern.occurrences) {
+      range.type = 'numbered';
+      range.numberOfOccurrences = pattern.occurrences;
+    } else {
+      range.type = 'noEnd';
+    }
+
+    return { pattern: graphPattern, range };
+  }
+
+  /**
+   * A series start with the wall-clock fields of the zone the series repeats
+   * in, or of the browser without one
+   */
+  private static inSeriesZone(seriesStart: Date, timeZone?: string): moment.Moment {
+    return moment(DateUtils.convertToUserTimezone(seriesStart, timeZone));
+  }
+
   /**
    * Generate recurring events from base event and pattern
    */
@@ -165,41 +371,144 @@ export class RecurrenceUtils {
     endDate: Date,
     maxOccurrences: number = 100
   ): ICalendarEvent[] {
-    const events: ICalendarEvent[] = [];
     const eventDuration = baseEvent.end.getTime() - baseEvent.start.getTime();
-    
-    let currentDate = moment(baseEvent.start);
+
+    // Include instances that started before the range but are still running
+    const rangeStart = new Date(startDate.getTime() - eventDuration);
+
+    return this.getOccurrenceDates(baseEvent.start, pattern, rangeStart, endDate, maxOccurrences).map(occurrence => ({
+      ...baseEvent,
+      id: `${baseEvent.id}_recur_${moment(occurrence).format('YYYYMMDD')}`,
+      start: occurrence,
+      end: new Date(occurrence.getTime() + eventDuration),
+      isRecurring: true,
+      masterSeriesId: baseEvent.id,
+      isException: false,
+      originalStart: occurrence,
+      recurrencePattern: pattern,
+      seriesStart: baseEvent.start
+    }));
+  }
+
+  /**
+   * Enumerate occurrence start dates of a series that fall within a range.
+   * Occurrences are counted from the series start so that occurrence limits
+   * apply to the whole series, not just the requested range.
+   */
+  public static getOccurrenceDates(
+    seriesStart: Date,
+    pattern: IRecurrencePattern,
+    rangeStart: Date,
+    rangeEnd: Date,
+    maxOccurrences: number = 100
+  ): Date[] {
+    const results: Date[] = [];
+    const start = moment(seriesStart);
     let occurrenceCount = 0;
+    let finished = false;
 
-    // Ensure we don't generate events before the requested start date
-    if (currentDate.isBefore(startDate)) {
-      currentDate = moment(startDate);
-      // Adjust to next valid occurrence
-      currentDate = this.getNextOccurrence(currentDate, pattern, moment(baseEvent.start));
-    }
-
-    while (
-      currentDate.isBefore(endDate) &&
-      occurrenceCount < maxOccurrences &&
-      (!pattern.endDate || currentDate.isBefore(pattern.endDate)) &&
-      (!pattern.occurrences || occurrenceCount < pattern.occurrences)
-    ) {
-      // Create recurring event instance
-      const recurringEvent: ICalendarEvent = {
-        ...baseEvent,
-        id: `${baseEvent.id}_recur_${occurrenceCount}`,
-        start: currentDate.toDate(),
-        end: new Date(currentDate.toDate().getTime() + eventDuration)
-      };
+    const accept = (candidate: moment.Moment): void => {
+      if (finished || candidate.isBefore(start)) return;
+
+      if (
+        candidate.isAfter(rangeEnd) ||
+        (pattern.endDate && candidate.isAfter(pattern.endDate, 'day')) ||
+        (pattern.occurrences && occurrenceCount >= pattern.occurrences) ||
+        results.length >= maxOccurrences
+      ) {
+        finished = true;
+        return;
+      }
 
-      events.push(recurringEvent);
       occurrenceCount++;
+      if (!candidate.isBefore(rangeStart)) {
+        results.push(candidate.toDate());
+      }
+    };
+
+    const atStartTime = (day: moment.Moment): moment.Moment => day.clone().set({
+      hour: start.hour(),
+      minute: start.minute(),
+      second: start.second(),
+      millisecond: start.millisecond()
+    });
 
-      // Calculate next occurrence
-      currentDate = this.getNextOccurrence(currentDate, pattern);
+    for (let period = 0; !finished && period < this.MAX_EXPANSION_PERIODS; period++) {
+      switch (pattern.type) {
+        case 'daily': {
+          accept(start.clone().add(period * pattern.interval, 'days'));
+          break;
+        }
+        case 'weekdays': {
+          const day = start.clone().add(period, 'days');
+          if (day.day() !== 0 && day.day() !== 6) {
+            accept(day);
+          }
+          break;
+        }
+        case 'weekly': {
+          const firstDay = pattern.firstDayOfWeek || 0;
+          const weekStart = start.clone().subtract((start.day() - firstDay + 7) % 7, 'days')
+            .add(period * pattern.interval, 'weeks');
+          const days = pattern.daysOfWeek && pattern.daysOfWeek.length > 0 ? pattern.daysOfWeek : [start.day()];
+          const offsets = days.map(day => (day - firstDay + 7) % 7).sort((a, b) => a - b);
+          offsets.forEach(offset => accept(atStartTime(weekStart.clone().add(offset, 'days'))));
+          break;
+        }
+        case 'monthly': {
+          const month = start.clone().startOf('month').add(period * pattern.interval, 'months');
+          const day = this.resolveDayInMonth(month, pattern, start.date());
+          if (day) accept(atStartTime(day));
+          break;
+        }
+        case 'yearly': {
+          const year = start.clone().startOf('year').add(period * pattern.interval, 'years');
+          const month = year.month((pattern.monthOfYear || start.month() + 1) - 1);
+          const day = this.resolveDayInMonth(month, pattern, start.date());
+          if (day) accept(atStartTime(day));
+          break;
+        }
+        default: {
+          // Unknown patterns only produce the original occurrence
+          accept(start.clone());
+          finished = true;
+          break;
+        }
+      }
     }
 
-    return events;
+    return results;
+  }
+
+  /**
+   * Resolve the occurrence day within a month for monthly and yearly patterns.
+   * Relative patterns ("second Tuesday", "last weekday") pick the nth matching
+   * day; absolute patterns fall back to the last day of shorter months.
+   */
+  private static resolveDayInMonth(
+    month: moment.Moment,
+    pattern: IRecurrencePattern,
+    defaultDay: number
+  ): moment.Moment | undefined {
+    if (pattern.weekOfMonth && pattern.daysOfWeek && pattern.daysOfWeek.length > 0) {
+      const matches: moment.Moment[] = [];
+      const cursor = month.clone().startOf('month');
+      const daysInMonth = cursor.daysInMonth();
+
+      for (let i = 0; i < daysInMonth; i++) {
+        if (pattern.daysOfWeek.includes(cursor.day())) {
+          matches.push(cursor.clone());
+        }
+        cursor.add(1, 'day');
+      }
+
+      return pattern.weekOfMonth === -1
+        ? matches[matches.length - 1]
+        : matches[pattern.weekOfMonth - 1];
+    }
+
+    const day = Math.min(pattern.dayOfMonth || defaultDay, month.daysInMonth());
+    return month.clone().date(day);
   }
 
   /**
@@ -281,7 +590,7 @@ export class RecurrenceUtils {
   /**
    * Map Graph API days of week to our format
    */
-  private static mapGraphDaysOfWeek(graphDays: string[]): number[] {
+  public static mapGraphDaysOfWeek(graphDays: string[]): number[] {
     if (!graphDays) return [];
     
     const dayMap: { [key: string]: number } = {
@@ -344,7 +653,8 @@ export class RecurrenceUtils {
    * Check if an event is an exception to a recurring series
    */
   public static isRecurringException(event: ICalendarEvent): boolean {
-    return !!event.isException || !!event.masterSeriesId;
+    // Regular occurrences also carry masterSeriesId, so only the explicit flag counts
+    return !!event.isException;
   }
 
   /**
@@ -626,6 +936,102 @@ export class RecurrenceUtils {
     return summary;
   }
 
+  /**
+   * Zone a series repeats in; all-day series keep their dates in every zone
+   */
+  public static getSeriesTimeZone(master: ICalendarEvent): string | undefined {
+    return master.isAllDay ? undefined : master.timeZone;
+  }
+
+  /**
+   * Move the days a pattern repeats on along with its series, when an
+   * occurrence on one day becomes the start of a series on another. Days are
+   * counted in the zone the series repeats in.
+   */
+  public static shiftPattern(pattern: IRecurrencePattern, from: Date, to: Date, timeZone?: string): IRecurrencePattern {
+    from = DateUtils.convertToUserTimezone(from, timeZone);
+    to = DateUtils.convertToUserTimezone(to, timeZone);
+    const dayOffset = moment(to).startOf('day').diff(moment(from).startOf('day'), 'days');
+    if (dayOffset === 0) {
+      return pattern;
+    }
+
+    const shifted = this.clone(pattern);
+    if (shifted.daysOfWeek && shifted.type !== 'weekdays') {
+      shifted.daysOfWeek = shifted.daysOfWeek.map(day => ((day + dayOffset) % 7 + 7) % 7);
+    }
+    if (shifted.dayOfMonth !== undefined) {
+      shifted.dayOfMonth = to.getDate();
+    }
+    if (shifted.monthOfYear !== undefined) {
+      shifted.monthOfYear = to.getMonth() + 1;
+    }
+    return shifted;
+  }
+
+  /**
+   * New times of an occurrence; a change to one end keeps the other
+   */
+  public static getOccurrenceTimes(occurrence: ISeriesOccurrence, eventData: Partial<IEventCreateRequest>): { start: Date; end: Date } {
+    const { master, occurrenceItem, originalStart } = occurrence;
+    const currentStart = occurrenceItem ? occurrenceItem.start : originalStart;
+    const currentEnd = occurrenceItem ? occurrenceItem.end : new Date(originalStart.getTime() + master.end.getTime() - master.start.getTime());
+    const start = eventData.start || currentStart;
+    return { start, end: eventData.end || new Date(start.getTime() + currentEnd.getTime() - currentStart.getTime()) };
+  }
+
+  /**
+   * Times and rule for a series master when one of its occurrences is moved
+   * for the whole series: the series moves by as much as the occurrence did
+   */
+  public static moveSeries(occurrence: ISeriesOccurrence, eventData: Partial<IEventCreateRequest>): Partial<IEventCreateRequest> {
+    if (!eventData.start && !eventData.end) {
+      return {};
+    }
+
+    const { master, occurrenceItem, originalStart } = occurrence;
+    const { start, end } = this.getOccurrenceTimes(occurrence, eventData);
+    const seriesStart = new Date(master.start.getTime() + start.getTime() - (occurrenceItem ? occurrenceItem.start : originalStart).getTime());
+    const pattern = eventData.recurrence || master.recurrencePattern;
+
+    return {
+      start: seriesStart,
+      end: new Date(seriesStart.getTime() + end.getTime() - start.getTime()),
+      recurrence: pattern && !eventData.recurrence
+        ? RecurrenceUtils.shiftPattern(pattern, master.start, seriesStart, this.getSeriesTimeZone(master))
+        : pattern
+    };
+  }
+
+  /**
+   * Split a series at an occurrence: the first part ends the day before it and
+   * the second starts at the given time, keeping the rest of any occurrence
+   * count. Days are counted in the zone the series repeats in.
+   */
+  public static splitPattern(
+    pattern: IRecurrencePattern,
+    seriesStart: Date,
+    occurrenceStart: Date,
+    newStart: Date,
+    timeZone?: string
+  ): { before: IRecurrencePattern; after: IRecurrencePattern } {
+    seriesStart = DateUtils.convertToUserTimezone(seriesStart, timeZone);
+    occurrenceStart = DateUtils.convertToUserTimezone(occurrenceStart, timeZone);
+    newStart = DateUtils.convertToUserTimezone(newStart, timeZone);
+    const splitDay = moment(occurrenceStart).startOf('day');
+    const earlier = pattern.occurrences
+      ? this.getOccurrenceDates(seriesStart, pattern, seriesStart, new Date(splitDay.valueOf() - 1), pattern.occurrences).length
+      : 0;
+
+    return {
+      before: { ...pattern, endDate: splitDay.clone().subtract(1, 'day').toDate(), occurrences: undefined },
+      after: {
+        ...this.shiftPattern(pattern, occurrenceStart, newStart),
+        occurrences: pattern.occurrences ? pattern.occurrences - earlier : undefined
+      }
+    };
+  }
+
   /**
    * Clone a recurrence pattern
    */
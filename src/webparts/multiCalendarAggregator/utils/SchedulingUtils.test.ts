@@ -0,0 +1,104 @@
+import { SchedulingUtils } from './SchedulingUtils';
+import { IFreeBusyResult, IWorkingHours } from '../models/IEventModels';
+
+const NEW_YORK = 'America/New_York';
+const utc = (time: string): Date => new Date(`2026-03-04T${time}:00Z`);
+
+const workingHours = (timeZone: string, startTime: string = '09:00', endTime: string = '17:00'): IWorkingHours =>
+  ({ timeZone, daysOfWeek: [1, 2, 3, 4, 5], startTime, endTime });
+
+const createResult = (attendee: string, slots: [string, string, IFreeBusyResult['timeSlots'][0]['status']][] = [], hours?: IWorkingHours): IFreeBusyResult => ({
+  attendee,
+  timeSlots: slots.map(([start, end, status]) => ({ start: utc(start), end: utc(end), status })),
+  workingHours: hours
+});
+
+describe('SchedulingUtils.decodeAvailabilityView', () => {
+  it('joins intervals with the same status and leaves out free time', () => {
+    expect(SchedulingUtils.decodeAvailabilityView('0221003', utc('09:00'), 30)).toEqual([
+      { start: utc('09:30'), end: utc('10:30'), status: 'busy' },
+      { start: utc('10:30'), end: utc('11:00'), status: 'tentative' },
+      { start: utc('12:00'), end: utc('12:30'), status: 'outOfOffice' }
+    ]);
+  });
+});
+
+describe('SchedulingUtils.getWorkingWindows', () => {
+  it('shows working hours of another zone on the wall clock of the display zone', () => {
+    const windows = SchedulingUtils.getWorkingWindows(new Date(2026, 2, 4), workingHours('Europe/London'), NEW_YORK);
+
+    // 09:00-17:00 in London is 04:00-12:00 in New York, on the weekdays either side too
+    expect(windows.map(window => [window.start, window.end])).toEqual([
+      [new Date(2026, 2, 3, 4), new Date(2026, 2, 3, 12)],
+      [new Date(2026, 2, 4, 4), new Date(2026, 2, 4, 12)],
+      [new Date(2026, 2, 5, 4), new Date(2026, 2, 5, 12)]
+    ]);
+  });
+
+  it('leaves out days that are not working days in the attendee zone', () => {
+    // Saturday the 7th
+    const windows = SchedulingUtils.getWorkingWindows(new Date(2026, 2, 7), workingHours(NEW_YORK), NEW_YORK);
+
+    expect(windows.map(window => window.start)).toEqual([new Date(2026, 2, 6, 9)]);
+  });
+});
+
+describe('SchedulingUtils.isAvailable', () => {
+  it('is blocked by busy and out-of-office time but not by tentative time', () => {
+    const result = createResult('pat@contoso.com', [['14:00', '15:00', 'busy'], ['16:00', '17:00', 'tentative']]);
+
+    expect(SchedulingUtils.isAvailable(result, utc('14:30'), utc('15:30'), NEW_YORK)).toBe(false);
+    expect(SchedulingUtils.isAvailable(result, utc('15:00'), utc('16:30'), NEW_YORK)).toBe(true);
+    expect(SchedulingUtils.isAvailable({ ...result, error: 'Not found' }, utc('15:00'), utc('16:00'), NEW_YORK)).toBe(false);
+  });
+
+  it('keeps meetings inside known working hours', () => {
+    // 09:00-17:00 in New York is 14:00-22:00 UTC in March after the change to daylight saving time
+    const result = createResult('pat@contoso.com', [], workingHours(NEW_YORK));
+
+    expect(SchedulingUtils.isAvailable(result, utc('14:00'), utc('15:00'), NEW_YORK)).toBe(true);
+    expect(SchedulingUtils.isAvailable(result, utc('13:30'), utc('14:30'), NEW_YORK)).toBe(false);
+  });
+});
+
+describe('SchedulingUtils.suggestMeetingTimes', () => {
+  it('ranks times by attendees available, then tentative time, then start', () => {
+    const results = [
+      createResult('pat@contoso.com', [['14:00', '15:00', 'busy']]),
+      createResult('sam@contoso.com', [['15:00', '16:00', 'tentative']])
+    ];
+
+    const suggestions = SchedulingUtils.suggestMeetingTimes(results, [{ start: utc('14:00'), end: utc('17:00') }], 60, 60, NEW_YORK);
+
+    expect(suggestions.map(suggestion => [suggestion.start, suggestion.confidence, suggestion.reason])).toEqual([
+      [utc('16:00'), 1, 'All 2 attendees available'],
+      [utc('15:00'), 1, 'All 2 attendees available'],
+      [utc('14:00'), 0.5, '1 of 2 available; pat@contoso.com unavailable']
+    ]);
+    expect(suggestions[2].attendeeAvailability).toEqual({ 'pat@contoso.com': false, 'sam@contoso.com': true });
+  });
+
+  it('suggests nothing without attendees', () => {
+    expect(SchedulingUtils.suggestMeetingTimes([], [{ start: utc('14:00'), end: utc('17:00') }], 30, 30, NEW_YORK)).toEqual([]);
+  });
+});
+
+describe('SchedulingUtils.filterRooms', () => {
+  const rooms = [
+    { id: '1', name: 'Fjord', email: 'fjord@contoso.com', capacity: 4, building: 'North', floor: '1', equipment: ['Display'] },
+    { id: '2', name: 'Glacier', email: 'glacier@contoso.com', capacity: 12, building: 'North', floor: '2', equipment: ['Display', 'Video conferencing'] },
+    { id: '3', name: 'Harbour', email: 'harbour@contoso.com', capacity: 20, building: 'South', floor: '2' }
+  ];
+  const names = (criteria: Parameters<typeof SchedulingUtils.filterRooms>[1]): string[] =>
+    SchedulingUtils.filterRooms(rooms, criteria).map(room => room.name);
+
+  it('keeps rooms in the building and on the floor asked for that are big enough', () => {
+    expect(names({})).toEqual(['Fjord', 'Glacier', 'Harbour']);
+    expect(names({ building: 'North' })).toEqual(['Fjord', 'Glacier']);
+    expect(names({ floor: '2', minCapacity: 15 })).toEqual(['Harbour']);
+  });
+
+  it('requires all the equipment asked for', () => {
+    expect(names({ equipment: ['display', 'VIDEO CONFERENCING'] })).toEqual(['Glacier']);
+  });
+});
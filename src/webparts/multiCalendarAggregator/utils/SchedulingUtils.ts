@@ -0,0 +1,165 @@
+import moment from 'moment';
+import 'moment-timezone';
+import { IFreeBusyResult, IFreeBusyTimeSlot, IMeetingSuggestion, IWorkingHours, IMeetingRoom, IRoomSearchCriteria } from '../models/IEventModels';
+import { AppConstants } from '../constants/AppConstants';
+import { DateUtils } from './DateUtils';
+
+export interface ITimeWindow {
+  start: Date;
+  end: Date;
+}
+
+// Digits of a getSchedule availabilityView
+const AVAILABILITY_STATUSES: { [code: string]: IFreeBusyTimeSlot['status'] } = {
+  '0': 'free',
+  '1': 'tentative',
+  '2': 'busy',
+  '3': 'outOfOffice',
+  '4': 'workingElsewhere'
+};
+
+// Statuses that keep an attendee from joining a meeting
+const UNAVAILABLE_STATUSES: IFreeBusyTimeSlot['status'][] = ['busy', 'outOfOffice'];
+
+export class SchedulingUtils {
+  /**
+   * Turn an availabilityView string, one digit per interval from `start`, into
+   * blocks of time that are not free. Adjacent intervals with the same status
+   * form one block.
+   */
+  public static decodeAvailabilityView(view: string, start: Date, intervalMinutes: number): IFreeBusyTimeSlot[] {
+    const intervalMs = intervalMinutes * AppConstants.MILLISECONDS_IN_MINUTE;
+    const slots: IFreeBusyTimeSlot[] = [];
+
+    view.split('').forEach((code, index) => {
+      const status = AVAILABILITY_STATUSES[code];
+      if (!status || status === 'free') return;
+
+      const slotStart = new Date(start.getTime() + index * intervalMs);
+      const previous = slots[slots.length - 1];
+      if (previous && previous.status === status && previous.end.getTime() === slotStart.getTime()) {
+        previous.end = new Date(slotStart.getTime() + intervalMs);
+      } else {
+        slots.push({ start: slotStart, end: new Date(slotStart.getTime() + intervalMs), status });
+      }
+    });
+
+    return slots;
+  }
+
+  /**
+   * Working hours of an attendee around a day, as wall-clock times in the
+   * display zone. Working days are taken in the attendee's own zone, so the
+   * days before and after can reach into this one and a day can start late.
+   */
+  public static getWorkingWindows(day: Date, workingHours: IWorkingHours, displayTimeZone: string): ITimeWindow[] {
+    const zone = DateUtils.resolveTimeZone(workingHours.timeZone) || DateUtils.resolveTimeZone(displayTimeZone) || DateUtils.getBrowserTimeZone();
+    const dayStart = moment(day).startOf('day');
+    const windows: ITimeWindow[] = [];
+
+    [-1, 0, 1].forEach(offset => {
+      const date = dayStart.clone().add(offset, 'day').format('YYYY-MM-DD');
+      const start = moment.tz(`${date} ${workingHours.startTime}`, 'YYYY-MM-DD HH:mm', zone);
+      const end = moment.tz(`${date} ${workingHours.endTime}`, 'YYYY-MM-DD HH:mm', zone);
+      if (!start.isValid() || !end.isValid() || !end.isAfter(start) || workingHours.daysOfWeek.indexOf(start.day()) === -1) return;
+
+      windows.push({
+        start: DateUtils.convertToUserTimezone(start.toDate(), displayTimeZone),
+        end: DateUtils.convertToUserTimezone(end.toDate(), displayTimeZone)
+      });
+    });
+
+    return windows;
+  }
+
+  /**
+   * Whether an attendee can join a meeting: nothing busy or out of office
+   * overlaps it and, when their working hours are known, it falls inside them
+   */
+  public static isAvailable(result: IFreeBusyResult, start: Date, end: Date, displayTimeZone: string): boolean {
+    if (result.error) return false;
+
+    const isBlocked = result.timeSlots.some(slot =>
+      UNAVAILABLE_STATUSES.indexOf(slot.status) !== -1 && slot.start < end && slot.end > start);
+    if (isBlocked) return false;
+
+    if (!result.workingHours) return true;
+    const wallStart = DateUtils.convertToUserTimezone(start, displayTimeZone);
+    const wallEnd = DateUtils.convertToUserTimezone(end, displayTimeZone);
+    return this.getWorkingWindows(wallStart, result.workingHours, displayTimeZone)
+      .some(workingWindow => wallStart >= workingWindow.start && wallEnd <= workingWindow.end);
+  }
+
+  /**
+   * Meeting times inside the given windows of real time, best first: most
+   * attendees available, then fewest tentative, then earliest
+   */
+  public static suggestMeetingTimes(
+    results: IFreeBusyResult[],
+    windows: ITimeWindow[],
+    durationMinutes: number,
+    stepMinutes: number,
+    displayTimeZone: string,
+    maxSuggestions: number = 10
+  ): IMeetingSuggestion[] {
+    if (results.length === 0) return [];
+
+    const durationMs = durationMinutes * AppConstants.MILLISECONDS_IN_MINUTE;
+    const stepMs = stepMinutes * AppConstants.MILLISECONDS_IN_MINUTE;
+    const candidates: { suggestion: IMeetingSuggestion; available: number; tentative: number }[] = [];
+
+    windows.forEach(range => {
+      for (let time = range.start.getTime(); time + durationMs <= range.end.getTime(); time += stepMs) {
+        const start = new Date(time);
+        const end = new Date(time + durationMs);
+        const attendeeAvailability: { [email: string]: boolean } = {};
+        let tentative = 0;
+
+        results.forEach(result => {
+          attendeeAvailability[result.attendee] = this.isAvailable(result, start, end, displayTimeZone);
+          if (result.timeSlots.some(slot => slot.status === 'tentative' && slot.start < end && slot.end > start)) {
+            tentative++;
+          }
+        });
+
+        const unavailable = results.filter(result => !attendeeAvailability[result.attendee]).map(result => result.attendee);
+        const available = results.length - unavailable.length;
+        if (available === 0) continue;
+
+        candidates.push({
+          available,
+          tentative,
+          suggestion: {
+            start,
+            end,
+            confidence: available / results.length,
+            attendeeAvailability,
+            reason: unavailable.length === 0
+              ? `All ${results.length} attendees available`
+              : `${available} of ${results.length} available; ${unavailable.join(', ')} unavailable`
+          }
+        });
+      }
+    });
+
+    return candidates
+      .sort((a, b) => b.available - a.available || a.tentative - b.tentative || a.suggestion.start.getTime() - b.suggestion.start.getTime())
+      .slice(0, maxSuggestions)
+      .map(candidate => candidate.suggestion);
+  }
+
+  /**
+   * Rooms in the building and on the floor asked for, big enough and with all
+   * the equipment asked for
+   */
+  public static filterRooms(rooms: IMeetingRoom[], criteria: IRoomSearchCriteria): IMeetingRoom[] {
+    const equipment = (criteria.equipment || []).map(item => item.toLowerCase());
+
+    return rooms.filter(room =>
+      (!criteria.building || room.building === criteria.building) &&
+      (!criteria.floor || room.floor === criteria.floor) &&
+      (!criteria.minCapacity || room.capacity >= criteria.minCapacity) &&
+      equipment.every(item => (room.equipment || []).some(roomItem => roomItem.toLowerCase() === item))
+    );
+  }
+}
@@ -0,0 +1,125 @@
+import { SearchQueryUtils } from './SearchQueryUtils';
+import { ICalendarEvent, ICalendarSource, CalendarSourceType } from '../models/ICalendarModels';
+
+const now = new Date(2026, 2, 4, 12, 0);
+
+const createEvent = (changes: Partial<ICalendarEvent>): ICalendarEvent => ({
+  id: 'event',
+  title: 'Event',
+  start: new Date(2026, 2, 4, 10, 0),
+  end: new Date(2026, 2, 4, 11, 0),
+  isAllDay: false,
+  isRecurring: false,
+  calendarId: 'team',
+  calendarTitle: 'Team',
+  calendarType: CalendarSourceType.Exchange,
+  color: '#0078d4',
+  organizer: 'Jane Doe',
+  created: new Date(2026, 0, 1),
+  modified: new Date(2026, 0, 1),
+  ...changes
+} as ICalendarEvent);
+
+const createSource = (id: string, title: string): ICalendarSource => ({
+  id,
+  title,
+  description: '',
+  type: CalendarSourceType.Exchange,
+  url: '',
+  siteTitle: '',
+  siteUrl: '',
+  color: '#0078d4',
+  isEnabled: true
+});
+
+describe('SearchQueryUtils.parseQuery', () => {
+  it('reads fields, quoted values, negations and OR groups', () => {
+    const query = 'category:Training organizer:"Jane Doe" -is:recurring OR location:Oslo';
+    const parsed = SearchQueryUtils.parseQuery(query, now);
+
+    expect(parsed.errors).toEqual([]);
+    expect(parsed.groups.map(group => group.map(term => [term.field, term.value, term.negated]))).toEqual([
+      [['category', 'Training', false], ['organizer', 'Jane Doe', false], ['is', 'recurring', true]],
+      [['location', 'Oslo', false]]
+    ]);
+    expect(query.substring(parsed.groups[0][1].start, parsed.groups[0][1].end)).toBe('organizer:"Jane Doe"');
+  });
+
+  it('resolves dates and relative days', () => {
+    const parsed = SearchQueryUtils.parseQuery('after:2026-03-01 before:tomorrow', now);
+
+    expect(parsed.groups[0].map(term => term.date)).toEqual([new Date(2026, 2, 1), new Date(2026, 2, 5)]);
+  });
+
+  it('reports problems with the part of the query they cover and leaves those terms out', () => {
+    const query = 'colour:red is:busy after:someday "open';
+    const parsed = SearchQueryUtils.parseQuery(query, now);
+
+    expect(parsed.errors.map(error => query.substring(error.start, error.end))).toEqual(['colour:red', 'is:busy', 'after:someday', '"open']);
+    expect(parsed.groups).toEqual([[expect.objectContaining({ value: 'open' })]]);
+  });
+
+  it('requires OR to stand between two terms', () => {
+    expect(SearchQueryUtils.parseQuery('OR budget', now).errors).toHaveLength(1);
+    expect(SearchQueryUtils.parseQuery('budget OR', now).errors).toHaveLength(1);
+  });
+});
+
+describe('SearchQueryUtils.matchesQuery', () => {
+  const match = (query: string, event: ICalendarEvent): boolean => SearchQueryUtils.matchesQuery(event, SearchQueryUtils.parseQuery(query, now).groups);
+
+  it('matches every term of one of the groups', () => {
+    const training = createEvent({ title: 'Safety training', category: 'Training', location: 'Bergen' });
+
+    expect(match('category:training safety', training)).toBe(true);
+    expect(match('category:train', training)).toBe(false);
+    expect(match('location:Oslo OR category:training', training)).toBe(true);
+    expect(match('-is:allday organizer:jane', training)).toBe(true);
+    expect(match('is:recurring', training)).toBe(false);
+  });
+
+  it('matches the days of on: by overlap', () => {
+    const overnight = createEvent({ start: new Date(2026, 2, 3, 22, 0), end: new Date(2026, 2, 4, 2, 0) });
+
+    expect(match('on:2026-03-04', overnight)).toBe(true);
+    expect(match('on:2026-03-05', overnight)).toBe(false);
+  });
+});
+
+describe('SearchQueryUtils.toSearchCriteria', () => {
+  it('narrows the search by the fields of a single group', () => {
+    const parsed = SearchQueryUtils.parseQuery('budget calendar:fin on:2026-03-04 importance:High', now);
+    const criteria = SearchQueryUtils.toSearchCriteria(parsed, [createSource('finance', 'Finance'), createSource('team', 'Team')]);
+
+    expect(criteria).toMatchObject({
+      query: 'budget',
+      calendarIds: ['finance'],
+      importance: ['high'],
+      startDate: new Date(2026, 2, 4)
+    });
+    expect(criteria.endDate).toEqual(new Date(2026, 2, 4, 23, 59, 59, 999));
+    expect(criteria.customFilters).toEqual({ searchQuery: parsed.groups });
+  });
+
+  it('only carries the query when there are several groups', () => {
+    const parsed = SearchQueryUtils.parseQuery('budget OR lunch', now);
+
+    expect(SearchQueryUtils.toSearchCriteria(parsed, [])).toEqual({ customFilters: { searchQuery: parsed.groups } });
+  });
+});
+
+describe('SearchQueryUtils.getSuggestions', () => {
+  const lookups = { categories: ['Training', 'Travel'], calendars: ['Team Events'], organizers: [] };
+
+  it('suggests field names and then known values', () => {
+    expect(SearchQueryUtils.getSuggestions('budget cat', lookups).map(suggestion => suggestion.text)).toEqual(['category:']);
+    expect(SearchQueryUtils.getSuggestions('category:tr', lookups).map(suggestion => suggestion.metadata?.query)).toEqual([
+      'category:Training ',
+      'category:Travel '
+    ]);
+  });
+
+  it('quotes values with spaces', () => {
+    expect(SearchQueryUtils.getSuggestions('calendar:team', lookups).map(suggestion => suggestion.text)).toEqual(['calendar:"Team Events"']);
+  });
+});
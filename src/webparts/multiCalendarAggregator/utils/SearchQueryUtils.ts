@@ -0,0 +1,395 @@
+import moment from 'moment';
+import { ICalendarEvent, ICalendarSource } from '../models/ICalendarModels';
+import { IEventSearchCriteria } from '../models/IEventModels';
+import { ISearchSuggestion } from '../models/IFilterModels';
+
+/**
+ * Fields that can scope a search term, e.g. category:Training
+ */
+export type SearchField =
+  | 'title' | 'description' | 'location' | 'category' | 'tag' | 'organizer' | 'attendee'
+  | 'calendar' | 'importance' | 'sensitivity' | 'is' | 'has' | 'after' | 'before' | 'on';
+
+/**
+ * One term of a query. Terms without a field match the event's text.
+ */
+export interface ISearchTerm {
+  field?: SearchField;
+  value: string;
+  negated: boolean;
+  date?: Date; // Start of the day named by after:, before: and on:
+  start: number; // Position of the term in the query text
+  end: number;
+}
+
+/**
+ * Problem in the query text, with the characters it covers
+ */
+export interface ISearchQueryError {
+  message: string;
+  start: number;
+  end: number;
+}
+
+/**
+ * Parsed query: the event must match every term of at least one group.
+ * Groups are separated by OR.
+ */
+export interface ISearchQuery {
+  groups: ISearchTerm[][];
+  errors: ISearchQueryError[];
+}
+
+/**
+ * Values offered by autocomplete
+ */
+export interface ISearchQueryLookups {
+  categories: string[];
+  calendars: string[];
+  organizers: string[];
+}
+
+/**
+ * Parses search box queries such as
+ * category:Training organizer:"Jane Doe" after:2025-03-01 -is:recurring OR location:Oslo
+ */
+export class SearchQueryUtils {
+  public static readonly FIELDS: SearchField[] = [
+    'title', 'description', 'location', 'category', 'tag', 'organizer', 'attendee',
+    'calendar', 'importance', 'sensitivity', 'is', 'has', 'after', 'before', 'on'
+  ];
+
+  private static readonly FIELD_VALUES: { [field: string]: string[] } = {
+    is: ['allday', 'recurring'],
+    has: ['attachments', 'attendees', 'location'],
+    importance: ['high', 'normal', 'low'],
+    sensitivity: ['normal', 'personal', 'private', 'confidential'],
+    after: ['today', 'tomorrow', 'yesterday'],
+    before: ['today', 'tomorrow', 'yesterday'],
+    on: ['today', 'tomorrow', 'yesterday']
+  };
+
+  private static readonly DATE_FIELDS: SearchField[] = ['after', 'before', 'on'];
+  private static readonly MAX_SUGGESTIONS = 8;
+
+  /**
+   * Parse a query; terms with errors are left out of the groups
+   */
+  public static parseQuery(query: string, now: Date = new Date()): ISearchQuery {
+    const errors: ISearchQueryError[] = [];
+    const groups: ISearchTerm[][] = [[]];
+    let pendingOr: { start: number; end: number } | undefined;
+    let i = 0;
+
+    while (i < query.length) {
+      if (/\s/.test(query[i])) {
+        i++;
+        continue;
+      }
+
+      const start = i;
+      const negated = query[i] === '-' && i + 1 < query.length && !/\s/.test(query[i + 1]);
+      if (negated) i++;
+
+      const fieldMatch = /^([a-zA-Z]+):/.exec(query.substring(i));
+      let field: string | undefined;
+      if (fieldMatch) {
+        field = fieldMatch[1].toLowerCase();
+        i += fieldMatch[0].length;
+      }
+
+      let value = '';
+      let quoted = false;
+      if (query[i] === '"') {
+        const closing = query.indexOf('"', i + 1);
+        quoted = true;
+        if (closing === -1) {
+          errors.push({ message: 'Missing closing quote', start: i, end: query.length });
+          value = query.substring(i + 1);
+          i = query.length;
+        } else {
+          value = query.substring(i + 1, closing);
+          i = closing + 1;
+        }
+      } else {
+        while (i < query.length && !/\s/.test(query[i])) {
+          value += query[i];
+          i++;
+        }
+      }
+
+      const end = i;
+
+      if (!field && !negated && !quoted && value === 'OR') {
+        if (groups[groups.length - 1].length === 0 || pendingOr) {
+          errors.push({ message: 'OR must stand between two terms', start, end });
+        }
+        pendingOr = { start, end };
+        continue;
+      }
+
+      if (pendingOr) {
+        groups.push([]);
+        pendingOr = undefined;
+      }
+
+      const term = this.createTerm(field, value.trim(), negated, start, end, now, errors);
+      if (term) {
+        groups[groups.length - 1].push(term);
+      }
+    }
+
+    if (pendingOr && !errors.some(error => error.start === pendingOr!.start)) {
+      errors.push({ message: 'OR must stand between two terms', ...pendingOr });
+    }
+
+    return { groups: groups.filter(group => group.length > 0), errors };
+  }
+
+  /**
+   * Turn a parsed query into search criteria. Criteria fields narrow the search
+   * when the query has a single group; the full query, including negations and
+   * OR, travels in customFilters.searchQuery for exact evaluation.
+   */
+  public static toSearchCriteria(parsed: ISearchQuery, sources: ICalendarSource[]): IEventSearchCriteria {
+    const criteria: IEventSearchCriteria = {};
+    if (parsed.groups.length === 0) {
+      return criteria;
+    }
+
+    criteria.customFilters = { searchQuery: parsed.groups };
+    if (parsed.groups.length > 1) {
+      return criteria;
+    }
+
+    const add = (key: 'categories' | 'tags' | 'organizers' | 'attendees' | 'importance' | 'sensitivity', value: string): void => {
+      criteria[key] = [...(criteria[key] || []), value];
+    };
+    const words: string[] = [];
+    const setStartDate = (date?: Date): void => {
+      if (date && (!criteria.startDate || date > criteria.startDate)) criteria.startDate = date;
+    };
+    const setEndDate = (date?: Date): void => {
+      if (date && (!criteria.endDate || date < criteria.endDate)) criteria.endDate = date;
+    };
+
+    parsed.groups[0].forEach(term => {
+      const value = term.value.toLowerCase();
+
+      if (term.field === 'is' || term.field === 'has') {
+        if (value === 'allday') criteria.isAllDay = !term.negated;
+        if (value === 'recurring') criteria.isRecurring = !term.negated;
+        if (value === 'attachments') criteria.hasAttachments = !term.negated;
+        return;
+      }
+      if (term.negated) {
+        return;
+      }
+
+      switch (term.field) {
+        case undefined:
+          words.push(term.value);
+          break;
+        case 'category':
+          add('categories', term.value);
+          break;
+        case 'tag':
+          add('tags', term.value);
+          break;
+        case 'organizer':
+          add('organizers', term.value);
+          break;
+        case 'attendee':
+          add('attendees', term.value);
+          break;
+        case 'importance':
+          add('importance', value);
+          break;
+        case 'sensitivity':
+          add('sensitivity', value);
+          break;
+        case 'calendar': {
+          const matching = sources.filter(source => source.title.toLowerCase().includes(value)).map(source => source.id);
+          criteria.calendarIds = criteria.calendarIds ? criteria.calendarIds.filter(id => matching.includes(id)) : matching;
+          break;
+        }
+        case 'after':
+          setStartDate(term.date);
+          break;
+        case 'before':
+          setEndDate(term.date && moment(term.date).subtract(1, 'ms').toDate());
+          break;
+        case 'on':
+          setStartDate(term.date);
+          setEndDate(term.date && moment(term.date).endOf('day').toDate());
+          break;
+        default:
+          break;
+      }
+    });
+
+    if (words.length > 0) {
+      criteria.query = words.join(' ');
+    }
+
+    return criteria;
+  }
+
+  /**
+   * Check an event against parsed query groups
+   */
+  public static matchesQuery(event: ICalendarEvent, groups: ISearchTerm[][]): boolean {
+    return groups.length === 0 || groups.some(group => group.every(term => this.matchesTerm(event, term) !== term.negated));
+  }
+
+  /**
+   * Suggest field names or known values for the term being typed at the end of the query
+   */
+  public static getSuggestions(query: string, lookups: ISearchQueryLookups): ISearchSuggestion[] {
+    const match = /(^|\s)(-?)([a-zA-Z]*)(?::("?)([^"]*))?$/.exec(query);
+    if (!match || (!match[3] && match[4] === undefined)) {
+      return [];
+    }
+
+    const termStart = match.index + match[1].length;
+    const prefix = query.substring(0, termStart) + match[2];
+    const typedField = match[3].toLowerCase();
+
+    // Still typing the field name
+    if (match[5] === undefined) {
+      return this.FIELDS
+        .filter(field => field.startsWith(typedField) && field !== typedField)
+        .slice(0, this.MAX_SUGGESTIONS)
+        .map((field, index) => this.createSuggestion(`${prefix}${field}:`, `${field}:`, index));
+    }
+
+    const typedValue = match[5].toLowerCase();
+    const values = this.getKnownValues(typedField as SearchField, lookups);
+
+    return values
+      .filter(value => value.toLowerCase().includes(typedValue) && value.toLowerCase() !== typedValue)
+      .sort((a, b) => Number(!a.toLowerCase().startsWith(typedValue)) - Number(!b.toLowerCase().startsWith(typedValue)))
+      .slice(0, this.MAX_SUGGESTIONS)
+      .map((value, index) => {
+        const written = /[\s"]/.test(value) ? `"${value.replace(/"/g, '')}"` : value;
+        return this.createSuggestion(`${prefix}${typedField}:${written} `, `${typedField}:${written}`, index);
+      });
+  }
+
+  private static createTerm(
+    field: string | undefined,
+    value: string,
+    negated: boolean,
+    start: number,
+    end: number,
+    now: Date,
+    errors: ISearchQueryError[]
+  ): ISearchTerm | undefined {
+    if (field !== undefined && this.FIELDS.indexOf(field as SearchField) === -1) {
+      errors.push({ message: `Unknown field "${field}:". Use one of ${this.FIELDS.join(', ')}`, start, end });
+      return undefined;
+    }
+    if (!value) {
+      if (field) errors.push({ message: `Missing value after "${field}:"`, start, end });
+      return undefined;
+    }
+
+    const term: ISearchTerm = { field: field as SearchField | undefined, value, negated, start, end };
+    const allowed = field ? this.FIELD_VALUES[field] : undefined;
+
+    if (field && this.DATE_FIELDS.indexOf(field as SearchField) !== -1) {
+      term.date = this.parseDate(value, now);
+      if (!term.date) {
+        errors.push({ message: `"${value}" is not a date. Use YYYY-MM-DD, today, tomorrow or yesterday`, start, end });
+        return undefined;
+      }
+    } else if (allowed && allowed.indexOf(value.toLowerCase()) === -1) {
+      errors.push({ message: `Unknown value "${value}" for ${field}:. Use one of ${allowed.join(', ')}`, start, end });
+      return undefined;
+    }
+
+    return term;
+  }
+
+  private static parseDate(value: string, now: Date): Date | undefined {
+    const relative: { [key: string]: number } = { yesterday: -1, today: 0, tomorrow: 1 };
+    if (relative[value.toLowerCase()] !== undefined) {
+      return moment(now).startOf('day').add(relative[value.toLowerCase()], 'days').toDate();
+    }
+
+    const date = moment(value, ['YYYY-MM-DD', 'YYYY-M-D'], true);
+    return date.isValid() ? date.toDate() : undefined;
+  }
+
+  /**
+   * Whether the event has what the term describes, ignoring negation.
+   * Text compares without case; categories, tags and fixed values must match exactly.
+   */
+  private static matchesTerm(event: ICalendarEvent, term: ISearchTerm): boolean {
+    const value = term.value.toLowerCase();
+    const contains = (text?: string): boolean => !!text && text.toLowerCase().includes(value);
+    const equals = (text?: string): boolean => !!text && text.toLowerCase() === value;
+
+    switch (term.field) {
+      case undefined:
+        return contains(event.title) || contains(event.description) || contains(event.location) ||
+          contains(event.organizer) || contains(event.category) ||
+          (event.attendees || []).some(attendee => contains(attendee.name) || contains(attendee.email));
+      case 'title':
+        return contains(event.title);
+      case 'description':
+        return contains(event.description);
+      case 'location':
+        return contains(event.location);
+      case 'category':
+        return equals(event.category);
+      case 'tag':
+        return (event.tags || []).some(tag => equals(tag));
+      case 'organizer':
+        return contains(event.organizer) || contains(event.organizerEmail);
+      case 'attendee':
+        return (event.attendees || []).some(attendee => contains(attendee.name) || contains(attendee.email));
+      case 'calendar':
+        return contains(event.calendarTitle);
+      case 'importance':
+        return (event.importance || 'normal').toLowerCase() === value;
+      case 'sensitivity':
+        return (event.sensitivity || 'normal').toLowerCase() === value;
+      case 'is':
+        return value === 'allday' ? event.isAllDay : event.isRecurring;
+      case 'has':
+        if (value === 'attachments') return (event.attachments || []).length > 0;
+        if (value === 'attendees') return (event.attendees || []).length > 0;
+        return !!event.location;
+      case 'after':
+        return !!term.date && event.end > term.date;
+      case 'before':
+        return !!term.date && event.start < term.date;
+      case 'on': {
+        if (!term.date) return false;
+        const dayEnd = moment(term.date).add(1, 'day').toDate();
+        return event.start < dayEnd && (event.end > term.date || event.start >= term.date);
+      }
+      default:
+        return false;
+    }
+  }
+
+  private static getKnownValues(field: SearchField, lookups: ISearchQueryLookups): string[] {
+    switch (field) {
+      case 'category':
+      case 'tag':
+        return lookups.categories;
+      case 'calendar':
+        return lookups.calendars;
+      case 'organizer':
+        return lookups.organizers;
+      default:
+        return this.FIELD_VALUES[field] || [];
+    }
+  }
+
+  private static createSuggestion(query: string, label: string, index: number): ISearchSuggestion {
+    return { text: label, type: 'autocomplete', score: 1 - index / this.MAX_SUGGESTIONS, metadata: { query } };
+  }
+}
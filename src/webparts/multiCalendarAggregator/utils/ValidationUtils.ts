@@ -39,6 +39,14 @@ export class ValidationUtils {
     return AppConstants.REGEX.GUID.test(guid.trim());
   }
 
+  /**
+   * Validate a calendar ID: a SharePoint list GUID or an opaque Graph calendar ID
+   */
+  public static isValidCalendarId(calendarId: string): boolean {
+    if (!calendarId || typeof calendarId !== 'string') return false;
+    return this.isValidGuid(calendarId) || /^[A-Za-z0-9+/=_-]+$/.test(calendarId.trim());
+  }
+
   /**
    * Validate hex color format
    */
@@ -435,7 +443,7 @@ export class ValidationUtils {
     }
 
     // Calendar ID validation
-    if (request.calendarId && !this.isValidGuid(request.calendarId)) {
+    if (request.calendarId && !this.isValidCalendarId(request.calendarId)) {
       errors.push({
         field: 'calendarId',
         message: 'Invalid calendar ID format',
@@ -531,12 +539,6 @@ export class ValidationUtils {
         message: 'Event ID is required for updates',
         code: 'REQUIRED_FIELD'
       });
-    } else if (!this.isValidGuid(request.id)) {
-      errors.push({
-        field: 'id',
-        message: 'Invalid event ID format',
-        code: 'INVALID_GUID'
-      });
     }
 
     // If dates are provided, validate them
@@ -588,7 +590,7 @@ export class ValidationUtils {
     }
 
     // Validate calendar ID if provided
-    if (request.calendarId !== undefined && !this.isValidGuid(request.calendarId)) {
+    if (request.calendarId !== undefined && !this.isValidCalendarId(request.calendarId)) {
       errors.push({
         field: 'calendarId',
         message: 'Invalid calendar ID format',
@@ -760,7 +762,7 @@ export class ValidationUtils {
 
     // Validate view type
     if (config.viewType !== undefined) {
-      const validViews = ['month', 'week', 'day', 'agenda', 'timeline'];
+      const validViews = ['month', 'week', 'work_week', 'day', 'agenda', 'timeline'];
       if (!validViews.includes(config.viewType as string)) {
         errors.push({
           field: 'viewType',
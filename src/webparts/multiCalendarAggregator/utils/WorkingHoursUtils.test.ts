@@ -0,0 +1,63 @@
+import { WorkingHoursUtils } from './WorkingHoursUtils';
+
+const NEW_YORK = 'America/New_York';
+const WEEKDAYS = [1, 2, 3, 4, 5];
+
+const describePeriods = (periods: { start: Date; end: Date }[]): string[] =>
+  periods.map(period => `${period.start.getDate()} ${period.start.toTimeString().substring(0, 5)}-${period.end.getDate()} ${period.end.toTimeString().substring(0, 5)}`);
+
+describe('WorkingHoursUtils.getWorkingPeriods', () => {
+  it('takes breaks out of a working day', () => {
+    const workingHours = WorkingHoursUtils.createWorkingHours(WEEKDAYS, '09:00', '17:00', NEW_YORK);
+    workingHours.wednesday.breaks = [{ name: 'Lunch', startTime: '12:00', endTime: '13:00' }];
+
+    expect(describePeriods(WorkingHoursUtils.getWorkingPeriods(new Date(2026, 2, 4), workingHours, NEW_YORK))).toEqual([
+      '4 09:00-4 12:00',
+      '4 13:00-4 17:00'
+    ]);
+  });
+
+  it('has no working time on days off', () => {
+    const workingHours = WorkingHoursUtils.createWorkingHours(WEEKDAYS, '09:00', '17:00', NEW_YORK);
+
+    expect(WorkingHoursUtils.getWorkingPeriods(new Date(2026, 2, 7), workingHours, NEW_YORK)).toEqual([]);
+  });
+
+  it('shows hours kept in another zone within the day they reach into', () => {
+    // 09:00-17:00 in Tokyo is 19:00-03:00 in New York before the change to daylight saving time
+    const workingHours = WorkingHoursUtils.createWorkingHours(WEEKDAYS, '09:00', '17:00', 'Asia/Tokyo');
+
+    expect(describePeriods(WorkingHoursUtils.getWorkingPeriods(new Date(2026, 2, 4), workingHours, NEW_YORK))).toEqual([
+      '4 00:00-4 03:00',
+      '4 19:00-5 00:00'
+    ]);
+  });
+});
+
+describe('WorkingHoursUtils.getWorkingRange', () => {
+  it('spans the earliest start and latest end of the days', () => {
+    const workingHours = WorkingHoursUtils.createWorkingHours(WEEKDAYS, '09:00', '17:00', NEW_YORK);
+    workingHours.friday = { isWorkingDay: true, startTime: '07:30', endTime: '12:00', breaks: [] };
+
+    expect(WorkingHoursUtils.getWorkingRange([new Date(2026, 2, 5), new Date(2026, 2, 6)], workingHours, NEW_YORK))
+      .toEqual({ startMinutes: 7.5 * 60, endMinutes: 17 * 60 });
+    expect(WorkingHoursUtils.getWorkingRange([new Date(2026, 2, 7)], workingHours, NEW_YORK)).toBeUndefined();
+  });
+});
+
+describe('WorkingHoursUtils.isWorkingTime', () => {
+  it('includes the start of a period and not its end', () => {
+    const periods = [{ start: new Date(2026, 2, 4, 9), end: new Date(2026, 2, 4, 17) }];
+
+    expect(WorkingHoursUtils.isWorkingTime(new Date(2026, 2, 4, 9), periods)).toBe(true);
+    expect(WorkingHoursUtils.isWorkingTime(new Date(2026, 2, 4, 17), periods)).toBe(false);
+  });
+});
+
+describe('WorkingHoursUtils.skipWeekend', () => {
+  it('moves weekend days to the nearest weekday in the direction given', () => {
+    expect(WorkingHoursUtils.skipWeekend(new Date(2026, 2, 7), 1)).toEqual(new Date(2026, 2, 9));
+    expect(WorkingHoursUtils.skipWeekend(new Date(2026, 2, 8), -1)).toEqual(new Date(2026, 2, 6));
+    expect(WorkingHoursUtils.skipWeekend(new Date(2026, 2, 4), 1)).toEqual(new Date(2026, 2, 4));
+  });
+});
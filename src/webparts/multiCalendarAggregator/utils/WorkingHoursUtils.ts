@@ -0,0 +1,136 @@
+import moment from 'moment';
+import 'moment-timezone';
+import { IWorkingHours, IWorkingDay } from '../models/IConfigurationModels';
+import { DateUtils } from './DateUtils';
+import { ITimeWindow } from './SchedulingUtils';
+
+// Keys of IWorkingHours by day of the week, 0 = Sunday
+const WEEK_DAYS: Exclude<keyof IWorkingHours, 'timeZone'>[] = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+
+const MINUTES_IN_DAY = 24 * 60;
+
+export class WorkingHoursUtils {
+  /**
+   * Working hours that are the same on each of the given days, 0 = Sunday
+   */
+  public static createWorkingHours(daysOfWeek: number[], startTime: string, endTime: string, timeZone: string): IWorkingHours {
+    const getDay = (dayOfWeek: number): IWorkingDay => ({
+      isWorkingDay: daysOfWeek.indexOf(dayOfWeek) !== -1,
+      startTime,
+      endTime,
+      breaks: []
+    });
+
+    return {
+      timeZone,
+      sunday: getDay(0),
+      monday: getDay(1),
+      tuesday: getDay(2),
+      wednesday: getDay(3),
+      thursday: getDay(4),
+      friday: getDay(5),
+      saturday: getDay(6)
+    };
+  }
+
+  /**
+   * The periods of a day that are working time, as wall-clock times in the
+   * display zone, with breaks taken out. Working hours kept in another zone
+   * can start on the day before or run into the day after.
+   */
+  public static getWorkingPeriods(day: Date, workingHours: IWorkingHours, displayTimeZone: string): ITimeWindow[] {
+    const zone = DateUtils.resolveTimeZone(workingHours.timeZone) || DateUtils.resolveTimeZone(displayTimeZone) || DateUtils.getBrowserTimeZone();
+    const dayStart = moment(day).startOf('day');
+    const dayEnd = dayStart.clone().add(1, 'day');
+    const periods: ITimeWindow[] = [];
+
+    [-1, 0, 1].forEach(offset => {
+      const date = dayStart.clone().add(offset, 'day').format('YYYY-MM-DD');
+      const workingDay = workingHours[WEEK_DAYS[moment.tz(date, 'YYYY-MM-DD', zone).day()]];
+      if (!workingDay?.isWorkingDay) return;
+
+      const toDisplayTime = (time: string): Date | undefined => {
+        const parsed = moment.tz(`${date} ${time}`, 'YYYY-MM-DD HH:mm', zone);
+        return parsed.isValid() ? DateUtils.convertToUserTimezone(parsed.toDate(), displayTimeZone) : undefined;
+      };
+      const start = toDisplayTime(workingDay.startTime);
+      const end = toDisplayTime(workingDay.endTime);
+      if (!start || !end || end <= start) return;
+
+      const breaks = (workingDay.breaks || [])
+        .map(pause => ({ start: toDisplayTime(pause.startTime), end: toDisplayTime(pause.endTime) }))
+        .filter((pause): pause is ITimeWindow => !!pause.start && !!pause.end && pause.end > pause.start)
+        .sort((a, b) => a.start.getTime() - b.start.getTime());
+
+      let cursor = start;
+      breaks.forEach(pause => {
+        if (pause.start > cursor) {
+          periods.push({ start: cursor, end: pause.start < end ? pause.start : end });
+        }
+        if (pause.end > cursor) {
+          cursor = pause.end;
+        }
+      });
+      if (cursor < end) {
+        periods.push({ start: cursor, end });
+      }
+    });
+
+    return periods
+      .map(period => ({
+        start: moment.max(moment(period.start), dayStart).toDate(),
+        end: moment.min(moment(period.end), dayEnd).toDate()
+      }))
+      .filter(period => period.end > period.start);
+  }
+
+  /**
+   * Whether a time falls inside one of the working periods
+   */
+  public static isWorkingTime(date: Date, periods: ITimeWindow[]): boolean {
+    return periods.some(period => date >= period.start && date < period.end);
+  }
+
+  /**
+   * Minutes after midnight of the earliest start and latest end of working
+   * time on the given days. Undefined when none of them is a working day.
+   */
+  public static getWorkingRange(
+    days: Date[],
+    workingHours: IWorkingHours,
+    displayTimeZone: string
+  ): { startMinutes: number; endMinutes: number } | undefined {
+    let startMinutes = MINUTES_IN_DAY;
+    let endMinutes = 0;
+
+    days.forEach(day => {
+      const dayStart = moment(day).startOf('day');
+      this.getWorkingPeriods(day, workingHours, displayTimeZone).forEach(period => {
+        startMinutes = Math.min(startMinutes, moment(period.start).diff(dayStart, 'minutes'));
+        endMinutes = Math.max(endMinutes, moment(period.end).diff(dayStart, 'minutes'));
+      });
+    });
+
+    return endMinutes > startMinutes ? { startMinutes, endMinutes } : undefined;
+  }
+
+  /**
+   * Whether a date is on a Saturday or Sunday
+   */
+  public static isWeekend(date: Date): boolean {
+    const day = date.getDay();
+    return day === 0 || day === 6;
+  }
+
+  /**
+   * The date itself, or the nearest weekday in the given direction when it
+   * falls on a weekend
+   */
+  public static skipWeekend(date: Date, direction: 1 | -1): Date {
+    const result = moment(date);
+    while (this.isWeekend(result.toDate())) {
+      result.add(direction, 'day');
+    }
+    return result.toDate();
+  }
+}
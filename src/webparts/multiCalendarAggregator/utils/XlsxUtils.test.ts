@@ -0,0 +1,90 @@
+import { XlsxUtils } from './XlsxUtils';
+
+// The test environment does not provide the encoders browsers have
+const { TextEncoder, TextDecoder } = jest.requireActual('util');
+Object.assign(window, { TextEncoder, TextDecoder });
+
+const readBlob = (blob: Blob): Promise<Uint8Array> => new Promise((resolve, reject) => {
+  const reader = new FileReader();
+  reader.onload = () => resolve(new Uint8Array(reader.result as ArrayBuffer));
+  reader.onerror = () => reject(reader.error);
+  reader.readAsArrayBuffer(blob);
+});
+
+// Files of a ZIP package whose entries are stored without compression
+const readZip = (data: Uint8Array): Map<string, string> => {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  const decoder = new TextDecoder();
+  const files = new Map<string, string>();
+
+  for (let offset = 0; view.getUint32(offset, true) === 0x04034b50;) {
+    const size = view.getUint32(offset + 18, true);
+    const nameLength = view.getUint16(offset + 26, true);
+    const extraLength = view.getUint16(offset + 28, true);
+    const nameStart = offset + 30;
+    const dataStart = nameStart + nameLength + extraLength;
+
+    files.set(decoder.decode(data.slice(nameStart, nameStart + nameLength)), decoder.decode(data.slice(dataStart, dataStart + size)));
+    offset = dataStart + size;
+  }
+
+  return files;
+};
+
+describe('XlsxUtils.createWorkbook', () => {
+  it('packages a workbook with a part for each sheet', async () => {
+    const blob = XlsxUtils.createWorkbook([
+      { name: 'Events', columns: [{ header: 'Title' }], rows: [['Stand-up']] },
+      { name: 'Summary', columns: [{ header: 'Total' }], rows: [[1]] }
+    ]);
+    const files = readZip(await readBlob(blob));
+
+    expect(blob.type).toBe(XlsxUtils.MIME_TYPE);
+    expect(Array.from(files.keys())).toEqual([
+      '[Content_Types].xml',
+      '_rels/.rels',
+      'xl/workbook.xml',
+      'xl/_rels/workbook.xml.rels',
+      'xl/styles.xml',
+      'xl/worksheets/sheet1.xml',
+      'xl/worksheets/sheet2.xml'
+    ]);
+    expect(files.get('xl/workbook.xml')).toContain('<sheet name="Events" sheetId="1" r:id="rId1"/><sheet name="Summary" sheetId="2" r:id="rId2"/>');
+  });
+
+  it('writes text, numbers, booleans and dates as typed cells under a frozen, filtered header', async () => {
+    const blob = XlsxUtils.createWorkbook([{
+      name: 'Events',
+      columns: [{ header: 'Title' }, { header: 'Start', format: 'dateTime' }, { header: 'Hours', format: 'decimal' }, { header: 'All day' }],
+      rows: [['Review <draft> & "notes"', new Date(2026, 0, 2, 12, 0), 1.5, false]]
+    }]);
+    const sheet = readZip(await readBlob(blob)).get('xl/worksheets/sheet1.xml') as string;
+
+    expect(sheet).toContain('<pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/>');
+    expect(sheet).toContain('<autoFilter ref="A1:D2"/>');
+    expect(sheet).toContain('<c r="A2" t="inlineStr"><is><t xml:space="preserve">Review &lt;draft&gt; &amp; &quot;notes&quot;</t></is></c>');
+    expect(sheet).toContain('<c r="B2" s="3"><v>46024.5</v></c>');
+    expect(sheet).toContain('<c r="C2" s="6"><v>1.5</v></c>');
+    expect(sheet).toContain('<c r="D2" t="b"><v>0</v></c>');
+  });
+
+  it('makes sheet names valid and unique', async () => {
+    const blob = XlsxUtils.createWorkbook([
+      { name: 'Team: Events/2026', columns: [], rows: [] },
+      { name: 'team  events 2026', columns: [], rows: [] },
+      { name: 'A calendar with a name longer than Excel allows', columns: [], rows: [] }
+    ]);
+    const workbook = readZip(await readBlob(blob)).get('xl/workbook.xml') as string;
+
+    expect(workbook).toContain('<sheet name="Team Events 2026" sheetId="1"');
+    expect(workbook).toContain('<sheet name="team events 2026 (2)" sheetId="2"');
+    expect(workbook).toContain('<sheet name="A calendar with a name longer t" sheetId="3"');
+  });
+});
+
+describe('XlsxUtils.toSerialDate', () => {
+  it('counts days and fractions of a day from the Excel epoch in local time', () => {
+    expect(XlsxUtils.toSerialDate(new Date(1970, 0, 1))).toBe(25569);
+    expect(XlsxUtils.toSerialDate(new Date(2026, 0, 2, 18, 0))).toBe(46024.75);
+  });
+});
@@ -0,0 +1,413 @@
+/**
+ * Number formats a cell can be shown with
+ */
+export type XlsxNumberFormat = 'general' | 'date' | 'dateTime' | 'time' | 'duration' | 'decimal';
+
+/**
+ * Cell value. Dates are written as Excel serial numbers of their local wall-clock time.
+ */
+export type XlsxCellValue = string | number | boolean | Date | undefined | { value: number | Date; format: XlsxNumberFormat };
+
+/**
+ * Worksheet column
+ */
+export interface IXlsxColumn {
+  header: string;
+  width?: number; // Characters
+  format?: XlsxNumberFormat; // Default format for numbers and dates in the column
+}
+
+/**
+ * Worksheet with a header row, which is frozen and has an auto-filter
+ */
+export interface IXlsxSheet {
+  name: string;
+  columns: IXlsxColumn[];
+  rows: XlsxCellValue[][];
+}
+
+/**
+ * File stored in the workbook package
+ */
+interface IZipEntry {
+  name: Uint8Array;
+  data: Uint8Array;
+  crc: number;
+  offset: number;
+}
+
+/**
+ * Writes Office Open XML workbooks (.xlsx) in the browser. Parts are stored
+ * uncompressed in the ZIP package, which every spreadsheet application accepts.
+ */
+export class XlsxUtils {
+  public static readonly MIME_TYPE = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+
+  private static readonly MAX_SHEET_NAME_LENGTH = 31;
+  private static readonly MAX_CELL_TEXT_LENGTH = 32767;
+  private static readonly EXCEL_EPOCH_OFFSET_DAYS = 25569; // 1970-01-01 as an Excel serial date
+  private static readonly MILLISECONDS_IN_DAY = 24 * 60 * 60 * 1000;
+
+  // Cell style indexes into cellXfs of the stylesheet
+  private static readonly STYLE_INDEXES: { [format in XlsxNumberFormat | 'header']: number } = {
+    general: 0,
+    header: 1,
+    date: 2,
+    dateTime: 3,
+    time: 4,
+    duration: 5,
+    decimal: 6
+  };
+
+  private static crcTable: number[] | undefined;
+
+  /**
+   * Build a workbook from worksheets
+   */
+  public static createWorkbook(sheets: IXlsxSheet[]): Blob {
+    const names = this.getUniqueSheetNames(sheets.map(sheet => sheet.name));
+    const encoder = new TextEncoder();
+    const files: Array<{ path: string; content: string }> = [
+      { path: '[Content_Types].xml', content: this.buildContentTypes(sheets.length) },
+      { path: '_rels/.rels', content: this.buildPackageRelationships() },
+      { path: 'xl/workbook.xml', content: this.buildWorkbook(names, sheets) },
+      { path: 'xl/_rels/workbook.xml.rels', content: this.buildWorkbookRelationships(sheets.length) },
+      { path: 'xl/styles.xml', content: this.buildStyles() },
+      ...sheets.map((sheet, index) => ({ path: `xl/worksheets/sheet${index + 1}.xml`, content: this.buildWorksheet(sheet, index === 0) }))
+    ];
+
+    const zip = this.createZip(files.map(file => ({ path: file.path, data: encoder.encode(file.content) })));
+    return new Blob([zip], { type: this.MIME_TYPE });
+  }
+
+  /**
+   * Excel serial number of a date's local wall-clock time
+   */
+  public static toSerialDate(date: Date): number {
+    const wallClock = Date.UTC(
+      date.getFullYear(), date.getMonth(), date.getDate(),
+      date.getHours(), date.getMinutes(), date.getSeconds(), date.getMilliseconds()
+    );
+    return wallClock / this.MILLISECONDS_IN_DAY + this.EXCEL_EPOCH_OFFSET_DAYS;
+  }
+
+  /**
+   * Sheet names are limited to 31 characters, cannot contain : \ / ? * [ ]
+   * and must be unique regardless of case
+   */
+  private static getUniqueSheetNames(names: string[]): string[] {
+    const used = new Set<string>();
+
+    return names.map((name, index) => {
+      const base = name.replace(/[:\\/?*[\]]/g, ' ').replace(/\s+/g, ' ').replace(/^'+|'+$/g, '').trim() || `Sheet${index + 1}`;
+      let candidate = base.substring(0, this.MAX_SHEET_NAME_LENGTH).trim();
+
+      for (let suffix = 2; used.has(candidate.toLowerCase()); suffix++) {
+        const tail = ` (${suffix})`;
+        candidate = base.substring(0, this.MAX_SHEET_NAME_LENGTH - tail.length).trim() + tail;
+      }
+
+      used.add(candidate.toLowerCase());
+      return candidate;
+    });
+  }
+
+  private static buildContentTypes(sheetCount: number): string {
+    const sheetOverrides = Array.from({ length: sheetCount }, (_, index) =>
+      `<Override PartName="/xl/worksheets/sheet${index + 1}.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>`
+    ).join('');
+
+    return this.xmlDocument(
+      '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+      '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+      '<Default Extension="xml" ContentType="application/xml"/>' +
+      '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+      '<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>' +
+      sheetOverrides +
+      '</Types>'
+    );
+  }
+
+  private static buildPackageRelationships(): string {
+    return this.xmlDocument(
+      '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+      '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>' +
+      '</Relationships>'
+    );
+  }
+
+  /**
+   * Workbook part. Each auto-filter needs a hidden _FilterDatabase name for Excel to keep it.
+   */
+  private static buildWorkbook(names: string[], sheets: IXlsxSheet[]): string {
+    const sheetElements = names.map((name, index) =>
+      `<sheet name="${this.escapeXml(name)}" sheetId="${index + 1}" r:id="rId${index + 1}"/>`
+    ).join('');
+    const filterNames = names.map((name, index) =>
+      `<definedName name="_xlnm._FilterDatabase" localSheetId="${index}" hidden="1">` +
+      `'${this.escapeXml(name.replace(/'/g, "''"))}'!${this.getFilterRange(sheets[index], true)}</definedName>`
+    ).join('');
+
+    return this.xmlDocument(
+      '<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" ' +
+      'xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">' +
+      `<sheets>${sheetElements}</sheets>` +
+      `<definedNames>${filterNames}</definedNames>` +
+      '</workbook>'
+    );
+  }
+
+  private static buildWorkbookRelationships(sheetCount: number): string {
+    const sheetRelationships = Array.from({ length: sheetCount }, (_, index) =>
+      `<Relationship Id="rId${index + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet${index + 1}.xml"/>`
+    ).join('');
+
+    return this.xmlDocument(
+      '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+      sheetRelationships +
+      `<Relationship Id="rId${sheetCount + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>` +
+      '</Relationships>'
+    );
+  }
+
+  /**
+   * Stylesheet with the cell formats listed in STYLE_INDEXES
+   */
+  private static buildStyles(): string {
+    return this.xmlDocument(
+      '<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">' +
+      '<numFmts count="4">' +
+      '<numFmt numFmtId="164" formatCode="yyyy-mm-dd"/>' +
+      '<numFmt numFmtId="165" formatCode="yyyy-mm-dd hh:mm"/>' +
+      '<numFmt numFmtId="166" formatCode="hh:mm"/>' +
+      '<numFmt numFmtId="167" formatCode="[h]:mm"/>' +
+      '</numFmts>' +
+      '<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts>' +
+      '<fills count="3"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill>' +
+      '<fill><patternFill patternType="solid"><fgColor rgb="FFD9E1F2"/><bgColor indexed="64"/></patternFill></fill></fills>' +
+      '<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>' +
+      '<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>' +
+      '<cellXfs count="7">' +
+      '<xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/>' +
+      '<xf numFmtId="0" fontId="1" fillId="2" borderId="0" xfId="0" applyFont="1" applyFill="1"/>' +
+      '<xf numFmtId="164" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>' +
+      '<xf numFmtId="165" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>' +
+      '<xf numFmtId="166" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>' +
+      '<xf numFmtId="167" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>' +
+      '<xf numFmtId="2" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>' +
+      '</cellXfs>' +
+      '<cellStyles count="1"><cellStyle name="Normal" xfId="0" builtinId="0"/></cellStyles>' +
+      '</styleSheet>'
+    );
+  }
+
+  /**
+   * Worksheet part with a frozen, filterable header row
+   */
+  private static buildWorksheet(sheet: IXlsxSheet, isActive: boolean): string {
+    const columns = sheet.columns.map((column, index) =>
+      `<col min="${index + 1}" max="${index + 1}" width="${column.width || 15}" customWidth="1"/>`
+    ).join('');
+
+    const headerCells = sheet.columns.map((column, index) =>
+      this.buildCell(this.getCellReference(index, 1), column.header, 'general', this.STYLE_INDEXES.header)
+    ).join('');
+
+    const rows = sheet.rows.map((row, rowIndex) => {
+      const cells = row.map((value, columnIndex) =>
+        this.buildCell(this.getCellReference(columnIndex, rowIndex + 2), value, sheet.columns[columnIndex]?.format || 'general')
+      ).join('');
+      return `<row r="${rowIndex + 2}">${cells}</row>`;
+    }).join('');
+
+    return this.xmlDocument(
+      '<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" ' +
+      'xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">' +
+      `<dimension ref="${this.getFilterRange(sheet, false)}"/>` +
+      `<sheetViews><sheetView workbookViewId="0"${isActive ? ' tabSelected="1"' : ''}>` +
+      '<pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/>' +
+      '<selection pane="bottomLeft" activeCell="A2" sqref="A2"/>' +
+      '</sheetView></sheetViews>' +
+      '<sheetFormatPr defaultRowHeight="15"/>' +
+      (columns ? `<cols>${columns}</cols>` : '') +
+      `<sheetData><row r="1">${headerCells}</row>${rows}</sheetData>` +
+      (sheet.columns.length > 0 ? `<autoFilter ref="${this.getFilterRange(sheet, false)}"/>` : '') +
+      '</worksheet>'
+    );
+  }
+
+  /**
+   * Write one cell. Text is stored inline so no shared string table is needed.
+   */
+  private static buildCell(reference: string, cell: XlsxCellValue, columnFormat: XlsxNumberFormat, styleIndex?: number): string {
+    if (cell === undefined || cell === null || cell === '') {
+      return '';
+    }
+
+    const { value, format } = cell instanceof Date || typeof cell !== 'object'
+      ? { value: cell, format: columnFormat }
+      : cell;
+    const style = (formatStyle: number): string => {
+      const index = styleIndex !== undefined ? styleIndex : formatStyle;
+      return index ? ` s="${index}"` : '';
+    };
+
+    if (value instanceof Date) {
+      if (isNaN(value.getTime())) return '';
+      const dateFormat = format === 'general' ? 'dateTime' : format;
+      return `<c r="${reference}"${style(this.STYLE_INDEXES[dateFormat])}><v>${this.toSerialDate(value)}</v></c>`;
+    }
+    if (typeof value === 'number') {
+      if (!isFinite(value)) return '';
+      return `<c r="${reference}"${style(this.STYLE_INDEXES[format])}><v>${value}</v></c>`;
+    }
+    if (typeof value === 'boolean') {
+      return `<c r="${reference}" t="b"${style(0)}><v>${value ? 1 : 0}</v></c>`;
+    }
+
+    const text = this.escapeXml(this.removeInvalidXmlCharacters(String(value)).substring(0, this.MAX_CELL_TEXT_LENGTH));
+    return `<c r="${reference}" t="inlineStr"${style(0)}><is><t xml:space="preserve">${text}</t></is></c>`;
+  }
+
+  /**
+   * Range covered by the header and rows, e.g. A1:F20, optionally absolute ($A$1:$F$20)
+   */
+  private static getFilterRange(sheet: IXlsxSheet, absolute: boolean): string {
+    const lastColumn = this.getColumnName(Math.max(sheet.columns.length - 1, 0));
+    const lastRow = sheet.rows.length + 1;
+    return absolute ? `$A$1:$${lastColumn}$${lastRow}` : `A1:${lastColumn}${lastRow}`;
+  }
+
+  private static getCellReference(columnIndex: number, row: number): string {
+    return `${this.getColumnName(columnIndex)}${row}`;
+  }
+
+  /**
+   * Column letters for a zero-based index: 0 is A, 25 is Z, 26 is AA
+   */
+  private static getColumnName(index: number): string {
+    let name = '';
+    for (let remaining = index + 1; remaining > 0; remaining = Math.floor((remaining - 1) / 26)) {
+      name = String.fromCharCode(65 + (remaining - 1) % 26) + name;
+    }
+    return name;
+  }
+
+  private static xmlDocument(body: string): string {
+    return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\r\n${body}`;
+  }
+
+  private static escapeXml(text: string): string {
+    return text
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;');
+  }
+
+  /**
+   * XML 1.0 does not allow control characters other than tab, line feed and carriage return
+   */
+  private static removeInvalidXmlCharacters(text: string): string {
+    let result = '';
+    for (let i = 0; i < text.length; i++) {
+      const code = text.charCodeAt(i);
+      if (code >= 0x20 || code === 0x09 || code === 0x0a || code === 0x0d) {
+        result += text[i];
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Package files into a ZIP archive using the stored (uncompressed) method
+   */
+  private static createZip(files: Array<{ path: string; data: Uint8Array }>): Uint8Array {
+    const encoder = new TextEncoder();
+    const { time, date } = this.getDosDateTime(new Date());
+    const entries: IZipEntry[] = [];
+    const chunks: Uint8Array[] = [];
+    let offset = 0;
+
+    for (const file of files) {
+      const entry: IZipEntry = { name: encoder.encode(file.path), data: file.data, crc: this.crc32(file.data), offset };
+      const header = new DataView(new ArrayBuffer(30));
+      header.setUint32(0, 0x04034b50, true); // Local file header signature
+      header.setUint16(4, 20, true); // Version needed to extract
+      header.setUint16(6, 0x0800, true); // File names are UTF-8
+      header.setUint16(8, 0, true); // Stored
+      header.setUint16(10, time, true);
+      header.setUint16(12, date, true);
+      header.setUint32(14, entry.crc, true);
+      header.setUint32(18, entry.data.length, true);
+      header.setUint32(22, entry.data.length, true);
+      header.setUint16(26, entry.name.length, true);
+      header.setUint16(28, 0, true);
+
+      chunks.push(new Uint8Array(header.buffer), entry.name, entry.data);
+      offset += 30 + entry.name.length + entry.data.length;
+      entries.push(entry);
+    }
+
+    const directoryOffset = offset;
+    for (const entry of entries) {
+      const header = new DataView(new ArrayBuffer(46));
+      header.setUint32(0, 0x02014b50, true); // Central directory signature
+      header.setUint16(4, 20, true); // Version made by
+      header.setUint16(6, 20, true);
+      header.setUint16(8, 0x0800, true);
+      header.setUint16(10, 0, true);
+      header.setUint16(12, time, true);
+      header.setUint16(14, date, true);
+      header.setUint32(16, entry.crc, true);
+      header.setUint32(20, entry.data.length, true);
+      header.setUint32(24, entry.data.length, true);
+      header.setUint16(28, entry.name.length, true);
+      header.setUint32(42, entry.offset, true);
+
+      chunks.push(new Uint8Array(header.buffer), entry.name);
+      offset += 46 + entry.name.length;
+    }
+
+    const end = new DataView(new ArrayBuffer(22));
+    end.setUint32(0, 0x06054b50, true); // End of central directory signature
+    end.setUint16(8, entries.length, true);
+    end.setUint16(10, entries.length, true);
+    end.setUint32(12, offset - directoryOffset, true);
+    end.setUint32(16, directoryOffset, true);
+    chunks.push(new Uint8Array(end.buffer));
+
+    const zip = new Uint8Array(offset + 22);
+    let position = 0;
+    chunks.forEach(chunk => {
+      zip.set(chunk, position);
+      position += chunk.length;
+    });
+    return zip;
+  }
+
+  private static getDosDateTime(date: Date): { time: number; date: number } {
+    return {
+      time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+      date: ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate()
+    };
+  }
+
+  private static crc32(data: Uint8Array): number {
+    if (!this.crcTable) {
+      this.crcTable = Array.from({ length: 256 }, (_, n) => {
+        let c = n;
+        for (let k = 0; k < 8; k++) {
+          c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+        }
+        return c >>> 0;
+      });
+    }
+
+    let crc = 0xffffffff;
+    for (let i = 0; i < data.length; i++) {
+      crc = this.crcTable[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+    }
+    return (crc ^ 0xffffffff) >>> 0;
+  }
+}